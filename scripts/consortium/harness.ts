@@ -0,0 +1,326 @@
+// Local multi-validator harness for the ledger consortium
+//
+// Starts a proof-of-authority consortium of validator nodes (see node.ts) with
+// no external network, and runs it through a scenario: ordinary traffic, a new
+// organisation voted in, the due proposer going offline so the round moves
+// on, the offline node catching up, and a validator voted out. At the end
+// every node's chain is replayed from genesis and the nodes must agree on
+// the chain head.
+//
+// Run it with Deno, with every node in this process:
+//
+//   deno run scripts/consortium/harness.ts
+//
+// or with each node in its own worker, passing messages between them:
+//
+//   deno run --allow-read scripts/consortium/harness.ts --workers
+//
+// Options: --validators <n> (initial validators, 3 or more, default 4),
+// --blocks <n> (blocks of traffic per phase, default 3), --seed <seed> (which
+// node submits each transaction). Exits 0 when the nodes agree and every chain
+// verifies.
+
+import { createSeededGenerator, createMockRandom } from '../../supabase/functions/_shared/random.ts';
+import { VALIDATOR_VOTE_OPERATION, Validator, quorumSize } from '../../supabase/functions/_shared/consensus.ts';
+import {
+  CommittedBlock,
+  ConsortiumMessage,
+  NodeStatus,
+  ValidatorNode,
+  createGenesisBlock,
+  createValidatorIdentity,
+  verifyChain
+} from './node.ts';
+
+const ORGANISATIONS = [
+  'EcoFreight',
+  'Northwind Logistics',
+  'Harbor Customs',
+  'GreenPort Terminals',
+  'Atlas Carriers',
+  'Meridian Insurance',
+  'Summit Retail',
+  'Bluewater Shipping'
+];
+
+const STATUSES = ['pending', 'in_transit', 'delivered'];
+
+// Rounds to try before giving up on a block
+const MAX_ROUNDS = 10;
+
+interface HarnessOptions {
+  validators: number;
+  blocks: number;
+  workers: boolean;
+  seed: string;
+}
+
+// The same calls whether a node runs in this process or in a worker
+interface NodeHandle {
+  readonly validator: Validator;
+  submit(operation: string, payload: Record<string, unknown>): Promise<ConsortiumMessage[]>;
+  propose(): Promise<ConsortiumMessage[]>;
+  receive(message: ConsortiumMessage): Promise<ConsortiumMessage[]>;
+  timeout(): Promise<ConsortiumMessage[]>;
+  sync(chain: CommittedBlock[]): Promise<void>;
+  status(): Promise<NodeStatus>;
+  exportChain(): Promise<CommittedBlock[]>;
+  close(): void;
+}
+
+class LocalNode implements NodeHandle {
+  private constructor(private readonly node: ValidatorNode) {}
+
+  static async start(organisation: string): Promise<LocalNode> {
+    return new LocalNode(new ValidatorNode(await createValidatorIdentity(organisation)));
+  }
+
+  get validator() { return this.node.validator; }
+  submit(operation: string, payload: Record<string, unknown>) { return this.node.submit(operation, payload); }
+  propose() { return this.node.propose(); }
+  receive(message: ConsortiumMessage) { return this.node.receive(message); }
+  timeout() { return this.node.timeout(); }
+  sync(chain: CommittedBlock[]) { return this.node.sync(chain); }
+  async status() { return this.node.status(); }
+  async exportChain() { return this.node.exportChain(); }
+  close() {}
+}
+
+class WorkerNode implements NodeHandle {
+  private nextId = 0;
+  private calls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  private constructor(private readonly worker: Worker, public validator: Validator) {}
+
+  static async start(organisation: string): Promise<WorkerNode> {
+    const worker = new Worker(new URL('./worker.ts', import.meta.url).href, { type: 'module' });
+    const node = new WorkerNode(worker, null as unknown as Validator);
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: unknown; error?: string }>) => {
+      const call = node.calls.get(event.data.id);
+      node.calls.delete(event.data.id);
+      if (event.data.error !== undefined) call?.reject(new Error(event.data.error));
+      else call?.resolve(event.data.result);
+    };
+    node.validator = await node.call<Validator>('init', organisation);
+    return node;
+  }
+
+  private call<T>(method: string, ...args: unknown[]): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.calls.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.worker.postMessage({ id, method, args });
+    });
+  }
+
+  submit(operation: string, payload: Record<string, unknown>) { return this.call<ConsortiumMessage[]>('submit', operation, payload); }
+  propose() { return this.call<ConsortiumMessage[]>('propose'); }
+  receive(message: ConsortiumMessage) { return this.call<ConsortiumMessage[]>('receive', message); }
+  timeout() { return this.call<ConsortiumMessage[]>('timeout'); }
+  sync(chain: CommittedBlock[]) { return this.call<void>('sync', chain); }
+  status() { return this.call<NodeStatus>('status'); }
+  exportChain() { return this.call<CommittedBlock[]>('exportChain'); }
+  close() { this.worker.terminate(); }
+}
+
+// Delivers every broadcast to every other online node, in the order sent
+class ConsortiumNetwork {
+  readonly nodes: NodeHandle[] = [];
+  private offline = new Set<string>();
+  private inFlight: { from: string; message: ConsortiumMessage }[] = [];
+
+  add(node: NodeHandle): void {
+    this.nodes.push(node);
+  }
+
+  get online(): NodeHandle[] {
+    return this.nodes.filter((node) => !this.offline.has(node.validator.address));
+  }
+
+  find(address: string): NodeHandle {
+    const node = this.nodes.find((n) => n.validator.address === address);
+    if (!node) throw new Error(`No node for ${address}`);
+    return node;
+  }
+
+  setOnline(node: NodeHandle, online: boolean): void {
+    if (online) this.offline.delete(node.validator.address);
+    else this.offline.add(node.validator.address);
+  }
+
+  send(from: NodeHandle, messages: ConsortiumMessage[]): void {
+    this.inFlight.push(...messages.map((message) => ({ from: from.validator.address, message })));
+  }
+
+  // Deliver until nothing is left in flight; messages to offline nodes are lost
+  async settle(): Promise<void> {
+    while (this.inFlight.length > 0) {
+      const { from, message } = this.inFlight.shift()!;
+      for (const node of this.online) {
+        if (node.validator.address === from) continue;
+        this.send(node, await node.receive(message));
+      }
+    }
+  }
+
+  async heights(): Promise<number[]> {
+    return Promise.all(this.online.map(async (node) => (await node.status()).height));
+  }
+
+  // Run rounds until every online node has committed the next block; returns the round it was sealed in
+  async produceBlock(): Promise<number> {
+    const target = Math.max(...await this.heights()) + 1;
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      for (const node of this.online) {
+        this.send(node, round === 0 ? await node.propose() : await node.timeout());
+      }
+      await this.settle();
+
+      if ((await this.heights()).every((height) => height >= target)) return round;
+    }
+
+    throw new Error(`Block ${target - 1} was not sealed after ${MAX_ROUNDS} rounds`);
+  }
+}
+
+function parseOptions(args: string[]): HarnessOptions {
+  const options: HarnessOptions = { validators: 4, blocks: 3, workers: false, seed: 'consortium' };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--workers':
+        options.workers = true;
+        break;
+      case '--validators':
+        options.validators = Number(args[++i]);
+        break;
+      case '--blocks':
+        options.blocks = Number(args[++i]);
+        break;
+      case '--seed':
+        options.seed = args[++i];
+        break;
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  // Three is the smallest set that still reaches a quorum once it has grown by one and lost a node to the outage
+  if (!Number.isInteger(options.validators) || options.validators < 3 || options.validators >= ORGANISATIONS.length) {
+    throw new Error(`--validators must be between 3 and ${ORGANISATIONS.length - 1}`);
+  }
+  if (!Number.isInteger(options.blocks) || options.blocks < 1) {
+    throw new Error('--blocks must be a positive integer');
+  }
+  return options;
+}
+
+async function describeHead(network: ConsortiumNetwork): Promise<string> {
+  const chain = await network.online[0].exportChain();
+  const { block, signatures, transactions } = chain[chain.length - 1];
+  const proposer = network.find(block.proposer!).validator.organisation;
+  return `block #${block.number} (${transactions.length} tx) proposed by ${proposer}` +
+    `${block.round ? ` in round ${block.round}` : ''}, signed by ${signatures.length}`;
+}
+
+async function run(options: HarnessOptions): Promise<boolean> {
+  const random = createMockRandom(createSeededGenerator(options.seed));
+  const startNode = (organisation: string) => options.workers ? WorkerNode.start(organisation) : LocalNode.start(organisation);
+  const network = new ConsortiumNetwork();
+
+  console.log(`Starting ${options.validators} validators ${options.workers ? 'in workers' : 'in-process'}`);
+  for (const organisation of ORGANISATIONS.slice(0, options.validators)) {
+    network.add(await startNode(organisation));
+  }
+
+  const genesis = await createGenesisBlock(network.nodes.map((node) => node.validator));
+  for (const node of network.nodes) await node.sync([genesis]);
+  console.log(`Genesis ${genesis.block.hash.slice(0, 18)}… names ${network.nodes.length} validators, quorum ${quorumSize(network.nodes.length)}`);
+
+  const traffic = async (phase: string) => {
+    for (let i = 0; i < options.blocks; i++) {
+      const sender = random.pick(network.online);
+      network.send(sender, await sender.submit('update_status', { shipmentId: random.uuid(), status: random.pick(STATUSES) }));
+      await network.settle();
+      await network.produceBlock();
+      console.log(`  [${phase}] ${await describeHead(network)}`);
+    }
+  };
+
+  // Votes from enough current validators to decide, sealed into one block
+  const vote = async (action: 'add' | 'remove', subject: Validator) => {
+    const { validators } = await network.online[0].status();
+    const voters = validators
+      .filter((validator) => validator.address !== subject.address)
+      .slice(0, quorumSize(validators.length));
+    for (const voter of voters) {
+      const node = network.find(voter.address);
+      network.send(node, await node.submit(VALIDATOR_VOTE_OPERATION, {
+        action,
+        validator: subject.address,
+        organisation: subject.organisation,
+        publicKey: action === 'add' ? subject.publicKey : undefined
+      }));
+    }
+    await network.settle();
+    await network.produceBlock();
+    console.log(`  [${action}] ${voters.length} votes to ${action} ${subject.organisation}: ${await describeHead(network)}`);
+  };
+
+  try {
+    console.log('Traffic');
+    await traffic('traffic');
+
+    const newcomer = await startNode(ORGANISATIONS[options.validators]);
+    await newcomer.sync(await network.online[0].exportChain());
+    network.add(newcomer);
+    console.log(`${newcomer.validator.organisation} joins`);
+    await vote('add', newcomer.validator);
+    await traffic('traffic');
+
+    const { nextProposer } = await network.online[0].status();
+    const absent = network.find(nextProposer!);
+    network.setOnline(absent, false);
+    console.log(`${absent.validator.organisation}, due to propose next, goes offline`);
+    await traffic('outage');
+
+    network.setOnline(absent, true);
+    const peer = network.online.find((node) => node !== absent)!;
+    await absent.sync(await peer.exportChain());
+    console.log(`${absent.validator.organisation} comes back and catches up to height ${(await absent.status()).height}`);
+
+    const leaving = network.nodes[0];
+    console.log(`${leaving.validator.organisation} leaves`);
+    await vote('remove', leaving.validator);
+    await traffic('traffic');
+
+    console.log('Checking every node');
+    let agreed = true;
+    const heads = new Set<string>();
+    for (const node of network.nodes) {
+      const status = await node.status();
+      const problem = await verifyChain(await node.exportChain());
+      heads.add(status.headHash);
+      agreed &&= problem === null;
+      console.log(`  ${status.organisation.padEnd(20)} height ${status.height}, head ${status.headHash.slice(0, 18)}…, ` +
+        `${status.isValidator ? 'validator' : 'observer'}: ${problem ?? 'chain verifies'}`);
+    }
+
+    if (heads.size !== 1) {
+      console.log(`Nodes disagree on the chain head (${heads.size} different heads)`);
+      return false;
+    }
+    console.log(agreed ? 'All nodes agree and every chain verifies' : 'Some chains failed to verify');
+    return agreed;
+  } finally {
+    network.nodes.forEach((node) => node.close());
+  }
+}
+
+try {
+  Deno.exit(await run(parseOptions(Deno.args)) ? 0 : 1);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  Deno.exit(1);
+}
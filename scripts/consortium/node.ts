@@ -0,0 +1,389 @@
+// A validator node for the local consortium harness
+//
+// Each node keeps its own copy of the chain and a mempool and follows the
+// proof-of-authority rules in supabase/functions/_shared/consensus.ts: it
+// proposes a block when the rotation reaches it, signs valid proposals from
+// the expected proposer, and commits a block once it holds signatures from a
+// quorum of the validator set.
+//
+// Nodes never talk to each other directly. Every method returns the messages
+// the node wants broadcast, and the harness delivers them, either in-process
+// or between Deno workers (see harness.ts).
+//
+// A validator signs at most one proposal per round at a height. Like other
+// PoA engines this favours liveness over finality across round changes; the
+// harness only times a round out once every message in flight has arrived.
+
+import {
+  BlockSignature,
+  CONSORTIUM_GENESIS_OPERATION,
+  ConsensusState,
+  EMPTY_CONSENSUS_STATE,
+  GOVERNANCE_OPERATIONS,
+  Validator,
+  applyGovernance,
+  checkBlockSeal,
+  checkGovernanceTransaction,
+  getProposer,
+  signBlockHash,
+  verifyBlockSignature
+} from '../../supabase/functions/_shared/consensus.ts';
+import {
+  GENESIS_PREVIOUS_HASH,
+  LEDGER_REGISTRY_ADDRESS,
+  LEDGER_SYSTEM_ADDRESS,
+  LedgerBlock,
+  LedgerTransaction,
+  computeBlockHash,
+  computeMerkleRoot,
+  computeTransactionHash
+} from '../../supabase/functions/_shared/ledger.ts';
+import { validateOperationPayload } from '../../supabase/functions/_shared/payloadSchemas.ts';
+import { generateKeyPair } from '../../supabase/functions/_shared/signing.ts';
+import { deriveWalletAddress } from '../../supabase/functions/_shared/wallets.ts';
+
+export interface CommittedBlock {
+  block: LedgerBlock;
+  transactions: LedgerTransaction[];
+  signatures: BlockSignature[];
+}
+
+export type ConsortiumMessage =
+  | { type: 'transaction'; transaction: LedgerTransaction }
+  | { type: 'proposal'; block: LedgerBlock; transactions: LedgerTransaction[]; signature: BlockSignature }
+  | { type: 'signature'; blockNumber: number; blockHash: string; signature: BlockSignature };
+
+export interface NodeStatus {
+  address: string;
+  organisation: string;
+  isValidator: boolean;
+  // Blocks committed, which is also the number of the next block
+  height: number;
+  headHash: string;
+  round: number;
+  validators: Validator[];
+  // Validator due to propose the next block in the current round
+  nextProposer: string | null;
+  mempool: number;
+}
+
+export interface ValidatorIdentity {
+  validator: Validator;
+  privateKey: JsonWebKey;
+}
+
+export async function createValidatorIdentity(organisation: string): Promise<ValidatorIdentity> {
+  const keyPair = await generateKeyPair();
+  return {
+    validator: {
+      address: await deriveWalletAddress(keyPair.publicKey),
+      organisation,
+      publicKey: keyPair.publicKey
+    },
+    privateKey: keyPair.privateKey
+  };
+}
+
+// Block 0 of a harness chain, naming the first validators. It has a fixed
+// timestamp, so every node that builds it from the same set gets the same hash.
+export async function createGenesisBlock(validators: Validator[]): Promise<CommittedBlock> {
+  const tx = {
+    from: LEDGER_SYSTEM_ADDRESS,
+    to: LEDGER_REGISTRY_ADDRESS,
+    operation: CONSORTIUM_GENESIS_OPERATION,
+    payload: JSON.parse(JSON.stringify({ validators })),
+    timestamp: 0,
+    nonce: 0
+  };
+  const transaction = { hash: await computeTransactionHash(tx), ...tx, blockNumber: 0, txIndex: 0 };
+
+  const header = {
+    number: 0,
+    previousHash: GENESIS_PREVIOUS_HASH,
+    transactionsRoot: await computeMerkleRoot([transaction.hash]),
+    transactionCount: 1,
+    timestamp: 0
+  };
+  return { block: { ...header, hash: await computeBlockHash(header) }, transactions: [transaction], signatures: [] };
+}
+
+// Why a block's contents don't fit on top of a chain in this state, or null when they do
+async function checkBlockContents(
+  state: ConsensusState,
+  previous: LedgerBlock | null,
+  block: LedgerBlock,
+  transactions: LedgerTransaction[]
+): Promise<string | null> {
+  const expectedNumber = previous ? previous.number + 1 : 0;
+  if (block.number !== expectedNumber) return `Expected block ${expectedNumber} but got ${block.number}`;
+  if (block.previousHash !== (previous ? previous.hash : GENESIS_PREVIOUS_HASH)) {
+    return `Block ${block.number} does not link to block ${expectedNumber - 1}`;
+  }
+  if (transactions.length !== block.transactionCount) {
+    return `Block ${block.number} should hold ${block.transactionCount} transactions but holds ${transactions.length}`;
+  }
+  if (await computeMerkleRoot(transactions.map((tx) => tx.hash)) !== block.transactionsRoot) {
+    return `Transactions root of block ${block.number} does not match its transactions`;
+  }
+  if (await computeBlockHash(block) !== block.hash) {
+    return `Hash of block ${block.number} does not match its header`;
+  }
+
+  let governance = state;
+  for (const tx of transactions) {
+    if (await computeTransactionHash(tx) !== tx.hash) return `Transaction ${tx.hash} does not match its hash`;
+
+    const schemaProblem = validateOperationPayload(tx.operation, tx.payload);
+    if (schemaProblem) return `Transaction ${tx.hash}: ${schemaProblem}`;
+
+    if (GOVERNANCE_OPERATIONS.includes(tx.operation)) {
+      const governanceProblem = checkGovernanceTransaction(governance, tx);
+      if (governanceProblem) return `Transaction ${tx.hash}: ${governanceProblem}`;
+      governance = applyGovernance(governance, [tx]);
+    }
+  }
+
+  return null;
+}
+
+// Replay a chain from genesis, checking every block and its seal.
+// Returns the first problem found, or null when the whole chain holds.
+export async function verifyChain(chain: CommittedBlock[]): Promise<string | null> {
+  let state = EMPTY_CONSENSUS_STATE;
+  let previous: LedgerBlock | null = null;
+
+  for (const { block, transactions, signatures } of chain) {
+    const problem = await checkBlockContents(state, previous, block, transactions) ??
+      await checkBlockSeal(state, block, signatures);
+    if (problem) return problem;
+
+    state = applyGovernance(state, transactions);
+    previous = block;
+  }
+
+  return null;
+}
+
+export class ValidatorNode {
+  private chain: CommittedBlock[] = [];
+  // Validator set and open votes the next block is sealed under
+  private state: ConsensusState = EMPTY_CONSENSUS_STATE;
+  private mempool = new Map<string, LedgerTransaction>();
+  private committedHashes = new Set<string>();
+  private nonce = 0;
+  private round = 0;
+  // Round this node last signed a proposal in, at the current height
+  private signedRound = -1;
+  // Proposals and the signatures gathered for them at the current height, by block hash
+  private proposals = new Map<string, { block: LedgerBlock; transactions: LedgerTransaction[] }>();
+  private signatures = new Map<string, BlockSignature[]>();
+
+  constructor(private readonly identity: ValidatorIdentity) {}
+
+  get address(): string {
+    return this.identity.validator.address;
+  }
+
+  get validator(): Validator {
+    return this.identity.validator;
+  }
+
+  private get head(): LedgerBlock | null {
+    return this.chain.length > 0 ? this.chain[this.chain.length - 1].block : null;
+  }
+
+  private isValidator(address: string): boolean {
+    return this.state.validators.some((validator) => validator.address.toLowerCase() === address.toLowerCase());
+  }
+
+  private expectedProposer(round: number): string | null {
+    return this.state.validators.length > 0 ? getProposer(this.state.validators, this.chain.length, round).address : null;
+  }
+
+  status(): NodeStatus {
+    return {
+      address: this.address,
+      organisation: this.validator.organisation,
+      isValidator: this.isValidator(this.address),
+      height: this.chain.length,
+      headHash: this.head?.hash ?? GENESIS_PREVIOUS_HASH,
+      round: this.round,
+      validators: this.state.validators,
+      nextProposer: this.expectedProposer(this.round),
+      mempool: this.mempool.size
+    };
+  }
+
+  exportChain(): CommittedBlock[] {
+    return this.chain;
+  }
+
+  // Catch up from genesis or a peer's chain, checking each block this node doesn't have yet
+  async sync(chain: CommittedBlock[]): Promise<void> {
+    for (const entry of chain.slice(this.chain.length)) {
+      const problem = await checkBlockContents(this.state, this.head, entry.block, entry.transactions) ??
+        await checkBlockSeal(this.state, entry.block, entry.signatures);
+      if (problem) throw new Error(`${this.validator.organisation} cannot sync: ${problem}`);
+
+      this.commit(entry);
+    }
+  }
+
+  // Sign a transaction from this node's address into the mempool and gossip it
+  async submit(operation: string, payload: Record<string, unknown>): Promise<ConsortiumMessage[]> {
+    const schemaProblem = validateOperationPayload(operation, payload);
+    if (schemaProblem) throw new Error(schemaProblem);
+
+    const tx = {
+      from: this.address,
+      to: LEDGER_REGISTRY_ADDRESS,
+      operation,
+      payload: JSON.parse(JSON.stringify(payload)),
+      timestamp: Date.now(),
+      nonce: this.nonce++
+    };
+    const governanceProblem = checkGovernanceTransaction(this.state, tx);
+    if (governanceProblem) throw new Error(governanceProblem);
+
+    const transaction = { hash: await computeTransactionHash(tx), ...tx };
+    this.mempool.set(transaction.hash, transaction);
+    return [{ type: 'transaction', transaction }];
+  }
+
+  // Propose a block from the mempool when it is this node's turn in the current round
+  async propose(): Promise<ConsortiumMessage[]> {
+    if (this.expectedProposer(this.round) !== this.address || this.signedRound >= this.round) return [];
+
+    // Leave out anything that no longer applies, such as a vote another block already decided
+    const transactions: LedgerTransaction[] = [];
+    let governance = this.state;
+    const pending = Array.from(this.mempool.values())
+      .sort((a, b) => a.timestamp - b.timestamp || a.hash.localeCompare(b.hash));
+    for (const tx of pending) {
+      if (GOVERNANCE_OPERATIONS.includes(tx.operation)) {
+        if (checkGovernanceTransaction(governance, tx)) continue;
+        governance = applyGovernance(governance, [tx]);
+      }
+      transactions.push(tx);
+    }
+    if (transactions.length === 0) return [];
+
+    const header = {
+      number: this.chain.length,
+      previousHash: this.head?.hash ?? GENESIS_PREVIOUS_HASH,
+      transactionsRoot: await computeMerkleRoot(transactions.map((tx) => tx.hash)),
+      transactionCount: transactions.length,
+      timestamp: Date.now(),
+      proposer: this.address,
+      round: this.round > 0 ? this.round : undefined
+    };
+    const block: LedgerBlock = { ...header, hash: await computeBlockHash(header) };
+    const signature = { validator: this.address, signature: await signBlockHash(this.identity.privateKey, block.hash) };
+
+    this.signedRound = this.round;
+    this.proposals.set(block.hash, { block, transactions });
+    this.signatures.set(block.hash, [signature]);
+    await this.tryCommit(block.hash);
+
+    return [{ type: 'proposal', block, transactions, signature }];
+  }
+
+  async receive(message: ConsortiumMessage): Promise<ConsortiumMessage[]> {
+    switch (message.type) {
+      case 'transaction': {
+        const { transaction } = message;
+        if (this.committedHashes.has(transaction.hash) || await computeTransactionHash(transaction) !== transaction.hash) {
+          return [];
+        }
+        this.mempool.set(transaction.hash, transaction);
+        return [];
+      }
+
+      case 'proposal':
+        return this.receiveProposal(message.block, message.transactions, message.signature);
+
+      case 'signature': {
+        if (message.blockNumber !== this.chain.length) return [];
+
+        const signatures = this.signatures.get(message.blockHash) ?? [];
+        if (!signatures.some((signature) => signature.validator === message.signature.validator)) {
+          this.signatures.set(message.blockHash, [...signatures, message.signature]);
+        }
+        await this.tryCommit(message.blockHash);
+        return [];
+      }
+    }
+  }
+
+  // The expected proposer didn't get a block signed in time: move on to the next one
+  async timeout(): Promise<ConsortiumMessage[]> {
+    this.round++;
+    return this.propose();
+  }
+
+  private async receiveProposal(
+    block: LedgerBlock,
+    transactions: LedgerTransaction[],
+    proposerSignature: BlockSignature
+  ): Promise<ConsortiumMessage[]> {
+    const round = block.round ?? 0;
+    if (block.number !== this.chain.length || round < this.round) return [];
+
+    const proposer = this.state.validators.find((validator) => validator.address === block.proposer);
+    if (
+      !proposer ||
+      this.expectedProposer(round) !== block.proposer ||
+      proposerSignature.validator !== block.proposer ||
+      !await verifyBlockSignature(proposer.publicKey, block.hash, proposerSignature.signature) ||
+      await checkBlockContents(this.state, this.head, block, transactions)
+    ) {
+      return [];
+    }
+
+    // A proposal from a later round means the others have already timed out
+    this.round = round;
+    this.proposals.set(block.hash, { block, transactions });
+    const signatures = this.signatures.get(block.hash) ?? [];
+    this.signatures.set(block.hash, [...signatures, proposerSignature]);
+
+    const outgoing: ConsortiumMessage[] = [];
+    if (this.isValidator(this.address) && this.signedRound < round) {
+      const signature = { validator: this.address, signature: await signBlockHash(this.identity.privateKey, block.hash) };
+      this.signedRound = round;
+      this.signatures.get(block.hash)!.push(signature);
+      outgoing.push({ type: 'signature', blockNumber: block.number, blockHash: block.hash, signature });
+    }
+
+    await this.tryCommit(block.hash);
+    return outgoing;
+  }
+
+  // Commit a proposal once its signatures seal it
+  private async tryCommit(blockHash: string): Promise<void> {
+    const proposal = this.proposals.get(blockHash);
+    if (!proposal) return;
+
+    const signatures = this.signatures.get(blockHash) ?? [];
+    if (await checkBlockSeal(this.state, proposal.block, signatures) === null) {
+      this.commit({ ...proposal, signatures });
+    }
+  }
+
+  private commit(entry: CommittedBlock): void {
+    const transactions = entry.transactions.map((tx, txIndex) => ({ ...tx, blockNumber: entry.block.number, txIndex }));
+    this.chain.push({ ...entry, transactions });
+    this.state = applyGovernance(this.state, transactions);
+
+    for (const tx of transactions) {
+      this.mempool.delete(tx.hash);
+      this.committedHashes.add(tx.hash);
+      // Carry on from this node's own nonces, such as after a restart from a peer's chain
+      if (tx.from === this.address) this.nonce = Math.max(this.nonce, (tx.nonce ?? 0) + 1);
+    }
+
+    this.round = 0;
+    this.signedRound = -1;
+    this.proposals.clear();
+    this.signatures.clear();
+  }
+}
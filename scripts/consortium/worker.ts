@@ -0,0 +1,49 @@
+// Runs one validator node in its own Deno worker for the consortium harness
+//
+// The harness posts { id, method, args } and gets back { id, result } or
+// { id, error }. The first call must be 'init', which generates the node's key
+// inside the worker and returns its validator; the private key never leaves it.
+
+import { ValidatorNode, createValidatorIdentity } from './node.ts';
+
+interface WorkerCall {
+  id: number;
+  method: 'init' | 'submit' | 'propose' | 'receive' | 'timeout' | 'sync' | 'status' | 'exportChain';
+  args: unknown[];
+}
+
+let node: ValidatorNode | null = null;
+
+async function dispatch({ method, args }: WorkerCall): Promise<unknown> {
+  if (method === 'init') {
+    node = new ValidatorNode(await createValidatorIdentity(args[0] as string));
+    return node.validator;
+  }
+  if (!node) throw new Error('The worker has not been initialised');
+
+  switch (method) {
+    case 'submit':
+      return node.submit(args[0] as string, args[1] as Record<string, unknown>);
+    case 'propose':
+      return node.propose();
+    case 'receive':
+      return node.receive(args[0] as Parameters<ValidatorNode['receive']>[0]);
+    case 'timeout':
+      return node.timeout();
+    case 'sync':
+      return node.sync(args[0] as Parameters<ValidatorNode['sync']>[0]);
+    case 'status':
+      return node.status();
+    case 'exportChain':
+      return node.exportChain();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerCall>) => {
+  const { id } = event.data;
+  try {
+    self.postMessage({ id, result: await dispatch(event.data) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,42 @@
+// Copies the payload schema registry from the edge functions to the frontend
+//
+// supabase/functions/_shared/payloadSchemas.ts is the source. The frontend's
+// src/services/blockchain/payloadSchemas.ts is that file with a header saying
+// where it came from, so the two runtimes validate against the same schemas.
+//
+//   node scripts/sync-payload-schemas.mjs           rewrite the frontend copy
+//   node scripts/sync-payload-schemas.mjs --check   exit 1 if it is out of date
+//
+// Plain JavaScript, so it runs on any Node version without a TypeScript runner.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const SOURCE = 'supabase/functions/_shared/payloadSchemas.ts';
+const TARGET = 'src/services/blockchain/payloadSchemas.ts';
+
+const HEADER = `// Generated from ${SOURCE} by scripts/sync-payload-schemas.mjs.
+// Edit that file and run \`npm run schemas:sync\`; changes made here are lost.
+
+`;
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const expected = HEADER + readFileSync(root + SOURCE, 'utf8');
+
+let current = null;
+try {
+  current = readFileSync(root + TARGET, 'utf8');
+} catch {
+  // Written below
+}
+
+if (process.argv.includes('--check')) {
+  if (current !== expected) {
+    console.error(`${TARGET} is out of date with ${SOURCE}; run npm run schemas:sync`);
+    process.exit(1);
+  }
+  console.log(`${TARGET} matches ${SOURCE}`);
+} else if (current !== expected) {
+  writeFileSync(root + TARGET, expected);
+  console.log(`Wrote ${TARGET} from ${SOURCE}`);
+}
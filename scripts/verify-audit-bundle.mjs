@@ -0,0 +1,600 @@
+// Standalone verifier for shipment audit bundles
+//
+// Checks a bundle exported from a shipment's page without contacting our
+// backend: every ledger entry is re-hashed and proven into its block, the
+// block headers are re-hashed and their links followed up to the chain head,
+// and the shipment, its events, sensor readings and documents are compared
+// with the entries they were anchored in. Event signatures are checked against
+// the signers' public keys in the bundle. Blocks sealed by the validator
+// consortium must carry signatures from a quorum of the validator set, which
+// is replayed from the bundle's governance entries.
+//
+// A single plain JavaScript file using only Node built-ins, so it can be
+// copied out of the repository and run on its own with Node 18 or later:
+//
+//   node verify-audit-bundle.mjs bundle.json
+//
+// Exits 0 when every check passes, 1 when one fails and 2 when the bundle can't be read.
+//
+// The hashing must match supabase/functions/_shared/ledger.ts, the sensor leaf
+// encoding supabase/functions/_shared/sensorBatches.ts, the signed statement
+// supabase/functions/_shared/signing.ts and the consensus rules
+// supabase/functions/_shared/consensus.ts. The bundle's shape is AuditBundle in
+// supabase/functions/supply-chain-management/auditBundle.ts.
+
+import { readFileSync } from 'node:fs';
+import { webcrypto } from 'node:crypto';
+
+const SUPPORTED_FORMAT = 'shipment-audit-bundle';
+const SUPPORTED_VERSION = 2;
+
+// Ledger operations that produce a shipment_events row
+const EVENT_OPERATIONS = ['record_event', 'transfer_ownership', 'add_document'];
+const SENSOR_BATCH_OPERATION = 'anchor_sensor_batch';
+
+const CONSORTIUM_GENESIS_OPERATION = 'consortium_genesis';
+const VALIDATOR_VOTE_OPERATION = 'validator_vote';
+const GOVERNANCE_OPERATIONS = [CONSORTIUM_GENESIS_OPERATION, VALIDATOR_VOTE_OPERATION];
+
+const subtle = webcrypto.subtle;
+
+const isRecord = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Transfers approved through the ledger outbox carry no eventType and produce no event
+const producesEvent = (tx) =>
+  EVENT_OPERATIONS.includes(tx.operation) && (tx.operation !== 'transfer_ownership' || typeof tx.payload.eventType === 'string');
+
+function canonicalize(value) {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  const record = value;
+  const entries = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+const sameValue = (a, b) => canonicalize(a ?? null) === canonicalize(b ?? null);
+
+async function sha256Hex(input) {
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return '0x' + Buffer.from(digest).toString('hex');
+}
+
+function computeTransactionHash(tx) {
+  return sha256Hex(canonicalize({
+    from: tx.from,
+    to: tx.to,
+    operation: tx.operation,
+    payload: tx.payload,
+    timestamp: tx.timestamp,
+    nonce: tx.nonce
+  }));
+}
+
+function computeBlockHash(block) {
+  return sha256Hex(canonicalize({
+    number: block.number,
+    previousHash: block.previousHash,
+    transactionsRoot: block.transactionsRoot,
+    transactionCount: block.transactionCount,
+    timestamp: block.timestamp,
+    proposer: block.proposer,
+    round: block.round
+  }));
+}
+
+async function applyMerkleProof(leaf, proof) {
+  let hash = leaf;
+  for (const step of proof) {
+    hash = step.position === 'left'
+      ? await sha256Hex(step.hash + hash.slice(2))
+      : await sha256Hex(hash + step.hash.slice(2));
+  }
+  return hash;
+}
+
+function hashSensorReading(reading) {
+  return sha256Hex(canonicalize({
+    shipmentId: reading.shipment_id,
+    timestamp: Date.parse(reading.timestamp),
+    temperature: reading.temperature,
+    humidity: reading.humidity,
+    shockDetected: reading.shock_detected,
+    latitude: reading.latitude,
+    longitude: reading.longitude,
+    batteryLevel: reading.battery_level
+  }));
+}
+
+// An ECDSA P-256 signature over message, hex encoded as the ledger stores them
+async function verifyP256(publicKey, signature, message) {
+  const digits = signature.startsWith('0x') ? signature.slice(2) : signature;
+  if (digits.length === 0 || digits.length % 2 !== 0 || /[^0-9a-fA-F]/.test(digits)) return false;
+
+  try {
+    const key = await subtle.importKey(
+      'jwk',
+      { kty: publicKey.kty, crv: publicKey.crv, x: publicKey.x, y: publicKey.y },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return await subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, Buffer.from(digits, 'hex'), new TextEncoder().encode(message));
+  } catch {
+    return false;
+  }
+}
+
+function verifySignature(publicKey, event, signature) {
+  const statement = canonicalize({
+    shipmentId: event.shipment_id,
+    eventType: event.event_type,
+    data: event.data ?? {},
+    signer: event.signer_id
+  });
+  return verifyP256(publicKey, signature, statement);
+}
+
+// Proof-of-authority rules, as in supabase/functions/_shared/consensus.ts. A
+// validator set is { validators, votes }: validators in the order they joined,
+// which is the proposer rotation, and undecided votes keyed by action and address.
+
+const EMPTY_CONSENSUS_STATE = { validators: [], votes: {} };
+
+const quorumSize = (validatorCount) => Math.floor((validatorCount * 2) / 3) + 1;
+
+const getProposer = (validators, blockNumber, round = 0) => validators[(blockNumber + round) % validators.length];
+
+const voteKey = (vote) => `${vote.action}:${vote.validator.toLowerCase()}`;
+
+const isValidator = (state, address) =>
+  state.validators.some((validator) => validator.address.toLowerCase() === address.toLowerCase());
+
+function parseValidators(payload) {
+  if (!Array.isArray(payload.validators) || payload.validators.length === 0) return null;
+
+  const wellFormed = payload.validators.every((validator) =>
+    typeof validator?.address === 'string' &&
+    typeof validator.organisation === 'string' &&
+    typeof validator.publicKey === 'object' && validator.publicKey !== null
+  );
+  return wellFormed ? payload.validators : null;
+}
+
+// Whether a governance transaction can be applied to this state
+function canApplyGovernance(state, tx) {
+  if (tx.operation === CONSORTIUM_GENESIS_OPERATION) {
+    if (state.validators.length > 0) return false;
+
+    const validators = parseValidators(tx.payload);
+    if (!validators) return false;
+
+    const organisations = new Set(validators.map((validator) => validator.organisation));
+    const addresses = new Set(validators.map((validator) => validator.address.toLowerCase()));
+    return organisations.size === validators.length && addresses.size === validators.length;
+  }
+
+  const vote = tx.payload;
+  if (state.validators.length === 0 || !isValidator(state, tx.from)) return false;
+  if (state.votes[voteKey(vote)]?.voters.includes(tx.from.toLowerCase())) return false;
+
+  if (vote.action === 'add') {
+    return Boolean(vote.publicKey) &&
+      !isValidator(state, vote.validator) &&
+      !state.validators.some((validator) => validator.organisation === vote.organisation);
+  }
+
+  if (vote.action === 'remove') {
+    const validator = state.validators.find((v) => v.address.toLowerCase() === vote.validator.toLowerCase());
+    return Boolean(validator) && validator.organisation === vote.organisation && state.validators.length > 1;
+  }
+
+  return false;
+}
+
+// Apply decided votes, repeating since a smaller set can push other votes over its quorum
+function applyDecidedVotes(state) {
+  let next = state;
+
+  for (;;) {
+    const decided = Object.entries(next.votes)
+      .find(([, tally]) => tally.voters.length >= quorumSize(next.validators.length));
+    if (!decided) return next;
+
+    const [key, { vote }] = decided;
+    const votes = { ...next.votes };
+    delete votes[key];
+
+    if (vote.action === 'add') {
+      next = {
+        validators: [...next.validators, { address: vote.validator, organisation: vote.organisation, publicKey: vote.publicKey }],
+        votes
+      };
+    } else {
+      const removed = vote.validator.toLowerCase();
+      // A removed validator's outstanding votes no longer count
+      for (const [otherKey, tally] of Object.entries(votes)) {
+        votes[otherKey] = { ...tally, voters: tally.voters.filter((voter) => voter !== removed) };
+      }
+      next = {
+        validators: next.validators.filter((validator) => validator.address.toLowerCase() !== removed),
+        votes
+      };
+    }
+  }
+}
+
+// State after a block's transactions, which is the state the following block is sealed under
+function applyGovernance(state, transactions) {
+  let next = state;
+
+  for (const tx of transactions) {
+    if (!GOVERNANCE_OPERATIONS.includes(tx.operation)) continue;
+    if (!canApplyGovernance(next, tx)) continue;
+
+    if (tx.operation === CONSORTIUM_GENESIS_OPERATION) {
+      next = { validators: parseValidators(tx.payload), votes: {} };
+      continue;
+    }
+
+    const vote = tx.payload;
+    const key = voteKey(vote);
+    const tally = next.votes[key] ?? { vote, voters: [] };
+    next = applyDecidedVotes({
+      validators: next.validators,
+      votes: { ...next.votes, [key]: { ...tally, voters: [...tally.voters, tx.from.toLowerCase()] } }
+    });
+  }
+
+  return next;
+}
+
+// Why a block's seal is invalid under this validator set, or null when it holds
+async function checkBlockSeal(state, block, signatures) {
+  if (state.validators.length === 0) {
+    return block.proposer || signatures.length > 0
+      ? `Block ${block.number} is sealed by validators, but no consortium was running`
+      : null;
+  }
+
+  if (!block.proposer) {
+    return `Block ${block.number} has no proposer, but the consortium was running`;
+  }
+
+  const expected = getProposer(state.validators, block.number, block.round);
+  if (expected.address.toLowerCase() !== block.proposer.toLowerCase()) {
+    return `Block ${block.number} was proposed by ${block.proposer}, but round ${block.round ?? 0} was ${expected.organisation}'s turn`;
+  }
+
+  const signers = new Set();
+  for (const { validator: address, signature } of signatures) {
+    const validator = state.validators.find((v) => v.address.toLowerCase() === address.toLowerCase());
+    if (validator && await verifyP256(validator.publicKey, signature, block.hash)) {
+      signers.add(validator.address.toLowerCase());
+    }
+  }
+
+  if (!signers.has(block.proposer.toLowerCase())) {
+    return `Block ${block.number} is not signed by its proposer`;
+  }
+
+  const quorum = quorumSize(state.validators.length);
+  if (signers.size < quorum) {
+    return `Block ${block.number} has ${signers.size} valid validator signatures but needs ${quorum}`;
+  }
+
+  return null;
+}
+
+const newSection = (title) => ({ title, failures: [], warnings: [], passed: 0 });
+
+// Blocks must re-hash, follow on from each other and link by previousHash
+async function checkBlocks(bundle, section) {
+  const blocks = new Map();
+  let previous = null;
+
+  for (const block of bundle.ledger.blocks) {
+    const problems = [];
+    if (await computeBlockHash(block) !== block.hash) {
+      problems.push('its hash does not match its header');
+    }
+    if (previous && block.number !== previous.number + 1) {
+      problems.push(`it follows block #${previous.number}, so blocks are missing`);
+    }
+    if (previous && block.previousHash !== previous.hash) {
+      problems.push(`its previousHash does not link to block #${previous.number}`);
+    }
+
+    if (problems.length > 0) section.failures.push(`Block #${block.number}: ${problems.join('; ')}`);
+    else section.passed += 1;
+
+    blocks.set(block.number, block);
+    previous = block;
+  }
+
+  return blocks;
+}
+
+// Transactions must re-hash and, once sealed, prove into their block's transactionsRoot
+async function checkTransactions(bundle, blocks, section) {
+  const proven = new Set();
+
+  for (const tx of bundle.ledger.transactions) {
+    if (await computeTransactionHash(tx) !== tx.hash) {
+      section.failures.push(`${tx.hash} (${tx.operation}): hash does not match its content`);
+      continue;
+    }
+
+    if (tx.blockNumber === undefined || tx.blockNumber === null) {
+      section.warnings.push(`${tx.hash} (${tx.operation}): not yet sealed into a block`);
+      proven.add(tx.hash);
+      continue;
+    }
+
+    const block = blocks.get(tx.blockNumber);
+    if (!block) {
+      section.failures.push(`${tx.hash} (${tx.operation}): block #${tx.blockNumber} is not in the bundle`);
+    } else if (!tx.inclusionProof || await applyMerkleProof(tx.hash, tx.inclusionProof) !== block.transactionsRoot) {
+      section.failures.push(`${tx.hash} (${tx.operation}): inclusion proof does not lead to block #${tx.blockNumber}'s transactions root`);
+    } else {
+      section.passed += 1;
+      proven.add(tx.hash);
+    }
+  }
+
+  return proven;
+}
+
+// Consortium blocks must be proposed in turn and signed by a quorum of the
+// validators they were sealed under. The set is replayed block by block from
+// the proven governance entries, so it is only as complete as the bundle's.
+async function checkSeals(bundle, transactions, section) {
+  const governance = Array.from(transactions.values())
+    .filter((tx) => GOVERNANCE_OPERATIONS.includes(tx.operation) && tx.blockNumber !== undefined && tx.blockNumber !== null)
+    .sort((a, b) => a.blockNumber - b.blockNumber || (a.txIndex ?? 0) - (b.txIndex ?? 0));
+
+  let state = EMPTY_CONSENSUS_STATE;
+  for (const block of bundle.ledger.blocks) {
+    const problem = await checkBlockSeal(state, block, Array.isArray(block.signatures) ? block.signatures : []);
+    if (problem) section.failures.push(problem);
+    else section.passed += 1;
+
+    state = applyGovernance(state, governance.filter((tx) => tx.blockNumber === block.number));
+  }
+
+  if (!bundle.ledger.blocks.some((block) => block.proposer)) {
+    section.warnings.push('No validator consortium has sealed these blocks; they carry no quorum signatures');
+  }
+}
+
+function checkShipment(bundle, transactions, section) {
+  const { shipment } = bundle;
+  if (shipment.id !== bundle.shipmentId) {
+    section.failures.push(`Shipment record is for ${String(shipment.id)}, not ${bundle.shipmentId}`);
+    return;
+  }
+
+  const hash = shipment.blockchain_tx_hash;
+  if (typeof hash !== 'string') {
+    section.warnings.push('Shipment has not been registered on the ledger');
+    return;
+  }
+
+  const tx = transactions.get(hash);
+  if (!tx) {
+    section.failures.push(`Ledger entry ${hash} is not among the proven ledger entries`);
+    return;
+  }
+  if (tx.payload.id !== shipment.id && tx.payload.shipmentId !== shipment.id) {
+    section.failures.push(`Ledger entry ${hash} (${tx.operation}) is not for this shipment`);
+    return;
+  }
+
+  // Later operations, such as an approved ownership transfer, point the shipment at
+  // their own entry, so its fields are compared with the registration itself
+  const registration = tx.payload.id === shipment.id
+    ? tx
+    : Array.from(transactions.values()).find((entry) => entry.payload.id === shipment.id);
+  if (!registration) {
+    section.failures.push('Shipment registration is not among the proven ledger entries');
+    return;
+  }
+
+  const anchored = [['origin', 'origin'], ['destination', 'destination'], ['transport_type', 'transportType']];
+  const mismatches = anchored
+    .filter(([column, field]) => field in registration.payload && !sameValue(shipment[column], registration.payload[field]))
+    .map(([column]) => column);
+
+  if (mismatches.length > 0) section.failures.push(`Shipment ${mismatches.join(', ')} changed since registration ${registration.hash}`);
+  else section.passed += 1;
+}
+
+// The shipment_events row a ledger entry should have produced
+function expectedEvent(tx) {
+  if (tx.operation === 'add_document') {
+    const data = { documentType: tx.payload.documentType, documentHash: tx.payload.documentHash };
+    if (tx.payload.documentId !== undefined) data.documentId = tx.payload.documentId;
+    return { eventType: 'document_added', data, partial: true };
+  }
+  return { eventType: String(tx.payload.eventType ?? ''), data: isRecord(tx.payload.data) ? tx.payload.data : {}, partial: false };
+}
+
+async function checkEvents(bundle, transactions, section) {
+  const participants = new Map(bundle.participants.map((participant) => [participant.participantId, participant]));
+  const anchoredHashes = new Set();
+
+  for (const event of bundle.events) {
+    const label = `Event ${event.id} (${event.event_type})`;
+    const problems = [];
+
+    if (!event.blockchain_tx_hash) {
+      section.failures.push(`${label}: not anchored on the ledger`);
+      continue;
+    }
+
+    const tx = transactions.get(event.blockchain_tx_hash);
+    if (!tx) {
+      section.failures.push(`${label}: ledger entry ${event.blockchain_tx_hash} is not among the proven entries`);
+      continue;
+    }
+    anchoredHashes.add(tx.hash);
+
+    if (!producesEvent(tx)) {
+      problems.push(`it points at a ${tx.operation} entry`);
+    } else {
+      const expected = expectedEvent(tx);
+      if (tx.payload.shipmentId !== event.shipment_id) problems.push('shipment_id changed since it was anchored');
+      if (event.event_type !== expected.eventType) problems.push('event_type changed since it was anchored');
+
+      const data = isRecord(event.data) ? event.data : {};
+      const keys = expected.partial
+        ? Object.keys(expected.data)
+        : Array.from(new Set([...Object.keys(data), ...Object.keys(expected.data)]));
+      const changed = keys.filter((key) => !sameValue(data[key], expected.data[key]));
+      if (changed.length > 0) problems.push(`data.${changed.join(', data.')} changed since it was anchored`);
+
+      if (typeof tx.payload.signer === 'string' && (event.signer_id ?? null) !== tx.payload.signer) {
+        problems.push('signer_id changed since it was anchored');
+      }
+      if (typeof tx.payload.signature === 'string' && (event.signature ?? null) !== tx.payload.signature) {
+        problems.push('signature changed since it was anchored');
+      }
+    }
+
+    if (event.signer_id && event.signature) {
+      const signer = participants.get(event.signer_id);
+      if (!signer) {
+        problems.push(`no public key for signer ${event.signer_id} is in the bundle`);
+      } else if (!await verifySignature(signer.publicKey, event, event.signature)) {
+        problems.push(`signature does not verify against ${signer.name}'s public key`);
+      }
+    } else {
+      section.warnings.push(`${label}: unsigned`);
+    }
+
+    if (problems.length > 0) section.failures.push(`${label}: ${problems.join('; ')}`);
+    else section.passed += 1;
+  }
+
+  // Event entries for this shipment that no row points at were deleted from the database
+  for (const tx of transactions.values()) {
+    if (producesEvent(tx) && tx.payload.shipmentId === bundle.shipmentId && !anchoredHashes.has(tx.hash)) {
+      section.failures.push(`Ledger entry ${tx.hash} (${tx.operation}) has no event in the bundle`);
+    }
+  }
+}
+
+async function checkSensorReadings(bundle, transactions, section) {
+  for (const reading of bundle.sensorReadings) {
+    const label = `Reading ${reading.id} at ${reading.timestamp}`;
+
+    if (!reading.batch_id || !reading.merkle_proof || !reading.blockchain_tx_hash) {
+      section.warnings.push(`${label}: not yet anchored in a batch`);
+      continue;
+    }
+
+    const tx = transactions.get(reading.blockchain_tx_hash);
+    if (!tx || tx.operation !== SENSOR_BATCH_OPERATION || tx.payload.batchId !== reading.batch_id) {
+      section.failures.push(`${label}: batch anchor ${reading.blockchain_tx_hash} is not among the proven entries`);
+      continue;
+    }
+
+    const root = await applyMerkleProof(await hashSensorReading(reading), reading.merkle_proof);
+    if (root !== tx.payload.merkleRoot) section.failures.push(`${label}: reading does not prove into its batch's Merkle root`);
+    else section.passed += 1;
+  }
+}
+
+function checkDocuments(bundle, transactions, section) {
+  for (const document of bundle.documents) {
+    const label = `Document ${document.id} (${document.document_type})`;
+
+    const tx = document.blockchain_tx_hash ? transactions.get(document.blockchain_tx_hash) : undefined;
+    if (!tx || tx.operation !== 'add_document') {
+      section.failures.push(`${label}: not anchored among the proven ledger entries`);
+      continue;
+    }
+
+    const problems = [
+      ...(tx.payload.documentHash === document.document_hash ? [] : ['hash']),
+      ...(tx.payload.documentType === document.document_type ? [] : ['type']),
+      ...(tx.payload.documentId === undefined || tx.payload.documentId === document.id ? [] : ['id'])
+    ];
+    if (problems.length > 0) section.failures.push(`${label}: document ${problems.join(', ')} changed since it was anchored`);
+    else section.passed += 1;
+  }
+}
+
+function report(sections) {
+  let ok = true;
+  for (const section of sections) {
+    const status = section.failures.length > 0 ? 'FAIL' : 'PASS';
+    console.log(`\n[${status}] ${section.title}: ${section.passed} verified, ${section.failures.length} failed, ${section.warnings.length} warnings`);
+    section.failures.forEach((failure) => console.log(`  x ${failure}`));
+    section.warnings.forEach((warning) => console.log(`  ! ${warning}`));
+    if (section.failures.length > 0) ok = false;
+  }
+  return ok;
+}
+
+async function main() {
+  const path = process.argv[2];
+  if (!path) {
+    console.error('Usage: verify-audit-bundle <bundle.json>');
+    return 2;
+  }
+
+  let bundle;
+  try {
+    bundle = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`Could not read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  if (bundle?.format !== SUPPORTED_FORMAT || bundle.version !== SUPPORTED_VERSION) {
+    console.error(`${path} is not a version ${SUPPORTED_VERSION} shipment audit bundle`);
+    return 2;
+  }
+
+  console.log(`Shipment ${bundle.shipmentId}, exported ${bundle.exportedAt}`);
+
+  const chain = newSection('Block headers');
+  const seals = newSection('Block seals');
+  const ledger = newSection('Ledger entries');
+  const shipment = newSection('Shipment record');
+  const events = newSection('Shipment events');
+  const sensors = newSection('Sensor readings');
+  const documents = newSection('Documents');
+
+  const blocks = await checkBlocks(bundle, chain);
+  const proven = await checkTransactions(bundle, blocks, ledger);
+  const transactions = new Map(
+    bundle.ledger.transactions.filter((tx) => proven.has(tx.hash)).map((tx) => [tx.hash, tx])
+  );
+
+  await checkSeals(bundle, transactions, seals);
+  checkShipment(bundle, transactions, shipment);
+  await checkEvents(bundle, transactions, events);
+  await checkSensorReadings(bundle, transactions, sensors);
+  checkDocuments(bundle, transactions, documents);
+
+  const ok = report([chain, seals, ledger, shipment, events, sensors, documents]);
+
+  // The bundle can only prove consistency with this head; compare it with one obtained independently
+  const head = bundle.ledger.blocks[bundle.ledger.blocks.length - 1];
+  if (head) {
+    console.log(`\nChain head: block #${head.number} ${head.hash}`);
+  }
+  console.log(ok ? '\nBundle verified.' : '\nBundle failed verification.');
+  return ok ? 0 : 1;
+}
+
+main().then((code) => process.exit(code));
@@ -9,16 +9,23 @@ import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import NotFound from "./pages/NotFound";
+import VerifyShipment from "./pages/VerifyShipment";
 import ManagerDashboard from "./pages/manager/Dashboard";
 import DriverDashboard from "./pages/driver/Dashboard";
 import CustomerDashboard from "./pages/customer/Dashboard";
 import ShipmentDetails from "./pages/shared/ShipmentDetails";
+import Approvals from "./pages/shared/Approvals";
+import Escrow from "./pages/shared/Escrow";
+import Disputes from "./pages/shared/Disputes";
+import DisputeDetails from "./pages/shared/DisputeDetails";
 import UserManagement from "./pages/manager/UserManagement";
 import AISuggestions from "./pages/manager/AISuggestions";
 import WeatherAnalytics from "./pages/manager/WeatherAnalytics";
 import ReviewsManagement from "./pages/manager/ReviewsManagement";
 import CreateShipment from "./pages/manager/CreateShipment";
 import AnalyticsDashboard from "./pages/manager/AnalyticsDashboard";
+import BlockExplorer from "./pages/manager/BlockExplorer";
+import LedgerJobs from "./pages/manager/LedgerJobs";
 import RouteOptimization from "./pages/driver/RouteOptimization";
 import SmartNavigation from "./pages/driver/SmartNavigation";
 import AIChat from "./pages/driver/AIChat";
@@ -29,6 +36,9 @@ import LeaveReview from "./pages/customer/LeaveReview";
 
 const queryClient = new QueryClient();
 
+// Arbiters take no part in shipments; they only see the disputes pages
+const SHIPMENT_ROLES = ['manager', 'driver', 'customer'];
+
 // Private route component that also checks user role
 const PrivateRoute = ({ 
   children, 
@@ -62,6 +72,8 @@ const PrivateRoute = ({
       return <Navigate to="/driver" replace />;
     } else if (userRole === 'customer') {
       return <Navigate to="/customer" replace />;
+    } else if (userRole === 'arbiter') {
+      return <Navigate to="/disputes" replace />;
     } else {
       // Role not determined yet or other error
       return <Navigate to="/" replace />;
@@ -86,6 +98,8 @@ const AppRoutes = () => {
               <Navigate to="/manager" replace />
             ) : userRole === 'driver' ? (
               <Navigate to="/driver" replace />
+            ) : userRole === 'arbiter' ? (
+              <Navigate to="/disputes" replace />
             ) : (
               <Navigate to="/customer" replace />
             )
@@ -96,6 +110,7 @@ const AppRoutes = () => {
       />
       <Route path="/login" element={<Login />} />
       <Route path="/signup" element={<Signup />} />
+      <Route path="/verify/:trackingId" element={<VerifyShipment />} />
       
       {/* Manager routes */}
       <Route 
@@ -138,6 +153,54 @@ const AppRoutes = () => {
           </PrivateRoute>
         } 
       />
+      <Route 
+        path="/manager/ledger-jobs" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <LedgerJobs />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/manager/explorer" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <BlockExplorer view="latest" />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/manager/explorer/block/:blockNumber" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <BlockExplorer view="block" />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/manager/explorer/tx/:hash" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <BlockExplorer view="transaction" />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/manager/explorer/address/:address" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <BlockExplorer view="address" />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/manager/explorer/shipment/:shipmentId" 
+        element={
+          <PrivateRoute allowedRoles={['manager']}>
+            <BlockExplorer view="shipment" />
+          </PrivateRoute>
+        } 
+      />
       <Route 
         path="/manager/create-shipment" 
         element={
@@ -235,11 +298,44 @@ const AppRoutes = () => {
       <Route 
         path="/shipment/:id" 
         element={
-          <PrivateRoute>
+          <PrivateRoute allowedRoles={SHIPMENT_ROLES}>
             <ShipmentDetails />
           </PrivateRoute>
         } 
       />
+      <Route 
+        path="/approvals" 
+        element={
+          <PrivateRoute allowedRoles={SHIPMENT_ROLES}>
+            <Approvals />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/escrow" 
+        element={
+          <PrivateRoute allowedRoles={SHIPMENT_ROLES}>
+            <Escrow />
+          </PrivateRoute>
+        } 
+      />
+      
+      <Route 
+        path="/disputes" 
+        element={
+          <PrivateRoute>
+            <Disputes />
+          </PrivateRoute>
+        } 
+      />
+      <Route 
+        path="/disputes/:id" 
+        element={
+          <PrivateRoute>
+            <DisputeDetails />
+          </PrivateRoute>
+        } 
+      />
       
       {/* Catch all */}
       <Route path="*" element={<NotFound />} />
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useBlockchain } from '@/hooks/blockchain';
+
+interface AuditBundleExportProps {
+  shipmentId: string;
+  // Used in the file name; defaults to the shipment id
+  label?: string;
+}
+
+// Downloads the shipment's audit bundle, which scripts/verify-audit-bundle.mjs checks without a login
+export const AuditBundleExport: React.FC<AuditBundleExportProps> = ({ shipmentId, label }) => {
+  const [exporting, setExporting] = useState(false);
+  const { exportAuditBundle } = useBlockchain();
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const bundle = await exportAuditBundle(shipmentId);
+      if (!bundle) {
+        toast.error('Failed to export audit bundle');
+        return;
+      }
+
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-bundle-${label || shipmentId}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success('Audit bundle exported', {
+        description: `${bundle.events.length} events, ${bundle.sensorReadings.length} sensor readings and ${bundle.ledger.transactions.length} ledger entries`
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleExport} disabled={exporting}>
+      <FileDown className="h-4 w-4 mr-1" />
+      {exporting ? 'Exporting...' : 'Export Audit Bundle'}
+    </Button>
+  );
+};
+
+export default AuditBundleExport;
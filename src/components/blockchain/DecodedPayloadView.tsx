@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DecodedField, decodePayload } from '@/services/blockchain/payloadDecoding';
+import { FieldLink } from '@/services/blockchain/payloadSchemas';
+
+// Where linked field values lead; values without a path are shown as plain text
+export type PayloadLinks = Partial<Record<FieldLink, (id: string) => string>>;
+
+interface DecodedPayloadViewProps {
+  operation?: string;
+  payload: unknown;
+  links?: PayloadLinks;
+}
+
+const formatTimestamp = (value: unknown) => {
+  const date = new Date(typeof value === 'number' || typeof value === 'string' ? value : NaN);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+};
+
+const withUnit = (text: string, unit?: string) => (unit ? `${text} ${unit}` : text);
+
+const LinkedValue = ({ value, link, links }: { value: string; link?: FieldLink; links?: PayloadLinks }) => {
+  const path = link ? links?.[link] : undefined;
+  return path ? (
+    <Link to={path(value)} className="font-mono text-eco-purple hover:underline break-all">{value}</Link>
+  ) : (
+    <span className={link ? 'font-mono break-all' : 'break-words'}>{value}</span>
+  );
+};
+
+const FieldValue = ({ field, links }: { field: DecodedField; links?: PayloadLinks }) => {
+  const { value } = field;
+
+  if (field.fields) {
+    return <FieldList fields={field.fields} links={links} title={field.title} nested />;
+  }
+
+  switch (field.type) {
+    case 'timestamp':
+      return <span>{formatTimestamp(value)}</span>;
+    case 'boolean':
+      return <span>{value ? 'Yes' : 'No'}</span>;
+    case 'number':
+    case 'integer':
+      return <span>{withUnit(typeof value === 'number' ? value.toLocaleString() : String(value), field.unit)}</span>;
+    case 'hash':
+      return <span className="font-mono text-xs break-all">{String(value)}</span>;
+    case 'array':
+      if (!Array.isArray(value) || value.length === 0) return <span className="text-muted-foreground">None</span>;
+      return (
+        <div className="space-y-1">
+          {value.map((item, index) => (
+            <div key={index}>
+              {typeof item === 'string'
+                ? <LinkedValue value={item} link={field.link} links={links} />
+                : <span className="font-mono text-xs break-all">{JSON.stringify(item)}</span>}
+            </div>
+          ))}
+        </div>
+      );
+    default:
+      return typeof value === 'string'
+        ? <LinkedValue value={withUnit(value, field.unit)} link={field.link} links={links} />
+        : <span className="font-mono text-xs break-all">{JSON.stringify(value)}</span>;
+  }
+};
+
+const FieldList = ({ fields, links, title, nested = false }: {
+  fields: DecodedField[];
+  links?: PayloadLinks;
+  title?: string;
+  nested?: boolean;
+}) => (
+  <div className={nested ? 'border-l-2 border-gray-200 pl-3' : undefined}>
+    {title && <div className="text-xs font-medium text-muted-foreground mb-1">{title}</div>}
+    {fields.length === 0 ? (
+      <span className="text-muted-foreground">No fields</span>
+    ) : (
+      <dl className="divide-y text-sm">
+        {fields.map(field => (
+          <div key={field.key} className="grid grid-cols-1 sm:grid-cols-3 gap-1 py-1.5">
+            <dt className={field.undeclared ? 'text-muted-foreground' : 'font-medium'}>{field.label}</dt>
+            <dd className="sm:col-span-2"><FieldValue field={field} links={links} /></dd>
+          </div>
+        ))}
+      </dl>
+    )}
+  </div>
+);
+
+// A ledger payload decoded with its registered schema, with the raw JSON a click away
+export const DecodedPayloadView: React.FC<DecodedPayloadViewProps> = ({ operation, payload, links }) => {
+  const [showRaw, setShowRaw] = useState(false);
+  const decoded = decodePayload(operation, payload);
+  const canDecode = decoded.fields.length > 0 || decoded.schema !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-medium">Decoded Payload</h4>
+          {decoded.schema ? (
+            <Badge variant="outline">{decoded.schema.title} · v{decoded.schema.version}</Badge>
+          ) : (
+            <Badge variant="outline" className="text-muted-foreground">Unregistered</Badge>
+          )}
+        </div>
+        {canDecode && (
+          <Button variant="ghost" size="sm" onClick={() => setShowRaw(!showRaw)}>
+            {showRaw ? 'Show Fields' : 'Show Raw'}
+          </Button>
+        )}
+      </div>
+
+      {decoded.problems.length > 0 && (
+        <div className="flex items-start text-sm bg-yellow-50 text-yellow-800 p-2 rounded">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>Doesn't match its schema: {decoded.problems.join('; ')}</span>
+        </div>
+      )}
+
+      {canDecode && !showRaw ? (
+        <FieldList fields={decoded.fields} links={links} />
+      ) : (
+        <pre className="font-mono text-xs bg-gray-100 p-3 rounded overflow-x-auto">
+          {typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DecodedPayloadView;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { DisputeStatus } from '@/services/blockchain/disputes';
+
+const STATUS_STYLES: Record<DisputeStatus, string> = {
+  open: 'bg-blue-500',
+  responded: 'bg-indigo-500',
+  arbitration: 'bg-orange-500',
+  settled: 'bg-green-500',
+  ruled: 'bg-eco-purple'
+};
+
+const STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Awaiting response',
+  responded: 'Answered',
+  arbitration: 'In arbitration',
+  settled: 'Settled',
+  ruled: 'Ruled on'
+};
+
+export const DisputeStatusBadge: React.FC<{ status: DisputeStatus }> = ({ status }) => (
+  <Badge className={STATUS_STYLES[status] ?? 'bg-gray-400'}>{STATUS_LABELS[status] ?? status}</Badge>
+);
+
+export default DisputeStatusBadge;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useBlockchain, ProductHistoryVerification, VerifiedShipmentEvent, LedgerDiscrepancy } from '@/hooks/blockchain';
+import { ShieldCheck, ShieldAlert, CheckCircle, XCircle, AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ProductHistoryAuditProps {
+  shipmentId: string;
+}
+
+// 'ownership_transferred' -> 'Ownership Transferred'
+const formatEventType = (eventType: string) =>
+  eventType.split(/[_-]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+export const ProductHistoryAudit: React.FC<ProductHistoryAuditProps> = ({ shipmentId }) => {
+  const [result, setResult] = useState<ProductHistoryVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { verifyProductHistory, error } = useBlockchain();
+
+  const runAudit = useCallback(async () => {
+    setLoading(true);
+    setResult(await verifyProductHistory(shipmentId));
+    setLoading(false);
+  }, [shipmentId, verifyProductHistory]);
+
+  useEffect(() => {
+    runAudit();
+  }, [runAudit]);
+
+  const getEventBadge = (event: VerifiedShipmentEvent) => {
+    switch (event.ledgerCheck.status) {
+      case 'intact':
+        return <Badge className="bg-green-500"><CheckCircle className="h-3 w-3 mr-1" /> Intact</Badge>;
+      case 'tampered':
+        return <Badge className="bg-red-500"><XCircle className="h-3 w-3 mr-1" /> Tampered</Badge>;
+      default:
+        return <Badge className="bg-yellow-500"><AlertTriangle className="h-3 w-3 mr-1" /> Not Anchored</Badge>;
+    }
+  };
+
+  const getSignerText = (event: VerifiedShipmentEvent) => {
+    const { status, signer, reason } = event.signatureCheck;
+    if (status === 'valid' && signer) {
+      return <span className="text-green-700">Signed by {signer.name} ({signer.role})</span>;
+    }
+    if (status === 'invalid' && signer) {
+      return <span className="text-red-600">Invalid signature for {signer.name}</span>;
+    }
+    return <span className="text-yellow-700">{reason || 'Unsigned'}</span>;
+  };
+
+  const renderDiscrepancy = (discrepancy: LedgerDiscrepancy, index: number) => (
+    <li key={index} className="text-xs text-red-700">
+      <div>{discrepancy.message}</div>
+      {discrepancy.field && (
+        <div className="font-mono mt-0.5 break-all text-muted-foreground">
+          database: {formatValue(discrepancy.database)} · ledger: {formatValue(discrepancy.ledger)}
+        </div>
+      )}
+    </li>
+  );
+
+  const report = result?.verification.tamperReport;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center">
+              {report && !report.clean
+                ? <ShieldAlert className="h-5 w-5 mr-2 text-red-600" />
+                : <ShieldCheck className="h-5 w-5 mr-2 text-eco-purple" />}
+              Ledger Audit
+            </CardTitle>
+            <CardDescription>Event history compared with the ledger entries it was anchored in</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={runAudit} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Re-check
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {loading && !result ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : !result || !report ? (
+          <div className="flex items-start text-sm bg-red-50 text-red-700 p-2 rounded">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error || 'The event history could not be audited'}</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className={`text-sm p-3 rounded ${report.clean ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              {report.clean
+                ? `All ${report.checkedEvents} events match the ledger.`
+                : `${report.tamperedEvents} tampered, ${report.unanchoredEvents} not anchored and ${report.deletedEntries.length} deleted out of ${report.checkedEvents + report.deletedEntries.length} events.`}
+            </div>
+
+            {result.events.length === 0 && report.deletedEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No supply chain events have been recorded for this shipment.</p>
+            ) : (
+              <ul className="divide-y">
+                {result.events.map(event => (
+                  <li key={event.id} className="py-3 first:pt-0">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <div className="font-medium text-sm">{formatEventType(event.event_type)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(event.created_at).toLocaleString()}
+                          {event.ledgerCheck.blockNumber !== null && ` • Block ${event.ledgerCheck.blockNumber}`}
+                        </div>
+                        <div className="text-xs mt-0.5">{getSignerText(event)}</div>
+                      </div>
+                      {getEventBadge(event)}
+                    </div>
+                    {event.ledgerCheck.discrepancies.length > 0 && (
+                      <ul className="mt-2 space-y-1 bg-red-50 p-2 rounded">
+                        {event.ledgerCheck.discrepancies.map(renderDiscrepancy)}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {report.deletedEntries.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2 flex items-center">
+                  <Trash2 className="h-4 w-4 mr-1 text-red-600" />
+                  Deleted From Database
+                </h4>
+                <ul className="space-y-2">
+                  {report.deletedEntries.map(entry => (
+                    <li key={entry.transactionHash} className="text-xs bg-red-50 p-2 rounded">
+                      <div className="font-medium text-red-800">
+                        {formatEventType(entry.eventType || entry.operation)} • {new Date(entry.timestamp).toLocaleString()}
+                      </div>
+                      <div className="font-mono text-muted-foreground mt-0.5">
+                        {shortHash(entry.transactionHash)}
+                        {entry.blockNumber !== null && ` • Block ${entry.blockNumber}`}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.sequenceGaps.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Gaps in the Sequence</h4>
+                <ul className="space-y-1">
+                  {report.sequenceGaps.map((gap, index) => (
+                    <li key={index} className="text-xs text-red-700">{gap.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProductHistoryAudit;
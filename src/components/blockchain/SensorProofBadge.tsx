@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { blockchainService, SensorProofCheck, StoredSensorReading } from '@/services/blockchain';
+import { CheckCircle, XCircle, Clock } from 'lucide-react';
+
+interface SensorProofBadgeProps {
+  reading: StoredSensorReading;
+}
+
+// Proves one sensor reading against the Merkle root anchored for its batch
+export const SensorProofBadge: React.FC<SensorProofBadgeProps> = ({ reading }) => {
+  const [check, setCheck] = useState<SensorProofCheck | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    blockchainService.verifySensorReadingProof(reading)
+      .then(result => {
+        if (!cancelled) setCheck(result);
+      })
+      .catch(error => {
+        console.error('Error verifying sensor reading proof:', error);
+        if (!cancelled) {
+          setCheck({ status: 'anchor_not_found', reason: 'Proof could not be checked', transactionHash: null, blockNumber: null });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reading]);
+
+  if (!check) {
+    return <span className="text-xs text-muted-foreground">Checking...</span>;
+  }
+
+  switch (check.status) {
+    case 'verified':
+      return (
+        <Badge className="bg-green-500" title={check.blockNumber !== null ? `Anchored in block ${check.blockNumber}` : undefined}>
+          <CheckCircle className="h-3 w-3 mr-1" /> Proven
+        </Badge>
+      );
+    case 'unanchored':
+      return (
+        <Badge className="bg-yellow-500" title={check.reason ?? undefined}>
+          <Clock className="h-3 w-3 mr-1" /> Pending
+        </Badge>
+      );
+    default:
+      return (
+        <Badge className="bg-red-500" title={check.reason ?? undefined}>
+          <XCircle className="h-3 w-3 mr-1" /> Invalid
+        </Badge>
+      );
+  }
+};
+
+export default SensorProofBadge;
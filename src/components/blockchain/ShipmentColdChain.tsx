@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+import SensorProofBadge from '@/components/blockchain/SensorProofBadge';
+import { ContractDetails, GuardOutcome, getContractDetails } from '@/services/blockchain/contractLifecycle';
+import {
+  COLD_CHAIN_PROFILES,
+  ColdChainClaim,
+  ColdChainProfile,
+  getClaimEvidence,
+  getColdChainClaims,
+  getEvidenceReadings,
+  getShipmentColdChain,
+  openShipmentColdChain
+} from '@/services/blockchain/coldChain';
+import { Database } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Snowflake, CheckCircle, XCircle } from 'lucide-react';
+
+type SensorReadingRow = Database['public']['Tables']['sensor_data']['Row'];
+
+interface ShipmentColdChainProps {
+  shipmentId: string;
+  driverId: string | null;
+  isManager: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-400',
+  active: 'bg-blue-500',
+  fulfilled: 'bg-green-500',
+  breached: 'bg-red-500',
+  terminated: 'bg-orange-500'
+};
+
+// The contract's state as a verdict on the shipment
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  active: 'Monitoring',
+  fulfilled: 'Compliant',
+  breached: 'Breached',
+  terminated: 'Terminated'
+};
+
+const describeLimits = (limits: Partial<ColdChainProfile>) => [
+  `${limits.minTemperature}°C to ${limits.maxTemperature}°C`,
+  limits.minHumidity !== undefined || limits.maxHumidity !== undefined
+    ? `humidity ${limits.minHumidity ?? 0}% to ${limits.maxHumidity ?? 100}%`
+    : null,
+  `up to ${limits.maxExcursionMinutes} min out of range`
+].filter(Boolean).join(' · ');
+
+export const ShipmentColdChain: React.FC<ShipmentColdChainProps> = ({ shipmentId, driverId, isManager }) => {
+  const [details, setDetails] = useState<ContractDetails | null>(null);
+  const [claims, setClaims] = useState<ColdChainClaim[]>([]);
+  const [evidenceReadings, setEvidenceReadings] = useState<Record<string, SensorReadingRow>>({});
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState(false);
+  const [productType, setProductType] = useState('chilled');
+
+  const loadColdChain = useCallback(async () => {
+    setLoading(true);
+    try {
+      const contract = await getShipmentColdChain(shipmentId);
+      const nextClaims = contract ? await getColdChainClaims({ shipmentId }) : [];
+      const readings = (await Promise.all(nextClaims.map(getEvidenceReadings))).flat();
+
+      setDetails(contract ? await getContractDetails(contract.id) : null);
+      setClaims(nextClaims);
+      setEvidenceReadings(Object.fromEntries(readings.map(reading => [reading.id, reading])));
+    } catch (error) {
+      console.error('Error loading cold-chain contract:', error);
+      toast.error('Could not load the shipment\'s cold-chain contract');
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadColdChain();
+  }, [loadColdChain]);
+
+  const openColdChain = async () => {
+    setOpening(true);
+    try {
+      await openShipmentColdChain(shipmentId, { productType });
+      toast.success('Cold-chain monitoring activated');
+      await loadColdChain();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The cold-chain contract could not be opened');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const renderGuards = (guards: GuardOutcome[]) => (
+    <ul className="space-y-0.5">
+      {guards.map(guard => (
+        <li key={guard.guard} className={`flex items-start ${guard.passed ? 'text-green-700' : 'text-muted-foreground'}`}>
+          {guard.passed
+            ? <CheckCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            : <XCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />}
+          {guard.detail}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderTerms = () => {
+    const { contract } = details!;
+    const terms = contract.terms as Record<string, unknown>;
+    const profile = COLD_CHAIN_PROFILES[String(terms.productType)];
+
+    return (
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-medium">{profile?.label ?? String(terms.productType)}</div>
+            <div className="text-xs text-muted-foreground font-mono">{shortenHash(details!.contractAddress, 6)}</div>
+          </div>
+          <Badge className={STATUS_STYLES[contract.status] ?? 'bg-gray-400'}>
+            {STATUS_LABELS[contract.status] ?? contract.status}
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <div>{describeLimits(terms as Partial<ColdChainProfile>)}</div>
+          <div>Claims against <span className="font-mono">{String(terms.responsibleId).substring(0, 8)}</span></div>
+        </div>
+      </div>
+    );
+  };
+
+  // While monitoring, how much of the allowance the readings have used; afterwards, what decided it
+  const renderVerdict = () => {
+    const { contract, options, history } = details!;
+
+    if (contract.status === 'active') {
+      const certify = options.find(option => option.name === 'certify');
+      return certify && (
+        <div className="text-xs border rounded p-2">
+          <div className="font-medium mb-1">Certified on delivery</div>
+          {renderGuards(certify.guards)}
+        </div>
+      );
+    }
+
+    const verdict = [...history].reverse().find(entry => entry.to_status === 'fulfilled' || entry.to_status === 'breached');
+    if (!verdict) return null;
+
+    return (
+      <div className="text-xs border rounded p-2">
+        <div className="font-medium mb-1">Verdict</div>
+        {renderGuards(verdict.guards)}
+        <div className="text-muted-foreground mt-1">
+          {new Date(verdict.created_at).toLocaleString()}
+          {verdict.blockchain_tx_hash && <> · {shortenHash(verdict.blockchain_tx_hash)}</>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderClaim = (claim: ColdChainClaim) => {
+    const evidence = getClaimEvidence(claim);
+
+    return (
+      <div key={claim.id} className="border border-red-200 bg-red-50 rounded p-2 space-y-2 text-xs">
+        <div className="flex justify-between gap-2">
+          <span className="font-medium">
+            Claim opened: {claim.excursion_minutes} min out of range, {claim.max_excursion_minutes} allowed
+          </span>
+          <Badge variant="outline" className="capitalize">{claim.status}</Badge>
+        </div>
+        <div className="text-muted-foreground">
+          For <span className="font-mono">{claim.claimant_id.substring(0, 8)}</span> against{' '}
+          <span className="font-mono">{claim.respondent_id.substring(0, 8)}</span>
+          {' · '}
+          {claim.blockchain_tx_hash
+            ? isManager
+              ? <TransactionLink hash={claim.blockchain_tx_hash} />
+              : <span className="font-mono">{shortenHash(claim.blockchain_tx_hash)}</span>
+            : 'Recording on the ledger...'}
+        </div>
+        {evidence.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-red-200 text-left">
+                  <th className="py-1 pr-2 font-medium">Taken at</th>
+                  <th className="py-1 pr-2 font-medium">Temp (°C)</th>
+                  <th className="py-1 pr-2 font-medium">Humidity (%)</th>
+                  <th className="py-1 pr-2 font-medium">Leaf hash</th>
+                  <th className="py-1 font-medium">Proof</th>
+                </tr>
+              </thead>
+              <tbody>
+                {evidence.map(item => (
+                  <tr key={item.readingId} className="border-b border-red-100 last:border-0">
+                    <td className="py-1 pr-2 whitespace-nowrap">{new Date(item.timestamp).toLocaleString()}</td>
+                    <td className="py-1 pr-2">{item.temperature ?? 'N/A'}</td>
+                    <td className="py-1 pr-2">{item.humidity ?? 'N/A'}</td>
+                    <td className="py-1 pr-2 font-mono">{shortenHash(item.leafHash)}</td>
+                    <td className="py-1">
+                      {evidenceReadings[item.readingId]
+                        ? <SensorProofBadge reading={evidenceReadings[item.readingId]} />
+                        : <span className="text-muted-foreground">Reading missing</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderOpenForm = () => (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-medium">Monitor the cold chain</h4>
+      {!driverId ? (
+        <p className="text-xs text-muted-foreground">Assign a driver first; claims are opened against them.</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="cold-chain-product" className="text-xs">Product type</Label>
+            <Select value={productType} onValueChange={setProductType}>
+              <SelectTrigger id="cold-chain-product">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COLD_CHAIN_PROFILES).map(([type, profile]) => (
+                  <SelectItem key={type} value={type}>{profile.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">{describeLimits(COLD_CHAIN_PROFILES[productType])}</p>
+          <Button size="sm" onClick={openColdChain} disabled={opening}>
+            {opening ? 'Deploying...' : 'Activate Monitoring'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
+  // A new contract can replace one that was terminated
+  const canOpen = isManager && !loading && (!details || details.contract.status === 'terminated');
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center">
+          <Snowflake className="h-5 w-5 mr-2 text-eco-purple" />
+          Cold Chain
+        </CardTitle>
+        <CardDescription>Temperature and humidity limits, checked against every sensor reading</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && !details ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : !details ? (
+          <p className="text-sm text-muted-foreground">No cold-chain contract covers this shipment.</p>
+        ) : (
+          <>
+            {renderTerms()}
+            {renderVerdict()}
+            {claims.map(renderClaim)}
+          </>
+        )}
+
+        {canOpen && renderOpenForm()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentColdChain;
@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+import {
+  ContractDetails,
+  ContractState,
+  TransitionOption,
+  createDeliveryContract,
+  evaluateShipmentContracts,
+  getContractDetails,
+  getShipmentContracts,
+  transitionContract
+} from '@/services/blockchain/contractLifecycle';
+import { toast } from 'sonner';
+import { FileSignature, RefreshCw, CheckCircle, XCircle, AlertTriangle, PlayCircle } from 'lucide-react';
+
+interface ShipmentContractsProps {
+  shipmentId: string;
+  customerId: string;
+  driverId: string | null;
+  isManager: boolean;
+}
+
+const STATE_STYLES: Record<ContractState, string> = {
+  draft: 'bg-gray-400',
+  active: 'bg-blue-500',
+  fulfilled: 'bg-green-500',
+  breached: 'bg-red-500',
+  terminated: 'bg-orange-500',
+  expired: 'bg-yellow-500'
+};
+
+// 'service_agreement' -> 'Service Agreement'
+const formatName = (name: string) =>
+  name.split(/[_-]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const StateBadge = ({ state }: { state: string }) => (
+  <Badge className={STATE_STYLES[state as ContractState] ?? 'bg-gray-400'}>{formatName(state)}</Badge>
+);
+
+export const ShipmentContracts: React.FC<ShipmentContractsProps> = ({ shipmentId, customerId, driverId, isManager }) => {
+  const [contracts, setContracts] = useState<ContractDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [terms, setTerms] = useState({ deliverBy: '', expiresAt: '' });
+
+  const loadContracts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const rows = await getShipmentContracts(shipmentId);
+      setContracts(await Promise.all(rows.map(row => getContractDetails(row.id))));
+    } catch (error) {
+      console.error('Error loading contracts:', error);
+      toast.error('Could not load the shipment\'s contracts');
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadContracts();
+  }, [loadContracts]);
+
+  const runTransition = async (details: ContractDetails, option: TransitionOption) => {
+    const reason = reasons[details.contract.id]?.trim();
+    if (option.requiresReason && !reason) {
+      toast.error(`Give a reason to ${option.label.toLowerCase()} the contract`);
+      return;
+    }
+
+    setBusy(details.contract.id);
+    try {
+      await transitionContract(details.contract.id, option.name, reason || undefined);
+      toast.success(`Contract ${formatName(option.to).toLowerCase()}`);
+      setReasons(prev => ({ ...prev, [details.contract.id]: '' }));
+      await loadContracts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The transition failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const createContract = async () => {
+    if (!terms.deliverBy) {
+      toast.error('Choose the delivery deadline');
+      return;
+    }
+
+    setBusy('create');
+    try {
+      await createDeliveryContract(shipmentId, [customerId, driverId].filter((party): party is string => !!party), {
+        deliverBy: new Date(terms.deliverBy).toISOString(),
+        expiresAt: terms.expiresAt ? new Date(terms.expiresAt).toISOString() : undefined
+      });
+      toast.success('Delivery agreement drafted');
+      setTerms({ deliverBy: '', expiresAt: '' });
+      await loadContracts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The contract could not be created');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const evaluate = async () => {
+    setBusy('evaluate');
+    try {
+      const applied = await evaluateShipmentContracts(shipmentId);
+      toast.success(applied > 0 ? `${applied} transition${applied === 1 ? '' : 's'} applied` : 'No transitions are due');
+      await loadContracts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The contracts could not be evaluated');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderOption = (details: ContractDetails, option: TransitionOption) => (
+    <div key={option.name} className="text-xs border rounded p-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          {option.label}
+          {option.automatic && <span className="text-muted-foreground font-normal"> · automatic</span>}
+        </span>
+        {details.canTransition && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={!option.allowed || busy !== null}
+            onClick={() => runTransition(details, option)}
+          >
+            <PlayCircle className="h-3 w-3 mr-1" />
+            Run
+          </Button>
+        )}
+      </div>
+      {option.guards.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {option.guards.map(guard => (
+            <li key={guard.guard} className={`flex items-start ${guard.passed ? 'text-green-700' : 'text-muted-foreground'}`}>
+              {guard.passed
+                ? <CheckCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                : <XCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />}
+              {guard.detail}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  const renderContract = (details: ContractDetails) => {
+    const { contract, options, history } = details;
+    const needsReason = details.canTransition && options.some(option => option.requiresReason);
+
+    return (
+      <li key={contract.id} className="py-3 first:pt-0 space-y-2">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-medium text-sm">{formatName(contract.contract_type)}</div>
+            <div className="text-xs text-muted-foreground font-mono">{shortenHash(details.contractAddress, 6)}</div>
+          </div>
+          <StateBadge state={contract.status} />
+        </div>
+
+        {options.length > 0 && (
+          <div className="space-y-2">
+            {options.map(option => renderOption(details, option))}
+            {needsReason && (
+              <Input
+                placeholder="Reason (needed to terminate or breach)"
+                className="h-8 text-xs"
+                value={reasons[contract.id] ?? ''}
+                onChange={(e) => setReasons(prev => ({ ...prev, [contract.id]: e.target.value }))}
+              />
+            )}
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-xs font-medium mb-1">History</h4>
+          {history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No transitions yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {history.map(entry => (
+                <li key={entry.id} className="text-xs bg-gray-50 p-2 rounded">
+                  <div className="flex justify-between gap-2">
+                    <span>
+                      {formatName(entry.from_status)} → {formatName(entry.to_status)}
+                      {!entry.triggered_by && <span className="text-muted-foreground"> (automatic)</span>}
+                    </span>
+                    <span className="text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+                  </div>
+                  {entry.reason && <div className="mt-0.5">{entry.reason}</div>}
+                  {entry.blockchain_tx_hash && (
+                    <div className="mt-0.5">
+                      {isManager
+                        ? <TransactionLink hash={entry.blockchain_tx_hash} />
+                        : <span className="font-mono text-muted-foreground">{shortenHash(entry.blockchain_tx_hash)}</span>}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center">
+              <FileSignature className="h-5 w-5 mr-2 text-eco-purple" />
+              Contracts
+            </CardTitle>
+            <CardDescription>Agreements on this shipment and the ledger-recorded history of each</CardDescription>
+          </div>
+          {isManager && (
+            <Button variant="outline" size="sm" onClick={evaluate} disabled={busy !== null}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${busy === 'evaluate' ? 'animate-spin' : ''}`} />
+              Evaluate
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && contracts.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : contracts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contracts cover this shipment.</p>
+        ) : (
+          <ul className="divide-y">{contracts.map(renderContract)}</ul>
+        )}
+
+        {isManager && (
+          <div className="border-t pt-4 space-y-3">
+            <h4 className="text-sm font-medium">New delivery agreement</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="contract-deliver-by">Deliver by</Label>
+                <Input
+                  id="contract-deliver-by"
+                  type="datetime-local"
+                  value={terms.deliverBy}
+                  onChange={(e) => setTerms(prev => ({ ...prev, deliverBy: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contract-expires-at">Offer expires (optional)</Label>
+                <Input
+                  id="contract-expires-at"
+                  type="datetime-local"
+                  value={terms.expiresAt}
+                  onChange={(e) => setTerms(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-start text-xs text-muted-foreground">
+              <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+              The customer and the assigned driver become its parties. It starts as a draft until activated.
+            </div>
+            <Button size="sm" onClick={createContract} disabled={busy !== null}>
+              {busy === 'create' ? 'Deploying...' : 'Draft Contract'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentContracts;
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DisputeStatusBadge from '@/components/blockchain/DisputeStatusBadge';
+import { ACTIVE_DISPUTE_STATUSES, Dispute, getDisputes, openDispute } from '@/services/blockchain/disputes';
+import { toast } from 'sonner';
+import { Scale } from 'lucide-react';
+
+interface ShipmentDisputesProps {
+  shipmentId: string;
+  customerId: string;
+  driverId: string | null;
+  userId: string | undefined;
+  isManager: boolean;
+}
+
+const EMPTY_CLAIM = { respondentId: '', reason: '', amountClaimed: '', currency: 'USD', responseDays: '7' };
+
+export const ShipmentDisputes: React.FC<ShipmentDisputesProps> = ({ shipmentId, customerId, driverId, userId, isManager }) => {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [opening, setOpening] = useState(false);
+  const [claim, setClaim] = useState(EMPTY_CLAIM);
+
+  // The customer disputes with the driver and the driver with the customer; a manager picks either
+  const otherParty = userId === customerId ? driverId : userId === driverId ? customerId : null;
+  const canOpen = !!userId && (isManager || !!otherParty);
+
+  const loadDisputes = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDisputes(await getDisputes({ shipmentId }));
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+      toast.error('Could not load the shipment\'s disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const submitClaim = async () => {
+    const amountClaimed = Number(claim.amountClaimed);
+    const respondentId = otherParty ?? claim.respondentId;
+    if (!respondentId) {
+      toast.error('Choose who the dispute is against');
+      return;
+    }
+    if (!claim.reason.trim() || claim.amountClaimed === '' || !(amountClaimed >= 0)) {
+      toast.error('Describe the dispute and the amount you claim');
+      return;
+    }
+
+    setOpening(true);
+    try {
+      await openDispute({
+        shipmentId,
+        respondentId,
+        reason: claim.reason.trim(),
+        amountClaimed,
+        currency: claim.currency.trim().toUpperCase(),
+        responseDays: Number(claim.responseDays)
+      });
+      toast.success('Dispute raised');
+      setClaim(EMPTY_CLAIM);
+      await loadDisputes();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The dispute could not be raised');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const renderDispute = (dispute: Dispute) => (
+    <Link
+      key={dispute.id}
+      to={`/disputes/${dispute.id}`}
+      className="block border rounded p-2 text-xs space-y-1 hover:bg-muted/50"
+    >
+      <div className="flex justify-between items-start gap-2">
+        <span className="font-medium text-sm line-clamp-2">{dispute.reason}</span>
+        <DisputeStatusBadge status={dispute.status} />
+      </div>
+      <div className="text-muted-foreground">
+        {Number(dispute.amount_claimed).toFixed(2)} {dispute.currency} claimed by{' '}
+        <span className="font-mono">{dispute.claimant_id === userId ? 'you' : dispute.claimant_id.substring(0, 8)}</span> from{' '}
+        <span className="font-mono">{dispute.respondent_id === userId ? 'you' : dispute.respondent_id.substring(0, 8)}</span>
+        {' · '}
+        {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+      </div>
+    </Link>
+  );
+
+  const renderOpenForm = () => (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-medium">Raise a dispute</h4>
+      {otherParty ? (
+        <p className="text-xs text-muted-foreground">
+          Against the shipment's {userId === customerId ? 'driver' : 'customer'}. They have until the deadline to answer;
+          after that it goes to an arbiter.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <Label htmlFor="dispute-respondent" className="text-xs">Against</Label>
+          <Select value={claim.respondentId} onValueChange={(value) => setClaim(prev => ({ ...prev, respondentId: value }))}>
+            <SelectTrigger id="dispute-respondent">
+              <SelectValue placeholder="Choose a party" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={customerId}>The customer</SelectItem>
+              {driverId && <SelectItem value={driverId}>The driver</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="dispute-reason" className="text-xs">What went wrong</Label>
+        <Textarea
+          id="dispute-reason"
+          rows={3}
+          value={claim.reason}
+          onChange={(e) => setClaim(prev => ({ ...prev, reason: e.target.value }))}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="dispute-amount" className="text-xs">Amount claimed</Label>
+          <Input
+            id="dispute-amount"
+            type="number"
+            min="0"
+            value={claim.amountClaimed}
+            onChange={(e) => setClaim(prev => ({ ...prev, amountClaimed: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="dispute-currency" className="text-xs">Currency</Label>
+          <Input
+            id="dispute-currency"
+            maxLength={3}
+            value={claim.currency}
+            onChange={(e) => setClaim(prev => ({ ...prev, currency: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="dispute-days" className="text-xs">Days to answer</Label>
+          <Input
+            id="dispute-days"
+            type="number"
+            min="1"
+            max="30"
+            value={claim.responseDays}
+            onChange={(e) => setClaim(prev => ({ ...prev, responseDays: e.target.value }))}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">You can add evidence once the dispute is raised.</p>
+      <Button size="sm" onClick={submitClaim} disabled={opening}>
+        {opening ? 'Raising...' : 'Raise Dispute'}
+      </Button>
+    </div>
+  );
+
+  const active = disputes.filter(dispute => ACTIVE_DISPUTE_STATUSES.includes(dispute.status)).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center">
+          <Scale className="h-5 w-5 mr-2 text-eco-purple" />
+          Disputes
+        </CardTitle>
+        <CardDescription>
+          {active > 0 ? `${active} still to be resolved` : 'Claims between the shipment\'s parties, settled between them or by an arbiter'}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && disputes.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : disputes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No disputes have been raised about this shipment.</p>
+        ) : (
+          <div className="space-y-2">
+            {disputes.map(renderDispute)}
+          </div>
+        )}
+
+        {canOpen && renderOpenForm()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentDisputes;
@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+import { ContractDetails, getContractDetails } from '@/services/blockchain/contractLifecycle';
+import {
+  DeliveryDetails,
+  EscrowLedgerEntry,
+  EscrowTerms,
+  addProofOfDelivery,
+  getShipmentEscrow,
+  getShipmentEscrowEntries,
+  openShipmentEscrow,
+  recordDelivery
+} from '@/services/blockchain/escrow';
+import { toast } from 'sonner';
+import { Landmark, CheckCircle, XCircle, Upload, PackageCheck } from 'lucide-react';
+
+interface ShipmentEscrowProps {
+  shipmentId: string;
+  shipmentStatus: string;
+  driverId: string | null;
+  userId: string | undefined;
+  isManager: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-400',
+  active: 'bg-blue-500',
+  fulfilled: 'bg-green-500',
+  terminated: 'bg-orange-500'
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Not funded',
+  active: 'Held',
+  fulfilled: 'Settled',
+  terminated: 'Refunded'
+};
+
+const REFUND_REASONS: Record<string, string> = {
+  late: 'late delivery',
+  damaged: 'damaged delivery',
+  late_and_damaged: 'late and damaged delivery',
+  terminated: 'escrow terminated'
+};
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+const describeEntry = (entry: EscrowLedgerEntry) => {
+  switch (entry.kind) {
+    case 'deposit':
+      return 'Deposited by the customer';
+    case 'release':
+      return 'Released to the carrier';
+    case 'refund':
+      return `Refunded to the customer${entry.reason ? ` (${REFUND_REASONS[entry.reason] ?? entry.reason})` : ''}`;
+  }
+};
+
+const EMPTY_TERMS = { amount: '', currency: 'USD', lateRefundPercentPerDay: '', damageRefundPercent: '', maxRefundPercent: '' };
+
+const optionalPercent = (value: string) => value === '' ? undefined : Number(value);
+
+export const ShipmentEscrow: React.FC<ShipmentEscrowProps> = ({ shipmentId, shipmentStatus, driverId, userId, isManager }) => {
+  const [details, setDetails] = useState<ContractDetails | null>(null);
+  const [entries, setEntries] = useState<EscrowLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newTerms, setNewTerms] = useState(EMPTY_TERMS);
+  const [delivery, setDelivery] = useState<DeliveryDetails>({ recipientName: '', condition: 'intact', damageNotes: '' });
+  const [proof, setProof] = useState<File | null>(null);
+
+  const canDeliver = !!userId && (isManager || userId === driverId);
+
+  const loadEscrow = useCallback(async () => {
+    setLoading(true);
+    try {
+      const escrow = await getShipmentEscrow(shipmentId);
+      setDetails(escrow ? await getContractDetails(escrow.id) : null);
+      setEntries(escrow ? await getShipmentEscrowEntries(shipmentId) : []);
+    } catch (error) {
+      console.error('Error loading escrow:', error);
+      toast.error('Could not load the shipment\'s escrow');
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadEscrow();
+  }, [loadEscrow]);
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+      await loadEscrow();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openEscrow = async () => {
+    const amount = Number(newTerms.amount);
+    if (!(amount > 0)) {
+      toast.error('Enter the amount to hold');
+      return;
+    }
+
+    const terms: EscrowTerms = {
+      amount,
+      currency: newTerms.currency.trim().toUpperCase(),
+      lateRefundPercentPerDay: optionalPercent(newTerms.lateRefundPercentPerDay),
+      damageRefundPercent: optionalPercent(newTerms.damageRefundPercent),
+      maxRefundPercent: optionalPercent(newTerms.maxRefundPercent)
+    };
+    if (await run('open', () => openShipmentEscrow(shipmentId, terms), 'Payment locked in escrow', 'The escrow could not be opened')) {
+      setNewTerms(EMPTY_TERMS);
+    }
+  };
+
+  const markDelivered = () => run(
+    'deliver',
+    () => recordDelivery(shipmentId, userId!, {
+      recipientName: delivery.recipientName?.trim() || undefined,
+      condition: delivery.condition,
+      damageNotes: delivery.condition === 'damaged' ? delivery.damageNotes?.trim() || undefined : undefined
+    }),
+    'Delivery recorded',
+    'The delivery could not be recorded'
+  );
+
+  const uploadProof = async () => {
+    if (!proof) {
+      toast.error('Choose the proof of delivery file');
+      return;
+    }
+    if (await run('proof', () => addProofOfDelivery(shipmentId, userId!, proof), 'Proof of delivery anchored', 'The proof could not be added')) {
+      setProof(null);
+    }
+  };
+
+  const renderTerms = () => {
+    const { contract } = details!;
+    const terms = contract.terms as Record<string, unknown>;
+    const currency = String(terms.currency);
+    const policy = [
+      terms.lateRefundPercentPerDay !== undefined && `${terms.lateRefundPercentPerDay}% refunded per day late`,
+      terms.damageRefundPercent !== undefined && `${terms.damageRefundPercent}% refunded if damaged`,
+      terms.maxRefundPercent !== undefined && `refunds capped at ${terms.maxRefundPercent}%`
+    ].filter(Boolean).join(', ');
+
+    return (
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-medium">{formatAmount(Number(terms.amount), currency)}</div>
+            <div className="text-xs text-muted-foreground font-mono">{shortenHash(details!.contractAddress, 6)}</div>
+          </div>
+          <Badge className={STATUS_STYLES[contract.status] ?? 'bg-gray-400'}>
+            {STATUS_LABELS[contract.status] ?? contract.status}
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Deliver by {new Date(String(terms.deliverBy)).toLocaleString()}
+          {policy && <> · {policy}</>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderRelease = () => {
+    const release = details!.options.find(option => option.name === 'release');
+    if (!release) return null;
+
+    return (
+      <div className="text-xs border rounded p-2">
+        <div className="font-medium mb-1">Released to the carrier once</div>
+        <ul className="space-y-0.5">
+          {release.guards.map(guard => (
+            <li key={guard.guard} className={`flex items-start ${guard.passed ? 'text-green-700' : 'text-muted-foreground'}`}>
+              {guard.passed
+                ? <CheckCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                : <XCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />}
+              {guard.detail}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderDeliveryActions = () => {
+    const release = details!.options.find(option => option.name === 'release');
+    if (!release || !canDeliver) return null;
+
+    const delivered = shipmentStatus === 'delivered' || release.guards.some(guard => guard.guard === 'delivery_recorded' && guard.passed);
+    const proven = release.guards.some(guard => guard.guard === 'proof_of_delivery_recorded' && guard.passed);
+
+    return (
+      <div className="border-t pt-4 space-y-4">
+        {!delivered && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Record delivery</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="escrow-recipient">Received by</Label>
+                <Input
+                  id="escrow-recipient"
+                  placeholder="Optional"
+                  value={delivery.recipientName}
+                  onChange={(e) => setDelivery(prev => ({ ...prev, recipientName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="escrow-condition">Condition</Label>
+                <Select
+                  value={delivery.condition}
+                  onValueChange={(condition) => setDelivery(prev => ({ ...prev, condition: condition as DeliveryDetails['condition'] }))}
+                >
+                  <SelectTrigger id="escrow-condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="intact">Intact</SelectItem>
+                    <SelectItem value="damaged">Damaged</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {delivery.condition === 'damaged' && (
+              <Input
+                placeholder="What was damaged"
+                value={delivery.damageNotes}
+                onChange={(e) => setDelivery(prev => ({ ...prev, damageNotes: e.target.value }))}
+              />
+            )}
+            <Button size="sm" onClick={markDelivered} disabled={busy !== null}>
+              <PackageCheck className="h-4 w-4 mr-1" />
+              {busy === 'deliver' ? 'Recording...' : 'Mark Delivered'}
+            </Button>
+          </div>
+        )}
+
+        {!proven && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Proof of delivery</h4>
+            <p className="text-xs text-muted-foreground">
+              A signed receipt or photo. Only its SHA-256 hash is recorded on the ledger.
+            </p>
+            <Input type="file" onChange={(e) => setProof(e.target.files?.[0] ?? null)} />
+            <Button size="sm" variant="outline" onClick={uploadProof} disabled={busy !== null || !proof}>
+              <Upload className="h-4 w-4 mr-1" />
+              {busy === 'proof' ? 'Anchoring...' : 'Add Proof'}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderOpenForm = () => (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-medium">Hold payment in escrow</h4>
+      {!driverId ? (
+        <p className="text-xs text-muted-foreground">Assign a driver first; the escrow pays them on delivery.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="escrow-amount">Amount</Label>
+              <Input
+                id="escrow-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={newTerms.amount}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, amount: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="escrow-currency">Currency</Label>
+              <Input
+                id="escrow-currency"
+                maxLength={3}
+                value={newTerms.currency}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, currency: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="escrow-late" className="text-xs">% per day late</Label>
+              <Input
+                id="escrow-late"
+                type="number"
+                min="0"
+                max="100"
+                value={newTerms.lateRefundPercentPerDay}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, lateRefundPercentPerDay: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="escrow-damage" className="text-xs">% if damaged</Label>
+              <Input
+                id="escrow-damage"
+                type="number"
+                min="0"
+                max="100"
+                value={newTerms.damageRefundPercent}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, damageRefundPercent: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="escrow-max" className="text-xs">Refund cap %</Label>
+              <Input
+                id="escrow-max"
+                type="number"
+                min="0"
+                max="100"
+                value={newTerms.maxRefundPercent}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, maxRefundPercent: e.target.value }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Taken from the customer's wallet now; the deadline is the shipment's estimated arrival.
+          </p>
+          <Button size="sm" onClick={openEscrow} disabled={busy !== null}>
+            {busy === 'open' ? 'Locking...' : 'Lock Payment'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
+  // A new escrow can replace one that was terminated
+  const canOpen = isManager && !loading && (!details || details.contract.status === 'terminated');
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center">
+          <Landmark className="h-5 w-5 mr-2 text-eco-purple" />
+          Escrow
+        </CardTitle>
+        <CardDescription>The shipment's payment, paid to the carrier once delivery is proven</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && !details ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : !details ? (
+          <p className="text-sm text-muted-foreground">No payment is held in escrow for this shipment.</p>
+        ) : (
+          <>
+            {renderTerms()}
+            {renderRelease()}
+
+            <div>
+              <h4 className="text-xs font-medium mb-1">Movements</h4>
+              {entries.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Nothing has moved yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {entries.map(entry => (
+                    <li key={entry.transactionHash} className="text-xs bg-gray-50 p-2 rounded">
+                      <div className="flex justify-between gap-2">
+                        <span>{describeEntry(entry)}</span>
+                        <span className="font-medium">{formatAmount(entry.amount, entry.currency)}</span>
+                      </div>
+                      <div className="flex justify-between gap-2 mt-0.5 text-muted-foreground">
+                        {isManager
+                          ? <TransactionLink hash={entry.transactionHash} />
+                          : <span className="font-mono">{shortenHash(entry.transactionHash)}</span>}
+                        <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {renderDeliveryActions()}
+          </>
+        )}
+
+        {canOpen && renderOpenForm()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentEscrow;
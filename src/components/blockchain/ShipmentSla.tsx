@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+import { ContractDetails, GuardOutcome, getContractDetails } from '@/services/blockchain/contractLifecycle';
+import {
+  DELAY_CAUSES,
+  DelayCause,
+  SlaPenalty,
+  SlaTerms,
+  getShipmentSla,
+  getSlaPenalties,
+  openShipmentSla,
+  reportDelay
+} from '@/services/blockchain/sla';
+import { toast } from 'sonner';
+import { Timer, CheckCircle, XCircle, CloudRain } from 'lucide-react';
+
+interface ShipmentSlaProps {
+  shipmentId: string;
+  shipmentStatus: string;
+  driverId: string | null;
+  userId: string | undefined;
+  isManager: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-400',
+  active: 'bg-blue-500',
+  fulfilled: 'bg-green-500',
+  breached: 'bg-red-500',
+  terminated: 'bg-orange-500'
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  active: 'Monitoring',
+  fulfilled: 'Met',
+  breached: 'Penalty charged',
+  terminated: 'Terminated'
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const EMPTY_TERMS = {
+  currency: 'USD',
+  penaltyRate: '',
+  penaltyUnit: 'hour' as SlaTerms['penaltyUnit'],
+  gracePeriodHours: '',
+  maxPenalty: '',
+  excludedCauses: ['weather'] as DelayCause[]
+};
+
+const EMPTY_DELAY = { cause: 'weather' as DelayCause, delayHours: '', description: '' };
+
+const optionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+export const ShipmentSla: React.FC<ShipmentSlaProps> = ({ shipmentId, shipmentStatus, driverId, userId, isManager }) => {
+  const [details, setDetails] = useState<ContractDetails | null>(null);
+  const [penalties, setPenalties] = useState<SlaPenalty[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newTerms, setNewTerms] = useState(EMPTY_TERMS);
+  const [delay, setDelay] = useState(EMPTY_DELAY);
+
+  const canReportDelay = !!userId && (isManager || userId === driverId) && shipmentStatus !== 'delivered';
+
+  const loadSla = useCallback(async () => {
+    setLoading(true);
+    try {
+      const sla = await getShipmentSla(shipmentId);
+      setDetails(sla ? await getContractDetails(sla.id) : null);
+      setPenalties(sla ? await getSlaPenalties({ shipmentId }) : []);
+    } catch (error) {
+      console.error('Error loading SLA:', error);
+      toast.error('Could not load the shipment\'s SLA');
+    } finally {
+      setLoading(false);
+    }
+  }, [shipmentId]);
+
+  useEffect(() => {
+    loadSla();
+  }, [loadSla]);
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+      await loadSla();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openSla = async () => {
+    const penaltyRate = Number(newTerms.penaltyRate);
+    if (!(penaltyRate > 0)) {
+      toast.error('Enter the penalty rate');
+      return;
+    }
+
+    const terms: SlaTerms = {
+      currency: newTerms.currency.trim().toUpperCase(),
+      penaltyRate,
+      penaltyUnit: newTerms.penaltyUnit,
+      gracePeriodHours: optionalNumber(newTerms.gracePeriodHours),
+      maxPenalty: optionalNumber(newTerms.maxPenalty),
+      excludedCauses: newTerms.excludedCauses
+    };
+    if (await run('open', () => openShipmentSla(shipmentId, terms), 'SLA activated', 'The SLA could not be opened')) {
+      setNewTerms(EMPTY_TERMS);
+    }
+  };
+
+  const submitDelay = async () => {
+    const delayHours = Number(delay.delayHours);
+    if (!(delayHours > 0)) {
+      toast.error('Enter how many hours the delay cost');
+      return;
+    }
+
+    const report = { cause: delay.cause, delayHours, description: delay.description.trim() || undefined };
+    if (await run('delay', () => reportDelay(shipmentId, userId!, report), 'Delay recorded', 'The delay could not be recorded')) {
+      setDelay(EMPTY_DELAY);
+    }
+  };
+
+  const toggleExcluded = (cause: DelayCause, excluded: boolean) => {
+    setNewTerms(prev => ({
+      ...prev,
+      excludedCauses: excluded ? [...prev.excludedCauses, cause] : prev.excludedCauses.filter(other => other !== cause)
+    }));
+  };
+
+  const renderGuards = (guards: GuardOutcome[]) => (
+    <ul className="space-y-0.5">
+      {guards.map(guard => (
+        <li key={guard.guard} className={`flex items-start ${guard.passed ? 'text-green-700' : 'text-muted-foreground'}`}>
+          {guard.passed
+            ? <CheckCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            : <XCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />}
+          {guard.detail}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderTerms = () => {
+    const { contract } = details!;
+    const terms = contract.terms as Record<string, unknown>;
+    const excluded = (terms.excludedCauses as string[] | undefined) ?? [];
+
+    return (
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <div className="font-medium">
+              {String(terms.penaltyRate)} {String(terms.currency)} per {String(terms.penaltyUnit)} late
+            </div>
+            <div className="text-xs text-muted-foreground font-mono">{shortenHash(details!.contractAddress, 6)}</div>
+          </div>
+          <Badge className={STATUS_STYLES[contract.status] ?? 'bg-gray-400'}>
+            {STATUS_LABELS[contract.status] ?? contract.status}
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <div>Deliver by {new Date(String(terms.deliverBy)).toLocaleString()}</div>
+          <div>
+            {terms.gracePeriodHours ? `${terms.gracePeriodHours}h grace` : 'No grace period'}
+            {terms.maxPenalty !== undefined && ` · capped at ${terms.maxPenalty} ${terms.currency}`}
+            {excluded.length > 0 && ` · excludes ${excluded.join(', ')} delays`}
+          </div>
+          <div>Charged to <span className="font-mono">{String(terms.responsibleId).substring(0, 8)}</span></div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderAssessment = () => {
+    const { contract, options, history } = details!;
+
+    if (contract.status === 'active') {
+      const meet = options.find(option => option.name === 'meet');
+      return meet && (
+        <div className="text-xs border rounded p-2">
+          <div className="font-medium mb-1">Assessed on delivery</div>
+          {renderGuards(meet.guards)}
+        </div>
+      );
+    }
+
+    const assessment = [...history].reverse().find(entry => entry.to_status === 'fulfilled' || entry.to_status === 'breached');
+    if (!assessment) return null;
+
+    return (
+      <div className="text-xs border rounded p-2">
+        <div className="font-medium mb-1">Assessment</div>
+        {renderGuards(assessment.guards)}
+      </div>
+    );
+  };
+
+  const renderPenalties = () => penalties.length > 0 && (
+    <ul className="space-y-1">
+      {penalties.map(penalty => (
+        <li key={penalty.id} className="text-xs bg-red-50 p-2 rounded">
+          <div className="flex justify-between gap-2">
+            <span>
+              Penalty for {penalty.chargeable_minutes} min late
+              {penalty.excused_minutes > 0 && <span className="text-muted-foreground"> ({penalty.excused_minutes} min excused)</span>}
+            </span>
+            <span className="font-medium">{Number(penalty.amount).toFixed(2)} {penalty.currency}</span>
+          </div>
+          <div className="mt-0.5 text-muted-foreground">
+            {penalty.blockchain_tx_hash
+              ? isManager
+                ? <TransactionLink hash={penalty.blockchain_tx_hash} />
+                : <span className="font-mono">{shortenHash(penalty.blockchain_tx_hash)}</span>
+              : 'Recording on the ledger...'}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderDelayForm = () => (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-medium">Report a delay</h4>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="sla-delay-cause">Cause</Label>
+          <Select value={delay.cause} onValueChange={(cause) => setDelay(prev => ({ ...prev, cause: cause as DelayCause }))}>
+            <SelectTrigger id="sla-delay-cause">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELAY_CAUSES.map(cause => (
+                <SelectItem key={cause} value={cause}>{capitalize(cause)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="sla-delay-hours">Hours lost</Label>
+          <Input
+            id="sla-delay-hours"
+            type="number"
+            min="0"
+            step="0.5"
+            value={delay.delayHours}
+            onChange={(e) => setDelay(prev => ({ ...prev, delayHours: e.target.value }))}
+          />
+        </div>
+      </div>
+      <Input
+        placeholder="What happened (optional)"
+        value={delay.description}
+        onChange={(e) => setDelay(prev => ({ ...prev, description: e.target.value }))}
+      />
+      <Button size="sm" variant="outline" onClick={submitDelay} disabled={busy !== null}>
+        <CloudRain className="h-4 w-4 mr-1" />
+        {busy === 'delay' ? 'Recording...' : 'Report Delay'}
+      </Button>
+    </div>
+  );
+
+  const renderOpenForm = () => (
+    <div className="border-t pt-4 space-y-3">
+      <h4 className="text-sm font-medium">New SLA</h4>
+      {!driverId ? (
+        <p className="text-xs text-muted-foreground">Assign a driver first; penalties are charged to them.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="sla-rate" className="text-xs">Penalty</Label>
+              <Input
+                id="sla-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={newTerms.penaltyRate}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, penaltyRate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-currency" className="text-xs">Currency</Label>
+              <Input
+                id="sla-currency"
+                maxLength={3}
+                value={newTerms.currency}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, currency: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-unit" className="text-xs">Per</Label>
+              <Select
+                value={newTerms.penaltyUnit}
+                onValueChange={(unit) => setNewTerms(prev => ({ ...prev, penaltyUnit: unit as SlaTerms['penaltyUnit'] }))}
+              >
+                <SelectTrigger id="sla-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hour">Hour late</SelectItem>
+                  <SelectItem value="day">Day late</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="sla-grace" className="text-xs">Grace period (hours)</Label>
+              <Input
+                id="sla-grace"
+                type="number"
+                min="0"
+                value={newTerms.gracePeriodHours}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, gracePeriodHours: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-cap" className="text-xs">Penalty cap</Label>
+              <Input
+                id="sla-cap"
+                type="number"
+                min="0"
+                placeholder="None"
+                value={newTerms.maxPenalty}
+                onChange={(e) => setNewTerms(prev => ({ ...prev, maxPenalty: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Delays that don't count</Label>
+            <div className="flex flex-wrap gap-3">
+              {DELAY_CAUSES.map(cause => (
+                <label key={cause} className="flex items-center gap-1 text-xs">
+                  <Checkbox
+                    checked={newTerms.excludedCauses.includes(cause)}
+                    onCheckedChange={(checked) => toggleExcluded(cause, checked === true)}
+                  />
+                  {capitalize(cause)}
+                </label>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The deadline is the shipment's estimated arrival. Penalties are charged to the assigned driver.
+          </p>
+          <Button size="sm" onClick={openSla} disabled={busy !== null}>
+            {busy === 'open' ? 'Deploying...' : 'Activate SLA'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
+  // A new SLA can replace one that was terminated
+  const canOpen = isManager && !loading && (!details || details.contract.status === 'terminated');
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center">
+          <Timer className="h-5 w-5 mr-2 text-eco-purple" />
+          Service Level
+        </CardTitle>
+        <CardDescription>Late-delivery penalties, assessed when the shipment is delivered</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {loading && !details ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin h-6 w-6 border-2 border-eco-purple border-t-transparent rounded-full"></div>
+          </div>
+        ) : !details ? (
+          <p className="text-sm text-muted-foreground">No SLA covers this shipment.</p>
+        ) : (
+          <>
+            {renderTerms()}
+            {renderAssessment()}
+            {renderPenalties()}
+            {details.contract.status === 'active' && canReportDelay && renderDelayForm()}
+          </>
+        )}
+
+        {canOpen && renderOpenForm()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentSla;
@@ -1,51 +1,102 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useBlockchain } from '@/hooks/blockchain';
+import {
+  executeShipmentTrackingContract,
+  executeTransferOwnershipContract,
+  executeProductVerificationContract,
+  executePaymentSettlementContract,
+  executeCarbonCreditsContract,
+  executeCustomsClearance,
+  executePaymentRelease
+} from '@/services/blockchain/smartContracts';
 import { toast } from 'sonner';
-import { FileJson, CheckCircle2, Truck, CreditCard, FileCheck, ShieldCheck } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { FileJson, Truck, CreditCard, FileCheck, ShieldCheck, MapPin, UserCheck, Thermometer, Leaf, Banknote, AlertTriangle, Clock, PenLine } from 'lucide-react';
 
 interface SmartContractOperationsProps {
   shipmentId: string;
+  // Current owner of the shipment, used as the sender of ownership transfers
+  customerId?: string;
   onContractExecuted?: (contractType: string, txHash: string) => void;
 }
 
 export const SmartContractOperations: React.FC<SmartContractOperationsProps> = ({ 
   shipmentId,
+  customerId,
   onContractExecuted 
 }) => {
   const [selectedContract, setSelectedContract] = useState<string>('delivery');
   const [loading, setLoading] = useState(false);
-  const { executeSmartContract, processPayment, processClearance, confirmDelivery } = useBlockchain();
+  // What happened to the last execution when it didn't go through cleanly
+  const [outcome, setOutcome] = useState<{ status: 'failed' | 'queued' | 'awaiting_approval'; message: string } | null>(null);
+  const { confirmDelivery } = useBlockchain();
 
   // Form states for different contract types
   const [paymentDetails, setPaymentDetails] = useState({
     amount: '',
-    currency: 'USD'
+    currency: 'USD',
+    recipientId: ''
   });
   
   const [customsDetails, setCustomsDetails] = useState({
     countryCode: '',
-    documentHash: ''
+    declarationId: ''
   });
-  
+
+  const [trackingDetails, setTrackingDetails] = useState({
+    status: 'in-transit',
+    lat: '',
+    lng: ''
+  });
+
+  const [transferDetails, setTransferDetails] = useState({
+    toUserId: ''
+  });
+
+  const [verificationDetails, setVerificationDetails] = useState({
+    temperature: '',
+    humidity: '',
+    isIntact: 'yes'
+  });
+
+  const [carbonDetails, setCarbonDetails] = useState({
+    carbonSaved: ''
+  });
+
   const [deliveryDetails, setDeliveryDetails] = useState({
     recipientSignature: '',
     deliveryNotes: ''
   });
 
+  // Idempotency key for the operation in the form. Every click on Execute sends
+  // the same key until the operation succeeds or the form changes, so a double
+  // click or a retry after an error never executes it twice.
+  const idempotencyKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    idempotencyKey.current = null;
+    setOutcome(null);
+  }, [shipmentId, selectedContract, paymentDetails, customsDetails, trackingDetails, transferDetails, verificationDetails, carbonDetails, deliveryDetails]);
+
   const handleExecuteContract = async () => {
     if (!shipmentId) {
       toast.error('Shipment ID is required');
       return;
     }
 
+    idempotencyKey.current ??= crypto.randomUUID();
+    const key = idempotencyKey.current;
+
     setLoading(true);
+    setOutcome(null);
     try {
       let result;
 
@@ -57,25 +108,87 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
             return;
           }
 
-          result = await processPayment(
+          result = await executePaymentSettlementContract(
             shipmentId, 
             Number(paymentDetails.amount), 
-            paymentDetails.currency
+            paymentDetails.currency,
+            key
           );
           break;
 
+        case 'release':
+          if (!paymentDetails.amount || !paymentDetails.recipientId) {
+            toast.error('Payment amount and recipient are required');
+            setLoading(false);
+            return;
+          }
+
+          result = await executePaymentRelease(shipmentId, {
+            amount: Number(paymentDetails.amount),
+            currency: paymentDetails.currency,
+            recipientId: paymentDetails.recipientId
+          }, key);
+          break;
+
         case 'customs':
-          if (!customsDetails.countryCode || !customsDetails.documentHash) {
-            toast.error('Country code and document hash are required');
+          if (!customsDetails.countryCode || !customsDetails.declarationId) {
+            toast.error('Country code and declaration ID are required');
             setLoading(false);
             return;
           }
 
-          result = await processClearance(
-            shipmentId, 
-            customsDetails.countryCode, 
-            [customsDetails.documentHash]
-          );
+          result = await executeCustomsClearance(shipmentId, {
+            countryCode: customsDetails.countryCode,
+            declarationId: customsDetails.declarationId,
+            clearanceDate: new Date()
+          }, key);
+          break;
+
+        case 'tracking':
+          if (!trackingDetails.lat || !trackingDetails.lng) {
+            toast.error('Latitude and longitude are required');
+            setLoading(false);
+            return;
+          }
+
+          result = await executeShipmentTrackingContract(shipmentId, trackingDetails.status, {
+            lat: Number(trackingDetails.lat),
+            lng: Number(trackingDetails.lng)
+          }, key);
+          break;
+
+        case 'transfer':
+          if (!customerId || !transferDetails.toUserId) {
+            toast.error('Current owner and new owner are required');
+            setLoading(false);
+            return;
+          }
+
+          result = await executeTransferOwnershipContract(shipmentId, customerId, transferDetails.toUserId, key);
+          break;
+
+        case 'verification':
+          if (!verificationDetails.temperature || !verificationDetails.humidity) {
+            toast.error('Temperature and humidity are required');
+            setLoading(false);
+            return;
+          }
+
+          result = await executeProductVerificationContract(shipmentId, {
+            temperature: Number(verificationDetails.temperature),
+            humidity: Number(verificationDetails.humidity),
+            isIntact: verificationDetails.isIntact === 'yes'
+          }, key);
+          break;
+
+        case 'carbon':
+          if (!carbonDetails.carbonSaved) {
+            toast.error('Carbon saved is required');
+            setLoading(false);
+            return;
+          }
+
+          result = await executeCarbonCreditsContract(shipmentId, Number(carbonDetails.carbonSaved), key);
           break;
 
         case 'delivery':
@@ -88,7 +201,8 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
           result = await confirmDelivery(
             shipmentId, 
             deliveryDetails.recipientSignature, 
-            deliveryDetails.deliveryNotes
+            deliveryDetails.deliveryNotes,
+            key
           );
           break;
 
@@ -98,13 +212,28 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
           return;
       }
 
-      if (result && result.success && onContractExecuted) {
-        onContractExecuted(selectedContract, result.transactionHash || '');
+      if (!result) {
+        // The hook has already logged why
+        toast.error('Failed to execute smart contract');
+        setOutcome({ status: 'failed', message: 'The request did not reach the ledger' });
+      } else if (!result.success) {
+        setOutcome({ status: 'failed', message: ('error' in result && result.error) || 'The contract call failed' });
+      } else {
+        idempotencyKey.current = null;
+        if ('awaitingApproval' in result && result.awaitingApproval) {
+          setOutcome({ status: 'awaiting_approval', message: 'An approval policy covers this action; it runs once the other parties have signed it' });
+          return;
+        }
+        if ('queued' in result && result.queued) {
+          setOutcome({ status: 'queued', message: 'The ledger could not be reached; the write is queued and will be retried automatically' });
+        }
+        onContractExecuted?.(selectedContract, result.transactionHash || '');
       }
 
     } catch (error) {
       console.error('Error executing contract:', error);
       toast.error('Failed to execute smart contract');
+      setOutcome({ status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' });
     } finally {
       setLoading(false);
     }
@@ -142,7 +271,7 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
               <SelectItem value="payment">
                 <div className="flex items-center">
                   <CreditCard className="h-4 w-4 mr-2" />
-                  Payment Release
+                  Payment Settlement
                 </div>
               </SelectItem>
               <SelectItem value="customs">
@@ -151,11 +280,41 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
                   Customs Clearance
                 </div>
               </SelectItem>
+              <SelectItem value="release">
+                <div className="flex items-center">
+                  <Banknote className="h-4 w-4 mr-2" />
+                  Payment Release
+                </div>
+              </SelectItem>
+              <SelectItem value="tracking">
+                <div className="flex items-center">
+                  <MapPin className="h-4 w-4 mr-2" />
+                  Status Tracking
+                </div>
+              </SelectItem>
+              <SelectItem value="transfer">
+                <div className="flex items-center">
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  Ownership Transfer
+                </div>
+              </SelectItem>
+              <SelectItem value="verification">
+                <div className="flex items-center">
+                  <Thermometer className="h-4 w-4 mr-2" />
+                  Product Verification
+                </div>
+              </SelectItem>
+              <SelectItem value="carbon">
+                <div className="flex items-center">
+                  <Leaf className="h-4 w-4 mr-2" />
+                  Carbon Credits
+                </div>
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
 
-        {selectedContract === 'payment' && (
+        {(selectedContract === 'payment' || selectedContract === 'release') && (
           <div className="space-y-3">
             <div>
               <Label htmlFor="payment-amount">Payment Amount</Label>
@@ -184,6 +343,18 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
                 </SelectContent>
               </Select>
             </div>
+            
+            {selectedContract === 'release' && (
+              <div>
+                <Label htmlFor="payment-recipient">Recipient User ID</Label>
+                <Input
+                  id="payment-recipient"
+                  placeholder="Enter recipient user ID"
+                  value={paymentDetails.recipientId}
+                  onChange={(e) => setPaymentDetails(prev => ({ ...prev, recipientId: e.target.value }))}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -210,12 +381,127 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
             </div>
             
             <div>
-              <Label htmlFor="document-hash">Document Hash</Label>
+              <Label htmlFor="declaration-id">Declaration ID</Label>
               <Input
-                id="document-hash"
-                placeholder="Enter document hash"
-                value={customsDetails.documentHash}
-                onChange={(e) => setCustomsDetails(prev => ({ ...prev, documentHash: e.target.value }))}
+                id="declaration-id"
+                placeholder="Enter customs declaration ID"
+                value={customsDetails.declarationId}
+                onChange={(e) => setCustomsDetails(prev => ({ ...prev, declarationId: e.target.value }))}
+              />
+            </div>
+          </div>
+        )}
+
+        {selectedContract === 'tracking' && (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="tracking-status">Status</Label>
+              <Select 
+                value={trackingDetails.status} 
+                onValueChange={(value) => setTrackingDetails(prev => ({ ...prev, status: value }))}
+              >
+                <SelectTrigger id="tracking-status">
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="in-transit">In Transit</SelectItem>
+                  <SelectItem value="delayed">Delayed</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="tracking-lat">Latitude</Label>
+                <Input
+                  id="tracking-lat"
+                  type="number"
+                  placeholder="e.g. 51.5072"
+                  value={trackingDetails.lat}
+                  onChange={(e) => setTrackingDetails(prev => ({ ...prev, lat: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="tracking-lng">Longitude</Label>
+                <Input
+                  id="tracking-lng"
+                  type="number"
+                  placeholder="e.g. -0.1276"
+                  value={trackingDetails.lng}
+                  onChange={(e) => setTrackingDetails(prev => ({ ...prev, lng: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {selectedContract === 'transfer' && (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="transfer-to">New Owner User ID</Label>
+              <Input
+                id="transfer-to"
+                placeholder="Enter the new owner's user ID"
+                value={transferDetails.toUserId}
+                onChange={(e) => setTransferDetails({ toUserId: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        {selectedContract === 'verification' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="verification-temperature">Temperature (°C)</Label>
+                <Input
+                  id="verification-temperature"
+                  type="number"
+                  value={verificationDetails.temperature}
+                  onChange={(e) => setVerificationDetails(prev => ({ ...prev, temperature: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="verification-humidity">Humidity (%)</Label>
+                <Input
+                  id="verification-humidity"
+                  type="number"
+                  value={verificationDetails.humidity}
+                  onChange={(e) => setVerificationDetails(prev => ({ ...prev, humidity: e.target.value }))}
+                />
+              </div>
+            </div>
+            
+            <div>
+              <Label htmlFor="verification-intact">Packaging Intact</Label>
+              <Select 
+                value={verificationDetails.isIntact} 
+                onValueChange={(value) => setVerificationDetails(prev => ({ ...prev, isIntact: value }))}
+              >
+                <SelectTrigger id="verification-intact">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {selectedContract === 'carbon' && (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="carbon-saved">Carbon Saved (kg CO2e)</Label>
+              <Input
+                id="carbon-saved"
+                type="number"
+                placeholder="Enter kg of CO2e saved"
+                value={carbonDetails.carbonSaved}
+                onChange={(e) => setCarbonDetails({ carbonSaved: e.target.value })}
               />
             </div>
           </div>
@@ -245,6 +531,24 @@ export const SmartContractOperations: React.FC<SmartContractOperationsProps> = (
             </div>
           </div>
         )}
+        {outcome && outcome.status === 'awaiting_approval' ? (
+          <Alert>
+            <PenLine className="h-4 w-4" />
+            <AlertTitle>Waiting for approval</AlertTitle>
+            <AlertDescription>
+              {outcome.message}. Follow it in the <Link to="/approvals" className="text-eco-purple hover:underline">approvals inbox</Link>.
+            </AlertDescription>
+          </Alert>
+        ) : outcome && (
+          <Alert variant={outcome.status === 'failed' ? 'destructive' : 'default'}>
+            {outcome.status === 'failed' ? <AlertTriangle className="h-4 w-4" /> : <Clock className="h-4 w-4" />}
+            <AlertTitle>{outcome.status === 'failed' ? 'Contract not executed' : 'Waiting for the ledger'}</AlertTitle>
+            <AlertDescription>
+              {outcome.message}
+              {outcome.status === 'failed' && '. Executing again is safe: it is sent with the same idempotency key.'}
+            </AlertDescription>
+          </Alert>
+        )}
       </CardContent>
       
       <CardFooter>
@@ -4,9 +4,19 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { useBlockchain } from '@/hooks/blockchain';
+import { useBlockchain, BlockchainVerifyResult } from '@/hooks/blockchain';
+import { useAuth } from '@/contexts/AuthContext';
+import { explorerPaths } from '@/components/explorer/explorerUtils';
+import DecodedPayloadView, { PayloadLinks } from './DecodedPayloadView';
 import { Transaction } from '@/services/blockchain/types';
-import { FileText, CheckCircle, Clock, AlertTriangle, ExternalLink } from 'lucide-react';
+import {
+  canRetryTransaction,
+  getRequiredConfirmations,
+  getTransactionStage,
+  retryTransaction,
+  subscribeToTransaction
+} from '@/services/blockchain/transactionLifecycle';
+import { FileText, CheckCircle, Clock, AlertTriangle, ExternalLink, XCircle, RefreshCw } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
 
@@ -19,32 +29,53 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
   transactionHash, 
   showDetails = true 
 }) => {
+  // Follows retries, which replace the transaction with a new one
+  const [activeHash, setActiveHash] = useState(transactionHash);
   const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [verification, setVerification] = useState<BlockchainVerifyResult | null>(null);
   const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
   const [expanded, setExpanded] = useState(false);
   const { verifyBlockchainRecord } = useBlockchain();
+  const { userRole } = useAuth();
+
+  // Everyone can open a shipment; users and participants only have a page in the manager's explorer
+  const payloadLinks: PayloadLinks = {
+    shipment: (shipmentId) => `/shipment/${shipmentId}`,
+    user: userRole === 'manager' ? explorerPaths.address : undefined
+  };
+
+  useEffect(() => {
+    setActiveHash(transactionHash);
+  }, [transactionHash]);
 
   useEffect(() => {
     const fetchTransaction = async () => {
-      if (!transactionHash) {
+      if (!activeHash) {
         setLoading(false);
         return;
       }
 
       setLoading(true);
       try {
-        const result = await verifyBlockchainRecord(transactionHash);
+        const result = await verifyBlockchainRecord(activeHash);
+        setVerification(result);
         
-        if (result) {
+        if (result && result.found) {
           setTransaction({
-            hash: transactionHash,
-            blockNumber: result.blockNumber,
-            from: result.from,
-            to: result.to,
-            data: '',
-            timestamp: new Date(result.timestamp).getTime(),
-            status: result.status === 'success' ? 'confirmed' : 'failed'
+            hash: activeHash,
+            blockNumber: result.blockNumber ?? undefined,
+            from: result.from || '',
+            to: result.to || '',
+            data: result.payload ? JSON.stringify(result.payload) : '',
+            timestamp: result.timestamp ? new Date(result.timestamp).getTime() : 0,
+            status: result.verified ? 'confirmed' : result.status === 'pending' ? 'pending' : 'failed',
+            operation: result.operation ?? undefined,
+            confirmations: result.confirmations
           });
+        } else if (result) {
+          // Keep what the ledger provider reported if the persistent ledger doesn't know this hash
+          setTransaction(prev => prev && prev.hash === activeHash ? prev : null);
         } else {
           toast.error('Failed to verify transaction');
         }
@@ -57,13 +88,58 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
     };
 
     fetchTransaction();
-  }, [transactionHash, verifyBlockchainRecord]);
+  }, [activeHash, verifyBlockchainRecord]);
+
+  // Live lifecycle updates: mempool -> included -> confirmed, or failed
+  useEffect(() => {
+    if (!activeHash) return;
+
+    return subscribeToTransaction(activeHash, (update) => {
+      setTransaction(prev => prev ? {
+        ...prev,
+        status: update.status,
+        blockNumber: update.blockNumber,
+        confirmations: update.confirmations,
+        failureReason: update.failureReason
+      } : update);
+      setLoading(false);
+    });
+  }, [activeHash]);
+
+  const handleRetry = async () => {
+    if (!transaction) return;
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+    setRetrying(true);
+    try {
+      const retried = await retryTransaction(transaction.hash);
+      setVerification(null);
+      setTransaction(retried);
+      setActiveHash(retried.hash);
+      toast.success('Transaction resubmitted');
+    } catch (error) {
+      console.error('Error retrying transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resubmit transaction');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const getStatusBadge = (tx: Transaction) => {
+    // A record that fails verification stays failed whatever the provider reports
+    if (verification?.status === 'failed') {
+      return <Badge className="bg-red-500"><AlertTriangle className="h-3 w-3 mr-1" /> Failed</Badge>;
+    }
+
+    switch (getTransactionStage(tx)) {
       case 'confirmed':
         return <Badge className="bg-green-500"><CheckCircle className="h-3 w-3 mr-1" /> Verified</Badge>;
-      case 'pending':
+      case 'included':
+        return (
+          <Badge className="bg-blue-500">
+            <Clock className="h-3 w-3 mr-1" /> Confirming {tx.confirmations ?? 0}/{getRequiredConfirmations()}
+          </Badge>
+        );
+      case 'mempool':
         return <Badge className="bg-yellow-500"><Clock className="h-3 w-3 mr-1" /> Pending</Badge>;
       case 'failed':
         return <Badge className="bg-red-500"><AlertTriangle className="h-3 w-3 mr-1" /> Failed</Badge>;
@@ -72,6 +148,17 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
     }
   };
 
+  const getCheckRow = (label: string, passed: boolean) => (
+    <div className="flex justify-between items-center">
+      <span className="text-sm font-medium">{label}:</span>
+      {passed ? (
+        <span className="flex items-center text-sm text-green-600"><CheckCircle className="h-4 w-4 mr-1" /> Pass</span>
+      ) : (
+        <span className="flex items-center text-sm text-red-600"><XCircle className="h-4 w-4 mr-1" /> Fail</span>
+      )}
+    </div>
+  );
+
   const formatAddress = (address: string) => {
     if (!address) return '';
     return `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
@@ -86,8 +173,8 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
     return (
       <div className="flex items-center space-x-2 text-sm text-muted-foreground">
         <FileText className="h-4 w-4" />
-        <span className="font-mono">{formatAddress(transactionHash)}</span>
-        {transaction && getStatusBadge(transaction.status)}
+        <span className="font-mono">{formatAddress(activeHash)}</span>
+        {transaction && getStatusBadge(transaction)}
       </div>
     );
   }
@@ -113,9 +200,32 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
           <div className="space-y-3">
             <div className="flex justify-between items-center">
               <span className="text-sm font-medium">Status:</span>
-              {getStatusBadge(transaction.status)}
+              {getStatusBadge(transaction)}
             </div>
             
+            {(transaction.failureReason || verification?.reason) && (
+              <div className="flex items-start text-sm bg-red-50 text-red-700 p-2 rounded">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>{transaction.failureReason || verification?.reason}</span>
+              </div>
+            )}
+            
+            {transaction.status === 'failed' && canRetryTransaction(transaction.hash) && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleRetry}
+                disabled={retrying}
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${retrying ? 'animate-spin' : ''}`} />
+                {retrying ? 'Retrying...' : 'Retry Transaction'}
+              </Button>
+            )}
+            
+            {verification && getCheckRow('Hash Matches Payload', verification.hashMatches)}
+            {verification && verification.blockNumber !== null && getCheckRow('Linked Into Chain', verification.linkedIntoChain)}
+            
             <div>
               <span className="text-sm font-medium">Transaction Hash:</span>
               <div className="font-mono text-xs bg-gray-100 p-2 rounded mt-1 overflow-x-auto">
@@ -125,9 +235,19 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
             
             <div className="flex justify-between">
               <span className="text-sm font-medium">Block Number:</span>
-              <span className="font-mono">{transaction.blockNumber}</span>
+              <span className="font-mono">
+                {transaction.blockNumber ?? 'Not sealed'}
+                {verification?.txIndex !== null && verification?.txIndex !== undefined && ` (tx #${verification.txIndex})`}
+              </span>
             </div>
             
+            {transaction.blockNumber !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-sm font-medium">Confirmations:</span>
+                <span className="font-mono">{transaction.confirmations ?? 0}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between">
               <span className="text-sm font-medium">Timestamp:</span>
               <span>{getTimestampText(transaction.timestamp)}</span>
@@ -150,13 +270,37 @@ export const TransactionViewer: React.FC<TransactionViewerProps> = ({
                     {transaction.to}
                   </div>
                 </div>
+                
+                {verification?.operation && (
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium">Operation:</span>
+                    <span className="font-mono text-sm">{verification.operation}</span>
+                  </div>
+                )}
+                
+                {verification?.blockHash && (
+                  <div>
+                    <span className="text-sm font-medium">Block Hash:</span>
+                    <div className="font-mono text-xs bg-gray-100 p-2 rounded mt-1 overflow-x-auto">
+                      {verification.blockHash}
+                    </div>
+                  </div>
+                )}
+                
+                {verification?.payload && (
+                  <DecodedPayloadView
+                    operation={verification.operation ?? undefined}
+                    payload={verification.payload}
+                    links={payloadLinks}
+                  />
+                )}
               </>
             )}
           </div>
         ) : (
           <div className="py-4 text-center text-muted-foreground">
             <AlertTriangle className="h-8 w-8 mx-auto mb-2" />
-            <p>Transaction not found or not yet confirmed</p>
+            <p>{verification?.reason || 'Transaction not found or not yet confirmed'}</p>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { format } from 'date-fns';
+import { Copy, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useBlockchain, VerificationLink } from '@/hooks/blockchain';
+import { verificationPath } from './verificationLinks';
+
+interface VerificationQrCodeProps {
+  trackingId: string;
+}
+
+// QR code for a freshly signed link to the shipment's public verification page
+export const VerificationQrCode: React.FC<VerificationQrCodeProps> = ({ trackingId }) => {
+  const [link, setLink] = useState<VerificationLink | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { issueVerificationLink } = useBlockchain();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLink(null);
+    setFailed(false);
+
+    issueVerificationLink(trackingId).then((issued) => {
+      if (cancelled) return;
+      setLink(issued);
+      setFailed(!issued);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackingId, issueVerificationLink]);
+
+  if (failed) {
+    return <p className="text-sm text-red-500 text-center">Could not create a verification link for this shipment</p>;
+  }
+
+  if (!link) {
+    return (
+      <div className="w-32 h-32 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const url = `${window.location.origin}${verificationPath(link)}`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Verification link copied');
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <a href={url} target="_blank" rel="noreferrer" className="bg-white p-2 rounded-md">
+        <QRCodeSVG value={url} size={128} level="M" />
+      </a>
+      <div className="flex items-center mt-2 text-xs text-muted-foreground">
+        Valid until {format(new Date(link.expiresAt), 'MMM d, yyyy')}
+        <Button variant="ghost" size="sm" className="h-6 px-2 ml-1" onClick={handleCopy}>
+          <Copy className="h-3 w-3 mr-1" />
+          Copy link
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default VerificationQrCode;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Copy, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+
+interface WalletAddressProps {
+  address?: string;
+  className?: string;
+}
+
+// A user's wallet address, shortened, with a button that copies it in full
+export const WalletAddress: React.FC<WalletAddressProps> = ({ address, className = '' }) => {
+  if (!address) {
+    return <p className={`text-xs opacity-70 ${className}`}>Wallet being set up...</p>;
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(address);
+    toast.success('Wallet address copied');
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title={address}
+      className={`flex items-center text-xs font-mono opacity-70 hover:opacity-100 ${className}`}
+    >
+      <Wallet className="h-3 w-3 mr-1" />
+      {shortenHash(address, 4)}
+      <Copy className="h-3 w-3 ml-1" />
+    </button>
+  );
+};
+
+export default WalletAddress;
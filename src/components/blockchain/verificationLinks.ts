@@ -0,0 +1,5 @@
+import { VerificationLink } from '@/hooks/blockchain';
+
+// Path and query of the public page a verification link opens
+export const verificationPath = (link: VerificationLink) =>
+  `/verify/${encodeURIComponent(link.trackingId)}?expires=${link.expires}&sig=${link.signature}`;
@@ -1,49 +1,101 @@
-
-import { useState } from 'react';
-import { Check, Clock, ExternalLink } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Clock, AlertTriangle, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { Transaction } from '@/services/blockchain/types';
+import { getRecentTransactions } from '@/services/blockchain/transactionHistory';
+import {
+  canRetryTransaction,
+  getRequiredConfirmations,
+  getTransactionStage,
+  retryTransaction,
+  subscribeToTransaction,
+  subscribeToTransactionActivity
+} from '@/services/blockchain/transactionLifecycle';
+
+interface BlockchainTransactionListProps {
+  limit?: number;
+}
+
+// 'add_sensor_data' -> 'Add Sensor Data'
+const formatOperation = (operation?: string) =>
+  operation
+    ? operation.split(/[_-]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+    : 'Ledger Transaction';
+
+const BlockchainTransactionList = ({ limit = 10 }: BlockchainTransactionListProps) => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [retryingHash, setRetryingHash] = useState<string | null>(null);
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      setTransactions(await getRecentTransactions(limit));
+    } catch (error) {
+      console.error('Error loading blockchain transactions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [limit]);
+
+  // Reload when a transaction is submitted anywhere in the app
+  useEffect(() => {
+    loadTransactions();
+    return subscribeToTransactionActivity(loadTransactions);
+  }, [loadTransactions]);
+
+  // Follow transactions that are still waiting for confirmations
+  const unsettledHashes = transactions
+    .filter(tx => {
+      const stage = getTransactionStage(tx);
+      return stage === 'mempool' || stage === 'included';
+    })
+    .map(tx => tx.hash)
+    .join(',');
+
+  useEffect(() => {
+    if (!unsettledHashes) return;
 
-// Mock blockchain transaction data
-const mockTransactions = [
-  { 
-    id: 'tx123456789abcdef', 
-    timestamp: new Date(Date.now() - 1000 * 60 * 5), 
-    event: 'Shipment Created',
-    status: 'confirmed',
-    hash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
-  },
-  { 
-    id: 'tx234567890abcdef1', 
-    timestamp: new Date(Date.now() - 1000 * 60 * 30), 
-    event: 'IoT Temperature Updated',
-    status: 'confirmed',
-    hash: '0x2345678901abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
-  },
-  { 
-    id: 'tx345678901abcdef12', 
-    timestamp: new Date(Date.now() - 1000 * 60 * 60), 
-    event: 'Customs Clearance',
-    status: 'confirmed',
-    hash: '0x3456789012abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
-  },
-  { 
-    id: 'tx456789012abcdef123', 
-    timestamp: new Date(Date.now() - 1000 * 60 * 120), 
-    event: 'Route Optimization',
-    status: 'confirmed',
-    hash: '0x4567890123abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
-  },
-  { 
-    id: 'tx567890123abcdef1234', 
-    timestamp: new Date(), 
-    event: 'Payment Released',
-    status: 'pending',
-    hash: '0x5678901234abcdef1234567890abcdef1234567890abcdef1234567890abcdef'
-  },
-];
-
-const BlockchainTransactionList = () => {
-  const [transactions] = useState(mockTransactions);
+    const unsubscribers = unsettledHashes.split(',').map(hash =>
+      subscribeToTransaction(hash, (update) => {
+        setTransactions(prev => prev.map(tx => tx.hash === update.hash ? { ...tx, ...update } : tx));
+      })
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [unsettledHashes]);
+
+  const handleRetry = async (hash: string) => {
+    setRetryingHash(hash);
+    try {
+      await retryTransaction(hash);
+      toast.success('Transaction resubmitted');
+      await loadTransactions();
+    } catch (error) {
+      console.error('Error retrying transaction:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resubmit transaction');
+    } finally {
+      setRetryingHash(null);
+    }
+  };
+
+  const renderStatus = (tx: Transaction) => {
+    const stage = getTransactionStage(tx);
+
+    return (
+      <div className={cn(
+        "flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap",
+        stage === 'confirmed' && "bg-green-100 text-green-600",
+        stage === 'included' && "bg-blue-100 text-blue-600",
+        stage === 'mempool' && "bg-yellow-100 text-yellow-600",
+        stage === 'failed' && "bg-red-100 text-red-600"
+      )}>
+        {stage === 'confirmed' && <><Check size={12} className="mr-1" />Confirmed</>}
+        {stage === 'included' && <><Clock size={12} className="mr-1" />{tx.confirmations ?? 0}/{getRequiredConfirmations()} confirmations</>}
+        {stage === 'mempool' && <><Clock size={12} className="mr-1" />Pending</>}
+        {stage === 'failed' && <><AlertTriangle size={12} className="mr-1" />Failed</>}
+      </div>
+    );
+  };
 
   return (
     <div className="eco-card">
@@ -53,39 +105,46 @@ const BlockchainTransactionList = () => {
       </div>
 
       <div className="divide-y divide-eco-light/30 max-h-[300px] overflow-y-auto">
-        {transactions.map(tx => (
-          <div key={tx.id} className="p-4 hover:bg-eco-light/10 transition-colors">
+        {isLoading ? (
+          <div className="p-4 text-sm text-muted-foreground">Loading transactions...</div>
+        ) : transactions.length === 0 ? (
+          <div className="p-4 text-sm text-muted-foreground">No ledger transactions yet</div>
+        ) : transactions.map(tx => (
+          <div key={tx.hash} className="p-4 hover:bg-eco-light/10 transition-colors">
             <div className="flex justify-between items-start">
               <div>
-                <p className="font-medium">{tx.event}</p>
+                <p className="font-medium">{formatOperation(tx.operation)}</p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {tx.timestamp.toLocaleTimeString()} • {tx.timestamp.toLocaleDateString()}
+                  {new Date(tx.timestamp).toLocaleTimeString()} • {new Date(tx.timestamp).toLocaleDateString()}
+                  {tx.blockNumber !== undefined && ` • Block ${tx.blockNumber}`}
                 </p>
               </div>
-              <div className={cn(
-                "flex items-center px-2 py-1 rounded-full text-xs font-medium",
-                tx.status === 'confirmed' ? "bg-green-100 text-green-600" : "bg-yellow-100 text-yellow-600"
-              )}>
-                {tx.status === 'confirmed' ? <Check size={12} className="mr-1" /> : <Clock size={12} className="mr-1" />}
-                {tx.status === 'confirmed' ? 'Confirmed' : 'Pending'}
-              </div>
+              {renderStatus(tx)}
             </div>
-            
+
             <div className="mt-2">
               <div className="flex items-center text-xs text-muted-foreground">
-                <span className="truncate w-52 sm:w-full">
+                <span className="truncate w-52 sm:w-full font-mono">
                   {tx.hash}
                 </span>
-                <a 
-                  href={`https://etherscan.io/tx/${tx.hash}`} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="ml-2 text-eco-purple hover:text-eco-purple/80"
-                >
-                  <ExternalLink size={12} />
-                </a>
               </div>
             </div>
+
+            {tx.status === 'failed' && (
+              <div className="mt-2 flex items-center justify-between gap-2 text-xs text-red-600">
+                <span>{tx.failureReason || 'Transaction failed'}</span>
+                {canRetryTransaction(tx.hash) && (
+                  <button
+                    className="flex items-center text-eco-purple hover:text-eco-purple/80 disabled:opacity-50"
+                    onClick={() => handleRetry(tx.hash)}
+                    disabled={retryingHash === tx.hash}
+                  >
+                    <RefreshCw size={12} className={cn("mr-1", retryingHash === tx.hash && "animate-spin")} />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -2,6 +2,7 @@
 import React, { useEffect, useState } from 'react';
 import { MapPin, Truck, Ship, Train, Plane, AlertTriangle, Leaf } from 'lucide-react';
 import { useBlockchain } from '@/hooks/useBlockchain';
+import { getMockRandom, getMockRandomFor, getMockScenario } from '@/services/mock';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -63,18 +64,14 @@ const MapView: React.FC<MapViewProps> = ({
   const [sustainabilityTip, setSustainabilityTip] = useState<string | null>(null);
   const { verifyBlockchainRecord } = useBlockchain();
 
-  // Simulate weather data fetching
+  // Simulate weather data fetching; seeded sessions always give a place the same weather
   useEffect(() => {
     if (currentLocation) {
       // This would be a real API call in production
-      const hasAlert = Math.random() > 0.7;
-      if (hasAlert) {
-        const alerts = [
-          "Heavy rain in the area might cause delays",
-          "Storm warning along the route",
-          "High winds may affect shipping"
-        ];
-        setWeatherAlert(alerts[Math.floor(Math.random() * alerts.length)]);
+      const { weather } = getMockScenario();
+      const random = getMockRandomFor(`weather:${currentLocation.lat},${currentLocation.lng}`);
+      if (weather.alerts.length > 0 && random.chance(weather.alertChance)) {
+        setWeatherAlert(random.pick(weather.alerts));
       } else {
         setWeatherAlert(null);
       }
@@ -108,7 +105,7 @@ const MapView: React.FC<MapViewProps> = ({
       "Using electric vehicles for last-mile delivery can eliminate local emissions."
     ];
     
-    setSustainabilityTip(tips[Math.floor(Math.random() * tips.length)]);
+    setSustainabilityTip(getMockRandom('sustainability-tips').pick(tips));
   }, []);
 
   // Verify blockchain record when component mounts or transactionHash changes
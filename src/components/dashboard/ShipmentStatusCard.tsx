@@ -1,5 +1,5 @@
 
-import { Package, Truck, CheckCircle, Clock } from 'lucide-react';
+import { Package, Truck, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ShipmentStatusCardProps {
@@ -43,7 +43,13 @@ const statusConfig = {
 };
 
 const ShipmentStatusCard = ({ shipment, className }: ShipmentStatusCardProps) => {
-  const statusInfo = statusConfig[shipment.status];
+  // Statuses from elsewhere (a failed or reverted ledger write, a newer backend) still render
+  const statusInfo = statusConfig[shipment.status] ?? {
+    icon: AlertCircle,
+    color: 'text-muted-foreground',
+    bg: 'bg-gray-100',
+    label: String(shipment.status ?? 'Unknown').replace(/[-_]/g, ' ')
+  };
   const StatusIcon = statusInfo.icon;
 
   return (
@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { Wallet, User } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AddressActivity, getAddressActivity } from '@/services/blockchain/explorer';
+import TransactionTable from './TransactionTable';
+
+interface AddressActivityViewProps {
+  address: string;
+}
+
+const AddressActivityView = ({ address }: AddressActivityViewProps) => {
+  const [activity, setActivity] = useState<AddressActivity | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadActivity = async () => {
+      setIsLoading(true);
+      try {
+        setActivity(await getAddressActivity(address));
+      } catch (error) {
+        console.error(`Error loading activity for ${address}:`, error);
+        setActivity(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadActivity();
+  }, [address]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading activity...</p>;
+  }
+
+  if (!activity) {
+    return <p className="text-sm text-muted-foreground">Activity for {address} could not be loaded.</p>;
+  }
+
+  const isWallet = activity.kind === 'wallet';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {isWallet ? <Wallet className="h-5 w-5 text-eco-purple" /> : <User className="h-5 w-5 text-eco-purple" />}
+          {isWallet ? (activity.name ? `${activity.name}'s wallet` : 'Wallet') : activity.name || 'Participant'}
+          {activity.role && <Badge variant="outline" className="capitalize">{activity.role}</Badge>}
+        </CardTitle>
+        <CardDescription className="font-mono break-all">{activity.address}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-2">
+          {isWallet
+            ? `${activity.transactions.length} transactions sent from or to this address`
+            : `${activity.transactions.length} transactions naming this participant`}
+        </p>
+        <TransactionTable transactions={activity.transactions} emptyMessage="No ledger activity found" />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AddressActivityView;
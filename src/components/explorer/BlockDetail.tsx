@@ -0,0 +1,98 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BlockWithTransactions } from '@/services/blockchain/types';
+import { getBlock } from '@/services/blockchain/explorer';
+import { AddressLink, BlockLink } from './ExplorerLinks';
+import { explorerPaths } from './explorerUtils';
+import TransactionTable from './TransactionTable';
+
+interface BlockDetailProps {
+  blockNumber: number;
+}
+
+const BlockDetail = ({ blockNumber }: BlockDetailProps) => {
+  const [block, setBlock] = useState<BlockWithTransactions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadBlock = async () => {
+      setIsLoading(true);
+      try {
+        setBlock(await getBlock(blockNumber));
+      } catch (error) {
+        console.error(`Error loading block ${blockNumber}:`, error);
+        setBlock(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadBlock();
+  }, [blockNumber]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading block #{blockNumber}...</p>;
+  }
+
+  if (!block) {
+    return <p className="text-sm text-muted-foreground">Block #{blockNumber} does not exist on the ledger.</p>;
+  }
+
+  const rows: [string, ReactNode][] = [
+    ['Block Hash', <span className="font-mono break-all">{block.hash}</span>],
+    ['Previous Block', block.number > 0
+      ? <span><BlockLink blockNumber={block.number - 1} /> <span className="font-mono text-xs text-muted-foreground break-all">{block.previousHash}</span></span>
+      : <span className="font-mono text-xs break-all">{block.previousHash} (genesis)</span>],
+    ['Transactions Root', <span className="font-mono break-all">{block.transactionsRoot}</span>],
+    ['Transactions', block.transactionCount],
+    ['Timestamp', new Date(block.timestamp).toLocaleString()],
+    ...(block.proposer ? [['Proposed By', <AddressLink address={block.proposer} full />] as [string, ReactNode]] : [])
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Block #{block.number}</CardTitle>
+            <CardDescription>Sealed {new Date(block.timestamp).toLocaleString()}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {block.number > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to={explorerPaths.block(block.number - 1)}><ChevronLeft className="h-4 w-4" /></Link>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <Link to={explorerPaths.block(block.number + 1)}><ChevronRight className="h-4 w-4" /></Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <dl className="divide-y text-sm">
+            {rows.map(([label, value]) => (
+              <div key={label} className="grid grid-cols-1 sm:grid-cols-4 gap-1 py-2">
+                <dt className="font-medium">{label}</dt>
+                <dd className="sm:col-span-3">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TransactionTable transactions={block.transactions} showBlock={false} emptyMessage="This block is empty" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BlockDetail;
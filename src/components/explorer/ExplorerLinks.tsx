@@ -0,0 +1,35 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Transaction } from '@/services/blockchain/types';
+import { getRequiredConfirmations, getTransactionStage } from '@/services/blockchain/transactionLifecycle';
+import { explorerPaths, shortenHash } from './explorerUtils';
+
+const linkClass = 'font-mono text-eco-purple hover:underline';
+
+export const BlockLink = ({ blockNumber }: { blockNumber: number }) => (
+  <Link to={explorerPaths.block(blockNumber)} className={linkClass}>#{blockNumber}</Link>
+);
+
+export const TransactionLink = ({ hash, full = false }: { hash: string; full?: boolean }) => (
+  <Link to={explorerPaths.transaction(hash)} className={`${linkClass} break-all`}>{full ? hash : shortenHash(hash)}</Link>
+);
+
+export const AddressLink = ({ address, full = false }: { address: string; full?: boolean }) =>
+  address ? (
+    <Link to={explorerPaths.address(address)} className={`${linkClass} break-all`}>{full ? address : shortenHash(address, 6)}</Link>
+  ) : (
+    <span className="text-muted-foreground">—</span>
+  );
+
+export const TransactionStageBadge = ({ tx }: { tx: Transaction }) => {
+  switch (getTransactionStage(tx)) {
+    case 'confirmed':
+      return <Badge className="bg-green-500">Confirmed</Badge>;
+    case 'included':
+      return <Badge className="bg-blue-500">{tx.confirmations ?? 0}/{getRequiredConfirmations()} confirmations</Badge>;
+    case 'mempool':
+      return <Badge className="bg-yellow-500">Pending</Badge>;
+    default:
+      return <Badge className="bg-red-500">Failed</Badge>;
+  }
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Boxes, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Block, Transaction } from '@/services/blockchain/types';
+import { getLatestBlocks } from '@/services/blockchain/explorer';
+import { getRecentTransactions } from '@/services/blockchain/transactionHistory';
+import { subscribeToTransactionActivity } from '@/services/blockchain/transactionLifecycle';
+import { BlockLink } from './ExplorerLinks';
+import { shortenHash } from './explorerUtils';
+import TransactionTable from './TransactionTable';
+
+const LatestBlocks = () => {
+  const [blocks, setBlocks] = useState<Block[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadLatest = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [latestBlocks, recentTransactions] = await Promise.all([getLatestBlocks(20), getRecentTransactions(20)]);
+      setBlocks(latestBlocks);
+      setTransactions(recentTransactions);
+    } catch (error) {
+      console.error('Error loading latest blocks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload when a transaction is submitted anywhere in the app
+  useEffect(() => {
+    loadLatest();
+    return subscribeToTransactionActivity(loadLatest);
+  }, [loadLatest]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center">
+              <Boxes className="mr-2 h-5 w-5 text-eco-purple" />
+              Latest Blocks
+            </CardTitle>
+            <CardDescription>Most recently sealed blocks on the ledger</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadLatest} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {blocks.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">{isLoading ? 'Loading blocks...' : 'No blocks have been sealed yet'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Block</TableHead>
+                  <TableHead>Hash</TableHead>
+                  <TableHead>Transactions</TableHead>
+                  <TableHead>Age</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {blocks.map(block => (
+                  <TableRow key={block.number}>
+                    <TableCell><BlockLink blockNumber={block.number} /></TableCell>
+                    <TableCell className="font-mono text-xs">{shortenHash(block.hash)}</TableCell>
+                    <TableCell>{block.transactionCount}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatDistanceToNow(block.timestamp)} ago</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Latest Transactions</CardTitle>
+          <CardDescription>Including pending transactions and failed submissions from this session</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TransactionTable transactions={transactions} emptyMessage={isLoading ? 'Loading transactions...' : 'No transactions yet'} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LatestBlocks;
@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Package } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ShipmentActivity, getShipmentActivity } from '@/services/blockchain/explorer';
+import TransactionTable from './TransactionTable';
+
+interface ShipmentActivityViewProps {
+  shipmentId: string;
+}
+
+const ShipmentActivityView = ({ shipmentId }: ShipmentActivityViewProps) => {
+  const [activity, setActivity] = useState<ShipmentActivity | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadActivity = async () => {
+      setIsLoading(true);
+      try {
+        setActivity(await getShipmentActivity(shipmentId));
+      } catch (error) {
+        console.error(`Error loading ledger activity for shipment ${shipmentId}:`, error);
+        setActivity(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadActivity();
+  }, [shipmentId]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading shipment activity...</p>;
+  }
+
+  if (!activity) {
+    return <p className="text-sm text-muted-foreground">Activity for shipment {shipmentId} could not be loaded.</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-eco-purple" />
+            {activity.title || 'Shipment'}
+            {activity.status && <Badge variant="outline">{activity.status}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {activity.trackingId ? `Tracking ID ${activity.trackingId} • ` : ''}
+            <span className="font-mono">{activity.shipmentId}</span>
+          </CardDescription>
+        </div>
+        {activity.title && (
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/shipment/${activity.shipmentId}`}>Open Shipment</Link>
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <TransactionTable transactions={activity.transactions} emptyMessage="Nothing has been recorded on the ledger for this shipment" />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShipmentActivityView;
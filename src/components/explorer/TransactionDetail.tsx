@@ -0,0 +1,116 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Transaction } from '@/services/blockchain/types';
+import { decodeTransactionPayload, getTransaction } from '@/services/blockchain/explorer';
+import { subscribeToTransaction } from '@/services/blockchain/transactionLifecycle';
+import DecodedPayloadView from '@/components/blockchain/DecodedPayloadView';
+import { AddressLink, BlockLink, TransactionStageBadge } from './ExplorerLinks';
+import { explorerPaths, formatOperation } from './explorerUtils';
+
+interface TransactionDetailProps {
+  hash: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TransactionDetail = ({ hash }: TransactionDetailProps) => {
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTransaction = async () => {
+      setIsLoading(true);
+      try {
+        const tx = await getTransaction(hash);
+        if (!cancelled) setTransaction(tx);
+      } catch (error) {
+        console.error(`Error loading transaction ${hash}:`, error);
+        if (!cancelled) setTransaction(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTransaction();
+
+    // Keep confirmations and status live while the page is open
+    const unsubscribe = subscribeToTransaction(hash, (update) => {
+      setTransaction(prev => prev ? { ...prev, ...update } : update);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [hash]);
+
+  if (isLoading && !transaction) {
+    return <p className="text-sm text-muted-foreground">Loading transaction...</p>;
+  }
+
+  if (!transaction) {
+    return <p className="text-sm text-muted-foreground">Transaction {hash} was not found on the ledger.</p>;
+  }
+
+  const payload = decodeTransactionPayload(transaction);
+  const shipmentId = isRecord(payload) && typeof payload.shipmentId === 'string' ? payload.shipmentId : null;
+
+  const rows: [string, ReactNode][] = [
+    ['Transaction Hash', <span className="font-mono break-all">{transaction.hash}</span>],
+    ['Status', <TransactionStageBadge tx={transaction} />],
+    ['Block', transaction.blockNumber !== undefined
+      ? <span><BlockLink blockNumber={transaction.blockNumber} /> <span className="text-muted-foreground">({transaction.confirmations ?? 0} confirmations)</span></span>
+      : 'Not yet included in a block'],
+    ['Timestamp', new Date(transaction.timestamp).toLocaleString()],
+    ['Operation', formatOperation(transaction.operation)],
+    ['From', <AddressLink address={transaction.from} full />],
+    ['To', <AddressLink address={transaction.to} full />]
+  ];
+
+  if (transaction.nonce !== undefined) {
+    rows.push(['Nonce', transaction.nonce]);
+  }
+
+  if (shipmentId) {
+    rows.push(['Shipment', <Link to={explorerPaths.shipment(shipmentId)} className="font-mono text-eco-purple hover:underline break-all">{shipmentId}</Link>]);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transaction Details</CardTitle>
+        <CardDescription>{formatOperation(transaction.operation)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {transaction.status === 'failed' && (
+          <div className="flex items-start text-sm bg-red-50 text-red-700 p-2 rounded">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>{transaction.failureReason || 'Transaction failed'}</span>
+          </div>
+        )}
+
+        <dl className="divide-y text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="grid grid-cols-1 sm:grid-cols-4 gap-1 py-2">
+              <dt className="font-medium">{label}</dt>
+              <dd className="sm:col-span-3">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <DecodedPayloadView
+          operation={transaction.operation}
+          payload={payload}
+          links={{ shipment: explorerPaths.shipment, user: explorerPaths.address }}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionDetail;
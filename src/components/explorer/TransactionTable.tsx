@@ -0,0 +1,51 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Transaction } from '@/services/blockchain/types';
+import { AddressLink, BlockLink, TransactionLink, TransactionStageBadge } from './ExplorerLinks';
+import { formatOperation } from './explorerUtils';
+
+interface TransactionTableProps {
+  transactions: Transaction[];
+  emptyMessage?: string;
+  showBlock?: boolean;
+}
+
+const TransactionTable = ({ transactions, emptyMessage = 'No transactions', showBlock = true }: TransactionTableProps) => {
+  if (transactions.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Transaction</TableHead>
+          <TableHead>Operation</TableHead>
+          {showBlock && <TableHead>Block</TableHead>}
+          <TableHead>From</TableHead>
+          <TableHead>To</TableHead>
+          <TableHead>Time</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map(tx => (
+          <TableRow key={tx.hash}>
+            <TableCell><TransactionLink hash={tx.hash} /></TableCell>
+            <TableCell>{formatOperation(tx.operation)}</TableCell>
+            {showBlock && (
+              <TableCell>
+                {tx.blockNumber !== undefined ? <BlockLink blockNumber={tx.blockNumber} /> : <span className="text-muted-foreground">—</span>}
+              </TableCell>
+            )}
+            <TableCell><AddressLink address={tx.from} /></TableCell>
+            <TableCell><AddressLink address={tx.to} /></TableCell>
+            <TableCell className="whitespace-nowrap text-xs text-muted-foreground">{new Date(tx.timestamp).toLocaleString()}</TableCell>
+            <TableCell><TransactionStageBadge tx={tx} /></TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default TransactionTable;
@@ -0,0 +1,18 @@
+// Explorer routes and the formatting its links share (see ExplorerLinks.tsx)
+
+export const explorerPaths = {
+  home: '/manager/explorer',
+  block: (blockNumber: number) => `/manager/explorer/block/${blockNumber}`,
+  transaction: (hash: string) => `/manager/explorer/tx/${hash}`,
+  address: (address: string) => `/manager/explorer/address/${encodeURIComponent(address)}`,
+  shipment: (shipmentId: string) => `/manager/explorer/shipment/${encodeURIComponent(shipmentId)}`
+};
+
+// 'add_sensor_data' -> 'Add Sensor Data'
+export const formatOperation = (operation?: string) =>
+  operation
+    ? operation.split(/[_-]/).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+    : 'Ledger Transaction';
+
+export const shortenHash = (hash: string, visible: number = 8) =>
+  hash.length > visible * 2 + 3 ? `${hash.substring(0, visible + 2)}...${hash.substring(hash.length - visible)}` : hash;
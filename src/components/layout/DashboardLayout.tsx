@@ -20,12 +20,18 @@ import {
   X,
   User,
   Settings2,
-  Star
+  Star,
+  Boxes,
+  ListRestart,
+  PenLine,
+  Landmark,
+  Scale
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import WalletAddress from '@/components/blockchain/WalletAddress';
 
 // Define colors based on your provided color palette
 const colors = {
@@ -63,6 +69,11 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
       { label: 'AI Suggestions', icon: <MessageSquare size={20} />, href: '/manager/ai-suggestions' },
       { label: 'Weather Analytics', icon: <Cloud size={20} />, href: '/manager/weather' },
       { label: 'Reviews', icon: <Star size={20} />, href: '/manager/reviews' },
+      { label: 'Block Explorer', icon: <Boxes size={20} />, href: '/manager/explorer' },
+      { label: 'Ledger Jobs', icon: <ListRestart size={20} />, href: '/manager/ledger-jobs' },
+      { label: 'Approvals', icon: <PenLine size={20} />, href: '/approvals' },
+      { label: 'Escrow', icon: <Landmark size={20} />, href: '/escrow' },
+      { label: 'Disputes', icon: <Scale size={20} />, href: '/disputes' },
     ];
   } else if (userRole === 'driver') {
     navItems = [
@@ -71,12 +82,22 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
       { label: 'Smart Navigation', icon: <Navigation size={20} />, href: '/driver/smart-navigation' },
       { label: 'AI Assistant', icon: <MessageSquare size={20} />, href: '/driver/ai-chat' },
       { label: 'Delivery Updates', icon: <ClipboardCheck size={20} />, href: '/driver/delivery' },
+      { label: 'Approvals', icon: <PenLine size={20} />, href: '/approvals' },
+      { label: 'Escrow', icon: <Landmark size={20} />, href: '/escrow' },
+      { label: 'Disputes', icon: <Scale size={20} />, href: '/disputes' },
     ];
   } else if (userRole === 'customer') {
     navItems = [
       { label: 'Dashboard', icon: <Home size={20} />, href: '/customer' },
       { label: 'Track Shipment', icon: <Package size={20} />, href: '/customer/track' },
       { label: 'Carbon Report', icon: <FileText size={20} />, href: '/customer/carbon' },
+      { label: 'Approvals', icon: <PenLine size={20} />, href: '/approvals' },
+      { label: 'Escrow', icon: <Landmark size={20} />, href: '/escrow' },
+      { label: 'Disputes', icon: <Scale size={20} />, href: '/disputes' },
+    ];
+  } else if (userRole === 'arbiter') {
+    navItems = [
+      { label: 'Disputes', icon: <Scale size={20} />, href: '/disputes' },
     ];
   }
 
@@ -145,6 +166,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                       <p className="text-xs" style={{ color: colors.primary }}>
                         {userRole?.charAt(0).toUpperCase() + userRole?.slice(1) || 'User'}
                       </p>
+                      <WalletAddress address={profile?.wallet_address} className="mt-1" />
                     </div>
                   </div>
                   
@@ -209,6 +231,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                   <p className="text-xs opacity-70">
                     {userRole?.charAt(0).toUpperCase() + userRole?.slice(1) || 'User'}
                   </p>
+                  <WalletAddress address={profile?.wallet_address} className="mt-1" />
                 </div>
               </div>
             </div>
@@ -6,6 +6,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Leaf, TrendingDown, DollarSign } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { getMockRandomFor, mockNow } from '@/services/mock';
 
 interface Props {
   shipmentId?: string;
@@ -21,13 +22,14 @@ interface FootprintDataPoint {
 // Generate demo data for the chart
 const generateDemoData = (): FootprintDataPoint[] => {
   const data: FootprintDataPoint[] = [];
-  const now = new Date();
+  const now = new Date(mockNow());
+  const random = getMockRandomFor('carbon-footprint-history');
   for (let i = 30; i >= 0; i--) {
     const date = new Date(now);
     date.setDate(date.getDate() - i);
     
     // Create some variation in the data
-    const footprint = Math.max(15, 50 - i * 0.8 + Math.random() * 10);
+    const footprint = Math.max(15, 50 - i * 0.8 + random.between(0, 10));
     const baseline = 50 - i * 0.2; // Industry baseline decreases slower
     
     data.push({
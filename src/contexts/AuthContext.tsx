@@ -1,11 +1,12 @@
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { User, Session } from '@supabase/supabase-js';
 import { useToast } from '@/hooks/use-toast';
 import { toast as sonnerToast } from 'sonner';
+import { UserWallet, createUserWallet, getUserWallet, setActiveWalletAddress } from '@/services/blockchain/wallet';
 
-export type UserRole = 'manager' | 'driver' | 'customer';
+export type UserRole = 'manager' | 'driver' | 'customer' | 'arbiter';
 
 export interface UserProfile {
   id: string;
@@ -13,6 +14,8 @@ export interface UserProfile {
   avatar_url?: string;
   company?: string;
   role?: UserRole;
+  // Custodial wallet the user's ledger writes are sent from
+  wallet_address?: string;
 }
 
 interface AuthContextType {
@@ -39,7 +42,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const fetchUserProfile = async (userId: string) => {
+  // The user's wallet, created now if it couldn't be at signup (e.g. the email had to be confirmed first)
+  const loadWallet = useCallback(async (): Promise<UserWallet | null> => {
+    try {
+      const { data: { session: currentSession } } = await supabase.auth.getSession();
+      if (!currentSession) return null;
+      return await getUserWallet(currentSession.user.id) ?? await createUserWallet();
+    } catch (err) {
+      console.error('Error loading wallet:', err);
+      return null;
+    }
+  }, []);
+
+  const fetchUserProfile = useCallback(async (userId: string) => {
     try {
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
@@ -57,9 +72,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       if (roleError) throw roleError;
 
+      const wallet = await loadWallet();
+      setActiveWalletAddress(wallet?.address ?? null);
+
       const userProfile: UserProfile = {
         ...profileData,
         role: roleData.role as UserRole,
+        wallet_address: wallet?.address,
       };
 
       setProfile(userProfile);
@@ -69,7 +88,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       console.error('Error fetching user profile:', err);
       return null;
     }
-  };
+  }, [loadWallet]);
 
   const getProfileById = async (id: string): Promise<UserProfile | null> => {
     try {
@@ -100,6 +119,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         } else {
           setProfile(null);
           setUserRole(null);
+          setActiveWalletAddress(null);
         }
       }
     );
@@ -115,7 +135,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [fetchUserProfile]);
 
   const signIn = async (email: string, password: string) => {
     setLoading(true);
@@ -191,6 +211,20 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       
       if (error) throw error;
       
+      // Every user gets a custodial wallet for their ledger writes. Without a session
+      // yet (the email needs confirming) it is created on first sign-in instead.
+      if (data.session) {
+        try {
+          const wallet = await createUserWallet();
+          setActiveWalletAddress(wallet.address);
+        } catch (walletError) {
+          console.error('Error creating wallet:', walletError);
+          sonnerToast.warning('Wallet not created yet', {
+            description: 'We will try again the next time you sign in.',
+          });
+        }
+      }
+      
       // Use Sonner toast for the success message
       sonnerToast.success('Account created', {
         description: 'Your account has been successfully created.',
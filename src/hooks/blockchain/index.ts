@@ -20,6 +20,10 @@ export function useBlockchain() {
     
     // Verification methods
     verifyBlockchainRecord: verification.verifyBlockchainRecord,
+    verifyProductHistory: verification.verifyProductHistory,
+    exportAuditBundle: verification.exportAuditBundle,
+    issueVerificationLink: verification.issueVerificationLink,
+    getPublicVerification: verification.getPublicVerification,
     registerShipment: verification.registerShipment,
     updateShipmentStatus: verification.updateShipmentStatus,
     verifyOnBlockchain: verification.verifyOnBlockchain,
@@ -29,7 +33,6 @@ export function useBlockchain() {
     processPayment: smartContracts.processPayment,
     processClearance: smartContracts.processClearance,
     confirmDelivery: smartContracts.confirmDelivery,
-    resolveDispute: smartContracts.resolveDispute,
     
     // Sustainability methods
     getCarbonCredits: sustainability.getCarbonCredits,
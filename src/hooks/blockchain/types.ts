@@ -1,13 +1,194 @@
 
 // Types for blockchain operations
+
+// Result of checking a transaction against the ledger; reason explains why a check failed
 export interface BlockchainVerifyResult {
   verified: boolean;
-  blockNumber: number;
+  found: boolean;
+  reason: string | null;
+  transactionHash: string;
+  recomputedHash: string | null;
+  hashMatches: boolean;
+  linkedIntoChain: boolean;
+  blockNumber: number | null;
+  blockHash: string | null;
+  txIndex: number | null;
+  confirmations: number;
+  timestamp: string | null;
+  from: string | null;
+  to: string | null;
+  nonce: number | null;
+  operation: string | null;
+  payload: Record<string, unknown> | null;
+  status: 'success' | 'failed' | 'pending' | 'not_found';
+}
+
+export interface LedgerDiscrepancy {
+  type:
+    | 'unanchored'
+    | 'missing_ledger_entry'
+    | 'ledger_integrity'
+    | 'operation_mismatch'
+    | 'field_mismatch'
+    | 'timestamp_mismatch'
+    | 'duplicate_anchor'
+    | 'out_of_order';
+  message: string;
+  field?: string;
+  database?: unknown;
+  ledger?: unknown;
+}
+
+export interface EventLedgerCheck {
+  status: 'intact' | 'tampered' | 'unanchored';
+  transactionHash: string | null;
+  blockNumber: number | null;
+  txIndex: number | null;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+export interface EventSignatureCheck {
+  status: 'valid' | 'invalid' | 'unsigned' | 'unknown_signer';
+  signer: {
+    id: string;
+    name: string;
+    role: string;
+    fingerprint: string;
+  } | null;
+  reason: string | null;
+}
+
+export interface VerifiedShipmentEvent {
+  id: string;
+  shipment_id: string;
+  event_type: string;
+  data: Record<string, unknown>;
+  blockchain_tx_hash: string | null;
+  signer_id: string | null;
+  signature: string | null;
+  created_at: string;
+  blockchain_verified: boolean;
+  verification_time: string;
+  ledgerCheck: EventLedgerCheck;
+  signatureCheck: EventSignatureCheck;
+}
+
+// Ledger entry for the shipment whose shipment_events row no longer exists
+export interface DeletedLedgerEntry {
+  transactionHash: string;
+  operation: string;
+  eventType: string;
+  blockNumber: number | null;
+  txIndex: number | null;
   timestamp: string;
-  from: string;
-  to: string;
-  gasUsed: number;
-  status: string;
+  data: Record<string, unknown>;
+}
+
+export interface LedgerSequenceGap {
+  afterEventId: string | null;
+  beforeEventId: string | null;
+  missingTransactions: string[];
+  message: string;
+}
+
+export interface TamperReport {
+  clean: boolean;
+  checkedEvents: number;
+  intactEvents: number;
+  tamperedEvents: number;
+  unanchoredEvents: number;
+  deletedEntries: DeletedLedgerEntry[];
+  sequenceGaps: LedgerSequenceGap[];
+}
+
+// Result of the supply-chain-management verify_product_history action
+export interface ProductHistoryVerification {
+  events: VerifiedShipmentEvent[];
+  verification: {
+    historyComplete: boolean;
+    verifiedOnBlockchain: boolean;
+    allEventsSigned: boolean;
+    signatures: {
+      valid: number;
+      invalid: number;
+      unsigned: number;
+      unknownSigner: number;
+    };
+    timeOfVerification: string;
+    verificationHash: string;
+    tamperReport: TamperReport;
+  };
+}
+
+// Result of the supply-chain-management export_audit_bundle action; the bundle is
+// checked offline with scripts/verify-audit-bundle.mjs
+export interface AuditBundle {
+  format: 'shipment-audit-bundle';
+  version: number;
+  exportedAt: string;
+  shipmentId: string;
+  shipment: Record<string, unknown>;
+  events: Record<string, unknown>[];
+  sensorReadings: Record<string, unknown>[];
+  documents: Record<string, unknown>[];
+  participants: Record<string, unknown>[];
+  ledger: {
+    transactions: Record<string, unknown>[];
+    blocks: Record<string, unknown>[];
+  };
+}
+
+// Signed link to a shipment's public verification page, from the public-verify issue_link action
+export interface VerificationLink {
+  trackingId: string;
+  // Milliseconds since the epoch
+  expires: number;
+  signature: string;
+  expiresAt: string;
+}
+
+// A custody holder as the public sees them: organisations by name, app users by role only
+export interface PublicParticipant {
+  name: string | null;
+  role: string;
+}
+
+// Result of the public-verify verify action; carries no customer details
+export interface PublicShipmentVerification {
+  shipment: {
+    trackingId: string;
+    status: string;
+    productType: string | null;
+    quantity: number | null;
+    transportType: string | null;
+    plannedDepartureDate: string | null;
+    estimatedArrivalDate: string | null;
+    actualArrivalDate: string | null;
+  };
+  verification: {
+    registered: boolean;
+    registrationTransactionHash: string | null;
+    historyIntact: boolean;
+    intactEvents: number;
+    checkedEvents: number;
+    verifiedAt: string;
+  };
+  custodyChain: {
+    eventType: string;
+    timestamp: string;
+    from: PublicParticipant | null;
+    to: PublicParticipant | null;
+    signedBy: PublicParticipant | null;
+    signatureValid: boolean;
+    anchored: boolean;
+    transactionHash: string | null;
+  }[];
+  sustainability: {
+    carbonFootprint: number | null;
+    carbonFootprintAnchored: boolean;
+    carbonPerKg: number | null;
+    carbonCredits: number;
+  };
 }
 
 export interface ShipmentBlockchainData {
@@ -26,6 +207,8 @@ export interface ShipmentBlockchainData {
 export interface BlockchainRecordResult {
   success: boolean;
   transactionHash: string;
+  // Position of the write in its sender's sequence of transactions
+  nonce?: number;
   blockchainRecord: {
     shipmentId: string;
     timestamp: string;
@@ -44,12 +227,6 @@ export interface SmartContractResult {
   data?: any;
 }
 
-export interface DisputeDetails {
-  reason: string;
-  evidence: string;
-  claimAmount?: number;
-}
-
 export interface TransportPreference {
   mode: 'truck' | 'ship' | 'rail' | 'air' | 'multi-modal';
   priority: number;
@@ -61,12 +238,6 @@ export interface CarbonCreditResult {
   transactionHash?: string;
 }
 
-export interface DisputeResolutionResult {
-  resolved: boolean;
-  resolution: string;
-  transactionHash?: string;
-}
-
 export interface OptimizationParams {
   origin: string;
   destination: string;
@@ -1,7 +1,7 @@
 
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { SmartContractResult, DisputeDetails } from './types';
+import { SmartContractResult } from './types';
 
 export function useSmartContracts() {
   const [isLoading, setIsLoading] = useState(false);
@@ -55,11 +55,12 @@ export function useSmartContracts() {
     });
   };
   
-  // Confirm delivery and trigger relevant smart contracts
+  // Confirm delivery and trigger relevant smart contracts; a repeat with the same idempotency key confirms only once
   const confirmDelivery = async (
     shipmentId: string,
     recipientSignature: string,
-    deliveryNotes: string
+    deliveryNotes: string,
+    idempotencyKey?: string
   ): Promise<SmartContractResult | null> => {
     setIsLoading(true);
     setError(null);
@@ -74,7 +75,8 @@ export function useSmartContracts() {
             recipientSignature,
             deliveryNotes,
             deliveryTime: new Date().toISOString()
-          }
+          },
+          idempotencyKey
         }
       });
       
@@ -90,35 +92,12 @@ export function useSmartContracts() {
     }
   };
 
-  // Resolve disputes using blockchain
-  const resolveDispute = async (shipmentId: string, disputeDetails: DisputeDetails): Promise<{ resolved: boolean, resolution: string } | null> => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-        body: { operation: 'resolve-dispute', shipmentId, disputeDetails }
-      });
-      
-      if (error) throw error;
-      return data as { resolved: boolean, resolution: string };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
-      setError(errorMessage);
-      console.error('Dispute resolution error:', err);
-      return null;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   return {
     isLoading,
     error,
     executeSmartContract,
     processPayment,
     processClearance,
-    confirmDelivery,
-    resolveDispute
+    confirmDelivery
   };
 }
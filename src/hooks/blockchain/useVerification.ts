@@ -1,13 +1,15 @@
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { BlockchainVerifyResult, ShipmentBlockchainData, BlockchainRecordResult } from './types';
+import { AuditBundle, PublicShipmentVerification, VerificationLink, BlockchainVerifyResult, ShipmentBlockchainData, BlockchainRecordResult, ProductHistoryVerification } from './types';
 
 export function useBlockchainVerification() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const verifyBlockchainRecord = async (hash: string): Promise<BlockchainVerifyResult | null> => {
+  // Memoized so components can depend on it in effects without re-verifying on every render
+  const verifyBlockchainRecord = useCallback(async (hash: string): Promise<BlockchainVerifyResult | null> => {
     setIsLoading(true);
     setError(null);
     
@@ -17,7 +19,12 @@ export function useBlockchainVerification() {
       });
       
       if (error) throw error;
-      return data as BlockchainVerifyResult;
+      
+      const result = data as BlockchainVerifyResult;
+      if (!result.verified) {
+        setError(result.reason || 'Transaction could not be verified');
+      }
+      return result;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
       setError(errorMessage);
@@ -26,7 +33,115 @@ export function useBlockchainVerification() {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  // Check a shipment's event rows against the ledger and their signers' keys
+  const verifyProductHistory = useCallback(async (shipmentId: string): Promise<ProductHistoryVerification | null> => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.functions.invoke('supply-chain-management', {
+        body: { action: 'verify_product_history', shipmentId }
+      });
+      
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Product history could not be verified');
+      }
+      return data as ProductHistoryVerification;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
+      setError(errorMessage);
+      console.error('Product history verification error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Everything needed to verify a shipment's history offline, as one document
+  const exportAuditBundle = useCallback(async (shipmentId: string): Promise<AuditBundle | null> => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.functions.invoke('supply-chain-management', {
+        body: { action: 'export_audit_bundle', shipmentId }
+      });
+      
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Audit bundle could not be exported');
+      }
+      return data.bundle as AuditBundle;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
+      setError(errorMessage);
+      console.error('Audit bundle export error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const issueVerificationLink = useCallback(async (trackingId: string): Promise<VerificationLink | null> => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.functions.invoke('public-verify', {
+        body: { action: 'issue_link', trackingId }
+      });
+      
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Verification link could not be created');
+      }
+      return data.link as VerificationLink;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
+      setError(errorMessage);
+      console.error('Verification link error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Needs no session: the link's signature is the only credential
+  const getPublicVerification = useCallback(async (
+    trackingId: string,
+    expires: number,
+    signature: string
+  ): Promise<PublicShipmentVerification | null> => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.functions.invoke('public-verify', {
+        body: { action: 'verify', trackingId, expires, signature }
+      });
+      
+      if (error instanceof FunctionsHttpError) {
+        // Expired and forged links come back as 410/403 with the reason in the body
+        const body = await error.context.json().catch(() => null);
+        throw new Error(body?.error || error.message);
+      }
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Shipment could not be verified');
+      }
+      return data as PublicShipmentVerification;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
+      setError(errorMessage);
+      console.error('Public verification error:', err);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
   const registerShipment = async (shipmentData: ShipmentBlockchainData): Promise<BlockchainRecordResult | null> => {
     setIsLoading(true);
@@ -49,13 +164,18 @@ export function useBlockchainVerification() {
     }
   };
 
-  const updateShipmentStatus = async (shipmentId: string, status: string): Promise<BlockchainRecordResult | null> => {
+  // Retrying with the same idempotency key returns the first update instead of recording another
+  const updateShipmentStatus = async (
+    shipmentId: string,
+    status: string,
+    idempotencyKey?: string
+  ): Promise<BlockchainRecordResult | null> => {
     setIsLoading(true);
     setError(null);
     
     try {
       const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-        body: { operation: 'update', shipmentId, status }
+        body: { operation: 'update', shipmentId, status, idempotencyKey }
       });
       
       if (error) throw error;
@@ -94,6 +214,10 @@ export function useBlockchainVerification() {
     isLoading,
     error,
     verifyBlockchainRecord,
+    verifyProductHistory,
+    exportAuditBundle,
+    issueVerificationLink,
+    getPublicVerification,
     registerShipment,
     updateShipmentStatus,
     verifyOnBlockchain
@@ -4,12 +4,22 @@ import { supabase } from '@/integrations/supabase/client';
 
 interface BlockchainVerifyResult {
   verified: boolean;
-  blockNumber: number;
-  timestamp: string;
-  from: string;
-  to: string;
-  gasUsed: number;
-  status: string;
+  found: boolean;
+  reason: string | null;
+  transactionHash: string;
+  recomputedHash: string | null;
+  hashMatches: boolean;
+  linkedIntoChain: boolean;
+  blockNumber: number | null;
+  blockHash: string | null;
+  txIndex: number | null;
+  confirmations: number;
+  timestamp: string | null;
+  from: string | null;
+  to: string | null;
+  operation: string | null;
+  payload: Record<string, unknown> | null;
+  status: 'success' | 'failed' | 'pending' | 'not_found';
 }
 
 interface ShipmentBlockchainData {
@@ -178,28 +188,6 @@ export function useBlockchain() {
     }
   };
 
-  // Resolve disputes using blockchain
-  const resolveDispute = async (shipmentId: string, disputeDetails: any): Promise<{ resolved: boolean, resolution: string } | null> => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-        body: { operation: 'resolve-dispute', shipmentId, disputeDetails }
-      });
-      
-      if (error) throw error;
-      return data as { resolved: boolean, resolution: string };
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
-      setError(errorMessage);
-      console.error('Dispute resolution error:', err);
-      return null;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-  
   // Generate multi-modal route optimization
   const generateMultiModalRoute = async (
     origin: string, 
@@ -378,7 +366,6 @@ export function useBlockchain() {
     verifyOnBlockchain,
     executeSmartContract,
     getCarbonCredits,
-    resolveDispute,
     generateMultiModalRoute,
     getSustainabilityRecommendations,
     processPayment,
@@ -53,6 +53,767 @@ export type Database = {
           },
         ]
       }
+      approval_policies: {
+        Row: {
+          active: boolean
+          amount_above: number | null
+          contract_type: string
+          created_at: string
+          currency: string | null
+          id: string
+          name: string
+          required_roles: Database["public"]["Enums"]["app_role"][]
+          threshold: number
+        }
+        Insert: {
+          active?: boolean
+          amount_above?: number | null
+          contract_type: string
+          created_at?: string
+          currency?: string | null
+          id?: string
+          name: string
+          required_roles: Database["public"]["Enums"]["app_role"][]
+          threshold: number
+        }
+        Update: {
+          active?: boolean
+          amount_above?: number | null
+          contract_type?: string
+          created_at?: string
+          currency?: string | null
+          id?: string
+          name?: string
+          required_roles?: Database["public"]["Enums"]["app_role"][]
+          threshold?: number
+        }
+        Relationships: []
+      }
+      approval_signatures: {
+        Row: {
+          approval_id: string
+          party: Database["public"]["Enums"]["app_role"]
+          signature: string
+          signed_at: string
+          signer_id: string
+        }
+        Insert: {
+          approval_id: string
+          party: Database["public"]["Enums"]["app_role"]
+          signature: string
+          signed_at?: string
+          signer_id: string
+        }
+        Update: {
+          approval_id?: string
+          party?: Database["public"]["Enums"]["app_role"]
+          signature?: string
+          signed_at?: string
+          signer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_signatures_approval_id_fkey"
+            columns: ["approval_id"]
+            isOneToOne: false
+            referencedRelation: "pending_approvals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cold_chain_claims: {
+        Row: {
+          blockchain_tx_hash: string | null
+          claimant_id: string
+          contract_id: string
+          created_at: string
+          evidence: Json
+          excursion_minutes: number
+          id: string
+          max_excursion_minutes: number
+          product_type: string
+          respondent_id: string
+          shipment_id: string | null
+          status: string
+        }
+        Insert: {
+          blockchain_tx_hash?: string | null
+          claimant_id: string
+          contract_id: string
+          created_at?: string
+          evidence?: Json
+          excursion_minutes: number
+          id?: string
+          max_excursion_minutes: number
+          product_type: string
+          respondent_id: string
+          shipment_id?: string | null
+          status?: string
+        }
+        Update: {
+          blockchain_tx_hash?: string | null
+          claimant_id?: string
+          contract_id?: string
+          created_at?: string
+          evidence?: Json
+          excursion_minutes?: number
+          id?: string
+          max_excursion_minutes?: number
+          product_type?: string
+          respondent_id?: string
+          shipment_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cold_chain_claims_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: true
+            referencedRelation: "smart_contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cold_chain_claims_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_transitions: {
+        Row: {
+          blockchain_tx_hash: string | null
+          contract_id: string
+          created_at: string
+          from_status: string
+          guards: Json
+          id: string
+          reason: string | null
+          to_status: string
+          transition: string
+          triggered_by: string | null
+        }
+        Insert: {
+          blockchain_tx_hash?: string | null
+          contract_id: string
+          created_at?: string
+          from_status: string
+          guards?: Json
+          id?: string
+          reason?: string | null
+          to_status: string
+          transition: string
+          triggered_by?: string | null
+        }
+        Update: {
+          blockchain_tx_hash?: string | null
+          contract_id?: string
+          created_at?: string
+          from_status?: string
+          guards?: Json
+          id?: string
+          reason?: string | null
+          to_status?: string
+          transition?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_transitions_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "smart_contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_evidence: {
+        Row: {
+          blockchain_tx_hash: string | null
+          content_type: string
+          created_at: string
+          description: string | null
+          dispute_id: string
+          file_hash: string
+          file_name: string
+          id: string
+          party: string
+          size_bytes: number
+          storage_path: string
+          submitted_by: string
+        }
+        Insert: {
+          blockchain_tx_hash?: string | null
+          content_type: string
+          created_at?: string
+          description?: string | null
+          dispute_id: string
+          file_hash: string
+          file_name: string
+          id?: string
+          party: string
+          size_bytes: number
+          storage_path: string
+          submitted_by: string
+        }
+        Update: {
+          blockchain_tx_hash?: string | null
+          content_type?: string
+          created_at?: string
+          description?: string | null
+          dispute_id?: string
+          file_hash?: string
+          file_name?: string
+          id?: string
+          party?: string
+          size_bytes?: number
+          storage_path?: string
+          submitted_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_payments: {
+        Row: {
+          amount: number
+          blockchain_tx_hash: string | null
+          created_at: string
+          currency: string
+          dispute_id: string
+          id: string
+          payee_id: string
+          payer_id: string
+        }
+        Insert: {
+          amount: number
+          blockchain_tx_hash?: string | null
+          created_at?: string
+          currency: string
+          dispute_id: string
+          id?: string
+          payee_id: string
+          payer_id: string
+        }
+        Update: {
+          amount?: number
+          blockchain_tx_hash?: string | null
+          created_at?: string
+          currency?: string
+          dispute_id?: string
+          id?: string
+          payee_id?: string
+          payer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_payments_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: true
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_proposals: {
+        Row: {
+          amount: number
+          claimant_accepted_at: string | null
+          created_at: string
+          dispute_id: string
+          id: string
+          proposed_by: string
+          respondent_accepted_at: string | null
+          status: string
+          terms: string
+        }
+        Insert: {
+          amount: number
+          claimant_accepted_at?: string | null
+          created_at?: string
+          dispute_id: string
+          id?: string
+          proposed_by: string
+          respondent_accepted_at?: string | null
+          status?: string
+          terms: string
+        }
+        Update: {
+          amount?: number
+          claimant_accepted_at?: string | null
+          created_at?: string
+          dispute_id?: string
+          id?: string
+          proposed_by?: string
+          respondent_accepted_at?: string | null
+          status?: string
+          terms?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_proposals_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      disputes: {
+        Row: {
+          amount_claimed: number
+          arbiter_id: string | null
+          arbiter_tx_hash: string | null
+          award: number | null
+          blockchain_tx_hash: string | null
+          claimant_id: string
+          created_at: string
+          currency: string
+          escalated_at: string | null
+          escalated_by: string | null
+          escalation_reason: string | null
+          escalation_tx_hash: string | null
+          id: string
+          reason: string
+          resolution_tx_hash: string | null
+          resolved_at: string | null
+          responded_at: string | null
+          respondent_id: string
+          response: string | null
+          response_due_at: string
+          response_tx_hash: string | null
+          ruling: string | null
+          ruling_outcome: string | null
+          shipment_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount_claimed: number
+          arbiter_id?: string | null
+          arbiter_tx_hash?: string | null
+          award?: number | null
+          blockchain_tx_hash?: string | null
+          claimant_id: string
+          created_at?: string
+          currency: string
+          escalated_at?: string | null
+          escalated_by?: string | null
+          escalation_reason?: string | null
+          escalation_tx_hash?: string | null
+          id?: string
+          reason: string
+          resolution_tx_hash?: string | null
+          resolved_at?: string | null
+          responded_at?: string | null
+          respondent_id: string
+          response?: string | null
+          response_due_at: string
+          response_tx_hash?: string | null
+          ruling?: string | null
+          ruling_outcome?: string | null
+          shipment_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount_claimed?: number
+          arbiter_id?: string | null
+          arbiter_tx_hash?: string | null
+          award?: number | null
+          blockchain_tx_hash?: string | null
+          claimant_id?: string
+          created_at?: string
+          currency?: string
+          escalated_at?: string | null
+          escalated_by?: string | null
+          escalation_reason?: string | null
+          escalation_tx_hash?: string | null
+          id?: string
+          reason?: string
+          resolution_tx_hash?: string | null
+          resolved_at?: string | null
+          responded_at?: string | null
+          respondent_id?: string
+          response?: string | null
+          response_due_at?: string
+          response_tx_hash?: string | null
+          ruling?: string | null
+          ruling_outcome?: string | null
+          shipment_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escrow_movements: {
+        Row: {
+          amount: number
+          blockchain_tx_hash: string | null
+          contract_id: string
+          created_at: string
+          currency: string
+          from_address: string
+          id: string
+          kind: string
+          shipment_id: string | null
+          to_address: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          blockchain_tx_hash?: string | null
+          contract_id: string
+          created_at?: string
+          currency: string
+          from_address: string
+          id?: string
+          kind: string
+          shipment_id?: string | null
+          to_address: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          blockchain_tx_hash?: string | null
+          contract_id?: string
+          created_at?: string
+          currency?: string
+          from_address?: string
+          id?: string
+          kind?: string
+          shipment_id?: string | null
+          to_address?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escrow_movements_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "smart_contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escrow_movements_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          key: string
+          operation: string
+          response: Json | null
+          scope: string
+          status_code: number | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          key: string
+          operation: string
+          response?: Json | null
+          scope: string
+          status_code?: number | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          key?: string
+          operation?: string
+          response?: Json | null
+          scope?: string
+          status_code?: number | null
+        }
+        Relationships: []
+      }
+      ledger_block_signatures: {
+        Row: {
+          block_number: number
+          created_at: string
+          signature: string
+          validator_address: string
+        }
+        Insert: {
+          block_number: number
+          created_at?: string
+          signature: string
+          validator_address: string
+        }
+        Update: {
+          block_number?: number
+          created_at?: string
+          signature?: string
+          validator_address?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_block_signatures_block_number_fkey"
+            columns: ["block_number"]
+            isOneToOne: false
+            referencedRelation: "ledger_blocks"
+            referencedColumns: ["block_number"]
+          }
+        ]
+      }
+      ledger_blocks: {
+        Row: {
+          block_hash: string
+          block_number: number
+          created_at: string
+          previous_hash: string
+          proposer: string | null
+          timestamp: number
+          transaction_count: number
+          transactions_root: string
+        }
+        Insert: {
+          block_hash: string
+          block_number: number
+          created_at?: string
+          previous_hash: string
+          proposer?: string | null
+          timestamp: number
+          transaction_count: number
+          transactions_root: string
+        }
+        Update: {
+          block_hash?: string
+          block_number?: number
+          created_at?: string
+          previous_hash?: string
+          proposer?: string | null
+          timestamp?: number
+          transaction_count?: number
+          transactions_root?: string
+        }
+        Relationships: []
+      }
+      ledger_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          idempotency_key: string | null
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          operation: string
+          request: Json
+          result: Json | null
+          source_id: string | null
+          source_table: string | null
+          status: string
+          transaction_hash: string | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          idempotency_key?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          operation: string
+          request?: Json
+          result?: Json | null
+          source_id?: string | null
+          source_table?: string | null
+          status?: string
+          transaction_hash?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          idempotency_key?: string | null
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          operation?: string
+          request?: Json
+          result?: Json | null
+          source_id?: string | null
+          source_table?: string | null
+          status?: string
+          transaction_hash?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ledger_sender_nonces: {
+        Row: {
+          address: string
+          next_nonce: number
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          next_nonce?: number
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          next_nonce?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ledger_transactions: {
+        Row: {
+          block_number: number | null
+          created_at: string
+          from_address: string
+          nonce: number | null
+          operation: string
+          payload: Json
+          timestamp: number
+          to_address: string
+          tx_hash: string
+          tx_index: number | null
+        }
+        Insert: {
+          block_number?: number | null
+          created_at?: string
+          from_address: string
+          nonce?: number | null
+          operation: string
+          payload?: Json
+          timestamp: number
+          to_address: string
+          tx_hash: string
+          tx_index?: number | null
+        }
+        Update: {
+          block_number?: number | null
+          created_at?: string
+          from_address?: string
+          nonce?: number | null
+          operation?: string
+          payload?: Json
+          timestamp?: number
+          to_address?: string
+          tx_hash?: string
+          tx_index?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_transactions_block_number_fkey"
+            columns: ["block_number"]
+            isOneToOne: false
+            referencedRelation: "ledger_blocks"
+            referencedColumns: ["block_number"]
+          },
+        ]
+      }
+      pending_approvals: {
+        Row: {
+          contract_type: string
+          created_at: string
+          id: string
+          idempotency_key: string | null
+          job_id: string | null
+          policy_id: string
+          rejected_by: string | null
+          rejection_reason: string | null
+          request: Json
+          requested_by: string
+          required_roles: Database["public"]["Enums"]["app_role"][]
+          resolved_at: string | null
+          shipment_id: string
+          status: string
+          threshold: number
+        }
+        Insert: {
+          contract_type: string
+          created_at?: string
+          id?: string
+          idempotency_key?: string | null
+          job_id?: string | null
+          policy_id: string
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          request: Json
+          requested_by: string
+          required_roles: Database["public"]["Enums"]["app_role"][]
+          resolved_at?: string | null
+          shipment_id: string
+          status?: string
+          threshold: number
+        }
+        Update: {
+          contract_type?: string
+          created_at?: string
+          id?: string
+          idempotency_key?: string | null
+          job_id?: string | null
+          policy_id?: string
+          rejected_by?: string | null
+          rejection_reason?: string | null
+          request?: Json
+          requested_by?: string
+          required_roles?: Database["public"]["Enums"]["app_role"][]
+          resolved_at?: string | null
+          shipment_id?: string
+          status?: string
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_approvals_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_approvals_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "approval_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_approvals_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -181,44 +942,101 @@ export type Database = {
         }
         Relationships: []
       }
+      sensor_batches: {
+        Row: {
+          blockchain_tx_hash: string
+          created_at: string
+          id: string
+          merkle_root: string
+          reading_count: number
+          shipment_id: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          blockchain_tx_hash: string
+          created_at?: string
+          id?: string
+          merkle_root: string
+          reading_count: number
+          shipment_id: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          blockchain_tx_hash?: string
+          created_at?: string
+          id?: string
+          merkle_root?: string
+          reading_count?: number
+          shipment_id?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensor_batches_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sensor_data: {
         Row: {
+          batch_id: string | null
           battery_level: number | null
           blockchain_tx_hash: string | null
           humidity: number | null
           id: string
           latitude: number | null
+          leaf_index: number | null
           longitude: number | null
+          merkle_proof: Json | null
           shipment_id: string
           shock_detected: boolean | null
           temperature: number | null
           timestamp: string
         }
         Insert: {
+          batch_id?: string | null
           battery_level?: number | null
           blockchain_tx_hash?: string | null
           humidity?: number | null
           id?: string
           latitude?: number | null
+          leaf_index?: number | null
           longitude?: number | null
+          merkle_proof?: Json | null
           shipment_id: string
           shock_detected?: boolean | null
           temperature?: number | null
           timestamp?: string
         }
         Update: {
+          batch_id?: string | null
           battery_level?: number | null
           blockchain_tx_hash?: string | null
           humidity?: number | null
           id?: string
           latitude?: number | null
+          leaf_index?: number | null
           longitude?: number | null
+          merkle_proof?: Json | null
           shipment_id?: string
           shock_detected?: boolean | null
           temperature?: number | null
           timestamp?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "sensor_data_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "sensor_data_shipment_id_fkey"
             columns: ["shipment_id"]
@@ -297,6 +1115,110 @@ export type Database = {
         }
         Relationships: []
       }
+      sla_penalties: {
+        Row: {
+          amount: number
+          blockchain_tx_hash: string | null
+          chargeable_minutes: number
+          contract_id: string
+          created_at: string
+          currency: string
+          excused_minutes: number
+          id: string
+          late_minutes: number
+          responsible_id: string
+          shipment_id: string | null
+        }
+        Insert: {
+          amount: number
+          blockchain_tx_hash?: string | null
+          chargeable_minutes: number
+          contract_id: string
+          created_at?: string
+          currency: string
+          excused_minutes?: number
+          id?: string
+          late_minutes: number
+          responsible_id: string
+          shipment_id?: string | null
+        }
+        Update: {
+          amount?: number
+          blockchain_tx_hash?: string | null
+          chargeable_minutes?: number
+          contract_id?: string
+          created_at?: string
+          currency?: string
+          excused_minutes?: number
+          id?: string
+          late_minutes?: number
+          responsible_id?: string
+          shipment_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_penalties_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: true
+            referencedRelation: "smart_contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_penalties_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      smart_contracts: {
+        Row: {
+          blockchain_tx_hash: string | null
+          contract_id: string
+          contract_type: string
+          created_at: string
+          id: string
+          parties: string[]
+          shipment_id: string | null
+          status: string
+          terms: Json
+          updated_at: string
+        }
+        Insert: {
+          blockchain_tx_hash?: string | null
+          contract_id: string
+          contract_type: string
+          created_at?: string
+          id?: string
+          parties: string[]
+          shipment_id?: string | null
+          status?: string
+          terms: Json
+          updated_at?: string
+        }
+        Update: {
+          blockchain_tx_hash?: string | null
+          contract_id?: string
+          contract_type?: string
+          created_at?: string
+          id?: string
+          parties?: string[]
+          shipment_id?: string | null
+          status?: string
+          terms?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "smart_contracts_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -318,6 +1240,27 @@ export type Database = {
         }
         Relationships: []
       }
+      user_wallets: {
+        Row: {
+          address: string
+          created_at: string
+          participant_id: string
+          user_id: string
+        }
+        Insert: {
+          address: string
+          created_at?: string
+          participant_id: string
+          user_id: string
+        }
+        Update: {
+          address?: string
+          created_at?: string
+          participant_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -332,7 +1275,7 @@ export type Database = {
       }
     }
     Enums: {
-      app_role: "manager" | "driver" | "customer"
+      app_role: "manager" | "driver" | "customer" | "arbiter"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -448,7 +1391,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["manager", "driver", "customer"],
+      app_role: ["manager", "driver", "customer", "arbiter"],
     },
   },
 } as const
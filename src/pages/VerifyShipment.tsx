@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  ArrowRight,
+  CheckCircle,
+  Leaf,
+  Link2,
+  Loader2,
+  ShieldCheck,
+  XCircle
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useBlockchain, PublicParticipant, PublicShipmentVerification } from "@/hooks/blockchain";
+
+const CUSTODY_EVENT_LABELS: Record<string, string> = {
+  created: "Registered",
+  ownership_transferred: "Custody transferred",
+  delivered: "Delivered"
+};
+
+const describeParticipant = (participant: PublicParticipant | null) => {
+  if (!participant) return "Unknown party";
+  return participant.name ? `${participant.name} (${participant.role})` : participant.role;
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), "MMM d, yyyy") : "—");
+
+const CheckBadge = ({ ok, label }: { ok: boolean; label: string }) => (
+  <Badge variant="outline" className={ok ? "border-green-500 text-green-600" : "border-red-500 text-red-600"}>
+    {ok ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+    {label}
+  </Badge>
+);
+
+// Public page opened from a shipment's QR code; the signed link is the only credential
+const VerifyShipment = () => {
+  const { trackingId = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const [result, setResult] = useState<PublicShipmentVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { getPublicVerification, error } = useBlockchain();
+
+  const expires = Number(searchParams.get("expires"));
+  const signature = searchParams.get("sig") || "";
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getPublicVerification(trackingId, expires, signature).then((verification) => {
+      if (cancelled) return;
+      setResult(verification);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackingId, expires, signature, getPublicVerification]);
+
+  return (
+    <div className="min-h-screen bg-eco-light/50 px-4 py-10">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Link to="/" className="flex items-center font-bold text-xl">
+            <Leaf className="h-6 w-6 text-eco-purple mr-2" />
+            Shipment Verification
+          </Link>
+          <span className="text-sm text-muted-foreground font-mono">{trackingId}</span>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-eco-purple" />
+          </div>
+        ) : !result ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This shipment can't be verified</AlertTitle>
+            <AlertDescription>
+              {error || "The verification link is invalid."} Ask the shipment's owner for a new QR code.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  {result.verification.registered && result.verification.historyIntact ? (
+                    <ShieldCheck className="h-5 w-5 text-green-500 mr-2" />
+                  ) : (
+                    <AlertTriangle className="h-5 w-5 text-amber-500 mr-2" />
+                  )}
+                  {result.verification.registered && result.verification.historyIntact
+                    ? "Verified on the blockchain"
+                    : "Verification incomplete"}
+                </CardTitle>
+                <CardDescription>
+                  Checked {format(new Date(result.verification.verifiedAt), "MMM d, yyyy 'at' HH:mm")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <CheckBadge ok={result.verification.registered} label="Registered on ledger" />
+                  <CheckBadge
+                    ok={result.verification.historyIntact}
+                    label={`History intact (${result.verification.intactEvents}/${result.verification.checkedEvents} events)`}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Status</p>
+                    <p className="font-medium capitalize">{result.shipment.status.replace(/_/g, " ")}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Product</p>
+                    <p className="font-medium">
+                      {result.shipment.productType || "—"}
+                      {result.shipment.quantity ? ` • ${result.shipment.quantity} units` : ""}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Transport</p>
+                    <p className="font-medium capitalize">{result.shipment.transportType || "—"}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Departure</p>
+                    <p className="font-medium">{formatDate(result.shipment.plannedDepartureDate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">
+                      {result.shipment.actualArrivalDate ? "Arrived" : "Estimated arrival"}
+                    </p>
+                    <p className="font-medium">
+                      {formatDate(result.shipment.actualArrivalDate || result.shipment.estimatedArrivalDate)}
+                    </p>
+                  </div>
+                </div>
+
+                {result.verification.registrationTransactionHash && (
+                  <p className="text-xs text-muted-foreground flex items-center">
+                    <Link2 className="h-3 w-3 mr-1" />
+                    <span className="font-mono break-all">{result.verification.registrationTransactionHash}</span>
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Custody Chain</CardTitle>
+                <CardDescription>Every hand-over, with the signature and ledger entry behind it</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {result.custodyChain.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No custody events recorded yet</p>
+                ) : (
+                  <ol className="space-y-4">
+                    {result.custodyChain.map((entry, index) => (
+                      <li key={index} className="border-l-2 border-eco-purple pl-4">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium">{CUSTODY_EVENT_LABELS[entry.eventType] || entry.eventType}</p>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(entry.timestamp), "MMM d, yyyy HH:mm")}
+                          </span>
+                        </div>
+                        {(entry.from || entry.to) && (
+                          <p className="text-sm text-muted-foreground flex items-center mt-1">
+                            {describeParticipant(entry.from)}
+                            <ArrowRight className="h-3 w-3 mx-1" />
+                            {describeParticipant(entry.to)}
+                          </p>
+                        )}
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          <CheckBadge
+                            ok={entry.signatureValid}
+                            label={entry.signatureValid ? `Signed by ${describeParticipant(entry.signedBy)}` : "Signature not verified"}
+                          />
+                          <CheckBadge ok={entry.anchored} label={entry.anchored ? "Anchored" : "Not anchored"} />
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Leaf className="h-5 w-5 text-green-500 mr-2" />
+                  Sustainability
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Carbon footprint</p>
+                  <p className="font-medium">
+                    {result.sustainability.carbonFootprint !== null ? `${result.sustainability.carbonFootprint} kg CO₂` : "—"}
+                  </p>
+                  {result.sustainability.carbonFootprint !== null && (
+                    <p className={`text-xs ${result.sustainability.carbonFootprintAnchored ? "text-green-600" : "text-amber-600"}`}>
+                      {result.sustainability.carbonFootprintAnchored ? "Matches the ledger record" : "Not on the ledger record"}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Per kg shipped</p>
+                  <p className="font-medium">
+                    {result.sustainability.carbonPerKg !== null ? `${result.sustainability.carbonPerKg.toFixed(3)} kg CO₂` : "—"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Carbon credits issued</p>
+                  <p className="font-medium">{result.sustainability.carbonCredits}</p>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">About EcoFreight</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyShipment;
@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useBlockchain } from '@/hooks/useBlockchain';
+import { blockchainService } from '@/services/blockchain';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -28,14 +28,6 @@ interface Shipment {
   estimated_arrival_date: string;
 }
 
-// Define the interface for blockchain data
-interface ShipmentBlockchainData {
-  shipmentId: string;
-  rating: number;
-  userId: string;
-  transportType: string;
-}
-
 const LeaveReview = () => {
   const { shipmentId } = useParams<{ shipmentId: string }>();
   const [shipment, setShipment] = useState<Shipment | null>(null);
@@ -47,7 +39,6 @@ const LeaveReview = () => {
   const [alreadyReviewed, setAlreadyReviewed] = useState<boolean>(false);
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { verifyOnBlockchain } = useBlockchain();
 
   useEffect(() => {
     if (!shipmentId) return;
@@ -147,31 +138,17 @@ const LeaveReview = () => {
             rating,
             comment,
             approved: false, // Reviews need manager approval first
-          });
+          })
+          .select('id')
+          .single();
         
         if (error) throw error;
         
-        // Verify the review on blockchain
-        const blockchainData: ShipmentBlockchainData = {
-          shipmentId: shipment.id,
-          rating,
-          userId: user.id,
-          transportType: shipment.transport_type
-        };
-        
+        // The insert queued the review's ledger registration in the outbox; run it now
         try {
-          const txHash = await verifyOnBlockchain(blockchainData);
-          
-          // Update the review with the blockchain transaction hash
-          if (txHash) {
-            await supabase
-              .from('reviews')
-              .update({ blockchain_tx_hash: txHash })
-              .eq('shipment_id', shipmentId)
-              .eq('user_id', user.id);
-          }
+          await blockchainService.processLedgerJobsFor(data.id);
         } catch (blockchainError) {
-          console.error('Blockchain verification failed, but review was submitted:', blockchainError);
+          console.error('Review registration will be retried by the ledger outbox:', blockchainError);
         }
         
         toast.success('Your review has been submitted and is pending approval');
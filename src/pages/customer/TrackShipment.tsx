@@ -14,6 +14,7 @@ import { Separator } from '@/components/ui/separator';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import MapView from '@/components/dashboard/MapView';
+import VerificationQrCode from '@/components/blockchain/VerificationQrCode';
 import { toast } from 'sonner';
 import { 
   MapPin, 
@@ -469,17 +470,10 @@ const TrackShipment = () => {
                 
                 {showQrCode && (
                   <div className="mt-4 flex flex-col items-center justify-center border rounded-lg p-4">
-                    <div className="bg-white p-2 rounded-md">
-                      {/* Mock QR code */}
-                      <div className="w-32 h-32 grid grid-cols-6 grid-rows-6 gap-1">
-                        {Array.from({ length: 36 }).map((_, i) => (
-                          <div key={i} className={`bg-black ${Math.random() > 0.3 ? 'opacity-100' : 'opacity-0'}`}></div>
-                        ))}
-                      </div>
-                    </div>
+                    <VerificationQrCode trackingId={shipment.tracking_id} />
                     <p className="text-sm mt-2 text-center">
                       Scan this QR code to verify this shipment's sustainability 
-                      and track its journey on the blockchain
+                      and custody chain on the blockchain - no account needed
                     </p>
                   </div>
                 )}
@@ -671,19 +665,28 @@ const TrackShipment = () => {
                             </div>
                             <div>
                               <p className="text-sm mb-1"><strong>Verification Status:</strong></p>
-                              <Badge className="bg-green-500">Verified on Blockchain</Badge>
+                              {!blockchainDetails ? (
+                                <Badge className="bg-gray-500">Not Checked</Badge>
+                              ) : blockchainDetails.verified ? (
+                                <Badge className="bg-green-500">Verified on Blockchain</Badge>
+                              ) : (
+                                <>
+                                  <Badge className="bg-red-500">Verification Failed</Badge>
+                                  <p className="text-xs text-red-600 mt-1">{blockchainDetails.reason}</p>
+                                </>
+                              )}
                             </div>
                           </div>
                         </div>
                         
-                        {blockchainDetails && (
+                        {blockchainDetails?.found && (
                           <div className="p-4 border rounded-lg">
                             <h3 className="font-medium mb-2">Transaction Details</h3>
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                               <div>
-                                <p className="text-sm"><strong>Block Number:</strong> {blockchainDetails.blockNumber}</p>
+                                <p className="text-sm"><strong>Block Number:</strong> {blockchainDetails.blockNumber ?? 'Not sealed'}</p>
                                 <p className="text-sm"><strong>Timestamp:</strong> {new Date(blockchainDetails.timestamp).toLocaleString()}</p>
-                                <p className="text-sm"><strong>Gas Used:</strong> {blockchainDetails.gasUsed}</p>
+                                <p className="text-sm"><strong>Confirmations:</strong> {blockchainDetails.confirmations}</p>
                               </div>
                               <div>
                                 <p className="text-sm"><strong>From:</strong></p>
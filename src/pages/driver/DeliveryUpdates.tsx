@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -67,6 +67,8 @@ const DeliveryUpdates = () => {
   const [shipments, setShipments] = useState<Shipment[]>([]);
   const [loading, setLoading] = useState(true);
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  // Idempotency key per shipment and status, kept until the update succeeds so a retry can't record it twice
+  const statusUpdateKeys = useRef(new Map<string, string>());
   
   const { updateShipmentStatus } = useBlockchain();
 
@@ -130,11 +132,17 @@ const DeliveryUpdates = () => {
   const handleUpdateStatus = async (shipmentId: string, newStatus: ShipmentStatus) => {
     setUpdatingStatus(shipmentId);
     
+    const updateId = `${shipmentId}:${newStatus}`;
+    const idempotencyKey = statusUpdateKeys.current.get(updateId) ?? crypto.randomUUID();
+    statusUpdateKeys.current.set(updateId, idempotencyKey);
+    
     try {
       // Update status on blockchain
-      const result = await updateShipmentStatus(shipmentId, newStatus);
+      const result = await updateShipmentStatus(shipmentId, newStatus, idempotencyKey);
       
       if (result && result.success) {
+        statusUpdateKeys.current.delete(updateId);
+        
         // Update local state
         setShipments(prev => 
           prev.map(shipment => 
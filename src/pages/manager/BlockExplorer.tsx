@@ -0,0 +1,118 @@
+import { useState, FormEvent } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Search, Boxes } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { searchExplorer } from '@/services/blockchain/explorer';
+import { explorerPaths } from '@/components/explorer/explorerUtils';
+import LatestBlocks from '@/components/explorer/LatestBlocks';
+import BlockDetail from '@/components/explorer/BlockDetail';
+import TransactionDetail from '@/components/explorer/TransactionDetail';
+import AddressActivityView from '@/components/explorer/AddressActivityView';
+import ShipmentActivityView from '@/components/explorer/ShipmentActivityView';
+
+export type ExplorerView = 'latest' | 'block' | 'transaction' | 'address' | 'shipment';
+
+interface BlockExplorerProps {
+  view: ExplorerView;
+}
+
+const BlockExplorer = ({ view }: BlockExplorerProps) => {
+  const params = useParams<{ blockNumber: string; hash: string; address: string; shipmentId: string }>();
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const result = await searchExplorer(query);
+      if (!result) {
+        toast.error(`Nothing on the ledger matches "${query.trim()}"`);
+        return;
+      }
+
+      switch (result.type) {
+        case 'block':
+          navigate(explorerPaths.block(result.blockNumber));
+          break;
+        case 'transaction':
+          navigate(explorerPaths.transaction(result.hash));
+          break;
+        case 'address':
+          navigate(explorerPaths.address(result.address));
+          break;
+        case 'shipment':
+          navigate(explorerPaths.shipment(result.shipmentId));
+          break;
+      }
+      setQuery('');
+    } catch (error) {
+      console.error('Explorer search failed:', error);
+      toast.error('Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const renderView = () => {
+    switch (view) {
+      case 'block': {
+        const blockNumber = Number(params.blockNumber);
+        return Number.isInteger(blockNumber) && blockNumber >= 0
+          ? <BlockDetail blockNumber={blockNumber} />
+          : <p className="text-sm text-muted-foreground">"{params.blockNumber}" is not a block number.</p>;
+      }
+      case 'transaction':
+        return <TransactionDetail hash={params.hash!} />;
+      case 'address':
+        return <AddressActivityView address={params.address!} />;
+      case 'shipment':
+        return <ShipmentActivityView shipmentId={params.shipmentId!} />;
+      default:
+        return <LatestBlocks />;
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center">
+              <Boxes className="mr-2 h-6 w-6 text-eco-purple" />
+              Block Explorer
+            </h1>
+            <p className="text-muted-foreground">
+              Browse blocks, transactions and participant activity on the ledger
+              {view !== 'latest' && (
+                <> · <Link to={explorerPaths.home} className="text-eco-purple hover:underline">Latest blocks</Link></>
+              )}
+            </p>
+          </div>
+
+          <form onSubmit={handleSearch} className="flex gap-2 w-full lg:w-[480px]">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Tx hash, block number, tracking ID or shipment ID"
+            />
+            <Button type="submit" disabled={isSearching} className="bg-eco-purple hover:bg-eco-purple/90">
+              <Search className="h-4 w-4 mr-1" />
+              {isSearching ? 'Searching...' : 'Search'}
+            </Button>
+          </form>
+        </div>
+
+        {renderView()}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default BlockExplorer;
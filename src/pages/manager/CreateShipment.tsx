@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useBlockchain } from '@/hooks/useBlockchain';
+import { blockchainService } from '@/services/blockchain';
+import { COLD_CHAIN_PROFILES } from '@/services/blockchain/coldChain';
+import { getMockRandomFor } from '@/services/mock';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -31,6 +33,14 @@ interface ShipmentFormData {
   estimated_arrival_date: Date | null;
   customer_id: string;
   driver_id: string;
+  // Payment held in escrow until delivery is proven; left empty for none
+  escrow_amount: string;
+  escrow_currency: string;
+  late_refund_percent: string;
+  damage_refund_percent: string;
+  max_refund_percent: string;
+  // Cold-chain profile the sensor readings are checked against; 'none' for goods that aren't temperature-sensitive
+  cold_chain_profile: string;
 }
 
 interface User {
@@ -42,7 +52,6 @@ interface User {
 const CreateShipment = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { registerShipment } = useBlockchain();
 
   const [formData, setFormData] = useState<ShipmentFormData>({
     title: '',
@@ -56,7 +65,13 @@ const CreateShipment = () => {
     planned_departure_date: null,
     estimated_arrival_date: null,
     customer_id: '',
-    driver_id: ''
+    driver_id: '',
+    escrow_amount: '',
+    escrow_currency: 'USD',
+    late_refund_percent: '',
+    damage_refund_percent: '',
+    max_refund_percent: '',
+    cold_chain_profile: 'none'
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -134,7 +149,7 @@ const CreateShipment = () => {
   };
 
   const calculateDistance = (origin: string, destination: string): number => {
-    return Math.floor(Math.random() * 1000) + 500;
+    return getMockRandomFor(`distance:${origin}:${destination}`).int(500, 1499);
   };
 
   const calculateCarbonFootprint = (transportType: string, distanceKm: number): number => {
@@ -159,6 +174,12 @@ const CreateShipment = () => {
       return;
     }
     
+    const escrowAmount = formData.escrow_amount ? Number(formData.escrow_amount) : 0;
+    if (escrowAmount > 0 && !formData.estimated_arrival_date) {
+      toast.error('Pick the estimated arrival date; the escrow refunds late deliveries from it');
+      return;
+    }
+    
     try {
       setSubmitting(true);
       
@@ -194,23 +215,48 @@ const CreateShipment = () => {
       if (error) throw error;
       
       if (data) {
+        // The insert queued the shipment's ledger registration in the outbox; run it
+        // now rather than waiting for the worker's next pass
         try {
-          const result = await registerShipment({
-            id: data.id,
-            transportType: data.transport_type,
-            origin: data.origin,
-            destination: data.destination,
-            carbonFootprint: data.carbon_footprint
-          });
-          
-          if (result && result.transactionHash) {
-            await supabase
-              .from('shipments')
-              .update({ blockchain_tx_hash: result.transactionHash })
-              .eq('id', data.id);
+          const [job] = await blockchainService.processLedgerJobsFor(data.id);
+          if (job && job.status !== 'succeeded') {
+            toast.info('Blockchain registration queued', {
+              description: 'It will be retried automatically'
+            });
           }
         } catch (blockchainErr) {
-          console.error('Blockchain registration failed, but shipment was created:', blockchainErr);
+          console.error('Blockchain registration will be retried by the ledger outbox:', blockchainErr);
+        }
+        
+        // Lock the agreed payment in escrow; the shipment stands without it
+        if (escrowAmount > 0) {
+          const percent = (value: string) => value === '' ? undefined : Number(value);
+          try {
+            await blockchainService.openShipmentEscrow(data.id, {
+              amount: escrowAmount,
+              currency: formData.escrow_currency.trim().toUpperCase(),
+              lateRefundPercentPerDay: percent(formData.late_refund_percent),
+              damageRefundPercent: percent(formData.damage_refund_percent),
+              maxRefundPercent: percent(formData.max_refund_percent)
+            });
+          } catch (escrowErr) {
+            console.error('Error opening escrow:', escrowErr);
+            toast.error('The payment could not be locked in escrow', {
+              description: `${escrowErr instanceof Error ? escrowErr.message : 'Unknown error'}. You can open it from the shipment's page.`
+            });
+          }
+        }
+        
+        // Check the sensor readings against the product's limits from the start
+        if (formData.cold_chain_profile !== 'none') {
+          try {
+            await blockchainService.openShipmentColdChain(data.id, { productType: formData.cold_chain_profile });
+          } catch (coldChainErr) {
+            console.error('Error opening cold-chain contract:', coldChainErr);
+            toast.error('Cold-chain monitoring could not be set up', {
+              description: `${coldChainErr instanceof Error ? coldChainErr.message : 'Unknown error'}. You can start it from the shipment's page.`
+            });
+          }
         }
       }
       
@@ -230,7 +276,13 @@ const CreateShipment = () => {
         planned_departure_date: null,
         estimated_arrival_date: null,
         customer_id: '',
-        driver_id: ''
+        driver_id: '',
+        escrow_amount: '',
+        escrow_currency: 'USD',
+        late_refund_percent: '',
+        damage_refund_percent: '',
+        max_refund_percent: '',
+        cold_chain_profile: 'none'
       });
       
       setTimeout(() => {
@@ -519,6 +571,99 @@ const CreateShipment = () => {
                 </div>
               </div>
               
+              <div className="space-y-2">
+                <Label>Escrow Payment</Label>
+                <p className="text-xs text-muted-foreground">
+                  Optional. The amount is taken from the customer's wallet when the shipment is created and paid to the driver
+                  once the delivery and its proof of delivery are recorded, less any refunds below.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <Label htmlFor="escrow_amount" className="text-xs">Amount</Label>
+                    <Input
+                      type="number"
+                      id="escrow_amount"
+                      name="escrow_amount"
+                      value={formData.escrow_amount}
+                      onChange={handleChange}
+                      placeholder="None"
+                      min="0"
+                      step="0.01"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="escrow_currency" className="text-xs">Currency</Label>
+                    <Input
+                      id="escrow_currency"
+                      name="escrow_currency"
+                      value={formData.escrow_currency}
+                      onChange={handleChange}
+                      maxLength={3}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="late_refund_percent" className="text-xs">Refund % per day late</Label>
+                    <Input
+                      type="number"
+                      id="late_refund_percent"
+                      name="late_refund_percent"
+                      value={formData.late_refund_percent}
+                      onChange={handleChange}
+                      min="0"
+                      max="100"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="damage_refund_percent" className="text-xs">Refund % if damaged</Label>
+                    <Input
+                      type="number"
+                      id="damage_refund_percent"
+                      name="damage_refund_percent"
+                      value={formData.damage_refund_percent}
+                      onChange={handleChange}
+                      min="0"
+                      max="100"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="max_refund_percent" className="text-xs">Refund cap %</Label>
+                    <Input
+                      type="number"
+                      id="max_refund_percent"
+                      name="max_refund_percent"
+                      value={formData.max_refund_percent}
+                      onChange={handleChange}
+                      min="0"
+                      max="100"
+                    />
+                  </div>
+                </div>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="cold_chain_profile">Cold Chain</Label>
+                <p className="text-xs text-muted-foreground">
+                  For temperature-sensitive goods. Every sensor reading is checked against the product's limits, and a claim is
+                  opened against the driver if the shipment spends too long out of range.
+                </p>
+                <Select
+                  value={formData.cold_chain_profile}
+                  onValueChange={(value) => handleSelectChange('cold_chain_profile', value)}
+                >
+                  <SelectTrigger id="cold_chain_profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not temperature-sensitive</SelectItem>
+                    {Object.entries(COLD_CHAIN_PROFILES).map(([type, profile]) => (
+                      <SelectItem key={type} value={type}>
+                        {profile.label} ({profile.minTemperature}°C to {profile.maxTemperature}°C)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <CardFooter className="justify-between">
                 <Button variant="ghost" onClick={() => navigate('/manager')}>Cancel</Button>
                 <Button type="submit" disabled={submitting}>
@@ -8,6 +8,7 @@ import { BarChart3, ArrowUpRight, TruckIcon, PackageIcon, Leaf, AlertTriangle }
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import BlockchainTransactionList from '@/components/dashboard/BlockchainTransactionList';
 
 // Define colors based on your provided color palette
 const colors = {
@@ -354,6 +355,11 @@ const ManagerDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Ledger activity */}
+        <div className="mb-6">
+          <BlockchainTransactionList />
+        </div>
       </div>
     </DashboardLayout>
   );
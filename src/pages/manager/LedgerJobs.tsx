@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ListRestart, RefreshCw, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LedgerJob, getUnfinishedLedgerJobs, isStuckLedgerJob, retryLedgerJob } from '@/services/blockchain/ledgerOutbox';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { explorerPaths, formatOperation } from '@/components/explorer/explorerUtils';
+
+// How often the list refreshes while the page is open
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+// The shipment a job concerns: its source shipment, or the shipmentId in its request data
+const getJobShipmentId = (job: LedgerJob): string | null => {
+  if (job.source_table === 'shipments') return job.source_id;
+
+  const request = job.request as Record<string, Record<string, unknown> | undefined>;
+  const data = Object.values(request ?? {}).find(value => typeof value === 'object' && value !== null);
+  return typeof data?.shipmentId === 'string' ? data.shipmentId : null;
+};
+
+const LedgerJobs = () => {
+  const [jobs, setJobs] = useState<LedgerJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setJobs(await getUnfinishedLedgerJobs());
+    } catch (error) {
+      console.error('Error loading ledger jobs:', error);
+      toast.error('Failed to load ledger jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    const interval = setInterval(loadJobs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadJobs]);
+
+  const handleRetry = async (job: LedgerJob) => {
+    setRetrying(job.id);
+    try {
+      const result = await retryLedgerJob(job.id);
+      if (result.status === 'succeeded') {
+        toast.success(`${formatOperation(job.operation)} recorded on the ledger`);
+      } else {
+        toast.error(`${formatOperation(job.operation)} failed again`, {
+          description: result.last_error ?? undefined
+        });
+      }
+      await loadJobs();
+    } catch (error) {
+      console.error('Error retrying ledger job:', error);
+      toast.error('Failed to retry ledger job');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const failedJobs = jobs.filter(job => job.status === 'failed');
+  const stuckJobs = jobs.filter(job => isStuckLedgerJob(job));
+
+  const renderStatus = (job: LedgerJob) => {
+    if (job.status === 'failed') {
+      return <Badge className="bg-red-500">Failed</Badge>;
+    }
+    if (isStuckLedgerJob(job)) {
+      return <Badge className="bg-yellow-500">Stuck</Badge>;
+    }
+    return <Badge variant="outline" className="capitalize">{job.status}</Badge>;
+  };
+
+  const renderJobs = (list: LedgerJob[], emptyMessage: string) => {
+    if (list.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4">{emptyMessage}</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Operation</TableHead>
+            <TableHead>Shipment</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>Last Error</TableHead>
+            <TableHead>Queued</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {list.map(job => {
+            const shipmentId = getJobShipmentId(job);
+            return (
+              <TableRow key={job.id}>
+                <TableCell>
+                  <div className="font-medium">{formatOperation(job.operation)}</div>
+                  {job.source_table && <div className="text-xs text-muted-foreground capitalize">{job.source_table.replace(/s$/, '')}</div>}
+                </TableCell>
+                <TableCell>
+                  {shipmentId ? (
+                    <Link to={explorerPaths.shipment(shipmentId)} className="font-mono text-xs text-eco-purple hover:underline">
+                      {shipmentId.substring(0, 8)}
+                    </Link>
+                  ) : '—'}
+                </TableCell>
+                <TableCell>{renderStatus(job)}</TableCell>
+                <TableCell>
+                  {job.attempts} / {job.max_attempts}
+                  {job.status === 'pending' && job.attempts > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      next {formatDistanceToNow(new Date(job.next_attempt_at), { addSuffix: true })}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  <span className="text-xs text-red-700 break-words">{job.last_error || '—'}</span>
+                  {job.transaction_hash && (
+                    <div className="text-xs mt-1">Anchored in <TransactionLink hash={job.transaction_hash} /></div>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                </TableCell>
+                <TableCell>
+                  {job.status !== 'processing' && (
+                    <Button variant="outline" size="sm" onClick={() => handleRetry(job)} disabled={retrying === job.id}>
+                      <RotateCcw className={`h-4 w-4 mr-1 ${retrying === job.id ? 'animate-spin' : ''}`} />
+                      Retry
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center">
+              <ListRestart className="mr-2 h-6 w-6 text-eco-purple" />
+              Ledger Jobs
+            </h1>
+            <p className="text-muted-foreground">
+              Ledger writes waiting in the outbox. Failed jobs ran out of attempts or were rejected; stuck jobs have been waiting more than 10 minutes.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadJobs} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Outbox</CardTitle>
+            <CardDescription>
+              {failedJobs.length} failed, {stuckJobs.length} stuck, {jobs.length} unfinished in total
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="attention">
+              <TabsList>
+                <TabsTrigger value="attention">Needs Attention ({failedJobs.length + stuckJobs.length})</TabsTrigger>
+                <TabsTrigger value="all">All Unfinished ({jobs.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="attention">
+                {renderJobs([...failedJobs, ...stuckJobs], 'No failed or stuck ledger jobs.')}
+              </TabsContent>
+              <TabsContent value="all">
+                {renderJobs(jobs, 'Every ledger write has been recorded.')}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default LedgerJobs;
@@ -181,6 +181,8 @@ const UserManagement = () => {
         return 'bg-eco-purple text-white';
       case 'driver':
         return 'bg-eco-green text-white';
+      case 'arbiter':
+        return 'bg-eco-gray text-white';
       case 'customer':
       default:
         return 'bg-eco-light text-eco-dark';
@@ -242,6 +244,7 @@ const UserManagement = () => {
                       <SelectItem value="manager">Manager</SelectItem>
                       <SelectItem value="driver">Driver</SelectItem>
                       <SelectItem value="customer">Customer</SelectItem>
+                      <SelectItem value="arbiter">Arbiter</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -345,6 +348,14 @@ const UserManagement = () => {
                             >
                               Customer
                             </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => changeUserRole(user.id, 'arbiter')}
+                              disabled={user.role === 'arbiter'}
+                            >
+                              Arbiter
+                            </Button>
                           </div>
                         </td>
                       </tr>
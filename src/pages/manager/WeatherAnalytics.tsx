@@ -7,8 +7,15 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { Cloud, CloudRain, Wind, Thermometer, AlertTriangle, RefreshCcw, MapPin } from 'lucide-react';
+import { Cloud, CloudRain, Wind, Thermometer, AlertTriangle, RefreshCcw, MapPin, Timer } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { reportDelay } from '@/services/blockchain/sla';
 
 // Mock data - would be replaced with actual API calls
 interface WeatherAlert {
@@ -155,10 +162,74 @@ const MOCK_WEATHER_FORECAST: Record<string, WeatherForecast[]> = {
   ]
 };
 
+// A shipment a weather alert can be recorded against
+interface OpenShipment {
+  id: string;
+  tracking_id: string;
+  title: string;
+}
+
 const WeatherAnalytics = () => {
+  const { user } = useAuth();
   const [weatherAlerts, setWeatherAlerts] = useState<WeatherAlert[]>(MOCK_WEATHER_ALERTS);
   const [selectedLocation, setSelectedLocation] = useState<string>('New York, NY');
   const [loading, setLoading] = useState(false);
+  // Recording an alert as a delay on a shipment, which SLAs excluding weather don't penalise
+  const [delayAlert, setDelayAlert] = useState<WeatherAlert | null>(null);
+  const [openShipments, setOpenShipments] = useState<OpenShipment[]>([]);
+  const [delayShipmentId, setDelayShipmentId] = useState('');
+  const [delayHours, setDelayHours] = useState('');
+  const [recordingDelay, setRecordingDelay] = useState(false);
+
+  useEffect(() => {
+    if (!delayAlert) return;
+
+    supabase
+      .from('shipments')
+      .select('id, tracking_id, title')
+      .neq('status', 'delivered')
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading shipments:', error);
+          toast.error('Failed to load shipments');
+          return;
+        }
+        setOpenShipments(data || []);
+      });
+  }, [delayAlert]);
+
+  const closeDelayDialog = () => {
+    setDelayAlert(null);
+    setDelayShipmentId('');
+    setDelayHours('');
+  };
+
+  const recordDelay = async () => {
+    if (!delayAlert || !user) return;
+    const hours = Number(delayHours);
+    if (!delayShipmentId || !(hours > 0)) {
+      toast.error('Choose the shipment and how many hours it lost');
+      return;
+    }
+
+    setRecordingDelay(true);
+    try {
+      await reportDelay(delayShipmentId, user.id, {
+        cause: 'weather',
+        delayHours: hours,
+        description: `${delayAlert.location}: ${delayAlert.description}`,
+        alertId: delayAlert.id
+      });
+      toast.success('Weather delay recorded on the shipment');
+      closeDelayDialog();
+    } catch (error) {
+      console.error('Error recording weather delay:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record the delay');
+    } finally {
+      setRecordingDelay(false);
+    }
+  };
 
   // In a real app, we would fetch this data from the OpenWeather API
   const refreshWeatherData = () => {
@@ -270,10 +341,14 @@ const WeatherAnalytics = () => {
                           <AlertDescription className="mt-1">
                             {alert.description}
                           </AlertDescription>
-                          <div className="mt-2">
+                          <div className="mt-2 flex items-center justify-between gap-2">
                             <Badge variant="outline" className="text-eco-purple">
                               {alert.affected_shipments} shipments affected
                             </Badge>
+                            <Button variant="outline" size="sm" onClick={() => setDelayAlert(alert)}>
+                              <Timer className="mr-1 h-4 w-4" />
+                              Record Delay
+                            </Button>
                           </div>
                         </div>
                       </div>
@@ -357,6 +432,54 @@ const WeatherAnalytics = () => {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={delayAlert !== null} onOpenChange={(open) => !open && closeDelayDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Weather Delay</DialogTitle>
+            <DialogDescription>
+              {delayAlert && `${delayAlert.location}: ${delayAlert.description}. `}
+              The delay is recorded on the shipment's ledger history, and SLAs that exclude weather don't charge for it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="delay-shipment">Shipment</Label>
+              <Select value={delayShipmentId} onValueChange={setDelayShipmentId}>
+                <SelectTrigger id="delay-shipment">
+                  <SelectValue placeholder="Select a shipment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openShipments.map(shipment => (
+                    <SelectItem key={shipment.id} value={shipment.id}>
+                      {shipment.tracking_id} · {shipment.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="delay-hours">Hours lost</Label>
+              <Input
+                id="delay-hours"
+                type="number"
+                min="0"
+                step="0.5"
+                value={delayHours}
+                onChange={(e) => setDelayHours(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDelayDialog}>
+              Cancel
+            </Button>
+            <Button className="bg-eco-purple hover:bg-eco-purple/90" onClick={recordDelay} disabled={recordingDelay}>
+              {recordingDelay ? 'Recording...' : 'Record Delay'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 };
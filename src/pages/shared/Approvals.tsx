@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, PenLine, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ApprovalInbox,
+  ApprovalPolicy,
+  PendingApproval,
+  approvePendingAction,
+  getApprovalInbox,
+  getApprovalPolicies,
+  getApprovalRequestData,
+  getSignaturesNeeded,
+  rejectPendingAction,
+  setApprovalPolicyActive
+} from '@/services/blockchain/approvals';
+import { formatOperation } from '@/components/explorer/explorerUtils';
+
+// How often the inbox refreshes while the page is open
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const shortId = (id: unknown) => (typeof id === 'string' ? id.substring(0, 8) : '—');
+
+// One line saying what an action will do once it runs
+const describeAction = (approval: PendingApproval): string => {
+  const data = getApprovalRequestData(approval);
+
+  switch (approval.contract_type) {
+    case 'release_payment':
+      return `Release ${data.amount} ${data.currency} to ${shortId(data.recipientId)}`;
+    case 'transfer_ownership':
+      return `Transfer from ${shortId(data.fromUserId)} to ${shortId(data.toUserId)}`;
+    case 'settle_dispute':
+      return `Pay the ${data.basis} of dispute ${shortId(data.disputeId)}: ${data.amount} ${data.currency} from ${shortId(data.payerId)} to ${shortId(data.payeeId)}`;
+    default:
+      return formatOperation(approval.contract_type);
+  }
+};
+
+const describePolicy = (policy: ApprovalPolicy): string => {
+  const parties = policy.required_roles.join(' + ');
+  const signers = policy.threshold < policy.required_roles.length ? `${policy.threshold} of ${parties}` : parties;
+  if (policy.amount_above === null) return `Always: ${signers}`;
+  return policy.currency
+    ? `Over ${policy.amount_above.toLocaleString()} ${policy.currency}, or any amount in another currency: ${signers}`
+    : `Over ${policy.amount_above.toLocaleString()}: ${signers}`;
+};
+
+const Approvals = () => {
+  const { userRole } = useAuth();
+  const [inbox, setInbox] = useState<ApprovalInbox>({ waiting: [], requested: [] });
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PendingApproval | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const loadInbox = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextInbox, nextPolicies] = await Promise.all([getApprovalInbox(), getApprovalPolicies()]);
+      setInbox(nextInbox);
+      setPolicies(nextPolicies);
+    } catch (error) {
+      console.error('Error loading approvals:', error);
+      toast.error('Failed to load approvals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+    const interval = setInterval(loadInbox, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadInbox]);
+
+  const handleApprove = async (approval: PendingApproval) => {
+    setWorking(approval.id);
+    try {
+      const result = await approvePendingAction(approval.id);
+      if (result.status !== 'executed') {
+        toast.success('Signed', { description: `${getSignaturesNeeded(result)} more signature(s) needed` });
+      } else if (result.job?.status === 'failed') {
+        toast.error(`${formatOperation(result.contract_type)} was approved but failed`, {
+          description: result.job.last_error ?? undefined
+        });
+      } else {
+        toast.success(`${formatOperation(result.contract_type)} approved and executed`);
+      }
+      await loadInbox();
+    } catch (error) {
+      console.error('Error approving action:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to approve');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    setWorking(rejecting.id);
+    try {
+      await rejectPendingAction(rejecting.id, rejectionReason);
+      toast.success(`${formatOperation(rejecting.contract_type)} rejected`);
+      setRejecting(null);
+      setRejectionReason('');
+      await loadInbox();
+    } catch (error) {
+      console.error('Error rejecting action:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reject');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleTogglePolicy = async (policy: ApprovalPolicy, active: boolean) => {
+    try {
+      await setApprovalPolicyActive(policy.id, active);
+      setPolicies(prev => prev.map(p => (p.id === policy.id ? { ...p, active } : p)));
+    } catch (error) {
+      console.error('Error updating approval policy:', error);
+      toast.error('Failed to update policy');
+    }
+  };
+
+  const renderSignatures = (approval: PendingApproval) => (
+    <div className="flex flex-wrap items-center gap-1">
+      {approval.required_roles.map(party => {
+        const signed = approval.signatures.some(signature => signature.party === party);
+        return (
+          <Badge key={party} variant={signed ? 'default' : 'outline'} className={`capitalize ${signed ? 'bg-eco-purple' : ''}`}>
+            {signed && <Check className="h-3 w-3 mr-1" />}
+            {party}
+          </Badge>
+        );
+      })}
+      <span className="text-xs text-muted-foreground ml-1">
+        {approval.signatures.length} / {approval.threshold}
+      </span>
+    </div>
+  );
+
+  const renderApprovals = (list: PendingApproval[], emptyMessage: string, canSign: boolean) => {
+    if (list.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4">{emptyMessage}</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Action</TableHead>
+            <TableHead>Shipment</TableHead>
+            <TableHead>Signatures</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {list.map(approval => (
+            <TableRow key={approval.id}>
+              <TableCell className="max-w-xs">
+                <div className="font-medium">{formatOperation(approval.contract_type)}</div>
+                <div className="text-xs text-muted-foreground break-words">{describeAction(approval)}</div>
+              </TableCell>
+              <TableCell>
+                <Link to={`/shipment/${approval.shipment_id}`} className="font-mono text-xs text-eco-purple hover:underline">
+                  {approval.shipment_id.substring(0, 8)}
+                </Link>
+              </TableCell>
+              <TableCell>{renderSignatures(approval)}</TableCell>
+              <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                {formatDistanceToNow(new Date(approval.created_at), { addSuffix: true })}
+              </TableCell>
+              <TableCell>
+                <div className="flex gap-2 justify-end">
+                  {canSign && (
+                    <Button
+                      size="sm"
+                      className="bg-eco-purple hover:bg-eco-purple/90"
+                      onClick={() => handleApprove(approval)}
+                      disabled={working === approval.id}
+                    >
+                      <PenLine className="h-4 w-4 mr-1" />
+                      Sign
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setRejecting(approval)} disabled={working === approval.id}>
+                    <X className="h-4 w-4 mr-1" />
+                    {canSign ? 'Reject' : 'Withdraw'}
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center">
+              <PenLine className="mr-2 h-6 w-6 text-eco-purple" />
+              Approvals
+            </h1>
+            <p className="text-muted-foreground">
+              High-value contract actions run only once every party their approval policy names has signed.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadInbox} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Waiting on You ({inbox.waiting.length})</CardTitle>
+            <CardDescription>Signing uses your wallet's key; the action runs as soon as it has enough signatures</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderApprovals(inbox.waiting, 'Nothing is waiting on your signature.', true)}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Requested by You ({inbox.requested.length})</CardTitle>
+            <CardDescription>Actions you submitted that are still waiting on other parties</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderApprovals(inbox.requested.filter(approval => !inbox.waiting.some(waiting => waiting.id === approval.id)), 'You have no actions waiting for approval.', false)}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Approval Policies</CardTitle>
+            <CardDescription>
+              Which actions need several signatures. "customer" and "driver" mean the shipment's own customer and assigned driver.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Needs</TableHead>
+                  <TableHead>Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map(policy => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">{formatOperation(policy.contract_type)}</TableCell>
+                    <TableCell>{policy.name}</TableCell>
+                    <TableCell className="capitalize">{describePolicy(policy)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.active}
+                        onCheckedChange={(active) => handleTogglePolicy(policy, active)}
+                        disabled={userRole !== 'manager'}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting && formatOperation(rejecting.contract_type)}</DialogTitle>
+            <DialogDescription>
+              The action won't run, and the other parties will see that it was rejected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              placeholder="Optional"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={working !== null}>
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,662 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Clock, Download, FileText, Gavel, Handshake, RefreshCw, Scale, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DisputeStatusBadge from '@/components/blockchain/DisputeStatusBadge';
+import { getSignaturesNeeded } from '@/services/blockchain/approvals';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ACTIVE_DISPUTE_STATUSES,
+  Arbiter,
+  DisputeDetails as DisputeDetailsData,
+  DisputeEvidence,
+  DisputeProposal,
+  RulingOutcome,
+  acceptSettlement,
+  addDisputeEvidence,
+  assignDisputeArbiter,
+  declineSettlement,
+  escalateDispute,
+  getArbiters,
+  getDisputeDetails,
+  proposeSettlement,
+  respondToDispute,
+  ruleOnDispute
+} from '@/services/blockchain/disputes';
+
+const PARTY_LABELS = {
+  claimant: 'You raised this dispute',
+  respondent: 'This dispute was raised against you',
+  arbiter: 'You are the arbiter'
+};
+
+const OUTCOME_LABELS: Record<RulingOutcome, string> = {
+  claimant: 'For the claimant: the amount claimed is paid',
+  respondent: 'For the respondent: nothing is paid',
+  split: 'Split: part of the amount claimed is paid'
+};
+
+const PROPOSAL_STYLES: Record<string, string> = {
+  open: 'bg-blue-500',
+  accepted: 'bg-green-500',
+  declined: 'bg-red-500',
+  lapsed: 'bg-gray-400'
+};
+
+const formatAmount = (amount: number | null, currency: string) => `${Number(amount ?? 0).toFixed(2)} ${currency}`;
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const EMPTY_RULING = { outcome: 'claimant' as RulingOutcome, award: '', ruling: '' };
+
+const DisputeDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, userRole } = useAuth();
+  const [details, setDetails] = useState<DisputeDetailsData | null>(null);
+  const [arbiters, setArbiters] = useState<Arbiter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [statement, setStatement] = useState('');
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [evidenceDescription, setEvidenceDescription] = useState('');
+  const [proposal, setProposal] = useState({ amount: '', terms: '' });
+  const [ruling, setRuling] = useState(EMPTY_RULING);
+  const [arbiterId, setArbiterId] = useState('');
+
+  const isManager = userRole === 'manager';
+
+  const loadDispute = useCallback(async () => {
+    if (!id) return;
+
+    setIsLoading(true);
+    try {
+      setDetails(await getDisputeDetails(id));
+    } catch (error) {
+      console.error('Error loading dispute:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load the dispute');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadDispute();
+  }, [loadDispute]);
+
+  const needsArbiter = isManager && details?.dispute.status === 'arbitration' && !details.dispute.arbiter_id;
+
+  useEffect(() => {
+    if (!needsArbiter) return;
+
+    getArbiters()
+      .then(setArbiters)
+      .catch(error => console.error('Error loading arbiters:', error));
+  }, [needsArbiter]);
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+      toast.success(success);
+      await loadDispute();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!details) {
+    return (
+      <DashboardLayout>
+        <div className="container mx-auto px-4 py-8">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-4 border-eco-purple border-t-transparent rounded-full"></div>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">
+              This dispute could not be found. <Link to="/disputes" className="text-eco-purple hover:underline">Back to disputes</Link>
+            </p>
+          )}
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { dispute, shipment, evidence, proposals, payment, awardApproval, party } = details;
+  const isActive = ACTIVE_DISPUTE_STATUSES.includes(dispute.status);
+  const isSide = party === 'claimant' || party === 'respondent';
+
+  const describeUser = (userId: string | null) => {
+    if (!userId) return 'Nobody yet';
+    if (userId === user?.id) return 'You';
+    return userId.substring(0, 8);
+  };
+
+  const renderHash = (hash: string | null) => {
+    if (!hash) return <span className="text-muted-foreground">Recording on the ledger...</span>;
+    return isManager
+      ? <TransactionLink hash={hash} />
+      : <span className="font-mono text-muted-foreground">{shortenHash(hash)}</span>;
+  };
+
+  const submitResponse = async () => {
+    if (!statement.trim()) {
+      toast.error('Write your answer first');
+      return;
+    }
+    if (await run('respond', () => respondToDispute(dispute.id, statement.trim()), 'Answer recorded', 'Your answer could not be recorded')) {
+      setStatement('');
+    }
+  };
+
+  const submitEvidence = async () => {
+    if (!evidenceFile) {
+      toast.error('Choose a file to upload');
+      return;
+    }
+    const uploaded = await run(
+      'evidence',
+      () => addDisputeEvidence(dispute.id, evidenceFile, evidenceDescription.trim() || undefined),
+      'Evidence uploaded and anchored',
+      'The evidence could not be uploaded'
+    );
+    if (uploaded) {
+      setEvidenceFile(null);
+      setEvidenceDescription('');
+    }
+  };
+
+  const submitProposal = async () => {
+    const amount = Number(proposal.amount);
+    if (proposal.amount === '' || !(amount >= 0) || !proposal.terms.trim()) {
+      toast.error('Enter an amount and the terms');
+      return;
+    }
+    if (await run('propose', () => proposeSettlement(dispute.id, amount, proposal.terms.trim()), 'Settlement proposed', 'The settlement could not be proposed')) {
+      setProposal({ amount: '', terms: '' });
+    }
+  };
+
+  const submitRuling = async () => {
+    if (!ruling.ruling.trim()) {
+      toast.error('Give the reasons for your ruling');
+      return;
+    }
+    const award = ruling.outcome === 'split' ? Number(ruling.award) : undefined;
+    if (ruling.outcome === 'split' && !(award! > 0 && award! < Number(dispute.amount_claimed))) {
+      toast.error(`A split awards more than nothing and less than the ${formatAmount(dispute.amount_claimed, dispute.currency)} claimed`);
+      return;
+    }
+    const ruled = await run(
+      'rule',
+      () => ruleOnDispute(dispute.id, { outcome: ruling.outcome, award, ruling: ruling.ruling.trim() }),
+      'Ruling recorded',
+      'The ruling could not be recorded'
+    );
+    if (ruled) setRuling(EMPTY_RULING);
+  };
+
+  const renderDeadline = () => {
+    if (dispute.status !== 'open') return null;
+
+    const due = new Date(dispute.response_due_at);
+    return (
+      <Alert className={party === 'respondent' ? 'border-orange-300' : undefined}>
+        <Clock className="h-4 w-4" />
+        <AlertTitle>Response due {formatDistanceToNow(due, { addSuffix: true })}</AlertTitle>
+        <AlertDescription>
+          {party === 'respondent'
+            ? `Answer by ${due.toLocaleString()}, or the dispute goes to an arbiter without your side of it.`
+            : `The respondent has until ${due.toLocaleString()} to answer; after that it goes to an arbiter.`}
+        </AlertDescription>
+      </Alert>
+    );
+  };
+
+  const renderSummary = () => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>The Claim</CardTitle>
+        <CardDescription>
+          Raised {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+          {shipment && (
+            <>
+              {' about '}
+              {userRole === 'arbiter'
+                ? <span className="font-mono">{shipment.tracking_id}</span>
+                : <Link to={`/shipment/${shipment.id}`} className="text-eco-purple hover:underline">{shipment.title || shipment.tracking_id}</Link>}
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="whitespace-pre-wrap">{dispute.reason}</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <div className="text-muted-foreground text-xs">Claimed</div>
+            <div className="text-lg font-semibold">{formatAmount(dispute.amount_claimed, dispute.currency)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Claimant</div>
+            <div className="font-mono">{describeUser(dispute.claimant_id)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Respondent</div>
+            <div className="font-mono">{describeUser(dispute.respondent_id)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Arbiter</div>
+            <div className="font-mono">{describeUser(dispute.arbiter_id)}</div>
+          </div>
+        </div>
+        <div className="text-xs">Raised: {renderHash(dispute.blockchain_tx_hash)}</div>
+
+        {dispute.response && (
+          <div className="border-t pt-3 space-y-1">
+            <div className="font-medium">The respondent's answer</div>
+            <p className="whitespace-pre-wrap">{dispute.response}</p>
+            <div className="text-xs text-muted-foreground">
+              {dispute.responded_at && new Date(dispute.responded_at).toLocaleString()}
+              {' · '}
+              {renderHash(dispute.response_tx_hash)}
+            </div>
+          </div>
+        )}
+
+        {dispute.escalated_at && (
+          <div className="border-t pt-3 text-xs space-y-1">
+            <div className="font-medium text-sm">Sent to arbitration</div>
+            <div className="text-muted-foreground">
+              {dispute.escalation_reason === 'response_overdue'
+                ? 'The respondent missed the deadline'
+                : `At the request of ${describeUser(dispute.escalated_by)}`}
+              {' · '}
+              {new Date(dispute.escalated_at).toLocaleString()}
+              {' · '}
+              {renderHash(dispute.escalation_tx_hash)}
+            </div>
+            {dispute.arbiter_id && <div className="text-muted-foreground">Arbiter assigned: {renderHash(dispute.arbiter_tx_hash)}</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderOutcome = () => {
+    if (isActive) return null;
+
+    return (
+      <Card className="border-green-300">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center">
+            {dispute.status === 'ruled' ? <Gavel className="h-5 w-5 mr-2 text-eco-purple" /> : <Handshake className="h-5 w-5 mr-2 text-eco-purple" />}
+            {dispute.status === 'ruled' ? 'Ruling' : 'Settlement'}
+          </CardTitle>
+          <CardDescription>
+            {dispute.resolved_at && new Date(dispute.resolved_at).toLocaleString()}
+            {' · '}
+            {renderHash(dispute.resolution_tx_hash)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {dispute.ruling_outcome && <div className="font-medium">{OUTCOME_LABELS[dispute.ruling_outcome as RulingOutcome]}</div>}
+          {dispute.ruling && <p className="whitespace-pre-wrap">{dispute.ruling}</p>}
+          <div>
+            <span className="text-muted-foreground">Awarded to the claimant: </span>
+            <span className="font-semibold">{formatAmount(dispute.award, dispute.currency)}</span>
+          </div>
+          {Number(dispute.award) > 0 && (
+            <div className="border rounded p-2 text-xs flex items-start gap-2">
+              <Wallet className="h-4 w-4 mt-0.5 text-eco-purple flex-shrink-0" />
+              {payment ? (
+                <div>
+                  <div>
+                    {formatAmount(payment.amount, payment.currency)} paid from {describeUser(payment.payer_id)} to {describeUser(payment.payee_id)}
+                  </div>
+                  <div>{renderHash(payment.blockchain_tx_hash)}</div>
+                </div>
+              ) : awardApproval?.status === 'pending' ? (
+                <div className="text-muted-foreground">
+                  The payment waits for approval: {getSignaturesNeeded(awardApproval)} more signature(s) from {awardApproval.required_roles.join(' + ')}.{' '}
+                  <Link to="/approvals" className="text-eco-purple hover:underline">Approvals</Link>
+                </div>
+              ) : awardApproval?.status === 'rejected' ? (
+                <div className="text-red-600">
+                  The payment was turned down{awardApproval.rejection_reason ? `: ${awardApproval.rejection_reason}` : ''}.
+                </div>
+              ) : (
+                <div className="text-muted-foreground">The payment is being made; it is retried until it goes through.</div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderActions = () => {
+    if (!isActive) return null;
+
+    const canRespond = party === 'respondent' && dispute.status === 'open';
+    const canEscalate = isSide && dispute.status === 'responded';
+    const canRule = party === 'arbiter' && dispute.status === 'arbitration';
+    if (!canRespond && !canEscalate && !canRule && !needsArbiter) return null;
+
+    const eligible = arbiters.filter(arbiter => arbiter.id !== dispute.claimant_id && arbiter.id !== dispute.respondent_id);
+
+    return (
+      <Card className="border-eco-purple">
+        <CardHeader className="pb-2">
+          <CardTitle>Your Next Step</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canRespond && (
+            <div className="space-y-2">
+              <Label htmlFor="dispute-statement">Your answer</Label>
+              <Textarea
+                id="dispute-statement"
+                rows={4}
+                placeholder="Your side of what happened"
+                value={statement}
+                onChange={(e) => setStatement(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Its hash is recorded on the ledger. Add any supporting files as evidence below.</p>
+              <Button onClick={submitResponse} disabled={busy === 'respond'}>
+                {busy === 'respond' ? 'Recording...' : 'Submit Answer'}
+              </Button>
+            </div>
+          )}
+
+          {canEscalate && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                If you can't agree a settlement, either of you can send the dispute to an arbiter, whose ruling is final.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => run('escalate', () => escalateDispute(dispute.id), 'Sent to arbitration', 'The dispute could not be sent to arbitration')}
+                disabled={busy === 'escalate'}
+              >
+                <Scale className="h-4 w-4 mr-1" />
+                {busy === 'escalate' ? 'Sending...' : 'Send to Arbitration'}
+              </Button>
+            </div>
+          )}
+
+          {needsArbiter && (
+            <div className="space-y-2">
+              <Label htmlFor="dispute-arbiter">Assign an arbiter</Label>
+              <div className="flex gap-2">
+                <Select value={arbiterId} onValueChange={setArbiterId} disabled={eligible.length === 0}>
+                  <SelectTrigger id="dispute-arbiter" className="md:w-64">
+                    <SelectValue placeholder={eligible.length === 0 ? 'No arbiters available' : 'Choose an arbiter'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eligible.map(arbiter => (
+                      <SelectItem key={arbiter.id} value={arbiter.id}>{arbiter.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => run('assign', () => assignDisputeArbiter(dispute.id, arbiterId), 'Arbiter assigned', 'The arbiter could not be assigned')}
+                  disabled={!arbiterId || busy === 'assign'}
+                >
+                  {busy === 'assign' ? 'Assigning...' : 'Assign'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {canRule && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="ruling-outcome">Outcome</Label>
+                <Select value={ruling.outcome} onValueChange={(value) => setRuling(prev => ({ ...prev, outcome: value as RulingOutcome }))}>
+                  <SelectTrigger id="ruling-outcome">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(OUTCOME_LABELS).map(([outcome, label]) => (
+                      <SelectItem key={outcome} value={outcome}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ruling.outcome === 'split' && (
+                <div className="space-y-1">
+                  <Label htmlFor="ruling-award">Award ({dispute.currency})</Label>
+                  <Input
+                    id="ruling-award"
+                    type="number"
+                    min="0"
+                    max={String(dispute.amount_claimed)}
+                    value={ruling.award}
+                    onChange={(e) => setRuling(prev => ({ ...prev, award: e.target.value }))}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="ruling-reasons">Reasons</Label>
+                <Textarea
+                  id="ruling-reasons"
+                  rows={4}
+                  value={ruling.ruling}
+                  onChange={(e) => setRuling(prev => ({ ...prev, ruling: e.target.value }))}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The ruling is final: it closes the dispute and pays the award from the respondent's wallet to the claimant's.
+              </p>
+              <Button onClick={submitRuling} disabled={busy === 'rule'}>
+                <Gavel className="h-4 w-4 mr-1" />
+                {busy === 'rule' ? 'Recording...' : 'Issue Ruling'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderEvidenceItem = (item: DisputeEvidence) => (
+    <div key={item.id} className="border rounded p-2 text-xs space-y-1">
+      <div className="flex justify-between items-start gap-2">
+        <div className="flex items-center min-w-0">
+          <FileText className="h-4 w-4 mr-1 flex-shrink-0 text-eco-purple" />
+          {item.download_url ? (
+            <a href={item.download_url} target="_blank" rel="noreferrer" className="font-medium text-eco-purple hover:underline truncate">
+              {item.file_name}
+            </a>
+          ) : (
+            <span className="font-medium truncate">{item.file_name}</span>
+          )}
+          {item.download_url && <Download className="h-3 w-3 ml-1 flex-shrink-0" />}
+        </div>
+        <Badge variant="outline" className="capitalize">{item.party}</Badge>
+      </div>
+      {item.description && <div>{item.description}</div>}
+      <div className="text-muted-foreground">
+        {formatSize(item.size_bytes)} · SHA-256 <span className="font-mono">{shortenHash(item.file_hash)}</span>
+        {' · '}
+        {describeUser(item.submitted_by)}, {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+      </div>
+      <div>Anchored: {renderHash(item.blockchain_tx_hash)}</div>
+    </div>
+  );
+
+  const renderEvidence = () => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Evidence ({evidence.length})</CardTitle>
+        <CardDescription>Each file's SHA-256 hash is anchored on the ledger when it is uploaded</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {evidence.length === 0
+          ? <p className="text-sm text-muted-foreground">No evidence has been uploaded.</p>
+          : evidence.map(renderEvidenceItem)}
+
+        {isActive && party && (
+          <div className="border-t pt-3 space-y-2">
+            <Label htmlFor="evidence-file">Upload evidence</Label>
+            <Input
+              id="evidence-file"
+              type="file"
+              onChange={(e) => setEvidenceFile(e.target.files?.[0] ?? null)}
+            />
+            <Input
+              placeholder="What it shows (optional)"
+              value={evidenceDescription}
+              onChange={(e) => setEvidenceDescription(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Up to 5 MB. Only the parties, the arbiter and managers can download it.</p>
+            <Button size="sm" onClick={submitEvidence} disabled={!evidenceFile || busy === 'evidence'}>
+              {busy === 'evidence' ? 'Uploading...' : 'Upload'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderProposal = (item: DisputeProposal) => {
+    const acceptedColumn = party === 'claimant' ? 'claimant_accepted_at' : 'respondent_accepted_at';
+    const canAnswer = isSide && isActive && item.status === 'open' && !item[acceptedColumn];
+
+    return (
+      <div key={item.id} className="border rounded p-2 text-xs space-y-1">
+        <div className="flex justify-between items-start gap-2">
+          <span className="font-semibold text-sm">{formatAmount(item.amount, dispute.currency)}</span>
+          <Badge className={`${PROPOSAL_STYLES[item.status] ?? 'bg-gray-400'} capitalize`}>{item.status}</Badge>
+        </div>
+        <p className="whitespace-pre-wrap">{item.terms}</p>
+        <div className="text-muted-foreground">
+          Proposed by {describeUser(item.proposed_by)}, {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+          {' · '}
+          Claimant {item.claimant_accepted_at ? 'accepted' : 'hasn\'t accepted'}
+          {' · '}
+          Respondent {item.respondent_accepted_at ? 'accepted' : 'hasn\'t accepted'}
+        </div>
+        {canAnswer && (
+          <div className="flex gap-2 pt-1">
+            <Button
+              size="sm"
+              onClick={() => run(`accept-${item.id}`, () => acceptSettlement(item.id), 'Proposal accepted', 'The proposal could not be accepted')}
+              disabled={busy === `accept-${item.id}`}
+            >
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => run(`decline-${item.id}`, () => declineSettlement(item.id), 'Proposal declined', 'The proposal could not be declined')}
+              disabled={busy === `decline-${item.id}`}
+            >
+              Decline
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderProposals = () => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Settlement Proposals ({proposals.length})</CardTitle>
+        <CardDescription>The dispute is settled on the first proposal both sides accept; proposing one accepts it for your side</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposals.length === 0
+          ? <p className="text-sm text-muted-foreground">Nobody has proposed a settlement.</p>
+          : proposals.map(renderProposal)}
+
+        {isActive && party && (
+          <div className="border-t pt-3 space-y-2">
+            <Label htmlFor="proposal-amount">Propose a settlement</Label>
+            <Input
+              id="proposal-amount"
+              type="number"
+              min="0"
+              max={String(dispute.amount_claimed)}
+              placeholder={`Amount the respondent pays (${dispute.currency})`}
+              value={proposal.amount}
+              onChange={(e) => setProposal(prev => ({ ...prev, amount: e.target.value }))}
+            />
+            <Textarea
+              rows={2}
+              placeholder="Terms"
+              value={proposal.terms}
+              onChange={(e) => setProposal(prev => ({ ...prev, terms: e.target.value }))}
+            />
+            <Button size="sm" variant="outline" onClick={submitProposal} disabled={busy === 'propose'}>
+              <Handshake className="h-4 w-4 mr-1" />
+              {busy === 'propose' ? 'Proposing...' : 'Propose'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Link to="/disputes" className="text-sm text-eco-purple hover:underline flex items-center">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All disputes
+        </Link>
+
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center gap-2">
+              <Scale className="h-6 w-6 text-eco-purple" />
+              Dispute
+              <DisputeStatusBadge status={dispute.status} />
+            </h1>
+            <p className="text-muted-foreground">
+              {party ? PARTY_LABELS[party] : 'You are viewing this dispute as a manager'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadDispute} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {renderDeadline()}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {renderActions()}
+            {renderOutcome()}
+            {renderSummary()}
+            {renderEvidence()}
+          </div>
+          <div className="space-y-6">
+            {renderProposals()}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default DisputeDetails;
@@ -0,0 +1,292 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { RefreshCw, Scale } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DisputeStatusBadge from '@/components/blockchain/DisputeStatusBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ACTIVE_DISPUTE_STATUSES,
+  Arbiter,
+  Dispute,
+  assignDisputeArbiter,
+  getArbiters,
+  getDisputes,
+  isResponseOverdue
+} from '@/services/blockchain/disputes';
+
+const formatAmount = (amount: number | null, currency: string) => `${Number(amount ?? 0).toFixed(2)} ${currency}`;
+
+// What the dispute is waiting on
+const describeStage = (dispute: Dispute) => {
+  switch (dispute.status) {
+    case 'open':
+      return isResponseOverdue(dispute)
+        ? 'Response overdue'
+        : `Response due ${formatDistanceToNow(new Date(dispute.response_due_at), { addSuffix: true })}`;
+    case 'responded':
+      return 'Answered; the parties can settle or go to arbitration';
+    case 'arbitration':
+      return dispute.arbiter_id ? 'Awaiting the arbiter\'s ruling' : 'Awaiting an arbiter';
+    case 'settled':
+      return `Settled for ${formatAmount(dispute.award, dispute.currency)}`;
+    case 'ruled':
+      return `Ruled: ${formatAmount(dispute.award, dispute.currency)} awarded`;
+  }
+};
+
+const Disputes = () => {
+  const { user, userRole } = useAuth();
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [arbiters, setArbiters] = useState<Arbiter[]>([]);
+  const [chosenArbiters, setChosenArbiters] = useState<Record<string, string>>({});
+  const [assigning, setAssigning] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isManager = userRole === 'manager';
+  const isArbiter = userRole === 'arbiter';
+
+  const loadDisputes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Row level security limits each user to the disputes they're part of; managers see them all
+      const [nextDisputes, nextArbiters] = await Promise.all([
+        getDisputes(),
+        isManager ? getArbiters() : Promise.resolve([])
+      ]);
+      setDisputes(nextDisputes);
+      setArbiters(nextArbiters);
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+      toast.error('Failed to load disputes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isManager]);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const assignArbiter = async (dispute: Dispute) => {
+    const arbiterId = chosenArbiters[dispute.id];
+    if (!arbiterId) {
+      toast.error('Choose an arbiter first');
+      return;
+    }
+
+    setAssigning(dispute.id);
+    try {
+      await assignDisputeArbiter(dispute.id, arbiterId);
+      toast.success('Arbiter assigned');
+      await loadDisputes();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'The arbiter could not be assigned');
+    } finally {
+      setAssigning(null);
+    }
+  };
+
+  const describeParty = (userId: string) => (userId === user?.id ? 'You' : userId.substring(0, 8));
+
+  const renderTable = (rows: Dispute[], empty: string) => (
+    rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground py-4">{isLoading ? 'Loading...' : empty}</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Dispute</TableHead>
+            <TableHead>Parties</TableHead>
+            <TableHead className="text-right">Claimed</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(dispute => (
+            <TableRow key={dispute.id}>
+              <TableCell>
+                <Link to={`/disputes/${dispute.id}`} className="font-medium text-eco-purple hover:underline line-clamp-2">
+                  {dispute.reason}
+                </Link>
+                <div className="text-xs text-muted-foreground mt-1">
+                  Shipment <span className="font-mono">{dispute.shipment_id.substring(0, 8)}</span>
+                  {' · '}
+                  raised {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+                </div>
+              </TableCell>
+              <TableCell className="text-xs whitespace-nowrap">
+                <div><span className="text-muted-foreground">Claimant</span> <span className="font-mono">{describeParty(dispute.claimant_id)}</span></div>
+                <div><span className="text-muted-foreground">Respondent</span> <span className="font-mono">{describeParty(dispute.respondent_id)}</span></div>
+              </TableCell>
+              <TableCell className="text-right font-medium whitespace-nowrap">
+                {formatAmount(dispute.amount_claimed, dispute.currency)}
+              </TableCell>
+              <TableCell>
+                <DisputeStatusBadge status={dispute.status} />
+                <div className={`text-xs mt-1 ${isResponseOverdue(dispute) ? 'text-red-600' : 'text-muted-foreground'}`}>
+                  {describeStage(dispute)}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )
+  );
+
+  // Disputes in arbitration with nobody to decide them yet
+  const renderAssignments = () => {
+    const unassigned = disputes.filter(dispute => dispute.status === 'arbitration' && !dispute.arbiter_id);
+    if (unassigned.length === 0) return null;
+
+    return (
+      <Card className="border-orange-300">
+        <CardHeader className="pb-2">
+          <CardTitle>Awaiting an Arbiter ({unassigned.length})</CardTitle>
+          <CardDescription>Assign each one to an arbiter who isn't a party to it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {arbiters.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Nobody has the arbiter role yet. Give it to someone in <Link to="/manager/users" className="text-eco-purple hover:underline">User Management</Link>.
+            </p>
+          )}
+          {unassigned.map(dispute => {
+            const eligible = arbiters.filter(arbiter => arbiter.id !== dispute.claimant_id && arbiter.id !== dispute.respondent_id);
+            return (
+              <div key={dispute.id} className="flex flex-col md:flex-row md:items-center gap-2 border rounded p-3">
+                <div className="flex-1 min-w-0">
+                  <Link to={`/disputes/${dispute.id}`} className="font-medium text-eco-purple hover:underline line-clamp-1">
+                    {dispute.reason}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    {formatAmount(dispute.amount_claimed, dispute.currency)} claimed
+                    {' · '}
+                    {dispute.escalation_reason === 'response_overdue' ? 'respondent missed the deadline' : 'sent to arbitration by a party'}
+                  </div>
+                </div>
+                <Select
+                  value={chosenArbiters[dispute.id] ?? ''}
+                  onValueChange={(value) => setChosenArbiters(prev => ({ ...prev, [dispute.id]: value }))}
+                  disabled={eligible.length === 0}
+                >
+                  <SelectTrigger className="md:w-56">
+                    <SelectValue placeholder="Choose an arbiter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eligible.map(arbiter => (
+                      <SelectItem key={arbiter.id} value={arbiter.id}>{arbiter.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" onClick={() => assignArbiter(dispute)} disabled={assigning === dispute.id || !chosenArbiters[dispute.id]}>
+                  {assigning === dispute.id ? 'Assigning...' : 'Assign'}
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const active = disputes.filter(dispute => ACTIVE_DISPUTE_STATUSES.includes(dispute.status));
+  const closed = disputes.filter(dispute => !ACTIVE_DISPUTE_STATUSES.includes(dispute.status));
+
+  const renderSections = () => {
+    if (isArbiter) {
+      return (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Awaiting Your Ruling ({active.length})</CardTitle>
+              <CardDescription>Disputes a manager has assigned to you. Review the evidence, then rule on each one.</CardDescription>
+            </CardHeader>
+            <CardContent>{renderTable(active, 'No disputes are waiting on you.')}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Decided ({closed.length})</CardTitle>
+            </CardHeader>
+            <CardContent>{renderTable(closed, 'You haven\'t decided any disputes yet.')}</CardContent>
+          </Card>
+        </>
+      );
+    }
+
+    if (isManager) {
+      return (
+        <>
+          {renderAssignments()}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Open Disputes ({active.length})</CardTitle>
+              <CardDescription>Across every shipment</CardDescription>
+            </CardHeader>
+            <CardContent>{renderTable(active, 'No disputes are open.')}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Resolved ({closed.length})</CardTitle>
+            </CardHeader>
+            <CardContent>{renderTable(closed, 'No disputes have been resolved yet.')}</CardContent>
+          </Card>
+        </>
+      );
+    }
+
+    const raised = disputes.filter(dispute => dispute.claimant_id === user?.id);
+    const against = disputes.filter(dispute => dispute.respondent_id === user?.id);
+
+    return (
+      <>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Against You ({against.length})</CardTitle>
+            <CardDescription>Answer each one before its deadline, or it goes to an arbiter without your side of it</CardDescription>
+          </CardHeader>
+          <CardContent>{renderTable(against, 'Nobody has raised a dispute against you.')}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Raised by You ({raised.length})</CardTitle>
+            <CardDescription>Raise a dispute from the shipment's page</CardDescription>
+          </CardHeader>
+          <CardContent>{renderTable(raised, 'You haven\'t raised any disputes.')}</CardContent>
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center">
+              <Scale className="mr-2 h-6 w-6 text-eco-purple" />
+              Disputes
+            </h1>
+            <p className="text-muted-foreground">
+              Claims between a shipment's parties. Evidence is anchored on the ledger, and a settlement or ruling pays out from wallet to wallet.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadDisputes} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {renderSections()}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Disputes;
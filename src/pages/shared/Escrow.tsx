@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Landmark, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  EscrowBalance,
+  EscrowLedgerEntry,
+  getEscrowLedgerEntries,
+  summarizeEscrowBalances
+} from '@/services/blockchain/escrow';
+import { SlaPenalty, getSlaPenalties } from '@/services/blockchain/sla';
+import { TransactionLink } from '@/components/explorer/ExplorerLinks';
+import { shortenHash } from '@/components/explorer/explorerUtils';
+
+const KIND_STYLES: Record<EscrowLedgerEntry['kind'], string> = {
+  deposit: 'bg-blue-500',
+  release: 'bg-green-500',
+  refund: 'bg-orange-500'
+};
+
+const KIND_LABELS: Record<EscrowLedgerEntry['kind'], string> = {
+  deposit: 'Deposit',
+  release: 'Release',
+  refund: 'Refund'
+};
+
+const REFUND_REASONS: Record<string, string> = {
+  late: 'Late delivery',
+  damaged: 'Damaged delivery',
+  late_and_damaged: 'Late and damaged delivery',
+  terminated: 'Escrow terminated'
+};
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+// Held across every escrow, per currency, for the manager's overview
+const totalHeld = (entries: EscrowLedgerEntry[]) => {
+  const held = new Map<string, number>();
+  for (const entry of entries) {
+    const change = entry.kind === 'deposit' ? entry.amount : -entry.amount;
+    held.set(entry.currency, (held.get(entry.currency) ?? 0) + change);
+  }
+  return [...held.entries()].map(([currency, amount]) => ({ currency, amount: Math.round(amount * 100) / 100 }));
+};
+
+const describeEntry = (entry: EscrowLedgerEntry) => {
+  if (entry.kind === 'refund') return entry.reason ? REFUND_REASONS[entry.reason] ?? entry.reason : 'Refunded to the customer';
+  if (entry.kind === 'release') {
+    return entry.lateDays || entry.damaged
+      ? `Paid to the carrier after ${[entry.lateDays ? `${entry.lateDays} day(s) late` : '', entry.damaged ? 'damage' : ''].filter(Boolean).join(' and ')}`
+      : 'Paid to the carrier';
+  }
+  return 'Locked by the customer';
+};
+
+const Escrow = () => {
+  const { user, userRole } = useAuth();
+  const [entries, setEntries] = useState<EscrowLedgerEntry[]>([]);
+  const [penalties, setPenalties] = useState<SlaPenalty[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isManager = userRole === 'manager';
+
+  const loadEntries = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      // Managers see every escrow; customers and drivers the ones they pay into or are paid from
+      const [nextEntries, nextPenalties] = await Promise.all([
+        getEscrowLedgerEntries(isManager ? undefined : user.id),
+        // Late-delivery penalties are charged to drivers and carriers
+        getSlaPenalties(isManager ? {} : { responsibleId: user.id })
+      ]);
+      setEntries(nextEntries);
+      setPenalties(nextPenalties);
+    } catch (error) {
+      console.error('Error loading escrow movements:', error);
+      toast.error('Failed to load escrow movements');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isManager]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const balances: EscrowBalance[] = user ? summarizeEscrowBalances(entries, user.id) : [];
+
+  const renderBalance = (balance: EscrowBalance) => (
+    <Card key={balance.currency}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">{balance.currency}</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-4 text-sm">
+        {userRole !== 'driver' && (
+          <>
+            <div>
+              <div className="text-muted-foreground">In escrow</div>
+              <div className="text-xl font-semibold">{formatAmount(balance.lockedAsPayer, balance.currency)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Paid to carriers</div>
+              <div className="font-medium">{formatAmount(balance.paid, balance.currency)}</div>
+              <div className="text-muted-foreground mt-1">Refunded</div>
+              <div className="font-medium">{formatAmount(balance.refunded, balance.currency)}</div>
+            </div>
+          </>
+        )}
+        {userRole !== 'customer' && (
+          <>
+            <div>
+              <div className="text-muted-foreground">Held for you</div>
+              <div className="text-xl font-semibold">{formatAmount(balance.lockedAsPayee, balance.currency)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Received</div>
+              <div className="font-medium">{formatAmount(balance.received, balance.currency)}</div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-eco-dark flex items-center">
+              <Landmark className="mr-2 h-6 w-6 text-eco-purple" />
+              Escrow
+            </h1>
+            <p className="text-muted-foreground">
+              Shipment payments are held in escrow until delivery is proven. Balances are worked out from the ledger.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadEntries} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {isManager && entries.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Held Across All Shipments</CardTitle>
+              <CardDescription>Deposits not yet released or refunded</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-6">
+              {totalHeld(entries).map(({ currency, amount }) => (
+                <div key={currency} className="text-xl font-semibold">{formatAmount(amount, currency)}</div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {balances.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {balances.map(renderBalance)}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle>Movements ({entries.length})</CardTitle>
+            <CardDescription>Each one is a ledger transaction between a wallet and an escrow contract's account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">
+                {isLoading ? 'Loading...' : 'No escrow funds have moved yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Movement</TableHead>
+                    <TableHead>Shipment</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>When</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.transactionHash}>
+                      <TableCell>
+                        <Badge className={KIND_STYLES[entry.kind]}>{KIND_LABELS[entry.kind]}</Badge>
+                        <div className="text-xs text-muted-foreground mt-1">{describeEntry(entry)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Link to={`/shipment/${entry.shipmentId}`} className="font-mono text-xs text-eco-purple hover:underline">
+                          {entry.shipmentId.substring(0, 8)}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right font-medium whitespace-nowrap">
+                        {formatAmount(entry.amount, entry.currency)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {isManager
+                          ? <TransactionLink hash={entry.transactionHash} />
+                          : <span className="font-mono text-muted-foreground">{shortenHash(entry.transactionHash)}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {penalties.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle>Late-Delivery Penalties ({penalties.length})</CardTitle>
+              <CardDescription>Charged under shipments' SLAs for time late beyond the grace period and excused delays</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shipment</TableHead>
+                    {isManager && <TableHead>Charged to</TableHead>}
+                    <TableHead>Late</TableHead>
+                    <TableHead className="text-right">Penalty</TableHead>
+                    <TableHead>Transaction</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {penalties.map(penalty => (
+                    <TableRow key={penalty.id}>
+                      <TableCell>
+                        {penalty.shipment_id && (
+                          <Link to={`/shipment/${penalty.shipment_id}`} className="font-mono text-xs text-eco-purple hover:underline">
+                            {penalty.shipment_id.substring(0, 8)}
+                          </Link>
+                        )}
+                      </TableCell>
+                      {isManager && <TableCell className="font-mono text-xs">{penalty.responsible_id.substring(0, 8)}</TableCell>}
+                      <TableCell className="text-xs">
+                        {penalty.chargeable_minutes} min charged
+                        {penalty.excused_minutes > 0 && <span className="text-muted-foreground"> · {penalty.excused_minutes} min excused</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-medium whitespace-nowrap">
+                        {formatAmount(Number(penalty.amount), penalty.currency)}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {!penalty.blockchain_tx_hash
+                          ? <span className="text-muted-foreground">Pending</span>
+                          : isManager
+                            ? <TransactionLink hash={penalty.blockchain_tx_hash} />
+                            : <span className="font-mono text-muted-foreground">{shortenHash(penalty.blockchain_tx_hash)}</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Escrow;
@@ -21,6 +21,15 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import SmartContractOperations from '@/components/blockchain/SmartContractOperations';
+import ProductHistoryAudit from '@/components/blockchain/ProductHistoryAudit';
+import SensorProofBadge from '@/components/blockchain/SensorProofBadge';
+import AuditBundleExport from '@/components/blockchain/AuditBundleExport';
+import ShipmentContracts from '@/components/blockchain/ShipmentContracts';
+import ShipmentEscrow from '@/components/blockchain/ShipmentEscrow';
+import ShipmentSla from '@/components/blockchain/ShipmentSla';
+import ShipmentColdChain from '@/components/blockchain/ShipmentColdChain';
+import ShipmentDisputes from '@/components/blockchain/ShipmentDisputes';
 
 // Define colors based on your provided color palette
 const colors = {
@@ -55,6 +64,7 @@ interface ShipmentData {
 
 interface SensorData {
   id: string;
+  shipment_id: string;
   timestamp: string;
   temperature: number | null;
   humidity: number | null;
@@ -62,6 +72,9 @@ interface SensorData {
   latitude: number | null;
   longitude: number | null;
   battery_level: number | null;
+  batch_id: string | null;
+  merkle_proof: unknown;
+  blockchain_tx_hash: string | null;
 }
 
 interface ReviewData {
@@ -248,6 +261,7 @@ const ShipmentDetails = () => {
             </div>
           </div>
           <div className="flex gap-2">
+            <AuditBundleExport shipmentId={shipment.id} label={shipment.tracking_id} />
             {userRole === 'manager' && (
               <Button 
                 variant="outline"
@@ -522,6 +536,7 @@ const ShipmentDetails = () => {
                               <th className="text-left py-2 px-3 font-medium">Humidity (%)</th>
                               <th className="text-left py-2 px-3 font-medium">Location</th>
                               <th className="text-left py-2 px-3 font-medium">Shock</th>
+                              <th className="text-left py-2 px-3 font-medium">Proof</th>
                             </tr>
                           </thead>
                           <tbody>
@@ -550,6 +565,9 @@ const ShipmentDetails = () => {
                                     : <span className="text-green-600">No</span>
                                   }
                                 </td>
+                                <td className="py-2 px-3">
+                                  <SensorProofBadge reading={reading} />
+                                </td>
                               </tr>
                             ))}
                           </tbody>
@@ -560,6 +578,51 @@ const ShipmentDetails = () => {
                 </CardContent>
               </Card>
             )}
+
+            {/* Event history checked against the ledger */}
+            <ProductHistoryAudit shipmentId={shipment.id} />
+
+            {/* Contracts on the shipment and their transitions */}
+            <ShipmentContracts
+              shipmentId={shipment.id}
+              customerId={shipment.customer_id}
+              driverId={shipment.assigned_driver_id}
+              isManager={userRole === 'manager'}
+            />
+
+            {/* Payment held until delivery is proven */}
+            <ShipmentEscrow
+              shipmentId={shipment.id}
+              shipmentStatus={shipment.status}
+              driverId={shipment.assigned_driver_id}
+              userId={user?.id}
+              isManager={userRole === 'manager'}
+            />
+
+            {/* Late-delivery penalties */}
+            <ShipmentSla
+              shipmentId={shipment.id}
+              shipmentStatus={shipment.status}
+              driverId={shipment.assigned_driver_id}
+              userId={user?.id}
+              isManager={userRole === 'manager'}
+            />
+
+            {/* Sensor readings checked against the product's limits */}
+            <ShipmentColdChain
+              shipmentId={shipment.id}
+              driverId={shipment.assigned_driver_id}
+              isManager={userRole === 'manager'}
+            />
+
+            {/* Claims between the shipment's parties */}
+            <ShipmentDisputes
+              shipmentId={shipment.id}
+              customerId={shipment.customer_id}
+              driverId={shipment.assigned_driver_id}
+              userId={user?.id}
+              isManager={userRole === 'manager'}
+            />
           </div>
 
           {/* Right column - sidebar */}
@@ -578,7 +641,9 @@ const ShipmentDetails = () => {
                     variant="outline" 
                     size="sm" 
                     className="w-full text-xs"
-                    onClick={() => window.open(`https://etherscan.io/tx/${shipment.blockchain_tx_hash}`, '_blank')}
+                    onClick={() => userRole === 'manager'
+                      ? navigate(`/manager/explorer/tx/${shipment.blockchain_tx_hash}`)
+                      : window.open(`https://etherscan.io/tx/${shipment.blockchain_tx_hash}`, '_blank')}
                   >
                     View on Blockchain Explorer
                   </Button>
@@ -586,6 +651,19 @@ const ShipmentDetails = () => {
               </Card>
             )}
 
+            {/* Smart contract actions */}
+            {userRole === 'manager' && (
+              <SmartContractOperations
+                shipmentId={shipment.id}
+                customerId={shipment.customer_id}
+                onContractExecuted={(_contractType, txHash) => {
+                  if (txHash) {
+                    setShipment(prev => prev ? { ...prev, blockchain_tx_hash: txHash } : prev);
+                  }
+                }}
+              />
+            )}
+
             {/* Contact Information */}
             <Card>
               <CardHeader className="pb-2">
@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { LedgerJob } from './ledgerOutbox';
+
+// Payment releases, ownership transfers and dispute awards can need several
+// signatures before they run. An approval policy names the parties an action
+// needs; the ledger outbox (or, for an award, the disputes function) holds a
+// covered action as a pending approval until enough of them have signed, then
+// queues it (see supabase/functions/approvals).
+
+export type ApprovalPolicy = Database['public']['Tables']['approval_policies']['Row'];
+
+export type ApprovalParty = Database['public']['Enums']['app_role'];
+
+export type PendingApprovalStatus = 'pending' | 'executed' | 'rejected';
+
+export interface ApprovalSignature {
+  approval_id: string;
+  signer_id: string;
+  party: ApprovalParty;
+  signature: string;
+  signed_at: string;
+}
+
+export interface PendingApproval {
+  id: string;
+  policy_id: string;
+  contract_type: string;
+  shipment_id: string;
+  request: Record<string, unknown>;
+  required_roles: ApprovalParty[];
+  threshold: number;
+  status: PendingApprovalStatus;
+  requested_by: string;
+  job_id: string | null;
+  rejected_by: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  signatures: ApprovalSignature[];
+  // The ledger job it was queued as, returned when a signature completes it
+  job?: LedgerJob;
+}
+
+export interface ApprovalInbox {
+  // Waiting on the current user's signature
+  waiting: PendingApproval[];
+  // Requested by the current user and still waiting on someone else
+  requested: PendingApproval[];
+}
+
+const invokeApprovals = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('approvals', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Approvals request failed');
+  }
+  return data;
+};
+
+export const getApprovalInbox = async (): Promise<ApprovalInbox> => {
+  const data = await invokeApprovals({ action: 'list' });
+  return { waiting: data.waiting as PendingApproval[], requested: data.requested as PendingApproval[] };
+};
+
+// Sign an action; it runs as soon as it has enough signatures
+export const approvePendingAction = async (approvalId: string): Promise<PendingApproval> => {
+  const data = await invokeApprovals({ action: 'approve', approvalId });
+  return data.approval as PendingApproval;
+};
+
+export const rejectPendingAction = async (approvalId: string, reason?: string): Promise<PendingApproval> => {
+  const data = await invokeApprovals({ action: 'reject', approvalId, reason });
+  return data.approval as PendingApproval;
+};
+
+// Signatures an action still needs
+export const getSignaturesNeeded = (approval: PendingApproval): number =>
+  Math.max(approval.threshold - approval.signatures.length, 0);
+
+// The data the action's contract operation reads, such as its paymentData
+export const getApprovalRequestData = (approval: PendingApproval): Record<string, unknown> => {
+  const data = Object.values(approval.request).find(value => typeof value === 'object' && value !== null && !Array.isArray(value));
+  return (data as Record<string, unknown>) ?? {};
+};
+
+export const getApprovalPolicies = async (): Promise<ApprovalPolicy[]> => {
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('*')
+    .order('contract_type');
+
+  if (error) throw error;
+  return data;
+};
+
+// Managers can switch a policy off; actions already waiting keep the policy they were submitted under
+export const setApprovalPolicyActive = async (policyId: string, active: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('approval_policies')
+    .update({ active })
+    .eq('id', policyId);
+
+  if (error) throw error;
+};
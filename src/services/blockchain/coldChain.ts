@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { SmartContractRow } from './contractLifecycle';
+
+// A temperature-sensitive shipment can be put under a cold-chain contract with
+// the limits for its product type. Every sensor reading is checked against
+// them; once the readings have been out of range for longer than allowed, the
+// contract is breached and a claim opened against the responsible driver or
+// carrier, with the readings as evidence (see
+// supabase/functions/supply-chain-management/coldChain.ts).
+
+export type ColdChainClaim = Database['public']['Tables']['cold_chain_claims']['Row'];
+
+type SensorReadingRow = Database['public']['Tables']['sensor_data']['Row'];
+
+// One reading out of range, as it stands in a claim
+export interface ColdChainEvidence {
+  readingId: string;
+  timestamp: string;
+  temperature: number | null;
+  humidity: number | null;
+  // The reading's leaf hash in its sensor batch's Merkle tree
+  leafHash: string;
+}
+
+export interface ColdChainProfile {
+  label: string;
+  minTemperature: number;
+  maxTemperature: number;
+  minHumidity?: number;
+  maxHumidity?: number;
+  maxExcursionMinutes: number;
+}
+
+// Mirror of COLD_CHAIN_PROFILES in supabase/functions/supply-chain-management/contractDefinitions.ts
+export const COLD_CHAIN_PROFILES: Record<string, ColdChainProfile> = {
+  frozen: { label: 'Frozen food', minTemperature: -25, maxTemperature: -18, maxExcursionMinutes: 30 },
+  chilled: { label: 'Chilled food', minTemperature: 0, maxTemperature: 5, maxExcursionMinutes: 60 },
+  fresh_produce: {
+    label: 'Fresh produce',
+    minTemperature: 1,
+    maxTemperature: 10,
+    minHumidity: 80,
+    maxHumidity: 95,
+    maxExcursionMinutes: 120
+  },
+  pharmaceutical: { label: 'Pharmaceuticals', minTemperature: 2, maxTemperature: 8, maxHumidity: 60, maxExcursionMinutes: 30 }
+};
+
+// Limits left out are taken from the product type's profile
+export interface ColdChainTerms extends Partial<Omit<ColdChainProfile, 'label'>> {
+  productType: string;
+  // Defaults to the shipment's driver
+  responsibleId?: string;
+}
+
+const invokeSupplyChain = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('supply-chain-management', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Cold-chain request failed');
+  }
+  return data;
+};
+
+// The shipment's most recent cold-chain contract, if it has one
+export const getShipmentColdChain = async (shipmentId: string): Promise<SmartContractRow | null> => {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'cold_chain')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Claims opened, newest first, for one shipment or against one responsible party
+export const getColdChainClaims = async (filter: { shipmentId?: string; respondentId?: string } = {}): Promise<ColdChainClaim[]> => {
+  let query = supabase.from('cold_chain_claims').select('*');
+
+  if (filter.shipmentId) query = query.eq('shipment_id', filter.shipmentId);
+  if (filter.respondentId) query = query.eq('respondent_id', filter.respondentId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const getClaimEvidence = (claim: ColdChainClaim): ColdChainEvidence[] =>
+  Array.isArray(claim.evidence) ? claim.evidence as unknown as ColdChainEvidence[] : [];
+
+// The stored readings a claim's evidence names, so each can be proven against its anchored batch
+export const getEvidenceReadings = async (claim: ColdChainClaim): Promise<SensorReadingRow[]> => {
+  const readingIds = getClaimEvidence(claim).map(evidence => evidence.readingId);
+  if (readingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('sensor_data')
+    .select('*')
+    .in('id', readingIds)
+    .order('timestamp', { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+// Put the shipment under a cold-chain contract; it's activated straight away
+export const openShipmentColdChain = async (shipmentId: string, terms: ColdChainTerms): Promise<SmartContractRow> => {
+  const data = await invokeSupplyChain({ action: 'open_cold_chain', shipmentId, eventData: terms });
+  return data.contract as SmartContractRow;
+};
@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+// Smart contracts move through a state machine declared by their contract type:
+// draft, active, then fulfilled, breached, terminated or expired. Each
+// transition has guards checked against the contract's terms and its
+// shipment, and is recorded on the ledger (see
+// supabase/functions/supply-chain-management/contractDefinitions.ts).
+
+export type SmartContractRow = Database['public']['Tables']['smart_contracts']['Row'];
+
+export type ContractState = 'draft' | 'active' | 'fulfilled' | 'breached' | 'terminated' | 'expired';
+
+export interface GuardOutcome {
+  guard: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ContractTransitionRecord {
+  id: string;
+  contract_id: string;
+  transition: string;
+  from_status: ContractState;
+  to_status: ContractState;
+  guards: GuardOutcome[];
+  reason: string | null;
+  triggered_by: string | null;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+export interface TransitionOption {
+  name: string;
+  label: string;
+  to: ContractState;
+  // Also applied by itself whenever the contract is evaluated
+  automatic: boolean;
+  requiresReason: boolean;
+  guards: GuardOutcome[];
+  // Every guard passes now
+  allowed: boolean;
+}
+
+export interface ContractDetails {
+  contract: SmartContractRow;
+  contractAddress: string;
+  options: TransitionOption[];
+  // Whether the current user may run the options
+  canTransition: boolean;
+  history: ContractTransitionRecord[];
+}
+
+export interface DeliveryContractTerms {
+  deliverBy: string;
+  // A draft not activated by then expires
+  expiresAt?: string;
+}
+
+const invokeSupplyChain = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('supply-chain-management', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Contract request failed');
+  }
+  return data;
+};
+
+export const getShipmentContracts = async (shipmentId: string): Promise<SmartContractRow[]> => {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const getContractDetails = async (contractId: string): Promise<ContractDetails> => {
+  const data = await invokeSupplyChain({ action: 'get_contract', contractId });
+  return {
+    contract: data.contract,
+    contractAddress: data.contractAddress,
+    options: data.options,
+    canTransition: data.canTransition,
+    history: data.history
+  };
+};
+
+// Deploy a delivery agreement for a shipment; it starts as a draft
+export const createDeliveryContract = async (
+  shipmentId: string,
+  parties: string[],
+  terms: DeliveryContractTerms
+): Promise<SmartContractRow> => {
+  const data = await invokeSupplyChain({
+    action: 'create_smart_contract',
+    shipmentId,
+    eventData: { contractType: 'delivery', parties, terms }
+  });
+  return data.contract as SmartContractRow;
+};
+
+export const transitionContract = async (
+  contractId: string,
+  transition: string,
+  reason?: string
+): Promise<ContractTransitionRecord> => {
+  const data = await invokeSupplyChain({ action: 'transition_contract', contractId, eventData: { transition, reason } });
+  return data.transition as ContractTransitionRecord;
+};
+
+// Apply the automatic transitions that are due on a shipment's contracts; returns how many ran
+export const evaluateShipmentContracts = async (shipmentId: string): Promise<number> => {
+  const data = await invokeSupplyChain({ action: 'evaluate_contracts', shipmentId });
+  return (data.evaluated as { transitions: unknown[] }[])
+    .reduce((count, contract) => count + contract.transitions.length, 0);
+};
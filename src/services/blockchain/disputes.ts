@@ -0,0 +1,211 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { PendingApproval } from './approvals';
+
+// A shipment's customer, its driver or a manager can raise a dispute against
+// another of its parties. Both sides upload evidence, whose SHA-256 hash is
+// anchored on the ledger; the respondent answers by a deadline, and a dispute
+// left unanswered, or sent there by either side, goes to an arbiter a manager
+// assigns. It ends when both sides accept a proposed settlement or the arbiter
+// rules, and whatever either awards is paid from the respondent's wallet to
+// the claimant's, once any approval policy covering awards has its signatures
+// (see supabase/functions/disputes).
+
+type DisputeRow = Database['public']['Tables']['disputes']['Row'];
+
+export type DisputeStatus = 'open' | 'responded' | 'arbitration' | 'settled' | 'ruled';
+export type DisputeParty = 'claimant' | 'respondent' | 'arbiter';
+export type RulingOutcome = 'claimant' | 'respondent' | 'split';
+
+export type Dispute = Omit<DisputeRow, 'status'> & { status: DisputeStatus };
+export type DisputeProposal = Database['public']['Tables']['dispute_proposals']['Row'];
+export type DisputePayment = Database['public']['Tables']['dispute_payments']['Row'];
+
+export type DisputeEvidence = Database['public']['Tables']['dispute_evidence']['Row'] & {
+  // A short-lived link to the file
+  download_url?: string | null;
+};
+
+export interface DisputeDetails {
+  dispute: Dispute;
+  shipment: { id: string; tracking_id: string; title: string; status: string } | null;
+  evidence: DisputeEvidence[];
+  proposals: DisputeProposal[];
+  payment: DisputePayment | null;
+  // The approval the award waits on, when a policy covers it
+  awardApproval: PendingApproval | null;
+  // The current user's part in the dispute; null for a manager who isn't a party
+  party: DisputeParty | null;
+}
+
+export interface OpenDisputeRequest {
+  shipmentId: string;
+  // Defaults to the shipment's other party
+  respondentId?: string;
+  reason: string;
+  amountClaimed: number;
+  currency: string;
+  // Days the respondent has to answer; 7 unless given
+  responseDays?: number;
+}
+
+export interface RulingRequest {
+  outcome: RulingOutcome;
+  // Only needed for a split; a ruling for the claimant awards the amount claimed
+  award?: number;
+  ruling: string;
+}
+
+export interface Arbiter {
+  id: string;
+  fullName: string;
+}
+
+export const ACTIVE_DISPUTE_STATUSES: DisputeStatus[] = ['open', 'responded', 'arbitration'];
+
+// Mirror of MAX_EVIDENCE_BYTES in supabase/functions/disputes/disputes.ts
+export const MAX_EVIDENCE_BYTES = 5 * 1024 * 1024;
+
+const invokeDisputes = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('disputes', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Dispute request failed');
+  }
+  return data;
+};
+
+const encodeBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // In chunks, so a large file doesn't overflow the call stack
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Disputes the current user can see, newest first: their own, the ones they arbitrate, or all of them for a manager
+export const getDisputes = async (filter: { shipmentId?: string } = {}): Promise<Dispute[]> => {
+  let query = supabase.from('disputes').select('*');
+
+  if (filter.shipmentId) query = query.eq('shipment_id', filter.shipmentId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as Dispute[];
+};
+
+// A dispute with its evidence, proposals and payment; an unanswered one past its deadline goes to arbitration first
+export const getDisputeDetails = async (disputeId: string): Promise<DisputeDetails> => {
+  const data = await invokeDisputes({ action: 'get', disputeId });
+  return {
+    dispute: data.dispute,
+    shipment: data.shipment,
+    evidence: data.evidence,
+    proposals: data.proposals,
+    payment: data.payment,
+    awardApproval: data.awardApproval,
+    party: data.party
+  };
+};
+
+export const isResponseOverdue = (dispute: Dispute) =>
+  dispute.status === 'open' && Date.parse(dispute.response_due_at) < Date.now();
+
+// The user's part in a dispute, if they have one
+export const getDisputeParty = (dispute: Dispute, userId: string): DisputeParty | null => {
+  if (dispute.claimant_id === userId) return 'claimant';
+  if (dispute.respondent_id === userId) return 'respondent';
+  if (dispute.arbiter_id === userId) return 'arbiter';
+  return null;
+};
+
+// Users with the arbiter role, for a manager assigning one
+export const getArbiters = async (): Promise<Arbiter[]> => {
+  const { data: roles, error } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'arbiter');
+
+  if (error) throw error;
+  if (roles.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .in('id', roles.map(role => role.user_id));
+
+  if (profilesError) throw profilesError;
+  return roles.map(role => ({
+    id: role.user_id,
+    fullName: profiles.find(profile => profile.id === role.user_id)?.full_name || role.user_id.substring(0, 8)
+  }));
+};
+
+// Raise a dispute about a shipment as the current user
+export const openDispute = async (request: OpenDisputeRequest): Promise<Dispute> => {
+  const data = await invokeDisputes({ action: 'open', dispute: request });
+  return data.dispute as Dispute;
+};
+
+// Upload a file as evidence; its hash is anchored on the ledger
+export const addDisputeEvidence = async (disputeId: string, file: File, description?: string): Promise<DisputeEvidence> => {
+  if (file.size > MAX_EVIDENCE_BYTES) {
+    throw new Error(`Evidence files can be up to ${MAX_EVIDENCE_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const data = await invokeDisputes({
+    action: 'add_evidence',
+    disputeId,
+    evidence: {
+      fileName: file.name,
+      contentType: file.type || undefined,
+      content: await encodeBase64(file),
+      description
+    }
+  });
+  return data.evidence as DisputeEvidence;
+};
+
+// Answer a dispute as its respondent
+export const respondToDispute = async (disputeId: string, statement: string): Promise<Dispute> => {
+  const data = await invokeDisputes({ action: 'respond', disputeId, statement });
+  return data.dispute as Dispute;
+};
+
+// Send an answered dispute to arbitration
+export const escalateDispute = async (disputeId: string): Promise<Dispute> => {
+  const data = await invokeDisputes({ action: 'escalate', disputeId });
+  return data.dispute as Dispute;
+};
+
+export const assignDisputeArbiter = async (disputeId: string, arbiterId: string): Promise<Dispute> => {
+  const data = await invokeDisputes({ action: 'assign_arbiter', disputeId, arbiterId });
+  return data.dispute as Dispute;
+};
+
+// Propose settling for an amount the respondent pays; proposing it accepts it for your side
+export const proposeSettlement = async (disputeId: string, amount: number, terms: string): Promise<DisputeProposal> => {
+  const data = await invokeDisputes({ action: 'propose_settlement', disputeId, amount, terms });
+  return data.proposal as DisputeProposal;
+};
+
+// Accept a proposal for your side; once both sides have, the dispute is settled and the award paid
+export const acceptSettlement = async (proposalId: string): Promise<{ dispute: Dispute; proposal: DisputeProposal }> => {
+  const data = await invokeDisputes({ action: 'accept_settlement', proposalId });
+  return { dispute: data.dispute as Dispute, proposal: data.proposal as DisputeProposal };
+};
+
+export const declineSettlement = async (proposalId: string): Promise<DisputeProposal> => {
+  const data = await invokeDisputes({ action: 'decline_settlement', proposalId });
+  return data.proposal as DisputeProposal;
+};
+
+// The arbiter's final ruling; the award is paid straight away
+export const ruleOnDispute = async (disputeId: string, ruling: RulingRequest): Promise<Dispute> => {
+  const data = await invokeDisputes({ action: 'rule', disputeId, ruling });
+  return data.dispute as Dispute;
+};
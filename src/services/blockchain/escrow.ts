@@ -0,0 +1,226 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { SmartContractRow } from './contractLifecycle';
+
+// A shipment's payment can be held in an escrow contract: funding it moves the
+// amount from the customer's wallet into the contract's account, and once a
+// delivery and its proof of delivery are recorded the account pays the carrier,
+// less any refund for a late or damaged delivery (see
+// supabase/functions/supply-chain-management/escrow.ts). Every movement is a
+// ledger entry, so balances are worked out from the ledger.
+
+export type EscrowMovementKind = 'deposit' | 'release' | 'refund';
+
+export const ESCROW_OPERATIONS: Record<EscrowMovementKind, string> = {
+  deposit: 'escrow_deposit',
+  release: 'escrow_release',
+  refund: 'escrow_refund'
+};
+
+export const PROOF_OF_DELIVERY_DOCUMENT = 'proof_of_delivery';
+
+export interface EscrowTerms {
+  amount: number;
+  currency: string;
+  // Defaults to the shipment's estimated arrival
+  deliverBy?: string;
+  // Refunded for each day, or part of one, the delivery is late
+  lateRefundPercentPerDay?: number;
+  // Refunded when the delivery is recorded as damaged
+  damageRefundPercent?: number;
+  // Cap on the refunds together
+  maxRefundPercent?: number;
+}
+
+// A movement as recorded on the ledger
+export interface EscrowLedgerEntry {
+  transactionHash: string;
+  kind: EscrowMovementKind;
+  contractId: string;
+  shipmentId: string;
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  currency: string;
+  from: string;
+  to: string;
+  // The refund's reason: late, damaged, late_and_damaged or terminated
+  reason?: string;
+  lateDays?: number;
+  damaged?: boolean;
+  blockNumber: number | null;
+  createdAt: string;
+}
+
+// One user's position in one currency
+export interface EscrowBalance {
+  currency: string;
+  // As payer: paid in and not yet released or refunded
+  lockedAsPayer: number;
+  // As payer: released to carriers
+  paid: number;
+  // As payer: refunded
+  refunded: number;
+  // As carrier: held for you until delivery is proven
+  lockedAsPayee: number;
+  // As carrier: released to you
+  received: number;
+}
+
+export interface DeliveryDetails {
+  recipientName?: string;
+  condition: 'intact' | 'damaged';
+  damageNotes?: string;
+}
+
+const invokeSupplyChain = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('supply-chain-management', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Escrow request failed');
+  }
+  return data;
+};
+
+const KIND_BY_OPERATION = Object.fromEntries(
+  Object.entries(ESCROW_OPERATIONS).map(([kind, operation]) => [operation, kind as EscrowMovementKind])
+) as Record<string, EscrowMovementKind>;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const toLedgerEntry = (row: Database['public']['Tables']['ledger_transactions']['Row']): EscrowLedgerEntry => {
+  const payload = row.payload as Record<string, unknown>;
+  return {
+    transactionHash: row.tx_hash,
+    kind: KIND_BY_OPERATION[row.operation],
+    contractId: String(payload.contractId),
+    shipmentId: String(payload.shipmentId),
+    payerId: String(payload.payerId),
+    payeeId: String(payload.payeeId),
+    amount: Number(payload.amount),
+    currency: String(payload.currency),
+    from: row.from_address,
+    to: row.to_address,
+    reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+    lateDays: typeof payload.lateDays === 'number' ? payload.lateDays : undefined,
+    damaged: typeof payload.damaged === 'boolean' ? payload.damaged : undefined,
+    blockNumber: row.block_number,
+    createdAt: row.created_at
+  };
+};
+
+// Escrow movements on the ledger, newest first; pass a user to get only those they're a party to
+export const getEscrowLedgerEntries = async (userId?: string): Promise<EscrowLedgerEntry[]> => {
+  let query = supabase
+    .from('ledger_transactions')
+    .select('*')
+    .in('operation', Object.values(ESCROW_OPERATIONS));
+
+  if (userId) {
+    query = query.or(`payload->>payerId.eq.${userId},payload->>payeeId.eq.${userId}`);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(toLedgerEntry);
+};
+
+export const getShipmentEscrowEntries = async (shipmentId: string): Promise<EscrowLedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('ledger_transactions')
+    .select('*')
+    .in('operation', Object.values(ESCROW_OPERATIONS))
+    .eq('payload->>shipmentId', shipmentId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toLedgerEntry);
+};
+
+// The shipment's most recent escrow contract, if it has one
+export const getShipmentEscrow = async (shipmentId: string): Promise<SmartContractRow | null> => {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'escrow')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// A user's balances per currency, from ledger entries they're a party to
+export const summarizeEscrowBalances = (entries: EscrowLedgerEntry[], userId: string): EscrowBalance[] => {
+  const balances = new Map<string, EscrowBalance>();
+  const balanceFor = (currency: string) => {
+    if (!balances.has(currency)) {
+      balances.set(currency, { currency, lockedAsPayer: 0, paid: 0, refunded: 0, lockedAsPayee: 0, received: 0 });
+    }
+    return balances.get(currency)!;
+  };
+
+  for (const entry of entries) {
+    const balance = balanceFor(entry.currency);
+    const signed = entry.kind === 'deposit' ? entry.amount : -entry.amount;
+
+    if (entry.payerId === userId) {
+      balance.lockedAsPayer += signed;
+      if (entry.kind === 'release') balance.paid += entry.amount;
+      if (entry.kind === 'refund') balance.refunded += entry.amount;
+    }
+    if (entry.payeeId === userId) {
+      balance.lockedAsPayee += signed;
+      if (entry.kind === 'release') balance.received += entry.amount;
+    }
+  }
+
+  return [...balances.values()].map(balance => ({
+    currency: balance.currency,
+    lockedAsPayer: roundAmount(balance.lockedAsPayer),
+    paid: roundAmount(balance.paid),
+    refunded: roundAmount(balance.refunded),
+    lockedAsPayee: roundAmount(balance.lockedAsPayee),
+    received: roundAmount(balance.received)
+  }));
+};
+
+// Lock the shipment's payment in escrow between its customer and assigned driver
+export const openShipmentEscrow = async (shipmentId: string, terms: EscrowTerms): Promise<SmartContractRow> => {
+  const data = await invokeSupplyChain({ action: 'open_escrow', shipmentId, eventData: terms });
+  return data.contract as SmartContractRow;
+};
+
+// Record the shipment as delivered, signed as participantId (the current user)
+export const recordDelivery = async (shipmentId: string, participantId: string, details: DeliveryDetails) => {
+  const data = await invokeSupplyChain({
+    action: 'record_event',
+    shipmentId,
+    participantId,
+    eventData: {
+      type: 'delivered',
+      deliveredAt: new Date().toISOString(),
+      ...details
+    }
+  });
+  return data.event;
+};
+
+// Anchor a proof of delivery by its SHA-256 hash; the file itself isn't uploaded
+export const addProofOfDelivery = async (shipmentId: string, participantId: string, file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const documentHash = '0x' + Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+
+  const data = await invokeSupplyChain({
+    action: 'add_document',
+    shipmentId,
+    participantId,
+    documentHash,
+    eventData: { documentType: PROOF_OF_DELIVERY_DOCUMENT }
+  });
+  return data.document;
+};
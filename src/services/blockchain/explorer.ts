@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getLedgerProvider } from './providers';
+import { Block, BlockWithTransactions, Transaction } from './types';
+
+// How many transactions the address and shipment views load
+const ACTIVITY_LIMIT = 100;
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ExplorerSearchResult =
+  | { type: 'block'; blockNumber: number }
+  | { type: 'transaction'; hash: string }
+  | { type: 'address'; address: string }
+  | { type: 'shipment'; shipmentId: string };
+
+export interface AddressActivity {
+  // Wallet addresses are matched against from/to; user ids against the payload fields that name participants.
+  // A user's wallet is named after them.
+  kind: 'wallet' | 'participant';
+  address: string;
+  name: string | null;
+  role: string | null;
+  transactions: Transaction[];
+}
+
+export interface ShipmentActivity {
+  shipmentId: string;
+  title: string | null;
+  trackingId: string | null;
+  status: string | null;
+  // Chain order, oldest first
+  transactions: Transaction[];
+}
+
+export const getLatestBlocks = (limit: number = 20): Promise<Block[]> =>
+  getLedgerProvider().getLatestBlocks(limit);
+
+export const getBlock = (blockNumber: number): Promise<BlockWithTransactions | null> =>
+  getLedgerProvider().getBlock(blockNumber);
+
+export const getTransaction = (hash: string): Promise<Transaction | null> =>
+  getLedgerProvider().getTransaction(hash);
+
+// Decoded payload of a ledger transaction; raw calldata that isn't JSON comes back as a string
+export const decodeTransactionPayload = (tx: Transaction): unknown => {
+  try {
+    return JSON.parse(tx.data);
+  } catch {
+    return tx.data;
+  }
+};
+
+// Name and role of an app user
+const getUserDetails = async (userId: string): Promise<{ name: string | null; role: string | null }> => {
+  const [profile, role] = await Promise.all([
+    supabase.from('profiles').select('full_name').eq('id', userId).maybeSingle().then(({ data }) => data),
+    supabase.from('user_roles').select('role').eq('user_id', userId).maybeSingle().then(({ data }) => data)
+  ]);
+  return { name: profile?.full_name ?? null, role: role?.role ?? null };
+};
+
+// The user a wallet address belongs to, if it's one of the custodial user wallets
+const getWalletOwner = async (address: string) => {
+  const { data: wallet } = await supabase
+    .from('user_wallets')
+    .select('user_id')
+    .eq('address', address.toLowerCase())
+    .maybeSingle();
+
+  return wallet ? getUserDetails(wallet.user_id) : null;
+};
+
+export const getAddressActivity = async (address: string): Promise<AddressActivity> => {
+  const provider = getLedgerProvider();
+
+  if (ADDRESS_PATTERN.test(address)) {
+    const [transactions, owner] = await Promise.all([
+      provider.getTransactionsByAddress(address, ACTIVITY_LIMIT),
+      getWalletOwner(address)
+    ]);
+
+    return {
+      kind: 'wallet',
+      address,
+      name: owner?.name ?? null,
+      role: owner?.role ?? null,
+      transactions
+    };
+  }
+
+  const [records, user] = await Promise.all([
+    provider.findRecords({ participantId: address }),
+    UUID_PATTERN.test(address) ? getUserDetails(address) : Promise.resolve(null)
+  ]);
+
+  return {
+    kind: 'participant',
+    address,
+    name: user?.name ?? null,
+    role: user?.role ?? null,
+    transactions: records.map(record => record.transaction).reverse().slice(0, ACTIVITY_LIMIT)
+  };
+};
+
+export const getShipmentActivity = async (shipmentId: string): Promise<ShipmentActivity> => {
+  const [records, shipment] = await Promise.all([
+    getLedgerProvider().findRecords({ shipmentId }),
+    UUID_PATTERN.test(shipmentId)
+      ? supabase.from('shipments').select('title, tracking_id, status').eq('id', shipmentId).maybeSingle().then(({ data }) => data)
+      : Promise.resolve(null)
+  ]);
+
+  return {
+    shipmentId,
+    title: shipment?.title ?? null,
+    trackingId: shipment?.tracking_id ?? null,
+    status: shipment?.status ?? null,
+    transactions: records.map(record => record.transaction).slice(-ACTIVITY_LIMIT)
+  };
+};
+
+// Work out what a search term refers to: a block number, transaction hash, wallet
+// address, tracking ID, shipment ID or user id. Returns null when nothing matches.
+export const searchExplorer = async (query: string): Promise<ExplorerSearchResult | null> => {
+  const term = query.trim();
+  if (!term) return null;
+
+  const provider = getLedgerProvider();
+
+  if (/^\d+$/.test(term) && await provider.getBlock(Number(term))) {
+    return { type: 'block', blockNumber: Number(term) };
+  }
+
+  if (TX_HASH_PATTERN.test(term)) {
+    return await provider.getTransaction(term) ? { type: 'transaction', hash: term } : null;
+  }
+
+  if (ADDRESS_PATTERN.test(term)) {
+    return { type: 'address', address: term };
+  }
+
+  const { data: byTrackingId, error: trackingError } = await supabase
+    .from('shipments')
+    .select('id')
+    .eq('tracking_id', term)
+    .maybeSingle();
+
+  if (trackingError) throw trackingError;
+  if (byTrackingId) return { type: 'shipment', shipmentId: byTrackingId.id };
+
+  if (UUID_PATTERN.test(term)) {
+    const { data: byId, error: shipmentError } = await supabase
+      .from('shipments')
+      .select('id')
+      .eq('id', term)
+      .maybeSingle();
+
+    if (shipmentError) throw shipmentError;
+    if (byId) return { type: 'shipment', shipmentId: byId.id };
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', term)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (profile) return { type: 'address', address: profile.id };
+  }
+
+  // Shipments that only exist on the ledger, such as the mock chain's demo shipment
+  if ((await provider.findRecords({ shipmentId: term })).length > 0) {
+    return { type: 'shipment', shipmentId: term };
+  }
+
+  return null;
+};
@@ -0,0 +1,166 @@
+import { Transaction } from './types';
+import { LedgerProvider } from './providers/types';
+import {
+  dropPendingTransaction,
+  holdPendingTransaction,
+  reorganizeAfterInclusion,
+  revertWhenMined
+} from './ledger';
+import { getMockRandom } from '../mock';
+
+// Fault injection for the mock ledger. Rules make the mock provider fail the
+// way a real node or chain can, so UI and contract flows can be checked
+// against it:
+//   - drop: the transaction is accepted, then evicted from the mempool and never mined
+//   - slow_confirmation: the transaction waits delayMs before it can be mined
+//   - revert: the transaction is mined as failed, like a reverted contract call
+//   - reorg: once the transaction is mined, the newest `depth` blocks are orphaned
+//     and their transactions mined again
+//   - timeout: the provider call hangs for delayMs and then fails
+// A rule fires with its probability for the operations it lists, or for every
+// operation when it lists none. Timeouts also apply to reads, matched by provider
+// method name (getShipment, getTransaction, ...).
+//
+// Set rules with VITE_LEDGER_FAULTS (a JSON array of rules) or setLedgerFaults.
+// Draws come from the mock PRNG, so a seeded session injects the same faults.
+
+export type LedgerFaultType = 'drop' | 'slow_confirmation' | 'revert' | 'reorg' | 'timeout';
+
+export interface LedgerFaultRule {
+  fault: LedgerFaultType;
+  // Chance the rule fires for a matching call, from 0 to 1
+  probability: number;
+  // Ledger operations (or, for timeouts, provider methods) it applies to; all when left out
+  operations?: string[];
+  // slow_confirmation and timeout: how long the call or transaction is held up
+  delayMs?: number;
+  // reorg: how many blocks are orphaned
+  depth?: number;
+  // revert: reason reported with the failure
+  reason?: string;
+}
+
+const FAULT_TYPES: LedgerFaultType[] = ['drop', 'slow_confirmation', 'revert', 'reorg', 'timeout'];
+
+const DEFAULT_SLOW_CONFIRMATION_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_REORG_DEPTH = 2;
+const DEFAULT_REVERT_REASON = 'contract call reverted';
+
+export class LedgerTimeoutError extends Error {
+  constructor(method: string, delayMs: number) {
+    super(`Ledger provider timed out after ${delayMs / 1000}s (${method})`);
+    this.name = 'LedgerTimeoutError';
+  }
+}
+
+const isFaultRule = (value: unknown): value is LedgerFaultRule => {
+  const rule = value as LedgerFaultRule;
+  return typeof rule === 'object' && rule !== null &&
+    FAULT_TYPES.includes(rule.fault) &&
+    typeof rule.probability === 'number' && rule.probability >= 0 && rule.probability <= 1 &&
+    (rule.operations === undefined || (Array.isArray(rule.operations) && rule.operations.every(op => typeof op === 'string')));
+};
+
+const readConfiguredFaults = (): LedgerFaultRule[] => {
+  const configured = import.meta.env.VITE_LEDGER_FAULTS;
+  if (!configured) return [];
+
+  try {
+    const rules = JSON.parse(configured);
+    if (!Array.isArray(rules)) throw new Error('expected an array of rules');
+
+    const valid = rules.filter(isFaultRule);
+    if (valid.length < rules.length) {
+      console.warn(`Ignoring ${rules.length - valid.length} invalid VITE_LEDGER_FAULTS rule(s)`);
+    }
+    return valid;
+  } catch (error) {
+    console.warn('VITE_LEDGER_FAULTS could not be read, no faults will be injected:', error);
+    return [];
+  }
+};
+
+let rules: LedgerFaultRule[] = readConfiguredFaults();
+
+export const getLedgerFaults = (): LedgerFaultRule[] => rules.map(rule => ({ ...rule }));
+
+// Replace the active rules; pass an empty array to stop injecting faults
+export const setLedgerFaults = (next: LedgerFaultRule[]): void => {
+  const invalid = next.filter(rule => !isFaultRule(rule));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid ledger fault rule: ${JSON.stringify(invalid[0])}`);
+  }
+  rules = next.map(rule => ({ ...rule }));
+};
+
+// Rules of the given type that fire for this call
+const firingRules = (fault: LedgerFaultType, operation: string): LedgerFaultRule[] =>
+  rules.filter(rule =>
+    rule.fault === fault &&
+    (!rule.operations || rule.operations.includes(operation)) &&
+    getMockRandom('ledger-faults').chance(rule.probability));
+
+const maybeTimeOut = async <T>(operation: string, call: () => Promise<T>): Promise<T> => {
+  const [timeout] = firingRules('timeout', operation);
+  if (timeout) {
+    const delayMs = timeout.delayMs ?? DEFAULT_TIMEOUT_MS;
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    throw new LedgerTimeoutError(operation, delayMs);
+  }
+  return call();
+};
+
+// Apply the write faults that fire for a transaction the mock ledger just accepted
+const injectWriteFaults = (tx: Transaction, operation: string): void => {
+  if (firingRules('drop', operation).length > 0 && dropPendingTransaction(tx.hash)) {
+    console.warn(`Fault injected: dropped ${operation} transaction ${tx.hash}`);
+    return;
+  }
+
+  const [slow] = firingRules('slow_confirmation', operation);
+  if (slow) {
+    holdPendingTransaction(tx.hash, slow.delayMs ?? DEFAULT_SLOW_CONFIRMATION_MS);
+    console.warn(`Fault injected: ${operation} transaction ${tx.hash} held back for ${slow.delayMs ?? DEFAULT_SLOW_CONFIRMATION_MS}ms`);
+  }
+
+  const [revert] = firingRules('revert', operation);
+  if (revert) {
+    revertWhenMined(tx.hash, revert.reason ?? DEFAULT_REVERT_REASON);
+    console.warn(`Fault injected: ${operation} transaction ${tx.hash} will revert`);
+  }
+
+  const [reorg] = firingRules('reorg', operation);
+  if (reorg) {
+    reorganizeAfterInclusion(tx.hash, reorg.depth ?? DEFAULT_REORG_DEPTH);
+    console.warn(`Fault injected: mining ${operation} transaction ${tx.hash} will reorganise the chain`);
+  }
+};
+
+// Wrap the mock provider so every call passes through the active fault rules
+export const withLedgerFaults = (provider: LedgerProvider): LedgerProvider => ({
+  ...provider,
+
+  getWalletAddress: () => maybeTimeOut('getWalletAddress', () => provider.getWalletAddress()),
+
+  submitTransaction: (request) => maybeTimeOut(request.operation, async () => {
+    const tx = await provider.submitTransaction(request);
+    injectWriteFaults(tx, request.operation);
+    return tx;
+  }),
+
+  getTransaction: (hash) => maybeTimeOut('getTransaction', () => provider.getTransaction(hash)),
+
+  getRecentTransactions: (limit) => maybeTimeOut('getRecentTransactions', () => provider.getRecentTransactions(limit)),
+
+  findRecords: (filter) => maybeTimeOut('findRecords', () => provider.findRecords(filter)),
+
+  getShipment: (shipmentId) => maybeTimeOut('getShipment', () => provider.getShipment(shipmentId)),
+
+  getLatestBlocks: (limit) => maybeTimeOut('getLatestBlocks', () => provider.getLatestBlocks(limit)),
+
+  getBlock: (blockNumber) => maybeTimeOut('getBlock', () => provider.getBlock(blockNumber)),
+
+  getTransactionsByAddress: (address, limit) =>
+    maybeTimeOut('getTransactionsByAddress', () => provider.getTransactionsByAddress(address, limit))
+});
@@ -1,24 +1,67 @@
 
-import { MOCK_WALLET_ADDRESS } from './mockUtils';
+import { getLedgerProvider } from './providers';
 import { getShipment, createShipment, updateShipmentStatus, addSensorData } from './shipmentOperations';
+import { flushSensorBatches, verifySensorReadingProof } from './sensorBatching';
 import { getRecentTransactions } from './transactionHistory';
+import { subscribeToTransaction, subscribeToTransactionActivity, retryTransaction, canRetryTransaction } from './transactionLifecycle';
 import { calculateCarbonFootprint, issueCarbonCredits } from './sustainabilityOperations';
-import { executeCustomsClearance, executePaymentRelease, createDisputeResolution } from './smartContracts';
+import { executeCustomsClearance, executePaymentRelease } from './smartContracts';
+import { getApprovalInbox, approvePendingAction, rejectPendingAction } from './approvals';
+import { getShipmentContracts, getContractDetails, createDeliveryContract, transitionContract, evaluateShipmentContracts } from './contractLifecycle';
+import { getShipmentEscrow, getEscrowLedgerEntries, getShipmentEscrowEntries, summarizeEscrowBalances, openShipmentEscrow, recordDelivery, addProofOfDelivery } from './escrow';
+import { getShipmentSla, getSlaPenalties, openShipmentSla, reportDelay } from './sla';
+import { getShipmentColdChain, getColdChainClaims, openShipmentColdChain } from './coldChain';
+import {
+  getDisputes,
+  getDisputeDetails,
+  getArbiters,
+  openDispute,
+  addDisputeEvidence,
+  respondToDispute,
+  escalateDispute,
+  assignDisputeArbiter,
+  proposeSettlement,
+  acceptSettlement,
+  declineSettlement,
+  ruleOnDispute
+} from './disputes';
+import { processLedgerJobsFor, retryLedgerJob, getUnfinishedLedgerJobs } from './ledgerOutbox';
+import { searchExplorer, getLatestBlocks, getBlock, getAddressActivity, getShipmentActivity } from './explorer';
 
 // Export all functionality from a single entry point
 export const blockchainService = {
   // Wallet
-  getWalletAddress: async () => MOCK_WALLET_ADDRESS,
+  getWalletAddress: () => getLedgerProvider().getWalletAddress(),
   
   // Shipment operations
   createShipment,
   updateShipmentStatus,
   addSensorData,
+  flushSensorBatches,
+  verifySensorReadingProof,
   getShipment,
   
   // Transaction history
   getRecentTransactions,
   
+  // Explorer
+  searchExplorer,
+  getLatestBlocks,
+  getBlock,
+  getAddressActivity,
+  getShipmentActivity,
+  
+  // Transaction lifecycle
+  subscribeToTransaction,
+  subscribeToTransactionActivity,
+  retryTransaction,
+  canRetryTransaction,
+  
+  // Ledger outbox
+  processLedgerJobsFor,
+  retryLedgerJob,
+  getUnfinishedLedgerJobs,
+  
   // Sustainability operations
   calculateCarbonFootprint,
   issueCarbonCredits,
@@ -26,10 +69,84 @@ export const blockchainService = {
   // Smart contracts
   executeCustomsClearance,
   executePaymentRelease,
-  createDisputeResolution
+  
+  // Contract lifecycle
+  getShipmentContracts,
+  getContractDetails,
+  createDeliveryContract,
+  transitionContract,
+  evaluateShipmentContracts,
+  
+  // Escrow
+  getShipmentEscrow,
+  getEscrowLedgerEntries,
+  getShipmentEscrowEntries,
+  summarizeEscrowBalances,
+  openShipmentEscrow,
+  recordDelivery,
+  addProofOfDelivery,
+  
+  // SLAs
+  getShipmentSla,
+  getSlaPenalties,
+  openShipmentSla,
+  reportDelay,
+  
+  // Cold-chain compliance
+  getShipmentColdChain,
+  getColdChainClaims,
+  openShipmentColdChain,
+  
+  // Disputes
+  getDisputes,
+  getDisputeDetails,
+  getArbiters,
+  openDispute,
+  addDisputeEvidence,
+  respondToDispute,
+  escalateDispute,
+  assignDisputeArbiter,
+  proposeSettlement,
+  acceptSettlement,
+  declineSettlement,
+  ruleOnDispute,
+  
+  // Approvals
+  getApprovalInbox,
+  approvePendingAction,
+  rejectPendingAction
 };
 
 // Also export types
 export * from './types';
+export type { LedgerProvider, LedgerProviderName } from './providers';
+export { getLedgerProvider, setLedgerProvider, createLedgerProvider } from './providers';
+export { getRequiredConfirmations, getTransactionStage } from './transactionLifecycle';
+export { STUCK_JOB_AFTER_MS, isStuckLedgerJob } from './ledgerOutbox';
+export type { LedgerJob, LedgerJobStatus } from './ledgerOutbox';
+export { SENSOR_BATCH_OPERATION, SENSOR_BATCH_WINDOW_MS } from './sensorBatching';
+export { LedgerTimeoutError, getLedgerFaults, setLedgerFaults } from './faults';
+export { createUserWallet, getUserWallet, getActiveWalletAddress, setActiveWalletAddress } from './wallet';
+export type { UserWallet } from './wallet';
+export type { ContractDetails, ContractState, ContractTransitionRecord, TransitionOption } from './contractLifecycle';
+export type { DeliveryDetails, EscrowBalance, EscrowLedgerEntry, EscrowMovementKind, EscrowTerms } from './escrow';
+export type { DelayCause, DelayReport, SlaPenalty, SlaTerms } from './sla';
+export type { ColdChainClaim, ColdChainEvidence, ColdChainProfile, ColdChainTerms } from './coldChain';
+export type {
+  Arbiter,
+  Dispute,
+  DisputeDetails,
+  DisputeEvidence,
+  DisputeParty,
+  DisputePayment,
+  DisputeProposal,
+  DisputeStatus,
+  OpenDisputeRequest,
+  RulingOutcome,
+  RulingRequest
+} from './disputes';
+export type { ApprovalInbox, ApprovalPolicy, ApprovalSignature, PendingApproval } from './approvals';
+export type { LedgerFaultRule, LedgerFaultType } from './faults';
+export type { AnchoredSensorReading, SensorBatch, SensorProofCheck, StoredSensorReading } from './sensorBatching';
 
 export default blockchainService;
@@ -0,0 +1,342 @@
+import { MerkleProofStep, Transaction } from './types';
+import { mockNow } from '../mock';
+
+// In-browser hash-chained ledger used by the mock blockchain service.
+// Uses the same hashing scheme as supabase/functions/_shared/ledger.ts, so
+// entries can be recomputed the same way as the persistent ledger.
+
+export const GENESIS_PREVIOUS_HASH = '0x' + '0'.repeat(64);
+
+// How often the mock chain produces a block while it has work to do
+export const MOCK_BLOCK_TIME_MS = 3000;
+
+// Empty blocks produced after the last transaction, so recent
+// transactions keep gathering confirmations
+const TRAILING_EMPTY_BLOCKS = 6;
+
+export interface LedgerBlock {
+  number: number;
+  hash: string;
+  previousHash: string;
+  transactionsRoot: string;
+  transactionCount: number;
+  timestamp: number;
+  transactions: Transaction[];
+}
+
+export interface LedgerEntry {
+  from: string;
+  to: string;
+  operation: string;
+  payload: unknown;
+  // The sender's next nonce is assigned when left out; any other nonce is rejected
+  nonce?: number;
+}
+
+// Serialize a value as JSON with object keys sorted, so the same content always hashes the same
+export const canonicalize = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+export const sha256Hex = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return '0x' + Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const computeTransactionHash = (entry: LedgerEntry & { timestamp: number }): Promise<string> =>
+  sha256Hex(canonicalize({
+    from: entry.from,
+    to: entry.to,
+    operation: entry.operation,
+    payload: entry.payload,
+    timestamp: entry.timestamp,
+    nonce: entry.nonce
+  }));
+
+export const computeBlockHash = (block: Omit<LedgerBlock, 'hash' | 'transactions'>): Promise<string> =>
+  sha256Hex(canonicalize({
+    number: block.number,
+    previousHash: block.previousHash,
+    transactionsRoot: block.transactionsRoot,
+    transactionCount: block.transactionCount,
+    timestamp: block.timestamp
+  }));
+
+// Merkle root over a list of hashes; an odd node at any level is paired with itself
+export const computeMerkleRoot = async (hashes: string[]): Promise<string> => {
+  if (hashes.length === 0) return GENESIS_PREVIOUS_HASH;
+
+  let level = hashes;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? left;
+      next.push(await sha256Hex(left + right.slice(2)));
+    }
+    level = next;
+  }
+  return level[0];
+};
+
+// Inclusion proof for every leaf, in leaf order; each proof folds up to the root computeMerkleRoot gives
+export const computeMerkleProofs = async (hashes: string[]): Promise<MerkleProofStep[][]> => {
+  const proofs: MerkleProofStep[][] = hashes.map(() => []);
+  // Leaves under each node of the current level
+  let members = hashes.map((_, index) => [index]);
+  let level = hashes;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    const nextMembers: number[][] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? left;
+      members[i].forEach(leaf => proofs[leaf].push({ hash: right, position: 'right' }));
+      if (i + 1 < level.length) {
+        members[i + 1].forEach(leaf => proofs[leaf].push({ hash: left, position: 'left' }));
+      }
+      next.push(await sha256Hex(left + right.slice(2)));
+      nextMembers.push([...members[i], ...(members[i + 1] ?? [])]);
+    }
+    level = next;
+    members = nextMembers;
+  }
+  return proofs;
+};
+
+// Fold a leaf hash through its proof; the result equals the root when the leaf is in the tree
+export const applyMerkleProof = async (leaf: string, proof: MerkleProofStep[]): Promise<string> => {
+  let hash = leaf;
+  for (const step of proof) {
+    hash = step.position === 'left'
+      ? await sha256Hex(step.hash + hash.slice(2))
+      : await sha256Hex(hash + step.hash.slice(2));
+  }
+  return hash;
+};
+
+const blocks: LedgerBlock[] = [];
+const transactionsByHash = new Map<string, Transaction>();
+const entriesByHash = new Map<string, LedgerEntry>();
+let pending: Transaction[] = [];
+let blockTimer: ReturnType<typeof setInterval> | null = null;
+let emptyBlocksSinceActivity = 0;
+let sealQueue: Promise<unknown> = Promise.resolve();
+let appendQueue: Promise<unknown> = Promise.resolve();
+// Set by the fault injector (see faults.ts): when held transactions may be mined,
+// why marked ones revert, and how many blocks a transaction's inclusion orphans
+const heldUntil = new Map<string, number>();
+const revertReasons = new Map<string, string>();
+const reorgDepths = new Map<string, number>();
+// Nonce each sender's next transaction must carry, keyed by lower-cased address
+const nextNonces = new Map<string, number>();
+
+const withConfirmations = (tx: Transaction): Transaction => {
+  const head = blocks[blocks.length - 1];
+  const confirmations = tx.blockNumber !== undefined && head ? head.number - tx.blockNumber + 1 : 0;
+  return { ...tx, confirmations };
+};
+
+export const getNextNonce = (address: string): number =>
+  nextNonces.get(address.toLowerCase()) ?? 0;
+
+const append = async (entry: LedgerEntry): Promise<Transaction> => {
+  const expectedNonce = getNextNonce(entry.from);
+  const nonce = entry.nonce ?? expectedNonce;
+  if (nonce !== expectedNonce) {
+    throw new Error(`Nonce ${nonce} for ${entry.from} is not the next nonce ${expectedNonce}`);
+  }
+  nextNonces.set(entry.from.toLowerCase(), nonce + 1);
+
+  const timestamp = mockNow();
+  // Round-trip through JSON so the hashed payload is exactly what Transaction.data decodes to
+  const payload = JSON.parse(JSON.stringify(entry.payload ?? {}));
+  const hash = await computeTransactionHash({ ...entry, payload, timestamp, nonce });
+
+  const tx: Transaction = {
+    hash,
+    from: entry.from,
+    to: entry.to,
+    data: JSON.stringify(payload),
+    timestamp,
+    status: 'pending',
+    operation: entry.operation,
+    nonce
+  };
+
+  pending.push(tx);
+  transactionsByHash.set(hash, tx);
+  entriesByHash.set(hash, { ...entry, payload, nonce });
+  return tx;
+};
+
+// Append a transaction to the pending pool. Appends run one at a time, so each
+// sender's transactions enter the pool in nonce order.
+export const appendTransaction = (entry: LedgerEntry): Promise<Transaction> => {
+  const appended = appendQueue.then(() => append(entry));
+  appendQueue = appended.catch(() => null);
+  return appended;
+};
+
+// Orphan the newest blocks, as in a chain reorganisation: their transactions
+// go back to the mempool and are mined again in the blocks that replace them
+const orphanBlocks = (depth: number): LedgerBlock[] => {
+  const orphaned = blocks.splice(Math.max(blocks.length - depth, 0));
+  const returned = orphaned.flatMap(block => block.transactions);
+  for (const tx of returned) {
+    tx.blockNumber = undefined;
+    tx.status = 'pending';
+    tx.failureReason = undefined;
+  }
+  pending = [...returned, ...pending];
+  return orphaned;
+};
+
+const sealBlock = async (allowEmpty: boolean): Promise<LedgerBlock | null> => {
+  for (const [hash, depth] of reorgDepths) {
+    if (transactionsByHash.get(hash)?.blockNumber === undefined) continue;
+    reorgDepths.delete(hash);
+    const orphaned = orphanBlocks(depth);
+    console.warn(`Chain reorganisation orphaned ${orphaned.length} block(s) from #${orphaned[0]?.number}`);
+  }
+
+  const now = Date.now();
+  const sealing = pending.filter(tx => (heldUntil.get(tx.hash) ?? 0) <= now);
+  if (sealing.length === 0 && !allowEmpty) return null;
+
+  pending = pending.filter(tx => !sealing.includes(tx));
+
+  const head = blocks[blocks.length - 1];
+  const header = {
+    number: head ? head.number + 1 : 0,
+    previousHash: head ? head.hash : GENESIS_PREVIOUS_HASH,
+    transactionsRoot: await computeMerkleRoot(sealing.map(tx => tx.hash)),
+    transactionCount: sealing.length,
+    timestamp: mockNow()
+  };
+  const block: LedgerBlock = {
+    ...header,
+    hash: await computeBlockHash(header),
+    transactions: sealing
+  };
+
+  for (const tx of sealing) {
+    heldUntil.delete(tx.hash);
+    tx.blockNumber = block.number;
+    // A reverted call is still mined, it just has no effect
+    const revertReason = revertReasons.get(tx.hash);
+    tx.status = revertReason ? 'failed' : 'confirmed';
+    tx.failureReason = revertReason ? `Execution reverted: ${revertReason}` : undefined;
+  }
+
+  blocks.push(block);
+  return block;
+};
+
+// Group all pending transactions into a new block linked to the chain head.
+// With allowEmpty, a block is produced even when the mempool is empty.
+// Seals run one at a time so two blocks never claim the same height.
+export const sealPendingTransactions = (allowEmpty: boolean = false): Promise<LedgerBlock | null> => {
+  const sealed = sealQueue.then(() => sealBlock(allowEmpty));
+  sealQueue = sealed.catch(() => null);
+  return sealed;
+};
+
+// Produce a block every MOCK_BLOCK_TIME_MS until the mempool is empty and the
+// last transactions are buried under TRAILING_EMPTY_BLOCKS blocks
+export const startBlockProduction = (): void => {
+  emptyBlocksSinceActivity = 0;
+  if (blockTimer) return;
+
+  blockTimer = setInterval(async () => {
+    const hadTransactions = pending.length > 0;
+    await sealPendingTransactions(true);
+
+    emptyBlocksSinceActivity = hadTransactions ? 0 : emptyBlocksSinceActivity + 1;
+    if (emptyBlocksSinceActivity >= TRAILING_EMPTY_BLOCKS && blockTimer) {
+      clearInterval(blockTimer);
+      blockTimer = null;
+    }
+  }, MOCK_BLOCK_TIME_MS);
+};
+
+// Submit a transaction to the mempool; it is included by the next produced block
+export const submitToMempool = async (entry: LedgerEntry): Promise<Transaction> => {
+  const tx = await appendTransaction(entry);
+  startBlockProduction();
+  return withConfirmations(tx);
+};
+
+// Fault injection hooks, used by faults.ts
+
+// Evict a transaction from the mempool before it is mined; false when it already was.
+// Its nonce is not handed out again.
+export const dropPendingTransaction = (hash: string): boolean => {
+  const index = pending.findIndex(tx => tx.hash === hash);
+  if (index === -1) return false;
+
+  pending.splice(index, 1);
+  transactionsByHash.delete(hash);
+  entriesByHash.delete(hash);
+  return true;
+};
+
+// Keep a pending transaction out of blocks for delayMs
+export const holdPendingTransaction = (hash: string, delayMs: number): void => {
+  heldUntil.set(hash, Date.now() + delayMs);
+};
+
+// Mine the transaction as failed, like a contract call that reverts
+export const revertWhenMined = (hash: string, reason: string): void => {
+  revertReasons.set(hash, reason);
+};
+
+// Orphan the newest depth blocks at the first seal after the transaction is mined
+export const reorganizeAfterInclusion = (hash: string, depth: number): void => {
+  reorgDepths.set(hash, depth);
+};
+
+export const getTransaction = (hash: string): Transaction | null => {
+  const tx = transactionsByHash.get(hash);
+  return tx ? withConfirmations(tx) : null;
+};
+
+// The operation and decoded payload a transaction was recorded with
+export const getLedgerEntry = (hash: string): LedgerEntry | null => {
+  const entry = entriesByHash.get(hash);
+  return entry ? { ...entry } : null;
+};
+
+export const getBlock = (blockNumber: number): LedgerBlock | null => {
+  const block = blocks[blockNumber];
+  return block ? { ...block, transactions: block.transactions.map(withConfirmations) } : null;
+};
+
+// Most recent blocks first
+export const getRecentBlocks = (limit: number): LedgerBlock[] =>
+  blocks.slice(-limit).reverse().map(block => ({ ...block, transactions: block.transactions.map(withConfirmations) }));
+
+export const getLatestBlock = (): LedgerBlock | null =>
+  blocks[blocks.length - 1] ?? null;
+
+// All transactions in chain order, pending ones last
+export const getLedgerTransactions = (): Transaction[] =>
+  [...blocks.flatMap(block => block.transactions), ...pending].map(withConfirmations);
+
+// Most recent transactions first, pending ones included
+export const getRecentLedgerTransactions = (limit: number): Transaction[] =>
+  getLedgerTransactions().reverse().slice(0, limit);
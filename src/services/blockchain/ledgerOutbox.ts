@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import type { PendingApproval } from './approvals';
+
+// Ledger writes go through the outbox in ledger_jobs: the job is stored first
+// (by a database trigger, or by the ledger-outbox function for contract
+// operations) and the ledger-outbox worker retries it with backoff until the
+// write lands, so a failed call never leaves a change unanchored.
+
+export type LedgerJob = Database['public']['Tables']['ledger_jobs']['Row'];
+
+export type LedgerJobStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+// A job that has waited this long without succeeding counts as stuck
+export const STUCK_JOB_AFTER_MS = 10 * 60 * 1000;
+
+const invokeOutbox = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('ledger-outbox', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Ledger outbox request failed');
+  }
+  return data;
+};
+
+// What queuing an operation gave back: the job, or the pending approval an
+// approval policy holds it as until enough parties have signed
+export type QueuedLedgerWrite = { job: LedgerJob; approval?: never } | { approval: PendingApproval; job?: never };
+
+// Queue a contract operation; the worker runs it straight away, so the job
+// usually comes back succeeded, or pending when it will be retried. Queuing
+// again with the same idempotency key returns the first job instead of a new one.
+export const queueLedgerJob = async (
+  operation: string,
+  request: Record<string, unknown>,
+  idempotencyKey?: string
+): Promise<QueuedLedgerWrite> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const data = await invokeOutbox({ action: 'enqueue', operation, request, requestedBy: session?.user.id, idempotencyKey });
+  return data.approval ? { approval: data.approval as PendingApproval } : { job: data.job as LedgerJob };
+};
+
+// Run the jobs queued for a row, such as the registration a new shipment's insert queued
+export const processLedgerJobsFor = async (sourceId: string): Promise<LedgerJob[]> => {
+  const data = await invokeOutbox({ action: 'process', sourceId });
+  return data.jobs as LedgerJob[];
+};
+
+// Requeue a failed or stuck job and run it again now
+export const retryLedgerJob = async (jobId: string): Promise<LedgerJob> => {
+  const data = await invokeOutbox({ action: 'retry', jobId });
+  return data.job as LedgerJob;
+};
+
+// Jobs that haven't succeeded, newest first
+export const getUnfinishedLedgerJobs = async (limit: number = 100): Promise<LedgerJob[]> => {
+  const { data, error } = await supabase
+    .from('ledger_jobs')
+    .select('*')
+    .neq('status', 'succeeded')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+};
+
+// Pending or processing for longer than it should take, including a worker that died mid-job
+export const isStuckLedgerJob = (job: LedgerJob, now: number = Date.now()): boolean =>
+  (job.status === 'pending' || job.status === 'processing') &&
+  now - new Date(job.created_at).getTime() > STUCK_JOB_AFTER_MS;
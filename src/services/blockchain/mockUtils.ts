@@ -1,14 +1,12 @@
 
-import { Transaction } from './types';
+import { getMockRandom } from '../mock';
 
-// Mock blockchain address
+// Shared demo wallet, sent from while nobody is signed in (see wallet.ts)
 export const MOCK_WALLET_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
 
-// Generate a random transaction hash
+// Generate a random transaction hash; repeatable when the mock services are seeded
 export const generateTransactionHash = (): string => {
-  return '0x' + Array.from({ length: 64 })
-    .map(() => Math.floor(Math.random() * 16).toString(16))
-    .join('');
+  return '0x' + getMockRandom('transaction-hashes').hex(64);
 };
 
 // Carbon emission factors (gCO2/km)
@@ -19,18 +17,5 @@ export const emissionFactors: Record<string, number> = {
   ship: 0.015
 };
 
-// Create a mock transaction
-export const createMockTransaction = (
-  data: any,
-  status: 'pending' | 'confirmed' | 'failed' = 'confirmed'
-): Transaction => {
-  return {
-    hash: generateTransactionHash(),
-    blockNumber: Math.floor(Math.random() * 1000000) + 15000000,
-    from: MOCK_WALLET_ADDRESS,
-    to: '0x8Ba1f109551bD432803012645Ac136ddd64DBA72', // Mock contract address
-    data: JSON.stringify(data),
-    timestamp: Date.now(),
-    status
-  };
-};
+// Mock contract address that receives every ledger write
+export const MOCK_CONTRACT_ADDRESS = '0x8Ba1f109551bD432803012645Ac136ddd64DBA72';
@@ -0,0 +1,115 @@
+// Decodes ledger payloads into labelled fields for the explorer and the
+// transaction viewer, using the schema registry in payloadSchemas.ts
+
+import {
+  FieldLink,
+  FieldSchema,
+  FieldType,
+  PayloadSchema,
+  getEventSchema,
+  getOperationSchemas,
+  validatePayload
+} from './payloadSchemas';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface DecodedField {
+  key: string;
+  label: string;
+  type: FieldType;
+  value: unknown;
+  unit?: string;
+  // What the value, or each item of an array value, identifies
+  link?: FieldLink;
+  // Decoded fields of an object value
+  fields?: DecodedField[];
+  // Title of the event schema an object value was decoded with
+  title?: string;
+  // Not declared by the schema
+  undeclared?: boolean;
+}
+
+export interface DecodedPayload {
+  // The schema the payload was decoded with; null when none is registered for it
+  schema: PayloadSchema | null;
+  fields: DecodedField[];
+  // Why the payload doesn't conform to its schema, if it doesn't
+  problems: string[];
+}
+
+// 'carbonFootprint' -> 'Carbon footprint'
+const labelFromKey = (key: string) => {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const inferType = (value: unknown): FieldType => {
+  if (Array.isArray(value)) return 'array';
+  if (isRecord(value)) return 'object';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+};
+
+function decodeFields(fields: Record<string, FieldSchema>, record: Record<string, unknown>, ignored: string[] = []): DecodedField[] {
+  const decoded: DecodedField[] = [];
+
+  for (const [key, field] of Object.entries(fields)) {
+    const value = record[key];
+    if (value === undefined || value === null) continue;
+
+    const unit = field.unitField && typeof record[field.unitField] === 'string' ? record[field.unitField] as string : field.unit;
+    const eventType = field.eventTypeField ? record[field.eventTypeField] : undefined;
+    const eventSchema = typeof eventType === 'string' ? getEventSchema(eventType) : null;
+
+    let nested: DecodedField[] | undefined;
+    if (isRecord(value)) {
+      nested = eventSchema ? decodeFields(eventSchema.fields, value, ['type']) : decodeFields(field.fields ?? {}, value);
+    }
+
+    decoded.push({
+      key,
+      label: field.label,
+      type: field.type,
+      value,
+      unit,
+      link: field.link ?? field.items?.link,
+      fields: nested,
+      title: eventSchema?.title
+    });
+  }
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key in fields || ignored.includes(key) || value === undefined) continue;
+    decoded.push({
+      key,
+      label: labelFromKey(key),
+      type: inferType(value),
+      value,
+      fields: isRecord(value) ? decodeFields({}, value) : undefined,
+      undeclared: true
+    });
+  }
+
+  return decoded;
+}
+
+// Decode a ledger payload with the first schema for its operation it conforms to,
+// or the schema it comes closest to, with its problems, when it conforms to none
+export function decodePayload(operation: string | undefined, payload: unknown): DecodedPayload {
+  if (!isRecord(payload)) {
+    return { schema: null, fields: [], problems: [] };
+  }
+
+  const schemas = operation ? getOperationSchemas(operation) : [];
+  if (schemas.length === 0) {
+    return { schema: null, fields: decodeFields({}, payload), problems: [] };
+  }
+
+  const checked = schemas.map((schema) => ({ schema, problems: validatePayload(schema, payload) }));
+  const { schema, problems } = checked.reduce((closest, entry) =>
+    (entry.problems.length < closest.problems.length ? entry : closest));
+
+  return { schema, fields: decodeFields(schema.fields, payload), problems };
+}
@@ -0,0 +1,862 @@
+// Generated from supabase/functions/_shared/payloadSchemas.ts by scripts/sync-payload-schemas.mjs.
+// Edit that file and run `npm run schemas:sync`; changes made here are lost.
+
+// Versioned registry of ledger payload and shipment event schemas
+//
+// Every ledger write is checked against the schemas registered for its
+// operation before it is appended, and shipment_events data against the schema
+// for its event type. This is the only copy to edit: the frontend's
+// src/services/blockchain/payloadSchemas.ts is generated from it by
+// scripts/sync-payload-schemas.mjs (`npm run schemas:sync`).
+//
+// A schema only constrains the fields it declares, so a payload may carry
+// more. Optional fields may be null. When a schema changes, add it again with
+// the next version rather than editing it, so payloads written against the
+// old version still decode.
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'timestamp' | 'hash' | 'object' | 'array';
+
+// What a field's value identifies, so it can be linked to
+export type FieldLink = 'shipment' | 'user';
+
+export interface FieldSchema {
+  type: FieldType;
+  label: string;
+  required?: boolean;
+  unit?: string;
+  // Sibling field holding the unit, such as the currency of an amount
+  unitField?: string;
+  link?: FieldLink;
+  values?: string[];
+  // Declared fields of an object
+  fields?: Record<string, FieldSchema>;
+  // Schema of each array item
+  items?: FieldSchema;
+  // The object is the data of the shipment event named by this sibling field
+  eventTypeField?: string;
+}
+
+export interface PayloadSchema {
+  id: string;
+  version: number;
+  title: string;
+  // Ledger operations recorded with this payload
+  operations?: string[];
+  // shipment_events.event_type whose data this describes
+  eventType?: string;
+  fields: Record<string, FieldSchema>;
+}
+
+const shipmentId: FieldSchema = { type: 'string', label: 'Shipment', required: true, link: 'shipment' };
+const user = (label: string, required = true): FieldSchema => ({ type: 'string', label, required, link: 'user' });
+const contractStates = ['draft', 'active', 'fulfilled', 'breached', 'terminated', 'expired'];
+
+// What every escrow movement records; amount is what moved
+const escrowMovementFields: Record<string, FieldSchema> = {
+  movementId: { type: 'string', label: 'Movement', required: true },
+  contractId: { type: 'string', label: 'Contract', required: true },
+  shipmentId,
+  payerId: user('Payer'),
+  payeeId: user('Carrier'),
+  amount: { type: 'number', label: 'Amount', required: true, unitField: 'currency' },
+  currency: { type: 'string', label: 'Currency', required: true }
+};
+
+const location: FieldSchema = {
+  type: 'object',
+  label: 'Location',
+  fields: {
+    lat: { type: 'number', label: 'Latitude', required: true, unit: '°' },
+    lng: { type: 'number', label: 'Longitude', required: true, unit: '°' }
+  }
+};
+
+// Schemas sharing an operation are tried in this order, so the more specific ones come first
+export const PAYLOAD_SCHEMAS: PayloadSchema[] = [
+  // Ledger operations
+  {
+    id: 'review_registered',
+    version: 1,
+    title: 'Review registered',
+    operations: ['register'],
+    fields: {
+      id: { type: 'string', label: 'Review', required: true },
+      shipmentId,
+      rating: { type: 'integer', label: 'Rating', required: true, unit: '/ 5' },
+      userId: user('Reviewer'),
+      transportType: { type: 'string', label: 'Transport type' }
+    }
+  },
+  {
+    id: 'shipment_registered',
+    version: 1,
+    title: 'Shipment registered',
+    operations: ['register'],
+    fields: {
+      id: { type: 'string', label: 'Shipment', required: true, link: 'shipment' },
+      transportType: { type: 'string', label: 'Transport type', required: true },
+      origin: { type: 'string', label: 'Origin' },
+      destination: { type: 'string', label: 'Destination' },
+      distanceKm: { type: 'number', label: 'Distance', unit: 'km' },
+      carbonFootprint: { type: 'number', label: 'Carbon footprint', unit: 'kg CO2e' },
+      timestamp: { type: 'timestamp', label: 'Calculated at' }
+    }
+  },
+  {
+    id: 'shipment_created',
+    version: 1,
+    title: 'Shipment created',
+    operations: ['create_shipment'],
+    fields: {
+      id: { type: 'string', label: 'Shipment', required: true, link: 'shipment' },
+      owner: { type: 'string', label: 'Owner', required: true },
+      origin: { type: 'string', label: 'Origin', required: true },
+      destination: { type: 'string', label: 'Destination', required: true },
+      productType: { type: 'string', label: 'Product type' },
+      quantity: { type: 'number', label: 'Quantity', unit: 'units' },
+      carbonFootprint: { type: 'number', label: 'Carbon footprint', unit: 'kg CO2e' },
+      status: { type: 'string', label: 'Status' }
+    }
+  },
+  {
+    id: 'status_updated',
+    version: 1,
+    title: 'Status updated',
+    operations: ['update', 'update_status'],
+    fields: {
+      shipmentId,
+      status: { type: 'string', label: 'Status', required: true },
+      metadata: { type: 'object', label: 'Metadata' }
+    }
+  },
+  {
+    id: 'shipment_tracked',
+    version: 1,
+    title: 'Shipment tracked',
+    operations: ['track_shipment'],
+    fields: {
+      shipmentId,
+      status: { type: 'string', label: 'Status', required: true },
+      location: { ...location, required: true },
+      reportedAt: { type: 'timestamp', label: 'Reported at' }
+    }
+  },
+  {
+    id: 'sensor_reading',
+    version: 1,
+    title: 'Sensor reading',
+    operations: ['add_sensor_data'],
+    fields: {
+      shipmentId,
+      reading: {
+        type: 'object',
+        label: 'Reading',
+        required: true,
+        fields: {
+          timestamp: { type: 'timestamp', label: 'Taken at', required: true },
+          temperature: { type: 'number', label: 'Temperature', unit: '°C' },
+          humidity: { type: 'number', label: 'Humidity', unit: '%' },
+          shockDetected: { type: 'boolean', label: 'Shock detected' },
+          location: {
+            type: 'object',
+            label: 'Location',
+            fields: {
+              lat: { type: 'number', label: 'Latitude', required: true, unit: '°' },
+              long: { type: 'number', label: 'Longitude', required: true, unit: '°' }
+            }
+          },
+          batteryLevel: { type: 'number', label: 'Battery level', unit: '%' }
+        }
+      }
+    }
+  },
+  {
+    id: 'sensor_batch',
+    version: 1,
+    title: 'Sensor batch anchored',
+    operations: ['anchor_sensor_batch'],
+    fields: {
+      batchId: { type: 'string', label: 'Batch', required: true },
+      shipmentId,
+      windowStart: { type: 'timestamp', label: 'Window start', required: true },
+      windowEnd: { type: 'timestamp', label: 'Window end', required: true },
+      readingCount: { type: 'integer', label: 'Readings', required: true, unit: 'readings' },
+      merkleRoot: { type: 'hash', label: 'Merkle root', required: true }
+    }
+  },
+  {
+    id: 'custody_transfer',
+    version: 1,
+    title: 'Custody transferred',
+    operations: ['transfer_ownership'],
+    fields: {
+      shipmentId,
+      previousOwnerId: user('Previous owner'),
+      newOwnerId: user('New owner')
+    }
+  },
+  {
+    id: 'signed_custody_transfer',
+    version: 1,
+    title: 'Custody transferred (signed)',
+    operations: ['transfer_ownership'],
+    fields: {
+      shipmentId,
+      eventType: { type: 'string', label: 'Event type', required: true, values: ['ownership_transferred'] },
+      data: { type: 'object', label: 'Transfer', required: true, eventTypeField: 'eventType' },
+      signer: user('Signer'),
+      signature: { type: 'string', label: 'Signature' }
+    }
+  },
+  {
+    id: 'product_verified',
+    version: 1,
+    title: 'Product verified',
+    operations: ['verify_product'],
+    fields: {
+      shipmentId,
+      temperature: { type: 'number', label: 'Temperature', required: true, unit: '°C' },
+      humidity: { type: 'number', label: 'Humidity', required: true, unit: '%' },
+      isIntact: { type: 'boolean', label: 'Intact', required: true },
+      verified: { type: 'boolean', label: 'Verified', required: true }
+    }
+  },
+  {
+    id: 'payment_settled',
+    version: 1,
+    title: 'Payment settled',
+    operations: ['settle_payment'],
+    fields: {
+      shipmentId,
+      settlementId: { type: 'string', label: 'Settlement', required: true },
+      amount: { type: 'number', label: 'Amount', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'payment_released',
+    version: 1,
+    title: 'Payment released',
+    operations: ['release_payment'],
+    fields: {
+      shipmentId,
+      paymentId: { type: 'string', label: 'Payment', required: true },
+      amount: { type: 'number', label: 'Amount', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      recipientId: user('Recipient'),
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'carbon_credits_issued',
+    version: 1,
+    title: 'Carbon credits issued',
+    operations: ['carbon_credits'],
+    fields: {
+      shipmentId,
+      carbonSaved: { type: 'number', label: 'Carbon saved', required: true, unit: 'kg CO2e' },
+      tokens: { type: 'number', label: 'Credits', required: true, unit: 'credits' }
+    }
+  },
+  {
+    id: 'carbon_credits_scored',
+    version: 1,
+    title: 'Carbon credits issued',
+    operations: ['carbon-credits'],
+    fields: {
+      shipmentId,
+      sustainabilityScore: { type: 'number', label: 'Sustainability score', required: true, unit: '/ 100' },
+      tokens: { type: 'integer', label: 'Credits', required: true, unit: 'credits' }
+    }
+  },
+  {
+    id: 'customs_cleared',
+    version: 1,
+    title: 'Customs cleared',
+    operations: ['customs_clearance'],
+    fields: {
+      shipmentId,
+      countryCode: { type: 'string', label: 'Country', required: true },
+      declarationId: { type: 'string', label: 'Declaration', required: true },
+      clearanceDate: { type: 'timestamp', label: 'Cleared at', required: true },
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'dispute_opened',
+    version: 1,
+    title: 'Dispute opened',
+    operations: ['create_dispute'],
+    fields: {
+      shipmentId,
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      reason: { type: 'string', label: 'Reason', required: true },
+      claimantId: user('Claimant'),
+      respondentId: user('Respondent'),
+      evidenceHashes: { type: 'array', label: 'Evidence', required: true, items: { type: 'hash', label: 'Evidence hash' } },
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'dispute_opened',
+    version: 2,
+    title: 'Dispute opened',
+    operations: ['create_dispute'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      claimantId: user('Claimant'),
+      respondentId: user('Respondent'),
+      reason: { type: 'string', label: 'Reason', required: true },
+      amountClaimed: { type: 'number', label: 'Claimed', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      responseDueAt: { type: 'timestamp', label: 'Response due', required: true },
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'dispute_settled',
+    version: 1,
+    title: 'Dispute settled',
+    operations: ['settle_dispute'],
+    fields: {
+      shipmentId,
+      settlementId: { type: 'string', label: 'Settlement', required: true },
+      resolution: { type: 'string', label: 'Resolution', required: true },
+      refundAmount: { type: 'number', label: 'Refund', unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency' },
+      refundTo: user('Refunded to', false),
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'dispute_settled',
+    version: 2,
+    title: 'Dispute settled',
+    operations: ['settle_dispute'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      settlementId: { type: 'string', label: 'Settlement', required: true },
+      proposedBy: user('Proposed by'),
+      claimantId: user('Claimant'),
+      respondentId: user('Respondent'),
+      amount: { type: 'number', label: 'Settled for', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      termsHash: { type: 'hash', label: 'Terms hash', required: true },
+      status: { type: 'string', label: 'Status', required: true }
+    }
+  },
+  {
+    id: 'contract_executed',
+    version: 1,
+    title: 'Contract executed',
+    operations: ['execute-contract'],
+    fields: {
+      contractType: { type: 'string', label: 'Contract type', required: true },
+      eventEmitted: { type: 'string', label: 'Event emitted', required: true },
+      success: { type: 'boolean', label: 'Succeeded', required: true },
+      payload: { type: 'object', label: 'Contract input', required: true }
+    }
+  },
+  {
+    id: 'contract_deployed',
+    version: 1,
+    title: 'Contract deployed',
+    operations: ['create_smart_contract'],
+    fields: {
+      contractId: { type: 'string', label: 'Contract', required: true },
+      contractType: { type: 'string', label: 'Contract type', required: true },
+      parties: { type: 'array', label: 'Parties', required: true, items: { type: 'string', label: 'Party', link: 'user' } },
+      terms: { type: 'object', label: 'Terms' }
+    }
+  },
+  {
+    id: 'contract_transitioned',
+    version: 1,
+    title: 'Contract transitioned',
+    operations: ['contract_transition'],
+    fields: {
+      contractId: { type: 'string', label: 'Contract', required: true },
+      contractType: { type: 'string', label: 'Contract type', required: true },
+      shipmentId: { ...shipmentId, required: false },
+      transition: { type: 'string', label: 'Transition', required: true },
+      from: { type: 'string', label: 'From', required: true, values: contractStates },
+      to: { type: 'string', label: 'To', required: true, values: contractStates },
+      guards: {
+        type: 'array',
+        label: 'Guards',
+        required: true,
+        items: {
+          type: 'object',
+          label: 'Guard',
+          fields: {
+            guard: { type: 'string', label: 'Guard', required: true },
+            passed: { type: 'boolean', label: 'Passed', required: true },
+            detail: { type: 'string', label: 'Detail', required: true }
+          }
+        }
+      },
+      reason: { type: 'string', label: 'Reason' }
+    }
+  },
+  {
+    id: 'escrow_deposited',
+    version: 1,
+    title: 'Escrow funded',
+    operations: ['escrow_deposit'],
+    fields: escrowMovementFields
+  },
+  {
+    id: 'escrow_released',
+    version: 1,
+    title: 'Escrow released',
+    operations: ['escrow_release'],
+    fields: {
+      ...escrowMovementFields,
+      lateDays: { type: 'integer', label: 'Days late', required: true, unit: 'days' },
+      damaged: { type: 'boolean', label: 'Damaged', required: true },
+      refunded: { type: 'number', label: 'Refunded', required: true, unitField: 'currency' }
+    }
+  },
+  {
+    id: 'escrow_refunded',
+    version: 1,
+    title: 'Escrow refunded',
+    operations: ['escrow_refund'],
+    fields: {
+      ...escrowMovementFields,
+      reason: { type: 'string', label: 'Reason', required: true, values: ['late', 'damaged', 'late_and_damaged', 'terminated'] },
+      lateDays: { type: 'integer', label: 'Days late', unit: 'days' },
+      damaged: { type: 'boolean', label: 'Damaged' }
+    }
+  },
+  {
+    id: 'sla_penalty_charged',
+    version: 1,
+    title: 'SLA penalty charged',
+    operations: ['sla_penalty'],
+    fields: {
+      penaltyId: { type: 'string', label: 'Penalty', required: true },
+      contractId: { type: 'string', label: 'Contract', required: true },
+      shipmentId,
+      responsibleId: user('Charged to'),
+      amount: { type: 'number', label: 'Penalty', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      deliverBy: { type: 'timestamp', label: 'Due by', required: true },
+      deliveredAt: { type: 'timestamp', label: 'Delivered at', required: true },
+      lateMinutes: { type: 'integer', label: 'Late', required: true, unit: 'min' },
+      excusedMinutes: { type: 'integer', label: 'Excused', required: true, unit: 'min' },
+      graceMinutes: { type: 'integer', label: 'Grace period', required: true, unit: 'min' },
+      unitsLate: { type: 'integer', label: 'Charged for', required: true, unitField: 'penaltyUnit' },
+      penaltyUnit: { type: 'string', label: 'Per', required: true, values: ['hour', 'day'] },
+      capped: { type: 'boolean', label: 'Capped', required: true },
+      excusedCauses: { type: 'array', label: 'Excused causes', items: { type: 'string', label: 'Cause' } }
+    }
+  },
+  {
+    id: 'cold_chain_claim_opened',
+    version: 1,
+    title: 'Cold-chain claim opened',
+    operations: ['cold_chain_claim'],
+    fields: {
+      claimId: { type: 'string', label: 'Claim', required: true },
+      contractId: { type: 'string', label: 'Contract', required: true },
+      shipmentId,
+      claimantId: user('Claimant'),
+      respondentId: user('Respondent'),
+      productType: { type: 'string', label: 'Product type', required: true },
+      minTemperature: { type: 'number', label: 'Lowest temperature allowed', required: true, unit: '°C' },
+      maxTemperature: { type: 'number', label: 'Highest temperature allowed', required: true, unit: '°C' },
+      minHumidity: { type: 'number', label: 'Lowest humidity allowed', unit: '%' },
+      maxHumidity: { type: 'number', label: 'Highest humidity allowed', unit: '%' },
+      excursionMinutes: { type: 'integer', label: 'Out of range', required: true, unit: 'min' },
+      maxExcursionMinutes: { type: 'integer', label: 'Allowed out of range', required: true, unit: 'min' },
+      evidence: {
+        type: 'array',
+        label: 'Evidence',
+        required: true,
+        items: {
+          type: 'object',
+          label: 'Reading',
+          fields: {
+            readingId: { type: 'string', label: 'Reading', required: true },
+            timestamp: { type: 'timestamp', label: 'Taken at', required: true },
+            temperature: { type: 'number', label: 'Temperature', unit: '°C' },
+            humidity: { type: 'number', label: 'Humidity', unit: '%' },
+            leafHash: { type: 'hash', label: 'Leaf hash', required: true }
+          }
+        }
+      }
+    }
+  },
+  {
+    id: 'dispute_evidence_added',
+    version: 1,
+    title: 'Dispute evidence added',
+    operations: ['dispute_evidence'],
+    fields: {
+      evidenceId: { type: 'string', label: 'Evidence', required: true },
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      submittedBy: user('Submitted by'),
+      party: { type: 'string', label: 'Party', required: true, values: ['claimant', 'respondent', 'arbiter'] },
+      fileName: { type: 'string', label: 'File', required: true },
+      fileHash: { type: 'hash', label: 'File hash', required: true },
+      sizeBytes: { type: 'integer', label: 'Size', required: true, unit: 'bytes' }
+    }
+  },
+  {
+    id: 'dispute_responded',
+    version: 1,
+    title: 'Dispute answered',
+    operations: ['dispute_response'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      respondentId: user('Respondent'),
+      statementHash: { type: 'hash', label: 'Statement hash', required: true },
+      respondedAt: { type: 'timestamp', label: 'Answered at', required: true }
+    }
+  },
+  {
+    id: 'dispute_escalated',
+    version: 1,
+    title: 'Dispute sent to arbitration',
+    operations: ['escalate_dispute'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      reason: { type: 'string', label: 'Reason', required: true, values: ['response_overdue', 'requested'] },
+      requestedBy: user('Requested by', false),
+      responseDueAt: { type: 'timestamp', label: 'Response was due', required: true }
+    }
+  },
+  {
+    id: 'dispute_arbiter_assigned',
+    version: 1,
+    title: 'Dispute arbiter assigned',
+    operations: ['assign_dispute_arbiter'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      arbiterId: user('Arbiter'),
+      assignedBy: user('Assigned by', false)
+    }
+  },
+  {
+    id: 'dispute_ruled',
+    version: 1,
+    title: 'Dispute ruled on',
+    operations: ['dispute_ruling'],
+    fields: {
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      arbiterId: user('Arbiter'),
+      claimantId: user('Claimant'),
+      respondentId: user('Respondent'),
+      outcome: { type: 'string', label: 'In favour of', required: true, values: ['claimant', 'respondent', 'split'] },
+      award: { type: 'number', label: 'Award', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      rulingHash: { type: 'hash', label: 'Ruling hash', required: true }
+    }
+  },
+  {
+    id: 'dispute_payment_made',
+    version: 1,
+    title: 'Dispute award paid',
+    operations: ['dispute_payment'],
+    fields: {
+      paymentId: { type: 'string', label: 'Payment', required: true },
+      disputeId: { type: 'string', label: 'Dispute', required: true },
+      shipmentId,
+      payerId: user('Paid by'),
+      payeeId: user('Paid to'),
+      amount: { type: 'number', label: 'Amount', required: true, unitField: 'currency' },
+      currency: { type: 'string', label: 'Currency', required: true },
+      basis: { type: 'string', label: 'Under', required: true, values: ['settlement', 'ruling'] }
+    }
+  },
+  {
+    id: 'supply_chain_event',
+    version: 1,
+    title: 'Supply chain event',
+    operations: ['record_event'],
+    fields: {
+      shipmentId,
+      eventType: { type: 'string', label: 'Event type', required: true },
+      data: { type: 'object', label: 'Event', required: true, eventTypeField: 'eventType' },
+      signer: user('Signer'),
+      signature: { type: 'string', label: 'Signature' }
+    }
+  },
+  {
+    id: 'document_anchored',
+    version: 1,
+    title: 'Document added',
+    operations: ['add_document'],
+    fields: {
+      shipmentId,
+      documentId: { type: 'string', label: 'Document', required: true },
+      documentType: { type: 'string', label: 'Document type', required: true },
+      documentHash: { type: 'string', label: 'Document hash', required: true },
+      signer: user('Signer'),
+      signature: { type: 'string', label: 'Signature' }
+    }
+  },
+  {
+    id: 'consortium_started',
+    version: 1,
+    title: 'Consortium started',
+    operations: ['consortium_genesis'],
+    fields: {
+      validators: {
+        type: 'array',
+        label: 'Validators',
+        required: true,
+        items: {
+          type: 'object',
+          label: 'Validator',
+          fields: {
+            address: { type: 'string', label: 'Address', required: true },
+            organisation: { type: 'string', label: 'Organisation', required: true },
+            publicKey: { type: 'object', label: 'Public key', required: true }
+          }
+        }
+      }
+    }
+  },
+  {
+    id: 'validator_vote',
+    version: 1,
+    title: 'Validator vote',
+    operations: ['validator_vote'],
+    fields: {
+      action: { type: 'string', label: 'Action', required: true, values: ['add', 'remove'] },
+      validator: { type: 'string', label: 'Validator', required: true },
+      organisation: { type: 'string', label: 'Organisation', required: true },
+      publicKey: { type: 'object', label: 'Public key' }
+    }
+  },
+
+  // Shipment events; the event data also carries its type in a 'type' field
+  {
+    id: 'created_event',
+    version: 1,
+    title: 'Shipment created',
+    eventType: 'created',
+    fields: {
+      origin: { type: 'string', label: 'Origin' },
+      destination: { type: 'string', label: 'Destination' },
+      transportType: { type: 'string', label: 'Transport type' }
+    }
+  },
+  {
+    id: 'status_updated_event',
+    version: 1,
+    title: 'Status updated',
+    eventType: 'status_updated',
+    fields: {
+      status: { type: 'string', label: 'Status', required: true },
+      location,
+      notes: { type: 'string', label: 'Notes' }
+    }
+  },
+  {
+    id: 'location_updated_event',
+    version: 1,
+    title: 'Location updated',
+    eventType: 'location_updated',
+    fields: {
+      location: { ...location, required: true },
+      locationName: { type: 'string', label: 'Place' }
+    }
+  },
+  {
+    id: 'document_added_event',
+    version: 1,
+    title: 'Document added',
+    eventType: 'document_added',
+    fields: {
+      documentId: { type: 'string', label: 'Document', required: true },
+      documentType: { type: 'string', label: 'Document type', required: true },
+      documentHash: { type: 'string', label: 'Document hash', required: true },
+      timestamp: { type: 'timestamp', label: 'Added at', required: true }
+    }
+  },
+  {
+    id: 'customs_cleared_event',
+    version: 1,
+    title: 'Customs cleared',
+    eventType: 'customs_cleared',
+    fields: {
+      countryCode: { type: 'string', label: 'Country', required: true },
+      declarationId: { type: 'string', label: 'Declaration' }
+    }
+  },
+  {
+    id: 'delivered_event',
+    version: 1,
+    title: 'Delivered',
+    eventType: 'delivered',
+    fields: {
+      recipientName: { type: 'string', label: 'Received by' },
+      deliveredAt: { type: 'timestamp', label: 'Delivered at' }
+    }
+  },
+  {
+    id: 'delivered_event',
+    version: 2,
+    title: 'Delivered',
+    eventType: 'delivered',
+    fields: {
+      recipientName: { type: 'string', label: 'Received by' },
+      deliveredAt: { type: 'timestamp', label: 'Delivered at' },
+      // A damaged delivery refunds part of the shipment's escrow
+      condition: { type: 'string', label: 'Condition', values: ['intact', 'damaged'] },
+      damageNotes: { type: 'string', label: 'Damage' }
+    }
+  },
+  {
+    id: 'delay_reported_event',
+    version: 1,
+    title: 'Delay reported',
+    eventType: 'delay_reported',
+    fields: {
+      // An SLA can exclude delays by cause, such as weather
+      cause: { type: 'string', label: 'Cause', required: true, values: ['weather', 'traffic', 'customs', 'mechanical', 'other'] },
+      delayHours: { type: 'number', label: 'Delay', required: true, unit: 'h' },
+      description: { type: 'string', label: 'Description' },
+      // The weather alert it was reported from
+      alertId: { type: 'string', label: 'Alert' }
+    }
+  },
+  {
+    id: 'ownership_transferred_event',
+    version: 1,
+    title: 'Ownership transferred',
+    eventType: 'ownership_transferred',
+    fields: {
+      fromParticipant: user('From'),
+      toParticipant: user('To'),
+      transferTime: { type: 'timestamp', label: 'Transferred at', required: true },
+      reason: { type: 'string', label: 'Reason' }
+    }
+  }
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const byNewestVersion = (a: PayloadSchema, b: PayloadSchema) => (a.id === b.id ? b.version - a.version : 0);
+
+// Schemas for a ledger operation, in registry order with newer versions of a schema first
+export function getOperationSchemas(operation: string): PayloadSchema[] {
+  return PAYLOAD_SCHEMAS.filter((schema) => schema.operations?.includes(operation)).sort(byNewestVersion);
+}
+
+// Latest schema for a shipment event type
+export function getEventSchema(eventType: string): PayloadSchema | null {
+  return PAYLOAD_SCHEMAS
+    .filter((schema) => schema.eventType === eventType)
+    .reduce<PayloadSchema | null>((latest, schema) => (!latest || schema.version > latest.version ? schema : latest), null);
+}
+
+function checkValue(field: FieldSchema, value: unknown, path: string, problems: string[]): void {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') problems.push(`${path} must be a string`);
+      else if (field.values && !field.values.includes(value)) problems.push(`${path} must be one of ${field.values.join(', ')}`);
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) problems.push(`${path} must be a number`);
+      break;
+    case 'integer':
+      if (!Number.isInteger(value)) problems.push(`${path} must be an integer`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') problems.push(`${path} must be true or false`);
+      break;
+    case 'timestamp':
+      // ISO 8601 strings or milliseconds since the epoch
+      if (!(typeof value === 'number' && Number.isFinite(value)) && !(typeof value === 'string' && !Number.isNaN(Date.parse(value)))) {
+        problems.push(`${path} must be a timestamp`);
+      }
+      break;
+    case 'hash':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]+$/.test(value)) problems.push(`${path} must be a 0x-prefixed hex hash`);
+      break;
+    case 'object':
+      if (!isRecord(value)) problems.push(`${path} must be an object`);
+      else if (field.fields) checkFields(field.fields, value, `${path}.`, problems);
+      break;
+    case 'array':
+      if (!Array.isArray(value)) problems.push(`${path} must be an array`);
+      else if (field.items) value.forEach((item, index) => checkValue(field.items as FieldSchema, item, `${path}[${index}]`, problems));
+      break;
+  }
+}
+
+function checkFields(fields: Record<string, FieldSchema>, payload: Record<string, unknown>, prefix: string, problems: string[]): void {
+  for (const [key, field] of Object.entries(fields)) {
+    const value = payload[key];
+    if (value === undefined || value === null) {
+      if (field.required) problems.push(`${prefix}${key} is required`);
+      continue;
+    }
+    checkValue(field, value, `${prefix}${key}`, problems);
+  }
+}
+
+// Problems with a payload under a schema; empty when it conforms
+export function validatePayload(schema: PayloadSchema, payload: unknown): string[] {
+  if (!isRecord(payload)) return ['payload must be an object'];
+
+  const problems: string[] = [];
+  checkFields(schema.fields, payload, '', problems);
+
+  // Event data nested in a payload is checked against its own event schema
+  for (const [key, field] of Object.entries(schema.fields)) {
+    const eventType = field.eventTypeField ? payload[field.eventTypeField] : undefined;
+    if (typeof eventType !== 'string' || !isRecord(payload[key])) continue;
+
+    const eventSchema = getEventSchema(eventType);
+    if (!eventSchema) {
+      problems.push(`No schema is registered for ${eventType} events`);
+    } else {
+      problems.push(...validatePayload(eventSchema, payload[key]).map((problem) => `${key}.${problem}`));
+    }
+  }
+
+  return problems;
+}
+
+// Why a ledger payload can't be recorded under its operation, or null when it matches a registered schema
+export function validateOperationPayload(operation: string, payload: unknown): string | null {
+  const schemas = getOperationSchemas(operation);
+  if (schemas.length === 0) {
+    return `No payload schema is registered for ${operation}`;
+  }
+
+  // Report against the schema the payload comes closest to
+  let closest: string[] | null = null;
+  for (const schema of schemas) {
+    const problems = validatePayload(schema, payload);
+    if (problems.length === 0) return null;
+    if (!closest || problems.length < closest.length) closest = problems;
+  }
+
+  return `Invalid ${operation} payload: ${(closest ?? []).join('; ')}`;
+}
+
+// Why shipment event data can't be recorded, or null when it matches its event schema
+export function validateEventData(eventType: string, data: unknown): string | null {
+  const schema = getEventSchema(eventType);
+  if (!schema) {
+    return `No schema is registered for ${eventType} events`;
+  }
+
+  const problems = validatePayload(schema, data);
+  return problems.length === 0 ? null : `Invalid ${eventType} event: ${problems.join('; ')}`;
+}
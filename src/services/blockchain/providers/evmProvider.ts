@@ -0,0 +1,265 @@
+import { Block, Transaction } from '../types';
+import { canonicalize } from '../ledger';
+import { buildShipmentRecord, payloadMatchesShipment, payloadMentionsParticipant } from './shipmentRecords';
+import { EvmProviderConfig, LedgerProvider, LedgerRecord } from './types';
+
+// Shapes of the JSON-RPC results we read; quantities are hex strings
+interface RpcTransaction {
+  hash: string;
+  blockNumber: string | null;
+  from: string;
+  to: string | null;
+  input: string;
+}
+
+interface RpcReceipt {
+  status: string;
+  blockNumber: string;
+}
+
+interface RpcBlock {
+  number: string;
+  hash: string;
+  parentHash: string;
+  transactionsRoot: string;
+  timestamp: string;
+  transactions: RpcTransaction[];
+}
+
+// Block fetched without full transactions: only their hashes
+type RpcBlockHeader = Omit<RpcBlock, 'transactions'> & { transactions: string[] };
+
+interface EncodedLedgerWrite {
+  operation: string;
+  payload: unknown;
+}
+
+const encodeLedgerWrite = (write: EncodedLedgerWrite): string =>
+  '0x' + Array.from(new TextEncoder().encode(canonicalize(write)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// Decode calldata written by encodeLedgerWrite; anything else is not one of ours
+const decodeLedgerWrite = (input: string): EncodedLedgerWrite | null => {
+  const hex = input.startsWith('0x') ? input.slice(2) : input;
+  if (hex.length === 0 || hex.length % 2 !== 0) return null;
+
+  try {
+    const bytes = new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+    const decoded = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+    return typeof decoded?.operation === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+const toHexQuantity = (value: number): string => '0x' + value.toString(16);
+
+const toBlock = (block: RpcBlock | RpcBlockHeader): Block => ({
+  number: parseInt(block.number, 16),
+  hash: block.hash,
+  previousHash: block.parentHash,
+  transactionsRoot: block.transactionsRoot,
+  transactionCount: block.transactions.length,
+  timestamp: parseInt(block.timestamp, 16) * 1000
+});
+
+// Adapter for an EVM JSON-RPC node such as a local Hardhat or Anvil dev chain.
+// Each ledger write is a plain transaction to the configured contract address
+// whose calldata is the canonical JSON of the operation and payload.
+export const createEvmLedgerProvider = (config: EvmProviderConfig): LedgerProvider => {
+  let requestId = 0;
+
+  const rpc = async <T>(method: string, params: unknown[]): Promise<T> => {
+    const response = await fetch(config.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params })
+    });
+
+    if (!response.ok) {
+      throw new Error(`JSON-RPC ${method} failed with HTTP ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (body.error) {
+      throw new Error(`JSON-RPC ${method} failed: ${body.error.message}`);
+    }
+    return body.result as T;
+  };
+
+  const getSenderAddress = async (): Promise<string> => {
+    if (config.fromAddress) return config.fromAddress;
+
+    const accounts = await rpc<string[]>('eth_accounts', []);
+    if (accounts.length === 0) {
+      throw new Error('The EVM node has no unlocked accounts; set VITE_EVM_FROM_ADDRESS');
+    }
+    return accounts[0];
+  };
+
+  const isLedgerWrite = (tx: RpcTransaction): boolean =>
+    tx.to !== null && tx.to.toLowerCase() === config.contractAddress.toLowerCase();
+
+  const getHeadBlockNumber = async (): Promise<number> =>
+    parseInt(await rpc<string>('eth_blockNumber', []), 16);
+
+  const toTransaction = async (tx: RpcTransaction, blockTimestamp?: string): Promise<Transaction> => {
+    const decoded = decodeLedgerWrite(tx.input);
+    const data = decoded ? JSON.stringify(decoded.payload) : tx.input;
+
+    if (tx.blockNumber === null) {
+      return {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to || '',
+        data,
+        timestamp: Date.now(),
+        status: 'pending',
+        operation: decoded?.operation,
+        confirmations: 0
+      };
+    }
+
+    const receipt = await rpc<RpcReceipt | null>('eth_getTransactionReceipt', [tx.hash]);
+    const timestamp = blockTimestamp
+      ?? (await rpc<RpcBlock>('eth_getBlockByNumber', [tx.blockNumber, false])).timestamp;
+    const blockNumber = parseInt(tx.blockNumber, 16);
+    const reverted = receipt !== null && receipt.status === '0x0';
+
+    return {
+      hash: tx.hash,
+      blockNumber,
+      from: tx.from,
+      to: tx.to || '',
+      data,
+      timestamp: parseInt(timestamp, 16) * 1000,
+      status: reverted ? 'failed' : 'confirmed',
+      operation: decoded?.operation,
+      confirmations: (await getHeadBlockNumber()) - blockNumber + 1,
+      failureReason: reverted ? 'Transaction reverted' : undefined
+    };
+  };
+
+  const getBlockWithTransactions = (blockNumber: number): Promise<RpcBlock | null> =>
+    rpc<RpcBlock | null>('eth_getBlockByNumber', [toHexQuantity(blockNumber), true]);
+
+  const getTransaction: LedgerProvider['getTransaction'] = async (hash) => {
+    const tx = await rpc<RpcTransaction | null>('eth_getTransactionByHash', [hash]);
+    return tx ? toTransaction(tx) : null;
+  };
+
+  const findRecords: LedgerProvider['findRecords'] = async (filter) => {
+    const head = await getHeadBlockNumber();
+    const records: LedgerRecord[] = [];
+
+    for (let number = Math.max(0, head - config.scanBlocks + 1); number <= head; number++) {
+      const block = await getBlockWithTransactions(number);
+      if (!block) continue;
+
+      for (const tx of block.transactions.filter(isLedgerWrite)) {
+        const decoded = decodeLedgerWrite(tx.input);
+        if (!decoded) continue;
+        if (filter.operation && decoded.operation !== filter.operation) continue;
+        if (filter.shipmentId && !payloadMatchesShipment(decoded.payload, filter.shipmentId)) continue;
+        if (filter.participantId && !payloadMentionsParticipant(decoded.payload, filter.participantId)) continue;
+
+        records.push({
+          transaction: await toTransaction(tx, block.timestamp),
+          operation: decoded.operation,
+          payload: decoded.payload
+        });
+      }
+    }
+
+    return records;
+  };
+
+  return {
+    name: 'evm',
+
+    requiredConfirmations: 3,
+
+    getWalletAddress: getSenderAddress,
+
+    submitTransaction: async ({ operation, payload }) => {
+      const hash = await rpc<string>('eth_sendTransaction', [{
+        from: await getSenderAddress(),
+        to: config.contractAddress,
+        data: encodeLedgerWrite({ operation, payload: payload ?? {} })
+      }]);
+
+      const tx = await getTransaction(hash);
+      if (!tx) {
+        throw new Error(`Transaction ${hash} was not found after sending`);
+      }
+      return tx;
+    },
+
+    getTransaction,
+
+    getRecentTransactions: async (limit) => {
+      const head = await getHeadBlockNumber();
+      const transactions: Transaction[] = [];
+
+      for (let number = head; number >= 0 && number > head - config.scanBlocks; number--) {
+        const block = await getBlockWithTransactions(number);
+        if (!block) continue;
+
+        for (const tx of [...block.transactions].reverse().filter(isLedgerWrite)) {
+          transactions.push(await toTransaction(tx, block.timestamp));
+          if (transactions.length >= limit) return transactions;
+        }
+      }
+
+      return transactions;
+    },
+
+    findRecords,
+
+    getShipment: async (shipmentId) => buildShipmentRecord(shipmentId, await findRecords({ shipmentId })),
+
+    getLatestBlocks: async (limit) => {
+      const head = await getHeadBlockNumber();
+      const blocks: Block[] = [];
+
+      for (let number = head; number >= 0 && number > head - limit; number--) {
+        const block = await rpc<RpcBlockHeader | null>('eth_getBlockByNumber', [toHexQuantity(number), false]);
+        if (block) blocks.push(toBlock(block));
+      }
+
+      return blocks;
+    },
+
+    // Includes every transaction in the block, not only ledger writes
+    getBlock: async (blockNumber) => {
+      const block = await getBlockWithTransactions(blockNumber);
+      if (!block) return null;
+
+      const transactions: Transaction[] = [];
+      for (const tx of block.transactions) {
+        transactions.push(await toTransaction(tx, block.timestamp));
+      }
+      return { ...toBlock(block), transactions };
+    },
+
+    getTransactionsByAddress: async (address, limit) => {
+      const normalized = address.toLowerCase();
+      const head = await getHeadBlockNumber();
+      const transactions: Transaction[] = [];
+
+      for (let number = head; number >= 0 && number > head - config.scanBlocks; number--) {
+        const block = await getBlockWithTransactions(number);
+        if (!block) continue;
+
+        for (const tx of [...block.transactions].reverse()) {
+          if (tx.from.toLowerCase() !== normalized && tx.to?.toLowerCase() !== normalized) continue;
+          transactions.push(await toTransaction(tx, block.timestamp));
+          if (transactions.length >= limit) return transactions;
+        }
+      }
+
+      return transactions;
+    }
+  };
+};
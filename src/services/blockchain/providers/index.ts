@@ -0,0 +1,59 @@
+import { MOCK_CONTRACT_ADDRESS } from '../mockUtils';
+import { createEvmLedgerProvider } from './evmProvider';
+import { createMockLedgerProvider } from './mockProvider';
+import { createPostgresLedgerProvider } from './postgresProvider';
+import { LedgerProvider, LedgerProviderConfig, LedgerProviderName } from './types';
+
+const PROVIDER_NAMES: LedgerProviderName[] = ['mock', 'postgres', 'evm'];
+
+// Writes reach the persistent ledger unless another provider is asked for
+const DEFAULT_PROVIDER: LedgerProviderName = 'postgres';
+
+// Read the provider configuration from the VITE_LEDGER_* / VITE_EVM_* environment variables
+export const getLedgerProviderConfig = (): LedgerProviderConfig => {
+  const env = import.meta.env;
+  const requested = (env.VITE_LEDGER_PROVIDER || DEFAULT_PROVIDER) as LedgerProviderName;
+  const isKnown = PROVIDER_NAMES.includes(requested);
+
+  if (!isKnown) {
+    console.warn(`Unknown ledger provider "${requested}", falling back to the ${DEFAULT_PROVIDER} ledger`);
+  }
+
+  return {
+    provider: isKnown ? requested : DEFAULT_PROVIDER,
+    evm: {
+      rpcUrl: env.VITE_EVM_RPC_URL || 'http://127.0.0.1:8545',
+      contractAddress: env.VITE_EVM_CONTRACT_ADDRESS || MOCK_CONTRACT_ADDRESS,
+      fromAddress: env.VITE_EVM_FROM_ADDRESS || undefined,
+      scanBlocks: Number(env.VITE_EVM_SCAN_BLOCKS) || 256
+    }
+  };
+};
+
+export const createLedgerProvider = (config: LedgerProviderConfig): LedgerProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockLedgerProvider();
+    case 'evm':
+      return createEvmLedgerProvider(config.evm);
+    default:
+      return createPostgresLedgerProvider();
+  }
+};
+
+let activeProvider: LedgerProvider | null = null;
+
+// The provider every blockchain service module records to, created on first use
+export const getLedgerProvider = (): LedgerProvider => {
+  if (!activeProvider) {
+    activeProvider = createLedgerProvider(getLedgerProviderConfig());
+  }
+  return activeProvider;
+};
+
+// Swap the active provider at runtime, e.g. to point a session at a local dev node
+export const setLedgerProvider = (provider: LedgerProvider): void => {
+  activeProvider = provider;
+};
+
+export * from './types';
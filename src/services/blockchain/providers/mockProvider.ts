@@ -0,0 +1,116 @@
+import { ShipmentRecord } from '../types';
+import { MOCK_CONTRACT_ADDRESS, MOCK_WALLET_ADDRESS, generateTransactionHash } from '../mockUtils';
+import { mockNow } from '../../mock';
+import {
+  getBlock,
+  getLedgerEntry,
+  getLedgerTransactions,
+  getRecentBlocks,
+  getRecentLedgerTransactions,
+  getTransaction,
+  submitToMempool
+} from '../ledger';
+import { withLedgerFaults } from '../faults';
+import { getActiveWalletAddress } from '../wallet';
+import { buildShipmentRecord, payloadMatchesShipment, payloadMentionsParticipant } from './shipmentRecords';
+import { LedgerProvider, LedgerRecord } from './types';
+
+// Demo shipment returned when nothing has been recorded for SH-2025-001
+const getDemoShipment = (now: number = mockNow()): ShipmentRecord => ({
+  id: 'SH-2025-001',
+  owner: MOCK_WALLET_ADDRESS,
+  origin: 'New York, USA',
+  destination: 'Toronto, Canada',
+  productType: 'Medical Supplies',
+  quantity: 250,
+  carbonFootprint: 35,
+  status: 'in-transit',
+  timestamps: {
+    created: now - 86400000 * 2, // 2 days ago
+    inTransit: now - 86400000, // 1 day ago
+  },
+  sensorData: [
+    {
+      timestamp: now - 3600000 * 2,
+      temperature: 4.2,
+      humidity: 45,
+      location: { lat: 40.7128, long: -74.006 },
+      transactionHash: generateTransactionHash()
+    },
+    {
+      timestamp: now - 3600000,
+      temperature: 4.5,
+      humidity: 47,
+      location: { lat: 41.2033, long: -73.9185 },
+      transactionHash: generateTransactionHash()
+    }
+  ],
+  transactionHash: generateTransactionHash()
+});
+
+// In-memory provider backed by the browser hash chain in ../ledger.ts, with the
+// fault rules from ../faults.ts applied to every call
+export const createMockLedgerProvider = (): LedgerProvider => {
+  const findRecords: LedgerProvider['findRecords'] = async (filter) => {
+    const records: LedgerRecord[] = [];
+
+    for (const transaction of getLedgerTransactions()) {
+      // Reverted transactions are on the chain but changed nothing
+      if (transaction.status === 'failed') continue;
+      const entry = getLedgerEntry(transaction.hash);
+      if (!entry) continue;
+      if (filter.operation && entry.operation !== filter.operation) continue;
+      if (filter.shipmentId && !payloadMatchesShipment(entry.payload, filter.shipmentId)) continue;
+      if (filter.participantId && !payloadMentionsParticipant(entry.payload, filter.participantId)) continue;
+
+      records.push({ transaction, operation: entry.operation, payload: entry.payload });
+    }
+
+    return records;
+  };
+
+  return withLedgerFaults({
+    name: 'mock',
+
+    // The mock chain keeps producing empty blocks after a write, so confirmations keep coming
+    requiredConfirmations: 3,
+
+    getWalletAddress: async () => getActiveWalletAddress(),
+
+    // Sent from the signed-in user's wallet
+    submitTransaction: ({ operation, payload }) =>
+      submitToMempool({
+        from: getActiveWalletAddress(),
+        to: MOCK_CONTRACT_ADDRESS,
+        operation,
+        payload
+      }),
+
+    getTransaction: async (hash) => getTransaction(hash),
+
+    getRecentTransactions: async (limit) => getRecentLedgerTransactions(limit),
+
+    findRecords,
+
+    getShipment: async (shipmentId) => {
+      const shipment = buildShipmentRecord(shipmentId, await findRecords({ shipmentId }));
+      if (!shipment && shipmentId === 'SH-2025-001') {
+        return getDemoShipment();
+      }
+      return shipment;
+    },
+
+    // The explorer shows headers only, so the transaction lists are dropped
+    getLatestBlocks: async (limit) => getRecentBlocks(limit).map(({ transactions: _transactions, ...header }) => header),
+
+    getBlock: async (blockNumber) => getBlock(blockNumber),
+
+    getTransactionsByAddress: async (address, limit) => {
+      const normalized = address.toLowerCase();
+      return getLedgerTransactions()
+        .filter(tx => tx.from.toLowerCase() === normalized || tx.to.toLowerCase() === normalized)
+        .reverse()
+        .slice(0, limit);
+    }
+  });
+};
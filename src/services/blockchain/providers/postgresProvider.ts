@@ -0,0 +1,199 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Block, Transaction } from '../types';
+import { getActiveWalletAddress } from '../wallet';
+import { PARTICIPANT_PAYLOAD_KEYS, buildShipmentRecord } from './shipmentRecords';
+import { LedgerProvider, LedgerRecord } from './types';
+
+type LedgerTransactionRow = Database['public']['Tables']['ledger_transactions']['Row'];
+type LedgerBlockRow = Database['public']['Tables']['ledger_blocks']['Row'];
+
+const toBlock = (row: LedgerBlockRow): Block => ({
+  number: row.block_number,
+  hash: row.block_hash,
+  previousHash: row.previous_hash,
+  transactionsRoot: row.transactions_root,
+  transactionCount: row.transaction_count,
+  timestamp: row.timestamp,
+  proposer: row.proposer ?? undefined
+});
+
+const toTransaction = (row: LedgerTransactionRow, headBlockNumber: number | null): Transaction => ({
+  hash: row.tx_hash,
+  blockNumber: row.block_number ?? undefined,
+  from: row.from_address,
+  to: row.to_address,
+  data: JSON.stringify(row.payload),
+  timestamp: row.timestamp,
+  status: row.block_number === null ? 'pending' : 'confirmed',
+  operation: row.operation,
+  nonce: row.nonce ?? undefined,
+  confirmations: row.block_number !== null && headBlockNumber !== null ? headBlockNumber - row.block_number + 1 : 0
+});
+
+const getHeadBlockNumber = async (): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('ledger_blocks')
+    .select('block_number')
+    .order('block_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? data.block_number : null;
+};
+
+// Provider backed by the persistent hash chain in ledger_blocks / ledger_transactions.
+// Reads go straight to the tables; writes go through the blockchain-verify edge
+// function, since only the service role may append to the ledger.
+export const createPostgresLedgerProvider = (): LedgerProvider => {
+  const getTransaction: LedgerProvider['getTransaction'] = async (hash) => {
+    const { data, error } = await supabase
+      .from('ledger_transactions')
+      .select('*')
+      .eq('tx_hash', hash)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTransaction(data, await getHeadBlockNumber()) : null;
+  };
+
+  const findRecords: LedgerProvider['findRecords'] = async (filter) => {
+    // Payload keys each id may sit under. Every combination of keys is its own query,
+    // so ids typed into a search only ever reach PostgREST as .eq values and never
+    // as part of a filter string.
+    const keyChoices: [readonly string[], string][] = [];
+    if (filter.shipmentId) keyChoices.push([['shipmentId', 'id'], filter.shipmentId]);
+    if (filter.participantId) keyChoices.push([PARTICIPANT_PAYLOAD_KEYS, filter.participantId]);
+
+    const combinations = keyChoices.reduce<[string, string][][]>(
+      (combos, [keys, value]) => combos.flatMap(combo => keys.map((key): [string, string][] => [...combo, [key, value]])),
+      [[]]
+    );
+
+    const results = await Promise.all(combinations.map(async (combination) => {
+      let query = supabase.from('ledger_transactions').select('*');
+      if (filter.operation) {
+        query = query.eq('operation', filter.operation);
+      }
+      for (const [key, value] of combination) {
+        query = query.eq(`payload->>${key}`, value);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) throw error;
+      return rows || [];
+    }));
+
+    // Chain order, unsealed entries last, as one query ordering them would return
+    const data = Array.from(new Map(results.flat().map(row => [row.tx_hash, row])).values())
+      .sort((a, b) =>
+        (a.block_number ?? Number.MAX_SAFE_INTEGER) - (b.block_number ?? Number.MAX_SAFE_INTEGER) ||
+        (a.tx_index ?? 0) - (b.tx_index ?? 0) ||
+        a.created_at.localeCompare(b.created_at));
+
+    const head = await getHeadBlockNumber();
+    return data.map((row): LedgerRecord => ({
+      transaction: toTransaction(row, head),
+      operation: row.operation,
+      payload: row.payload
+    }));
+  };
+
+  return {
+    name: 'postgres',
+
+    // Blocks are append-only and only sealed on a write, so a sealed block is final
+    requiredConfirmations: 1,
+
+    // blockchain-verify sends a signed-in user's writes from their own wallet
+    getWalletAddress: async () => getActiveWalletAddress(),
+
+    submitTransaction: async ({ operation, payload }) => {
+      const { data, error } = await supabase.functions.invoke('blockchain-verify', {
+        body: { operation: 'record', entry: { operation, payload } }
+      });
+
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to record transaction on the ledger');
+      }
+
+      const tx = await getTransaction(data.transactionHash);
+      if (!tx) {
+        throw new Error(`Transaction ${data.transactionHash} was not found after recording`);
+      }
+      return tx;
+    },
+
+    getTransaction,
+
+    getRecentTransactions: async (limit) => {
+      const { data, error } = await supabase
+        .from('ledger_transactions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const head = await getHeadBlockNumber();
+      return (data || []).map(row => toTransaction(row, head));
+    },
+
+    findRecords,
+
+    getShipment: async (shipmentId) => buildShipmentRecord(shipmentId, await findRecords({ shipmentId })),
+
+    getLatestBlocks: async (limit) => {
+      const { data, error } = await supabase
+        .from('ledger_blocks')
+        .select('*')
+        .order('block_number', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(toBlock);
+    },
+
+    getBlock: async (blockNumber) => {
+      const { data: block, error: blockError } = await supabase
+        .from('ledger_blocks')
+        .select('*')
+        .eq('block_number', blockNumber)
+        .maybeSingle();
+
+      if (blockError) throw blockError;
+      if (!block) return null;
+
+      const { data, error } = await supabase
+        .from('ledger_transactions')
+        .select('*')
+        .eq('block_number', blockNumber)
+        .order('tx_index', { ascending: true });
+
+      if (error) throw error;
+
+      const head = await getHeadBlockNumber();
+      return { ...toBlock(block), transactions: (data || []).map(row => toTransaction(row, head)) };
+    },
+
+    getTransactionsByAddress: async (address, limit) => {
+      // The address goes into a filter string, so anything else can't match and isn't sent
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return [];
+
+      // ilike without wildcards compares case-insensitively, as addresses may be checksummed
+      const { data, error } = await supabase
+        .from('ledger_transactions')
+        .select('*')
+        .or(`from_address.ilike.${address},to_address.ilike.${address}`)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      const head = await getHeadBlockNumber();
+      return (data || []).map(row => toTransaction(row, head));
+    }
+  };
+};
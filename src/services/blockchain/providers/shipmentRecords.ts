@@ -0,0 +1,65 @@
+import { SensorReading, ShipmentRecord } from '../types';
+import { LedgerRecord } from './types';
+
+type ShipmentFields = Omit<ShipmentRecord, 'transactionHash' | 'timestamps' | 'sensorData'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Whether a ledger payload refers to the given shipment
+export const payloadMatchesShipment = (payload: unknown, shipmentId: string): boolean =>
+  isRecord(payload) && (payload.shipmentId === shipmentId || payload.id === shipmentId);
+
+// Payload fields that name the users or participants a ledger write involves
+export const PARTICIPANT_PAYLOAD_KEYS = [
+  'userId',
+  'customerId',
+  'driverId',
+  'signer',
+  'fromUserId',
+  'toUserId',
+  'fromParticipant',
+  'toParticipant',
+  'previousOwnerId',
+  'newOwnerId',
+  'recipientId',
+  'claimantId',
+  'respondentId'
+];
+
+// Whether a ledger payload names the given user or participant
+export const payloadMentionsParticipant = (payload: unknown, participantId: string): boolean =>
+  isRecord(payload) && PARTICIPANT_PAYLOAD_KEYS.some(key => payload[key] === participantId);
+
+// Rebuild a shipment's current state by replaying its ledger records in order
+export const buildShipmentRecord = (shipmentId: string, records: LedgerRecord[]): ShipmentRecord | null => {
+  let shipment: ShipmentRecord | null = null;
+
+  for (const { transaction, operation, payload } of records) {
+    if (!isRecord(payload)) continue;
+
+    if (operation === 'create_shipment' && payload.id === shipmentId) {
+      shipment = {
+        ...(payload as unknown as ShipmentFields),
+        timestamps: { created: transaction.timestamp },
+        sensorData: [],
+        transactionHash: transaction.hash
+      };
+    } else if (shipment && operation === 'update_status' && payload.shipmentId === shipmentId) {
+      const status = payload.status as 'in-transit' | 'delivered';
+      shipment.status = status;
+      if (status === 'in-transit') {
+        shipment.timestamps.inTransit = transaction.timestamp;
+      } else if (status === 'delivered') {
+        shipment.timestamps.delivered = transaction.timestamp;
+      }
+    } else if (shipment && operation === 'add_sensor_data' && payload.shipmentId === shipmentId) {
+      shipment.sensorData.push({
+        ...(payload.reading as Omit<SensorReading, 'transactionHash'>),
+        transactionHash: transaction.hash
+      });
+    }
+  }
+
+  return shipment;
+};
@@ -0,0 +1,59 @@
+import { Block, BlockWithTransactions, ShipmentRecord, Transaction } from '../types';
+
+export type LedgerProviderName = 'mock' | 'postgres' | 'evm';
+
+// A ledger write: the operation name and the payload recorded with it
+export interface LedgerWriteRequest {
+  operation: string;
+  payload: unknown;
+}
+
+// A transaction together with the operation and decoded payload it carries
+export interface LedgerRecord {
+  transaction: Transaction;
+  operation: string;
+  payload: unknown;
+}
+
+export interface LedgerRecordFilter {
+  shipmentId?: string;
+  operation?: string;
+  // User or participant id named in the payload (see PARTICIPANT_PAYLOAD_KEYS)
+  participantId?: string;
+}
+
+// Backend the blockchain service records to and reads from.
+// Every implementation speaks the public types in ../types.ts, so pages
+// don't change when the active provider does.
+export interface LedgerProvider {
+  readonly name: LedgerProviderName;
+  // Blocks (including its own) a transaction needs before it counts as final
+  readonly requiredConfirmations: number;
+  getWalletAddress(): Promise<string>;
+  submitTransaction(request: LedgerWriteRequest): Promise<Transaction>;
+  getTransaction(hash: string): Promise<Transaction | null>;
+  getRecentTransactions(limit: number): Promise<Transaction[]>;
+  // Matching records, oldest first
+  findRecords(filter: LedgerRecordFilter): Promise<LedgerRecord[]>;
+  getShipment(shipmentId: string): Promise<ShipmentRecord | null>;
+  // Newest first
+  getLatestBlocks(limit: number): Promise<Block[]>;
+  getBlock(blockNumber: number): Promise<BlockWithTransactions | null>;
+  // Transactions sent from or to the address, newest first
+  getTransactionsByAddress(address: string, limit: number): Promise<Transaction[]>;
+}
+
+export interface EvmProviderConfig {
+  rpcUrl: string;
+  // Address every ledger write is sent to; defaults to the mock contract address
+  contractAddress: string;
+  // Sending account; defaults to the node's first unlocked account
+  fromAddress?: string;
+  // How many blocks back findRecords scans
+  scanBlocks: number;
+}
+
+export interface LedgerProviderConfig {
+  provider: LedgerProviderName;
+  evm: EvmProviderConfig;
+}
@@ -0,0 +1,229 @@
+import { MerkleProofStep, SensorReading, Transaction } from './types';
+import { applyMerkleProof, canonicalize, computeMerkleProofs, computeMerkleRoot, sha256Hex } from './ledger';
+import { getLedgerProvider } from './providers';
+import { submitTransaction } from './transactionLifecycle';
+import { getMockRandom, mockNow } from '../mock';
+
+// Sensor readings are anchored in batches rather than one transaction each.
+// Readings are grouped per shipment into fixed time windows; when a window
+// closes, the Merkle root of its readings is recorded in one
+// anchor_sensor_batch transaction and every reading gets an inclusion proof.
+// Uses the same leaf encoding and windows as supabase/functions/_shared/sensorBatches.ts.
+
+export const SENSOR_BATCH_OPERATION = 'anchor_sensor_batch';
+
+// Length of a batch window
+export const SENSOR_BATCH_WINDOW_MS = 15 * 60 * 1000;
+
+// A window with this many readings is anchored without waiting for it to close
+const MAX_BATCH_SIZE = 512;
+
+export type SensorReadingInput = Omit<SensorReading, 'transactionHash' | 'batchId' | 'leafIndex' | 'merkleProof'>;
+
+// The fields of a reading covered by its leaf hash
+export interface SensorLeafFields {
+  shipmentId: string;
+  timestamp: number;
+  temperature: number | null;
+  humidity: number | null;
+  shockDetected: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  batteryLevel: number | null;
+}
+
+// What an anchor_sensor_batch transaction records
+export interface SensorBatch {
+  batchId: string;
+  shipmentId: string;
+  windowStart: string;
+  windowEnd: string;
+  readingCount: number;
+  merkleRoot: string;
+}
+
+export interface AnchoredSensorReading {
+  reading: SensorReading;
+  batch: SensorBatch;
+  leafHash: string;
+  transaction: Transaction;
+}
+
+// A stored sensor_data row, as far as proving it is concerned
+export interface StoredSensorReading {
+  shipment_id: string;
+  timestamp: string;
+  temperature: number | null;
+  humidity: number | null;
+  shock_detected: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  battery_level: number | null;
+  batch_id?: string | null;
+  merkle_proof?: unknown;
+  blockchain_tx_hash: string | null;
+}
+
+// Outcome of proving a reading against its batch anchor
+export interface SensorProofCheck {
+  status: 'verified' | 'mismatch' | 'unanchored' | 'anchor_not_found';
+  reason: string | null;
+  transactionHash: string | null;
+  blockNumber: number | null;
+}
+
+interface PendingReading {
+  reading: SensorReadingInput;
+  leafHash: string;
+  resolve: (anchored: AnchoredSensorReading) => void;
+}
+
+interface PendingBatch {
+  shipmentId: string;
+  windowStart: number;
+  readings: PendingReading[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingBatches = new Map<string, PendingBatch>();
+// Readings anchored in this session, so getShipment can include them
+const anchoredReadings = new Map<string, SensorReading[]>();
+
+export const getBatchWindowStart = (timestamp: number): number =>
+  Math.floor(timestamp / SENSOR_BATCH_WINDOW_MS) * SENSOR_BATCH_WINDOW_MS;
+
+export const hashSensorLeaf = (fields: SensorLeafFields): Promise<string> =>
+  sha256Hex(canonicalize(fields));
+
+export const toSensorLeafFields = (shipmentId: string, reading: SensorReadingInput): SensorLeafFields => ({
+  shipmentId,
+  timestamp: reading.timestamp,
+  temperature: reading.temperature ?? null,
+  humidity: reading.humidity ?? null,
+  shockDetected: reading.shockDetected ?? null,
+  latitude: reading.location?.lat ?? null,
+  longitude: reading.location?.long ?? null,
+  batteryLevel: reading.batteryLevel ?? null
+});
+
+const storedReadingToLeafFields = (row: StoredSensorReading): SensorLeafFields => ({
+  shipmentId: row.shipment_id,
+  timestamp: Date.parse(row.timestamp),
+  temperature: row.temperature,
+  humidity: row.humidity,
+  shockDetected: row.shock_detected,
+  latitude: row.latitude,
+  longitude: row.longitude,
+  batteryLevel: row.battery_level
+});
+
+const isProof = (value: unknown): value is MerkleProofStep[] =>
+  Array.isArray(value) && value.every(step =>
+    typeof step?.hash === 'string' && (step.position === 'left' || step.position === 'right'));
+
+// Anchor a window's readings: one transaction for the Merkle root, one proof per reading
+const anchorBatch = async (key: string): Promise<void> => {
+  const pending = pendingBatches.get(key);
+  if (!pending) return;
+
+  pendingBatches.delete(key);
+  clearTimeout(pending.timer);
+
+  const leaves = pending.readings.map(reading => reading.leafHash);
+  const [merkleRoot, proofs] = await Promise.all([computeMerkleRoot(leaves), computeMerkleProofs(leaves)]);
+
+  const batch: SensorBatch = {
+    batchId: getMockRandom('sensor-batches').uuid(),
+    shipmentId: pending.shipmentId,
+    windowStart: new Date(pending.windowStart).toISOString(),
+    windowEnd: new Date(pending.windowStart + SENSOR_BATCH_WINDOW_MS).toISOString(),
+    readingCount: leaves.length,
+    merkleRoot
+  };
+
+  const transaction = await submitTransaction({ operation: SENSOR_BATCH_OPERATION, payload: batch });
+
+  pending.readings.forEach(({ reading, leafHash, resolve }, index) => {
+    const anchored: SensorReading = {
+      ...reading,
+      transactionHash: transaction.hash,
+      batchId: batch.batchId,
+      leafIndex: index,
+      merkleProof: proofs[index]
+    };
+
+    if (transaction.status !== 'failed') {
+      anchoredReadings.set(batch.shipmentId, [...(anchoredReadings.get(batch.shipmentId) ?? []), anchored]);
+    }
+    resolve({ reading: anchored, batch, leafHash, transaction });
+  });
+};
+
+// Queue a reading for its shipment's current batch. Resolves once the batch is
+// anchored, with the anchor transaction and the reading's inclusion proof.
+export const queueSensorReading = async (shipmentId: string, reading: SensorReadingInput): Promise<AnchoredSensorReading> => {
+  const leafHash = await hashSensorLeaf(toSensorLeafFields(shipmentId, reading));
+  const windowStart = getBatchWindowStart(reading.timestamp);
+  const key = `${shipmentId}:${windowStart}`;
+
+  return new Promise(resolve => {
+    let pending = pendingBatches.get(key);
+    if (!pending) {
+      // Readings from a window that has already closed are anchored straight away
+      const closesIn = Math.max(windowStart + SENSOR_BATCH_WINDOW_MS - mockNow(), 0);
+      pending = { shipmentId, windowStart, readings: [], timer: setTimeout(() => anchorBatch(key), closesIn) };
+      pendingBatches.set(key, pending);
+    }
+
+    pending.readings.push({ reading, leafHash, resolve });
+    if (pending.readings.length >= MAX_BATCH_SIZE) {
+      anchorBatch(key);
+    }
+  });
+};
+
+// Anchor open batches now instead of waiting for their windows to close
+export const flushSensorBatches = async (shipmentId?: string): Promise<void> => {
+  const keys = Array.from(pendingBatches.entries())
+    .filter(([, pending]) => !shipmentId || pending.shipmentId === shipmentId)
+    .map(([key]) => key);
+
+  await Promise.all(keys.map(anchorBatch));
+};
+
+export const getAnchoredReadings = (shipmentId: string): SensorReading[] =>
+  [...(anchoredReadings.get(shipmentId) ?? [])];
+
+// Check a stored reading against the Merkle root in its batch's anchor transaction
+export const verifySensorReadingProof = async (row: StoredSensorReading): Promise<SensorProofCheck> => {
+  const unanchored: SensorProofCheck = {
+    status: 'unanchored',
+    reason: 'Reading has not been anchored yet',
+    transactionHash: row.blockchain_tx_hash,
+    blockNumber: null
+  };
+
+  if (!row.batch_id || !row.blockchain_tx_hash || !isProof(row.merkle_proof)) {
+    return unanchored;
+  }
+
+  const records = await getLedgerProvider().findRecords({ shipmentId: row.shipment_id, operation: SENSOR_BATCH_OPERATION });
+  const anchor = records.find(record => record.transaction.hash === row.blockchain_tx_hash);
+
+  if (!anchor || anchor.transaction.status === 'failed') {
+    return { ...unanchored, status: 'anchor_not_found', reason: 'Anchor transaction is not on the ledger' };
+  }
+
+  const batch = anchor.payload as Partial<SensorBatch>;
+  const blockNumber = anchor.transaction.blockNumber ?? null;
+  const computedRoot = await applyMerkleProof(await hashSensorLeaf(storedReadingToLeafFields(row)), row.merkle_proof);
+
+  if (batch.batchId !== row.batch_id) {
+    return { ...unanchored, status: 'mismatch', reason: 'Anchor transaction belongs to a different batch', blockNumber };
+  }
+  if (computedRoot !== batch.merkleRoot) {
+    return { ...unanchored, status: 'mismatch', reason: 'Reading does not match the anchored Merkle root', blockNumber };
+  }
+
+  return { status: 'verified', reason: null, transactionHash: row.blockchain_tx_hash, blockNumber };
+};
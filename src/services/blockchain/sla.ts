@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { SmartContractRow } from './contractLifecycle';
+
+// A shipment's delivery can be put under an SLA contract. When the shipment is
+// delivered the contract assesses itself: met if it arrived within the grace
+// period once delays with an excluded cause are taken off, otherwise breached
+// with a penalty charged to the responsible driver or carrier (see
+// supabase/functions/supply-chain-management/sla.ts).
+
+export type SlaPenalty = Database['public']['Tables']['sla_penalties']['Row'];
+
+export const DELAY_CAUSES = ['weather', 'traffic', 'customs', 'mechanical', 'other'] as const;
+
+export type DelayCause = typeof DELAY_CAUSES[number];
+
+export interface SlaTerms {
+  currency: string;
+  penaltyRate: number;
+  penaltyUnit: 'hour' | 'day';
+  // Defaults to the shipment's driver
+  responsibleId?: string;
+  // Defaults to the shipment's estimated arrival
+  deliverBy?: string;
+  gracePeriodHours?: number;
+  maxPenalty?: number;
+  excludedCauses?: DelayCause[];
+}
+
+export interface DelayReport {
+  cause: DelayCause;
+  delayHours: number;
+  description?: string;
+  // The weather alert the delay was reported from
+  alertId?: string;
+}
+
+const invokeSupplyChain = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('supply-chain-management', { body });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'SLA request failed');
+  }
+  return data;
+};
+
+// The shipment's most recent SLA, if it has one
+export const getShipmentSla = async (shipmentId: string): Promise<SmartContractRow | null> => {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('*')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'sla')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Penalties charged, newest first, for one shipment or one responsible party
+export const getSlaPenalties = async (filter: { shipmentId?: string; responsibleId?: string } = {}): Promise<SlaPenalty[]> => {
+  let query = supabase.from('sla_penalties').select('*');
+
+  if (filter.shipmentId) query = query.eq('shipment_id', filter.shipmentId);
+  if (filter.responsibleId) query = query.eq('responsible_id', filter.responsibleId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// Put the shipment's delivery under an SLA; it's activated straight away
+export const openShipmentSla = async (shipmentId: string, terms: SlaTerms): Promise<SmartContractRow> => {
+  const data = await invokeSupplyChain({ action: 'open_sla', shipmentId, eventData: terms });
+  return data.contract as SmartContractRow;
+};
+
+// Record a delay on the shipment, signed as participantId (the current user)
+export const reportDelay = async (shipmentId: string, participantId: string, report: DelayReport) => {
+  const data = await invokeSupplyChain({
+    action: 'record_event',
+    shipmentId,
+    participantId,
+    eventData: { type: 'delay_reported', ...report }
+  });
+  return data.event;
+};
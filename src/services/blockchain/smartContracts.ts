@@ -1,5 +1,6 @@
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { queueLedgerJob } from './ledgerOutbox';
+import { getSignaturesNeeded } from './approvals';
 
 // Types
 export interface SmartContractExecutionResult {
@@ -7,49 +8,80 @@ export interface SmartContractExecutionResult {
   transactionHash?: string;
   error?: string;
   data?: any;
+  // Ledger outbox job; queued is set while the write is waiting to be retried
+  jobId?: string;
+  queued?: boolean;
+  // Set while an approval policy holds the operation for more signatures
+  approvalId?: string;
+  awaitingApproval?: boolean;
 }
 
+// Run a contract operation through the ledger outbox. The worker records it on the
+// ledger and applies the matching database change; if the ledger can't be reached
+// the job stays queued and is retried with backoff. Pass the same idempotency key
+// when resubmitting one operation, so it is only ever queued once. Operations an
+// approval policy covers wait in the approvals inbox until enough parties sign.
+const queueContractOperation = async (
+  operation: string,
+  request: Record<string, unknown>,
+  idempotencyKey?: string
+): Promise<SmartContractExecutionResult> => {
+  const { job: queuedJob, approval } = await queueLedgerJob(operation, request, idempotencyKey);
+
+  if (approval?.status === 'rejected') {
+    throw new Error(approval.rejection_reason || `${operation} was rejected`);
+  }
+  // The requester's own signature can be enough, in which case it has already been queued
+  const job = queuedJob ?? approval?.job;
+  if (!job) {
+    const needed = approval ? getSignaturesNeeded(approval) : 0;
+    toast.info('Waiting for approval', {
+      description: `${needed} more signature${needed === 1 ? '' : 's'} needed before this runs`
+    });
+    return { success: true, approvalId: approval?.id, awaitingApproval: true };
+  }
+
+  if (job.status === 'failed') {
+    throw new Error(job.last_error || `${operation} failed`);
+  }
+  if (job.status !== 'succeeded') {
+    toast.info('Ledger write queued', {
+      description: 'It will be retried automatically until it is recorded'
+    });
+    return { success: true, jobId: job.id, queued: true };
+  }
+
+  return {
+    success: true,
+    transactionHash: job.transaction_hash ?? undefined,
+    data: job.result,
+    jobId: job.id
+  };
+};
+
 /**
  * Execute a smart contract for shipment tracking
  */
 export const executeShipmentTrackingContract = async (
   shipmentId: string,
   status: string,
-  location: { lat: number; lng: number }
+  location: { lat: number; lng: number },
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'track_shipment',
-        shipmentData: {
-          shipmentId,
-          status,
-          location,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('track_shipment', {
+      shipmentData: {
+        shipmentId,
+        status,
+        location,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the event in the database
-    // Note: Using 'from' with a direct table name rather than through a relation
-    await supabase
-      .from('shipments')
-      .update({ 
-        status, 
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued) return result;
 
     toast.success('Shipment status updated on blockchain');
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing shipment tracking contract:', error);
     toast.error('Failed to update shipment status on blockchain');
@@ -67,41 +99,23 @@ export const executeShipmentTrackingContract = async (
 export const executeTransferOwnershipContract = async (
   shipmentId: string,
   fromUserId: string,
-  toUserId: string
+  toUserId: string,
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'transfer_ownership',
-        transferData: {
-          shipmentId,
-          fromUserId,
-          toUserId,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('transfer_ownership', {
+      transferData: {
+        shipmentId,
+        fromUserId,
+        toUserId,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the ownership transfer event
-    // Store this in the shipments table directly or another related table
-    await supabase
-      .from('shipments')
-      .update({ 
-        customer_id: toUserId,
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued || result.awaitingApproval) return result;
 
     toast.success('Ownership transfer recorded on blockchain');
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing ownership transfer contract:', error);
     toast.error('Failed to transfer ownership on blockchain');
@@ -115,6 +129,7 @@ export const executeTransferOwnershipContract = async (
 
 /**
  * Execute a smart contract for product verification
+ * The reading is also checked by the shipment's cold-chain contract, if any (see ./coldChain.ts)
  */
 export const executeProductVerificationContract = async (
   shipmentId: string,
@@ -122,41 +137,22 @@ export const executeProductVerificationContract = async (
     temperature: number;
     humidity: number;
     isIntact: boolean;
-  }
+  },
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'verify_product',
-        verificationData: {
-          shipmentId,
-          ...verificationData,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('verify_product', {
+      verificationData: {
+        shipmentId,
+        ...verificationData,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the sensor data
-    await supabase
-      .from('sensor_data')
-      .insert({
-        shipment_id: shipmentId,
-        temperature: verificationData.temperature,
-        humidity: verificationData.humidity,
-        shock_detected: !verificationData.isIntact,
-        blockchain_tx_hash: data.transactionHash
-      });
+    }, idempotencyKey);
+    if (result.queued) return result;
 
     toast.success('Product verification recorded on blockchain');
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing product verification contract:', error);
     toast.error('Failed to verify product on blockchain');
@@ -170,44 +166,28 @@ export const executeProductVerificationContract = async (
 
 /**
  * Execute a smart contract for payment settlement
+ * Refused for shipments whose payment is held in escrow (see ./escrow.ts)
  */
 export const executePaymentSettlementContract = async (
   shipmentId: string,
   amount: number,
-  currency: string = 'USD'
+  currency: string = 'USD',
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'settle_payment',
-        paymentData: {
-          shipmentId,
-          amount,
-          currency,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('settle_payment', {
+      paymentData: {
+        shipmentId,
+        amount,
+        currency,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the payment settlement
-    // This would typically go into a payments table, but for now we'll update the shipment
-    await supabase
-      .from('shipments')
-      .update({ 
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued) return result;
 
     toast.success(`Payment of ${amount} ${currency} settled on blockchain`);
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing payment settlement contract:', error);
     toast.error('Failed to settle payment on blockchain');
@@ -224,38 +204,25 @@ export const executePaymentSettlementContract = async (
  */
 export const executeCarbonCreditsContract = async (
   shipmentId: string,
-  carbonSaved: number
+  carbonSaved: number,
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'carbon_credits',
-        carbonData: {
-          shipmentId,
-          carbonSaved,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('carbon_credits', {
+      carbonData: {
+        shipmentId,
+        carbonSaved,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the carbon credits issuance
-    await supabase
-      .from('shipments')
-      .update({ 
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued) return result;
 
-    toast.success(`${data.tokens} carbon credits issued on blockchain`);
+    toast.success(`${result.data?.tokens} carbon credits issued on blockchain`);
     
     return {
-      success: true,
-      transactionHash: data.transactionHash,
+      ...result,
       data: {
-        tokens: data.tokens
+        tokens: result.data?.tokens
       }
     };
   } catch (error) {
@@ -278,40 +245,23 @@ export const executeCustomsClearance = async (
     countryCode: string;
     declarationId: string;
     clearanceDate: Date;
-  }
+  },
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'customs_clearance',
-        customsData: {
-          shipmentId,
-          ...customsData,
-          clearanceDate: customsData.clearanceDate.toISOString(),
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('customs_clearance', {
+      customsData: {
+        shipmentId,
+        ...customsData,
+        clearanceDate: customsData.clearanceDate.toISOString(),
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the customs clearance
-    await supabase
-      .from('shipments')
-      .update({ 
-        customs_status: 'cleared',
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued) return result;
 
     toast.success('Customs clearance recorded on blockchain');
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing customs clearance contract:', error);
     toast.error('Failed to record customs clearance on blockchain');
@@ -325,6 +275,7 @@ export const executeCustomsClearance = async (
 
 /**
  * Execute a smart contract for payment release
+ * Refused for shipments whose payment is held in escrow (see ./escrow.ts)
  */
 export const executePaymentRelease = async (
   shipmentId: string,
@@ -332,39 +283,22 @@ export const executePaymentRelease = async (
     amount: number;
     currency: string;
     recipientId: string;
-  }
+  },
+  idempotencyKey?: string
 ): Promise<SmartContractExecutionResult> => {
   try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'release_payment',
-        paymentData: {
-          shipmentId,
-          ...paymentData,
-          timestamp: new Date().toISOString()
-        }
+    const result = await queueContractOperation('release_payment', {
+      paymentData: {
+        shipmentId,
+        ...paymentData,
+        timestamp: new Date().toISOString()
       }
-    });
-
-    if (error) throw error;
-
-    // Record the payment release
-    await supabase
-      .from('shipments')
-      .update({ 
-        payment_status: 'paid',
-        blockchain_tx_hash: data.transactionHash 
-      })
-      .eq('id', shipmentId);
+    }, idempotencyKey);
+    if (result.queued || result.awaitingApproval) return result;
 
     toast.success(`Payment of ${paymentData.amount} ${paymentData.currency} released on blockchain`);
     
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
+    return result;
   } catch (error) {
     console.error('Error executing payment release contract:', error);
     toast.error('Failed to release payment on blockchain');
@@ -375,57 +309,3 @@ export const executePaymentRelease = async (
     };
   }
 };
-
-/**
- * Create a dispute resolution smart contract
- */
-export const createDisputeResolution = async (
-  shipmentId: string,
-  disputeData: {
-    reason: string;
-    claimantId: string;
-    respondentId: string;
-    evidenceHashes: string[];
-  }
-): Promise<SmartContractExecutionResult> => {
-  try {
-    // Call blockchain-verify edge function
-    const { data, error } = await supabase.functions.invoke('blockchain-verify', {
-      body: {
-        operation: 'create_dispute',
-        disputeData: {
-          shipmentId,
-          ...disputeData,
-          timestamp: new Date().toISOString()
-        }
-      }
-    });
-
-    if (error) throw error;
-
-    // Record the dispute in the shipments table instead of a non-existent disputes table
-    await supabase
-      .from('shipments')
-      .update({ 
-        blockchain_tx_hash: data.transactionHash,
-        status: 'disputed'
-      })
-      .eq('id', shipmentId);
-
-    toast.success('Dispute resolution contract created on blockchain');
-    
-    return {
-      success: true,
-      transactionHash: data.transactionHash,
-      data: data.result
-    };
-  } catch (error) {
-    console.error('Error creating dispute resolution contract:', error);
-    toast.error('Failed to create dispute resolution on blockchain');
-    
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-};
@@ -0,0 +1,200 @@
+import { Transaction, TransactionStage } from './types';
+import { getLedgerProvider, LedgerWriteRequest } from './providers';
+import { validateOperationPayload } from './payloadSchemas';
+import { mockNow } from '../mock';
+
+// Blocks (including its own) a transaction needs before the active provider counts it as final
+export const getRequiredConfirmations = (): number => getLedgerProvider().requiredConfirmations;
+
+// How often tracked transactions are re-read from the active provider
+export const POLL_INTERVAL_MS = 2000;
+
+// How long a transaction is polled for before it is left at its last known stage;
+// a chain that only produces blocks on a write may never confirm it further
+export const MAX_POLL_DURATION_MS = 5 * 60 * 1000;
+
+type TransactionListener = (tx: Transaction) => void;
+
+const tracked = new Map<string, Transaction>();
+const requests = new Map<string, LedgerWriteRequest>();
+// When each tracked transaction was first seen, to bound how long it is polled
+const trackedSince = new Map<string, number>();
+const listeners = new Map<string, Set<TransactionListener>>();
+const activityListeners = new Set<() => void>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let failedSubmissionCount = 0;
+
+// Hash prefix for submissions the provider rejected before assigning a real hash
+const UNSUBMITTED_PREFIX = 'unsubmitted-';
+
+export const getTransactionStage = (tx: Transaction): TransactionStage => {
+  if (tx.status === 'failed') return 'failed';
+  if (tx.blockNumber === undefined) return 'mempool';
+  return (tx.confirmations ?? 0) >= getRequiredConfirmations() ? 'confirmed' : 'included';
+};
+
+const isSettled = (tx: Transaction): boolean => {
+  const stage = getTransactionStage(tx);
+  return stage === 'confirmed' || stage === 'failed';
+};
+
+const hasChanged = (previous: Transaction | undefined, next: Transaction): boolean =>
+  !previous ||
+  previous.status !== next.status ||
+  previous.blockNumber !== next.blockNumber ||
+  previous.confirmations !== next.confirmations ||
+  previous.failureReason !== next.failureReason;
+
+const notifyActivity = () => {
+  activityListeners.forEach(listener => listener());
+};
+
+const updateTracked = (tx: Transaction) => {
+  const previous = tracked.get(tx.hash);
+  if (!hasChanged(previous, tx)) return;
+
+  tracked.set(tx.hash, tx);
+  listeners.get(tx.hash)?.forEach(listener => listener({ ...tx }));
+  notifyActivity();
+};
+
+const pollTrackedTransactions = async () => {
+  const now = Date.now();
+  const unsettled = Array.from(tracked.values())
+    .filter(tx => !isSettled(tx) && now - (trackedSince.get(tx.hash) ?? now) < MAX_POLL_DURATION_MS);
+
+  if (unsettled.length === 0) {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+    return;
+  }
+
+  for (const tx of unsettled) {
+    try {
+      const latest = await getLedgerProvider().getTransaction(tx.hash);
+      updateTracked(latest ?? {
+        ...tx,
+        status: 'failed',
+        failureReason: 'Transaction was dropped before it was included in a block'
+      });
+    } catch (error) {
+      // A failed read says nothing about the transaction itself; try again on the next poll
+      console.error(`Error polling transaction ${tx.hash}:`, error);
+    }
+  }
+};
+
+const startPolling = () => {
+  if (!pollTimer) {
+    pollTimer = setInterval(pollTrackedTransactions, POLL_INTERVAL_MS);
+  }
+};
+
+const track = (tx: Transaction) => {
+  if (!trackedSince.has(tx.hash)) trackedSince.set(tx.hash, Date.now());
+  updateTracked(tx);
+  if (!isSettled(tx)) {
+    startPolling();
+  }
+};
+
+// Submit a ledger write through the active provider and track it until it is final.
+// A rejected submission comes back as a failed transaction carrying the reason, so
+// callers can show it and offer a retry. Payloads are checked against the schema
+// registry first, as the server does, so the in-memory ledger rejects the same writes.
+export const submitTransaction = async (request: LedgerWriteRequest): Promise<Transaction> => {
+  let tx: Transaction;
+
+  try {
+    const schemaProblem = validateOperationPayload(request.operation, request.payload ?? {});
+    if (schemaProblem) throw new Error(schemaProblem);
+
+    tx = await getLedgerProvider().submitTransaction(request);
+  } catch (error) {
+    failedSubmissionCount += 1;
+    const failedAt = mockNow();
+    tx = {
+      hash: `${UNSUBMITTED_PREFIX}${failedAt}-${failedSubmissionCount}`,
+      from: '',
+      to: '',
+      data: JSON.stringify(request.payload ?? {}),
+      timestamp: failedAt,
+      status: 'failed',
+      operation: request.operation,
+      confirmations: 0,
+      failureReason: error instanceof Error ? error.message : 'Transaction could not be submitted'
+    };
+  }
+
+  requests.set(tx.hash, request);
+  track(tx);
+  return { ...tx };
+};
+
+// Only transactions submitted in this session can be retried, since their request is known
+export const canRetryTransaction = (hash: string): boolean => requests.has(hash);
+
+// Submit a failed transaction's request again; returns the new transaction
+export const retryTransaction = async (hash: string): Promise<Transaction> => {
+  const request = requests.get(hash);
+  if (!request) {
+    throw new Error(`Transaction ${hash} was not submitted in this session and cannot be retried`);
+  }
+
+  const tx = await submitTransaction(request);
+  requests.delete(hash);
+  tracked.delete(hash);
+  trackedSince.delete(hash);
+  return tx;
+};
+
+// Failed submissions the provider never accepted, so its history doesn't include them
+export const getUnsubmittedTransactions = (): Transaction[] =>
+  Array.from(tracked.values())
+    .filter(tx => tx.hash.startsWith(UNSUBMITTED_PREFIX))
+    .map(tx => ({ ...tx }));
+
+export const getTrackedTransaction = (hash: string): Transaction | null => {
+  const tx = tracked.get(hash);
+  return tx ? { ...tx } : null;
+};
+
+// Call listener whenever the transaction moves through its lifecycle. Transactions
+// not submitted in this session are looked up and tracked from their current state.
+// Returns an unsubscribe function.
+export const subscribeToTransaction = (hash: string, listener: TransactionListener): (() => void) => {
+  if (!listeners.has(hash)) {
+    listeners.set(hash, new Set());
+  }
+  listeners.get(hash)!.add(listener);
+
+  const current = tracked.get(hash);
+  if (current) {
+    listener({ ...current });
+  } else {
+    getLedgerProvider().getTransaction(hash)
+      .then(tx => {
+        if (tx) track(tx);
+      })
+      .catch(error => console.error(`Error loading transaction ${hash}:`, error));
+  }
+
+  return () => {
+    const set = listeners.get(hash);
+    set?.delete(listener);
+    if (set && set.size === 0) {
+      listeners.delete(hash);
+    }
+  };
+};
+
+// Call listener whenever any tracked transaction is submitted or changes stage.
+// Returns an unsubscribe function.
+export const subscribeToTransactionActivity = (listener: () => void): (() => void) => {
+  activityListeners.add(listener);
+  return () => {
+    activityListeners.delete(listener);
+  };
+};
@@ -8,8 +8,31 @@ export interface Transaction {
   data: string;
   timestamp: number; // Unix timestamp
   status: 'pending' | 'confirmed' | 'failed';
+  operation?: string;
+  nonce?: number; // Position in the sender's sequence of transactions
+  confirmations?: number; // Blocks on top of the including block, counting it
+  failureReason?: string;
 }
 
+// A sealed block header; transactionCount covers every transaction in the block
+export interface Block {
+  number: number;
+  hash: string;
+  previousHash: string;
+  transactionsRoot: string;
+  transactionCount: number;
+  timestamp: number; // Unix timestamp
+  proposer?: string; // Validator that proposed it, once the ledger is sealed by a consortium
+}
+
+export interface BlockWithTransactions extends Block {
+  transactions: Transaction[];
+}
+
+// Where a transaction is in its lifecycle: waiting in the mempool, included
+// in a block, buried under enough blocks to count as final, or failed
+export type TransactionStage = 'mempool' | 'included' | 'confirmed' | 'failed';
+
 export interface ShipmentRecord {
   id: string;
   owner: string;
@@ -34,5 +57,16 @@ export interface SensorReading {
   humidity?: number;
   shockDetected?: boolean;
   location?: { lat: number; long: number };
+  batteryLevel?: number;
+  // Batched readings carry the hash of their batch's anchor transaction
   transactionHash: string;
+  batchId?: string;
+  leafIndex?: number;
+  // Sibling hashes from the reading's leaf up to the anchored Merkle root
+  merkleProof?: MerkleProofStep[];
+}
+
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right';
 }
@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MOCK_WALLET_ADDRESS } from './mockUtils';
+
+// Every user has a custodial wallet, created by the wallets edge function when
+// they sign up. Its keys stay server-side; the browser only knows the address.
+// The edge functions pick the sender of a write from the caller's token (see
+// supabase/functions/_shared/wallets.ts), so the address set here is what the
+// mock provider sends from and what the UI shows.
+
+export interface UserWallet {
+  userId: string;
+  address: string;
+  createdAt: string;
+}
+
+let activeWalletAddress: string | null = null;
+
+// Called by AuthContext with the signed-in user's wallet, and with null on sign-out
+export const setActiveWalletAddress = (address: string | null): void => {
+  activeWalletAddress = address;
+};
+
+// The signed-in user's wallet; the shared demo wallet while nobody is signed in
+export const getActiveWalletAddress = (): string => activeWalletAddress ?? MOCK_WALLET_ADDRESS;
+
+// Create the signed-in user's wallet, or get it back if they already have one
+export const createUserWallet = async (): Promise<UserWallet> => {
+  const { data, error } = await supabase.functions.invoke('wallets', { body: { action: 'create' } });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Could not create a wallet');
+  }
+  return data.wallet as UserWallet;
+};
+
+// The wallet a user's ledger writes are sent from, or null if they don't have one yet
+export const getUserWallet = async (userId: string): Promise<UserWallet | null> => {
+  const { data, error } = await supabase
+    .from('user_wallets')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { userId: data.user_id, address: data.address, createdAt: data.created_at } : null;
+};
@@ -2,6 +2,10 @@
 // This is a Firebase service - in a real app, this would interact with Firebase
 // For now, we'll create a mock service that simulates Firebase functionality
 
+import { addSensorData as anchorSensorReading } from './blockchain/shipmentOperations';
+import { MerkleProofStep } from './blockchain/types';
+import { getMockRandomFor, getMockScenario, mockNow } from './mock';
+
 // Types
 export interface User {
   id: string;
@@ -43,6 +47,9 @@ export interface SensorData {
   location?: { lat: number; long: number };
   batteryLevel?: number;
   blockchainTxHash?: string;
+  // Set once the reading's batch has been anchored
+  batchId?: string;
+  merkleProof?: MerkleProofStep[];
 }
 
 export interface Company {
@@ -54,6 +61,9 @@ export interface Company {
   carbonReductionGoal?: number;
 }
 
+// Mock data is dated from here; fixed when the mock services are seeded
+const now = mockNow();
+
 // Mock currently authenticated user
 let currentUser: User | null = {
   id: 'usr123',
@@ -61,7 +71,7 @@ let currentUser: User | null = {
   email: 'demo@ecofreight.example.com',
   role: 'manager',
   company: 'EcoFreight Inc.',
-  createdAt: Date.now() - 86400000 * 30 // 30 days ago
+  createdAt: now - 86400000 * 30 // 30 days ago
 };
 
 // Mock data storage
@@ -73,10 +83,10 @@ const shipments: Shipment[] = [
     origin: 'New York, USA',
     destination: 'Toronto, Canada',
     status: 'in-transit',
-    createdAt: Date.now() - 86400000 * 2,
-    updatedAt: Date.now() - 86400000,
-    plannedDepartureDate: Date.now() - 86400000,
-    estimatedArrivalDate: Date.now() + 86400000 * 2,
+    createdAt: now - 86400000 * 2,
+    updatedAt: now - 86400000,
+    plannedDepartureDate: now - 86400000,
+    estimatedArrivalDate: now + 86400000 * 2,
     productType: 'Medical',
     quantity: 250,
     weight: 450,
@@ -92,10 +102,10 @@ const shipments: Shipment[] = [
     origin: 'Shenzhen, China',
     destination: 'Los Angeles, USA',
     status: 'processing',
-    createdAt: Date.now() - 86400000 * 5,
-    updatedAt: Date.now() - 86400000 * 1,
-    plannedDepartureDate: Date.now() + 86400000,
-    estimatedArrivalDate: Date.now() + 86400000 * 15,
+    createdAt: now - 86400000 * 5,
+    updatedAt: now - 86400000 * 1,
+    plannedDepartureDate: now + 86400000,
+    estimatedArrivalDate: now + 86400000 * 15,
     productType: 'Electronics',
     quantity: 1000,
     weight: 2500,
@@ -111,10 +121,10 @@ const shipments: Shipment[] = [
     origin: 'Miami, USA',
     destination: 'Atlanta, USA',
     status: 'delayed',
-    createdAt: Date.now() - 86400000 * 3,
-    updatedAt: Date.now() - 3600000 * 2,
-    plannedDepartureDate: Date.now() - 86400000 * 1,
-    estimatedArrivalDate: Date.now() + 86400000 * 1,
+    createdAt: now - 86400000 * 3,
+    updatedAt: now - 3600000 * 2,
+    plannedDepartureDate: now - 86400000 * 1,
+    estimatedArrivalDate: now + 86400000 * 1,
     productType: 'Food',
     quantity: 500,
     weight: 1200,
@@ -126,29 +136,47 @@ const shipments: Shipment[] = [
   }
 ];
 
-const sensorDataStore: SensorData[] = [];
-// Generate some mock sensor data
-for (const shipment of shipments) {
-  const dataPointCount = Math.floor(Math.random() * 20) + 10;
+// Hold back every shipment still on its way the way the loaded scenario says
+const { shipments: scenarioShipments, sensors: scenarioSensors } = getMockScenario();
+if (scenarioShipments) {
+  for (const shipment of shipments) {
+    if (shipment.status === 'delivered') continue;
+    shipment.status = scenarioShipments.status ?? shipment.status;
+    if (shipment.estimatedArrivalDate && scenarioShipments.delayDays) {
+      shipment.estimatedArrivalDate += 86400000 * scenarioShipments.delayDays;
+    }
+  }
+}
+
+// Sensor trace for one shipment over the last three days, shaped by the loaded scenario
+const generateSensorTrace = (shipment: Shipment): SensorData[] => {
+  const random = getMockRandomFor(`sensor-trace:${shipment.id}`);
+  const dataPointCount = random.int(10, 29);
+  const timeOffsets = Array.from({ length: dataPointCount }, () => random.int(0, 86400000 * 3 - 1))
+    .sort((a, b) => b - a); // Oldest first, so the excursion lands mid-trace
   
-  for (let i = 0; i < dataPointCount; i++) {
-    const timeOffset = Math.floor(Math.random() * 86400000 * 3); // Up to 3 days of data
+  return timeOffsets.map((timeOffset, i) => {
+    const { excursion } = scenarioSensors;
+    const inExcursion = excursion && i / dataPointCount >= excursion.from && i / dataPointCount < excursion.to;
+    const [minTemperature, maxTemperature] = inExcursion ? excursion.temperature : scenarioSensors.temperature;
     
-    sensorDataStore.push({
+    return {
       shipmentId: shipment.id,
-      timestamp: Date.now() - timeOffset,
-      temperature: Math.round((Math.random() * 10 + 2) * 10) / 10, // 2°C to 12°C
-      humidity: Math.round(Math.random() * 50 + 30), // 30% to 80%
-      shockDetected: Math.random() > 0.9, // 10% chance of shock
+      timestamp: now - timeOffset,
+      temperature: Math.round(random.between(minTemperature, maxTemperature) * 10) / 10,
+      humidity: Math.round(random.between(...scenarioSensors.humidity)),
+      shockDetected: random.chance(scenarioSensors.shockChance),
       location: {
-        lat: Math.random() * 10 + 35, // Random coordinates
-        long: Math.random() * 10 - 80
+        lat: random.between(35, 45), // Random coordinates
+        long: random.between(-80, -70)
       },
-      batteryLevel: Math.round(Math.random() * 100),
-      blockchainTxHash: `0x${Array.from({ length: 64 }).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`
-    });
-  }
-}
+      batteryLevel: random.int(0, 100),
+      blockchainTxHash: `0x${random.hex(64)}`
+    };
+  });
+};
+
+const sensorDataStore: SensorData[] = shipments.flatMap(generateSensorTrace);
 
 // Firebase service mock
 export const firebaseService = {
@@ -171,7 +199,7 @@ export const firebaseService = {
           email,
           role: 'manager',
           company: 'EcoFreight Inc.',
-          createdAt: Date.now() - 86400000 * 30
+          createdAt: mockNow() - 86400000 * 30
         };
         return currentUser;
       }
@@ -187,12 +215,13 @@ export const firebaseService = {
     signUp: async (email: string, password: string, name: string): Promise<User> => {
       await new Promise(resolve => setTimeout(resolve, 1000));
       
+      const createdAt = mockNow();
       const newUser: User = {
-        id: `usr${Date.now()}`,
+        id: `usr${createdAt}`,
         name,
         email,
         role: 'customer', // Default role for new users
-        createdAt: Date.now()
+        createdAt
       };
       
       currentUser = newUser;
@@ -216,11 +245,12 @@ export const firebaseService = {
     createShipment: async (data: Omit<Shipment, 'id' | 'createdAt' | 'updatedAt'>): Promise<Shipment> => {
       await new Promise(resolve => setTimeout(resolve, 800));
       
+      const createdAt = mockNow();
       const newShipment: Shipment = {
         ...data,
-        id: `SH-${new Date().getFullYear()}-${String(shipments.length + 1).padStart(3, '0')}`,
-        createdAt: Date.now(),
-        updatedAt: Date.now()
+        id: `SH-${new Date(createdAt).getFullYear()}-${String(shipments.length + 1).padStart(3, '0')}`,
+        createdAt,
+        updatedAt: createdAt
       };
       
       shipments.push(newShipment);
@@ -236,7 +266,7 @@ export const firebaseService = {
       shipments[index] = {
         ...shipments[index],
         ...data,
-        updatedAt: Date.now()
+        updatedAt: mockNow()
       };
       
       return shipments[index];
@@ -253,10 +283,25 @@ export const firebaseService = {
       
       const newData: SensorData = {
         ...data,
-        timestamp: Date.now()
+        timestamp: mockNow()
       };
       
       sensorDataStore.push(newData);
+
+      // Readings are anchored in batches; fill in the anchor once this one's batch is recorded
+      anchorSensorReading(newData.shipmentId, {
+        timestamp: newData.timestamp,
+        temperature: newData.temperature,
+        humidity: newData.humidity,
+        shockDetected: newData.shockDetected,
+        location: newData.location,
+        batteryLevel: newData.batteryLevel
+      }).then(({ reading }) => {
+        newData.blockchainTxHash = reading.transactionHash;
+        newData.batchId = reading.batchId;
+        newData.merkleProof = reading.merkleProof;
+      });
+
       return newData;
     },
     
@@ -0,0 +1,131 @@
+// Seeded randomness and time for the mock services
+//
+// With a seed (?seed=<seed>, VITE_MOCK_SEED, or a scenario's own seed) every
+// random number the mocks draw comes from a PRNG, and the mock clock starts at
+// the scenario's start time and moves a second forward each time it is read.
+// The same seed and the same actions then give the same hashes, sensor traces,
+// alerts and outcomes. Without one, the mocks use Math.random and Date.now.
+//
+// Draws come from named streams, each seeded from the session seed and its
+// name, so what one mock draws doesn't shift what another gets.
+//
+// The PRNG is mirrored in supabase/functions/_shared/random.ts - keep the two in step.
+
+import { DEFAULT_SCENARIO_ID, MockScenario, getScenario } from './scenarios';
+
+const CLOCK_STEP_MS = 1000;
+const SESSION_STORAGE_KEY = 'mockSession';
+
+export interface MockRandom {
+  // In [0, 1)
+  next(): number;
+  // In [min, max)
+  between(min: number, max: number): number;
+  // In [min, max], both whole
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: T[]): T;
+  hex(length: number): string;
+  uuid(): string;
+}
+
+interface MockSession {
+  seed: string | null;
+  scenario: MockScenario;
+}
+
+// FNV-1a, to turn a seed string into the PRNG's 32-bit state
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+export const createSeededGenerator = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createMockRandom = (next: () => number): MockRandom => {
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    between: (min, max) => min + next() * (max - min),
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    hex: (length) => Array.from({ length }, () => int(0, 15).toString(16)).join(''),
+    uuid: () => 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+      const r = int(0, 15);
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    })
+  };
+};
+
+// ?seed= and ?scenario= win and are kept for the rest of the tab's session; then the VITE_MOCK_* variables
+const readSession = (): MockSession => {
+  let seed: string | null = null;
+  let scenarioId: string | null = null;
+
+  if (typeof window !== 'undefined') {
+    const params = new URLSearchParams(window.location.search);
+    const stored = JSON.parse(window.sessionStorage.getItem(SESSION_STORAGE_KEY) || '{}');
+    seed = params.get('seed') ?? stored.seed ?? null;
+    scenarioId = params.get('scenario') ?? stored.scenario ?? null;
+
+    if (params.has('seed') || params.has('scenario')) {
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ seed, scenario: scenarioId }));
+    }
+  }
+
+  seed ??= import.meta.env.VITE_MOCK_SEED || null;
+  scenarioId ??= import.meta.env.VITE_MOCK_SCENARIO || null;
+
+  let scenario = scenarioId ? getScenario(scenarioId) : undefined;
+  if (scenarioId && !scenario) {
+    console.warn(`Unknown mock scenario "${scenarioId}", falling back to ${DEFAULT_SCENARIO_ID}`);
+  }
+  scenario ??= getScenario(DEFAULT_SCENARIO_ID)!;
+
+  // Loading a scenario on its own still makes the run repeatable
+  return { seed: seed ?? (scenarioId ? scenario.seed : null), scenario };
+};
+
+const session = readSession();
+const streams = new Map<string, MockRandom>();
+let clockReads = 0;
+
+export const getMockSeed = (): string | null => session.seed;
+
+export const getMockScenario = (): MockScenario => session.scenario;
+
+// The named stream's generator; unseeded sessions share Math.random
+export const getMockRandom = (stream: string): MockRandom => {
+  let random = streams.get(stream);
+  if (!random) {
+    random = createMockRandom(session.seed ? createSeededGenerator(`${session.seed}:${stream}`) : Math.random);
+    streams.set(stream, random);
+  }
+  return random;
+};
+
+// A fresh generator for one keyed decision, e.g. the weather at a place: with a
+// seed, the same key always draws the same numbers, however often it's asked
+export const getMockRandomFor = (key: string): MockRandom =>
+  createMockRandom(session.seed ? createSeededGenerator(`${session.seed}:${key}`) : Math.random);
+
+// Current time for the mocks: Date.now(), or the seeded clock
+export const mockNow = (): number => {
+  if (!session.seed) return Date.now();
+  return new Date(session.scenario.startTime).getTime() + CLOCK_STEP_MS * clockReads++;
+};
@@ -0,0 +1,125 @@
+// Named scenario fixtures for the mock services
+//
+// A scenario shapes what the mocks make up: sensor traces, weather alerts and
+// shipment delays. Load one with ?scenario=<id> (or VITE_MOCK_SCENARIO);
+// without a ?seed= it runs under its own seed, so the same scenario always
+// plays out the same way.
+
+export type MockShipmentStatus = 'processing' | 'in-transit' | 'delivered' | 'delayed';
+
+export interface MockScenario {
+  id: string;
+  name: string;
+  description: string;
+  // Seed used when the scenario is loaded without one
+  seed: string;
+  // Where the seeded clock starts
+  startTime: string;
+  sensors: {
+    // °C
+    temperature: [number, number];
+    // %
+    humidity: [number, number];
+    shockChance: number;
+    // Stretch of each trace, as fractions of its length, where the temperature leaves the normal range
+    excursion?: { from: number; to: number; temperature: [number, number] };
+  };
+  weather: {
+    alertChance: number;
+    alerts: string[];
+  };
+  // Applied to every mock shipment that hasn't been delivered
+  shipments?: {
+    status?: MockShipmentStatus;
+    delayDays?: number;
+  };
+}
+
+export const DEFAULT_SCENARIO_ID = 'baseline';
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  {
+    id: 'baseline',
+    name: 'Baseline',
+    description: 'Shipments run to plan with the occasional weather alert',
+    seed: 'baseline',
+    startTime: '2025-03-03T08:00:00.000Z',
+    sensors: {
+      temperature: [2, 12],
+      humidity: [30, 80],
+      shockChance: 0.1
+    },
+    weather: {
+      alertChance: 0.3,
+      alerts: [
+        'Heavy rain in the area might cause delays',
+        'Storm warning along the route',
+        'High winds may affect shipping'
+      ]
+    }
+  },
+  {
+    id: 'cold-chain-breach',
+    name: 'Cold chain breach',
+    description: 'A refrigeration failure mid-route pushes every trace well above 8 °C for a stretch',
+    seed: 'cold-chain-breach',
+    startTime: '2025-03-03T08:00:00.000Z',
+    sensors: {
+      temperature: [2, 6],
+      humidity: [40, 60],
+      shockChance: 0.02,
+      excursion: { from: 0.45, to: 0.7, temperature: [11, 17] }
+    },
+    weather: {
+      alertChance: 0.1,
+      alerts: ['Heatwave along the route']
+    }
+  },
+  {
+    id: 'customs-hold',
+    name: 'Customs hold',
+    description: 'Shipments are held at the border for inspection and arrive days late',
+    seed: 'customs-hold',
+    startTime: '2025-03-03T08:00:00.000Z',
+    sensors: {
+      temperature: [3, 8],
+      humidity: [35, 65],
+      shockChance: 0.05
+    },
+    weather: {
+      alertChance: 0,
+      alerts: []
+    },
+    shipments: {
+      status: 'delayed',
+      delayDays: 4
+    }
+  },
+  {
+    id: 'late-delivery',
+    name: 'Late delivery',
+    description: 'Storms along the route hold up every shipment still on the road',
+    seed: 'late-delivery',
+    startTime: '2025-03-03T08:00:00.000Z',
+    sensors: {
+      temperature: [2, 12],
+      humidity: [60, 95],
+      shockChance: 0.25
+    },
+    weather: {
+      alertChance: 0.9,
+      alerts: [
+        'Storm warning along the route',
+        'Flooding has closed roads near the destination',
+        'High winds may affect shipping'
+      ]
+    },
+    shipments: {
+      status: 'delayed',
+      delayDays: 2
+    }
+  }
+];
+
+export const getScenario = (id: string): MockScenario | undefined =>
+  MOCK_SCENARIOS.find(scenario => scenario.id === id);
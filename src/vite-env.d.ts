@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Ledger backend for the blockchain service: mock (default), postgres or evm
+  readonly VITE_LEDGER_PROVIDER?: string;
+  readonly VITE_EVM_RPC_URL?: string;
+  readonly VITE_EVM_CONTRACT_ADDRESS?: string;
+  readonly VITE_EVM_FROM_ADDRESS?: string;
+  readonly VITE_EVM_SCAN_BLOCKS?: string;
+  // JSON array of fault rules for the mock ledger (see src/services/blockchain/faults.ts)
+  readonly VITE_LEDGER_FAULTS?: string;
+  // Seed and scenario for the mock services (see src/services/mock)
+  readonly VITE_MOCK_SEED?: string;
+  readonly VITE_MOCK_SCENARIO?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,115 @@
+// Caller authentication and authorization for the edge functions
+//
+// The functions run with the service role key, so row level security doesn't
+// protect anything they read or write. Each request's JWT is verified here,
+// the caller's role is resolved with the has_role SQL function, and the action
+// is checked against the permission matrix in permissions.ts before it runs.
+// Shipment-scoped actions also check ownership: managers can act on any
+// shipment, drivers only on the ones assigned to them and customers only on
+// their own. Arbiters take no part in shipments; they only decide disputes.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { PERMISSIONS } from './permissions.ts';
+
+export type AppRole = 'manager' | 'arbiter' | 'driver' | 'customer';
+
+// Checked in this order, so someone holding several roles acts with the broadest
+const ROLE_PRECEDENCE: AppRole[] = ['manager', 'arbiter', 'driver', 'customer'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type Caller =
+  | { kind: 'user'; userId: string; role: AppRole }
+  // The service role key: the scheduled outbox worker and other server-side callers
+  | { kind: 'service' };
+
+// Raised when a caller isn't signed in (401), may not do what they asked (403),
+// or leaves out (400) or names a missing shipment (404) on a shipment-scoped action
+export class AuthorizationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+// The user's broadest role, or null without one
+export async function resolveRole(supabase: SupabaseClient, userId: string): Promise<AppRole | null> {
+  for (const role of ROLE_PRECEDENCE) {
+    const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: role });
+    if (error) throw error;
+    if (data) return role;
+  }
+  return null;
+}
+
+// Verify the request's JWT and resolve the caller's role
+export async function authenticateRequest(supabase: SupabaseClient, req: Request): Promise<Caller> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!token) {
+    throw new AuthorizationError('Sign in to use this function', 401);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { kind: 'service' };
+  }
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    throw new AuthorizationError('Your session is invalid or has expired; sign in again', 401);
+  }
+
+  const role = await resolveRole(supabase, user.id);
+  if (!role) {
+    throw new AuthorizationError('Your account has no role yet', 403);
+  }
+
+  return { kind: 'user', userId: user.id, role };
+}
+
+// Check an action against the permission matrix; actions missing from it are refused
+export function authorizeAction(caller: Caller, functionName: string, action: string): void {
+  if (caller.kind === 'service') return;
+
+  const roles = PERMISSIONS[functionName]?.[action];
+  if (!roles || !roles.includes(caller.role)) {
+    throw new AuthorizationError(`A ${caller.role} may not call ${action}`, 403);
+  }
+}
+
+// Managers, and the service role, can act on every shipment
+export function isManager(caller: Caller): boolean {
+  return caller.kind === 'service' || caller.role === 'manager';
+}
+
+// Make sure the caller may act on a shipment
+export async function assertShipmentAccess(supabase: SupabaseClient, caller: Caller, shipmentId: unknown): Promise<void> {
+  if (isManager(caller)) return;
+
+  if (typeof shipmentId !== 'string' || !shipmentId) {
+    throw new AuthorizationError('A shipmentId is required', 400);
+  }
+
+  const { data: shipment, error } = UUID_PATTERN.test(shipmentId)
+    ? await supabase
+        .from('shipments')
+        .select('customer_id, assigned_driver_id')
+        .eq('id', shipmentId)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (error) throw error;
+  if (!shipment) {
+    throw new AuthorizationError(`Shipment ${shipmentId} not found`, 404);
+  }
+
+  if (caller.kind === 'user' && caller.role === 'arbiter') {
+    throw new AuthorizationError('Arbiters only act on the disputes assigned to them', 403);
+  }
+  if (caller.kind === 'user' && caller.role === 'driver' && shipment.assigned_driver_id !== caller.userId) {
+    throw new AuthorizationError('Drivers can only act on shipments assigned to them', 403);
+  }
+  if (caller.kind === 'user' && caller.role === 'customer' && shipment.customer_id !== caller.userId) {
+    throw new AuthorizationError('Customers can only act on their own shipments', 403);
+  }
+}
@@ -0,0 +1,270 @@
+// Proof-of-authority rules for a permissioned ledger consortium
+//
+// Each member organisation runs one validator. Validators take turns to
+// propose blocks (round-robin by block number), and a block only counts once
+// a quorum of the validator set has signed its hash. The set itself lives on
+// the chain: a consortium_genesis transaction names the first validators, and
+// validator_vote transactions from current validators add or remove one once
+// a quorum of them agree. A change applies from the block after the one that
+// decided it.
+//
+// Everything here is pure, so the hosted ledger (ledger.ts) and the local
+// multi-validator harness (scripts/consortium) apply exactly the same rules.
+
+export const CONSORTIUM_GENESIS_OPERATION = 'consortium_genesis';
+export const VALIDATOR_VOTE_OPERATION = 'validator_vote';
+
+export const GOVERNANCE_OPERATIONS = [CONSORTIUM_GENESIS_OPERATION, VALIDATOR_VOTE_OPERATION];
+
+const KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface Validator {
+  address: string;
+  organisation: string;
+  publicKey: JsonWebKey;
+}
+
+export interface ValidatorVote {
+  action: 'add' | 'remove';
+  validator: string;
+  organisation: string;
+  // Required to add a validator
+  publicKey?: JsonWebKey;
+}
+
+// A validator's signature over a block hash
+export interface BlockSignature {
+  validator: string;
+  signature: string;
+}
+
+// The parts of a block the seal covers; round is unset for blocks proposed in round 0
+export interface SealedBlockHeader {
+  number: number;
+  hash: string;
+  proposer?: string;
+  round?: number;
+}
+
+// The parts of a transaction governance reads
+export interface GovernanceTransaction {
+  from: string;
+  operation: string;
+  payload: Record<string, unknown>;
+}
+
+export interface ConsensusState {
+  // In the order they joined, which is the proposer rotation
+  validators: Validator[];
+  // Undecided votes, keyed by action and validator address
+  votes: Record<string, { vote: ValidatorVote; voters: string[] }>;
+}
+
+export const EMPTY_CONSENSUS_STATE: ConsensusState = { validators: [], votes: {} };
+
+// Signatures a block needs: more than two thirds of the validator set
+export function quorumSize(validatorCount: number): number {
+  return Math.floor((validatorCount * 2) / 3) + 1;
+}
+
+// Validator whose turn it is to propose a block. A round moves on to the next
+// validator when the expected proposer doesn't get a block signed in time.
+export function getProposer(validators: Validator[], blockNumber: number, round = 0): Validator {
+  return validators[(blockNumber + round) % validators.length];
+}
+
+const voteKey = (vote: ValidatorVote) => `${vote.action}:${vote.validator.toLowerCase()}`;
+
+const isValidator = (state: ConsensusState, address: string) =>
+  state.validators.some((validator) => validator.address.toLowerCase() === address.toLowerCase());
+
+function parseValidators(payload: Record<string, unknown>): Validator[] | null {
+  if (!Array.isArray(payload.validators) || payload.validators.length === 0) return null;
+
+  const validators = payload.validators as Validator[];
+  const wellFormed = validators.every((validator) =>
+    typeof validator?.address === 'string' &&
+    typeof validator.organisation === 'string' &&
+    typeof validator.publicKey === 'object' && validator.publicKey !== null
+  );
+  return wellFormed ? validators : null;
+}
+
+// Why a governance transaction can't be applied to this state, or null when it can.
+// Ledgers reject such transactions before they are sealed; applyGovernance skips any that slip through.
+export function checkGovernanceTransaction(state: ConsensusState, tx: GovernanceTransaction): string | null {
+  if (tx.operation === CONSORTIUM_GENESIS_OPERATION) {
+    if (state.validators.length > 0) return 'The consortium has already started';
+
+    const validators = parseValidators(tx.payload);
+    if (!validators) return 'A consortium needs at least one validator with an address, organisation and public key';
+
+    const organisations = new Set(validators.map((validator) => validator.organisation));
+    const addresses = new Set(validators.map((validator) => validator.address.toLowerCase()));
+    if (organisations.size !== validators.length) return 'Each organisation runs exactly one validator';
+    if (addresses.size !== validators.length) return 'Validator addresses must be unique';
+    return null;
+  }
+
+  if (tx.operation !== VALIDATOR_VOTE_OPERATION) return null;
+
+  const vote = tx.payload as unknown as ValidatorVote;
+  if (state.validators.length === 0) return 'The consortium has not started';
+  if (!isValidator(state, tx.from)) return `${tx.from} is not a validator and cannot vote`;
+  if (state.votes[voteKey(vote)]?.voters.includes(tx.from.toLowerCase())) {
+    return `${tx.from} has already voted to ${vote.action} ${vote.validator}`;
+  }
+
+  if (vote.action === 'add') {
+    if (!vote.publicKey) return 'A public key is required to add a validator';
+    if (isValidator(state, vote.validator)) return `${vote.validator} is already a validator`;
+    if (state.validators.some((validator) => validator.organisation === vote.organisation)) {
+      return `${vote.organisation} already runs a validator`;
+    }
+    return null;
+  }
+
+  if (vote.action === 'remove') {
+    const validator = state.validators.find((v) => v.address.toLowerCase() === vote.validator.toLowerCase());
+    if (!validator) return `${vote.validator} is not a validator`;
+    if (validator.organisation !== vote.organisation) return `${vote.validator} is not ${vote.organisation}'s validator`;
+    if (state.validators.length === 1) return 'The last validator cannot be removed';
+    return null;
+  }
+
+  return `Unknown vote action ${vote.action}`;
+}
+
+// Apply decided votes, repeating since a smaller set can push other votes over its quorum
+function applyDecidedVotes(state: ConsensusState): ConsensusState {
+  let next = state;
+
+  for (;;) {
+    const decided = Object.entries(next.votes)
+      .find(([, tally]) => tally.voters.length >= quorumSize(next.validators.length));
+    if (!decided) return next;
+
+    const [key, { vote }] = decided;
+    const votes = { ...next.votes };
+    delete votes[key];
+
+    if (vote.action === 'add') {
+      next = {
+        validators: [...next.validators, { address: vote.validator, organisation: vote.organisation, publicKey: vote.publicKey! }],
+        votes
+      };
+    } else {
+      const removed = vote.validator.toLowerCase();
+      // A removed validator's outstanding votes no longer count
+      for (const [otherKey, tally] of Object.entries(votes)) {
+        votes[otherKey] = { ...tally, voters: tally.voters.filter((voter) => voter !== removed) };
+      }
+      next = {
+        validators: next.validators.filter((validator) => validator.address.toLowerCase() !== removed),
+        votes
+      };
+    }
+  }
+}
+
+// State after a block's transactions, which is the state the following block is sealed under
+export function applyGovernance(state: ConsensusState, transactions: GovernanceTransaction[]): ConsensusState {
+  let next = state;
+
+  for (const tx of transactions) {
+    if (!GOVERNANCE_OPERATIONS.includes(tx.operation)) continue;
+    if (checkGovernanceTransaction(next, tx)) continue;
+
+    if (tx.operation === CONSORTIUM_GENESIS_OPERATION) {
+      next = { validators: parseValidators(tx.payload)!, votes: {} };
+      continue;
+    }
+
+    const vote = tx.payload as unknown as ValidatorVote;
+    const key = voteKey(vote);
+    const tally = next.votes[key] ?? { vote, voters: [] };
+    next = applyDecidedVotes({
+      validators: next.validators,
+      votes: { ...next.votes, [key]: { ...tally, voters: [...tally.voters, tx.from.toLowerCase()] } }
+    });
+  }
+
+  return next;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return '0x' + Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (digits.length === 0 || digits.length % 2 !== 0 || /[^0-9a-fA-F]/.test(digits)) return null;
+  return new Uint8Array(digits.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+export async function signBlockHash(privateKey: JsonWebKey, blockHash: string): Promise<string> {
+  const key = await crypto.subtle.importKey('jwk', privateKey, KEY_PARAMS, false, ['sign']);
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, key, new TextEncoder().encode(blockHash));
+  return bytesToHex(new Uint8Array(signature));
+}
+
+export async function verifyBlockSignature(publicKey: JsonWebKey, blockHash: string, signature: string): Promise<boolean> {
+  const signatureBytes = hexToBytes(signature);
+  if (!signatureBytes) return false;
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      { kty: publicKey.kty, crv: publicKey.crv, x: publicKey.x, y: publicKey.y },
+      KEY_PARAMS,
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(SIGN_PARAMS, key, signatureBytes, new TextEncoder().encode(blockHash));
+  } catch {
+    return false;
+  }
+}
+
+// Check a block was proposed in turn and signed by a quorum of the validators it was sealed under.
+// Returns the reason the seal is invalid, or null when it holds.
+export async function checkBlockSeal(
+  state: ConsensusState,
+  block: SealedBlockHeader,
+  signatures: BlockSignature[]
+): Promise<string | null> {
+  if (state.validators.length === 0) {
+    return block.proposer || signatures.length > 0
+      ? `Block ${block.number} is sealed by validators, but no consortium was running`
+      : null;
+  }
+
+  if (!block.proposer) {
+    return `Block ${block.number} has no proposer, but the consortium was running`;
+  }
+
+  const expected = getProposer(state.validators, block.number, block.round);
+  if (expected.address.toLowerCase() !== block.proposer.toLowerCase()) {
+    return `Block ${block.number} was proposed by ${block.proposer}, but round ${block.round ?? 0} was ${expected.organisation}'s turn`;
+  }
+
+  const signers = new Set<string>();
+  for (const { validator: address, signature } of signatures) {
+    const validator = state.validators.find((v) => v.address.toLowerCase() === address.toLowerCase());
+    if (validator && await verifyBlockSignature(validator.publicKey, block.hash, signature)) {
+      signers.add(validator.address.toLowerCase());
+    }
+  }
+
+  if (!signers.has(block.proposer.toLowerCase())) {
+    return `Block ${block.number} is not signed by its proposer`;
+  }
+
+  const quorum = quorumSize(state.validators.length);
+  if (signers.size < quorum) {
+    return `Block ${block.number} has ${signers.size} valid validator signatures but needs ${quorum}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,142 @@
+// Idempotency keys for edge function requests (see 20240620000000_add_idempotency_keys_and_nonces.sql)
+//
+// A request that carries a key claims it before running. Its response is then
+// stored under the key, and any later request with the same key gets that
+// response back instead of running again, so a double-submitted or retried
+// request is only ever carried out once. A key stands for one operation rather
+// than an exact body, since a resubmitted request may carry a fresh timestamp.
+// Server errors release the key, so the same request can be retried with it.
+// Keys are namespaced by the caller, so one user's key never replays another's
+// stored response.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import type { Caller } from './auth.ts';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Set on a response that was replayed from the first request with its key
+export const IDEMPOTENT_REPLAY_HEADER = 'idempotent-replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyKeyRow {
+  operation: string;
+  status_code: number | null;
+  response: unknown;
+}
+
+// The key a request carries, from its idempotencyKey field or the Idempotency-Key
+// header, prefixed with the caller's user id ('service' for the service role)
+export function getIdempotencyKey(req: Request, body: Record<string, unknown>, caller: Caller): string | null {
+  const key = typeof body.idempotencyKey === 'string' && body.idempotencyKey
+    ? body.idempotencyKey
+    : req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (!key) return null;
+
+  return `${caller.kind === 'user' ? caller.userId : 'service'}:${key}`;
+}
+
+// Run handle once per key. A replay of the same request gets the stored response
+// with IDEMPOTENT_REPLAY_HEADER set; the key reused for another operation gets 422,
+// and a replay that arrives while the first request is still running gets 409.
+export async function withIdempotencyKey(
+  supabase: SupabaseClient,
+  scope: string,
+  key: string,
+  operation: string,
+  headers: Record<string, string>,
+  handle: () => Promise<Response>
+): Promise<Response> {
+  if (key.length > MAX_KEY_LENGTH) {
+    return jsonReply({ success: false, error: `Idempotency key must be at most ${MAX_KEY_LENGTH} characters` }, 400, headers);
+  }
+
+  const { error: claimError } = await supabase
+    .from('idempotency_keys')
+    .insert({ scope, key, operation });
+
+  if (claimError) {
+    if (claimError.code !== '23505') throw claimError;
+    return replay(supabase, scope, key, operation, headers);
+  }
+
+  let response: Response;
+  try {
+    response = await handle();
+  } catch (error) {
+    await releaseKey(supabase, scope, key);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await releaseKey(supabase, scope, key);
+    return response;
+  }
+
+  const { error: storeError } = await supabase
+    .from('idempotency_keys')
+    .update({
+      status_code: response.status,
+      response: await response.clone().json(),
+      completed_at: new Date().toISOString()
+    })
+    .eq('scope', scope)
+    .eq('key', key);
+
+  // The operation has already run, so its response still goes back to the caller
+  if (storeError) {
+    console.error(`Could not store response for idempotency key ${key}:`, storeError);
+  }
+
+  return response;
+}
+
+async function replay(
+  supabase: SupabaseClient,
+  scope: string,
+  key: string,
+  operation: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .select('operation, status_code, response')
+    .eq('scope', scope)
+    .eq('key', key)
+    .single();
+
+  if (error) throw error;
+  const stored = data as IdempotencyKeyRow;
+
+  if (stored.operation !== operation) {
+    return jsonReply({ success: false, error: `Idempotency key has already been used for ${stored.operation}` }, 422, headers);
+  }
+  if (stored.status_code === null) {
+    return jsonReply({ success: false, error: 'A request with this idempotency key is still in progress' }, 409, headers);
+  }
+
+  console.log(`Replaying response for idempotency key ${key}`);
+  return jsonReply(stored.response, stored.status_code, { ...headers, [IDEMPOTENT_REPLAY_HEADER]: 'true' });
+}
+
+async function releaseKey(supabase: SupabaseClient, scope: string, key: string): Promise<void> {
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('scope', scope)
+    .eq('key', key);
+
+  if (error) {
+    console.error(`Could not release idempotency key ${key}:`, error);
+  }
+}
+
+function jsonReply(body: unknown, status: number, headers: Record<string, string>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...headers, "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,653 @@
+// Hash-chained ledger shared by the blockchain edge functions
+//
+// Transactions are hashed over their content, grouped into blocks, and each
+// block links to the hash of the block before it. Everything is stored in the
+// ledger_blocks / ledger_transactions tables, so any blockchain_tx_hash column
+// can be recomputed and checked against the chain.
+//
+// Once a validator consortium has been started (see consensus.ts), each block
+// also names its proposer and is only sealed with signatures from a quorum of
+// the validators. The hosted ledger holds every validator's key custodially in
+// ledger_validator_keys, simulating the partner nodes.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { validateOperationPayload } from './payloadSchemas.ts';
+import {
+  BlockSignature,
+  ConsensusState,
+  EMPTY_CONSENSUS_STATE,
+  GOVERNANCE_OPERATIONS,
+  applyGovernance,
+  checkBlockSeal,
+  getProposer,
+  quorumSize,
+  signBlockHash
+} from './consensus.ts';
+
+// Default participants used until transactions are attributed to real wallets
+export const LEDGER_SYSTEM_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+export const LEDGER_REGISTRY_ADDRESS = '0x8Ba1f109551bD432803012645Ac136ddd64DBA72';
+
+// previous_hash of the first block
+export const GENESIS_PREVIOUS_HASH = '0x' + '0'.repeat(64);
+
+// How many times sealing is retried when another writer wins the race for a block height
+const MAX_SEAL_ATTEMPTS = 5;
+
+// How many times appending is retried when another writer takes the sender's next nonce first
+const MAX_NONCE_ATTEMPTS = 5;
+
+// Raised by append_ledger_transaction when a nonce isn't the sender's next one
+const NONCE_MISMATCH_ERRCODE = 'LDG01';
+
+export interface LedgerTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  operation: string;
+  payload: Record<string, unknown>;
+  timestamp: number;
+  // Position in the sender's sequence of transactions; unset on transactions recorded before nonces
+  nonce?: number;
+  blockNumber?: number;
+  txIndex?: number;
+}
+
+export interface LedgerBlock {
+  number: number;
+  hash: string;
+  previousHash: string;
+  transactionsRoot: string;
+  transactionCount: number;
+  timestamp: number;
+  // Validator that proposed the block; unset on blocks sealed before the consortium started
+  proposer?: string;
+  // Proposal round, unset for round 0; only the multi-validator harness gets past round 0
+  round?: number;
+}
+
+// Who sends a write. Without a nonce the sender's next one is assigned; a
+// nonce that isn't the next one is rejected with a NonceMismatchError.
+export interface LedgerSender {
+  from?: string;
+  nonce?: number;
+}
+
+export interface LedgerWrite extends LedgerSender {
+  operation: string;
+  payload: Record<string, unknown>;
+  to?: string;
+}
+
+export interface LedgerReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  from: string;
+  nonce: number;
+}
+
+// Outcome of checking a transaction against the chain; reason explains any failure
+export interface TransactionVerification {
+  verified: boolean;
+  found: boolean;
+  reason: string | null;
+  transactionHash: string;
+  recomputedHash: string | null;
+  hashMatches: boolean;
+  linkedIntoChain: boolean;
+  blockNumber: number | null;
+  blockHash: string | null;
+  txIndex: number | null;
+  confirmations: number;
+  timestamp: string | null;
+  from: string | null;
+  to: string | null;
+  nonce: number | null;
+  operation: string | null;
+  payload: Record<string, unknown> | null;
+  status: 'success' | 'failed' | 'pending' | 'not_found';
+}
+
+// A write carried a nonce the sender has already used (a replay) or skipped ahead of
+export class NonceMismatchError extends Error {
+  constructor(readonly sender: string, readonly nonce: number, readonly expectedNonce: number) {
+    super(nonce < expectedNonce
+      ? `Nonce ${nonce} for ${sender} has already been used; the next nonce is ${expectedNonce}`
+      : `Nonce ${nonce} for ${sender} is ahead of the next nonce ${expectedNonce}`);
+    this.name = 'NonceMismatchError';
+  }
+}
+
+// A write whose payload doesn't match any schema registered for its operation (see payloadSchemas.ts)
+export class PayloadSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayloadSchemaError';
+  }
+}
+
+interface LedgerTransactionRow {
+  tx_hash: string;
+  block_number: number | null;
+  tx_index: number | null;
+  from_address: string;
+  to_address: string;
+  operation: string;
+  payload: Record<string, unknown>;
+  timestamp: number;
+  nonce: number | null;
+}
+
+interface LedgerBlockRow {
+  block_number: number;
+  block_hash: string;
+  previous_hash: string;
+  transactions_root: string;
+  transaction_count: number;
+  timestamp: number;
+  proposer: string | null;
+}
+
+// Serialize a value as JSON with object keys sorted, so the same content always hashes the same
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return '0x' + Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function computeTransactionHash(tx: Omit<LedgerTransaction, 'hash' | 'blockNumber' | 'txIndex'>): Promise<string> {
+  return sha256Hex(canonicalize({
+    from: tx.from,
+    to: tx.to,
+    operation: tx.operation,
+    payload: tx.payload,
+    timestamp: tx.timestamp,
+    // Left out of the hash when unset, so transactions from before nonces still recompute
+    nonce: tx.nonce
+  }));
+}
+
+export function computeBlockHash(block: Omit<LedgerBlock, 'hash'>): Promise<string> {
+  return sha256Hex(canonicalize({
+    number: block.number,
+    previousHash: block.previousHash,
+    transactionsRoot: block.transactionsRoot,
+    transactionCount: block.transactionCount,
+    timestamp: block.timestamp,
+    // Left out of the hash when unset, so blocks from before the consortium still recompute
+    proposer: block.proposer,
+    round: block.round
+  }));
+}
+
+// Merkle root over a list of hashes; an odd node at any level is paired with itself
+export async function computeMerkleRoot(hashes: string[]): Promise<string> {
+  if (hashes.length === 0) return GENESIS_PREVIOUS_HASH;
+
+  let level = hashes;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? left;
+      next.push(await sha256Hex(left + right.slice(2)));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+// One step of a Merkle inclusion proof: the sibling hash and which side of the pair it sits on
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+// Inclusion proof for every leaf, in leaf order; each proof folds up to the root computeMerkleRoot gives
+export async function computeMerkleProofs(hashes: string[]): Promise<MerkleProofStep[][]> {
+  const proofs: MerkleProofStep[][] = hashes.map(() => []);
+  // Leaves under each node of the current level
+  let members = hashes.map((_, index) => [index]);
+  let level = hashes;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    const nextMembers: number[][] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] ?? left;
+      members[i].forEach((leaf) => proofs[leaf].push({ hash: right, position: 'right' }));
+      if (i + 1 < level.length) {
+        members[i + 1].forEach((leaf) => proofs[leaf].push({ hash: left, position: 'left' }));
+      }
+      next.push(await sha256Hex(left + right.slice(2)));
+      nextMembers.push([...members[i], ...(members[i + 1] ?? [])]);
+    }
+    level = next;
+    members = nextMembers;
+  }
+  return proofs;
+}
+
+// Fold a leaf hash through its proof; the result equals the root when the leaf is in the tree
+export async function applyMerkleProof(leaf: string, proof: MerkleProofStep[]): Promise<string> {
+  let hash = leaf;
+  for (const step of proof) {
+    hash = step.position === 'left'
+      ? await sha256Hex(step.hash + hash.slice(2))
+      : await sha256Hex(hash + step.hash.slice(2));
+  }
+  return hash;
+}
+
+export function toLedgerTransaction(row: LedgerTransactionRow): LedgerTransaction {
+  return {
+    hash: row.tx_hash,
+    from: row.from_address,
+    to: row.to_address,
+    operation: row.operation,
+    payload: row.payload,
+    timestamp: Number(row.timestamp),
+    nonce: row.nonce === null ? undefined : Number(row.nonce),
+    blockNumber: row.block_number ?? undefined,
+    txIndex: row.tx_index ?? undefined
+  };
+}
+
+export function toLedgerBlock(row: LedgerBlockRow): LedgerBlock {
+  return {
+    number: Number(row.block_number),
+    hash: row.block_hash,
+    previousHash: row.previous_hash,
+    transactionsRoot: row.transactions_root,
+    transactionCount: row.transaction_count,
+    timestamp: Number(row.timestamp),
+    proposer: row.proposer ?? undefined
+  };
+}
+
+// Check the optional from / nonce fields of a request body; returns the problem, or null when they're usable
+export function validateLedgerSender(body: Record<string, unknown>): string | null {
+  if (body.from !== undefined && (typeof body.from !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(body.from))) {
+    return 'from must be a 0x-prefixed 20-byte address';
+  }
+  if (body.nonce !== undefined && (typeof body.nonce !== 'number' || !Number.isSafeInteger(body.nonce) || body.nonce < 0)) {
+    return 'nonce must be a non-negative integer';
+  }
+  return null;
+}
+
+// The sender a request body names; call validateLedgerSender first
+export function getLedgerSender(body: Record<string, unknown>): LedgerSender {
+  return {
+    from: body.from as string | undefined,
+    nonce: body.nonce as number | undefined
+  };
+}
+
+// The nonce the sender's next transaction must carry
+export async function getNextNonce(supabase: SupabaseClient, address: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('ledger_sender_nonces')
+    .select('next_nonce')
+    .eq('address', address)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? Number(data.next_nonce) : 0;
+}
+
+// Append a transaction to the ledger; it stays unsealed until sealPendingTransactions runs
+export async function appendTransaction(supabase: SupabaseClient, write: LedgerWrite): Promise<LedgerTransaction> {
+  const schemaProblem = validateOperationPayload(write.operation, write.payload ?? {});
+  if (schemaProblem) throw new PayloadSchemaError(schemaProblem);
+
+  const from = write.from ?? LEDGER_SYSTEM_ADDRESS;
+
+  for (let attempt = 0; attempt < MAX_NONCE_ATTEMPTS; attempt++) {
+    const tx = {
+      from,
+      to: write.to ?? LEDGER_REGISTRY_ADDRESS,
+      operation: write.operation,
+      // Round-trip through JSON so the hashed payload matches what JSONB gives back
+      payload: JSON.parse(JSON.stringify(write.payload ?? {})),
+      timestamp: Date.now(),
+      nonce: write.nonce ?? await getNextNonce(supabase, from)
+    };
+    const hash = await computeTransactionHash(tx);
+
+    const { error } = await supabase.rpc('append_ledger_transaction', {
+      p_tx_hash: hash,
+      p_from_address: tx.from,
+      p_to_address: tx.to,
+      p_operation: tx.operation,
+      p_payload: tx.payload,
+      p_timestamp: tx.timestamp,
+      p_nonce: tx.nonce
+    });
+
+    if (!error) return { hash, ...tx };
+    if (error.code !== NONCE_MISMATCH_ERRCODE) throw error;
+
+    // A nonce the caller chose is final; an assigned one was taken by a concurrent write, so take the next
+    if (write.nonce !== undefined) {
+      throw new NonceMismatchError(from, write.nonce, Number(error.details));
+    }
+  }
+
+  throw new Error(`Could not append ledger transaction: nonces for ${from} kept moving`);
+}
+
+export async function getLatestBlock(supabase: SupabaseClient): Promise<LedgerBlock | null> {
+  const { data, error } = await supabase
+    .from('ledger_blocks')
+    .select('*')
+    .order('block_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toLedgerBlock(data) : null;
+}
+
+// Validator set and open votes that apply to a block: replays the governance
+// transactions sealed before it, or before the next block when none is given
+export async function getConsensusState(supabase: SupabaseClient, blockNumber?: number): Promise<ConsensusState> {
+  let query = supabase
+    .from('ledger_transactions')
+    .select('from_address, operation, payload')
+    .in('operation', GOVERNANCE_OPERATIONS)
+    .not('block_number', 'is', null)
+    .order('block_number', { ascending: true })
+    .order('tx_index', { ascending: true });
+  if (blockNumber !== undefined) query = query.lt('block_number', blockNumber);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return applyGovernance(EMPTY_CONSENSUS_STATE, (data || []).map((row: Pick<LedgerTransactionRow, 'from_address' | 'operation' | 'payload'>) => ({
+    from: row.from_address,
+    operation: row.operation,
+    payload: row.payload
+  })));
+}
+
+// Have the proposer and then the other validators sign a block, stopping at a quorum
+async function collectBlockSignatures(supabase: SupabaseClient, state: ConsensusState, block: LedgerBlock): Promise<BlockSignature[]> {
+  const { data: keys, error } = await supabase
+    .from('ledger_validator_keys')
+    .select('address, private_key')
+    .in('address', state.validators.map((validator) => validator.address));
+
+  if (error) throw error;
+
+  const privateKeys = new Map((keys || []).map((key: { address: string; private_key: JsonWebKey }) => [key.address, key.private_key]));
+  const signers = [
+    block.proposer!,
+    ...state.validators.map((validator) => validator.address).filter((address) => address !== block.proposer)
+  ];
+  const quorum = quorumSize(state.validators.length);
+
+  if (!privateKeys.has(block.proposer!)) {
+    throw new Error(`Block ${block.number} cannot be proposed: no key is held for proposer ${block.proposer}`);
+  }
+
+  const signatures: BlockSignature[] = [];
+  for (const address of signers) {
+    const privateKey = privateKeys.get(address);
+    if (!privateKey) continue;
+    signatures.push({ validator: address, signature: await signBlockHash(privateKey, block.hash) });
+    if (signatures.length === quorum) return signatures;
+  }
+
+  throw new Error(`Block ${block.number} has ${signatures.length} validator signatures but needs ${quorum}`);
+}
+
+// Group every unsealed transaction into a new block linked to the current chain head
+export async function sealPendingTransactions(supabase: SupabaseClient): Promise<LedgerBlock | null> {
+  for (let attempt = 0; attempt < MAX_SEAL_ATTEMPTS; attempt++) {
+    const { data: pending, error: pendingError } = await supabase
+      .from('ledger_transactions')
+      .select('tx_hash')
+      .is('block_number', null)
+      .order('created_at', { ascending: true })
+      .order('tx_hash', { ascending: true });
+
+    if (pendingError) throw pendingError;
+    if (!pending || pending.length === 0) return null;
+
+    const head = await getLatestBlock(supabase);
+    const consensus = await getConsensusState(supabase);
+    const txHashes = pending.map((row: { tx_hash: string }) => row.tx_hash);
+    const number = head ? head.number + 1 : 0;
+    const header = {
+      number,
+      previousHash: head ? head.hash : GENESIS_PREVIOUS_HASH,
+      transactionsRoot: await computeMerkleRoot(txHashes),
+      transactionCount: txHashes.length,
+      timestamp: Date.now(),
+      proposer: consensus.validators.length > 0 ? getProposer(consensus.validators, number).address : undefined
+    };
+    const block: LedgerBlock = { ...header, hash: await computeBlockHash(header) };
+    const signatures = block.proposer ? await collectBlockSignatures(supabase, consensus, block) : [];
+
+    const { error: sealError } = await supabase.rpc('seal_ledger_block', {
+      p_block_number: block.number,
+      p_block_hash: block.hash,
+      p_previous_hash: block.previousHash,
+      p_transactions_root: block.transactionsRoot,
+      p_timestamp: block.timestamp,
+      p_tx_hashes: txHashes,
+      p_proposer: block.proposer ?? null,
+      p_signatures: signatures
+    });
+
+    if (sealError) {
+      // Another writer sealed this height or some of these transactions first, so retry on the new head
+      if (sealError.code === '23505' || sealError.code === '40001') continue;
+      throw sealError;
+    }
+
+    return block;
+  }
+
+  throw new Error('Could not seal ledger block: chain head kept moving');
+}
+
+// Append a transaction and seal it into a block straight away
+export async function recordOnLedger(supabase: SupabaseClient, write: LedgerWrite): Promise<LedgerReceipt> {
+  const tx = await appendTransaction(supabase, write);
+  await sealPendingTransactions(supabase);
+
+  const { data, error } = await supabase
+    .from('ledger_transactions')
+    .select('block_number, ledger_blocks(block_hash)')
+    .eq('tx_hash', tx.hash)
+    .single();
+
+  if (error) throw error;
+  if (data.block_number === null) {
+    throw new Error(`Transaction ${tx.hash} was not sealed into a block`);
+  }
+
+  return {
+    transactionHash: tx.hash,
+    blockNumber: Number(data.block_number),
+    blockHash: (data.ledger_blocks as { block_hash: string }).block_hash,
+    timestamp: tx.timestamp,
+    from: tx.from,
+    nonce: tx.nonce as number
+  };
+}
+
+async function getBlockSignatures(supabase: SupabaseClient, blockNumber: number): Promise<BlockSignature[]> {
+  const { data, error } = await supabase
+    .from('ledger_block_signatures')
+    .select('validator_address, signature')
+    .eq('block_number', blockNumber);
+
+  if (error) throw error;
+  return (data || []).map((row: { validator_address: string; signature: string }) => ({
+    validator: row.validator_address,
+    signature: row.signature
+  }));
+}
+
+async function getBlockByNumber(supabase: SupabaseClient, blockNumber: number): Promise<LedgerBlock | null> {
+  const { data, error } = await supabase
+    .from('ledger_blocks')
+    .select('*')
+    .eq('block_number', blockNumber)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toLedgerBlock(data) : null;
+}
+
+// Check that a block's contents, hash and links to its neighbours are all intact.
+// Returns the reason the check failed, or null when the block is sound.
+export async function checkBlockIntegrity(supabase: SupabaseClient, block: LedgerBlock): Promise<string | null> {
+  const { data: rows, error } = await supabase
+    .from('ledger_transactions')
+    .select('tx_hash')
+    .eq('block_number', block.number)
+    .order('tx_index', { ascending: true });
+
+  if (error) throw error;
+
+  const txHashes = (rows || []).map((row: { tx_hash: string }) => row.tx_hash);
+  if (txHashes.length !== block.transactionCount) {
+    return `Block ${block.number} should hold ${block.transactionCount} transactions but holds ${txHashes.length}`;
+  }
+  if (await computeMerkleRoot(txHashes) !== block.transactionsRoot) {
+    return `Transactions root of block ${block.number} does not match its transactions`;
+  }
+  if (await computeBlockHash(block) !== block.hash) {
+    return `Hash of block ${block.number} does not match its header`;
+  }
+
+  const sealProblem = await checkBlockSeal(
+    await getConsensusState(supabase, block.number),
+    block,
+    await getBlockSignatures(supabase, block.number)
+  );
+  if (sealProblem) return sealProblem;
+
+  if (block.number === 0) {
+    if (block.previousHash !== GENESIS_PREVIOUS_HASH) {
+      return 'First block does not start from the genesis hash';
+    }
+  } else {
+    const previous = await getBlockByNumber(supabase, block.number - 1);
+    if (!previous || previous.hash !== block.previousHash) {
+      return `Block ${block.number} does not link to block ${block.number - 1}`;
+    }
+  }
+
+  const next = await getBlockByNumber(supabase, block.number + 1);
+  if (next && next.previousHash !== block.hash) {
+    return `Block ${block.number + 1} does not link back to block ${block.number}`;
+  }
+
+  return null;
+}
+
+// Look up a transaction, recompute its hash from the stored payload and check its block links into the chain
+export async function verifyTransaction(supabase: SupabaseClient, hash: string): Promise<TransactionVerification> {
+  const result: TransactionVerification = {
+    verified: false,
+    found: false,
+    reason: null,
+    transactionHash: hash,
+    recomputedHash: null,
+    hashMatches: false,
+    linkedIntoChain: false,
+    blockNumber: null,
+    blockHash: null,
+    txIndex: null,
+    confirmations: 0,
+    timestamp: null,
+    from: null,
+    to: null,
+    nonce: null,
+    operation: null,
+    payload: null,
+    status: 'not_found'
+  };
+
+  const { data: row, error } = await supabase
+    .from('ledger_transactions')
+    .select('*')
+    .eq('tx_hash', hash)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!row) {
+    result.reason = 'Transaction not found on the ledger';
+    return result;
+  }
+
+  const tx = toLedgerTransaction(row);
+  result.found = true;
+  result.from = tx.from;
+  result.to = tx.to;
+  result.nonce = tx.nonce ?? null;
+  result.operation = tx.operation;
+  result.payload = tx.payload;
+  result.timestamp = new Date(tx.timestamp).toISOString();
+  result.blockNumber = tx.blockNumber ?? null;
+  result.txIndex = tx.txIndex ?? null;
+
+  result.recomputedHash = await computeTransactionHash(tx);
+  result.hashMatches = result.recomputedHash === tx.hash;
+
+  if (tx.blockNumber === undefined) {
+    result.status = 'pending';
+    result.reason = 'Transaction has not been sealed into a block yet';
+    return result;
+  }
+
+  const block = await getBlockByNumber(supabase, tx.blockNumber);
+  if (!block) {
+    result.status = 'failed';
+    result.reason = `Block ${tx.blockNumber} is missing from the ledger`;
+    return result;
+  }
+  result.blockHash = block.hash;
+
+  const head = await getLatestBlock(supabase);
+  result.confirmations = head ? head.number - block.number + 1 : 0;
+
+  const blockProblem = await checkBlockIntegrity(supabase, block);
+  result.linkedIntoChain = blockProblem === null;
+
+  if (!result.hashMatches) {
+    result.status = 'failed';
+    result.reason = 'Stored payload does not match the transaction hash';
+  } else if (blockProblem) {
+    result.status = 'failed';
+    result.reason = blockProblem;
+  } else {
+    result.status = 'success';
+    result.verified = true;
+  }
+
+  return result;
+}
@@ -0,0 +1,129 @@
+// Permission matrix for the edge functions
+//
+// Which roles may call each action of each function. The service role (the
+// scheduled outbox worker and other server-side callers) may call everything.
+// Actions that act on a shipment are checked for ownership as well (see
+// assertShipmentAccess in auth.ts); the comments note where.
+
+import type { AppRole } from './auth.ts';
+
+// Every role that takes part in shipments; arbiters only decide disputes
+const ALL_ROLES: AppRole[] = ['manager', 'driver', 'customer'];
+const STAFF: AppRole[] = ['manager', 'driver'];
+const MANAGERS: AppRole[] = ['manager'];
+const ARBITERS: AppRole[] = ['arbiter'];
+
+// Contract operations run through blockchain-verify or are queued with the ledger outbox
+const CONTRACT_OPERATION_PERMISSIONS: Record<string, AppRole[]> = {
+  // Location and status updates from the road; shipment-scoped
+  track_shipment: STAFF,
+  transfer_ownership: MANAGERS,
+  verify_product: MANAGERS,
+  settle_payment: MANAGERS,
+  carbon_credits: MANAGERS,
+  customs_clearance: MANAGERS,
+  release_payment: MANAGERS
+};
+
+export const PERMISSIONS: Record<string, Record<string, AppRole[]>> = {
+  'blockchain-verify': {
+    // Checks a transaction hash; nothing shipment-specific is returned
+    verify: ALL_ROLES,
+    register: MANAGERS,
+    // Shipment-scoped from here on
+    update: STAFF,
+    'execute-contract': MANAGERS,
+    'carbon-credits': MANAGERS,
+    record: STAFF,
+    anchor_sensor_batches: STAFF,
+    verify_sensor_reading: ALL_ROLES,
+    ...CONTRACT_OPERATION_PERMISSIONS
+  },
+
+  'supply-chain-management': {
+    register_participant: MANAGERS,
+    // Shipment-scoped; users sign as themselves, managers may also sign for external parties
+    record_event: STAFF,
+    // Shipment-scoped; devices send readings with the service role key
+    record_sensor_reading: STAFF,
+    // Shipment-scoped; the shipment's customer is its owner
+    transfer_ownership: MANAGERS,
+    add_document: STAFF,
+    verify_product_history: ALL_ROLES,
+    export_audit_bundle: ALL_ROLES,
+    create_smart_contract: MANAGERS,
+    // Managers and the contract's parties; the engine checks which contract the caller is a party to
+    transition_contract: ALL_ROLES,
+    get_contract: ALL_ROLES,
+    evaluate_contracts: MANAGERS,
+    open_escrow: MANAGERS,
+    open_sla: MANAGERS,
+    open_cold_chain: MANAGERS,
+    // Results are limited to the caller's own shipments unless they're a manager
+    query_supply_chain: ALL_ROLES
+  },
+
+  'sustainability-ai': {
+    optimize_route: STAFF,
+    // Shipment-scoped when a shipment is named
+    analyze_shipment: ALL_ROLES,
+    generate_suggestions: ALL_ROLES
+  },
+
+  'database-function': {
+    get_all_routes: STAFF,
+    get_route_by_id: STAFF,
+    create_route: MANAGERS,
+    // Drivers can only update routes they created, as the routes table's RLS policy says
+    update_route: STAFF
+  },
+
+  // verify needs no account: the signed link is the credential
+  'public-verify': {
+    // Shipment-scoped
+    issue_link: ['manager', 'customer']
+  },
+
+  'wallets': {
+    create: [...ALL_ROLES, ...ARBITERS],
+    get: [...ALL_ROLES, ...ARBITERS]
+  },
+
+  // Shipment-scoped: only the parties an action still needs can sign or reject it
+  'approvals': {
+    list: ALL_ROLES,
+    approve: ALL_ROLES,
+    reject: ALL_ROLES
+  },
+
+  // The function checks which part, if any, the caller has in the dispute
+  'disputes': {
+    get: [...ALL_ROLES, ...ARBITERS],
+    // The claimant is the caller, so arbiters can't open one
+    open: ALL_ROLES,
+    add_evidence: [...ALL_ROLES, ...ARBITERS],
+    respond: ALL_ROLES,
+    escalate: ALL_ROLES,
+    assign_arbiter: MANAGERS,
+    propose_settlement: [...ALL_ROLES, ...ARBITERS],
+    accept_settlement: ALL_ROLES,
+    decline_settlement: ALL_ROLES,
+    rule: ARBITERS,
+    check_deadlines: MANAGERS
+  },
+
+  // The validator set is public; only managers start the consortium or cast its validators' votes
+  'consortium': {
+    status: ALL_ROLES,
+    start: MANAGERS,
+    vote: MANAGERS
+  },
+
+  'ledger-outbox': {
+    // The queued operation is checked against blockchain-verify's entry too
+    enqueue: ALL_ROLES,
+    // Users run the jobs for one job or source row; only managers sweep the whole queue
+    process: ALL_ROLES,
+    retry: MANAGERS
+  }
+};
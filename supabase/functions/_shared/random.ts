@@ -0,0 +1,57 @@
+// Seeded PRNG for scripts/consortium/harness.ts
+//
+// The harness picks the node that submits each transaction with it, so a
+// --seed repeats a run; no edge function uses it. It mirrors the PRNG in
+// src/services/mock/random.ts - keep the two in step, so a seed gives the
+// same draws in both.
+
+export interface MockRandom {
+  // In [0, 1)
+  next(): number;
+  // In [min, max)
+  between(min: number, max: number): number;
+  // In [min, max], both whole
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: T[]): T;
+  hex(length: number): string;
+  uuid(): string;
+}
+
+// FNV-1a, to turn a seed string into the PRNG's 32-bit state
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+export const createSeededGenerator = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createMockRandom = (next: () => number): MockRandom => {
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    between: (min, max) => min + next() * (max - min),
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    hex: (length) => Array.from({ length }, () => int(0, 15).toString(16)).join(''),
+    uuid: () => 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+      const r = int(0, 15);
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    })
+  };
+};
@@ -0,0 +1,238 @@
+// Batched Merkle anchoring of IoT sensor readings
+//
+// Readings are grouped per shipment into fixed time windows. Once a window has
+// closed, the hashes of its readings form a Merkle tree and only the root is
+// recorded on the ledger, in a single anchor_sensor_batch transaction. Each
+// sensor_data row keeps its leaf index and inclusion proof, so any one reading
+// can be proven against the anchored root without the rest of the batch.
+//
+// The leaf encoding matches src/services/blockchain/sensorBatching.ts.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import {
+  MerkleProofStep,
+  applyMerkleProof,
+  canonicalize,
+  computeMerkleProofs,
+  computeMerkleRoot,
+  recordOnLedger,
+  sha256Hex,
+  verifyTransaction
+} from './ledger.ts';
+
+export const SENSOR_BATCH_OPERATION = 'anchor_sensor_batch';
+
+// Length of a batch window; readings are anchored once their window has closed
+export const SENSOR_BATCH_WINDOW_MS = 15 * 60 * 1000;
+
+// Most unanchored readings picked up by one anchoring run
+const MAX_READINGS_PER_RUN = 2000;
+
+// The fields of a reading covered by its leaf hash
+export interface SensorLeafFields {
+  shipmentId: string;
+  timestamp: number;
+  temperature: number | null;
+  humidity: number | null;
+  shockDetected: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  batteryLevel: number | null;
+}
+
+export interface SensorBatchAnchor {
+  batchId: string;
+  shipmentId: string;
+  windowStart: string;
+  windowEnd: string;
+  readingCount: number;
+  merkleRoot: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+// Outcome of proving one reading against its batch anchor
+export interface SensorReadingProof {
+  verified: boolean;
+  reason: string | null;
+  readingId: string;
+  batchId: string | null;
+  leafHash: string | null;
+  leafIndex: number | null;
+  computedRoot: string | null;
+  anchoredRoot: string | null;
+  transactionHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface SensorDataRow {
+  id: string;
+  shipment_id: string;
+  timestamp: string;
+  temperature: number | null;
+  humidity: number | null;
+  shock_detected: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  battery_level: number | null;
+  batch_id: string | null;
+  leaf_index: number | null;
+  merkle_proof: MerkleProofStep[] | null;
+  blockchain_tx_hash: string | null;
+}
+
+export function toSensorLeafFields(row: SensorDataRow): SensorLeafFields {
+  return {
+    shipmentId: row.shipment_id,
+    timestamp: Date.parse(row.timestamp),
+    temperature: row.temperature,
+    humidity: row.humidity,
+    shockDetected: row.shock_detected,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    batteryLevel: row.battery_level
+  };
+}
+
+export function hashSensorReading(fields: SensorLeafFields): Promise<string> {
+  return sha256Hex(canonicalize(fields));
+}
+
+// Start of the window a timestamp falls in
+export function getBatchWindowStart(timestamp: number): number {
+  return Math.floor(timestamp / SENSOR_BATCH_WINDOW_MS) * SENSOR_BATCH_WINDOW_MS;
+}
+
+// Anchor every closed window of unanchored readings, for one shipment or all of them.
+// A reading that arrives after its window was anchored goes into a later batch for the same window.
+export async function anchorSensorBatches(supabase: SupabaseClient, shipmentId?: string): Promise<SensorBatchAnchor[]> {
+  const currentWindowStart = getBatchWindowStart(Date.now());
+
+  let query = supabase
+    .from('sensor_data')
+    .select('*')
+    .is('batch_id', null)
+    .lt('timestamp', new Date(currentWindowStart).toISOString())
+    .order('timestamp', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(MAX_READINGS_PER_RUN);
+
+  if (shipmentId) {
+    query = query.eq('shipment_id', shipmentId);
+  }
+
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  const batches = new Map<string, SensorDataRow[]>();
+  for (const row of (rows ?? []) as SensorDataRow[]) {
+    const key = `${row.shipment_id}:${getBatchWindowStart(Date.parse(row.timestamp))}`;
+    batches.set(key, [...(batches.get(key) ?? []), row]);
+  }
+
+  const anchors: SensorBatchAnchor[] = [];
+  for (const readings of batches.values()) {
+    anchors.push(await anchorBatch(supabase, readings));
+  }
+  return anchors;
+}
+
+// Prove a stored reading against the Merkle root recorded in its anchor transaction
+export async function proveSensorReading(supabase: SupabaseClient, readingId: string): Promise<SensorReadingProof> {
+  const { data: row, error } = await supabase
+    .from('sensor_data')
+    .select('*')
+    .eq('id', readingId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const result: SensorReadingProof = {
+    verified: false,
+    reason: null,
+    readingId,
+    batchId: row?.batch_id ?? null,
+    leafHash: null,
+    leafIndex: row?.leaf_index ?? null,
+    computedRoot: null,
+    anchoredRoot: null,
+    transactionHash: row?.blockchain_tx_hash ?? null,
+    blockNumber: null
+  };
+
+  if (!row) {
+    return { ...result, reason: 'Sensor reading not found' };
+  }
+  if (!row.batch_id || !row.merkle_proof || !row.blockchain_tx_hash) {
+    return { ...result, reason: 'Reading has not been anchored yet' };
+  }
+
+  result.leafHash = await hashSensorReading(toSensorLeafFields(row as SensorDataRow));
+  result.computedRoot = await applyMerkleProof(result.leafHash, row.merkle_proof);
+
+  const anchor = await verifyTransaction(supabase, row.blockchain_tx_hash);
+  result.blockNumber = anchor.blockNumber;
+  result.anchoredRoot = typeof anchor.payload?.merkleRoot === 'string' ? anchor.payload.merkleRoot : null;
+
+  if (!anchor.verified) {
+    return { ...result, reason: `Anchor transaction failed verification: ${anchor.reason}` };
+  }
+  if (anchor.operation !== SENSOR_BATCH_OPERATION || anchor.payload?.batchId !== row.batch_id) {
+    return { ...result, reason: 'Anchor transaction does not belong to this reading\'s batch' };
+  }
+  if (result.computedRoot !== result.anchoredRoot) {
+    return { ...result, reason: 'Reading does not match the anchored Merkle root' };
+  }
+
+  return { ...result, verified: true };
+}
+
+async function anchorBatch(supabase: SupabaseClient, readings: SensorDataRow[]): Promise<SensorBatchAnchor> {
+  const shipmentId = readings[0].shipment_id;
+  const windowStart = getBatchWindowStart(Date.parse(readings[0].timestamp));
+  const leaves = await Promise.all(readings.map((row) => hashSensorReading(toSensorLeafFields(row))));
+  const merkleRoot = await computeMerkleRoot(leaves);
+  const proofs = await computeMerkleProofs(leaves);
+  const batchId = crypto.randomUUID();
+
+  const batch = {
+    batchId,
+    shipmentId,
+    windowStart: new Date(windowStart).toISOString(),
+    windowEnd: new Date(windowStart + SENSOR_BATCH_WINDOW_MS).toISOString(),
+    readingCount: readings.length,
+    merkleRoot
+  };
+
+  const receipt = await recordOnLedger(supabase, { operation: SENSOR_BATCH_OPERATION, payload: batch });
+
+  const { error: batchError } = await supabase
+    .from('sensor_batches')
+    .insert({
+      id: batchId,
+      shipment_id: shipmentId,
+      window_start: batch.windowStart,
+      window_end: batch.windowEnd,
+      reading_count: batch.readingCount,
+      merkle_root: merkleRoot,
+      blockchain_tx_hash: receipt.transactionHash
+    });
+
+  if (batchError) throw batchError;
+
+  for (let index = 0; index < readings.length; index++) {
+    const { error: readingError } = await supabase
+      .from('sensor_data')
+      .update({
+        batch_id: batchId,
+        leaf_index: index,
+        merkle_proof: proofs[index],
+        blockchain_tx_hash: receipt.transactionHash
+      })
+      .eq('id', readings[index].id);
+
+    if (readingError) throw readingError;
+  }
+
+  return { ...batch, transactionHash: receipt.transactionHash, blockNumber: receipt.blockNumber };
+}
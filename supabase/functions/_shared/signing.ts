@@ -0,0 +1,284 @@
+// Participant signing keys for supply chain events
+//
+// Every participant - managers, drivers and customers, plus registered external
+// parties - has an ECDSA P-256 key pair. Public keys live in participant_keys;
+// keys the platform holds on a participant's behalf live in
+// participant_private_keys, which only the service role can read. A signature
+// covers the canonical JSON of the event statement, so editing any signed field
+// afterwards makes it fail to verify.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { canonicalize, sha256Hex } from './ledger.ts';
+
+export const SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+// Roles an external party can register with; app users take their role from user_roles
+export const EXTERNAL_PARTICIPANT_ROLES = ['supplier', 'manufacturer', 'distributor', 'retailer', 'customer', 'regulator'];
+
+const KEY_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+// App user ids are auth UUIDs; anything else can only be a registered external party
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ParticipantKey {
+  participantId: string;
+  participantType: 'user' | 'external';
+  name: string;
+  role: string;
+  algorithm: string;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+}
+
+// What a participant signs for a supply chain event
+export interface EventStatement {
+  shipmentId: string;
+  eventType: string;
+  data: Record<string, unknown>;
+  signer: string;
+}
+
+export interface SignatureCheck {
+  status: 'valid' | 'invalid' | 'unsigned' | 'unknown_signer';
+  signer: {
+    id: string;
+    name: string;
+    role: string;
+    fingerprint: string;
+  } | null;
+  reason: string | null;
+}
+
+interface ParticipantKeyRow {
+  participant_id: string;
+  participant_type: 'user' | 'external';
+  name: string;
+  role: string;
+  algorithm: string;
+  public_key: JsonWebKey;
+  public_key_fingerprint: string;
+}
+
+function toParticipantKey(row: ParticipantKeyRow): ParticipantKey {
+  return {
+    participantId: row.participant_id,
+    participantType: row.participant_type,
+    name: row.name,
+    role: row.role,
+    algorithm: row.algorithm,
+    publicKey: row.public_key,
+    fingerprint: row.public_key_fingerprint
+  };
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return '0x' + Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (digits.length === 0 || digits.length % 2 !== 0 || /[^0-9a-fA-F]/.test(digits)) return null;
+  return new Uint8Array(digits.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+// Only the public coordinates, so the stored key and its fingerprint don't depend on export flags
+function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  return { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+}
+
+export function fingerprintPublicKey(publicKey: JsonWebKey): Promise<string> {
+  return sha256Hex(canonicalize(toPublicJwk(publicKey)));
+}
+
+// Whether a JWK is a usable P-256 public key
+export async function isValidPublicKey(publicKey: unknown): Promise<boolean> {
+  try {
+    await crypto.subtle.importKey('jwk', toPublicJwk(publicKey as JsonWebKey), KEY_PARAMS, true, ['verify']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getParticipantKey(supabase: SupabaseClient, participantId: string): Promise<ParticipantKey | null> {
+  const { data, error } = await supabase
+    .from('participant_keys')
+    .select('*')
+    .eq('participant_id', participantId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toParticipantKey(data) : null;
+}
+
+// Store a participant's public key, and its private key too when the platform holds it
+async function storeParticipantKey(
+  supabase: SupabaseClient,
+  participant: Omit<ParticipantKey, 'algorithm' | 'fingerprint'>,
+  privateKey?: JsonWebKey
+): Promise<ParticipantKey> {
+  const publicKey = toPublicJwk(participant.publicKey);
+  const { data, error } = await supabase
+    .from('participant_keys')
+    .insert({
+      participant_id: participant.participantId,
+      participant_type: participant.participantType,
+      name: participant.name,
+      role: participant.role,
+      algorithm: SIGNATURE_ALGORITHM,
+      public_key: publicKey,
+      public_key_fingerprint: await fingerprintPublicKey(publicKey)
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (privateKey) {
+    const { error: privateKeyError } = await supabase
+      .from('participant_private_keys')
+      .insert({ participant_id: participant.participantId, private_key: privateKey });
+
+    if (privateKeyError) throw privateKeyError;
+  }
+
+  return toParticipantKey(data);
+}
+
+// A fresh P-256 key pair, exported as JWKs
+export async function generateKeyPair(): Promise<{ publicKey: JsonWebKey; privateKey: JsonWebKey }> {
+  const keyPair = await crypto.subtle.generateKey(KEY_PARAMS, true, ['sign', 'verify']) as CryptoKeyPair;
+  return {
+    publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+  };
+}
+
+// Register an external party. With a publicKey the party keeps its private key
+// and signs its own statements; without one a custodial key pair is generated.
+export async function registerExternalParticipant(
+  supabase: SupabaseClient,
+  participant: { id: string; name: string; role: string; publicKey?: JsonWebKey }
+): Promise<ParticipantKey> {
+  if (participant.publicKey) {
+    return storeParticipantKey(supabase, {
+      participantId: participant.id,
+      participantType: 'external',
+      name: participant.name,
+      role: participant.role,
+      publicKey: participant.publicKey
+    });
+  }
+
+  const keyPair = await generateKeyPair();
+  return storeParticipantKey(supabase, {
+    participantId: participant.id,
+    participantType: 'external',
+    name: participant.name,
+    role: participant.role,
+    publicKey: keyPair.publicKey
+  }, keyPair.privateKey);
+}
+
+// Key for an app user, generating a custodial key pair the first time they act.
+// Returns null when the id is not a user with a role.
+export async function ensureUserParticipantKey(supabase: SupabaseClient, userId: string): Promise<ParticipantKey | null> {
+  const existing = await getParticipantKey(supabase, userId);
+  if (existing) return existing;
+  if (!UUID_PATTERN.test(userId)) return null;
+
+  const { data: userRole, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (roleError) throw roleError;
+  if (!userRole) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const keyPair = await generateKeyPair();
+
+  try {
+    return await storeParticipantKey(supabase, {
+      participantId: userId,
+      participantType: 'user',
+      name: profile?.full_name || userId,
+      role: userRole.role,
+      publicKey: keyPair.publicKey
+    }, keyPair.privateKey);
+  } catch (error) {
+    // Another request created this user's key first; use that one
+    if ((error as { code?: string }).code === '23505') {
+      return getParticipantKey(supabase, userId);
+    }
+    throw error;
+  }
+}
+
+export function encodeStatement(statement: EventStatement): Uint8Array {
+  return new TextEncoder().encode(canonicalize({
+    shipmentId: statement.shipmentId,
+    eventType: statement.eventType,
+    // Round-trip through JSON so the signed data matches what JSONB gives back
+    data: JSON.parse(JSON.stringify(statement.data ?? {})),
+    signer: statement.signer
+  }));
+}
+
+// Sign a statement with the signer's custodial key; returns null when the platform doesn't hold it
+export async function signStatement(supabase: SupabaseClient, statement: EventStatement): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('participant_private_keys')
+    .select('private_key')
+    .eq('participant_id', statement.signer)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const privateKey = await crypto.subtle.importKey('jwk', data.private_key, KEY_PARAMS, false, ['sign']);
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, privateKey, encodeStatement(statement));
+  return bytesToHex(new Uint8Array(signature));
+}
+
+export async function verifyStatement(publicKey: JsonWebKey, statement: EventStatement, signature: string): Promise<boolean> {
+  const signatureBytes = hexToBytes(signature);
+  if (!signatureBytes) return false;
+
+  try {
+    const key = await crypto.subtle.importKey('jwk', toPublicJwk(publicKey), KEY_PARAMS, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_PARAMS, key, signatureBytes, encodeStatement(statement));
+  } catch {
+    return false;
+  }
+}
+
+// Check a stored event's signature against its signer's registered public key
+export async function checkStatementSignature(
+  supabase: SupabaseClient,
+  statement: Omit<EventStatement, 'signer'> & { signer: string | null },
+  signature: string | null
+): Promise<SignatureCheck> {
+  if (!statement.signer || !signature) {
+    return { status: 'unsigned', signer: null, reason: 'Event carries no signature' };
+  }
+
+  const key = await getParticipantKey(supabase, statement.signer);
+  if (!key) {
+    return { status: 'unknown_signer', signer: null, reason: `No public key is registered for ${statement.signer}` };
+  }
+
+  const signer = { id: key.participantId, name: key.name, role: key.role, fingerprint: key.fingerprint };
+  const valid = await verifyStatement(key.publicKey, { ...statement, signer: statement.signer }, signature);
+
+  return valid
+    ? { status: 'valid', signer, reason: null }
+    : { status: 'invalid', signer, reason: `Signature does not match the event data and ${key.name}'s public key` };
+}
@@ -0,0 +1,97 @@
+// Custodial wallets for app users (see 20240701000000_create_user_wallets.sql)
+//
+// A user's wallet is their custodial signing key from signing.ts: the address
+// is the last 20 bytes of the public key's fingerprint, and the private key
+// never leaves participant_private_keys. Ledger writes made for a signed-in
+// user, or for a job they queued, are sent from their wallet rather than the
+// shared system address.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { LedgerSender, getLedgerSender } from './ledger.ts';
+import { ensureUserParticipantKey, fingerprintPublicKey } from './signing.ts';
+
+export interface UserWallet {
+  userId: string;
+  address: string;
+  createdAt: string;
+}
+
+interface UserWalletRow {
+  user_id: string;
+  address: string;
+  participant_id: string;
+  created_at: string;
+}
+
+function toUserWallet(row: UserWalletRow): UserWallet {
+  return {
+    userId: row.user_id,
+    address: row.address,
+    createdAt: row.created_at
+  };
+}
+
+export async function deriveWalletAddress(publicKey: JsonWebKey): Promise<string> {
+  const fingerprint = await fingerprintPublicKey(publicKey);
+  return '0x' + fingerprint.slice(-40);
+}
+
+export async function getUserWallet(supabase: SupabaseClient, userId: string): Promise<UserWallet | null> {
+  const { data, error } = await supabase
+    .from('user_wallets')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toUserWallet(data) : null;
+}
+
+// Wallet for an app user, creating it (and their custodial key) the first time.
+// Returns null when the id is not a user with a role.
+export async function ensureUserWallet(supabase: SupabaseClient, userId: string): Promise<UserWallet | null> {
+  const existing = await getUserWallet(supabase, userId);
+  if (existing) return existing;
+
+  const key = await ensureUserParticipantKey(supabase, userId);
+  if (!key) return null;
+
+  const { data, error } = await supabase
+    .from('user_wallets')
+    .insert({
+      user_id: userId,
+      address: await deriveWalletAddress(key.publicKey),
+      participant_id: key.participantId
+    })
+    .select()
+    .single();
+
+  if (!error) return toUserWallet(data);
+
+  // Another request created this user's wallet first; use that one
+  if (error.code === '23505') return getUserWallet(supabase, userId);
+  throw error;
+}
+
+// Who a ledger write is sent from. Writes made for a user come from their
+// wallet, and a from naming any other address is refused; without a user the
+// request's own from (or the system address) is used. Call validateLedgerSender first.
+export async function getActingSender(
+  supabase: SupabaseClient,
+  body: Record<string, unknown>,
+  userId: string | null
+): Promise<{ sender: LedgerSender } | { error: string; status: number }> {
+  const requested = getLedgerSender(body);
+  if (!userId) return { sender: requested };
+
+  const wallet = await ensureUserWallet(supabase, userId);
+  if (!wallet) {
+    return { error: `User ${userId} has no wallet; only users with a role can write to the ledger`, status: 403 };
+  }
+
+  if (requested.from && requested.from.toLowerCase() !== wallet.address) {
+    return { error: `from must be your wallet address ${wallet.address}`, status: 403 };
+  }
+
+  return { sender: { from: wallet.address, nonce: requested.nonce } };
+}
@@ -0,0 +1,482 @@
+// Multi-signature approval for contract actions (see 20240710000000_create_approval_policies.sql)
+//
+// An action an active policy covers isn't queued straight away: it is stored
+// as a pending approval, signed by whoever requested it, and waits for the
+// other parties the policy names. Each signature is made with the signer's
+// custodial key over the action's request, so it can be checked against
+// participant_keys later. Once threshold parties have signed, the action is
+// queued in the ledger outbox as its requester and run. Dispute awards are
+// approved the same way; the disputes function requests them, and their job
+// pays the award (see disputes/awards.ts).
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import type { AppRole, Caller } from '../_shared/auth.ts';
+import { EventStatement, ensureUserParticipantKey, signStatement } from '../_shared/signing.ts';
+import { ContractOperation, getContractRequestData, validateContractRequest } from '../blockchain-verify/contractOperations.ts';
+import { LedgerJob, enqueueLedgerJob, processLedgerJobs } from '../ledger-outbox/outbox.ts';
+import { AWARD_APPROVAL_OPERATION, getAwardData, validateAwardRequest } from '../disputes/awards.ts';
+
+export type ApprovableOperation = ContractOperation | typeof AWARD_APPROVAL_OPERATION;
+
+// Actions a policy can cover
+export const APPROVABLE_OPERATIONS: ApprovableOperation[] = ['release_payment', 'transfer_ownership', AWARD_APPROVAL_OPERATION];
+
+// Most actions each half of the inbox lists
+const INBOX_LIMIT = 100;
+
+export type PendingApprovalStatus = 'pending' | 'executed' | 'rejected';
+
+export interface ApprovalPolicy {
+  id: string;
+  contract_type: ApprovableOperation;
+  name: string;
+  amount_above: number | null;
+  currency: string | null;
+  required_roles: AppRole[];
+  threshold: number;
+  active: boolean;
+  created_at: string;
+}
+
+export interface ApprovalSignature {
+  approval_id: string;
+  signer_id: string;
+  party: AppRole;
+  signature: string;
+  signed_at: string;
+}
+
+export interface PendingApproval {
+  id: string;
+  policy_id: string;
+  contract_type: ApprovableOperation;
+  shipment_id: string;
+  request: Record<string, unknown>;
+  required_roles: AppRole[];
+  threshold: number;
+  status: PendingApprovalStatus;
+  requested_by: string;
+  idempotency_key: string | null;
+  job_id: string | null;
+  rejected_by: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  signatures: ApprovalSignature[];
+  // The ledger job the action was queued as, once it has been approved
+  job?: LedgerJob;
+}
+
+type PendingApprovalRow = Omit<PendingApproval, 'signatures' | 'job'>;
+
+interface ShipmentParties {
+  id: string;
+  customer_id: string | null;
+  assigned_driver_id: string | null;
+}
+
+// A pending approval joined to the parties of its shipment
+type InboxRow = PendingApprovalRow & { shipments: ShipmentParties };
+
+// Raised when an action is invalid (400), an approval or its shipment can't be
+// found (404), the caller can't sign it (403) or it has already been decided (409)
+export class ApprovalError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+// The data an action's request carries: its shipment, and any amount it moves
+function getActionData(operation: ApprovableOperation, request: Record<string, unknown>): Record<string, unknown> | null {
+  return operation === AWARD_APPROVAL_OPERATION ? getAwardData(request) : getContractRequestData(operation, request);
+}
+
+// The amount an action moves, which policies with an amount_above compare against
+function getActionAmount(data: Record<string, unknown>): { amount: number; currency: string } | null {
+  if (typeof data.amount !== 'number' || typeof data.currency !== 'string') return null;
+  return { amount: data.amount, currency: data.currency };
+}
+
+// An amount in another currency than the policy's can't be compared with its
+// limit, so the policy covers it whatever the amount rather than letting it through
+function policyApplies(policy: ApprovalPolicy, action: { amount: number; currency: string } | null): boolean {
+  if (policy.amount_above === null) return true;
+  if (!action) return false;
+  if (policy.currency && policy.currency !== action.currency) return true;
+  return action.amount > Number(policy.amount_above);
+}
+
+// The policy an action needs approval under, or null when it can run straight away.
+// When several apply, the one needing the most signatures wins.
+export async function findApprovalPolicy(
+  supabase: SupabaseClient,
+  operation: string,
+  request: Record<string, unknown>
+): Promise<ApprovalPolicy | null> {
+  if (!APPROVABLE_OPERATIONS.includes(operation as ApprovableOperation)) return null;
+
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('*')
+    .eq('contract_type', operation)
+    .eq('active', true);
+
+  if (error) throw error;
+
+  const action = getActionAmount(getActionData(operation as ApprovableOperation, request) ?? {});
+  const applicable = (data as ApprovalPolicy[])
+    .filter((policy) => policyApplies(policy, action))
+    .sort((a, b) => b.threshold - a.threshold || Number(b.amount_above ?? 0) - Number(a.amount_above ?? 0));
+
+  return applicable[0] ?? null;
+}
+
+// Store an action for approval, signed by the user who requested it. With an
+// idempotency key, a repeated submission gets the first approval back, with
+// replayed set, instead of a second one.
+export async function requestApproval(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>,
+  policy: ApprovalPolicy,
+  request: Record<string, unknown>,
+  idempotencyKey: string | null = null
+): Promise<{ approval: PendingApproval; replayed: boolean }> {
+  // Checked now rather than after everyone has signed
+  const validationError = policy.contract_type === AWARD_APPROVAL_OPERATION
+    ? validateAwardRequest(request)
+    : validateContractRequest(policy.contract_type, request);
+  if (validationError) {
+    throw new ApprovalError(validationError, 400);
+  }
+
+  const shipmentId = getActionData(policy.contract_type, request)?.shipmentId as string;
+  if (!await getShipmentParties(supabase, shipmentId)) {
+    throw new ApprovalError(`Shipment ${shipmentId} not found`, 404);
+  }
+
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .insert({
+      policy_id: policy.id,
+      contract_type: policy.contract_type,
+      shipment_id: shipmentId,
+      request,
+      required_roles: policy.required_roles,
+      threshold: policy.threshold,
+      requested_by: caller.userId,
+      idempotency_key: idempotencyKey
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code !== '23505' || !idempotencyKey) throw error;
+
+    const { data: existing, error: existingError } = await supabase
+      .from('pending_approvals')
+      .select()
+      .eq('idempotency_key', idempotencyKey)
+      .single();
+
+    if (existingError) throw existingError;
+    return { approval: await withDetails(supabase, existing), replayed: true };
+  }
+
+  // Requesting an action counts as signing it, when the requester is one of its parties
+  const approval = await withDetails(supabase, data);
+  const shipment = await getShipmentParties(supabase, approval.shipment_id);
+  if (shipment && getOpenParty(approval, shipment, caller)) {
+    return { approval: await signApproval(supabase, approval, shipment, caller), replayed: false };
+  }
+
+  return { approval, replayed: false };
+}
+
+// The approval requested with an idempotency key, if there is one
+export async function findApprovalByKey(supabase: SupabaseClient, idempotencyKey: string): Promise<PendingApproval | null> {
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .select('*')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withDetails(supabase, data) : null;
+}
+
+// Sign a pending action as the caller; the action runs once it has enough signatures
+export async function approveAction(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>,
+  approvalId: string
+): Promise<PendingApproval> {
+  const approval = await getPendingApproval(supabase, approvalId);
+  const shipment = await getShipmentParties(supabase, approval.shipment_id);
+  if (!shipment) {
+    throw new ApprovalError(`Shipment ${approval.shipment_id} not found`, 404);
+  }
+
+  return signApproval(supabase, approval, shipment, caller);
+}
+
+// Turn a pending action down. Any party it still needs, or its requester, can reject it.
+export async function rejectAction(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>,
+  approvalId: string,
+  reason: string | null
+): Promise<PendingApproval> {
+  const approval = await getPendingApproval(supabase, approvalId);
+  const shipment = await getShipmentParties(supabase, approval.shipment_id);
+
+  if (approval.requested_by !== caller.userId && !(shipment && getOpenParty(approval, shipment, caller))) {
+    throw new ApprovalError('Only the requester or a party who still needs to sign can reject this action', 403);
+  }
+
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .update({
+      status: 'rejected',
+      rejected_by: caller.userId,
+      rejection_reason: reason,
+      resolved_at: new Date().toISOString()
+    })
+    .eq('id', approvalId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApprovalError('This action has already been decided', 409);
+  }
+  return withDetails(supabase, data);
+}
+
+// Pending actions waiting on the caller's signature, and the ones they requested
+export async function listApprovalInbox(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>
+): Promise<{ waiting: PendingApproval[]; requested: PendingApproval[] }> {
+  const [waiting, requested] = await Promise.all([
+    listWaitingApprovals(supabase, caller),
+    listRequestedApprovals(supabase, caller)
+  ]);
+  return { waiting, requested };
+}
+
+// Newest first. The query only returns actions naming the caller's role, on
+// shipments they're a party to, so other users' approvals don't crowd theirs
+// out. Ones whose party is already filled are dropped here, so it reads on a
+// page at a time until the inbox is full or there are no more.
+async function listWaitingApprovals(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>
+): Promise<PendingApproval[]> {
+  if (caller.role === 'arbiter') return [];
+
+  const waiting: PendingApproval[] = [];
+  for (let from = 0; waiting.length < INBOX_LIMIT; from += INBOX_LIMIT) {
+    let query = supabase
+      .from('pending_approvals')
+      .select('*, shipments!inner(id, customer_id, assigned_driver_id)')
+      .eq('status', 'pending')
+      .contains('required_roles', [caller.role]);
+    if (caller.role !== 'manager') {
+      query = query.eq(caller.role === 'driver' ? 'shipments.assigned_driver_id' : 'shipments.customer_id', caller.userId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, from + INBOX_LIMIT - 1);
+
+    if (error) throw error;
+
+    const shipments = new Map<string, ShipmentParties>();
+    const rows = (data as InboxRow[]).map(({ shipments: shipment, ...row }) => {
+      shipments.set(shipment.id, shipment);
+      return row;
+    });
+
+    const approvals = await withSignatures(supabase, rows);
+    waiting.push(...approvals.filter((approval) => {
+      const shipment = shipments.get(approval.shipment_id);
+      return shipment !== undefined && getOpenParty(approval, shipment, caller) !== null;
+    }));
+
+    if (rows.length < INBOX_LIMIT) break;
+  }
+
+  return waiting.slice(0, INBOX_LIMIT);
+}
+
+async function listRequestedApprovals(
+  supabase: SupabaseClient,
+  caller: Extract<Caller, { kind: 'user' }>
+): Promise<PendingApproval[]> {
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .select('*')
+    .eq('status', 'pending')
+    .eq('requested_by', caller.userId)
+    .order('created_at', { ascending: false })
+    .limit(INBOX_LIMIT);
+
+  if (error) throw error;
+  return withSignatures(supabase, data as PendingApprovalRow[]);
+}
+
+// The party the caller would fill on an action, if it still needs one they can fill
+function getOpenParty(
+  approval: PendingApproval,
+  shipment: ShipmentParties,
+  caller: Extract<Caller, { kind: 'user' }>
+): AppRole | null {
+  if (approval.status !== 'pending') return null;
+  if (approval.signatures.some((signature) => signature.signer_id === caller.userId)) return null;
+
+  const filled = new Set(approval.signatures.map((signature) => signature.party));
+  if (!approval.required_roles.includes(caller.role) || filled.has(caller.role)) return null;
+
+  switch (caller.role) {
+    case 'manager':
+      return 'manager';
+    case 'driver':
+      return shipment.assigned_driver_id === caller.userId ? 'driver' : null;
+    case 'customer':
+      return shipment.customer_id === caller.userId ? 'customer' : null;
+    case 'arbiter':
+      return null;
+  }
+}
+
+// What a signer signs: the action and its exact request
+function approvalStatement(approval: PendingApproval, signerId: string): EventStatement {
+  return {
+    shipmentId: approval.shipment_id,
+    eventType: `approve_${approval.contract_type}`,
+    data: { approvalId: approval.id, request: approval.request },
+    signer: signerId
+  };
+}
+
+async function signApproval(
+  supabase: SupabaseClient,
+  approval: PendingApproval,
+  shipment: ShipmentParties,
+  caller: Extract<Caller, { kind: 'user' }>
+): Promise<PendingApproval> {
+  if (approval.status !== 'pending') {
+    throw new ApprovalError('This action has already been decided', 409);
+  }
+  if (approval.signatures.some((signature) => signature.signer_id === caller.userId)) {
+    throw new ApprovalError('You have already signed this action', 409);
+  }
+
+  const party = getOpenParty(approval, shipment, caller);
+  if (!party) {
+    throw new ApprovalError('You are not one of the parties this action still needs', 403);
+  }
+
+  await ensureUserParticipantKey(supabase, caller.userId);
+  const signature = await signStatement(supabase, approvalStatement(approval, caller.userId));
+  if (!signature) {
+    throw new ApprovalError('You have no signing key yet', 403);
+  }
+
+  const { error } = await supabase
+    .from('approval_signatures')
+    .insert({ approval_id: approval.id, signer_id: caller.userId, party, signature });
+
+  if (error) {
+    // Someone else filled the same party first
+    if (error.code === '23505') throw new ApprovalError(`The ${party} signature has already been given`, 409);
+    throw error;
+  }
+
+  return executeIfApproved(supabase, await getPendingApproval(supabase, approval.id, false));
+}
+
+// Queue and run the action once enough parties have signed. The job's idempotency
+// key is the approval, so two signers finishing together still queue it once.
+async function executeIfApproved(supabase: SupabaseClient, approval: PendingApproval): Promise<PendingApproval> {
+  if (approval.status !== 'pending' || approval.signatures.length < approval.threshold) return approval;
+
+  const { job: queued } = await enqueueLedgerJob(
+    supabase,
+    approval.contract_type,
+    { ...approval.request, approvalId: approval.id },
+    approval.requested_by,
+    `approval:${approval.id}`
+  );
+
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .update({ status: 'executed', job_id: queued.id, resolved_at: new Date().toISOString() })
+    .eq('id', approval.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const [job] = await processLedgerJobs(supabase, { jobId: queued.id, limit: 1 });
+  const executed = data ? await withDetails(supabase, data) : await getPendingApproval(supabase, approval.id, false);
+  return { ...executed, job: job ?? queued };
+}
+
+async function getPendingApproval(supabase: SupabaseClient, approvalId: string, pendingOnly = true): Promise<PendingApproval> {
+  const { data, error } = await supabase
+    .from('pending_approvals')
+    .select('*')
+    .eq('id', approvalId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApprovalError(`Approval ${approvalId} not found`, 404);
+  }
+  if (pendingOnly && data.status !== 'pending') {
+    throw new ApprovalError('This action has already been decided', 409);
+  }
+  return withDetails(supabase, data);
+}
+
+async function withDetails(supabase: SupabaseClient, row: PendingApprovalRow): Promise<PendingApproval> {
+  const [approval] = await withSignatures(supabase, [row]);
+  return approval;
+}
+
+async function withSignatures(supabase: SupabaseClient, rows: PendingApprovalRow[]): Promise<PendingApproval[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('approval_signatures')
+    .select('*')
+    .in('approval_id', rows.map((row) => row.id))
+    .order('signed_at', { ascending: true });
+
+  if (error) throw error;
+
+  const signatures = data as ApprovalSignature[];
+  return rows.map((row) => ({ ...row, signatures: signatures.filter((signature) => signature.approval_id === row.id) }));
+}
+
+async function getShipmentParties(supabase: SupabaseClient, shipmentId: string): Promise<ShipmentParties | null> {
+  const shipments = await getShipmentsParties(supabase, [shipmentId]);
+  return shipments.get(shipmentId) ?? null;
+}
+
+async function getShipmentsParties(supabase: SupabaseClient, shipmentIds: string[]): Promise<Map<string, ShipmentParties>> {
+  if (shipmentIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('shipments')
+    .select('id, customer_id, assigned_driver_id')
+    .in('id', shipmentIds);
+
+  if (error) throw error;
+  return new Map((data as ShipmentParties[]).map((shipment) => [shipment.id, shipment]));
+}
@@ -0,0 +1,108 @@
+// Approvals inbox for contract actions that need several signatures
+//
+// Actions are submitted through the ledger outbox as usual; when an approval
+// policy covers one, the outbox stores it here instead of queuing it (see
+// approvals.ts). This function lists what is waiting on the caller and lets
+// them sign or reject it.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
+import { ApprovalError, approveAction, listApprovalInbox, rejectAction } from './approvals.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ApprovalsRequest {
+  action: 'list' | 'approve' | 'reject';
+  // approve / reject
+  approvalId?: string;
+  // reject
+  reason?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { action, approvalId, reason } = await req.json() as ApprovalsRequest;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Approvals action: ${action}`);
+
+    // Signatures come from users' own keys, so there is nothing here for the service role
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'approvals', action);
+    if (caller.kind !== 'user') {
+      return errorResponse('Approvals are signed by users; call this with a user\'s token', 400);
+    }
+
+    switch (action) {
+      case 'list': {
+        const { waiting, requested } = await listApprovalInbox(supabase, caller);
+        return jsonResponse({ success: true, waiting, requested });
+      }
+
+      case 'approve': {
+        if (!approvalId) {
+          return errorResponse('approvalId is required', 400);
+        }
+
+        const approval = await approveAction(supabase, caller, approvalId);
+        return jsonResponse({ success: true, approval });
+      }
+
+      case 'reject': {
+        if (!approvalId) {
+          return errorResponse('approvalId is required', 400);
+        }
+
+        const approval = await rejectAction(supabase, caller, approvalId, reason?.trim() || null);
+        return jsonResponse({ success: true, approval });
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError || error instanceof ApprovalError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
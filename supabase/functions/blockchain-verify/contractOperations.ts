@@ -0,0 +1,384 @@
+// Smart-contract operations called from src/services/blockchain/smartContracts.ts
+//
+// Each operation validates its request body, checks the shipment it refers to,
+// records the operation on the ledger and returns a typed result.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { LedgerSender, recordOnLedger, validateLedgerSender } from '../_shared/ledger.ts';
+
+export type ContractOperation =
+  | 'track_shipment'
+  | 'transfer_ownership'
+  | 'verify_product'
+  | 'settle_payment'
+  | 'carbon_credits'
+  | 'customs_clearance'
+  | 'release_payment';
+
+// Request body key each operation reads its data from
+const REQUEST_KEYS: Record<ContractOperation, string> = {
+  track_shipment: 'shipmentData',
+  transfer_ownership: 'transferData',
+  verify_product: 'verificationData',
+  settle_payment: 'paymentData',
+  carbon_credits: 'carbonData',
+  customs_clearance: 'customsData',
+  release_payment: 'paymentData'
+};
+
+const ESCROWED_PAYMENT_ERROR = 'The shipment\'s payment is held in escrow and is paid out when its delivery is proven';
+
+// Carbon credits are issued per tonne of CO2e saved; carbonSaved is in kg
+const KG_CO2_PER_CREDIT = 1000;
+
+export interface TrackShipmentData {
+  shipmentId: string;
+  status: string;
+  location: { lat: number; lng: number };
+  timestamp?: string;
+}
+
+export interface TransferOwnershipData {
+  shipmentId: string;
+  fromUserId: string;
+  toUserId: string;
+  timestamp?: string;
+}
+
+export interface ProductVerificationData {
+  shipmentId: string;
+  temperature: number;
+  humidity: number;
+  isIntact: boolean;
+  timestamp?: string;
+}
+
+export interface PaymentSettlementData {
+  shipmentId: string;
+  amount: number;
+  currency: string;
+  timestamp?: string;
+}
+
+export interface CarbonCreditsData {
+  shipmentId: string;
+  carbonSaved: number;
+  timestamp?: string;
+}
+
+export interface CustomsClearanceData {
+  shipmentId: string;
+  countryCode: string;
+  declarationId: string;
+  clearanceDate: string;
+  timestamp?: string;
+}
+
+export interface PaymentReleaseData extends PaymentSettlementData {
+  recipientId: string;
+}
+
+export interface ContractOperationResponse {
+  success: true;
+  operation: ContractOperation;
+  transactionHash: string;
+  blockNumber: number;
+  nonce: number;
+  timestamp: string;
+  result: Record<string, unknown>;
+  tokens?: number;
+}
+
+export type ContractOperationOutcome =
+  | { ok: true; response: ContractOperationResponse }
+  | { ok: false; status: number; error: string };
+
+interface ShipmentRow {
+  id: string;
+  customer_id: string;
+  status: string;
+}
+
+export function isContractOperation(operation: string): operation is ContractOperation {
+  return Object.prototype.hasOwnProperty.call(REQUEST_KEYS, operation);
+}
+
+// The data object a contract operation reads from its request body, if present
+export function getContractRequestData(operation: ContractOperation, body: Record<string, unknown>): Record<string, unknown> | null {
+  const data = body[REQUEST_KEYS[operation]];
+  return isRecord(data) ? data : null;
+}
+
+// Why a contract operation's request body is invalid, or null when it is valid
+export function validateContractRequest(operation: ContractOperation, body: Record<string, unknown>): string | null {
+  const data = getContractRequestData(operation, body);
+  if (!data) return `${REQUEST_KEYS[operation]} is required for ${operation}`;
+
+  return validateRequest(operation, data) ?? validateLedgerSender(body);
+}
+
+// Validate the request body for a contract operation and record it on the ledger, sent from sender
+export async function handleContractOperation(
+  supabase: SupabaseClient,
+  operation: ContractOperation,
+  body: Record<string, unknown>,
+  sender: LedgerSender
+): Promise<ContractOperationOutcome> {
+  const validationError = validateContractRequest(operation, body);
+  if (validationError) {
+    return { ok: false, status: 400, error: validationError };
+  }
+
+  const data = getContractRequestData(operation, body) as Record<string, unknown>;
+
+  const shipment = await getShipment(supabase, data.shipmentId as string);
+  if (!shipment) {
+    return { ok: false, status: 404, error: `Shipment ${data.shipmentId} not found` };
+  }
+
+  switch (operation) {
+    case 'track_shipment':
+      return trackShipment(supabase, sender, data as unknown as TrackShipmentData);
+    case 'transfer_ownership':
+      return transferOwnership(supabase, sender, shipment, data as unknown as TransferOwnershipData);
+    case 'verify_product':
+      return verifyProduct(supabase, sender, data as unknown as ProductVerificationData);
+    case 'settle_payment':
+      return settlePayment(supabase, sender, data as unknown as PaymentSettlementData);
+    case 'carbon_credits':
+      return issueCarbonCredits(supabase, sender, data as unknown as CarbonCreditsData);
+    case 'customs_clearance':
+      return clearCustoms(supabase, sender, data as unknown as CustomsClearanceData);
+    case 'release_payment':
+      return releasePayment(supabase, sender, data as unknown as PaymentReleaseData);
+  }
+}
+
+async function trackShipment(supabase: SupabaseClient, sender: LedgerSender, data: TrackShipmentData): Promise<ContractOperationOutcome> {
+  const result = {
+    shipmentId: data.shipmentId,
+    status: data.status,
+    location: { lat: data.location.lat, lng: data.location.lng },
+    reportedAt: data.timestamp || null
+  };
+  return recordOperation(supabase, sender, 'track_shipment', result);
+}
+
+async function transferOwnership(
+  supabase: SupabaseClient,
+  sender: LedgerSender,
+  shipment: ShipmentRow,
+  data: TransferOwnershipData
+): Promise<ContractOperationOutcome> {
+  if (shipment.customer_id !== data.fromUserId) {
+    return { ok: false, status: 409, error: 'fromUserId is not the current owner of the shipment' };
+  }
+  if (!await profileExists(supabase, data.toUserId)) {
+    return { ok: false, status: 404, error: `User ${data.toUserId} not found` };
+  }
+
+  const result = {
+    shipmentId: data.shipmentId,
+    previousOwnerId: data.fromUserId,
+    newOwnerId: data.toUserId
+  };
+  return recordOperation(supabase, sender, 'transfer_ownership', result);
+}
+
+async function verifyProduct(supabase: SupabaseClient, sender: LedgerSender, data: ProductVerificationData): Promise<ContractOperationOutcome> {
+  const result = {
+    shipmentId: data.shipmentId,
+    temperature: data.temperature,
+    humidity: data.humidity,
+    isIntact: data.isIntact,
+    verified: data.isIntact
+  };
+  return recordOperation(supabase, sender, 'verify_product', result);
+}
+
+async function settlePayment(supabase: SupabaseClient, sender: LedgerSender, data: PaymentSettlementData): Promise<ContractOperationOutcome> {
+  if (await hasFundedEscrow(supabase, data.shipmentId)) {
+    return { ok: false, status: 409, error: ESCROWED_PAYMENT_ERROR };
+  }
+
+  const result = {
+    shipmentId: data.shipmentId,
+    settlementId: crypto.randomUUID(),
+    amount: data.amount,
+    currency: data.currency,
+    status: 'settled'
+  };
+  return recordOperation(supabase, sender, 'settle_payment', result);
+}
+
+async function issueCarbonCredits(supabase: SupabaseClient, sender: LedgerSender, data: CarbonCreditsData): Promise<ContractOperationOutcome> {
+  const tokens = Math.floor((data.carbonSaved / KG_CO2_PER_CREDIT) * 1000) / 1000;
+  const result = {
+    shipmentId: data.shipmentId,
+    carbonSaved: data.carbonSaved,
+    tokens
+  };
+
+  const outcome = await recordOperation(supabase, sender, 'carbon_credits', result);
+  if (outcome.ok) {
+    outcome.response.tokens = tokens;
+  }
+  return outcome;
+}
+
+async function clearCustoms(supabase: SupabaseClient, sender: LedgerSender, data: CustomsClearanceData): Promise<ContractOperationOutcome> {
+  const result = {
+    shipmentId: data.shipmentId,
+    countryCode: data.countryCode,
+    declarationId: data.declarationId,
+    clearanceDate: data.clearanceDate,
+    status: 'cleared'
+  };
+  return recordOperation(supabase, sender, 'customs_clearance', result);
+}
+
+async function releasePayment(supabase: SupabaseClient, sender: LedgerSender, data: PaymentReleaseData): Promise<ContractOperationOutcome> {
+  if (!await profileExists(supabase, data.recipientId)) {
+    return { ok: false, status: 404, error: `Recipient ${data.recipientId} not found` };
+  }
+  if (await hasFundedEscrow(supabase, data.shipmentId)) {
+    return { ok: false, status: 409, error: ESCROWED_PAYMENT_ERROR };
+  }
+
+  const result = {
+    shipmentId: data.shipmentId,
+    paymentId: crypto.randomUUID(),
+    amount: data.amount,
+    currency: data.currency,
+    recipientId: data.recipientId,
+    status: 'released'
+  };
+  return recordOperation(supabase, sender, 'release_payment', result);
+}
+
+async function recordOperation(
+  supabase: SupabaseClient,
+  sender: LedgerSender,
+  operation: ContractOperation,
+  result: Record<string, unknown>
+): Promise<ContractOperationOutcome> {
+  const receipt = await recordOnLedger(supabase, { ...sender, operation, payload: result });
+
+  return {
+    ok: true,
+    response: {
+      success: true,
+      operation,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      nonce: receipt.nonce,
+      timestamp: new Date(receipt.timestamp).toISOString(),
+      result
+    }
+  };
+}
+
+async function getShipment(supabase: SupabaseClient, shipmentId: string): Promise<ShipmentRow | null> {
+  const { data, error } = await supabase
+    .from('shipments')
+    .select('id, customer_id, status')
+    .eq('id', shipmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function profileExists(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data !== null;
+}
+
+// A funded escrow pays the carrier itself once delivery is proven (see
+// supply-chain-management/escrow.ts), so paying the shipment directly as well would pay it twice
+async function hasFundedEscrow(supabase: SupabaseClient, shipmentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('id')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'escrow')
+    .in('status', ['active', 'fulfilled'])
+    .limit(1);
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Returns a message describing the first invalid field, or null when the data is valid
+function validateRequest(operation: ContractOperation, data: Record<string, unknown>): string | null {
+  if (!isNonEmptyString(data.shipmentId)) return 'shipmentId is required';
+  if (data.timestamp !== undefined && !isDateString(data.timestamp)) return 'timestamp must be an ISO date';
+
+  switch (operation) {
+    case 'track_shipment': {
+      if (!isNonEmptyString(data.status)) return 'status is required';
+      const location = data.location;
+      if (!isRecord(location)) return 'location is required';
+      if (!isFiniteNumber(location.lat) || Math.abs(location.lat) > 90) return 'location.lat must be between -90 and 90';
+      if (!isFiniteNumber(location.lng) || Math.abs(location.lng) > 180) return 'location.lng must be between -180 and 180';
+      return null;
+    }
+    case 'transfer_ownership':
+      if (!isNonEmptyString(data.fromUserId)) return 'fromUserId is required';
+      if (!isNonEmptyString(data.toUserId)) return 'toUserId is required';
+      if (data.fromUserId === data.toUserId) return 'fromUserId and toUserId must differ';
+      return null;
+    case 'verify_product':
+      if (!isFiniteNumber(data.temperature)) return 'temperature must be a number';
+      if (!isFiniteNumber(data.humidity) || data.humidity < 0 || data.humidity > 100) {
+        return 'humidity must be between 0 and 100';
+      }
+      if (typeof data.isIntact !== 'boolean') return 'isIntact must be a boolean';
+      return null;
+    case 'settle_payment':
+      return validatePayment(data);
+    case 'carbon_credits':
+      if (!isFiniteNumber(data.carbonSaved) || data.carbonSaved < 0) return 'carbonSaved must be a non-negative number';
+      return null;
+    case 'customs_clearance':
+      if (typeof data.countryCode !== 'string' || !/^[A-Z]{2}$/.test(data.countryCode)) {
+        return 'countryCode must be a two-letter country code';
+      }
+      if (!isNonEmptyString(data.declarationId)) return 'declarationId is required';
+      if (!isDateString(data.clearanceDate)) return 'clearanceDate must be an ISO date';
+      return null;
+    case 'release_payment':
+      if (!isNonEmptyString(data.recipientId)) return 'recipientId is required';
+      return validatePayment(data);
+  }
+}
+
+function validatePayment(data: Record<string, unknown>): string | null {
+  if (!isFiniteNumber(data.amount) || data.amount <= 0) return 'amount must be a positive number';
+  if (typeof data.currency !== 'string' || !/^[A-Z]{3}$/.test(data.currency)) {
+    return 'currency must be a three-letter currency code';
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
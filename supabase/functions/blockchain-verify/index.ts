@@ -1,13 +1,53 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import {
+  NonceMismatchError,
+  PayloadSchemaError,
+  LedgerSender,
+  recordOnLedger,
+  validateLedgerSender,
+  verifyTransaction
+} from "../_shared/ledger.ts";
+import { getIdempotencyKey, withIdempotencyKey } from "../_shared/idempotency.ts";
+import { SENSOR_BATCH_OPERATION, anchorSensorBatches, proveSensorReading } from "../_shared/sensorBatches.ts";
+import { getActingSender } from "../_shared/wallets.ts";
+import { AuthorizationError, Caller, assertShipmentAccess, authenticateRequest, authorizeAction } from "../_shared/auth.ts";
+import { findApprovalPolicy } from "../approvals/approvals.ts";
+import {
+  CarbonCreditsData,
+  ContractOperation,
+  CustomsClearanceData,
+  PaymentReleaseData,
+  PaymentSettlementData,
+  ProductVerificationData,
+  TransferOwnershipData,
+  getContractRequestData,
+  handleContractOperation,
+  isContractOperation
+} from "./contractOperations.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key",
+  "Access-Control-Expose-Headers": "idempotent-replayed",
 };
 
+// Operations the frontend ledger provider may record directly through the 'record' operation
+const RECORDABLE_OPERATIONS = ['create_shipment', 'update_status', 'add_sensor_data', SENSOR_BATCH_OPERATION];
+
 interface VerifyRequest {
-  operation: 'verify' | 'register' | 'update' | 'execute-contract' | 'carbon-credits' | 'resolve-dispute';
+  operation:
+    | 'verify'
+    | 'register'
+    | 'update'
+    | 'execute-contract'
+    | 'carbon-credits'
+    | 'record'
+    | 'anchor_sensor_batches'
+    | 'verify_sensor_reading'
+    | ContractOperation;
   hash?: string;
   shipmentData?: {
     id?: string;
@@ -23,10 +63,24 @@ interface VerifyRequest {
   contractType?: 'payment' | 'customs' | 'delivery';
   payload?: any;
   sustainabilityScore?: number;
-  disputeDetails?: any;
+  entry?: { operation: string; payload: Record<string, unknown> };
+  // verify_sensor_reading
+  readingId?: string;
+  // Contract operations; track_shipment reads a TrackShipmentData from shipmentData
+  transferData?: TransferOwnershipData;
+  verificationData?: ProductVerificationData;
+  paymentData?: PaymentSettlementData | PaymentReleaseData;
+  carbonData?: CarbonCreditsData;
+  customsData?: CustomsClearanceData;
+  // Optional on every operation: replaying a key returns the first response
+  idempotencyKey?: string;
+  // Optional sender of the ledger write and its nonce; see LedgerSender. A signed-in
+  // user's writes always come from their wallet, so from can only name that
+  from?: string;
+  nonce?: number;
 }
 
-// This is a simplified blockchain simulation for demo purposes
+// Blockchain operations backed by the hash-chained ledger in ledger_blocks / ledger_transactions
 // In a real project, this would connect to an actual blockchain network
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -37,60 +91,46 @@ serve(async (req) => {
   }
   
   try {
-    const { 
-      operation, 
-      hash, 
-      shipmentData, 
-      shipmentId, 
-      status, 
-      metadata, 
-      contractType, 
-      payload, 
-      sustainabilityScore,
-      disputeDetails 
-    } = await req.json() as VerifyRequest;
+    const request = await req.json() as VerifyRequest;
+    
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
     
-    console.log(`Blockchain operation: ${operation}`);
+    // Only callers whose role allows the operation, on shipments they may act on
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'blockchain-verify', request.operation);
+    await assertOperationAccess(supabase, caller, request);
     
-    if (operation === 'verify' && hash) {
-      // Simulated verification of a blockchain transaction
+    const body = request as unknown as Record<string, unknown>;
+    const senderError = validateLedgerSender(body);
+    if (senderError) {
       return new Response(
         JSON.stringify({
-          verified: true,
-          blockNumber: 14358291,
-          timestamp: new Date().toISOString(),
-          from: "0xA742a6Af8F4D193CEF887D7A932ADc0A3D410D74",
-          to: "0xEC9CaB5E02F0DaE3dE3C1e5A543C79F0B92e8f95",
-          gasUsed: 42688,
-          status: "success"
+          success: false,
+          error: senderError,
         }),
         {
+          status: 400,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
           },
         }
       );
-    } 
-    else if (operation === 'register' && shipmentData) {
-      // Generate a pseudo-random transaction hash
-      const txHash = generateRandomHash();
-      
-      // In a real system, this would record the data on blockchain
-      // For this demo, we just return a simulated result
+    }
+    
+    // A signed-in user's writes are sent from their own wallet
+    const acting = await getActingSender(supabase, body, caller.kind === 'user' ? caller.userId : null);
+    if ('error' in acting) {
       return new Response(
         JSON.stringify({
-          success: true,
-          transactionHash: txHash,
-          blockchainRecord: {
-            shipmentId: shipmentData.id || generateRandomId(),
-            timestamp: new Date().toISOString(),
-            carbonFootprint: shipmentData.carbonFootprint,
-            transportType: shipmentData.transportType,
-            verified: true
-          }
+          success: false,
+          error: acting.error,
         }),
         {
+          status: acting.status,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
@@ -98,25 +138,31 @@ serve(async (req) => {
         }
       );
     }
-    else if (operation === 'update' && shipmentId) {
-      // Generate a pseudo-random transaction hash
-      const txHash = generateRandomHash();
-      
-      // In a real system, this would update data on blockchain
-      // For this demo, we just return a simulated result
+    
+    // With an idempotency key, a replayed request gets the first response back instead of running again
+    const idempotencyKey = getIdempotencyKey(req, body, caller);
+    if (idempotencyKey) {
+      return await withIdempotencyKey(
+        supabase,
+        'blockchain-verify',
+        idempotencyKey,
+        request.operation,
+        corsHeaders,
+        () => handleOperation(supabase, request, acting.sender)
+      );
+    }
+    
+    return await handleOperation(supabase, request, acting.sender);
+    
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
       return new Response(
         JSON.stringify({
-          success: true,
-          transactionHash: txHash,
-          blockchainRecord: {
-            shipmentId: shipmentId,
-            timestamp: new Date().toISOString(),
-            status: status || 'updated',
-            metadata: metadata,
-            verified: true
-          }
+          success: false,
+          error: error.message,
         }),
         {
+          status: error.status,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
@@ -124,38 +170,17 @@ serve(async (req) => {
         }
       );
     }
-    else if (operation === 'execute-contract' && contractType && payload) {
-      // Simulate executing a smart contract
-      const txHash = generateRandomHash();
-      const contractAddress = generateRandomContractAddress();
-      
-      let eventEmitted = '';
-      let success = true;
-      
-      switch (contractType) {
-        case 'payment':
-          eventEmitted = 'PaymentCompleted';
-          break;
-        case 'customs':
-          eventEmitted = 'CustomsClearanceApproved';
-          break;
-        case 'delivery':
-          eventEmitted = 'DeliveryConfirmed';
-          break;
-        default:
-          success = false;
-          eventEmitted = 'UnknownEventType';
-      }
-      
+    
+    if (error instanceof NonceMismatchError) {
+      // A replayed or out-of-order write; the caller needs the sender's next nonce to continue
       return new Response(
         JSON.stringify({
-          success,
-          transactionHash: txHash,
-          contractAddress,
-          eventEmitted,
-          data: payload
+          success: false,
+          error: error.message,
+          expectedNonce: error.expectedNonce,
         }),
         {
+          status: 409,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
@@ -163,19 +188,16 @@ serve(async (req) => {
         }
       );
     }
-    else if (operation === 'carbon-credits' && shipmentId && sustainabilityScore !== undefined) {
-      // Simulate carbon credits calculation based on sustainability score
-      const tokens = Math.floor(sustainabilityScore / 10);
-      const txHash = generateRandomHash();
-      
+    
+    if (error instanceof PayloadSchemaError) {
+      // The payload doesn't match the schema registered for its operation
       return new Response(
         JSON.stringify({
-          success: true,
-          tokens,
-          transactionHash: txHash,
-          shipmentId
+          success: false,
+          error: error.message,
         }),
         {
+          status: 400,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
@@ -183,31 +205,232 @@ serve(async (req) => {
         }
       );
     }
-    else if (operation === 'resolve-dispute' && shipmentId && disputeDetails) {
-      // Simulate dispute resolution based on blockchain consensus
-      const resolved = Math.random() > 0.3; // 70% chance of successful resolution
-      
-      let resolution = '';
-      if (resolved) {
-        const resolutions = [
-          "Resolved in favor of shipper",
-          "Resolved in favor of receiver",
-          "Partial compensation approved",
-          "Insurance claim approved"
-        ];
-        resolution = resolutions[Math.floor(Math.random() * resolutions.length)];
-      } else {
-        resolution = "Pending further review";
+    
+    console.error("Error:", error);
+    
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+      }),
+      {
+        status: 500,
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  }
+});
+
+// Shipment-scoped operations may only touch shipments the caller can act on.
+// verify checks a transaction hash and register creates the shipment's record,
+// so neither is scoped; a manager-only check covers register. Contract actions
+// an approval policy covers only run once approved, through the ledger outbox.
+async function assertOperationAccess(supabase: SupabaseClient, caller: Caller, request: VerifyRequest): Promise<void> {
+  const { operation } = request;
+  if (operation === 'verify' || operation === 'register') return;
+  
+  let shipmentId: unknown = request.shipmentId;
+  if (operation === 'record') {
+    shipmentId = request.entry?.payload?.shipmentId ?? request.entry?.payload?.id;
+  } else if (operation === 'verify_sensor_reading' && request.readingId) {
+    const { data: reading, error } = await supabase
+      .from('sensor_data')
+      .select('shipment_id')
+      .eq('id', request.readingId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    if (!reading) throw new AuthorizationError(`Sensor reading ${request.readingId} not found`, 404);
+    shipmentId = reading.shipment_id;
+  } else if (isContractOperation(operation)) {
+    shipmentId = getContractRequestData(operation, request as unknown as Record<string, unknown>)?.shipmentId;
+  }
+  
+  await assertShipmentAccess(supabase, caller, shipmentId);
+  
+  if (caller.kind === 'user' && isContractOperation(operation)) {
+    const policy = await findApprovalPolicy(supabase, operation, request as unknown as Record<string, unknown>);
+    if (policy) {
+      throw new AuthorizationError(`${operation} needs approval (${policy.name}); submit it through the ledger outbox`, 403);
+    }
+  }
+}
+
+// Run one operation; every write is sent from the acting sender (see getActingSender)
+async function handleOperation(supabase: SupabaseClient, request: VerifyRequest, sender: LedgerSender): Promise<Response> {
+  const { 
+    operation, 
+    hash, 
+    shipmentData, 
+    shipmentId, 
+    status, 
+    metadata, 
+    contractType, 
+    payload, 
+    sustainabilityScore,
+    entry,
+    readingId
+  } = request;
+  
+  console.log(`Blockchain operation: ${operation}`);
+  
+  if (operation === 'verify' && hash) {
+    // Recompute the transaction hash and check its block links into the chain
+    const verification = await verifyTransaction(supabase, hash);
+    
+    return new Response(
+      JSON.stringify(verification),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  } 
+  else if (operation === 'register' && shipmentData) {
+    const recordedShipmentId = shipmentData.id || generateRandomId();
+    const receipt = await recordOnLedger(supabase, {
+      ...sender,
+      operation: 'register',
+      payload: { ...shipmentData, id: recordedShipmentId }
+    });
+    
+    return new Response(
+      JSON.stringify({
+        success: true,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        nonce: receipt.nonce,
+        blockchainRecord: {
+          shipmentId: recordedShipmentId,
+          timestamp: new Date(receipt.timestamp).toISOString(),
+          carbonFootprint: shipmentData.carbonFootprint,
+          transportType: shipmentData.transportType,
+          verified: true
+        }
+      }),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  }
+  else if (operation === 'update' && shipmentId) {
+    const receipt = await recordOnLedger(supabase, {
+      ...sender,
+      operation: 'update',
+      payload: { shipmentId, status: status || 'updated', metadata }
+    });
+    
+    return new Response(
+      JSON.stringify({
+        success: true,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        nonce: receipt.nonce,
+        blockchainRecord: {
+          shipmentId: shipmentId,
+          timestamp: new Date(receipt.timestamp).toISOString(),
+          status: status || 'updated',
+          metadata: metadata,
+          verified: true
+        }
+      }),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  }
+  else if (operation === 'execute-contract' && contractType && payload) {
+    const contractAddress = generateRandomContractAddress();
+    
+    let eventEmitted = '';
+    let success = true;
+    
+    switch (contractType) {
+      case 'payment':
+        eventEmitted = 'PaymentCompleted';
+        break;
+      case 'customs':
+        eventEmitted = 'CustomsClearanceApproved';
+        break;
+      case 'delivery':
+        eventEmitted = 'DeliveryConfirmed';
+        break;
+      default:
+        success = false;
+        eventEmitted = 'UnknownEventType';
+    }
+    
+    const receipt = await recordOnLedger(supabase, {
+      ...sender,
+      operation: 'execute-contract',
+      to: contractAddress,
+      payload: { contractType, eventEmitted, success, payload }
+    });
+    
+    return new Response(
+      JSON.stringify({
+        success,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        nonce: receipt.nonce,
+        contractAddress,
+        eventEmitted,
+        data: payload
+      }),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  }
+  else if (operation === 'carbon-credits' && shipmentId && sustainabilityScore !== undefined) {
+    // Simulate carbon credits calculation based on sustainability score
+    const tokens = Math.floor(sustainabilityScore / 10);
+    const receipt = await recordOnLedger(supabase, {
+      ...sender,
+      operation: 'carbon-credits',
+      payload: { shipmentId, sustainabilityScore, tokens }
+    });
+    
+    return new Response(
+      JSON.stringify({
+        success: true,
+        tokens,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        nonce: receipt.nonce,
+        shipmentId
+      }),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
       }
-      
+    );
+  }
+  else if (operation === 'record' && entry) {
+    if (!RECORDABLE_OPERATIONS.includes(entry.operation) || typeof entry.payload !== 'object' || entry.payload === null) {
       return new Response(
         JSON.stringify({
-          resolved,
-          resolution,
-          shipmentId,
-          disputeDetails
+          success: false,
+          error: `Cannot record operation ${entry.operation}`,
         }),
         {
+          status: 400,
           headers: { 
             ...corsHeaders, 
             "Content-Type": "application/json" 
@@ -216,30 +439,39 @@ serve(async (req) => {
       );
     }
     
+    const receipt = await recordOnLedger(supabase, {
+      ...sender,
+      operation: entry.operation,
+      payload: entry.payload
+    });
+    
     return new Response(
       JSON.stringify({
-        success: false,
-        error: "Invalid operation or missing parameters",
+        success: true,
+        transactionHash: receipt.transactionHash,
+        blockNumber: receipt.blockNumber,
+        nonce: receipt.nonce,
+        blockHash: receipt.blockHash,
+        timestamp: new Date(receipt.timestamp).toISOString()
       }),
       {
-        status: 400,
         headers: { 
           ...corsHeaders, 
           "Content-Type": "application/json" 
         },
       }
     );
-    
-  } catch (error) {
-    console.error("Error:", error);
+  }
+  else if (operation === 'anchor_sensor_batches') {
+    // Anchor closed windows of sensor readings; without a shipmentId every shipment is covered
+    const batches = await anchorSensorBatches(supabase, shipmentId);
     
     return new Response(
       JSON.stringify({
-        success: false,
-        error: error.message,
+        success: true,
+        batches
       }),
       {
-        status: 500,
         headers: { 
           ...corsHeaders, 
           "Content-Type": "application/json" 
@@ -247,16 +479,53 @@ serve(async (req) => {
       }
     );
   }
-});
-
-// Generate a random blockchain-like hash
-function generateRandomHash() {
-  const characters = "0123456789abcdef";
-  let hash = "0x";
-  for (let i = 0; i < 64; i++) {
-    hash += characters.charAt(Math.floor(Math.random() * characters.length));
+  else if (operation === 'verify_sensor_reading' && readingId) {
+    // Prove one reading against the Merkle root anchored for its batch
+    const proof = await proveSensorReading(supabase, readingId);
+    
+    return new Response(
+      JSON.stringify(proof),
+      {
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
+  }
+  else if (isContractOperation(operation)) {
+    const outcome = await handleContractOperation(
+      supabase,
+      operation,
+      request as unknown as Record<string, unknown>,
+      sender
+    );
+    
+    return new Response(
+      JSON.stringify(outcome.ok ? outcome.response : { success: false, error: outcome.error }),
+      {
+        status: outcome.ok ? 200 : outcome.status,
+        headers: { 
+          ...corsHeaders, 
+          "Content-Type": "application/json" 
+        },
+      }
+    );
   }
-  return hash;
+  
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: "Invalid operation or missing parameters",
+    }),
+    {
+      status: 400,
+      headers: { 
+        ...corsHeaders, 
+        "Content-Type": "application/json" 
+      },
+    }
+  );
 }
 
 // Generate a random contract address
@@ -0,0 +1,167 @@
+// Validator consortium run by the hosted ledger
+//
+// The hosted ledger simulates every partner's node: it holds each validator's
+// key in ledger_validator_keys and signs blocks with them when it seals (see
+// ledger.ts). Starting the consortium and casting votes are ordinary ledger
+// transactions, so the validator set can be replayed from the chain by anyone.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import {
+  CONSORTIUM_GENESIS_OPERATION,
+  ConsensusState,
+  GovernanceTransaction,
+  VALIDATOR_VOTE_OPERATION,
+  Validator,
+  ValidatorVote,
+  checkGovernanceTransaction,
+  getProposer,
+  quorumSize
+} from '../_shared/consensus.ts';
+import { LEDGER_SYSTEM_ADDRESS, LedgerReceipt, getConsensusState, getLatestBlock, recordOnLedger } from '../_shared/ledger.ts';
+import { generateKeyPair } from '../_shared/signing.ts';
+import { deriveWalletAddress } from '../_shared/wallets.ts';
+
+export interface ConsortiumStatus {
+  started: boolean;
+  validators: Validator[];
+  quorum: number;
+  // Validator due to propose the next block
+  nextProposer: Validator | null;
+  nextBlockNumber: number;
+  votes: { vote: ValidatorVote; voters: string[]; needed: number }[];
+}
+
+// Raised when a request is invalid (400) or conflicts with the validator set (409)
+export class ConsortiumError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ConsortiumError';
+  }
+}
+
+function toStatus(state: ConsensusState, nextBlockNumber: number): ConsortiumStatus {
+  const started = state.validators.length > 0;
+  const quorum = started ? quorumSize(state.validators.length) : 0;
+
+  return {
+    started,
+    validators: state.validators,
+    quorum,
+    nextProposer: started ? getProposer(state.validators, nextBlockNumber) : null,
+    nextBlockNumber,
+    votes: Object.values(state.votes).map((tally) => ({ ...tally, needed: quorum - tally.voters.length }))
+  };
+}
+
+export async function getConsortiumStatus(supabase: SupabaseClient): Promise<ConsortiumStatus> {
+  const [state, head] = await Promise.all([getConsensusState(supabase), getLatestBlock(supabase)]);
+  return toStatus(state, head ? head.number + 1 : 0);
+}
+
+// Generate and store a custodial key for an organisation's validator
+async function createValidatorKey(supabase: SupabaseClient, organisation: string): Promise<Validator> {
+  const keyPair = await generateKeyPair();
+  const validator = {
+    address: await deriveWalletAddress(keyPair.publicKey),
+    organisation,
+    publicKey: keyPair.publicKey
+  };
+
+  const { error } = await supabase
+    .from('ledger_validator_keys')
+    .insert({
+      address: validator.address,
+      organisation,
+      public_key: validator.publicKey,
+      private_key: keyPair.privateKey
+    });
+
+  if (error) throw error;
+  return validator;
+}
+
+async function recordGovernance(supabase: SupabaseClient, state: ConsensusState, tx: GovernanceTransaction): Promise<LedgerReceipt> {
+  const problem = checkGovernanceTransaction(state, tx);
+  if (problem) throw new ConsortiumError(problem, 409);
+
+  return recordOnLedger(supabase, { from: tx.from, operation: tx.operation, payload: tx.payload });
+}
+
+// Start the consortium with one validator per organisation; blocks after the one recording it are validator-sealed
+export async function startConsortium(
+  supabase: SupabaseClient,
+  organisations: string[]
+): Promise<{ status: ConsortiumStatus; receipt: LedgerReceipt }> {
+  const names = organisations.map((organisation) => organisation.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new ConsortiumError('organisations must name at least one organisation', 400);
+  }
+  if (new Set(names).size !== names.length) {
+    throw new ConsortiumError('Each organisation runs exactly one validator', 400);
+  }
+
+  const state = await getConsensusState(supabase);
+  if (state.validators.length > 0) {
+    throw new ConsortiumError('The consortium has already started', 409);
+  }
+
+  const validators: Validator[] = [];
+  for (const organisation of names) {
+    validators.push(await createValidatorKey(supabase, organisation));
+  }
+
+  const receipt = await recordGovernance(supabase, state, {
+    from: LEDGER_SYSTEM_ADDRESS,
+    operation: CONSORTIUM_GENESIS_OPERATION,
+    payload: { validators }
+  });
+
+  return { status: await getConsortiumStatus(supabase), receipt };
+}
+
+// The validator an add vote proposes for an organisation: one an earlier vote
+// already created a key for, so every vote names the same address, or a new one
+async function getCandidate(supabase: SupabaseClient, state: ConsensusState, organisation: string): Promise<Validator> {
+  const pending = Object.values(state.votes)
+    .find(({ vote }) => vote.action === 'add' && vote.organisation === organisation);
+  if (pending) {
+    return { address: pending.vote.validator, organisation, publicKey: pending.vote.publicKey! };
+  }
+  return createValidatorKey(supabase, organisation);
+}
+
+// Cast one validator's vote to add an organisation's validator or remove one
+export async function castValidatorVote(
+  supabase: SupabaseClient,
+  voter: string,
+  action: ValidatorVote['action'],
+  organisation: string
+): Promise<{ status: ConsortiumStatus; receipt: LedgerReceipt }> {
+  const state = await getConsensusState(supabase);
+  if (state.validators.length === 0) {
+    throw new ConsortiumError('The consortium has not started', 409);
+  }
+
+  let vote: ValidatorVote;
+  if (action === 'add') {
+    if (state.validators.some((validator) => validator.organisation === organisation)) {
+      throw new ConsortiumError(`${organisation} already runs a validator`, 409);
+    }
+    const candidate = await getCandidate(supabase, state, organisation);
+    vote = { action, validator: candidate.address, organisation, publicKey: candidate.publicKey };
+  } else {
+    const validator = state.validators.find((v) => v.organisation === organisation);
+    if (!validator) {
+      throw new ConsortiumError(`${organisation} does not run a validator`, 409);
+    }
+    vote = { action, validator: validator.address, organisation };
+  }
+
+  const receipt = await recordGovernance(supabase, state, {
+    from: voter,
+    operation: VALIDATOR_VOTE_OPERATION,
+    payload: vote as unknown as Record<string, unknown>
+  });
+
+  return { status: await getConsortiumStatus(supabase), receipt };
+}
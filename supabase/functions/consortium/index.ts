@@ -0,0 +1,111 @@
+// Proof-of-authority validator consortium for the ledger
+//
+// Shows the validator set blocks are sealed under, starts the consortium and
+// casts validators' votes to add or remove one (see consortium.ts; the rules
+// themselves are in _shared/consensus.ts).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
+import { ConsortiumError, castValidatorVote, getConsortiumStatus, startConsortium } from './consortium.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ConsortiumRequest {
+  action: 'status' | 'start' | 'vote';
+  // start
+  organisations?: string[];
+  // vote: the validator voting, whether to add or remove, and the organisation it's about
+  voter?: string;
+  vote?: 'add' | 'remove';
+  organisation?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { action, organisations, voter, vote, organisation } = await req.json() as ConsortiumRequest;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Consortium action: ${action}`);
+
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'consortium', action);
+
+    switch (action) {
+      case 'status': {
+        const status = await getConsortiumStatus(supabase);
+        return jsonResponse({ success: true, status });
+      }
+
+      case 'start': {
+        if (!Array.isArray(organisations) || organisations.some((name) => typeof name !== 'string')) {
+          return errorResponse('organisations must be a list of organisation names', 400);
+        }
+
+        const { status, receipt } = await startConsortium(supabase, organisations);
+        return jsonResponse({ success: true, status, receipt });
+      }
+
+      case 'vote': {
+        if (!voter || !/^0x[0-9a-fA-F]{40}$/.test(voter)) {
+          return errorResponse('voter must be the address of a validator', 400);
+        }
+        if (vote !== 'add' && vote !== 'remove') {
+          return errorResponse("vote must be 'add' or 'remove'", 400);
+        }
+        if (!organisation?.trim()) {
+          return errorResponse('organisation is required', 400);
+        }
+
+        const { status, receipt } = await castValidatorVote(supabase, voter, vote, organisation.trim());
+        return jsonResponse({ success: true, status, receipt });
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError || error instanceof ConsortiumError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
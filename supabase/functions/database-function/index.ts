@@ -1,6 +1,7 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { AuthorizationError, authenticateRequest, authorizeAction } from '../_shared/auth.ts'
 
 // Define CORS headers
 const corsHeaders = {
@@ -28,6 +29,23 @@ serve(async (req) => {
     // Extract function name and parameters
     const { function: funcName, ...params } = requestData
 
+    // The RPCs run as the service role, so the routes table's RLS rules are applied here
+    const caller = await authenticateRequest(supabaseClient, req)
+    authorizeAction(caller, 'database-function', funcName)
+
+    if (funcName === 'update_route' && caller.kind === 'user' && caller.role === 'driver') {
+      const { data: route, error: routeError } = await supabaseClient
+        .from('routes')
+        .select('created_by')
+        .eq('id', params.p_id)
+        .maybeSingle()
+
+      if (routeError) throw routeError
+      if (route?.created_by !== caller.userId) {
+        throw new AuthorizationError('Drivers can only update routes they created', 403)
+      }
+    }
+
     // Based on the function name, call the appropriate RPC
     let result
     
@@ -98,7 +116,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ error: error.message }),
       { 
-        status: 400, 
+        status: error instanceof AuthorizationError ? error.status : 400, 
         headers: { 
           ...corsHeaders,
           'Content-Type': 'application/json' 
@@ -0,0 +1,202 @@
+// Paying dispute awards (see disputes.ts)
+//
+// A settled or ruled dispute's award is paid from the respondent's wallet to
+// the claimant's as a dispute_payment ledger entry, at most once. Approval
+// policies for settle_dispute cover awards: one that applies holds the award
+// as a pending approval, requested in the claimant's name, and once enough
+// parties have signed the ledger outbox runs it as a settle_dispute job,
+// which pays it here.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { recordOnLedger } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import type { Dispute, DisputePayment } from './disputes.ts';
+
+// The contract type of the approval policies that cover awards, and of the ledger job an approved award runs as
+export const AWARD_APPROVAL_OPERATION = 'settle_dispute';
+
+export const AWARD_PAYMENT_OPERATION = 'dispute_payment';
+
+// A payment claimed this long ago without a ledger entry is taken to have been abandoned
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// What an award's pending approval is for, under the award key of its request
+export interface AwardRequestData {
+  disputeId: string;
+  shipmentId: string;
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  currency: string;
+  basis: 'settlement' | 'ruling';
+}
+
+export type AwardPaymentOutcome =
+  | { ok: true; transactionHash: string; result: Record<string, unknown> }
+  | { ok: false; status: number; error: string };
+
+// Only one approval is requested per award
+export const getAwardApprovalKey = (disputeId: string) => `dispute-award:${disputeId}`;
+
+export function getAwardRequest(dispute: Dispute): { award: AwardRequestData } {
+  return {
+    award: {
+      disputeId: dispute.id,
+      shipmentId: dispute.shipment_id,
+      payerId: dispute.respondent_id,
+      payeeId: dispute.claimant_id,
+      amount: Number(dispute.award ?? 0),
+      currency: dispute.currency,
+      basis: dispute.status === 'settled' ? 'settlement' : 'ruling'
+    }
+  };
+}
+
+export function getAwardData(request: Record<string, unknown>): Record<string, unknown> | null {
+  const data = request.award;
+  return typeof data === 'object' && data !== null && !Array.isArray(data) ? data as Record<string, unknown> : null;
+}
+
+// Why an award's request is invalid, or null when it is valid
+export function validateAwardRequest(request: Record<string, unknown>): string | null {
+  const data = getAwardData(request);
+  if (!data) return `award is required for ${AWARD_APPROVAL_OPERATION}`;
+  if (typeof data.disputeId !== 'string' || typeof data.shipmentId !== 'string') return 'award.disputeId and award.shipmentId are required';
+  if (typeof data.amount !== 'number' || !(data.amount > 0)) return 'award.amount must be a positive number';
+  if (typeof data.currency !== 'string') return 'award.currency is required';
+  return null;
+}
+
+// Pay a decided dispute's award from the respondent to the claimant, unless it
+// has been already; returns whether this call paid it
+export async function payAward(supabase: SupabaseClient, dispute: Dispute): Promise<boolean> {
+  const amount = Number(dispute.award ?? 0);
+  if (amount <= 0 || (dispute.status !== 'settled' && dispute.status !== 'ruled')) return false;
+  if (await hasPayment(supabase, dispute.id)) return false;
+
+  const payer = await ensureUserWallet(supabase, dispute.respondent_id);
+  const payee = await ensureUserWallet(supabase, dispute.claimant_id);
+  if (!payer || !payee) throw new Error(`Dispute ${dispute.id} has a party without a wallet to pay the award with`);
+
+  const { data: claim, error: claimError } = await supabase
+    .from('dispute_payments')
+    .insert({
+      dispute_id: dispute.id,
+      payer_id: dispute.respondent_id,
+      payee_id: dispute.claimant_id,
+      amount,
+      currency: dispute.currency
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    // Another request is already paying it
+    if (claimError.code === '23505') return false;
+    throw claimError;
+  }
+
+  let transactionHash: string;
+  try {
+    const receipt = await recordOnLedger(supabase, {
+      from: payer.address,
+      to: payee.address,
+      operation: AWARD_PAYMENT_OPERATION,
+      payload: {
+        paymentId: claim.id,
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        payerId: dispute.respondent_id,
+        payeeId: dispute.claimant_id,
+        amount,
+        currency: dispute.currency,
+        basis: dispute.status === 'settled' ? 'settlement' : 'ruling'
+      }
+    });
+    transactionHash = receipt.transactionHash;
+  } catch (error) {
+    await supabase.from('dispute_payments').delete().eq('id', claim.id);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('dispute_payments')
+    .update({ blockchain_tx_hash: transactionHash })
+    .eq('id', claim.id);
+
+  if (updateError) throw updateError;
+  return true;
+}
+
+// Pay an approved award, as the ledger job its approval was queued as. The
+// dispute must still award what was approved; a payment already made is
+// returned rather than made again.
+export async function payApprovedAward(supabase: SupabaseClient, request: Record<string, unknown>): Promise<AwardPaymentOutcome> {
+  const validationError = validateAwardRequest(request);
+  if (validationError) return { ok: false, status: 400, error: validationError };
+  const data = getAwardData(request) as unknown as AwardRequestData;
+
+  const { data: dispute, error } = await supabase
+    .from('disputes')
+    .select('*')
+    .eq('id', data.disputeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!dispute) return { ok: false, status: 404, error: `Dispute ${data.disputeId} not found` };
+  if (Number(dispute.award) !== data.amount || dispute.currency !== data.currency) {
+    return { ok: false, status: 409, error: 'The dispute\'s award has changed since it was approved' };
+  }
+
+  await payAward(supabase, dispute as Dispute);
+
+  const { data: payment, error: paymentError } = await supabase
+    .from('dispute_payments')
+    .select('*')
+    .eq('dispute_id', data.disputeId)
+    .maybeSingle();
+
+  if (paymentError) throw paymentError;
+  if (!payment?.blockchain_tx_hash) {
+    return { ok: false, status: 503, error: `The award for dispute ${data.disputeId} is still being paid` };
+  }
+
+  const paid = payment as DisputePayment;
+  return {
+    ok: true,
+    transactionHash: paid.blockchain_tx_hash as string,
+    result: { paymentId: paid.id, disputeId: paid.dispute_id, amount: Number(paid.amount), currency: paid.currency }
+  };
+}
+
+// Whether the dispute's payment is made or being made; an abandoned one is recovered or cleared
+export async function hasPayment(supabase: SupabaseClient, disputeId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('dispute_payments')
+    .select('id, blockchain_tx_hash, created_at')
+    .eq('dispute_id', disputeId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const payment = data as Pick<DisputePayment, 'id' | 'blockchain_tx_hash' | 'created_at'> | null;
+  if (!payment) return false;
+  if (payment.blockchain_tx_hash || Date.now() - Date.parse(payment.created_at) < STALE_CLAIM_MS) return true;
+
+  const { data: entry, error: entryError } = await supabase
+    .from('ledger_transactions')
+    .select('tx_hash')
+    .eq('operation', AWARD_PAYMENT_OPERATION)
+    .eq('payload->>paymentId', payment.id)
+    .maybeSingle();
+
+  if (entryError) throw entryError;
+
+  if (entry) {
+    await supabase.from('dispute_payments').update({ blockchain_tx_hash: entry.tx_hash }).eq('id', payment.id);
+    return true;
+  }
+
+  await supabase.from('dispute_payments').delete().eq('id', payment.id).is('blockchain_tx_hash', null);
+  return false;
+}
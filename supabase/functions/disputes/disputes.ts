@@ -0,0 +1,982 @@
+// Disputes between a shipment's parties (see 20240910000000_create_disputes.sql)
+//
+// A claimant raises a dispute against a respondent for an amount. Both sides,
+// and later the arbiter, upload evidence: each file is stored privately and
+// its SHA-256 hash anchored on the ledger. The respondent answers by the
+// response deadline; a dispute left unanswered, or sent there by either side
+// once answered, goes to arbitration, where a manager assigns an arbiter.
+// Until it is decided, either side (or the arbiter) can propose a settlement,
+// and the dispute is settled once both sides have accepted one. Otherwise the
+// arbiter rules on it. A settlement or ruling that awards the claimant
+// anything pays it from the respondent's wallet to the claimant's, once any
+// approval policy covering the award has its signatures (see awards.ts).
+//
+// Every step is a ledger entry. A change is made to the dispute first, guarded
+// by the status it expects, so two requests can't both make it; if the ledger
+// write then fails the change is undone.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { Caller, isManager, resolveRole } from '../_shared/auth.ts';
+import { LedgerWrite, recordOnLedger, sha256Hex } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import { PendingApproval, findApprovalByKey, findApprovalPolicy, requestApproval } from '../approvals/approvals.ts';
+import {
+  AWARD_APPROVAL_OPERATION,
+  AWARD_PAYMENT_OPERATION,
+  getAwardApprovalKey,
+  getAwardRequest,
+  hasPayment,
+  payAward
+} from './awards.ts';
+
+export const DISPUTE_OPERATIONS = {
+  open: 'create_dispute',
+  evidence: 'dispute_evidence',
+  response: 'dispute_response',
+  escalation: 'escalate_dispute',
+  arbiter: 'assign_dispute_arbiter',
+  settlement: 'settle_dispute',
+  ruling: 'dispute_ruling',
+  payment: AWARD_PAYMENT_OPERATION
+};
+
+export const EVIDENCE_BUCKET = 'dispute-evidence';
+
+export type DisputeStatus = 'open' | 'responded' | 'arbitration' | 'settled' | 'ruled';
+export type DisputeParty = 'claimant' | 'respondent' | 'arbiter';
+export type RulingOutcome = 'claimant' | 'respondent' | 'split';
+
+export interface Dispute {
+  id: string;
+  shipment_id: string;
+  claimant_id: string;
+  respondent_id: string;
+  arbiter_id: string | null;
+  reason: string;
+  amount_claimed: number;
+  currency: string;
+  status: DisputeStatus;
+  response_due_at: string;
+  response: string | null;
+  responded_at: string | null;
+  escalation_reason: 'response_overdue' | 'requested' | null;
+  escalated_by: string | null;
+  escalated_at: string | null;
+  ruling_outcome: RulingOutcome | null;
+  ruling: string | null;
+  award: number | null;
+  resolved_at: string | null;
+  blockchain_tx_hash: string | null;
+  response_tx_hash: string | null;
+  escalation_tx_hash: string | null;
+  arbiter_tx_hash: string | null;
+  resolution_tx_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  dispute_id: string;
+  submitted_by: string;
+  party: DisputeParty;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  file_hash: string;
+  storage_path: string;
+  description: string | null;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+  // A short-lived link to the file, when the dispute is fetched
+  download_url?: string | null;
+}
+
+export interface DisputeProposal {
+  id: string;
+  dispute_id: string;
+  proposed_by: string;
+  amount: number;
+  terms: string;
+  status: 'open' | 'accepted' | 'declined' | 'lapsed';
+  claimant_accepted_at: string | null;
+  respondent_accepted_at: string | null;
+  created_at: string;
+}
+
+export interface DisputePayment {
+  id: string;
+  dispute_id: string;
+  payer_id: string;
+  payee_id: string;
+  amount: number;
+  currency: string;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+export interface DisputeDetails {
+  dispute: Dispute;
+  shipment: { id: string; tracking_id: string; title: string; status: string } | null;
+  evidence: DisputeEvidence[];
+  proposals: DisputeProposal[];
+  payment: DisputePayment | null;
+  // The approval the award waits on, when a policy covers it
+  awardApproval: PendingApproval | null;
+  // The caller's part in the dispute, if any; managers who aren't parties have none
+  party: DisputeParty | null;
+}
+
+export interface OpenDisputeRequest {
+  shipmentId: string;
+  // Defaults to the shipment's other party: the driver for its customer, the customer for its driver
+  respondentId?: string;
+  reason: string;
+  amountClaimed: number;
+  currency: string;
+  // Days the respondent has to answer
+  responseDays?: number;
+}
+
+export interface EvidenceUpload {
+  fileName: string;
+  contentType?: string;
+  // The file, base64-encoded
+  content: string;
+  description?: string;
+}
+
+export interface RulingRequest {
+  outcome: RulingOutcome;
+  // What the respondent pays; defaults to the amount claimed for the claimant and nothing for the respondent
+  award?: number;
+  ruling: string;
+}
+
+// Raised when a request is invalid (400), the caller has no part in the
+// dispute (403), it can't be found (404) or it has moved past the step (409)
+export class DisputeError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DisputeError';
+  }
+}
+
+type UserCaller = Extract<Caller, { kind: 'user' }>;
+
+interface ShipmentParties {
+  id: string;
+  tracking_id: string;
+  title: string;
+  status: string;
+  customer_id: string;
+  assigned_driver_id: string | null;
+}
+
+const ACTIVE_STATUSES: DisputeStatus[] = ['open', 'responded', 'arbitration'];
+
+export const DEFAULT_RESPONSE_DAYS = 7;
+const MAX_RESPONSE_DAYS = 30;
+
+// Base64 makes a request about a third bigger than the file
+export const MAX_EVIDENCE_BYTES = 5 * 1024 * 1024;
+
+// How long a download link handed out with a dispute stays valid
+const DOWNLOAD_URL_SECONDS = 60 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Raise a dispute as the caller, against the respondent the request names
+export async function openDispute(supabase: SupabaseClient, caller: UserCaller, request: OpenDisputeRequest): Promise<Dispute> {
+  const shipment = await getShipment(supabase, request.shipmentId);
+  const parties = [shipment.customer_id, shipment.assigned_driver_id].filter(Boolean);
+
+  if (!parties.includes(caller.userId) && !isManager(caller)) {
+    throw new DisputeError('Only the shipment\'s customer, its driver or a manager can raise a dispute about it', 403);
+  }
+
+  const respondentId = request.respondentId
+    ?? (caller.userId === shipment.customer_id ? shipment.assigned_driver_id : shipment.customer_id);
+  if (!respondentId) {
+    throw new DisputeError('The shipment has no driver to raise a dispute against yet', 409);
+  }
+  if (respondentId === caller.userId) {
+    throw new DisputeError('You can\'t raise a dispute against yourself', 400);
+  }
+  if (!parties.includes(respondentId) && !await hasRole(supabase, respondentId, 'manager')) {
+    throw new DisputeError('A dispute can only be raised against the shipment\'s customer, its driver or a manager', 400);
+  }
+
+  const responseDays = request.responseDays ?? DEFAULT_RESPONSE_DAYS;
+  const { data, error } = await supabase
+    .from('disputes')
+    .insert({
+      shipment_id: shipment.id,
+      claimant_id: caller.userId,
+      respondent_id: respondentId,
+      reason: request.reason,
+      amount_claimed: roundAmount(request.amountClaimed),
+      currency: request.currency,
+      response_due_at: new Date(Date.now() + responseDays * DAY_MS).toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new DisputeError('You already have a dispute open with them about this shipment', 409);
+    throw error;
+  }
+
+  const dispute = data as Dispute;
+  let transactionHash: string;
+  try {
+    transactionHash = await recordStep(supabase, caller.userId, {
+      to: await getWalletAddress(supabase, respondentId),
+      operation: DISPUTE_OPERATIONS.open,
+      payload: {
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        claimantId: dispute.claimant_id,
+        respondentId: dispute.respondent_id,
+        reason: dispute.reason,
+        amountClaimed: Number(dispute.amount_claimed),
+        currency: dispute.currency,
+        responseDueAt: dispute.response_due_at,
+        status: dispute.status
+      }
+    });
+  } catch (ledgerError) {
+    await supabase.from('disputes').delete().eq('id', dispute.id);
+    throw ledgerError;
+  }
+
+  return setTransactionHash(supabase, dispute, 'blockchain_tx_hash', transactionHash);
+}
+
+// Store a file as evidence and anchor its hash on the ledger
+export async function addEvidence(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  disputeId: string,
+  upload: EvidenceUpload
+): Promise<DisputeEvidence> {
+  const dispute = await loadDispute(supabase, disputeId);
+  const party = getParty(dispute, caller.userId);
+  if (!party) {
+    throw new DisputeError('Only the dispute\'s parties and its arbiter can add evidence', 403);
+  }
+  assertActive(dispute);
+
+  const bytes = decodeBase64(upload.content);
+  if (!bytes || bytes.length === 0) {
+    throw new DisputeError('content must be the file, base64-encoded', 400);
+  }
+  if (bytes.length > MAX_EVIDENCE_BYTES) {
+    throw new DisputeError(`Evidence files can be at most ${MAX_EVIDENCE_BYTES / (1024 * 1024)} MB`, 400);
+  }
+
+  const evidenceId = crypto.randomUUID();
+  const storagePath = `${dispute.id}/${evidenceId}`;
+  const contentType = upload.contentType || 'application/octet-stream';
+
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(storagePath, bytes, { contentType });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('dispute_evidence')
+    .insert({
+      id: evidenceId,
+      dispute_id: dispute.id,
+      submitted_by: caller.userId,
+      party,
+      file_name: upload.fileName,
+      content_type: contentType,
+      size_bytes: bytes.length,
+      file_hash: await hashFile(bytes),
+      storage_path: storagePath,
+      description: upload.description?.trim() || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  const evidence = data as DisputeEvidence;
+  let transactionHash: string;
+  try {
+    transactionHash = await recordStep(supabase, caller.userId, {
+      operation: DISPUTE_OPERATIONS.evidence,
+      payload: {
+        evidenceId: evidence.id,
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        submittedBy: caller.userId,
+        party,
+        fileName: evidence.file_name,
+        fileHash: evidence.file_hash,
+        sizeBytes: evidence.size_bytes
+      }
+    });
+  } catch (ledgerError) {
+    await supabase.from('dispute_evidence').delete().eq('id', evidence.id);
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([storagePath]);
+    throw ledgerError;
+  }
+
+  const { data: anchored, error: updateError } = await supabase
+    .from('dispute_evidence')
+    .update({ blockchain_tx_hash: transactionHash })
+    .eq('id', evidence.id)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+  return anchored as DisputeEvidence;
+}
+
+// The respondent's answer, before the response deadline
+export async function respondToDispute(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  disputeId: string,
+  statement: string
+): Promise<Dispute> {
+  const dispute = await loadDispute(supabase, disputeId);
+  if (dispute.respondent_id !== caller.userId) {
+    throw new DisputeError('Only the respondent can answer a dispute', 403);
+  }
+  if (dispute.status !== 'open') {
+    throw new DisputeError(
+      dispute.escalation_reason === 'response_overdue'
+        ? 'The response deadline has passed; the dispute has gone to arbitration'
+        : 'The dispute has already been answered',
+      409
+    );
+  }
+
+  const respondedAt = new Date().toISOString();
+  return changeAndRecord(supabase, dispute, ['open'], { status: 'responded', response: statement, responded_at: respondedAt }, {
+    actorId: caller.userId,
+    hashColumn: 'response_tx_hash',
+    write: async () => ({
+      operation: DISPUTE_OPERATIONS.response,
+      payload: {
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        respondentId: caller.userId,
+        statementHash: await sha256Hex(statement),
+        respondedAt
+      }
+    })
+  });
+}
+
+// Send an answered dispute to arbitration at either side's request
+export async function escalateDispute(supabase: SupabaseClient, caller: UserCaller, disputeId: string): Promise<Dispute> {
+  const dispute = await loadDispute(supabase, disputeId);
+  const party = getParty(dispute, caller.userId);
+  if (party !== 'claimant' && party !== 'respondent') {
+    throw new DisputeError('Only the dispute\'s parties can send it to arbitration', 403);
+  }
+  if (dispute.status === 'open') {
+    throw new DisputeError('The respondent still has until the response deadline to answer', 409);
+  }
+  if (dispute.status !== 'responded') {
+    throw new DisputeError(`The dispute is already ${dispute.status}`, 409);
+  }
+
+  return escalate(supabase, dispute, 'requested', caller.userId);
+}
+
+// Send every unanswered dispute past its response deadline to arbitration; with a disputeId, just that one
+export async function escalateOverdueDisputes(supabase: SupabaseClient, disputeId?: string): Promise<Dispute[]> {
+  let query = supabase
+    .from('disputes')
+    .select('*')
+    .eq('status', 'open')
+    .lt('response_due_at', new Date().toISOString());
+
+  if (disputeId) query = query.eq('id', disputeId);
+
+  const { data, error } = await query.order('response_due_at', { ascending: true });
+  if (error) throw error;
+
+  const escalated: Dispute[] = [];
+  for (const dispute of (data || []) as Dispute[]) {
+    try {
+      escalated.push(await escalate(supabase, dispute, 'response_overdue', null));
+    } catch (escalationError) {
+      // Another request got there first
+      if (escalationError instanceof DisputeError && escalationError.status === 409) continue;
+      throw escalationError;
+    }
+  }
+  return escalated;
+}
+
+// Give a dispute in arbitration to an arbiter, or hand it to another one
+export async function assignArbiter(
+  supabase: SupabaseClient,
+  caller: Caller,
+  disputeId: string,
+  arbiterId: string
+): Promise<Dispute> {
+  const dispute = await loadDispute(supabase, disputeId);
+  if (dispute.status !== 'arbitration') {
+    throw new DisputeError('Only disputes in arbitration get an arbiter', 409);
+  }
+  if (arbiterId === dispute.claimant_id || arbiterId === dispute.respondent_id) {
+    throw new DisputeError('A party to the dispute can\'t arbitrate it', 400);
+  }
+  if (!await hasRole(supabase, arbiterId, 'arbiter')) {
+    throw new DisputeError(`User ${arbiterId} is not an arbiter`, 400);
+  }
+
+  const assignedBy = caller.kind === 'user' ? caller.userId : null;
+  return changeAndRecord(supabase, dispute, ['arbitration'], { arbiter_id: arbiterId }, {
+    actorId: assignedBy,
+    hashColumn: 'arbiter_tx_hash',
+    write: async () => ({
+      to: await getWalletAddress(supabase, arbiterId),
+      operation: DISPUTE_OPERATIONS.arbiter,
+      payload: { disputeId: dispute.id, shipmentId: dispute.shipment_id, arbiterId, assignedBy }
+    })
+  });
+}
+
+// Propose settling for an amount; a side proposing it has accepted it
+export async function proposeSettlement(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  disputeId: string,
+  amount: number,
+  terms: string
+): Promise<DisputeProposal> {
+  const dispute = await loadDispute(supabase, disputeId);
+  const party = getParty(dispute, caller.userId);
+  if (!party) {
+    throw new DisputeError('Only the dispute\'s parties and its arbiter can propose a settlement', 403);
+  }
+  assertActive(dispute);
+  if (amount > Number(dispute.amount_claimed)) {
+    throw new DisputeError(`A settlement can't pay more than the ${dispute.amount_claimed} ${dispute.currency} claimed`, 400);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('dispute_proposals')
+    .insert({
+      dispute_id: dispute.id,
+      proposed_by: caller.userId,
+      amount: roundAmount(amount),
+      terms,
+      claimant_accepted_at: party === 'claimant' ? now : null,
+      respondent_accepted_at: party === 'respondent' ? now : null
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as DisputeProposal;
+}
+
+// Accept a proposal as one side; once both have, the dispute is settled on it and the award paid
+export async function acceptSettlement(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  proposalId: string
+): Promise<{ dispute: Dispute; proposal: DisputeProposal }> {
+  const proposal = await loadProposal(supabase, proposalId);
+  const dispute = await loadDispute(supabase, proposal.dispute_id);
+  const party = getParty(dispute, caller.userId);
+  if (party !== 'claimant' && party !== 'respondent') {
+    throw new DisputeError('Only the dispute\'s parties can accept a settlement', 403);
+  }
+  assertActive(dispute);
+
+  const column = party === 'claimant' ? 'claimant_accepted_at' : 'respondent_accepted_at';
+  if (proposal[column]) {
+    throw new DisputeError('You have already accepted this proposal', 409);
+  }
+
+  const { data, error } = await supabase
+    .from('dispute_proposals')
+    .update({ [column]: new Date().toISOString() })
+    .eq('id', proposal.id)
+    .eq('status', 'open')
+    .is(column, null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError('The proposal is no longer open', 409);
+  }
+
+  const accepted = data as DisputeProposal;
+  if (!accepted.claimant_accepted_at || !accepted.respondent_accepted_at) {
+    return { dispute, proposal: accepted };
+  }
+
+  return settleOnProposal(supabase, caller, dispute, accepted);
+}
+
+// Turn a proposal down as one side
+export async function declineSettlement(supabase: SupabaseClient, caller: UserCaller, proposalId: string): Promise<DisputeProposal> {
+  const proposal = await loadProposal(supabase, proposalId);
+  const dispute = await loadDispute(supabase, proposal.dispute_id);
+  const party = getParty(dispute, caller.userId);
+  if (party !== 'claimant' && party !== 'respondent') {
+    throw new DisputeError('Only the dispute\'s parties can decline a settlement', 403);
+  }
+
+  const { data, error } = await supabase
+    .from('dispute_proposals')
+    .update({ status: 'declined' })
+    .eq('id', proposal.id)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError('The proposal is no longer open', 409);
+  }
+  return data as DisputeProposal;
+}
+
+// The arbiter's final ruling; the award is paid, or waits for its approval
+export async function ruleOnDispute(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  disputeId: string,
+  request: RulingRequest
+): Promise<Dispute> {
+  const dispute = await loadDispute(supabase, disputeId);
+  if (dispute.arbiter_id !== caller.userId) {
+    throw new DisputeError('Only the dispute\'s arbiter can rule on it', 403);
+  }
+  if (dispute.status !== 'arbitration') {
+    throw new DisputeError(`The dispute is ${dispute.status}, not in arbitration`, 409);
+  }
+
+  const claimed = Number(dispute.amount_claimed);
+  const award = roundAmount(request.award ?? (request.outcome === 'claimant' ? claimed : 0));
+  if (award > claimed) {
+    throw new DisputeError(`The award can't be more than the ${claimed} ${dispute.currency} claimed`, 400);
+  }
+  if (request.outcome === 'respondent' && award !== 0) {
+    throw new DisputeError('A ruling for the respondent awards nothing', 400);
+  }
+  if (request.outcome === 'split' && (award === 0 || award === claimed)) {
+    throw new DisputeError('A split ruling awards part of the amount claimed', 400);
+  }
+
+  const ruled = await changeAndRecord(supabase, dispute, ['arbitration'], {
+    status: 'ruled',
+    ruling_outcome: request.outcome,
+    ruling: request.ruling,
+    award,
+    resolved_at: new Date().toISOString()
+  }, {
+    actorId: caller.userId,
+    hashColumn: 'resolution_tx_hash',
+    write: async () => ({
+      operation: DISPUTE_OPERATIONS.ruling,
+      payload: {
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        arbiterId: caller.userId,
+        claimantId: dispute.claimant_id,
+        respondentId: dispute.respondent_id,
+        outcome: request.outcome,
+        award,
+        currency: dispute.currency,
+        rulingHash: await sha256Hex(request.ruling)
+      }
+    })
+  });
+
+  await lapseOpenProposals(supabase, dispute.id);
+  await payAwardSafely(supabase, ruled);
+  return ruled;
+}
+
+// Pay the awards of settled and ruled disputes whose payment was never made,
+// and ask for the approval of any a policy covers that has none yet
+export async function payOutstandingAwards(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('disputes')
+    .select('*')
+    .in('status', ['settled', 'ruled'])
+    .gt('award', 0);
+
+  if (error) throw error;
+
+  let paid = 0;
+  for (const dispute of (data || []) as Dispute[]) {
+    if (await settleAward(supabase, dispute)) paid++;
+  }
+  return paid;
+}
+
+// A dispute with its evidence, proposals and payment, for someone who can see it.
+// An unanswered dispute past its deadline goes to arbitration first.
+export async function getDisputeDetails(supabase: SupabaseClient, caller: Caller, disputeId: string): Promise<DisputeDetails> {
+  let dispute = await loadDispute(supabase, disputeId);
+  const party = caller.kind === 'user' ? getParty(dispute, caller.userId) : null;
+  if (!party && !isManager(caller)) {
+    throw new DisputeError('Only the dispute\'s parties, its arbiter and managers can see it', 403);
+  }
+
+  if (isOverdue(dispute)) {
+    const [escalated] = await escalateOverdueDisputes(supabase, dispute.id);
+    dispute = escalated ?? await loadDispute(supabase, disputeId);
+  }
+
+  const [shipment, evidence, proposals, payment, awardApproval] = await Promise.all([
+    supabase.from('shipments').select('id, tracking_id, title, status').eq('id', dispute.shipment_id).maybeSingle(),
+    supabase.from('dispute_evidence').select('*').eq('dispute_id', dispute.id).order('created_at', { ascending: true }),
+    supabase.from('dispute_proposals').select('*').eq('dispute_id', dispute.id).order('created_at', { ascending: true }),
+    supabase.from('dispute_payments').select('*').eq('dispute_id', dispute.id).maybeSingle(),
+    findApprovalByKey(supabase, getAwardApprovalKey(dispute.id))
+  ]);
+
+  for (const result of [shipment, evidence, proposals, payment]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    dispute,
+    shipment: shipment.data,
+    evidence: await withDownloadUrls(supabase, (evidence.data || []) as DisputeEvidence[]),
+    proposals: (proposals.data || []) as DisputeProposal[],
+    payment: payment.data as DisputePayment | null,
+    awardApproval,
+    party
+  };
+}
+
+export function isOverdue(dispute: Dispute): boolean {
+  return dispute.status === 'open' && Date.parse(dispute.response_due_at) < Date.now();
+}
+
+// The caller's part in a dispute, if they have one
+export function getParty(dispute: Dispute, userId: string): DisputeParty | null {
+  if (dispute.claimant_id === userId) return 'claimant';
+  if (dispute.respondent_id === userId) return 'respondent';
+  if (dispute.arbiter_id === userId) return 'arbiter';
+  return null;
+}
+
+// Why an open-dispute request is invalid, or null when it is valid
+export function validateOpenRequest(request: Record<string, unknown>): string | null {
+  if (!isNonEmptyString(request.shipmentId)) return 'shipmentId is required';
+  if (request.respondentId !== undefined && !isNonEmptyString(request.respondentId)) return 'respondentId must be a user id';
+  if (!isNonEmptyString(request.reason)) return 'reason is required';
+  if (!isAmount(request.amountClaimed)) return 'amountClaimed must be a non-negative number';
+  if (typeof request.currency !== 'string' || !/^[A-Z]{3}$/.test(request.currency)) {
+    return 'currency must be a three-letter currency code';
+  }
+  if (request.responseDays !== undefined) {
+    const days = request.responseDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_RESPONSE_DAYS) {
+      return `responseDays must be a whole number of days from 1 to ${MAX_RESPONSE_DAYS}`;
+    }
+  }
+  return null;
+}
+
+// Why a ruling is invalid, or null when it is valid
+export function validateRulingRequest(request: Record<string, unknown>): string | null {
+  if (!['claimant', 'respondent', 'split'].includes(request.outcome as string)) {
+    return 'outcome must be claimant, respondent or split';
+  }
+  if (request.award !== undefined && !isAmount(request.award)) return 'award must be a non-negative number';
+  if (!isNonEmptyString(request.ruling)) return 'ruling is required';
+  return null;
+}
+
+export function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+async function escalate(
+  supabase: SupabaseClient,
+  dispute: Dispute,
+  reason: 'response_overdue' | 'requested',
+  requestedBy: string | null
+): Promise<Dispute> {
+  const from: DisputeStatus[] = reason === 'response_overdue' ? ['open'] : ['responded'];
+
+  return changeAndRecord(supabase, dispute, from, {
+    status: 'arbitration',
+    escalation_reason: reason,
+    escalated_by: requestedBy,
+    escalated_at: new Date().toISOString()
+  }, {
+    actorId: requestedBy,
+    hashColumn: 'escalation_tx_hash',
+    write: async () => ({
+      operation: DISPUTE_OPERATIONS.escalation,
+      payload: {
+        disputeId: dispute.id,
+        shipmentId: dispute.shipment_id,
+        reason,
+        requestedBy,
+        responseDueAt: dispute.response_due_at
+      }
+    })
+  });
+}
+
+async function settleOnProposal(
+  supabase: SupabaseClient,
+  caller: UserCaller,
+  dispute: Dispute,
+  proposal: DisputeProposal
+): Promise<{ dispute: Dispute; proposal: DisputeProposal }> {
+  const { error: acceptError } = await supabase
+    .from('dispute_proposals')
+    .update({ status: 'accepted' })
+    .eq('id', proposal.id);
+  if (acceptError) throw acceptError;
+
+  let settled: Dispute;
+  try {
+    settled = await changeAndRecord(supabase, dispute, ACTIVE_STATUSES, {
+      status: 'settled',
+      award: Number(proposal.amount),
+      resolved_at: new Date().toISOString()
+    }, {
+      actorId: caller.userId,
+      hashColumn: 'resolution_tx_hash',
+      write: async () => ({
+        operation: DISPUTE_OPERATIONS.settlement,
+        payload: {
+          disputeId: dispute.id,
+          shipmentId: dispute.shipment_id,
+          settlementId: proposal.id,
+          proposedBy: proposal.proposed_by,
+          claimantId: dispute.claimant_id,
+          respondentId: dispute.respondent_id,
+          amount: Number(proposal.amount),
+          currency: dispute.currency,
+          termsHash: await sha256Hex(proposal.terms),
+          status: 'settled'
+        }
+      })
+    });
+  } catch (error) {
+    await supabase.from('dispute_proposals').update({ status: 'open' }).eq('id', proposal.id);
+    throw error;
+  }
+
+  await lapseOpenProposals(supabase, dispute.id);
+  await payAwardSafely(supabase, settled);
+  return { dispute: settled, proposal: { ...proposal, status: 'accepted' } };
+}
+
+// Make a change to a dispute, guarded by the statuses it can be made from, then
+// record it on the ledger; the change is undone if the ledger write fails
+async function changeAndRecord(
+  supabase: SupabaseClient,
+  dispute: Dispute,
+  from: DisputeStatus[],
+  values: Partial<Dispute>,
+  step: {
+    actorId: string | null;
+    hashColumn: keyof Dispute;
+    write: () => Promise<Omit<LedgerWrite, 'from'>>;
+  }
+): Promise<Dispute> {
+  const { data, error } = await supabase
+    .from('disputes')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', dispute.id)
+    .in('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError('The dispute has moved on since it was loaded; reload it and try again', 409);
+  }
+
+  let transactionHash: string;
+  try {
+    transactionHash = await recordStep(supabase, step.actorId, await step.write());
+  } catch (ledgerError) {
+    const previous = Object.fromEntries(Object.keys(values).map((key) => [key, dispute[key as keyof Dispute]]));
+    await supabase.from('disputes').update({ ...previous, updated_at: dispute.updated_at }).eq('id', dispute.id);
+    throw ledgerError;
+  }
+
+  return setTransactionHash(supabase, data as Dispute, step.hashColumn, transactionHash);
+}
+
+// Write a step to the ledger from the acting user's wallet, or the system address without one
+async function recordStep(supabase: SupabaseClient, actorId: string | null, write: Omit<LedgerWrite, 'from'>): Promise<string> {
+  const from = actorId ? await getWalletAddress(supabase, actorId) : undefined;
+  const receipt = await recordOnLedger(supabase, { ...write, from });
+  return receipt.transactionHash;
+}
+
+async function setTransactionHash(
+  supabase: SupabaseClient,
+  dispute: Dispute,
+  column: keyof Dispute,
+  transactionHash: string
+): Promise<Dispute> {
+  const { data, error } = await supabase
+    .from('disputes')
+    .update({ [column]: transactionHash })
+    .eq('id', dispute.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as Dispute;
+}
+
+// The award stands even if paying it fails; payOutstandingAwards tries again
+async function payAwardSafely(supabase: SupabaseClient, dispute: Dispute): Promise<void> {
+  try {
+    await settleAward(supabase, dispute);
+  } catch (error) {
+    console.error(`Error paying the award for dispute ${dispute.id}:`, error);
+  }
+}
+
+// Pay a decided dispute's award, unless an approval policy covers it: then the
+// award waits for signatures as a pending approval, in the claimant's name,
+// and the ledger outbox pays it once approved. An approval already requested
+// decides, even if the policies have changed since. Returns whether this call
+// paid the award.
+async function settleAward(supabase: SupabaseClient, dispute: Dispute): Promise<boolean> {
+  if (Number(dispute.award ?? 0) <= 0 || (dispute.status !== 'settled' && dispute.status !== 'ruled')) return false;
+
+  const approval = await findApprovalByKey(supabase, getAwardApprovalKey(dispute.id));
+  if (approval) {
+    // Waiting for signatures or turned down; an approved award whose job failed is paid here
+    return approval.status === 'executed' ? payAward(supabase, dispute) : false;
+  }
+  if (await hasPayment(supabase, dispute.id)) return false;
+
+  const request = getAwardRequest(dispute);
+  const policy = await findApprovalPolicy(supabase, AWARD_APPROVAL_OPERATION, request);
+  if (!policy) return payAward(supabase, dispute);
+
+  const role = await resolveRole(supabase, dispute.claimant_id);
+  if (!role) {
+    throw new DisputeError(`User ${dispute.claimant_id} has no role to request the award's approval with`, 409);
+  }
+  await requestApproval(supabase, { kind: 'user', userId: dispute.claimant_id, role }, policy, request, getAwardApprovalKey(dispute.id));
+  return false;
+}
+
+async function lapseOpenProposals(supabase: SupabaseClient, disputeId: string): Promise<void> {
+  const { error } = await supabase
+    .from('dispute_proposals')
+    .update({ status: 'lapsed' })
+    .eq('dispute_id', disputeId)
+    .eq('status', 'open');
+
+  if (error) throw error;
+}
+
+async function withDownloadUrls(supabase: SupabaseClient, evidence: DisputeEvidence[]): Promise<DisputeEvidence[]> {
+  return Promise.all(evidence.map(async (item) => {
+    const { data } = await supabase.storage.from(EVIDENCE_BUCKET).createSignedUrl(item.storage_path, DOWNLOAD_URL_SECONDS);
+    return { ...item, download_url: data?.signedUrl ?? null };
+  }));
+}
+
+async function loadDispute(supabase: SupabaseClient, disputeId: string): Promise<Dispute> {
+  const { data, error } = await supabase
+    .from('disputes')
+    .select('*')
+    .eq('id', disputeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError(`Dispute ${disputeId} not found`, 404);
+  }
+  return data as Dispute;
+}
+
+async function loadProposal(supabase: SupabaseClient, proposalId: string): Promise<DisputeProposal> {
+  const { data, error } = await supabase
+    .from('dispute_proposals')
+    .select('*')
+    .eq('id', proposalId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError(`Proposal ${proposalId} not found`, 404);
+  }
+  return data as DisputeProposal;
+}
+
+async function getShipment(supabase: SupabaseClient, shipmentId: string): Promise<ShipmentParties> {
+  const { data, error } = await supabase
+    .from('shipments')
+    .select('id, tracking_id, title, status, customer_id, assigned_driver_id')
+    .eq('id', shipmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new DisputeError(`Shipment ${shipmentId} not found`, 404);
+  }
+  return data as ShipmentParties;
+}
+
+async function getWalletAddress(supabase: SupabaseClient, userId: string): Promise<string> {
+  const wallet = await ensureUserWallet(supabase, userId);
+  if (!wallet) {
+    throw new DisputeError(`User ${userId} has no wallet; only users with a role take part in disputes`, 409);
+  }
+  return wallet.address;
+}
+
+async function hasRole(supabase: SupabaseClient, userId: string, role: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: role });
+  if (error) throw error;
+  return Boolean(data);
+}
+
+function assertActive(dispute: Dispute): void {
+  if (!ACTIVE_STATUSES.includes(dispute.status)) {
+    throw new DisputeError(`The dispute is already ${dispute.status}`, 409);
+  }
+}
+
+async function hashFile(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return '0x' + Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function decodeBase64(content: unknown): Uint8Array | null {
+  if (typeof content !== 'string') return null;
+  try {
+    return Uint8Array.from(atob(content), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,242 @@
+// Disputes between a shipment's parties
+//
+// The claimant, the respondent and the arbiter each act through this function
+// (see disputes.ts for the workflow). The dispute pages read disputes straight
+// from the tables, which row level security limits to their parties, arbiter
+// and managers; get adds download links for the evidence. check_deadlines is
+// meant to run on a schedule with the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
+import {
+  DisputeError,
+  EvidenceUpload,
+  OpenDisputeRequest,
+  RulingRequest,
+  acceptSettlement,
+  addEvidence,
+  assignArbiter,
+  declineSettlement,
+  escalateDispute,
+  escalateOverdueDisputes,
+  getDisputeDetails,
+  isAmount,
+  isNonEmptyString,
+  openDispute,
+  payOutstandingAwards,
+  proposeSettlement,
+  respondToDispute,
+  ruleOnDispute,
+  validateOpenRequest,
+  validateRulingRequest
+} from './disputes.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type DisputesAction =
+  | 'get'
+  | 'open'
+  | 'add_evidence'
+  | 'respond'
+  | 'escalate'
+  | 'assign_arbiter'
+  | 'propose_settlement'
+  | 'accept_settlement'
+  | 'decline_settlement'
+  | 'rule'
+  | 'check_deadlines';
+
+interface DisputesRequest {
+  action: DisputesAction;
+  // Every action but open, check_deadlines and the answers to a proposal
+  disputeId?: string;
+  // accept_settlement / decline_settlement
+  proposalId?: string;
+  // open
+  dispute?: OpenDisputeRequest;
+  // add_evidence
+  evidence?: EvidenceUpload;
+  // respond
+  statement?: string;
+  // propose_settlement
+  amount?: number;
+  terms?: string;
+  // assign_arbiter
+  arbiterId?: string;
+  // rule
+  ruling?: RulingRequest;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const request = await req.json() as DisputesRequest;
+    const { action, disputeId, proposalId } = request;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Disputes action: ${action}`);
+
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'disputes', action);
+
+    switch (action) {
+      case 'check_deadlines': {
+        const escalated = await escalateOverdueDisputes(supabase);
+        const paid = await payOutstandingAwards(supabase);
+        return jsonResponse({ success: true, escalated, paid });
+      }
+
+      case 'get': {
+        if (!disputeId) {
+          return errorResponse('disputeId is required', 400);
+        }
+
+        const details = await getDisputeDetails(supabase, caller, disputeId);
+        return jsonResponse({ success: true, ...details });
+      }
+
+      case 'assign_arbiter': {
+        if (!disputeId || !isNonEmptyString(request.arbiterId)) {
+          return errorResponse('disputeId and arbiterId are required', 400);
+        }
+
+        const dispute = await assignArbiter(supabase, caller, disputeId, request.arbiterId);
+        return jsonResponse({ success: true, dispute });
+      }
+    }
+
+    // Everything else is done by a party or the arbiter, as themselves
+    if (caller.kind !== 'user') {
+      return errorResponse('Disputes are argued by users; call this with a user\'s token', 400);
+    }
+
+    switch (action) {
+      case 'open': {
+        const validationError = validateOpenRequest((request.dispute ?? {}) as unknown as Record<string, unknown>);
+        if (validationError) {
+          return errorResponse(validationError, 400);
+        }
+
+        const dispute = await openDispute(supabase, caller, request.dispute as OpenDisputeRequest);
+        return jsonResponse({ success: true, dispute });
+      }
+
+      case 'accept_settlement': {
+        if (!proposalId) {
+          return errorResponse('proposalId is required', 400);
+        }
+
+        const { dispute, proposal } = await acceptSettlement(supabase, caller, proposalId);
+        return jsonResponse({ success: true, dispute, proposal });
+      }
+
+      case 'decline_settlement': {
+        if (!proposalId) {
+          return errorResponse('proposalId is required', 400);
+        }
+
+        const proposal = await declineSettlement(supabase, caller, proposalId);
+        return jsonResponse({ success: true, proposal });
+      }
+    }
+
+    if (!disputeId) {
+      return errorResponse('disputeId is required', 400);
+    }
+
+    switch (action) {
+      case 'add_evidence': {
+        const { evidence } = request;
+        if (!evidence || !isNonEmptyString(evidence.fileName) || typeof evidence.content !== 'string') {
+          return errorResponse('evidence needs a fileName and its content, base64-encoded', 400);
+        }
+
+        const added = await addEvidence(supabase, caller, disputeId, evidence);
+        return jsonResponse({ success: true, evidence: added });
+      }
+
+      case 'respond': {
+        if (!isNonEmptyString(request.statement)) {
+          return errorResponse('statement is required', 400);
+        }
+
+        const dispute = await respondToDispute(supabase, caller, disputeId, request.statement.trim());
+        return jsonResponse({ success: true, dispute });
+      }
+
+      case 'escalate': {
+        const dispute = await escalateDispute(supabase, caller, disputeId);
+        return jsonResponse({ success: true, dispute });
+      }
+
+      case 'propose_settlement': {
+        if (!isAmount(request.amount)) {
+          return errorResponse('amount must be a non-negative number', 400);
+        }
+        if (!isNonEmptyString(request.terms)) {
+          return errorResponse('terms are required', 400);
+        }
+
+        const proposal = await proposeSettlement(supabase, caller, disputeId, request.amount, request.terms.trim());
+        return jsonResponse({ success: true, proposal });
+      }
+
+      case 'rule': {
+        const validationError = validateRulingRequest((request.ruling ?? {}) as unknown as Record<string, unknown>);
+        if (validationError) {
+          return errorResponse(validationError, 400);
+        }
+
+        const ruling = request.ruling as RulingRequest;
+        const dispute = await ruleOnDispute(supabase, caller, disputeId, { ...ruling, ruling: ruling.ruling.trim() });
+        return jsonResponse({ success: true, dispute });
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError || error instanceof DisputeError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
@@ -0,0 +1,164 @@
+// Worker for the ledger outbox: runs queued ledger writes and retries them with backoff
+//
+// Schedule { "action": "process" } to run every minute; the frontend also calls
+// it straight after queuing a job so writes normally land without waiting.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { getIdempotencyKey } from '../_shared/idempotency.ts';
+import { AuthorizationError, assertShipmentAccess, authenticateRequest, authorizeAction, isManager } from '../_shared/auth.ts';
+import { getContractRequestData } from '../blockchain-verify/contractOperations.ts';
+import { ApprovalError, findApprovalPolicy, requestApproval } from '../approvals/approvals.ts';
+import {
+  DEFAULT_BATCH_SIZE,
+  enqueueLedgerJob,
+  isQueueableOperation,
+  processLedgerJobs,
+  retryLedgerJob
+} from './outbox.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key",
+};
+
+// Most jobs a single request may claim
+const MAX_BATCH_SIZE = 50;
+
+interface OutboxRequest {
+  action: 'enqueue' | 'process' | 'retry';
+  // enqueue: a contract operation and its request body, run straight away
+  operation?: string;
+  request?: Record<string, unknown>;
+  // Only read from service-role callers; a signed-in user's jobs are always their own
+  requestedBy?: string;
+  // Optional; submitting the same key again returns the job it first created
+  idempotencyKey?: string;
+  // process / retry
+  jobId?: string;
+  sourceId?: string;
+  limit?: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const body = await req.json() as OutboxRequest;
+    const { action, operation, request, requestedBy, jobId, sourceId, limit } = body;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Ledger outbox action: ${action}`);
+
+    // The scheduled worker calls with the service role key; users only with a role that allows the action
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'ledger-outbox', action);
+
+    switch (action) {
+      case 'enqueue': {
+        if (!operation || !isQueueableOperation(operation) || typeof request !== 'object' || request === null) {
+          return errorResponse(`Cannot queue operation ${operation}`, 400);
+        }
+
+        // Queuing an operation needs the same permission as running it through blockchain-verify
+        authorizeAction(caller, 'blockchain-verify', operation);
+        await assertShipmentAccess(supabase, caller, getContractRequestData(operation, request)?.shipmentId);
+
+        const idempotencyKey = getIdempotencyKey(req, body as unknown as Record<string, unknown>, caller);
+
+        // An action an approval policy covers waits for its parties' signatures instead;
+        // it is queued once enough of them have signed (see approvals/approvals.ts)
+        if (caller.kind === 'user') {
+          const policy = await findApprovalPolicy(supabase, operation, request);
+          if (policy) {
+            const { approval, replayed } = await requestApproval(supabase, caller, policy, request, idempotencyKey);
+            return jsonResponse({ success: true, approval, replayed });
+          }
+        }
+
+        // The job's ledger write is sent from the wallet of whoever queued it
+        const createdBy = caller.kind === 'user' ? caller.userId : requestedBy ?? null;
+
+        // The job is stored before anything else, so a failure from here on is retried
+        const { job: queued, replayed } = await enqueueLedgerJob(supabase, operation, request, createdBy, idempotencyKey);
+        if (replayed && queued.operation !== operation) {
+          return errorResponse(`Idempotency key has already been used for ${queued.operation}`, 422);
+        }
+
+        // A replayed job that already ran, or is backing off, is returned as it stands
+        const [job] = await processLedgerJobs(supabase, { jobId: queued.id, limit: 1 });
+
+        return jsonResponse({ success: true, job: job ?? queued, replayed });
+      }
+
+      case 'process': {
+        if (!jobId && !sourceId && !isManager(caller)) {
+          return errorResponse('Only managers can process the whole queue; name a jobId or sourceId', 403);
+        }
+
+        const jobs = await processLedgerJobs(supabase, {
+          jobId,
+          sourceId,
+          limit: Math.min(limit ?? DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE)
+        });
+
+        return jsonResponse({ success: true, jobs });
+      }
+
+      case 'retry': {
+        if (!jobId) {
+          return errorResponse('jobId is required', 400);
+        }
+
+        const reset = await retryLedgerJob(supabase, jobId);
+        if (!reset) {
+          return errorResponse(`Job ${jobId} not found or not waiting to be retried`, 404);
+        }
+
+        const [job] = await processLedgerJobs(supabase, { jobId, limit: 1 });
+        return jsonResponse({ success: true, job: job ?? reset });
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError || error instanceof ApprovalError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
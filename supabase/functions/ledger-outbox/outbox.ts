@@ -0,0 +1,294 @@
+// Ledger jobs from the transactional outbox (see 20240610000000_create_ledger_jobs.sql)
+//
+// A job names a blockchain-verify operation and the request body it reads.
+// Running it records the operation on the ledger, then applies the database
+// change that goes with it - the same updates the frontend used to make after
+// a successful call. The transaction hash is stored on the job before that
+// change is applied, so a retry only redoes the part that failed. An approved
+// dispute award is queued as a settle_dispute job, which pays the award.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { NonceMismatchError, PayloadSchemaError, recordOnLedger, validateLedgerSender } from '../_shared/ledger.ts';
+import { getActingSender } from '../_shared/wallets.ts';
+import {
+  ContractOperation,
+  getContractRequestData,
+  handleContractOperation,
+  isContractOperation
+} from '../blockchain-verify/contractOperations.ts';
+import { evaluateContracts } from '../supply-chain-management/contractEngine.ts';
+import { AWARD_APPROVAL_OPERATION, payApprovedAward } from '../disputes/awards.ts';
+
+// First retry waits 30 seconds; each later one waits twice as long, up to an hour
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// Jobs claimed by one worker run
+export const DEFAULT_BATCH_SIZE = 10;
+
+export type LedgerJobStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface LedgerJob {
+  id: string;
+  operation: string;
+  request: Record<string, unknown>;
+  source_table: 'shipments' | 'reviews' | null;
+  source_id: string | null;
+  status: LedgerJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  transaction_hash: string | null;
+  result: Record<string, unknown> | null;
+  created_by: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface OperationOutcome {
+  transactionHash: string;
+  result: Record<string, unknown>;
+}
+
+// An operation rejected for good, such as a failed validation; retrying won't help
+class PermanentJobError extends Error {}
+
+// Contract operations can be queued by the frontend; registrations are only queued by database triggers
+export function isQueueableOperation(operation: string): operation is ContractOperation {
+  return isContractOperation(operation);
+}
+
+// Store a job. With an idempotency key, a repeated submission gets the job the
+// first one created back, with replayed set, instead of queuing the write twice.
+export async function enqueueLedgerJob(
+  supabase: SupabaseClient,
+  operation: ContractOperation | typeof AWARD_APPROVAL_OPERATION,
+  request: Record<string, unknown>,
+  createdBy: string | null,
+  idempotencyKey: string | null = null
+): Promise<{ job: LedgerJob; replayed: boolean }> {
+  const { data, error } = await supabase
+    .from('ledger_jobs')
+    .insert({ operation, request, created_by: createdBy, idempotency_key: idempotencyKey })
+    .select()
+    .single();
+
+  if (!error) return { job: data, replayed: false };
+  if (error.code !== '23505' || !idempotencyKey) throw error;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('ledger_jobs')
+    .select()
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+
+  if (existingError) throw existingError;
+  return { job: existing, replayed: true };
+}
+
+
+// Claim and run due jobs, optionally only one job or the jobs for one source row
+export async function processLedgerJobs(
+  supabase: SupabaseClient,
+  options: { jobId?: string; sourceId?: string; limit?: number } = {}
+): Promise<LedgerJob[]> {
+  const { data: jobs, error } = await supabase.rpc('claim_ledger_jobs', {
+    p_limit: options.limit ?? DEFAULT_BATCH_SIZE,
+    p_job_id: options.jobId ?? null,
+    p_source_id: options.sourceId ?? null
+  });
+
+  if (error) throw error;
+
+  const processed: LedgerJob[] = [];
+  for (const job of (jobs ?? []) as LedgerJob[]) {
+    processed.push(await runJob(supabase, job));
+  }
+  return processed;
+}
+
+// Put a failed or backed-off job back at the front of the queue with a fresh set of attempts
+export async function retryLedgerJob(supabase: SupabaseClient, jobId: string): Promise<LedgerJob | null> {
+  const { data, error } = await supabase
+    .from('ledger_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', jobId)
+    .in('status', ['pending', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function runJob(supabase: SupabaseClient, job: LedgerJob): Promise<LedgerJob> {
+  try {
+    let transactionHash = job.transaction_hash;
+    let result = job.result;
+
+    if (!transactionHash) {
+      const outcome = await executeOperation(supabase, job);
+      transactionHash = outcome.transactionHash;
+      result = outcome.result;
+
+      await updateJob(supabase, job.id, { transaction_hash: transactionHash, result });
+    }
+
+    await applyDatabaseChange(supabase, job, transactionHash);
+
+    return await updateJob(supabase, job.id, {
+      status: 'succeeded',
+      transaction_hash: transactionHash,
+      result,
+      last_error: null,
+      locked_at: null,
+      completed_at: new Date().toISOString()
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Ledger job ${job.id} (${job.operation}) failed:`, message);
+
+    // A nonce the request chose was already used or skipped ahead of, or a payload
+    // that doesn't match its schema, is something no retry can change
+    const permanent = error instanceof PermanentJobError
+      || error instanceof NonceMismatchError
+      || error instanceof PayloadSchemaError;
+    if (permanent || job.attempts >= job.max_attempts) {
+      return updateJob(supabase, job.id, { status: 'failed', last_error: message, locked_at: null });
+    }
+
+    return updateJob(supabase, job.id, {
+      status: 'pending',
+      last_error: message,
+      locked_at: null,
+      next_attempt_at: new Date(Date.now() + backoffDelay(job.attempts)).toISOString()
+    });
+  }
+}
+
+async function executeOperation(supabase: SupabaseClient, job: LedgerJob): Promise<OperationOutcome> {
+  // Paid from the respondent's wallet rather than the requester's
+  if (job.operation === AWARD_APPROVAL_OPERATION) {
+    const outcome = await payApprovedAward(supabase, job.request);
+    if (!outcome.ok) {
+      if (outcome.status < 500) throw new PermanentJobError(outcome.error);
+      throw new Error(outcome.error);
+    }
+    return { transactionHash: outcome.transactionHash, result: outcome.result };
+  }
+
+  // Sent from the wallet of the user whose change queued the job
+  const senderError = validateLedgerSender(job.request);
+  if (senderError) throw new PermanentJobError(senderError);
+
+  const acting = await getActingSender(supabase, job.request, job.created_by);
+  if ('error' in acting) throw new PermanentJobError(acting.error);
+  const { sender } = acting;
+
+  if (job.operation === 'register') {
+    const shipmentData = job.request.shipmentData as Record<string, unknown> | undefined;
+    if (!shipmentData) {
+      throw new PermanentJobError('shipmentData is required for register');
+    }
+
+    const receipt = await recordOnLedger(supabase, { ...sender, operation: 'register', payload: shipmentData });
+    return {
+      transactionHash: receipt.transactionHash,
+      result: { ...shipmentData, blockNumber: receipt.blockNumber, timestamp: new Date(receipt.timestamp).toISOString() }
+    };
+  }
+
+  if (!isContractOperation(job.operation)) {
+    throw new PermanentJobError(`Unknown operation ${job.operation}`);
+  }
+
+  const outcome = await handleContractOperation(supabase, job.operation, job.request, sender);
+  if (!outcome.ok) {
+    // Invalid requests and conflicts fail for good; anything else is worth another try
+    if (outcome.status < 500) throw new PermanentJobError(outcome.error);
+    throw new Error(outcome.error);
+  }
+
+  const { transactionHash, result, tokens } = outcome.response;
+  return { transactionHash, result: tokens !== undefined ? { ...result, tokens } : result };
+}
+
+// The database change that goes with a job's ledger write
+async function applyDatabaseChange(supabase: SupabaseClient, job: LedgerJob, transactionHash: string): Promise<void> {
+  if (job.source_table && job.source_id) {
+    await updateRow(supabase, job.source_table, job.source_id, { blockchain_tx_hash: transactionHash });
+    return;
+  }
+  // The award's payment row already holds its hash
+  if (job.operation === AWARD_APPROVAL_OPERATION) return;
+
+  const data = getContractRequestData(job.operation as ContractOperation, job.request) ?? {};
+  const shipmentId = data.shipmentId as string;
+
+  switch (job.operation) {
+    case 'track_shipment':
+      await updateRow(supabase, 'shipments', shipmentId, { status: data.status, blockchain_tx_hash: transactionHash });
+      break;
+    case 'transfer_ownership':
+      await updateRow(supabase, 'shipments', shipmentId, { customer_id: data.toUserId, blockchain_tx_hash: transactionHash });
+      break;
+    case 'verify_product': {
+      // Keyed by the job id, so a retry doesn't insert the reading twice
+      const { error } = await supabase
+        .from('sensor_data')
+        .upsert({
+          id: job.id,
+          shipment_id: shipmentId,
+          temperature: data.temperature,
+          humidity: data.humidity,
+          shock_detected: !data.isIntact,
+          blockchain_tx_hash: transactionHash
+        }, { onConflict: 'id', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      // A cold-chain contract checks every reading; the reading stands even if that fails
+      try {
+        await evaluateContracts(supabase, shipmentId);
+      } catch (evaluationError) {
+        console.error('Error evaluating contracts after a product verification:', evaluationError);
+      }
+      break;
+    }
+    default:
+      await updateRow(supabase, 'shipments', shipmentId, { blockchain_tx_hash: transactionHash });
+  }
+}
+
+async function updateRow(supabase: SupabaseClient, table: string, id: string, values: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase.from(table).update(values).eq('id', id);
+  if (error) throw error;
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, values: Partial<LedgerJob>): Promise<LedgerJob> {
+  const { data, error } = await supabase
+    .from('ledger_jobs')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Exponential backoff with up to 20% jitter, so failed jobs don't all retry together
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
@@ -0,0 +1,264 @@
+// Public shipment verification behind signed, expiring links
+//
+// Signed-in customers and managers get a link for a shipment with
+// issue_link; anyone holding the link can then call verify without an
+// account, e.g. after scanning the QR code on TrackShipment. The verify
+// response is built field by field from the shipment, so nothing about the
+// customer - who they are, or where the shipment comes from or is going -
+// ever leaves here.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, assertShipmentAccess, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
+import { verifyTransaction } from '../_shared/ledger.ts';
+import { checkStatementSignature } from '../_shared/signing.ts';
+import { ShipmentEventRow, buildTamperReport } from '../supply-chain-management/tamperReport.ts';
+import { checkVerificationLink, signVerificationLink } from './links.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Events that move the shipment from one party's custody to another's
+const CUSTODY_EVENT_TYPES = ['created', 'ownership_transferred', 'delivered'];
+
+// Ledger operations that issue carbon credits for a shipment
+const CARBON_CREDIT_OPERATIONS = ['carbon_credits', 'carbon-credits'];
+
+interface PublicVerifyRequest {
+  action: 'issue_link' | 'verify';
+  trackingId?: string;
+  // verify: the expiry and signature from the link
+  expires?: number;
+  signature?: string;
+}
+
+// A custody holder as the public sees them: registered organisations by name, app users by role only
+interface PublicParticipant {
+  name: string | null;
+  role: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { action, trackingId, expires, signature } = await req.json() as PublicVerifyRequest;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Public verify action: ${action}`);
+
+    if (!trackingId) {
+      return errorResponse('trackingId is required', 400);
+    }
+
+    switch (action) {
+      case 'issue_link':
+        return await issueLink(req, supabase, trackingId);
+
+      case 'verify': {
+        const linkProblem = await checkVerificationLink({
+          trackingId,
+          expires: Number(expires),
+          signature: signature ?? ''
+        });
+        if (linkProblem) {
+          return errorResponse(linkProblem.error, linkProblem.status);
+        }
+
+        return await verifyShipment(supabase, trackingId);
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+// Only the shipment's customer and managers may hand out links to it
+async function issueLink(req: Request, supabase: SupabaseClient, trackingId: string): Promise<Response> {
+  const caller = await authenticateRequest(supabase, req);
+  authorizeAction(caller, 'public-verify', 'issue_link');
+
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('id')
+    .eq('tracking_id', trackingId)
+    .maybeSingle();
+
+  if (shipmentError) throw shipmentError;
+  if (!shipment) {
+    return errorResponse(`Shipment ${trackingId} not found`, 404);
+  }
+
+  await assertShipmentAccess(supabase, caller, shipment.id);
+
+  const link = await signVerificationLink(trackingId);
+  return jsonResponse({
+    success: true,
+    link: {
+      ...link,
+      expiresAt: new Date(link.expires).toISOString()
+    }
+  });
+}
+
+async function describeParticipants(supabase: SupabaseClient, ids: string[]): Promise<Map<string, PublicParticipant>> {
+  const participants = new Map<string, PublicParticipant>();
+  if (ids.length === 0) return participants;
+
+  const { data, error } = await supabase
+    .from('participant_keys')
+    .select('participant_id, participant_type, name, role')
+    .in('participant_id', ids);
+
+  if (error) throw error;
+  for (const row of data || []) {
+    participants.set(row.participant_id, {
+      name: row.participant_type === 'external' ? row.name : null,
+      role: row.role
+    });
+  }
+  return participants;
+}
+
+async function verifyShipment(supabase: SupabaseClient, trackingId: string): Promise<Response> {
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('*')
+    .eq('tracking_id', trackingId)
+    .maybeSingle();
+
+  if (shipmentError) throw shipmentError;
+  if (!shipment) {
+    return errorResponse(`Shipment ${trackingId} not found`, 404);
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('shipment_events')
+    .select('*')
+    .eq('shipment_id', shipment.id)
+    .order('created_at', { ascending: true });
+
+  if (eventsError) throw eventsError;
+
+  const { data: credits, error: creditsError } = await supabase
+    .from('ledger_transactions')
+    .select('payload')
+    .in('operation', CARBON_CREDIT_OPERATIONS)
+    .eq('payload->>shipmentId', shipment.id);
+
+  if (creditsError) throw creditsError;
+
+  const eventRows = (events || []) as ShipmentEventRow[];
+  const [tamperReport, registration] = await Promise.all([
+    buildTamperReport(supabase, shipment.id, eventRows),
+    shipment.blockchain_tx_hash ? verifyTransaction(supabase, shipment.blockchain_tx_hash) : Promise.resolve(null)
+  ]);
+
+  const custodyEvents = eventRows.filter((event) => CUSTODY_EVENT_TYPES.includes(event.event_type));
+  const participantIds = new Set<string>();
+  for (const event of custodyEvents) {
+    for (const id of [event.signer_id, event.data.fromParticipant, event.data.toParticipant]) {
+      if (typeof id === 'string') participantIds.add(id);
+    }
+  }
+  const participants = await describeParticipants(supabase, Array.from(participantIds));
+  const describe = (id: unknown) => (typeof id === 'string' ? participants.get(id) ?? null : null);
+
+  const custodyChain = [];
+  for (const event of custodyEvents) {
+    const signatureCheck = await checkStatementSignature(supabase, {
+      shipmentId: event.shipment_id,
+      eventType: event.event_type,
+      data: event.data,
+      signer: event.signer_id ?? null
+    }, event.signature ?? null);
+
+    custodyChain.push({
+      eventType: event.event_type,
+      timestamp: event.created_at,
+      from: describe(event.data.fromParticipant),
+      to: describe(event.data.toParticipant),
+      signedBy: signatureCheck.status === 'valid' ? describe(event.signer_id) : null,
+      signatureValid: signatureCheck.status === 'valid',
+      anchored: tamperReport.checks[event.id].status === 'intact',
+      transactionHash: event.blockchain_tx_hash
+    });
+  }
+
+  const anchoredCarbonFootprint = registration?.payload?.carbonFootprint;
+  const weight = typeof shipment.weight === 'number' && shipment.weight > 0 ? shipment.weight : null;
+
+  return jsonResponse({
+    success: true,
+    shipment: {
+      trackingId: shipment.tracking_id,
+      status: shipment.status,
+      productType: shipment.product_type,
+      quantity: shipment.quantity,
+      transportType: shipment.transport_type,
+      plannedDepartureDate: shipment.planned_departure_date,
+      estimatedArrivalDate: shipment.estimated_arrival_date,
+      actualArrivalDate: shipment.actual_arrival_date
+    },
+    verification: {
+      registered: registration?.verified ?? false,
+      registrationTransactionHash: shipment.blockchain_tx_hash,
+      historyIntact: tamperReport.clean,
+      intactEvents: tamperReport.intactEvents,
+      checkedEvents: tamperReport.checkedEvents,
+      verifiedAt: new Date().toISOString()
+    },
+    custodyChain,
+    sustainability: {
+      carbonFootprint: shipment.carbon_footprint,
+      carbonFootprintAnchored: typeof anchoredCarbonFootprint === 'number' && anchoredCarbonFootprint === shipment.carbon_footprint,
+      carbonPerKg: weight ? shipment.carbon_footprint / weight : null,
+      carbonCredits: (credits || []).reduce(
+        (total: number, { payload }: { payload: Record<string, unknown> }) => total + (typeof payload.tokens === 'number' ? payload.tokens : 0),
+        0
+      )
+    }
+  });
+}
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
@@ -0,0 +1,72 @@
+// Signed, expiring verification links
+//
+// A link names a tracking id and an expiry time, signed with HMAC-SHA256 under
+// VERIFICATION_LINK_SECRET. Anyone holding the link can open the shipment's
+// public verification page until it expires; without the signature, tracking
+// ids alone reveal nothing.
+
+import { canonicalize } from '../_shared/ledger.ts';
+
+// How long an issued link stays valid
+export const LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface VerificationLink {
+  trackingId: string;
+  // Milliseconds since the epoch
+  expires: number;
+  signature: string;
+}
+
+function getSecret(): string {
+  const secret = Deno.env.get('VERIFICATION_LINK_SECRET');
+  if (!secret) {
+    throw new Error('VERIFICATION_LINK_SECRET is not configured');
+  }
+  return secret;
+}
+
+async function hmacHex(message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const linkMessage = (trackingId: string, expires: number) => canonicalize({ trackingId, expires });
+
+// Compare without returning early, so the time taken doesn't reveal how much of a signature matched
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+export async function signVerificationLink(trackingId: string, now: number = Date.now()): Promise<VerificationLink> {
+  const expires = now + LINK_TTL_MS;
+  return { trackingId, expires, signature: await hmacHex(linkMessage(trackingId, expires)) };
+}
+
+// Why a link can't be used, with the status to answer it with, or null when it is genuine and unexpired
+export async function checkVerificationLink(
+  link: VerificationLink,
+  now: number = Date.now()
+): Promise<{ error: string; status: number } | null> {
+  if (!Number.isSafeInteger(link.expires) || typeof link.signature !== 'string') {
+    return { error: 'Verification link is malformed', status: 400 };
+  }
+  if (!constantTimeEqual(await hmacHex(linkMessage(link.trackingId, link.expires)), link.signature.toLowerCase())) {
+    return { error: 'Verification link signature is invalid', status: 403 };
+  }
+  if (link.expires <= now) {
+    return { error: 'Verification link has expired', status: 410 };
+  }
+  return null;
+}
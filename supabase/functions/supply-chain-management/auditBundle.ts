@@ -0,0 +1,275 @@
+// Offline-verifiable audit bundles (see scripts/verify-audit-bundle.mjs)
+//
+// A bundle is one JSON document holding everything needed to check a
+// shipment's history without access to our backend: the shipment row, its
+// events, sensor readings and document hashes, every ledger entry they point
+// at with an inclusion proof into its block, the block headers from the oldest
+// of those blocks up to the chain head with the validator signatures sealing
+// each one, and the public keys of every signer. The consortium's governance
+// entries come along too, so the validator set each block was sealed under
+// can be replayed and its quorum checked.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { BlockSignature, GOVERNANCE_OPERATIONS } from '../_shared/consensus.ts';
+import {
+  LedgerBlock,
+  LedgerTransaction,
+  MerkleProofStep,
+  computeMerkleProofs,
+  toLedgerBlock,
+  toLedgerTransaction
+} from '../_shared/ledger.ts';
+import { SIGNATURE_ALGORITHM } from '../_shared/signing.ts';
+import { ShipmentEventRow } from './tamperReport.ts';
+
+export const AUDIT_BUNDLE_FORMAT = 'shipment-audit-bundle';
+export const AUDIT_BUNDLE_VERSION = 2;
+
+export interface AuditBundleTransaction extends LedgerTransaction {
+  // Proof from the transaction hash to its block's transactionsRoot; null while unsealed
+  inclusionProof: MerkleProofStep[] | null;
+}
+
+export interface AuditBundleBlock extends LedgerBlock {
+  // Validator signatures over the block hash; empty for blocks sealed before the consortium started
+  signatures: BlockSignature[];
+}
+
+export interface AuditBundleParticipant {
+  participantId: string;
+  name: string;
+  role: string;
+  algorithm: string;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+}
+
+export interface AuditBundle {
+  format: typeof AUDIT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  shipmentId: string;
+  shipment: Record<string, unknown>;
+  events: ShipmentEventRow[];
+  sensorReadings: Record<string, unknown>[];
+  documents: Record<string, unknown>[];
+  participants: AuditBundleParticipant[];
+  ledger: {
+    transactions: AuditBundleTransaction[];
+    // Contiguous headers, oldest first, ending at the chain head when the bundle was made
+    blocks: AuditBundleBlock[];
+  };
+}
+
+// PostgREST returns at most max_rows (1000, see supabase/config.toml) per request
+const PAGE_SIZE = 1000;
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>;
+
+// Every row of an ordered query, read a page at a time until a short page comes back
+async function selectAll<T>(page: (from: number, to: number) => PageResult<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const hashesOf = (rows: { blockchain_tx_hash?: unknown }[]) =>
+  rows.map((row) => row.blockchain_tx_hash).filter((hash): hash is string => typeof hash === 'string');
+
+// Ledger entries that name the shipment, any other entry a row points at, and
+// every sealed governance entry
+async function getBundleTransactions(
+  supabase: SupabaseClient,
+  shipmentId: string,
+  referencedHashes: string[]
+): Promise<LedgerTransaction[]> {
+  const { data: named, error: namedError } = await supabase
+    .from('ledger_transactions')
+    .select('*')
+    .or(`payload->>shipmentId.eq.${shipmentId},payload->>id.eq.${shipmentId}`);
+
+  if (namedError) throw namedError;
+
+  const { data: governance, error: governanceError } = await supabase
+    .from('ledger_transactions')
+    .select('*')
+    .in('operation', GOVERNANCE_OPERATIONS)
+    .not('block_number', 'is', null);
+
+  if (governanceError) throw governanceError;
+
+  const transactions = new Map<string, LedgerTransaction>();
+  for (const row of [...(named || []), ...(governance || [])]) {
+    transactions.set(row.tx_hash, toLedgerTransaction(row));
+  }
+
+  const missing = Array.from(new Set(referencedHashes)).filter((hash) => !transactions.has(hash));
+  if (missing.length > 0) {
+    const { data: referenced, error: referencedError } = await supabase
+      .from('ledger_transactions')
+      .select('*')
+      .in('tx_hash', missing);
+
+    if (referencedError) throw referencedError;
+    for (const row of referenced || []) {
+      transactions.set(row.tx_hash, toLedgerTransaction(row));
+    }
+  }
+
+  // Chain order, with unsealed entries last
+  return Array.from(transactions.values()).sort((a, b) =>
+    (a.blockNumber ?? Number.MAX_SAFE_INTEGER) - (b.blockNumber ?? Number.MAX_SAFE_INTEGER) ||
+    (a.txIndex ?? 0) - (b.txIndex ?? 0));
+}
+
+// Inclusion proof for each sealed transaction, built from every hash in its block
+async function proveInclusion(supabase: SupabaseClient, transactions: LedgerTransaction[]): Promise<AuditBundleTransaction[]> {
+  const blockNumbers = Array.from(new Set(
+    transactions.map((tx) => tx.blockNumber).filter((blockNumber): blockNumber is number => blockNumber !== undefined)
+  ));
+
+  const proofs = new Map<string, MerkleProofStep[]>();
+  if (blockNumbers.length > 0) {
+    const { data, error } = await supabase
+      .from('ledger_transactions')
+      .select('tx_hash, block_number, tx_index')
+      .in('block_number', blockNumbers)
+      .order('block_number', { ascending: true })
+      .order('tx_index', { ascending: true });
+
+    if (error) throw error;
+
+    for (const blockNumber of blockNumbers) {
+      const hashes = (data || [])
+        .filter((row: { block_number: number }) => row.block_number === blockNumber)
+        .map((row: { tx_hash: string }) => row.tx_hash);
+      const blockProofs = await computeMerkleProofs(hashes);
+      hashes.forEach((hash: string, index: number) => proofs.set(hash, blockProofs[index]));
+    }
+  }
+
+  return transactions.map((tx) => ({ ...tx, inclusionProof: proofs.get(tx.hash) ?? null }));
+}
+
+async function getBlockHeaders(supabase: SupabaseClient, fromBlock: number | null): Promise<AuditBundleBlock[]> {
+  if (fromBlock === null) return [];
+
+  const [blockRows, signatureRows] = await Promise.all([
+    selectAll<Parameters<typeof toLedgerBlock>[0]>((from, to) => supabase
+      .from('ledger_blocks')
+      .select('*')
+      .gte('block_number', fromBlock)
+      .order('block_number', { ascending: true })
+      .range(from, to)),
+    // Each sealed block has a signature per validator, so these pass max_rows long before the blocks do
+    selectAll<{ block_number: number; validator_address: string; signature: string }>((from, to) => supabase
+      .from('ledger_block_signatures')
+      .select('block_number, validator_address, signature')
+      .gte('block_number', fromBlock)
+      .order('block_number', { ascending: true })
+      .order('validator_address', { ascending: true })
+      .range(from, to))
+  ]);
+
+  const signatures = new Map<number, BlockSignature[]>();
+  for (const row of signatureRows) {
+    const blockNumber = Number(row.block_number);
+    signatures.set(blockNumber, [
+      ...(signatures.get(blockNumber) ?? []),
+      { validator: row.validator_address, signature: row.signature }
+    ]);
+  }
+
+  return blockRows.map((row) => {
+    const block = toLedgerBlock(row);
+    return { ...block, signatures: signatures.get(block.number) ?? [] };
+  });
+}
+
+async function getSigners(supabase: SupabaseClient, signerIds: string[]): Promise<AuditBundleParticipant[]> {
+  if (signerIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('participant_keys')
+    .select('*')
+    .in('participant_id', signerIds);
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    participantId: row.participant_id,
+    name: row.name,
+    role: row.role,
+    algorithm: row.algorithm ?? SIGNATURE_ALGORITHM,
+    publicKey: row.public_key,
+    fingerprint: row.public_key_fingerprint
+  }));
+}
+
+export async function buildAuditBundle(supabase: SupabaseClient, shipmentId: string): Promise<AuditBundle | null> {
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('*')
+    .eq('id', shipmentId)
+    .maybeSingle();
+
+  if (shipmentError) throw shipmentError;
+  if (!shipment) return null;
+
+  const [events, sensorReadings, documents] = await Promise.all([
+    selectAll<ShipmentEventRow>((from, to) => supabase.from('shipment_events').select('*').eq('shipment_id', shipmentId).order('created_at', { ascending: true }).order('id').range(from, to)),
+    selectAll<Record<string, unknown>>((from, to) => supabase.from('sensor_data').select('*').eq('shipment_id', shipmentId).order('timestamp', { ascending: true }).order('id').range(from, to)),
+    selectAll<Record<string, unknown>>((from, to) => supabase.from('shipment_documents').select('*').eq('shipment_id', shipmentId).order('created_at', { ascending: true }).order('id').range(from, to))
+  ]);
+
+  const transactions = await getBundleTransactions(supabase, shipmentId, [
+    ...hashesOf([shipment]),
+    ...hashesOf(events),
+    ...hashesOf(sensorReadings),
+    ...hashesOf(documents)
+  ]);
+
+  const sealedBlocks = transactions
+    .map((tx) => tx.blockNumber)
+    .filter((blockNumber): blockNumber is number => blockNumber !== undefined);
+
+  const signerIds = new Set<string>();
+  for (const event of events) {
+    if (event.signer_id) signerIds.add(event.signer_id);
+  }
+  for (const tx of transactions) {
+    if (typeof tx.payload.signer === 'string') signerIds.add(tx.payload.signer);
+  }
+
+  const [provenTransactions, blocks, participants] = await Promise.all([
+    proveInclusion(supabase, transactions),
+    getBlockHeaders(supabase, sealedBlocks.length > 0 ? Math.min(...sealedBlocks) : null),
+    getSigners(supabase, Array.from(signerIds))
+  ]);
+
+  return {
+    format: AUDIT_BUNDLE_FORMAT,
+    version: AUDIT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    shipmentId,
+    shipment,
+    events,
+    sensorReadings,
+    documents: documents.map((document) => ({
+      id: document.id,
+      shipment_id: document.shipment_id,
+      document_type: document.document_type,
+      document_hash: document.document_hash,
+      blockchain_tx_hash: document.blockchain_tx_hash,
+      created_at: document.created_at
+    })),
+    participants,
+    ledger: {
+      transactions: provenTransactions,
+      blocks
+    }
+  };
+}
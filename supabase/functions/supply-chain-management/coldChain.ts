@@ -0,0 +1,158 @@
+// Claims for the 'cold_chain' contract type (see contractDefinitions.ts)
+//
+// A breached cold-chain contract opens a claim against the responsible driver
+// or carrier on the customer's behalf: a row in cold_chain_claims, one per
+// contract, and a cold_chain_claim ledger entry. The evidence is every reading
+// out of range, each with the leaf hash it is anchored under (see
+// _shared/sensorBatches.ts), so the readings can be proven against the ledger
+// without trusting the sensor_data table.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { recordOnLedger } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import { SensorDataRow, hashSensorReading, toSensorLeafFields } from '../_shared/sensorBatches.ts';
+import { ColdChainTerms, ContractContext, assessColdChain, getContractAddress } from './contractDefinitions.ts';
+import type { SmartContract } from './contractEngine.ts';
+
+export const COLD_CHAIN_CLAIM_OPERATION = 'cold_chain_claim';
+
+// One reading out of range, as it stands in the claim
+export interface ColdChainEvidence {
+  readingId: string;
+  timestamp: string;
+  temperature: number | null;
+  humidity: number | null;
+  leafHash: string;
+}
+
+interface ColdChainClaimRow {
+  id: string;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+// A claim opened this long ago without a ledger entry is taken to have been abandoned
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// Open the claim a breached cold-chain contract calls for, unless it has been already
+export async function settleColdChain(supabase: SupabaseClient, contract: SmartContract, context: ContractContext): Promise<void> {
+  if (contract.status !== 'breached') return;
+  if (!context.shipment) throw new Error(`Contract ${contract.contract_id} has no shipment to claim for`);
+  if (await hasClaim(supabase, contract.id)) return;
+
+  const terms = contract.terms as unknown as ColdChainTerms;
+  const assessment = assessColdChain(context);
+  const evidence = await collectEvidence(supabase, assessment.excursions.flatMap((excursion) => excursion.readingIds));
+
+  const wallet = await ensureUserWallet(supabase, terms.responsibleId);
+  if (!wallet) throw new Error(`User ${terms.responsibleId} has no wallet to open the claim against`);
+
+  const { data: claim, error: claimError } = await supabase
+    .from('cold_chain_claims')
+    .insert({
+      contract_id: contract.id,
+      shipment_id: contract.shipment_id,
+      claimant_id: context.shipment.customer_id,
+      respondent_id: terms.responsibleId,
+      product_type: terms.productType,
+      excursion_minutes: assessment.excursionMinutes,
+      max_excursion_minutes: assessment.maxExcursionMinutes,
+      evidence
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    // Another evaluation is already opening it
+    if (claimError.code === '23505') return;
+    throw claimError;
+  }
+
+  let transactionHash: string;
+  try {
+    const receipt = await recordOnLedger(supabase, {
+      from: getContractAddress(contract.contract_id),
+      to: wallet.address,
+      operation: COLD_CHAIN_CLAIM_OPERATION,
+      payload: {
+        claimId: claim.id,
+        contractId: contract.contract_id,
+        shipmentId: contract.shipment_id,
+        claimantId: context.shipment.customer_id,
+        respondentId: terms.responsibleId,
+        productType: terms.productType,
+        minTemperature: terms.minTemperature,
+        maxTemperature: terms.maxTemperature,
+        minHumidity: terms.minHumidity ?? null,
+        maxHumidity: terms.maxHumidity ?? null,
+        excursionMinutes: assessment.excursionMinutes,
+        maxExcursionMinutes: assessment.maxExcursionMinutes,
+        evidence
+      }
+    });
+    transactionHash = receipt.transactionHash;
+  } catch (error) {
+    await supabase.from('cold_chain_claims').delete().eq('id', claim.id);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('cold_chain_claims')
+    .update({ blockchain_tx_hash: transactionHash })
+    .eq('id', claim.id);
+
+  if (updateError) throw updateError;
+}
+
+// The readings out of range, oldest first, with the leaf hashes they're anchored under
+async function collectEvidence(supabase: SupabaseClient, readingIds: string[]): Promise<ColdChainEvidence[]> {
+  if (readingIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('sensor_data')
+    .select('*')
+    .in('id', readingIds)
+    .order('timestamp', { ascending: true });
+
+  if (error) throw error;
+
+  return Promise.all(((data || []) as SensorDataRow[]).map(async (row) => ({
+    readingId: row.id,
+    timestamp: row.timestamp,
+    temperature: row.temperature,
+    humidity: row.humidity,
+    leafHash: await hashSensorReading(toSensorLeafFields(row))
+  })));
+}
+
+// Whether the contract's claim is open or being opened; an abandoned claim is recovered or cleared
+async function hasClaim(supabase: SupabaseClient, contractId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('cold_chain_claims')
+    .select('id, blockchain_tx_hash, created_at')
+    .eq('contract_id', contractId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const claim = data as ColdChainClaimRow | null;
+  if (!claim) return false;
+  if (claim.blockchain_tx_hash || Date.now() - Date.parse(claim.created_at) < STALE_CLAIM_MS) return true;
+
+  const { data: entry, error: entryError } = await supabase
+    .from('ledger_transactions')
+    .select('tx_hash')
+    .eq('operation', COLD_CHAIN_CLAIM_OPERATION)
+    .eq('payload->>claimId', claim.id)
+    .maybeSingle();
+
+  if (entryError) throw entryError;
+
+  if (entry) {
+    await supabase.from('cold_chain_claims').update({ blockchain_tx_hash: entry.tx_hash }).eq('id', claim.id);
+    return true;
+  }
+
+  await supabase.from('cold_chain_claims').delete().eq('id', claim.id).is('blockchain_tx_hash', null);
+  return false;
+}
@@ -0,0 +1,808 @@
+// State machines for each type of smart contract
+//
+// A contract type declares which of the contract states it uses, the
+// transitions between them and the guards each transition needs. Guards are
+// checked against the contract's terms and the data of the shipment it covers
+// (see contractEngine.ts). Automatic transitions are applied whenever the
+// contract is evaluated and their guards pass; the others run when a manager
+// or one of the contract's parties asks for them.
+
+export const CONTRACT_STATES = ['draft', 'active', 'fulfilled', 'breached', 'terminated', 'expired'] as const;
+
+// Document type of the signed proof that a shipment was handed over
+export const PROOF_OF_DELIVERY_DOCUMENT = 'proof_of_delivery';
+
+// Causes a delay can be reported with, in a delay_reported event; an SLA can exclude some of them
+export const DELAY_CAUSES = ['weather', 'traffic', 'customs', 'mechanical', 'other'];
+
+export const SLA_PENALTY_UNITS = ['hour', 'day'];
+
+export interface ColdChainProfile {
+  label: string;
+  // °C
+  minTemperature: number;
+  maxTemperature: number;
+  // %
+  minHumidity?: number;
+  maxHumidity?: number;
+  // Total time out of range the goods can take before they're written off
+  maxExcursionMinutes: number;
+}
+
+// Limits for each type of temperature-sensitive product; a cold-chain
+// contract's terms start from its product type's and can tighten or relax them.
+// Mirrored in src/services/blockchain/coldChain.ts.
+export const COLD_CHAIN_PROFILES: Record<string, ColdChainProfile> = {
+  frozen: { label: 'Frozen food', minTemperature: -25, maxTemperature: -18, maxExcursionMinutes: 30 },
+  chilled: { label: 'Chilled food', minTemperature: 0, maxTemperature: 5, maxExcursionMinutes: 60 },
+  fresh_produce: {
+    label: 'Fresh produce',
+    minTemperature: 1,
+    maxTemperature: 10,
+    minHumidity: 80,
+    maxHumidity: 95,
+    maxExcursionMinutes: 120
+  },
+  pharmaceutical: { label: 'Pharmaceuticals', minTemperature: 2, maxTemperature: 8, maxHumidity: 60, maxExcursionMinutes: 30 }
+};
+
+export type ContractState = typeof CONTRACT_STATES[number];
+
+// What guards are checked against
+export interface ContractContext {
+  terms: Record<string, unknown>;
+  shipment: ContractShipment | null;
+  // The shipment's recorded events and documents, oldest first
+  events: ContractShipmentEvent[];
+  documents: ContractShipmentDocument[];
+  // The shipment's sensor readings, oldest first
+  readings: ContractSensorReading[];
+  now: Date;
+}
+
+export interface ContractShipment {
+  id: string;
+  status: string;
+  customer_id: string;
+  assigned_driver_id: string | null;
+  planned_departure_date: string | null;
+  estimated_arrival_date: string | null;
+  actual_arrival_date: string | null;
+}
+
+export interface ContractShipmentEvent {
+  event_type: string;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface ContractShipmentDocument {
+  document_type: string;
+  document_hash: string;
+  created_at: string;
+}
+
+export interface ContractSensorReading {
+  id: string;
+  timestamp: string;
+  temperature: number | null;
+  humidity: number | null;
+}
+
+export interface GuardOutcome {
+  guard: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ContractGuard {
+  name: string;
+  check(context: ContractContext): { passed: boolean; detail: string };
+}
+
+export interface ContractTransition {
+  name: string;
+  label: string;
+  from: ContractState[];
+  to: ContractState;
+  guards: ContractGuard[];
+  // Applied whenever the contract is evaluated and every guard passes
+  automatic: boolean;
+  // The caller has to say why, as for a manual breach or termination
+  requiresReason?: boolean;
+}
+
+export interface ContractDefinition {
+  type: string;
+  title: string;
+  states: ContractState[];
+  // Whether the contract must name a shipment for its guards to read
+  requiresShipment: boolean;
+  // Returns the problem with a contract's terms, or null when they're usable
+  validateTerms(terms: Record<string, unknown>): string | null;
+  transitions: ContractTransition[];
+}
+
+const isDate = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isPercent = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const formatDate = (value: string) => new Date(value).toISOString();
+
+function validateDateTerm(terms: Record<string, unknown>, key: string, required: boolean): string | null {
+  if (terms[key] === undefined || terms[key] === null) {
+    return required ? `terms.${key} is required` : null;
+  }
+  return isDate(terms[key]) ? null : `terms.${key} must be an ISO date`;
+}
+
+function validatePercentTerm(terms: Record<string, unknown>, key: string): string | null {
+  if (terms[key] === undefined || terms[key] === null) return null;
+  return isPercent(terms[key]) ? null : `terms.${key} must be a percentage between 0 and 100`;
+}
+
+// The event recording the shipment's delivery: a delivered event, or a status update to delivered
+export function findDeliveryEvent(events: ContractShipmentEvent[]): ContractShipmentEvent | null {
+  return events.find((event) => event.event_type === 'delivered') ??
+    events.find((event) => event.event_type === 'status_updated' && event.data.status === 'delivered') ??
+    null;
+}
+
+// When the shipment was delivered: its arrival time, or failing that the time its delivery event gives
+export function getDeliveredAt(context: ContractContext): string | null {
+  const delivery = findDeliveryEvent(context.events);
+  return context.shipment?.actual_arrival_date ??
+    (typeof delivery?.data.deliveredAt === 'string' ? delivery.data.deliveredAt : delivery?.created_at) ??
+    null;
+}
+
+export function findProofOfDelivery(documents: ContractShipmentDocument[]): ContractShipmentDocument | null {
+  return documents.find((document) => document.document_type === PROOF_OF_DELIVERY_DOCUMENT) ?? null;
+}
+
+// Address of the account a contract holds funds in
+export function getContractAddress(contractId: string): string {
+  return '0x' + contractId.replace(/-/g, '').padEnd(40, '0');
+}
+
+// SLA assessment
+
+export interface SlaTerms {
+  deliverBy: string;
+  currency: string;
+  // The driver or carrier penalties are charged to
+  responsibleId: string;
+  // Charged per hour or day late, each part of one counting as a whole
+  penaltyRate: number;
+  penaltyUnit: 'hour' | 'day';
+  // Lateness allowed before anything is charged
+  gracePeriodHours?: number;
+  // Cap on the penalty
+  maxPenalty?: number;
+  // Delays reported with these causes don't count as late
+  excludedCauses?: string[];
+}
+
+export interface ExcusedDelay {
+  cause: string;
+  hours: number;
+  description: string | null;
+  reportedAt: string;
+}
+
+// How late a delivery was under an SLA and what it costs
+export interface SlaAssessment {
+  deliveredAt: string | null;
+  lateMinutes: number;
+  // Of those, covered by delays with an excluded cause
+  excusedMinutes: number;
+  graceMinutes: number;
+  // What's left after the excused delays and the grace period
+  chargeableMinutes: number;
+  // Hours or days charged for
+  unitsLate: number;
+  penalty: number;
+  // The penalty was cut to maxPenalty
+  capped: boolean;
+  excusedDelays: ExcusedDelay[];
+}
+
+const MINUTES_PER_UNIT: Record<string, number> = { hour: 60, day: 24 * 60 };
+
+// Delays reported by the time of delivery whose cause the SLA excludes
+function findExcusedDelays(terms: SlaTerms, events: ContractShipmentEvent[], deliveredAt: string): ExcusedDelay[] {
+  const excluded = terms.excludedCauses ?? [];
+  return events
+    .filter((event) =>
+      event.event_type === 'delay_reported' &&
+      excluded.includes(event.data.cause as string) &&
+      typeof event.data.delayHours === 'number' &&
+      Date.parse(event.created_at) <= Date.parse(deliveredAt)
+    )
+    .map((event) => ({
+      cause: event.data.cause as string,
+      hours: event.data.delayHours as number,
+      description: typeof event.data.description === 'string' ? event.data.description : null,
+      reportedAt: event.created_at
+    }));
+}
+
+export function assessSla(context: ContractContext): SlaAssessment {
+  const terms = context.terms as unknown as SlaTerms;
+  const deliveredAt = getDeliveredAt(context);
+  const graceMinutes = Math.round((terms.gracePeriodHours ?? 0) * 60);
+  const none = { lateMinutes: 0, excusedMinutes: 0, chargeableMinutes: 0, unitsLate: 0, penalty: 0, capped: false };
+  if (!deliveredAt) return { deliveredAt, graceMinutes, excusedDelays: [], ...none };
+
+  const lateMinutes = Math.max(0, Math.ceil((Date.parse(deliveredAt) - Date.parse(terms.deliverBy)) / 60000));
+  const excusedDelays = findExcusedDelays(terms, context.events, deliveredAt);
+  const excusedMinutes = Math.min(lateMinutes, Math.round(excusedDelays.reduce((total, delay) => total + delay.hours, 0) * 60));
+  const chargeableMinutes = Math.max(0, lateMinutes - excusedMinutes - graceMinutes);
+
+  const unitsLate = Math.ceil(chargeableMinutes / MINUTES_PER_UNIT[terms.penaltyUnit]);
+  const uncapped = Math.round(unitsLate * terms.penaltyRate * 100) / 100;
+  const capped = terms.maxPenalty !== undefined && uncapped > terms.maxPenalty;
+
+  return {
+    deliveredAt,
+    lateMinutes,
+    excusedMinutes,
+    graceMinutes,
+    chargeableMinutes,
+    unitsLate,
+    penalty: capped ? terms.maxPenalty! : uncapped,
+    capped,
+    excusedDelays
+  };
+}
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+// Cold-chain assessment
+
+export interface ColdChainTerms {
+  productType: string;
+  minTemperature: number;
+  maxTemperature: number;
+  minHumidity?: number;
+  maxHumidity?: number;
+  maxExcursionMinutes: number;
+  // The driver or carrier a claim is opened against
+  responsibleId: string;
+}
+
+// A run of readings out of range. Each reading counts until the next one, or
+// until delivery for the last reading before it.
+export interface ColdChainExcursion {
+  startedAt: string;
+  // Null while the latest reading is still out of range
+  endedAt: string | null;
+  minutes: number;
+  readingIds: string[];
+  problems: string[];
+}
+
+export interface ColdChainAssessment {
+  readingCount: number;
+  excursionMinutes: number;
+  maxExcursionMinutes: number;
+  excursions: ColdChainExcursion[];
+  deliveredAt: string | null;
+}
+
+// Which limits one reading breaks; empty when it's within them
+export function findReadingProblems(terms: ColdChainTerms, reading: ContractSensorReading): string[] {
+  const problems: string[] = [];
+  const { temperature, humidity } = reading;
+  if (temperature !== null && temperature > terms.maxTemperature) problems.push(`temperature above ${terms.maxTemperature}°C`);
+  if (temperature !== null && temperature < terms.minTemperature) problems.push(`temperature below ${terms.minTemperature}°C`);
+  if (humidity !== null && terms.maxHumidity !== undefined && humidity > terms.maxHumidity) {
+    problems.push(`humidity above ${terms.maxHumidity}%`);
+  }
+  if (humidity !== null && terms.minHumidity !== undefined && humidity < terms.minHumidity) {
+    problems.push(`humidity below ${terms.minHumidity}%`);
+  }
+  return problems;
+}
+
+export function assessColdChain(context: ContractContext): ColdChainAssessment {
+  const terms = context.terms as unknown as ColdChainTerms;
+  const deliveredAt = getDeliveredAt(context);
+  // Readings taken after delivery are the consignee's responsibility
+  const readings = context.readings.filter((reading) =>
+    (reading.temperature !== null || reading.humidity !== null) &&
+    (!deliveredAt || Date.parse(reading.timestamp) <= Date.parse(deliveredAt))
+  );
+
+  const excursions: ColdChainExcursion[] = [];
+  let current: ColdChainExcursion | null = null;
+  let currentMs = 0;
+  let excursionMs = 0;
+
+  for (const [index, reading] of readings.entries()) {
+    const problems = findReadingProblems(terms, reading);
+    if (problems.length === 0) {
+      if (current) current.endedAt = reading.timestamp;
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      current = { startedAt: reading.timestamp, endedAt: null, minutes: 0, readingIds: [], problems: [] };
+      currentMs = 0;
+      excursions.push(current);
+    }
+    current.readingIds.push(reading.id);
+    for (const problem of problems) {
+      if (!current.problems.includes(problem)) current.problems.push(problem);
+    }
+
+    const until = readings[index + 1]?.timestamp ?? deliveredAt;
+    const ms = until ? Math.max(0, Date.parse(until) - Date.parse(reading.timestamp)) : 0;
+    currentMs += ms;
+    excursionMs += ms;
+    current.minutes = Math.ceil(currentMs / 60000);
+  }
+  if (current && deliveredAt) current.endedAt = deliveredAt;
+
+  return {
+    readingCount: readings.length,
+    excursionMinutes: Math.ceil(excursionMs / 60000),
+    maxExcursionMinutes: terms.maxExcursionMinutes,
+    excursions,
+    deliveredAt
+  };
+}
+
+// Guards
+
+const shipmentStatusNotIn = (statuses: string[]): ContractGuard => ({
+  name: `shipment_not_${statuses.join('_or_')}`,
+  check: ({ shipment }) => shipment
+    ? {
+      passed: !statuses.includes(shipment.status),
+      detail: `Shipment is ${shipment.status}; can't be ${statuses.join(' or ')}`
+    }
+    : { passed: false, detail: 'The contract has no shipment' }
+});
+
+// The shipment was delivered no later than the date in terms[key]
+const deliveredBy = (key: string): ContractGuard => ({
+  name: `delivered_by_${key}`,
+  check: ({ shipment, terms }) => {
+    const deadline = terms[key] as string;
+    if (!shipment || shipment.status !== 'delivered' || !shipment.actual_arrival_date) {
+      return { passed: false, detail: `Not delivered yet; due by ${formatDate(deadline)}` };
+    }
+    const onTime = Date.parse(shipment.actual_arrival_date) <= Date.parse(deadline);
+    return {
+      passed: onTime,
+      detail: `Delivered ${formatDate(shipment.actual_arrival_date)}, ${onTime ? 'on time' : 'late'} for ${formatDate(deadline)}`
+    };
+  }
+});
+
+// The date in terms[key] passed without an on-time delivery
+const deliveryDeadlineMissed = (key: string): ContractGuard => ({
+  name: `missed_${key}`,
+  check: (context) => {
+    const deadline = context.terms[key] as string;
+    const delivered = context.shipment?.status === 'delivered' && context.shipment.actual_arrival_date;
+    if (delivered) {
+      const late = Date.parse(context.shipment!.actual_arrival_date!) > Date.parse(deadline);
+      return { passed: late, detail: `Delivered ${late ? 'after' : 'before'} the ${formatDate(deadline)} deadline` };
+    }
+    const missed = context.now.getTime() > Date.parse(deadline);
+    return {
+      passed: missed,
+      detail: missed ? `Still not delivered after ${formatDate(deadline)}` : `Due by ${formatDate(deadline)}`
+    };
+  }
+});
+
+// The date in terms[key] has passed; a contract without one never passes
+const termDatePassed = (key: string): ContractGuard => ({
+  name: `${key}_passed`,
+  check: ({ terms, now }) => {
+    if (!isDate(terms[key])) return { passed: false, detail: `No ${key} date is set` };
+    const passed = now.getTime() >= Date.parse(terms[key] as string);
+    return { passed, detail: `${key} ${passed ? 'passed' : 'is'} ${formatDate(terms[key] as string)}` };
+  }
+});
+
+// The date in terms[key] hasn't passed yet; a contract without one always passes
+const termDateNotPassed = (key: string): ContractGuard => ({
+  name: `before_${key}`,
+  check: (context) => {
+    if (!isDate(context.terms[key])) return { passed: true, detail: `No ${key} date is set` };
+    const { passed, detail } = termDatePassed(key).check(context);
+    return { passed: !passed, detail };
+  }
+});
+
+// The date in terms[key] has come; a contract without one always passes
+const termDateReached = (key: string): ContractGuard => ({
+  name: `${key}_reached`,
+  check: (context) => isDate(context.terms[key])
+    ? termDatePassed(key).check(context)
+    : { passed: true, detail: `No ${key} date is set` }
+});
+
+const deliveryEventRecorded: ContractGuard = {
+  name: 'delivery_recorded',
+  check: ({ events }) => {
+    const event = findDeliveryEvent(events);
+    return event
+      ? { passed: true, detail: `Delivery recorded ${formatDate(event.created_at)}` }
+      : { passed: false, detail: 'No delivered event has been recorded' };
+  }
+};
+
+const proofOfDeliveryRecorded: ContractGuard = {
+  name: 'proof_of_delivery_recorded',
+  check: ({ documents }) => {
+    const document = findProofOfDelivery(documents);
+    return document
+      ? { passed: true, detail: `Proof of delivery ${document.document_hash.slice(0, 10)}… added ${formatDate(document.created_at)}` }
+      : { passed: false, detail: 'No proof of delivery has been added' };
+  }
+};
+
+// Delivered within the SLA once excused delays and the grace period are allowed for
+const withinSla: ContractGuard = {
+  name: 'within_sla',
+  check: (context) => {
+    const assessment = assessSla(context);
+    if (!assessment.deliveredAt) return { passed: false, detail: 'Not delivered yet' };
+    if (assessment.lateMinutes === 0) return { passed: true, detail: `Delivered on time, ${formatDate(assessment.deliveredAt)}` };
+    return {
+      passed: assessment.chargeableMinutes === 0,
+      detail: `Delivered ${formatMinutes(assessment.lateMinutes)} late; ${formatMinutes(assessment.excusedMinutes)} excused, ` +
+        `${formatMinutes(assessment.graceMinutes)} grace`
+    };
+  }
+};
+
+const slaMissed: ContractGuard = {
+  name: 'sla_missed',
+  check: (context) => {
+    const assessment = assessSla(context);
+    if (!assessment.deliveredAt) return { passed: false, detail: 'Not delivered yet' };
+    const terms = context.terms as unknown as SlaTerms;
+    return assessment.chargeableMinutes > 0
+      ? {
+        passed: true,
+        detail: `${formatMinutes(assessment.chargeableMinutes)} late beyond grace and excused delays: ` +
+          `${assessment.unitsLate} ${terms.penaltyUnit}(s), penalty ${assessment.penalty} ${terms.currency}` +
+          (assessment.capped ? ' (capped)' : '')
+      }
+      : { passed: false, detail: 'Delivered within the SLA' };
+  }
+};
+
+const describeExcursions = (assessment: ColdChainAssessment) =>
+  `${formatMinutes(assessment.excursionMinutes)} out of range of ${formatMinutes(assessment.maxExcursionMinutes)} allowed, ` +
+  `over ${assessment.readingCount} reading(s)`;
+
+// Delivered without the readings ever going out of range for longer than allowed
+const withinColdChainLimits: ContractGuard = {
+  name: 'within_cold_chain_limits',
+  check: (context) => {
+    const assessment = assessColdChain(context);
+    if (!assessment.deliveredAt) return { passed: false, detail: `Not delivered yet; ${describeExcursions(assessment)}` };
+    return {
+      passed: assessment.excursionMinutes <= assessment.maxExcursionMinutes,
+      detail: `Delivered ${formatDate(assessment.deliveredAt)}; ${describeExcursions(assessment)}`
+    };
+  }
+};
+
+// Checked against every reading as it arrives, so a breach doesn't wait for delivery
+const excursionLimitExceeded: ContractGuard = {
+  name: 'excursion_limit_exceeded',
+  check: (context) => {
+    const assessment = assessColdChain(context);
+    const exceeded = assessment.excursionMinutes > assessment.maxExcursionMinutes;
+    const problems = [...new Set(assessment.excursions.flatMap((excursion) => excursion.problems))];
+    return {
+      passed: exceeded,
+      detail: describeExcursions(assessment) + (problems.length > 0 ? ` (${problems.join(', ')})` : '')
+    };
+  }
+};
+
+// Definitions
+
+const terminate: ContractTransition = {
+  name: 'terminate',
+  label: 'Terminate',
+  from: ['draft', 'active'],
+  to: 'terminated',
+  guards: [],
+  automatic: false,
+  requiresReason: true
+};
+
+// Delivery of one shipment by a deadline. Fulfilled by an on-time delivery,
+// breached by a missed deadline; an offer not activated by expiresAt lapses.
+const deliveryContract: ContractDefinition = {
+  type: 'delivery',
+  title: 'Delivery agreement',
+  states: ['draft', 'active', 'fulfilled', 'breached', 'terminated', 'expired'],
+  requiresShipment: true,
+  validateTerms: (terms) =>
+    validateDateTerm(terms, 'deliverBy', true) ?? validateDateTerm(terms, 'expiresAt', false),
+  transitions: [
+    {
+      name: 'activate',
+      label: 'Activate',
+      from: ['draft'],
+      to: 'active',
+      guards: [shipmentStatusNotIn(['delivered', 'cancelled']), termDateNotPassed('expiresAt')],
+      automatic: false
+    },
+    {
+      name: 'fulfil',
+      label: 'Mark fulfilled',
+      from: ['active'],
+      to: 'fulfilled',
+      guards: [deliveredBy('deliverBy')],
+      automatic: true
+    },
+    {
+      name: 'breach',
+      label: 'Mark breached',
+      from: ['active'],
+      to: 'breached',
+      guards: [deliveryDeadlineMissed('deliverBy')],
+      automatic: true
+    },
+    {
+      name: 'expire',
+      label: 'Expire',
+      from: ['draft'],
+      to: 'expired',
+      guards: [termDatePassed('expiresAt')],
+      automatic: true
+    },
+    terminate
+  ]
+};
+
+// A standing agreement between parties, such as a carrier's frame contract.
+// It runs from startsAt to endsAt; the parties declare it fulfilled or breached.
+const serviceAgreement: ContractDefinition = {
+  type: 'service_agreement',
+  title: 'Service agreement',
+  states: ['draft', 'active', 'fulfilled', 'breached', 'terminated', 'expired'],
+  requiresShipment: false,
+  validateTerms: (terms) =>
+    validateDateTerm(terms, 'startsAt', false) ??
+    validateDateTerm(terms, 'endsAt', true) ??
+    (isDate(terms.startsAt) && Date.parse(terms.startsAt as string) >= Date.parse(terms.endsAt as string)
+      ? 'terms.endsAt must be after terms.startsAt'
+      : null),
+  transitions: [
+    {
+      name: 'activate',
+      label: 'Activate',
+      from: ['draft'],
+      to: 'active',
+      guards: [termDateReached('startsAt'), termDateNotPassed('endsAt')],
+      automatic: false
+    },
+    {
+      name: 'fulfil',
+      label: 'Mark fulfilled',
+      from: ['active'],
+      to: 'fulfilled',
+      guards: [],
+      automatic: false
+    },
+    {
+      name: 'breach',
+      label: 'Mark breached',
+      from: ['active'],
+      to: 'breached',
+      guards: [],
+      automatic: false,
+      requiresReason: true
+    },
+    {
+      name: 'expire',
+      label: 'Expire',
+      from: ['draft', 'active'],
+      to: 'expired',
+      guards: [termDatePassed('endsAt')],
+      automatic: true
+    },
+    terminate
+  ]
+};
+
+// Payment for one shipment, locked in the contract's account when it's funded
+// and paid to the carrier once the delivery and its proof are recorded, less
+// any refunds for a late or damaged delivery (see escrow.ts). Terminating a
+// funded escrow refunds the payer in full.
+const escrowContract: ContractDefinition = {
+  type: 'escrow',
+  title: 'Escrow payment',
+  states: ['draft', 'active', 'fulfilled', 'terminated'],
+  requiresShipment: true,
+  validateTerms: (terms) => {
+    if (typeof terms.amount !== 'number' || !Number.isFinite(terms.amount) || terms.amount <= 0) {
+      return 'terms.amount must be a positive number';
+    }
+    if (typeof terms.currency !== 'string' || !/^[A-Z]{3}$/.test(terms.currency)) {
+      return 'terms.currency must be a three-letter currency code';
+    }
+    if (typeof terms.payerId !== 'string' || !terms.payerId) return 'terms.payerId is required';
+    if (typeof terms.payeeId !== 'string' || !terms.payeeId) return 'terms.payeeId is required';
+    if (terms.payerId === terms.payeeId) return 'terms.payerId and terms.payeeId must differ';
+    return validateDateTerm(terms, 'deliverBy', true) ??
+      validatePercentTerm(terms, 'lateRefundPercentPerDay') ??
+      validatePercentTerm(terms, 'damageRefundPercent') ??
+      validatePercentTerm(terms, 'maxRefundPercent');
+  },
+  transitions: [
+    {
+      name: 'fund',
+      label: 'Fund',
+      from: ['draft'],
+      to: 'active',
+      guards: [shipmentStatusNotIn(['delivered', 'cancelled'])],
+      automatic: false
+    },
+    {
+      name: 'release',
+      label: 'Release payment',
+      from: ['active'],
+      to: 'fulfilled',
+      guards: [deliveryEventRecorded, proofOfDeliveryRecorded],
+      automatic: true
+    },
+    terminate
+  ]
+};
+
+// A service level for one shipment's delivery. Once the shipment is delivered
+// the contract is met, or breached and a penalty charged to the responsible
+// driver or carrier for the time late beyond the grace period, not counting
+// delays with an excluded cause such as a weather alert (see sla.ts).
+const slaContract: ContractDefinition = {
+  type: 'sla',
+  title: 'Service level agreement',
+  states: ['draft', 'active', 'fulfilled', 'breached', 'terminated'],
+  requiresShipment: true,
+  validateTerms: (terms) => {
+    if (typeof terms.currency !== 'string' || !/^[A-Z]{3}$/.test(terms.currency)) {
+      return 'terms.currency must be a three-letter currency code';
+    }
+    if (typeof terms.responsibleId !== 'string' || !terms.responsibleId) return 'terms.responsibleId is required';
+    if (typeof terms.penaltyRate !== 'number' || !Number.isFinite(terms.penaltyRate) || terms.penaltyRate <= 0) {
+      return 'terms.penaltyRate must be a positive number';
+    }
+    if (!SLA_PENALTY_UNITS.includes(terms.penaltyUnit as string)) {
+      return `terms.penaltyUnit must be one of ${SLA_PENALTY_UNITS.join(', ')}`;
+    }
+    if (terms.gracePeriodHours !== undefined &&
+      (typeof terms.gracePeriodHours !== 'number' || !Number.isFinite(terms.gracePeriodHours) || terms.gracePeriodHours < 0)) {
+      return 'terms.gracePeriodHours must be a number of hours';
+    }
+    if (terms.maxPenalty !== undefined &&
+      (typeof terms.maxPenalty !== 'number' || !Number.isFinite(terms.maxPenalty) || terms.maxPenalty <= 0)) {
+      return 'terms.maxPenalty must be a positive number';
+    }
+    if (terms.excludedCauses !== undefined &&
+      (!Array.isArray(terms.excludedCauses) || terms.excludedCauses.some((cause) => !DELAY_CAUSES.includes(cause)))) {
+      return `terms.excludedCauses must list causes from ${DELAY_CAUSES.join(', ')}`;
+    }
+    return validateDateTerm(terms, 'deliverBy', true);
+  },
+  transitions: [
+    {
+      name: 'activate',
+      label: 'Activate',
+      from: ['draft'],
+      to: 'active',
+      guards: [shipmentStatusNotIn(['delivered', 'cancelled'])],
+      automatic: false
+    },
+    {
+      name: 'meet',
+      label: 'Mark met',
+      from: ['active'],
+      to: 'fulfilled',
+      guards: [withinSla],
+      automatic: true
+    },
+    {
+      name: 'penalize',
+      label: 'Charge penalty',
+      from: ['active'],
+      to: 'breached',
+      guards: [slaMissed],
+      automatic: true
+    },
+    terminate
+  ]
+};
+
+// Temperature and humidity limits for a temperature-sensitive shipment, from
+// its product type's profile. Every sensor reading is checked as it arrives;
+// once the readings have been out of range for longer in total than allowed,
+// the contract is breached and a claim is opened against the responsible
+// carrier (see coldChain.ts). A delivery within the limits fulfils it.
+const coldChainContract: ContractDefinition = {
+  type: 'cold_chain',
+  title: 'Cold-chain compliance',
+  states: ['draft', 'active', 'fulfilled', 'breached', 'terminated'],
+  requiresShipment: true,
+  validateTerms: (terms) => {
+    if (typeof terms.productType !== 'string' || !terms.productType) return 'terms.productType is required';
+    if (typeof terms.responsibleId !== 'string' || !terms.responsibleId) return 'terms.responsibleId is required';
+    for (const key of ['minTemperature', 'maxTemperature', 'minHumidity', 'maxHumidity']) {
+      const required = key.endsWith('Temperature');
+      if (terms[key] === undefined && !required) continue;
+      if (typeof terms[key] !== 'number' || !Number.isFinite(terms[key])) return `terms.${key} must be a number`;
+    }
+    if ((terms.minTemperature as number) >= (terms.maxTemperature as number)) {
+      return 'terms.maxTemperature must be above terms.minTemperature';
+    }
+    if (validatePercentTerm(terms, 'minHumidity') || validatePercentTerm(terms, 'maxHumidity')) {
+      return 'terms.minHumidity and terms.maxHumidity must be percentages between 0 and 100';
+    }
+    if (typeof terms.minHumidity === 'number' && typeof terms.maxHumidity === 'number' && terms.minHumidity >= terms.maxHumidity) {
+      return 'terms.maxHumidity must be above terms.minHumidity';
+    }
+    if (typeof terms.maxExcursionMinutes !== 'number' || !Number.isInteger(terms.maxExcursionMinutes) || terms.maxExcursionMinutes < 0) {
+      return 'terms.maxExcursionMinutes must be a whole number of minutes';
+    }
+    return null;
+  },
+  transitions: [
+    {
+      name: 'activate',
+      label: 'Activate',
+      from: ['draft'],
+      to: 'active',
+      guards: [shipmentStatusNotIn(['delivered', 'cancelled'])],
+      automatic: false
+    },
+    {
+      name: 'certify',
+      label: 'Certify compliance',
+      from: ['active'],
+      to: 'fulfilled',
+      guards: [withinColdChainLimits],
+      automatic: true
+    },
+    {
+      name: 'breach',
+      label: 'Open claim',
+      from: ['active'],
+      to: 'breached',
+      guards: [excursionLimitExceeded],
+      automatic: true
+    },
+    terminate
+  ]
+};
+
+export const CONTRACT_DEFINITIONS: Record<string, ContractDefinition> = {
+  [deliveryContract.type]: deliveryContract,
+  [serviceAgreement.type]: serviceAgreement,
+  [escrowContract.type]: escrowContract,
+  [slaContract.type]: slaContract,
+  [coldChainContract.type]: coldChainContract
+};
+
+export function getContractDefinition(contractType: string): ContractDefinition | null {
+  return CONTRACT_DEFINITIONS[contractType] ?? null;
+}
+
+// States with no way out
+export function isFinalState(definition: ContractDefinition, state: string): boolean {
+  return !definition.transitions.some((transition) => transition.from.includes(state as ContractState));
+}
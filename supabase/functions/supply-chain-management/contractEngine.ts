@@ -0,0 +1,433 @@
+// Runs smart contracts through the state machines in contractDefinitions.ts
+//
+// A transition only runs when the contract is in one of its from states and
+// every guard passes. The status is claimed with a conditional update, so two
+// callers can't move the same contract at once; the transition is then
+// recorded on the ledger and in contract_transitions, which together are the
+// contract's history.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { LedgerReceipt, recordOnLedger } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import { Caller, isManager } from '../_shared/auth.ts';
+import {
+  CONTRACT_DEFINITIONS,
+  ContractContext,
+  ContractDefinition,
+  ContractSensorReading,
+  ContractShipment,
+  ContractShipmentDocument,
+  ContractShipmentEvent,
+  ContractTransition,
+  GuardOutcome,
+  getContractAddress,
+  getContractDefinition
+} from './contractDefinitions.ts';
+import { settleEscrow } from './escrow.ts';
+import { settleSla } from './sla.ts';
+import { settleColdChain } from './coldChain.ts';
+
+export const CONTRACT_TRANSITION_OPERATION = 'contract_transition';
+
+export interface SmartContract {
+  id: string;
+  contract_id: string;
+  contract_type: string;
+  parties: string[];
+  terms: Record<string, unknown>;
+  status: string;
+  shipment_id: string | null;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContractTransitionRecord {
+  id: string;
+  contract_id: string;
+  transition: string;
+  from_status: string;
+  to_status: string;
+  guards: GuardOutcome[];
+  reason: string | null;
+  triggered_by: string | null;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+// A transition out of the contract's current state and whether its guards pass now
+export interface TransitionOption {
+  name: string;
+  label: string;
+  to: string;
+  automatic: boolean;
+  requiresReason: boolean;
+  guards: GuardOutcome[];
+  allowed: boolean;
+}
+
+// Raised when a request is invalid (400), the caller isn't a party (403), a
+// contract can't be found (404) or a transition isn't possible right now (409)
+export class ContractError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ContractError';
+  }
+}
+
+// Evaluation stops after this many automatic transitions, in case two definitions' guards ever loop
+const MAX_AUTOMATIC_STEPS = 10;
+
+const SHIPMENT_COLUMNS = 'id, status, customer_id, assigned_driver_id, planned_departure_date, estimated_arrival_date, actual_arrival_date';
+
+// What a contract type does with its funds, or the charges and claims it
+// makes, after a transition. Settlements compare what the contract's state
+// calls for with what has been recorded and make up the difference, so running
+// one again is harmless.
+type ContractSettlement = (supabase: SupabaseClient, contract: SmartContract, context: ContractContext) => Promise<void>;
+
+const CONTRACT_SETTLEMENTS: Record<string, ContractSettlement> = {
+  escrow: settleEscrow,
+  sla: settleSla,
+  cold_chain: settleColdChain
+};
+
+function requireDefinition(contract: SmartContract): ContractDefinition {
+  const definition = getContractDefinition(contract.contract_type);
+  if (!definition) {
+    throw new ContractError(`Contracts of type ${contract.contract_type} have no state machine`, 409);
+  }
+  return definition;
+}
+
+// Check a new contract against its type; returns the problem, or null when it can be created
+export function validateNewContract(contractType: string, terms: unknown, shipmentId: string | null): string | null {
+  const definition = getContractDefinition(contractType);
+  if (!definition) {
+    return `contractType must be one of: ${Object.keys(CONTRACT_DEFINITIONS).join(', ')}`;
+  }
+  if (typeof terms !== 'object' || terms === null || Array.isArray(terms)) {
+    return 'terms must be an object';
+  }
+  if (definition.requiresShipment && !shipmentId) {
+    return `A ${definition.title.toLowerCase()} needs a shipment`;
+  }
+  return definition.validateTerms(terms as Record<string, unknown>);
+}
+
+// Deploy a contract: record it on the ledger, sent from the deployer's wallet, then store it as a draft
+export async function createContract(
+  supabase: SupabaseClient,
+  contract: { contractType: string; parties: string[]; terms: Record<string, unknown>; shipmentId: string | null },
+  deployerId: string | null
+): Promise<{ contract: SmartContract; receipt: LedgerReceipt }> {
+  const contractId = crypto.randomUUID();
+
+  const deployer = deployerId ? await ensureUserWallet(supabase, deployerId) : null;
+  const receipt = await recordOnLedger(supabase, {
+    from: deployer?.address,
+    operation: 'create_smart_contract',
+    to: getContractAddress(contractId),
+    payload: { contractId, contractType: contract.contractType, parties: contract.parties, terms: contract.terms }
+  });
+
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .insert({
+      contract_id: contractId,
+      contract_type: contract.contractType,
+      parties: contract.parties,
+      terms: contract.terms,
+      status: 'draft',
+      shipment_id: contract.shipmentId,
+      created_at: new Date(receipt.timestamp).toISOString(),
+      blockchain_tx_hash: receipt.transactionHash
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { contract: data as SmartContract, receipt };
+}
+
+export async function getContract(supabase: SupabaseClient, contractId: string): Promise<SmartContract> {
+  const { data, error } = await supabase
+    .from('smart_contracts')
+    .select('*')
+    .eq('id', contractId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ContractError('Contract not found', 404);
+  return data as SmartContract;
+}
+
+export async function getContractHistory(supabase: SupabaseClient, contractId: string): Promise<ContractTransitionRecord[]> {
+  const { data, error } = await supabase
+    .from('contract_transitions')
+    .select('*')
+    .eq('contract_id', contractId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as ContractTransitionRecord[];
+}
+
+// The contract's terms and its shipment's data, as guards and settlements see them
+export async function loadContext(supabase: SupabaseClient, contract: SmartContract): Promise<ContractContext> {
+  const context: ContractContext = {
+    terms: contract.terms ?? {},
+    shipment: null,
+    events: [],
+    documents: [],
+    readings: [],
+    now: new Date()
+  };
+  if (!contract.shipment_id) return context;
+
+  const [shipment, events, documents, readings] = await Promise.all([
+    supabase.from('shipments').select(SHIPMENT_COLUMNS).eq('id', contract.shipment_id).maybeSingle(),
+    supabase
+      .from('shipment_events')
+      .select('event_type, data, created_at')
+      .eq('shipment_id', contract.shipment_id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('shipment_documents')
+      .select('document_type, document_hash, created_at')
+      .eq('shipment_id', contract.shipment_id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('sensor_data')
+      .select('id, timestamp, temperature, humidity')
+      .eq('shipment_id', contract.shipment_id)
+      .order('timestamp', { ascending: true })
+  ]);
+
+  for (const result of [shipment, events, documents, readings]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    ...context,
+    shipment: shipment.data as ContractShipment | null,
+    events: (events.data || []) as ContractShipmentEvent[],
+    documents: (documents.data || []) as ContractShipmentDocument[],
+    readings: (readings.data || []) as ContractSensorReading[]
+  };
+}
+
+function checkGuards(transition: ContractTransition, context: ContractContext): GuardOutcome[] {
+  return transition.guards.map((guard) => ({ guard: guard.name, ...guard.check(context) }));
+}
+
+function transitionsFrom(definition: ContractDefinition, status: string): ContractTransition[] {
+  return definition.transitions.filter((transition) => transition.from.some((state) => state === status));
+}
+
+// Every transition out of the contract's current state, with its guards checked against the data as it is now
+export async function getTransitionOptions(supabase: SupabaseClient, contract: SmartContract): Promise<TransitionOption[]> {
+  const definition = getContractDefinition(contract.contract_type);
+  if (!definition) return [];
+
+  const context = await loadContext(supabase, contract);
+  return transitionsFrom(definition, contract.status).map((transition) => {
+    const guards = checkGuards(transition, context);
+    return {
+      name: transition.name,
+      label: transition.label,
+      to: transition.to,
+      automatic: transition.automatic,
+      requiresReason: transition.requiresReason ?? false,
+      guards,
+      allowed: guards.every((guard) => guard.passed)
+    };
+  });
+}
+
+// Claim the status change, record it on the ledger, then add it to the history
+async function runTransition(
+  supabase: SupabaseClient,
+  contract: SmartContract,
+  transition: ContractTransition,
+  guards: GuardOutcome[],
+  triggeredBy: string | null,
+  reason: string | null
+): Promise<{ contract: SmartContract; transition: ContractTransitionRecord }> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('smart_contracts')
+    .update({ status: transition.to, updated_at: new Date().toISOString() })
+    .eq('id', contract.id)
+    .eq('status', contract.status)
+    .select()
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) {
+    throw new ContractError(`The contract is no longer ${contract.status}`, 409);
+  }
+
+  let transactionHash: string;
+  try {
+    const sender = triggeredBy ? await ensureUserWallet(supabase, triggeredBy) : null;
+    const receipt = await recordOnLedger(supabase, {
+      from: sender?.address,
+      to: getContractAddress(contract.contract_id),
+      operation: CONTRACT_TRANSITION_OPERATION,
+      payload: {
+        contractId: contract.contract_id,
+        contractType: contract.contract_type,
+        shipmentId: contract.shipment_id,
+        transition: transition.name,
+        from: contract.status,
+        to: transition.to,
+        guards,
+        reason
+      }
+    });
+    transactionHash = receipt.transactionHash;
+  } catch (error) {
+    // Put the status back, so the contract never moves without a ledger entry
+    await supabase
+      .from('smart_contracts')
+      .update({ status: contract.status })
+      .eq('id', contract.id)
+      .eq('status', transition.to);
+    throw error;
+  }
+
+  const { data: record, error: recordError } = await supabase
+    .from('contract_transitions')
+    .insert({
+      contract_id: contract.id,
+      transition: transition.name,
+      from_status: contract.status,
+      to_status: transition.to,
+      guards,
+      reason,
+      triggered_by: triggeredBy,
+      blockchain_tx_hash: transactionHash
+    })
+    .select()
+    .single();
+
+  if (recordError) throw recordError;
+  return { contract: claimed as SmartContract, transition: record as ContractTransitionRecord };
+}
+
+// Managers, the contract's parties and the customer and driver of its shipment
+function isContractParty(caller: Caller, contract: SmartContract, context: ContractContext): boolean {
+  if (isManager(caller) || caller.kind !== 'user') return true;
+  return contract.parties.includes(caller.userId) ||
+    context.shipment?.customer_id === caller.userId ||
+    context.shipment?.assigned_driver_id === caller.userId;
+}
+
+export async function canChangeContract(supabase: SupabaseClient, caller: Caller, contract: SmartContract): Promise<boolean> {
+  return isContractParty(caller, contract, await loadContext(supabase, contract));
+}
+
+// Run a named transition the caller asked for
+export async function transitionContract(
+  supabase: SupabaseClient,
+  caller: Caller,
+  contract: SmartContract,
+  transitionName: string,
+  reason: string | null
+): Promise<{ contract: SmartContract; transition: ContractTransitionRecord }> {
+  const definition = requireDefinition(contract);
+  const context = await loadContext(supabase, contract);
+  if (!isContractParty(caller, contract, context)) {
+    throw new ContractError('Only managers and the contract\'s parties can change it', 403);
+  }
+
+  const transition = definition.transitions.find((t) => t.name === transitionName);
+  if (!transition) {
+    throw new ContractError(`${definition.title} has no ${transitionName} transition`, 400);
+  }
+  if (!transition.from.some((state) => state === contract.status)) {
+    throw new ContractError(`Cannot ${transition.name} a contract that is ${contract.status}`, 409);
+  }
+  if (transition.requiresReason && !reason) {
+    throw new ContractError(`A reason is required to ${transition.name} the contract`, 400);
+  }
+
+  const guards = checkGuards(transition, context);
+  const failed = guards.filter((guard) => !guard.passed);
+  if (failed.length > 0) {
+    throw new ContractError(`Cannot ${transition.name} the contract: ${failed.map((guard) => guard.detail).join('; ')}`, 409);
+  }
+
+  const triggeredBy = caller.kind === 'user' ? caller.userId : null;
+  const result = await runTransition(supabase, contract, transition, guards, triggeredBy, reason);
+  await settleContract(supabase, result.contract);
+  return result;
+}
+
+// Make the contract's funds and charges match its state; a no-op for types that have none
+export async function settleContract(supabase: SupabaseClient, contract: SmartContract): Promise<void> {
+  const settle = CONTRACT_SETTLEMENTS[contract.contract_type];
+  if (settle) await settle(supabase, contract, await loadContext(supabase, contract));
+}
+
+// Apply every automatic transition whose guards pass, in turn, until none does
+export async function evaluateContract(supabase: SupabaseClient, contract: SmartContract): Promise<ContractTransitionRecord[]> {
+  const definition = getContractDefinition(contract.contract_type);
+  if (!definition) return [];
+
+  const applied: ContractTransitionRecord[] = [];
+  let current = contract;
+
+  for (let step = 0; step < MAX_AUTOMATIC_STEPS; step++) {
+    const context = await loadContext(supabase, current);
+    const next = transitionsFrom(definition, current.status)
+      .filter((transition) => transition.automatic)
+      .map((transition) => ({ transition, guards: checkGuards(transition, context) }))
+      .find(({ guards }) => guards.every((guard) => guard.passed));
+    if (!next) break;
+
+    try {
+      const result = await runTransition(supabase, current, next.transition, next.guards, null, null);
+      applied.push(result.transition);
+      current = result.contract;
+    } catch (error) {
+      // Someone else moved the contract first; their transition stands
+      if (error instanceof ContractError && error.status === 409) break;
+      throw error;
+    }
+  }
+
+  return applied;
+}
+
+// Evaluate every contract that can still move, or only those on one shipment.
+// Contracts that hold funds are settled too, which also catches up on any
+// settlement that failed after its transition was recorded.
+export async function evaluateContracts(
+  supabase: SupabaseClient,
+  shipmentId?: string
+): Promise<{ contractId: string; transitions: ContractTransitionRecord[] }[]> {
+  let query = supabase
+    .from('smart_contracts')
+    .select('*')
+    .or(`status.in.(draft,active),contract_type.in.(${Object.keys(CONTRACT_SETTLEMENTS).join(',')})`)
+    .order('created_at', { ascending: true });
+  if (shipmentId) query = query.eq('shipment_id', shipmentId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const results = [];
+  for (const contract of (data || []) as SmartContract[]) {
+    const transitions = await evaluateContract(supabase, contract);
+    if (transitions.length > 0) results.push({ contractId: contract.id, transitions });
+
+    try {
+      await settleContract(supabase, transitions.length > 0 ? await getContract(supabase, contract.id) : contract);
+    } catch (settleError) {
+      // Left for the next evaluation, so one contract can't hold up the rest
+      console.error(`Error settling contract ${contract.id}:`, settleError);
+    }
+  }
+  return results;
+}
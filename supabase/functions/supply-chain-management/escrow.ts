@@ -0,0 +1,227 @@
+// Escrow payments for the 'escrow' contract type (see contractDefinitions.ts)
+//
+// Funding the contract moves the agreed amount from the payer's wallet into the
+// contract's account. When the contract is fulfilled, the account pays the
+// carrier what's due and refunds the payer whatever a late or damaged delivery
+// takes off; when it's terminated, the payer gets everything back. Each
+// movement is its own ledger entry, so balances can be worked out from the
+// ledger alone, and a row in escrow_movements, keyed by contract and kind, so
+// a movement can't be paid twice.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { recordOnLedger } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import { ContractContext, findDeliveryEvent, getContractAddress, getDeliveredAt } from './contractDefinitions.ts';
+import type { SmartContract } from './contractEngine.ts';
+
+export type EscrowMovementKind = 'deposit' | 'release' | 'refund';
+
+export const ESCROW_OPERATIONS: Record<EscrowMovementKind, string> = {
+  deposit: 'escrow_deposit',
+  release: 'escrow_release',
+  refund: 'escrow_refund'
+};
+
+export interface EscrowTerms {
+  amount: number;
+  currency: string;
+  payerId: string;
+  // The carrier
+  payeeId: string;
+  deliverBy: string;
+  // Refunded for each day, or part of one, the delivery is late
+  lateRefundPercentPerDay?: number;
+  // Refunded when the delivery is recorded as damaged
+  damageRefundPercent?: number;
+  // Cap on the refunds together
+  maxRefundPercent?: number;
+}
+
+// What a fulfilled escrow pays out
+export interface EscrowSettlement {
+  deliveredAt: string | null;
+  lateDays: number;
+  damaged: boolean;
+  refundPercent: number;
+  refund: number;
+  release: number;
+}
+
+interface EscrowMovementRow {
+  id: string;
+  kind: EscrowMovementKind;
+  amount: number;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A movement claimed this long ago without a ledger entry is taken to have been abandoned
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// How a fulfilled escrow splits between carrier and payer, from the delivery as recorded
+export function computeEscrowSettlement(terms: EscrowTerms, context: ContractContext): EscrowSettlement {
+  const deliveredAt = getDeliveredAt(context);
+
+  const lateMs = deliveredAt ? Date.parse(deliveredAt) - Date.parse(terms.deliverBy) : 0;
+  const lateDays = lateMs > 0 ? Math.ceil(lateMs / DAY_MS) : 0;
+  const damaged = findDeliveryEvent(context.events)?.data.condition === 'damaged';
+
+  const refundPercent = Math.min(
+    lateDays * (terms.lateRefundPercentPerDay ?? 0) + (damaged ? terms.damageRefundPercent ?? 0 : 0),
+    terms.maxRefundPercent ?? 100
+  );
+  const refund = roundAmount(terms.amount * refundPercent / 100);
+
+  return { deliveredAt, lateDays, damaged, refundPercent, refund, release: roundAmount(terms.amount - refund) };
+}
+
+// Record whatever movements the contract's state calls for and hasn't had yet
+export async function settleEscrow(supabase: SupabaseClient, contract: SmartContract, context: ContractContext): Promise<void> {
+  const terms = contract.terms as unknown as EscrowTerms;
+  const movements = await getMovements(supabase, contract.id);
+  const has = (kind: EscrowMovementKind) => movements.some((movement) => movement.kind === kind);
+
+  switch (contract.status) {
+    case 'active':
+      if (!has('deposit')) await recordMovement(supabase, contract, 'deposit', terms.amount, {});
+      break;
+
+    case 'fulfilled': {
+      if (!has('deposit')) await recordMovement(supabase, contract, 'deposit', terms.amount, {});
+
+      const settlement = computeEscrowSettlement(terms, context);
+      const details = { lateDays: settlement.lateDays, damaged: settlement.damaged };
+      if (settlement.release > 0 && !has('release')) {
+        await recordMovement(supabase, contract, 'release', settlement.release, { ...details, refunded: settlement.refund });
+      }
+      if (settlement.refund > 0 && !has('refund')) {
+        const reason = settlement.lateDays > 0 && settlement.damaged
+          ? 'late_and_damaged'
+          : settlement.damaged ? 'damaged' : 'late';
+        await recordMovement(supabase, contract, 'refund', settlement.refund, { ...details, reason });
+      }
+      break;
+    }
+
+    case 'terminated': {
+      // Only what was paid in goes back
+      const deposit = movements.find((movement) => movement.kind === 'deposit' && movement.blockchain_tx_hash);
+      if (deposit && !has('refund')) {
+        await recordMovement(supabase, contract, 'refund', Number(deposit.amount), { reason: 'terminated' });
+      }
+      break;
+    }
+  }
+}
+
+async function getMovements(supabase: SupabaseClient, contractId: string): Promise<EscrowMovementRow[]> {
+  const { data, error } = await supabase
+    .from('escrow_movements')
+    .select('id, kind, amount, blockchain_tx_hash, created_at')
+    .eq('contract_id', contractId);
+
+  if (error) throw error;
+
+  const movements = [];
+  for (const movement of (data || []) as EscrowMovementRow[]) {
+    if (movement.blockchain_tx_hash || Date.now() - Date.parse(movement.created_at) < STALE_CLAIM_MS) {
+      movements.push(movement);
+    } else if (await recoverMovement(supabase, movement)) {
+      movements.push(movement);
+    }
+  }
+  return movements;
+}
+
+// A claim left without a ledger entry: keep it if the entry was written after all, otherwise drop it to be paid again
+async function recoverMovement(supabase: SupabaseClient, movement: EscrowMovementRow): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('ledger_transactions')
+    .select('tx_hash')
+    .eq('operation', ESCROW_OPERATIONS[movement.kind])
+    .eq('payload->>movementId', movement.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (data) {
+    await supabase.from('escrow_movements').update({ blockchain_tx_hash: data.tx_hash }).eq('id', movement.id);
+    return true;
+  }
+
+  await supabase.from('escrow_movements').delete().eq('id', movement.id).is('blockchain_tx_hash', null);
+  return false;
+}
+
+// Claim the movement, record it on the ledger, then note its transaction
+async function recordMovement(
+  supabase: SupabaseClient,
+  contract: SmartContract,
+  kind: EscrowMovementKind,
+  amount: number,
+  details: Record<string, unknown>
+): Promise<void> {
+  const terms = contract.terms as unknown as EscrowTerms;
+  const accountAddress = getContractAddress(contract.contract_id);
+  const partyId = kind === 'release' ? terms.payeeId : terms.payerId;
+
+  const wallet = await ensureUserWallet(supabase, partyId);
+  if (!wallet) throw new Error(`User ${partyId} has no wallet to move escrow funds with`);
+
+  const [from, to] = kind === 'deposit' ? [wallet.address, accountAddress] : [accountAddress, wallet.address];
+
+  const { data: claim, error: claimError } = await supabase
+    .from('escrow_movements')
+    .insert({
+      contract_id: contract.id,
+      shipment_id: contract.shipment_id,
+      kind,
+      amount,
+      currency: terms.currency,
+      user_id: partyId,
+      from_address: from,
+      to_address: to
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    // Another settlement is already making this movement
+    if (claimError.code === '23505') return;
+    throw claimError;
+  }
+
+  let transactionHash: string;
+  try {
+    const receipt = await recordOnLedger(supabase, {
+      from,
+      to,
+      operation: ESCROW_OPERATIONS[kind],
+      payload: {
+        movementId: claim.id,
+        contractId: contract.contract_id,
+        shipmentId: contract.shipment_id,
+        payerId: terms.payerId,
+        payeeId: terms.payeeId,
+        amount,
+        currency: terms.currency,
+        ...details
+      }
+    });
+    transactionHash = receipt.transactionHash;
+  } catch (error) {
+    await supabase.from('escrow_movements').delete().eq('id', claim.id);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('escrow_movements')
+    .update({ blockchain_tx_hash: transactionHash })
+    .eq('id', claim.id);
+
+  if (updateError) throw updateError;
+}
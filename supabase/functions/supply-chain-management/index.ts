@@ -3,6 +3,45 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { PayloadSchemaError, canonicalize, recordOnLedger, sha256Hex } from '../_shared/ledger.ts';
+import { validateEventData } from '../_shared/payloadSchemas.ts';
+import {
+  EXTERNAL_PARTICIPANT_ROLES,
+  EventStatement,
+  ParticipantKey,
+  checkStatementSignature,
+  ensureUserParticipantKey,
+  getParticipantKey,
+  isValidPublicKey,
+  registerExternalParticipant,
+  signStatement,
+  verifyStatement
+} from '../_shared/signing.ts';
+import { deriveWalletAddress, ensureUserWallet } from '../_shared/wallets.ts';
+import {
+  AuthorizationError,
+  Caller,
+  assertShipmentAccess,
+  authenticateRequest,
+  authorizeAction,
+  isManager
+} from '../_shared/auth.ts';
+import { findApprovalPolicy } from '../approvals/approvals.ts';
+import { buildTamperReport } from './tamperReport.ts';
+import { buildAuditBundle } from './auditBundle.ts';
+import { COLD_CHAIN_PROFILES, PROOF_OF_DELIVERY_DOCUMENT, getContractAddress } from './contractDefinitions.ts';
+import {
+  ContractError,
+  createContract,
+  evaluateContracts,
+  getContract,
+  getContractHistory,
+  canChangeContract,
+  getTransitionOptions,
+  transitionContract,
+  validateNewContract
+} from './contractEngine.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +56,12 @@ interface ShipmentEvent {
   transactionHash?: string;
 }
 
+// The shipments columns that name who a shipment belongs to
+interface ShipmentOwners {
+  customer_id: string | null;
+  assigned_driver_id: string | null;
+}
+
 interface BlockchainRecord {
   success: boolean;
   transactionHash: string;
@@ -24,11 +69,84 @@ interface BlockchainRecord {
   data?: any;
 }
 
+// Actions on one shipment, checked for ownership before they run
+const SHIPMENT_ACTIONS = [
+  'record_event',
+  'record_sensor_reading',
+  'verify_product_history',
+  'export_audit_bundle',
+  'transfer_ownership',
+  'add_document'
+];
+
+// Actions signed by participantId
+const SIGNED_ACTIONS = ['record_event', 'transfer_ownership', 'add_document'];
+
 interface SupplyChainParticipant {
   id: string;
   name: string;
   role: 'supplier' | 'manufacturer' | 'distributor' | 'retailer' | 'customer' | 'regulator';
-  publicKey: string;
+  // P-256 public key as a JWK; omit when registering to have a custodial key pair generated
+  publicKey?: JsonWebKey;
+}
+
+// Participants that sign their own statements send transferTime and reason
+// (or documentId and timestamp) so the server records exactly what they signed
+interface TransferEventData {
+  fromParticipant: string;
+  toParticipant: string;
+  transferTime?: string;
+  reason?: string;
+}
+
+// The payer and carrier come from the shipment; deliverBy defaults to its estimated arrival
+interface EscrowRequestData {
+  amount: number;
+  currency: string;
+  deliverBy?: string;
+  lateRefundPercentPerDay?: number;
+  damageRefundPercent?: number;
+  maxRefundPercent?: number;
+}
+
+// The responsible party defaults to the shipment's driver and deliverBy to its estimated arrival
+interface SlaRequestData {
+  currency: string;
+  penaltyRate: number;
+  penaltyUnit: 'hour' | 'day';
+  responsibleId?: string;
+  deliverBy?: string;
+  gracePeriodHours?: number;
+  maxPenalty?: number;
+  excludedCauses?: string[];
+}
+
+// The limits come from the product type's profile unless given; the responsible party defaults to the driver
+interface ColdChainRequestData {
+  productType: string;
+  responsibleId?: string;
+  minTemperature?: number;
+  maxTemperature?: number;
+  minHumidity?: number;
+  maxHumidity?: number;
+  maxExcursionMinutes?: number;
+}
+
+// A reading from the shipment's sensors; timestamp defaults to now
+interface SensorReadingData {
+  timestamp?: string;
+  temperature?: number;
+  humidity?: number;
+  shockDetected?: boolean;
+  latitude?: number;
+  longitude?: number;
+  batteryLevel?: number;
+}
+
+interface DocumentEventData {
+  documentType: string;
+  documentId?: string;
+  timestamp?: string;
 }
 
 serve(async (req) => {
@@ -40,7 +158,7 @@ serve(async (req) => {
   }
   
   try {
-    const { action, shipmentId, eventData, participantId, documentHash, query } = await req.json();
+    const { action, shipmentId, contractId, eventData, participantId, documentHash, query, signature } = await req.json();
     
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
@@ -49,24 +167,61 @@ serve(async (req) => {
     
     console.log(`Supply Chain Management function called with action: ${action}`);
     
+    // Only callers whose role allows the action, on shipments they may act on
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'supply-chain-management', action);
+    if (SHIPMENT_ACTIONS.includes(action)) {
+      await assertShipmentAccess(supabase, caller, shipmentId);
+    }
+    if (SIGNED_ACTIONS.includes(action)) {
+      await assertCanSignAs(supabase, caller, participantId);
+    }
+    
     switch (action) {
+      case 'register_participant':
+        return await registerParticipant({ ...eventData, id: participantId }, supabase);
+        
       case 'record_event':
-        return await recordSupplyChainEvent(shipmentId, eventData, supabase);
+        return await recordSupplyChainEvent(shipmentId, eventData, participantId, signature, supabase);
         
       case 'verify_product_history':
         return await verifyProductHistory(shipmentId, supabase);
         
+      case 'export_audit_bundle':
+        return await exportAuditBundle(shipmentId, supabase);
+        
       case 'transfer_ownership':
-        return await transferOwnership(shipmentId, eventData.fromParticipant, eventData.toParticipant, supabase);
+        return await transferOwnership(shipmentId, eventData, participantId, signature, supabase);
         
       case 'add_document':
-        return await addDocumentToShipment(shipmentId, documentHash, eventData.documentType, supabase);
+        return await addDocumentToShipment(shipmentId, documentHash, eventData, participantId, signature, supabase);
         
       case 'create_smart_contract':
-        return await createSmartContract(eventData.contractType, eventData.parties, eventData.terms, supabase);
+        return await createSmartContract(eventData.contractType, eventData.parties, eventData.terms, shipmentId ?? null, supabase, caller.kind === 'user' ? caller.userId : null);
+        
+      case 'open_escrow':
+        return await openEscrow(shipmentId, eventData, caller, supabase);
+        
+      case 'open_sla':
+        return await openSla(shipmentId, eventData, caller, supabase);
+        
+      case 'open_cold_chain':
+        return await openColdChain(shipmentId, eventData, caller, supabase);
+        
+      case 'record_sensor_reading':
+        return await recordSensorReading(shipmentId, eventData, supabase);
+        
+      case 'transition_contract':
+        return await runContractTransition(contractId, eventData?.transition, eventData?.reason ?? null, caller, supabase);
+        
+      case 'evaluate_contracts':
+        return await evaluateShipmentContracts(shipmentId, supabase);
+        
+      case 'get_contract':
+        return await getContractDetails(contractId, caller, supabase);
         
       case 'query_supply_chain':
-        return await querySupplyChain(query, supabase);
+        return await querySupplyChain(query, caller, supabase);
         
       default:
         return new Response(
@@ -82,6 +237,19 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return errorResponse(error.message, error.status);
+    }
+    
+    if (error instanceof ContractError) {
+      return errorResponse(error.message, error.status);
+    }
+    
+    // A ledger payload that doesn't match the schema registered for its operation
+    if (error instanceof PayloadSchemaError) {
+      return errorResponse(error.message, 400);
+    }
+    
     console.error("Error:", error);
     
     return new Response(
@@ -97,9 +265,21 @@ serve(async (req) => {
   }
 });
 
-async function recordSupplyChainEvent(shipmentId: string, eventData: any, supabase: any): Promise<Response> {
+async function recordSupplyChainEvent(
+  shipmentId: string, 
+  eventData: any, 
+  participantId: string, 
+  signature: string | undefined, 
+  supabase: any
+): Promise<Response> {
   console.log(`Recording supply chain event for shipment ${shipmentId}:`, eventData);
   
+  // The event data must match the schema registered for its type
+  const schemaProblem = typeof eventData?.type === 'string'
+    ? validateEventData(eventData.type, eventData)
+    : 'eventData.type is required';
+  if (schemaProblem) return errorResponse(schemaProblem, 400);
+  
   try {
     // Validate the shipment exists
     const { data: shipment, error: shipmentError } = await supabase
@@ -110,40 +290,66 @@ async function recordSupplyChainEvent(shipmentId: string, eventData: any, supaba
       
     if (shipmentError) throw new Error('Shipment not found');
     
+    // Sign the event as the acting participant
+    const signed = await signAsParticipant(supabase, {
+      shipmentId,
+      eventType: eventData.type,
+      data: eventData,
+      signer: participantId
+    }, signature);
+    
+    if ('error' in signed) return errorResponse(signed.error, signed.status);
+    
+    // Anchor the event on the ledger first so the database row points at a real entry
+    const receipt = await recordOnLedger(supabase, {
+      from: signed.address,
+      operation: 'record_event',
+      payload: { shipmentId, eventType: eventData.type, data: eventData, signer: participantId, signature: signed.signature }
+    });
+    
     // Create the event record
     const event: ShipmentEvent = {
       shipmentId,
       eventType: eventData.type,
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(receipt.timestamp).toISOString(),
       data: eventData,
-      transactionHash: generateRandomHash() // In a real implementation, this would be a blockchain transaction hash
+      transactionHash: receipt.transactionHash
     };
     
-    // Record the event in the database (simulated)
-    // In a real implementation, this would also record the event on the blockchain
+    // Record the event in the database
     const { data: recordedEvent, error: eventError } = await supabase
       .from('shipment_events')
       .insert({
         shipment_id: event.shipmentId,
         event_type: event.eventType,
         data: event.data,
-        blockchain_tx_hash: event.transactionHash
+        blockchain_tx_hash: event.transactionHash,
+        signer_id: participantId,
+        signature: signed.signature
       })
       .select()
       .single();
       
     if (eventError) throw eventError;
     
-    // If this is a status update event, update the shipment status
-    if (event.eventType === 'status_updated') {
+    // If this is a status update event, update the shipment status; a delivery also sets the arrival time
+    const delivered = event.eventType === 'delivered' || (event.eventType === 'status_updated' && eventData.status === 'delivered');
+    if (event.eventType === 'status_updated' || delivered) {
+      const arrival = delivered && !shipment.actual_arrival_date
+        ? { actual_arrival_date: typeof eventData.deliveredAt === 'string' ? eventData.deliveredAt : event.timestamp }
+        : {};
       const { error: updateError } = await supabase
         .from('shipments')
-        .update({ status: eventData.status })
+        .update({ status: delivered ? 'delivered' : eventData.status, ...arrival })
         .eq('id', shipmentId);
         
       if (updateError) throw updateError;
     }
     
+    if (delivered) {
+      await evaluateAfterDelivery(shipmentId, supabase);
+    }
+    
     // Return success response with blockchain record
     return new Response(
       JSON.stringify({
@@ -151,9 +357,10 @@ async function recordSupplyChainEvent(shipmentId: string, eventData: any, supaba
         event: recordedEvent,
         blockchainRecord: {
           transactionHash: event.transactionHash,
-          blockNumber: Math.floor(Math.random() * 1000000) + 15000000,
+          blockNumber: receipt.blockNumber,
           timestamp: event.timestamp,
-          verified: true
+          verified: true,
+          signer: describeSigner(signed.signer)
         }
       }),
       {
@@ -188,17 +395,36 @@ async function verifyProductHistory(shipmentId: string, supabase: any): Promise<
       
     if (shipmentError) throw shipmentError;
     
-    // Verify each event on the blockchain (in a real implementation)
-    // Here we just simulate the verification
-    const verifiedEvents = events.map((event: any) => ({
-      ...event,
-      blockchain_verified: true,
-      verification_time: new Date().toISOString()
-    }));
+    // Compare every row with the ledger entry it claims, and the ledger with the rows
+    const tamperReport = await buildTamperReport(supabase, shipmentId, events);
+    const verificationTime = new Date().toISOString();
+    
+    const verifiedEvents = [];
+    for (const event of events) {
+      const signatureCheck = await checkStatementSignature(supabase, {
+        shipmentId: event.shipment_id,
+        eventType: event.event_type,
+        data: event.data,
+        signer: event.signer_id
+      }, event.signature);
+      
+      const ledgerCheck = tamperReport.checks[event.id];
+      verifiedEvents.push({
+        ...event,
+        blockchain_verified: ledgerCheck.status === 'intact',
+        verification_time: verificationTime,
+        ledgerCheck,
+        signatureCheck
+      });
+    }
+    
+    const countByStatus = (status: string) =>
+      verifiedEvents.filter((event) => event.signatureCheck.status === status).length;
     
-    // Check for any missing or potentially tampered events
-    // This is a simplified check for demonstration
+    // The history is complete when no anchored event is missing from the database
+    // and it covers creation (and delivery, once delivered)
     const isHistoryComplete = events.length > 0 && 
+      tamperReport.deletedEntries.length === 0 &&
       events.some((e: any) => e.event_type === 'created') &&
       (shipment.status === 'delivered' ? 
         events.some((e: any) => e.event_type === 'delivered') : 
@@ -211,9 +437,25 @@ async function verifyProductHistory(shipmentId: string, supabase: any): Promise<
         events: verifiedEvents,
         verification: {
           historyComplete: isHistoryComplete,
-          verifiedOnBlockchain: true,
-          timeOfVerification: new Date().toISOString(),
-          verificationHash: generateRandomHash()
+          verifiedOnBlockchain: tamperReport.clean,
+          allEventsSigned: verifiedEvents.every((event) => event.signatureCheck.status === 'valid'),
+          signatures: {
+            valid: countByStatus('valid'),
+            invalid: countByStatus('invalid'),
+            unsigned: countByStatus('unsigned'),
+            unknownSigner: countByStatus('unknown_signer')
+          },
+          timeOfVerification: verificationTime,
+          verificationHash: await sha256Hex(canonicalize(events)),
+          tamperReport: {
+            clean: tamperReport.clean,
+            checkedEvents: tamperReport.checkedEvents,
+            intactEvents: tamperReport.intactEvents,
+            tamperedEvents: tamperReport.tamperedEvents,
+            unanchoredEvents: tamperReport.unanchoredEvents,
+            deletedEntries: tamperReport.deletedEntries,
+            sequenceGaps: tamperReport.sequenceGaps
+          }
         }
       }),
       {
@@ -226,12 +468,33 @@ async function verifyProductHistory(shipmentId: string, supabase: any): Promise<
   }
 }
 
+async function exportAuditBundle(shipmentId: string, supabase: SupabaseClient): Promise<Response> {
+  console.log(`Exporting audit bundle for shipment ${shipmentId}`);
+  
+  if (!shipmentId) return errorResponse('shipmentId is required', 400);
+  
+  const bundle = await buildAuditBundle(supabase, shipmentId);
+  if (!bundle) return errorResponse(`Shipment ${shipmentId} not found`, 404);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      bundle
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
 async function transferOwnership(
   shipmentId: string, 
-  fromParticipantId: string, 
-  toParticipantId: string, 
+  eventData: TransferEventData, 
+  participantId: string, 
+  signature: string | undefined, 
   supabase: any
 ): Promise<Response> {
+  const { fromParticipant: fromParticipantId, toParticipant: toParticipantId } = eventData;
   console.log(`Transferring ownership of shipment ${shipmentId} from ${fromParticipantId} to ${toParticipantId}`);
   
   try {
@@ -243,13 +506,58 @@ async function transferOwnership(
       .single();
       
     if (shipmentError) throw new Error('Shipment not found');
+    if (shipment.customer_id !== fromParticipantId) {
+      return errorResponse('fromParticipant is not the current owner of the shipment', 409);
+    }
+    
+    const { data: newOwner, error: newOwnerError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', toParticipantId)
+      .maybeSingle();
+      
+    if (newOwnerError) throw newOwnerError;
+    if (!newOwner) return errorResponse(`User ${toParticipantId} not found`, 404);
     
-    // In a real implementation, verify that fromParticipant currently owns the shipment
-    // and that they've authorized this transfer
+    // Transfers an approval policy covers need its signatures; they go through
+    // the ledger outbox as blockchain-verify transfer_ownership operations
+    const policy = await findApprovalPolicy(supabase, 'transfer_ownership', {
+      transferData: { shipmentId, fromUserId: fromParticipantId, toUserId: toParticipantId }
+    });
+    if (policy) {
+      return errorResponse(`transfer_ownership needs approval (${policy.name}); submit it through the ledger outbox`, 403);
+    }
     
-    // Record the transfer event
-    const transferHash = generateRandomHash();
-    const transferTime = new Date().toISOString();
+    const transferTime = eventData.transferTime || new Date().toISOString();
+    const transferData = {
+      fromParticipant: fromParticipantId,
+      toParticipant: toParticipantId,
+      transferTime,
+      reason: eventData.reason || 'Standard supply chain handoff'
+    };
+    
+    const signed = await signAsParticipant(supabase, {
+      shipmentId,
+      eventType: 'ownership_transferred',
+      data: transferData,
+      signer: participantId
+    }, signature);
+    
+    if ('error' in signed) return errorResponse(signed.error, signed.status);
+    
+    // Record the transfer on the ledger
+    const receipt = await recordOnLedger(supabase, {
+      from: signed.address,
+      operation: 'transfer_ownership',
+      payload: {
+        shipmentId,
+        eventType: 'ownership_transferred',
+        data: transferData,
+        signer: participantId,
+        signature: signed.signature
+      }
+    });
+    const transferHash = receipt.transactionHash;
     
     // Create a shipment event for the transfer
     const { error: eventError } = await supabase
@@ -257,13 +565,10 @@ async function transferOwnership(
       .insert({
         shipment_id: shipmentId,
         event_type: 'ownership_transferred',
-        data: {
-          fromParticipant: fromParticipantId,
-          toParticipant: toParticipantId,
-          transferTime,
-          reason: 'Standard supply chain handoff'
-        },
-        blockchain_tx_hash: transferHash
+        data: transferData,
+        blockchain_tx_hash: transferHash,
+        signer_id: participantId,
+        signature: signed.signature
       });
       
     if (eventError) throw eventError;
@@ -272,7 +577,7 @@ async function transferOwnership(
     const { error: updateError } = await supabase
       .from('shipments')
       .update({ 
-        customer_id: toParticipantId, // Assuming customer_id is used to track current owner
+        customer_id: toParticipantId,
         updated_at: transferTime
       })
       .eq('id', shipmentId);
@@ -288,8 +593,9 @@ async function transferOwnership(
           toParticipant: toParticipantId,
           transferTime,
           transactionHash: transferHash,
-          blockNumber: Math.floor(Math.random() * 1000000) + 15000000,
-          status: 'confirmed'
+          blockNumber: receipt.blockNumber,
+          status: 'confirmed',
+          signer: describeSigner(signed.signer)
         }
       }),
       {
@@ -305,9 +611,12 @@ async function transferOwnership(
 async function addDocumentToShipment(
   shipmentId: string, 
   documentHash: string, 
-  documentType: string, 
+  eventData: DocumentEventData, 
+  participantId: string, 
+  signature: string | undefined, 
   supabase: any
 ): Promise<Response> {
+  const documentType = eventData.documentType;
   console.log(`Adding document of type ${documentType} to shipment ${shipmentId}`);
   
   try {
@@ -320,15 +629,48 @@ async function addDocumentToShipment(
       
     if (shipmentError) throw new Error('Shipment not found');
     
+    // The document id and time are part of the signed statement, so they are fixed up front
+    const documentEvent = {
+      documentId: eventData.documentId || crypto.randomUUID(),
+      documentType,
+      documentHash,
+      timestamp: eventData.timestamp || new Date().toISOString()
+    };
+    
+    const signed = await signAsParticipant(supabase, {
+      shipmentId,
+      eventType: 'document_added',
+      data: documentEvent,
+      signer: participantId
+    }, signature);
+    
+    if ('error' in signed) return errorResponse(signed.error, signed.status);
+    
+    // Anchor the document hash on the ledger
+    const receipt = await recordOnLedger(supabase, {
+      from: signed.address,
+      operation: 'add_document',
+      payload: {
+        shipmentId,
+        documentId: documentEvent.documentId,
+        documentType,
+        documentHash,
+        signer: participantId,
+        signature: signed.signature
+      }
+    });
+    
     // Record document in the database
     const { data: document, error: documentError } = await supabase
       .from('shipment_documents')
       .insert({
+        id: documentEvent.documentId,
         shipment_id: shipmentId,
         document_type: documentType,
         document_hash: documentHash,
         is_verified: true,
-        blockchain_tx_hash: generateRandomHash()
+        blockchain_tx_hash: receipt.transactionHash,
+        created_by: signed.signer.participantType === 'user' ? signed.signer.participantId : null
       })
       .select()
       .single();
@@ -341,26 +683,29 @@ async function addDocumentToShipment(
       .insert({
         shipment_id: shipmentId,
         event_type: 'document_added',
-        data: {
-          documentId: document.id,
-          documentType,
-          documentHash,
-          timestamp: new Date().toISOString()
-        },
-        blockchain_tx_hash: document.blockchain_tx_hash
+        data: documentEvent,
+        blockchain_tx_hash: document.blockchain_tx_hash,
+        signer_id: participantId,
+        signature: signed.signature
       });
       
     if (eventError) throw eventError;
     
+    if (documentType === PROOF_OF_DELIVERY_DOCUMENT) {
+      await evaluateAfterDelivery(shipmentId, supabase);
+    }
+    
     return new Response(
       JSON.stringify({
         success: true,
         document,
         blockchainRecord: {
           transactionHash: document.blockchain_tx_hash,
-          timestamp: new Date().toISOString(),
+          blockNumber: receipt.blockNumber,
+          timestamp: new Date(receipt.timestamp).toISOString(),
           documentHash,
-          verified: true
+          verified: true,
+          signer: describeSigner(signed.signer)
         }
       }),
       {
@@ -373,46 +718,86 @@ async function addDocumentToShipment(
   }
 }
 
+async function registerParticipant(participant: SupplyChainParticipant, supabase: SupabaseClient): Promise<Response> {
+  console.log(`Registering supply chain participant ${participant.id}`);
+  
+  try {
+    if (!participant.id || !participant.name) {
+      return errorResponse('participantId and eventData.name are required', 400);
+    }
+    if (!EXTERNAL_PARTICIPANT_ROLES.includes(participant.role)) {
+      return errorResponse(`role must be one of ${EXTERNAL_PARTICIPANT_ROLES.join(', ')}`, 400);
+    }
+    if (participant.publicKey && !(await isValidPublicKey(participant.publicKey))) {
+      return errorResponse('publicKey must be a P-256 public key in JWK format', 400);
+    }
+    if (await getParticipantKey(supabase, participant.id)) {
+      return errorResponse(`Participant ${participant.id} is already registered`, 409);
+    }
+    
+    const key = await registerExternalParticipant(supabase, participant);
+    
+    return new Response(
+      JSON.stringify({
+        success: true,
+        participant: {
+          ...describeSigner(key),
+          algorithm: key.algorithm,
+          publicKey: key.publicKey,
+          custodial: !participant.publicKey
+        }
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error('Error registering participant:', error);
+    throw error;
+  }
+}
+
 async function createSmartContract(
   contractType: string, 
   parties: string[], 
   terms: any, 
-  supabase: any
+  shipmentId: string | null,
+  supabase: any,
+  deployerId: string | null
 ): Promise<Response> {
   console.log(`Creating ${contractType} smart contract between parties:`, parties);
   
+  // The contract type's state machine decides what its terms need
+  const termsProblem = Array.isArray(parties) && parties.every((party) => typeof party === 'string')
+    ? validateNewContract(contractType, terms, shipmentId)
+    : 'parties must be an array of strings';
+  if (termsProblem) return errorResponse(termsProblem, 400);
+  
   try {
-    // Generate contract details
-    const contractId = generateRandomId();
-    const contractHash = generateRandomHash();
-    const creationTime = new Date().toISOString();
+    if (shipmentId) {
+      const { data: shipment, error: shipmentError } = await supabase
+        .from('shipments')
+        .select('id')
+        .eq('id', shipmentId)
+        .maybeSingle();
+        
+      if (shipmentError) throw shipmentError;
+      if (!shipment) return errorResponse('Shipment not found', 404);
+    }
     
-    // In a real implementation, this would deploy a smart contract to the blockchain
-    
-    // Record the contract in the database
-    const { data: contract, error: contractError } = await supabase
-      .from('smart_contracts')
-      .insert({
-        contract_id: contractId,
-        contract_type: contractType,
-        parties,
-        terms,
-        status: 'active',
-        created_at: creationTime,
-        blockchain_tx_hash: contractHash
-      })
-      .select()
-      .single();
-      
-    if (contractError) throw contractError;
+    // Record the contract deployment on the ledger, sent from the deploying user's wallet, and store
+    // it; it starts as a draft until one of its parties activates it
+    const { contract, receipt } = await createContract(supabase, { contractType, parties, terms, shipmentId }, deployerId);
+    const creationTime = new Date(receipt.timestamp).toISOString();
     
     return new Response(
       JSON.stringify({
         success: true,
         contract,
         blockchainRecord: {
-          contractAddress: '0x' + generateRandomId().replace(/-/g, '').substring(0, 40),
-          deploymentHash: contractHash,
+          contractAddress: getContractAddress(contract.contract_id),
+          deploymentHash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
           timestamp: creationTime,
           status: 'deployed'
         }
@@ -427,13 +812,407 @@ async function createSmartContract(
   }
 }
 
-async function querySupplyChain(query: any, supabase: any): Promise<Response> {
+// Lock a shipment's payment in an escrow contract: deploy it between the customer and the carrier, then fund it
+async function openEscrow(
+  shipmentId: unknown,
+  eventData: EscrowRequestData | undefined,
+  caller: Caller,
+  supabase: SupabaseClient
+): Promise<Response> {
+  if (typeof shipmentId !== 'string' || !shipmentId) return errorResponse('shipmentId is required', 400);
+  
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('id, customer_id, assigned_driver_id, estimated_arrival_date')
+    .eq('id', shipmentId)
+    .maybeSingle();
+    
+  if (shipmentError) throw shipmentError;
+  if (!shipment) return errorResponse('Shipment not found', 404);
+  if (!shipment.assigned_driver_id) return errorResponse('Assign a driver before opening an escrow; they are paid from it', 409);
+  
+  const { data: existing, error: existingError } = await supabase
+    .from('smart_contracts')
+    .select('id')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'escrow')
+    .in('status', ['draft', 'active'])
+    .limit(1);
+    
+  if (existingError) throw existingError;
+  if (existing && existing.length > 0) return errorResponse('The shipment already has an open escrow', 409);
+  
+  const terms: Record<string, unknown> = {
+    amount: eventData?.amount,
+    currency: eventData?.currency,
+    payerId: shipment.customer_id,
+    payeeId: shipment.assigned_driver_id,
+    deliverBy: eventData?.deliverBy ?? shipment.estimated_arrival_date ?? undefined,
+    lateRefundPercentPerDay: eventData?.lateRefundPercentPerDay,
+    damageRefundPercent: eventData?.damageRefundPercent,
+    maxRefundPercent: eventData?.maxRefundPercent
+  };
+  const termsProblem = validateNewContract('escrow', terms, shipmentId);
+  if (termsProblem) return errorResponse(termsProblem, 400);
+  
+  console.log(`Opening a ${terms.amount} ${terms.currency} escrow for shipment ${shipmentId}`);
+  
+  const deployerId = caller.kind === 'user' ? caller.userId : null;
+  const { contract } = await createContract(supabase, {
+    contractType: 'escrow',
+    parties: [shipment.customer_id, shipment.assigned_driver_id],
+    terms: JSON.parse(JSON.stringify(terms)),
+    shipmentId
+  }, deployerId);
+  const funded = await transitionContract(supabase, caller, contract, 'fund', null);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      contract: funded.contract,
+      transition: funded.transition,
+      contractAddress: getContractAddress(contract.contract_id)
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Put a shipment's delivery under an SLA: deploy it between the customer and the party responsible, then activate it
+async function openSla(
+  shipmentId: unknown,
+  eventData: SlaRequestData | undefined,
+  caller: Caller,
+  supabase: SupabaseClient
+): Promise<Response> {
+  if (typeof shipmentId !== 'string' || !shipmentId) return errorResponse('shipmentId is required', 400);
+  
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('id, customer_id, assigned_driver_id, estimated_arrival_date')
+    .eq('id', shipmentId)
+    .maybeSingle();
+    
+  if (shipmentError) throw shipmentError;
+  if (!shipment) return errorResponse('Shipment not found', 404);
+  
+  const responsibleId = eventData?.responsibleId ?? shipment.assigned_driver_id;
+  if (!responsibleId) return errorResponse('Assign a driver or name the responsible carrier; penalties are charged to them', 409);
+  if (responsibleId !== shipment.assigned_driver_id) {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', responsibleId)
+      .maybeSingle();
+      
+    if (profileError) throw profileError;
+    if (!profile) return errorResponse(`User ${responsibleId} not found`, 404);
+  }
+  
+  const { data: existing, error: existingError } = await supabase
+    .from('smart_contracts')
+    .select('id')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'sla')
+    .in('status', ['draft', 'active'])
+    .limit(1);
+    
+  if (existingError) throw existingError;
+  if (existing && existing.length > 0) return errorResponse('The shipment already has an open SLA', 409);
+  
+  const terms: Record<string, unknown> = {
+    deliverBy: eventData?.deliverBy ?? shipment.estimated_arrival_date ?? undefined,
+    currency: eventData?.currency,
+    responsibleId,
+    penaltyRate: eventData?.penaltyRate,
+    penaltyUnit: eventData?.penaltyUnit,
+    gracePeriodHours: eventData?.gracePeriodHours,
+    maxPenalty: eventData?.maxPenalty,
+    excludedCauses: eventData?.excludedCauses
+  };
+  const termsProblem = validateNewContract('sla', terms, shipmentId);
+  if (termsProblem) return errorResponse(termsProblem, 400);
+  
+  console.log(`Opening an SLA for shipment ${shipmentId}, charging ${responsibleId}`);
+  
+  const deployerId = caller.kind === 'user' ? caller.userId : null;
+  const parties = [...new Set([shipment.customer_id, responsibleId])];
+  const { contract } = await createContract(supabase, {
+    contractType: 'sla',
+    parties,
+    terms: JSON.parse(JSON.stringify(terms)),
+    shipmentId
+  }, deployerId);
+  const activated = await transitionContract(supabase, caller, contract, 'activate', null);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      contract: activated.contract,
+      transition: activated.transition,
+      contractAddress: getContractAddress(contract.contract_id)
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Put a temperature-sensitive shipment under a cold-chain contract between the customer and the party responsible, then activate it
+async function openColdChain(
+  shipmentId: unknown,
+  eventData: ColdChainRequestData | undefined,
+  caller: Caller,
+  supabase: SupabaseClient
+): Promise<Response> {
+  if (typeof shipmentId !== 'string' || !shipmentId) return errorResponse('shipmentId is required', 400);
+  
+  const profile = COLD_CHAIN_PROFILES[eventData?.productType ?? ''];
+  if (!profile) return errorResponse(`productType must be one of: ${Object.keys(COLD_CHAIN_PROFILES).join(', ')}`, 400);
+  
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .select('id, customer_id, assigned_driver_id')
+    .eq('id', shipmentId)
+    .maybeSingle();
+    
+  if (shipmentError) throw shipmentError;
+  if (!shipment) return errorResponse('Shipment not found', 404);
+  
+  const responsibleId = eventData?.responsibleId ?? shipment.assigned_driver_id;
+  if (!responsibleId) return errorResponse('Assign a driver or name the responsible carrier; claims are opened against them', 409);
+  if (responsibleId !== shipment.assigned_driver_id) {
+    const { data: responsible, error: responsibleError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', responsibleId)
+      .maybeSingle();
+      
+    if (responsibleError) throw responsibleError;
+    if (!responsible) return errorResponse(`User ${responsibleId} not found`, 404);
+  }
+  
+  const { data: existing, error: existingError } = await supabase
+    .from('smart_contracts')
+    .select('id')
+    .eq('shipment_id', shipmentId)
+    .eq('contract_type', 'cold_chain')
+    .in('status', ['draft', 'active'])
+    .limit(1);
+    
+  if (existingError) throw existingError;
+  if (existing && existing.length > 0) return errorResponse('The shipment already has an open cold-chain contract', 409);
+  
+  const terms: Record<string, unknown> = {
+    productType: eventData!.productType,
+    minTemperature: eventData?.minTemperature ?? profile.minTemperature,
+    maxTemperature: eventData?.maxTemperature ?? profile.maxTemperature,
+    minHumidity: eventData?.minHumidity ?? profile.minHumidity,
+    maxHumidity: eventData?.maxHumidity ?? profile.maxHumidity,
+    maxExcursionMinutes: eventData?.maxExcursionMinutes ?? profile.maxExcursionMinutes,
+    responsibleId
+  };
+  const termsProblem = validateNewContract('cold_chain', terms, shipmentId);
+  if (termsProblem) return errorResponse(termsProblem, 400);
+  
+  console.log(`Opening a ${terms.productType} cold-chain contract for shipment ${shipmentId}`);
+  
+  const deployerId = caller.kind === 'user' ? caller.userId : null;
+  const parties = [...new Set([shipment.customer_id, responsibleId])];
+  const { contract } = await createContract(supabase, {
+    contractType: 'cold_chain',
+    parties,
+    terms: JSON.parse(JSON.stringify(terms)),
+    shipmentId
+  }, deployerId);
+  const activated = await transitionContract(supabase, caller, contract, 'activate', null);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      contract: activated.contract,
+      transition: activated.transition,
+      contractAddress: getContractAddress(contract.contract_id)
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Store a sensor reading and check the shipment's contracts against it straight away, so a
+// cold-chain breach opens its claim without waiting for the next scheduled evaluation
+async function recordSensorReading(
+  shipmentId: unknown,
+  eventData: SensorReadingData | undefined,
+  supabase: SupabaseClient
+): Promise<Response> {
+  if (typeof shipmentId !== 'string' || !shipmentId) return errorResponse('shipmentId is required', 400);
+  
+  const reading = eventData ?? {};
+  const readingProblem = validateSensorReading(reading);
+  if (readingProblem) return errorResponse(readingProblem, 400);
+  
+  const { data, error } = await supabase
+    .from('sensor_data')
+    .insert({
+      shipment_id: shipmentId,
+      timestamp: reading.timestamp ?? new Date().toISOString(),
+      temperature: reading.temperature ?? null,
+      humidity: reading.humidity ?? null,
+      shock_detected: reading.shockDetected ?? null,
+      latitude: reading.latitude ?? null,
+      longitude: reading.longitude ?? null,
+      battery_level: reading.batteryLevel ?? null
+    })
+    .select()
+    .single();
+    
+  if (error?.code === '23503') return errorResponse('Shipment not found', 404);
+  if (error) throw error;
+  
+  // The reading stands even if the evaluation fails; the next one picks it up
+  let evaluated: Awaited<ReturnType<typeof evaluateContracts>> = [];
+  try {
+    evaluated = await evaluateContracts(supabase, shipmentId);
+  } catch (evaluationError) {
+    console.error('Error evaluating contracts after a sensor reading:', evaluationError);
+  }
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      reading: data,
+      evaluated
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Returns the problem with a sensor reading, or null when it can be stored
+function validateSensorReading(reading: SensorReadingData): string | null {
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+  
+  if (reading.timestamp !== undefined && (typeof reading.timestamp !== 'string' || Number.isNaN(Date.parse(reading.timestamp)))) {
+    return 'timestamp must be an ISO date';
+  }
+  if (reading.temperature === undefined && reading.humidity === undefined) return 'A temperature or humidity is required';
+  if (reading.temperature !== undefined && !isNumber(reading.temperature)) return 'temperature must be a number';
+  if (reading.humidity !== undefined && (!isNumber(reading.humidity) || reading.humidity < 0 || reading.humidity > 100)) {
+    return 'humidity must be between 0 and 100';
+  }
+  if (reading.shockDetected !== undefined && typeof reading.shockDetected !== 'boolean') return 'shockDetected must be a boolean';
+  if (reading.latitude !== undefined && (!isNumber(reading.latitude) || Math.abs(reading.latitude) > 90)) {
+    return 'latitude must be between -90 and 90';
+  }
+  if (reading.longitude !== undefined && (!isNumber(reading.longitude) || Math.abs(reading.longitude) > 180)) {
+    return 'longitude must be between -180 and 180';
+  }
+  if (reading.batteryLevel !== undefined && (!isNumber(reading.batteryLevel) || reading.batteryLevel < 0 || reading.batteryLevel > 100)) {
+    return 'batteryLevel must be between 0 and 100';
+  }
+  return null;
+}
+
+// A delivery or its proof can fulfil or breach the shipment's contracts and release its escrow.
+// The event or document stands even if that fails; the next evaluation picks it up.
+async function evaluateAfterDelivery(shipmentId: string, supabase: SupabaseClient): Promise<void> {
+  try {
+    await evaluateContracts(supabase, shipmentId);
+  } catch (error) {
+    console.error('Error evaluating contracts after delivery:', error);
+  }
+}
+
+// Move a contract along one of its type's transitions, if its guards pass
+async function runContractTransition(
+  contractId: unknown,
+  transition: unknown,
+  reason: unknown,
+  caller: Caller,
+  supabase: SupabaseClient
+): Promise<Response> {
+  if (typeof contractId !== 'string' || !contractId) return errorResponse('contractId is required', 400);
+  if (typeof transition !== 'string' || !transition) return errorResponse('eventData.transition is required', 400);
+  if (reason !== null && typeof reason !== 'string') return errorResponse('eventData.reason must be a string', 400);
+  
+  console.log(`Running ${transition} on contract ${contractId}`);
+  
+  const contract = await getContract(supabase, contractId);
+  const result = await transitionContract(supabase, caller, contract, transition, reason?.trim() || null);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      contract: result.contract,
+      transition: result.transition,
+      options: await getTransitionOptions(supabase, result.contract)
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Apply the automatic transitions whose guards now pass, on one shipment's contracts or on all of them
+async function evaluateShipmentContracts(shipmentId: string | undefined, supabase: SupabaseClient): Promise<Response> {
+  console.log(`Evaluating contracts${shipmentId ? ` for shipment ${shipmentId}` : ''}`);
+  
+  const evaluated = await evaluateContracts(supabase, shipmentId || undefined);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      evaluated
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// A contract with the transitions open to it now and its history
+async function getContractDetails(contractId: unknown, caller: Caller, supabase: SupabaseClient): Promise<Response> {
+  if (typeof contractId !== 'string' || !contractId) return errorResponse('contractId is required', 400);
+  
+  const contract = await getContract(supabase, contractId);
+  const [options, history, canTransition] = await Promise.all([
+    getTransitionOptions(supabase, contract),
+    getContractHistory(supabase, contract.id),
+    canChangeContract(supabase, caller, contract)
+  ]);
+  
+  return new Response(
+    JSON.stringify({
+      success: true,
+      contract,
+      contractAddress: getContractAddress(contract.contract_id),
+      options,
+      canTransition,
+      history
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Managers query every shipment; drivers and customers only see the shipments they're on
+async function querySupplyChain(query: any, caller: Caller, supabase: any): Promise<Response> {
   console.log(`Querying supply chain with parameters:`, query);
   
   try {
     let data;
     let error;
     
+    // The shipments column that names a driver or customer
+    const ownerColumn = caller.kind === 'user' && caller.role === 'driver' ? 'assigned_driver_id' : 'customer_id';
+    const ownsShipment = (shipment: ShipmentOwners | null) =>
+      isManager(caller) || (caller.kind === 'user' && shipment?.[ownerColumn] === caller.userId);
+    
     switch (query.type) {
       case 'product_trace':
         // Trace a product through the supply chain using its identifier
@@ -445,26 +1224,39 @@ async function querySupplyChain(query: any, supabase: any): Promise<Response> {
           `)
           .eq('data->productId', query.productId)
           .order('created_at', { ascending: true }));
+        
+        if (!error && data) {
+          data = data.filter((event: any) => ownsShipment(event.shipments));
+        }
         break;
         
       case 'participant_shipments':
         // Get all shipments involving a specific participant
+        if (!isManager(caller) && caller.kind === 'user' && query.participantId !== caller.userId) {
+          throw new AuthorizationError('You can only list your own shipments', 403);
+        }
+        
         ({ data, error } = await supabase
           .from('shipments')
           .select('*')
           .or(`customer_id.eq.${query.participantId},assigned_driver_id.eq.${query.participantId}`));
         break;
         
-      case 'carbon_footprint':
+      case 'carbon_footprint': {
         // Calculate carbon footprint for a specific time period
         const startDate = query.startDate || '2000-01-01';
         const endDate = query.endDate || new Date().toISOString();
         
-        ({ data, error } = await supabase
+        let footprintQuery = supabase
           .from('shipments')
           .select('carbon_footprint, transport_type')
           .gte('created_at', startDate)
-          .lte('created_at', endDate));
+          .lte('created_at', endDate);
+        if (!isManager(caller) && caller.kind === 'user') {
+          footprintQuery = footprintQuery.eq(ownerColumn, caller.userId);
+        }
+        
+        ({ data, error } = await footprintQuery);
           
         if (!error && data) {
           // Calculate total carbon footprint
@@ -481,6 +1273,7 @@ async function querySupplyChain(query: any, supabase: any): Promise<Response> {
           data = { totalFootprint, byTransportType, timeFrame: { startDate, endDate } };
         }
         break;
+      }
         
       default:
         throw new Error('Invalid query type');
@@ -505,18 +1298,71 @@ async function querySupplyChain(query: any, supabase: any): Promise<Response> {
 }
 
 // Helper functions
-function generateRandomHash(): string {
-  const characters = "0123456789abcdef";
-  let hash = "0x";
-  for (let i = 0; i < 64; i++) {
-    hash += characters.charAt(Math.floor(Math.random() * characters.length));
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
+
+// Users sign as themselves; managers may also sign for registered external parties
+async function assertCanSignAs(supabase: SupabaseClient, caller: Caller, participantId: unknown): Promise<void> {
+  // A missing participantId is reported by signAsParticipant
+  if (caller.kind === 'service' || !participantId || participantId === caller.userId) return;
+  
+  if (caller.role === 'manager' && typeof participantId === 'string') {
+    const key = await getParticipantKey(supabase, participantId);
+    if (key?.participantType === 'external') return;
+  }
+  
+  throw new AuthorizationError('You can only sign as yourself', 403);
+}
+
+// Sign an event statement as the acting participant. App users get a custodial key
+// the first time they act; participants holding their own key must send the signature.
+// The address is the ledger sender: a user's wallet, or the one an external party's key derives.
+async function signAsParticipant(
+  supabase: SupabaseClient,
+  statement: EventStatement,
+  providedSignature?: string
+): Promise<{ signature: string; signer: ParticipantKey; address: string } | { error: string; status: number }> {
+  if (!statement.signer) {
+    return { error: 'participantId is required to sign this action', status: 400 };
+  }
+  
+  const signer = await ensureUserParticipantKey(supabase, statement.signer);
+  if (!signer) {
+    return { error: `Participant ${statement.signer} is not registered`, status: 404 };
+  }
+  
+  const wallet = signer.participantType === 'user' ? await ensureUserWallet(supabase, signer.participantId) : null;
+  const address = wallet?.address ?? await deriveWalletAddress(signer.publicKey);
+  
+  if (providedSignature) {
+    return await verifyStatement(signer.publicKey, statement, providedSignature)
+      ? { signature: providedSignature, signer, address }
+      : { error: `Signature does not match the statement and ${signer.name}'s public key`, status: 400 };
   }
-  return hash;
+  
+  const signature = await signStatement(supabase, statement);
+  if (!signature) {
+    return { error: `${signer.name} holds their own signing key and must send a signature`, status: 400 };
+  }
+  return { signature, signer, address };
 }
 
-function generateRandomId(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0, v = c == 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
+function describeSigner(key: ParticipantKey) {
+  return {
+    id: key.participantId,
+    name: key.name,
+    role: key.role,
+    fingerprint: key.fingerprint
+  };
 }
+
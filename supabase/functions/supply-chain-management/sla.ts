@@ -0,0 +1,126 @@
+// Penalties for the 'sla' contract type (see contractDefinitions.ts)
+//
+// A breached SLA charges its penalty to the responsible driver or carrier:
+// a row in sla_penalties, one per contract, and an sla_penalty ledger entry
+// from the contract's account naming them, so the charge stands on the ledger
+// against both the shipment and the party.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { recordOnLedger } from '../_shared/ledger.ts';
+import { ensureUserWallet } from '../_shared/wallets.ts';
+import { ContractContext, SlaTerms, assessSla, getContractAddress } from './contractDefinitions.ts';
+import type { SmartContract } from './contractEngine.ts';
+
+export const SLA_PENALTY_OPERATION = 'sla_penalty';
+
+interface SlaPenaltyRow {
+  id: string;
+  blockchain_tx_hash: string | null;
+  created_at: string;
+}
+
+// A penalty claimed this long ago without a ledger entry is taken to have been abandoned
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// Charge the penalty a breached SLA calls for, unless it has been already
+export async function settleSla(supabase: SupabaseClient, contract: SmartContract, context: ContractContext): Promise<void> {
+  if (contract.status !== 'breached') return;
+
+  const assessment = assessSla(context);
+  if (assessment.penalty <= 0) return;
+  if (await hasPenalty(supabase, contract.id)) return;
+
+  const terms = contract.terms as unknown as SlaTerms;
+  const wallet = await ensureUserWallet(supabase, terms.responsibleId);
+  if (!wallet) throw new Error(`User ${terms.responsibleId} has no wallet to charge the penalty to`);
+
+  const { data: claim, error: claimError } = await supabase
+    .from('sla_penalties')
+    .insert({
+      contract_id: contract.id,
+      shipment_id: contract.shipment_id,
+      responsible_id: terms.responsibleId,
+      amount: assessment.penalty,
+      currency: terms.currency,
+      late_minutes: assessment.lateMinutes,
+      excused_minutes: assessment.excusedMinutes,
+      chargeable_minutes: assessment.chargeableMinutes
+    })
+    .select('id')
+    .single();
+
+  if (claimError) {
+    // Another evaluation is already charging it
+    if (claimError.code === '23505') return;
+    throw claimError;
+  }
+
+  let transactionHash: string;
+  try {
+    const receipt = await recordOnLedger(supabase, {
+      from: getContractAddress(contract.contract_id),
+      to: wallet.address,
+      operation: SLA_PENALTY_OPERATION,
+      payload: {
+        penaltyId: claim.id,
+        contractId: contract.contract_id,
+        shipmentId: contract.shipment_id,
+        responsibleId: terms.responsibleId,
+        amount: assessment.penalty,
+        currency: terms.currency,
+        deliverBy: terms.deliverBy,
+        deliveredAt: assessment.deliveredAt,
+        lateMinutes: assessment.lateMinutes,
+        excusedMinutes: assessment.excusedMinutes,
+        graceMinutes: assessment.graceMinutes,
+        unitsLate: assessment.unitsLate,
+        penaltyUnit: terms.penaltyUnit,
+        capped: assessment.capped,
+        excusedCauses: [...new Set(assessment.excusedDelays.map((delay) => delay.cause))]
+      }
+    });
+    transactionHash = receipt.transactionHash;
+  } catch (error) {
+    await supabase.from('sla_penalties').delete().eq('id', claim.id);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('sla_penalties')
+    .update({ blockchain_tx_hash: transactionHash })
+    .eq('id', claim.id);
+
+  if (updateError) throw updateError;
+}
+
+// Whether the contract's penalty is charged or being charged; an abandoned claim is recovered or cleared
+async function hasPenalty(supabase: SupabaseClient, contractId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('sla_penalties')
+    .select('id, blockchain_tx_hash, created_at')
+    .eq('contract_id', contractId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const penalty = data as SlaPenaltyRow | null;
+  if (!penalty) return false;
+  if (penalty.blockchain_tx_hash || Date.now() - Date.parse(penalty.created_at) < STALE_CLAIM_MS) return true;
+
+  const { data: entry, error: entryError } = await supabase
+    .from('ledger_transactions')
+    .select('tx_hash')
+    .eq('operation', SLA_PENALTY_OPERATION)
+    .eq('payload->>penaltyId', penalty.id)
+    .maybeSingle();
+
+  if (entryError) throw entryError;
+
+  if (entry) {
+    await supabase.from('sla_penalties').update({ blockchain_tx_hash: entry.tx_hash }).eq('id', penalty.id);
+    return true;
+  }
+
+  await supabase.from('sla_penalties').delete().eq('id', penalty.id).is('blockchain_tx_hash', null);
+  return false;
+}
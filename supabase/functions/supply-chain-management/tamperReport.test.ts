@@ -0,0 +1,88 @@
+// Run with: deno test supabase/functions/supply-chain-management/tamperReport.test.ts
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { computeTransactionHash, toLedgerTransaction } from '../_shared/ledger.ts';
+import { ShipmentEventRow, buildTamperReport } from './tamperReport.ts';
+
+type LedgerTransactionRow = Parameters<typeof toLedgerTransaction>[0];
+
+const SHIPMENT_ID = 'shipment-1';
+const CUSTOMER_ADDRESS = '0x' + '1'.repeat(40);
+const REGISTRY_ADDRESS = '0x' + '2'.repeat(40);
+
+// Just enough of the query builder for the ledger_transactions reads the report makes
+function fakeLedger(rows: LedgerTransactionRow[]): SupabaseClient {
+  const query = (matching: LedgerTransactionRow[]) => ({
+    select: () => query(matching),
+    order: () => query(matching),
+    in: (column: string, values: unknown[]) => query(matching.filter((row) => values.includes(row[column as keyof LedgerTransactionRow]))),
+    eq: (column: string, value: unknown) => query(matching.filter((row) =>
+      column === 'payload->>shipmentId' ? row.payload.shipmentId === value : row[column as keyof LedgerTransactionRow] === value
+    )),
+    maybeSingle: () => Promise.resolve({ data: matching[0] ?? null, error: null }),
+    then: (resolve: (result: { data: LedgerTransactionRow[]; error: null }) => unknown) => resolve({ data: matching, error: null })
+  });
+
+  return { from: () => query(rows) } as unknown as SupabaseClient;
+}
+
+// An unsealed entry, so verifying it needs no block
+async function ledgerRow(operation: string, payload: Record<string, unknown>, timestamp: number): Promise<LedgerTransactionRow> {
+  const tx = { from: CUSTOMER_ADDRESS, to: REGISTRY_ADDRESS, operation, payload, timestamp, nonce: timestamp };
+  return {
+    tx_hash: await computeTransactionHash(tx),
+    from_address: tx.from,
+    to_address: tx.to,
+    operation,
+    payload,
+    timestamp,
+    nonce: timestamp,
+    block_number: null,
+    tx_index: null
+  };
+}
+
+const eventRow = (id: string, row: LedgerTransactionRow): ShipmentEventRow => ({
+  id,
+  shipment_id: SHIPMENT_ID,
+  event_type: String(row.payload.eventType),
+  data: row.payload.data as Record<string, unknown>,
+  blockchain_tx_hash: row.tx_hash,
+  created_at: new Date(Number(row.timestamp)).toISOString()
+});
+
+Deno.test('a transfer approved through the ledger outbox leaves the report clean', async () => {
+  const pickedUp = await ledgerRow('record_event', {
+    shipmentId: SHIPMENT_ID,
+    eventType: 'picked_up',
+    data: { location: 'Depot' }
+  }, 1_700_000_000_000);
+  // What blockchain-verify records when the outbox runs an approved transfer; it moves
+  // the shipment to its new owner without a shipment_events row
+  const approvedTransfer = await ledgerRow('transfer_ownership', {
+    shipmentId: SHIPMENT_ID,
+    previousOwnerId: 'customer-1',
+    newOwnerId: 'customer-2'
+  }, 1_700_000_060_000);
+
+  const report = await buildTamperReport(fakeLedger([pickedUp, approvedTransfer]), SHIPMENT_ID, [eventRow('event-1', pickedUp)]);
+
+  assertEquals(report.deletedEntries, []);
+  assertEquals(report.sequenceGaps, []);
+  assertEquals(report.intactEvents, 1);
+  assertEquals(report.clean, true);
+});
+
+Deno.test('a signed transfer whose event row was deleted is still reported', async () => {
+  const signedTransfer = await ledgerRow('transfer_ownership', {
+    shipmentId: SHIPMENT_ID,
+    eventType: 'ownership_transferred',
+    data: { fromParticipant: 'customer-1', toParticipant: 'customer-2' }
+  }, 1_700_000_000_000);
+
+  const report = await buildTamperReport(fakeLedger([signedTransfer]), SHIPMENT_ID, []);
+
+  assertEquals(report.deletedEntries.map((entry) => entry.transactionHash), [signedTransfer.tx_hash]);
+  assertEquals(report.clean, false);
+});
@@ -0,0 +1,393 @@
+// Tamper detection for a shipment's event history
+//
+// Every shipment_events row is compared with the ledger entry its
+// blockchain_tx_hash points to, and the shipment's ledger entries are walked in
+// chain order to find entries whose row has disappeared. The ledger is
+// append-only and hash-chained, so wherever the two disagree the database row
+// is the side that changed.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import {
+  LedgerTransaction,
+  TransactionVerification,
+  canonicalize,
+  toLedgerTransaction,
+  verifyTransaction
+} from '../_shared/ledger.ts';
+
+// Ledger operations that produce a shipment_events row
+export const EVENT_OPERATIONS = ['record_event', 'transfer_ownership', 'add_document'];
+
+// Whether an entry was recorded with a shipment_events row. Transfers approved
+// through the ledger outbox are blockchain-verify transfer_ownership entries,
+// which only move the shipment to its new owner and carry no eventType.
+export function producesEvent(tx: Pick<LedgerTransaction, 'operation' | 'payload'>): boolean {
+  if (!EVENT_OPERATIONS.includes(tx.operation)) return false;
+  return tx.operation !== 'transfer_ownership' || typeof tx.payload.eventType === 'string';
+}
+
+// How far a row's created_at may drift from its ledger timestamp; rows are
+// inserted right after their entry is sealed, so anything beyond this was edited
+const CLOCK_TOLERANCE_MS = 5 * 60 * 1000;
+
+export type DiscrepancyType =
+  | 'unanchored'
+  | 'missing_ledger_entry'
+  | 'ledger_integrity'
+  | 'operation_mismatch'
+  | 'field_mismatch'
+  | 'timestamp_mismatch'
+  | 'duplicate_anchor'
+  | 'out_of_order';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  message: string;
+  field?: string;
+  database?: unknown;
+  ledger?: unknown;
+}
+
+export interface EventLedgerCheck {
+  status: 'intact' | 'tampered' | 'unanchored';
+  transactionHash: string | null;
+  blockNumber: number | null;
+  txIndex: number | null;
+  discrepancies: Discrepancy[];
+}
+
+// A ledger entry for this shipment with no shipment_events row left
+export interface DeletedEntry {
+  transactionHash: string;
+  operation: string;
+  eventType: string;
+  blockNumber: number | null;
+  txIndex: number | null;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+// A run of consecutive ledger entries missing from the database, between the surviving events around it
+export interface SequenceGap {
+  afterEventId: string | null;
+  beforeEventId: string | null;
+  missingTransactions: string[];
+  message: string;
+}
+
+export interface TamperReport {
+  clean: boolean;
+  checkedEvents: number;
+  intactEvents: number;
+  tamperedEvents: number;
+  unanchoredEvents: number;
+  deletedEntries: DeletedEntry[];
+  sequenceGaps: SequenceGap[];
+  checks: Record<string, EventLedgerCheck>;
+}
+
+export interface ShipmentEventRow {
+  id: string;
+  shipment_id: string;
+  event_type: string;
+  data: Record<string, unknown>;
+  blockchain_tx_hash: string | null;
+  signer_id?: string | null;
+  signature?: string | null;
+  created_at: string;
+}
+
+// The row a ledger entry should have produced
+interface ExpectedEvent {
+  eventType: string;
+  // Data fields the ledger pins down; null means the whole data object must match
+  fields: Record<string, unknown> | null;
+  data: Record<string, unknown>;
+  signer: string | null;
+  signature: string | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectedEventFor(tx: LedgerTransaction): ExpectedEvent {
+  const payload = tx.payload;
+  const signer = typeof payload.signer === 'string' ? payload.signer : null;
+  const signature = typeof payload.signature === 'string' ? payload.signature : null;
+
+  if (tx.operation === 'add_document') {
+    const fields: Record<string, unknown> = {
+      documentType: payload.documentType,
+      documentHash: payload.documentHash
+    };
+    // Entries anchored before documents carried a fixed id don't include it
+    if (payload.documentId !== undefined) fields.documentId = payload.documentId;
+    return { eventType: 'document_added', fields, data: fields, signer, signature };
+  }
+
+  const data = isRecord(payload.data) ? payload.data : {};
+  return {
+    eventType: String(payload.eventType ?? ''),
+    fields: null,
+    data,
+    signer,
+    signature
+  };
+}
+
+const sameValue = (a: unknown, b: unknown) => canonicalize(a ?? null) === canonicalize(b ?? null);
+
+function compareData(row: ShipmentEventRow, expected: ExpectedEvent): Discrepancy[] {
+  const rowData = isRecord(row.data) ? row.data : {};
+  const keys = expected.fields
+    ? Object.keys(expected.fields)
+    : Array.from(new Set([...Object.keys(rowData), ...Object.keys(expected.data)])).sort();
+
+  return keys
+    .filter((key) => !sameValue(rowData[key], expected.data[key]))
+    .map((key) => ({
+      type: 'field_mismatch' as const,
+      field: `data.${key}`,
+      database: rowData[key] ?? null,
+      ledger: expected.data[key] ?? null,
+      message: rowData[key] === undefined
+        ? `data.${key} was removed from the database row`
+        : expected.data[key] === undefined
+          ? `data.${key} was added to the database row after it was anchored`
+          : `data.${key} was changed after it was anchored`
+    }));
+}
+
+function compareRow(row: ShipmentEventRow, tx: LedgerTransaction, verification: TransactionVerification): Discrepancy[] {
+  const discrepancies: Discrepancy[] = [];
+
+  if (!verification.verified && verification.status !== 'pending') {
+    discrepancies.push({
+      type: 'ledger_integrity',
+      message: verification.reason || 'Ledger entry failed verification'
+    });
+  }
+
+  if (!producesEvent(tx)) {
+    discrepancies.push({
+      type: 'operation_mismatch',
+      database: row.event_type,
+      ledger: tx.operation,
+      message: `Row points at a ${tx.operation} entry, which never produces a shipment event`
+    });
+    return discrepancies;
+  }
+
+  const expected = expectedEventFor(tx);
+
+  if (tx.payload.shipmentId !== row.shipment_id) {
+    discrepancies.push({
+      type: 'field_mismatch',
+      field: 'shipment_id',
+      database: row.shipment_id,
+      ledger: tx.payload.shipmentId ?? null,
+      message: 'Row was moved to a different shipment than the one anchored'
+    });
+  }
+  if (row.event_type !== expected.eventType) {
+    discrepancies.push({
+      type: 'field_mismatch',
+      field: 'event_type',
+      database: row.event_type,
+      ledger: expected.eventType,
+      message: 'event_type was changed after it was anchored'
+    });
+  }
+
+  discrepancies.push(...compareData(row, expected));
+
+  // Signatures only exist on entries anchored since participants got signing keys
+  if (expected.signer !== null && (row.signer_id ?? null) !== expected.signer) {
+    discrepancies.push({
+      type: 'field_mismatch',
+      field: 'signer_id',
+      database: row.signer_id ?? null,
+      ledger: expected.signer,
+      message: 'signer_id was changed after it was anchored'
+    });
+  }
+  if (expected.signature !== null && (row.signature ?? null) !== expected.signature) {
+    discrepancies.push({
+      type: 'field_mismatch',
+      field: 'signature',
+      database: row.signature ?? null,
+      ledger: expected.signature,
+      message: 'signature was changed after it was anchored'
+    });
+  }
+
+  const drift = new Date(row.created_at).getTime() - tx.timestamp;
+  if (Math.abs(drift) > CLOCK_TOLERANCE_MS) {
+    discrepancies.push({
+      type: 'timestamp_mismatch',
+      field: 'created_at',
+      database: row.created_at,
+      ledger: new Date(tx.timestamp).toISOString(),
+      message: `created_at is ${Math.round(Math.abs(drift) / 60000)} minutes ${drift > 0 ? 'after' : 'before'} the ledger timestamp`
+    });
+  }
+
+  return discrepancies;
+}
+
+// Chain position of an entry; unsealed entries sort after everything sealed
+function chainPosition(tx: LedgerTransaction): [number, number] {
+  return [tx.blockNumber ?? Number.MAX_SAFE_INTEGER, tx.txIndex ?? 0];
+}
+
+function comesBefore(a: LedgerTransaction, b: LedgerTransaction): boolean {
+  const [blockA, indexA] = chainPosition(a);
+  const [blockB, indexB] = chainPosition(b);
+  return blockA < blockB || (blockA === blockB && indexA < indexB);
+}
+
+async function getShipmentLedgerEntries(supabase: SupabaseClient, shipmentId: string): Promise<LedgerTransaction[]> {
+  const { data, error } = await supabase
+    .from('ledger_transactions')
+    .select('*')
+    .in('operation', EVENT_OPERATIONS)
+    .eq('payload->>shipmentId', shipmentId)
+    .order('block_number', { ascending: true, nullsFirst: false })
+    .order('tx_index', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(toLedgerTransaction).filter(producesEvent);
+}
+
+// Compare a shipment's event rows (ordered by created_at) with the ledger
+export async function buildTamperReport(
+  supabase: SupabaseClient,
+  shipmentId: string,
+  events: ShipmentEventRow[]
+): Promise<TamperReport> {
+  const checks: Record<string, EventLedgerCheck> = {};
+  const anchored = new Map<string, string>();
+  let previousAnchored: LedgerTransaction | null = null;
+
+  for (const row of events) {
+    const check: EventLedgerCheck = {
+      status: 'intact',
+      transactionHash: row.blockchain_tx_hash,
+      blockNumber: null,
+      txIndex: null,
+      discrepancies: []
+    };
+    checks[row.id] = check;
+
+    if (!row.blockchain_tx_hash) {
+      check.status = 'unanchored';
+      check.discrepancies.push({ type: 'unanchored', message: 'Row was inserted without a ledger entry' });
+      continue;
+    }
+
+    const firstRowId = anchored.get(row.blockchain_tx_hash);
+    if (firstRowId) {
+      check.discrepancies.push({
+        type: 'duplicate_anchor',
+        message: `Row reuses the ledger entry already claimed by event ${firstRowId}`
+      });
+      check.status = 'tampered';
+      continue;
+    }
+    anchored.set(row.blockchain_tx_hash, row.id);
+
+    const verification = await verifyTransaction(supabase, row.blockchain_tx_hash);
+    if (!verification.found) {
+      check.status = 'unanchored';
+      check.discrepancies.push({
+        type: 'missing_ledger_entry',
+        message: `blockchain_tx_hash ${row.blockchain_tx_hash} does not exist on the ledger`
+      });
+      continue;
+    }
+
+    const tx: LedgerTransaction = {
+      hash: verification.transactionHash,
+      from: verification.from!,
+      to: verification.to!,
+      operation: verification.operation!,
+      payload: verification.payload!,
+      timestamp: new Date(verification.timestamp!).getTime(),
+      blockNumber: verification.blockNumber ?? undefined,
+      txIndex: verification.txIndex ?? undefined
+    };
+    check.blockNumber = tx.blockNumber ?? null;
+    check.txIndex = tx.txIndex ?? null;
+    check.discrepancies.push(...compareRow(row, tx, verification));
+
+    if (previousAnchored && comesBefore(tx, previousAnchored)) {
+      check.discrepancies.push({
+        type: 'out_of_order',
+        message: 'Row is dated after an event that the ledger records later, so its timestamp or the other row\'s was edited'
+      });
+    }
+    previousAnchored = tx;
+
+    if (check.discrepancies.length > 0) check.status = 'tampered';
+  }
+
+  // Walk the shipment's ledger entries in chain order; entries without a row were deleted
+  const entries = await getShipmentLedgerEntries(supabase, shipmentId);
+  const deletedEntries: DeletedEntry[] = [];
+  const sequenceGaps: SequenceGap[] = [];
+  let lastSurvivingEventId: string | null = null;
+  let currentGap: string[] = [];
+
+  const closeGap = (beforeEventId: string | null) => {
+    if (currentGap.length === 0) return;
+    sequenceGaps.push({
+      afterEventId: lastSurvivingEventId,
+      beforeEventId,
+      missingTransactions: currentGap,
+      message: `${currentGap.length} anchored event${currentGap.length === 1 ? '' : 's'} missing from the database ${
+        lastSurvivingEventId && beforeEventId ? 'between two surviving events'
+          : beforeEventId ? 'before the first surviving event'
+          : lastSurvivingEventId ? 'after the last surviving event'
+          : '(no events survive)'
+      }`
+    });
+    currentGap = [];
+  };
+
+  for (const tx of entries) {
+    const eventId = anchored.get(tx.hash);
+    if (eventId) {
+      closeGap(eventId);
+      lastSurvivingEventId = eventId;
+      continue;
+    }
+
+    const expected = expectedEventFor(tx);
+    deletedEntries.push({
+      transactionHash: tx.hash,
+      operation: tx.operation,
+      eventType: expected.eventType,
+      blockNumber: tx.blockNumber ?? null,
+      txIndex: tx.txIndex ?? null,
+      timestamp: new Date(tx.timestamp).toISOString(),
+      data: expected.data
+    });
+    currentGap.push(tx.hash);
+  }
+  closeGap(null);
+
+  const statuses = Object.values(checks).map((check) => check.status);
+  const count = (status: EventLedgerCheck['status']) => statuses.filter((s) => s === status).length;
+
+  return {
+    clean: statuses.every((status) => status === 'intact') && deletedEntries.length === 0,
+    checkedEvents: events.length,
+    intactEvents: count('intact'),
+    tamperedEvents: count('tampered'),
+    unanchoredEvents: count('unanchored'),
+    deletedEntries,
+    sequenceGaps,
+    checks
+  };
+}
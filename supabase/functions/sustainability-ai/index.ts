@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, assertShipmentAccess, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -48,6 +49,18 @@ serve(async (req) => {
     
     console.log(`Sustainability AI function called with action: ${action}`);
     
+    // Only callers whose role allows the action; a named shipment must be one they're on
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'sustainability-ai', action);
+    if (action === 'analyze_shipment' && routeId && !shipmentId) {
+      // Routes are only visible to staff (see the routes table's RLS policies)
+      if (caller.kind === 'user' && caller.role === 'customer') {
+        throw new AuthorizationError('Customers can only analyze their own shipments', 403);
+      }
+    } else if (action === 'analyze_shipment' || action === 'generate_suggestions') {
+      await assertShipmentAccess(supabase, caller, shipmentId);
+    }
+    
     switch (action) {
       case 'optimize_route':
         return await optimizeRoute(routeParams, supabase);
@@ -72,6 +85,19 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+        }),
+        {
+          status: error.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+    
     console.error("Error:", error);
     
     return new Response(
@@ -0,0 +1,100 @@
+// Custodial wallets for signed-in users
+//
+// AuthContext calls create straight after signup, and again on sign-in for
+// accounts that had to confirm their email first. Creating is idempotent: a
+// user who already has a wallet gets it back. The keys stay server-side (see
+// _shared/wallets.ts); only the address is ever returned.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.4.0';
+import { AuthorizationError, authenticateRequest, authorizeAction } from '../_shared/auth.ts';
+import { ensureUserWallet, getUserWallet } from '../_shared/wallets.ts';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface WalletsRequest {
+  action: 'create' | 'get';
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const { action } = await req.json() as WalletsRequest;
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Wallets action: ${action}`);
+
+    // Users only ever see their own wallet here
+    const caller = await authenticateRequest(supabase, req);
+    authorizeAction(caller, 'wallets', action);
+    if (caller.kind !== 'user') {
+      return errorResponse('Wallets belong to users; call this with a user\'s token', 400);
+    }
+    const { userId } = caller;
+
+    switch (action) {
+      case 'create': {
+        const existing = await getUserWallet(supabase, userId);
+        if (existing) {
+          return jsonResponse({ success: true, wallet: existing, created: false });
+        }
+
+        const wallet = await ensureUserWallet(supabase, userId);
+        return jsonResponse({ success: true, wallet, created: true });
+      }
+
+      case 'get': {
+        const wallet = await getUserWallet(supabase, userId);
+        if (!wallet) {
+          return errorResponse('You have no wallet yet', 404);
+        }
+        return jsonResponse({ success: true, wallet });
+      }
+
+      default:
+        return errorResponse('Invalid action', 400);
+    }
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return errorResponse(error.message, error.status);
+    }
+
+    console.error("Error:", error);
+    return errorResponse(error.message, 500);
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function errorResponse(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    }
+  );
+}
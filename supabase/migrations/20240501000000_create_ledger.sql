@@ -0,0 +1,146 @@
+-- Create tables for the append-only hash-chained ledger
+
+-- Table for ledger blocks
+-- Each block links to its predecessor through previous_hash, so the whole
+-- chain can be recomputed from the stored transactions
+CREATE TABLE IF NOT EXISTS ledger_blocks (
+  block_number BIGINT PRIMARY KEY,
+  block_hash TEXT NOT NULL UNIQUE,
+  -- Unique so that two concurrent writers can never fork the chain
+  previous_hash TEXT NOT NULL UNIQUE,
+  transactions_root TEXT NOT NULL,
+  transaction_count INTEGER NOT NULL,
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Table for ledger transactions
+-- tx_hash is the SHA-256 of the canonical JSON of
+-- (from_address, to_address, operation, payload, timestamp)
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  tx_hash TEXT PRIMARY KEY,
+  block_number BIGINT REFERENCES ledger_blocks(block_number),
+  tx_index INTEGER,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (block_number, tx_index)
+);
+
+-- Add indexes for faster queries
+CREATE INDEX ledger_transactions_block_number_idx ON ledger_transactions(block_number);
+CREATE INDEX ledger_transactions_operation_idx ON ledger_transactions(operation);
+CREATE INDEX ledger_transactions_pending_idx ON ledger_transactions(created_at) WHERE block_number IS NULL;
+
+-- Set up RLS policies
+ALTER TABLE ledger_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the ledger; only edge functions (service role) can append to it
+CREATE POLICY "Ledger blocks are viewable by all authenticated users"
+ON ledger_blocks
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Ledger transactions are viewable by all authenticated users"
+ON ledger_transactions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- The ledger is append-only: reject any update that rewrites a transaction's
+-- content or moves it to a different block once it has been sealed
+CREATE OR REPLACE FUNCTION prevent_ledger_rewrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Ledger entries cannot be deleted';
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_blocks' THEN
+    RAISE EXCEPTION 'Ledger blocks cannot be modified';
+  END IF;
+
+  IF OLD.block_number IS NOT NULL
+    OR NEW.tx_hash <> OLD.tx_hash
+    OR NEW.payload <> OLD.payload
+    OR NEW.from_address <> OLD.from_address
+    OR NEW.to_address <> OLD.to_address
+    OR NEW.operation <> OLD.operation
+    OR NEW.timestamp <> OLD.timestamp THEN
+    RAISE EXCEPTION 'Ledger transactions cannot be modified';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_blocks_append_only_trigger
+BEFORE UPDATE OR DELETE ON ledger_blocks
+FOR EACH ROW
+EXECUTE FUNCTION prevent_ledger_rewrite();
+
+CREATE TRIGGER ledger_transactions_append_only_trigger
+BEFORE UPDATE OR DELETE ON ledger_transactions
+FOR EACH ROW
+EXECUTE FUNCTION prevent_ledger_rewrite();
+
+-- Function to seal a block: inserts the block and assigns its transactions in
+-- one statement, so a block row can never exist without exactly the
+-- transactions its transactions_root was computed over
+CREATE OR REPLACE FUNCTION seal_ledger_block(
+  p_block_number BIGINT,
+  p_block_hash TEXT,
+  p_previous_hash TEXT,
+  p_transactions_root TEXT,
+  p_timestamp BIGINT,
+  p_tx_hashes TEXT[]
+)
+RETURNS ledger_blocks
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  new_block ledger_blocks;
+  sealed_count INTEGER;
+BEGIN
+  INSERT INTO ledger_blocks (
+    block_number,
+    block_hash,
+    previous_hash,
+    transactions_root,
+    transaction_count,
+    timestamp
+  )
+  VALUES (
+    p_block_number,
+    p_block_hash,
+    p_previous_hash,
+    p_transactions_root,
+    array_length(p_tx_hashes, 1),
+    p_timestamp
+  )
+  RETURNING * INTO new_block;
+
+  UPDATE ledger_transactions t
+  SET
+    block_number = p_block_number,
+    tx_index = hashes.idx - 1
+  FROM unnest(p_tx_hashes) WITH ORDINALITY AS hashes(tx_hash, idx)
+  WHERE t.tx_hash = hashes.tx_hash
+    AND t.block_number IS NULL;
+
+  GET DIAGNOSTICS sealed_count = ROW_COUNT;
+
+  IF sealed_count <> array_length(p_tx_hashes, 1) THEN
+    RAISE EXCEPTION 'Transactions were sealed by another block'
+      USING ERRCODE = '40001';
+  END IF;
+
+  RETURN new_block;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Create tables for supply chain participant signing keys
+
+-- Table for participants' public keys
+-- participant_id is the auth user id for managers, drivers and customers, or a
+-- caller-chosen id for external parties (suppliers, regulators, ...)
+CREATE TABLE IF NOT EXISTS participant_keys (
+  participant_id TEXT PRIMARY KEY,
+  participant_type TEXT NOT NULL CHECK (participant_type IN ('user', 'external')),
+  name TEXT NOT NULL,
+  role TEXT NOT NULL,
+  algorithm TEXT NOT NULL DEFAULT 'ECDSA-P256-SHA256',
+  -- Public key as a JWK; kept alongside its fingerprint so signers can be shown compactly
+  public_key JSONB NOT NULL,
+  public_key_fingerprint TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Table for custodial private keys
+-- Only present for participants whose key is held by the platform; external
+-- parties that register their own public key sign their payloads themselves
+CREATE TABLE IF NOT EXISTS participant_private_keys (
+  participant_id TEXT PRIMARY KEY REFERENCES participant_keys(participant_id) ON DELETE CASCADE,
+  private_key JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX participant_keys_role_idx ON participant_keys(role);
+
+-- Set up RLS policies
+ALTER TABLE participant_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE participant_private_keys ENABLE ROW LEVEL SECURITY;
+
+-- Public keys are viewable by authenticated users so anyone can check a signature
+CREATE POLICY "Participant keys are viewable by all authenticated users"
+ON participant_keys
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No policies on participant_private_keys: only edge functions (service role) can read them
+
+-- Record who signed each supply chain event
+ALTER TABLE shipment_events
+  ADD COLUMN IF NOT EXISTS signer_id TEXT REFERENCES participant_keys(participant_id),
+  ADD COLUMN IF NOT EXISTS signature TEXT;
+
+CREATE INDEX shipment_events_signer_id_idx ON shipment_events(signer_id);
@@ -0,0 +1,41 @@
+-- Batched Merkle anchoring of sensor readings
+
+-- Table for anchored batches of sensor readings
+-- One row per anchor_sensor_batch ledger transaction. A window normally has a
+-- single batch; readings that arrive after it was anchored form another one.
+CREATE TABLE IF NOT EXISTS sensor_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID REFERENCES shipments(id) ON DELETE CASCADE NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  reading_count INTEGER NOT NULL CHECK (reading_count > 0),
+  merkle_root TEXT NOT NULL,
+  blockchain_tx_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX sensor_batches_shipment_id_idx ON sensor_batches(shipment_id, window_start);
+
+-- Set up RLS policies
+ALTER TABLE sensor_batches ENABLE ROW LEVEL SECURITY;
+
+-- Batches are viewable by authenticated users so anyone can check a reading's proof
+CREATE POLICY "Sensor batches are viewable by all authenticated users"
+ON sensor_batches
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert policy: batches are only written by the blockchain-verify edge function
+
+-- Each reading's place in its batch's Merkle tree
+-- merkle_proof is a list of { hash, position } sibling steps from the leaf up to the root
+ALTER TABLE sensor_data
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES sensor_batches(id),
+  ADD COLUMN IF NOT EXISTS leaf_index INTEGER,
+  ADD COLUMN IF NOT EXISTS merkle_proof JSONB;
+
+-- Unanchored readings are what each anchoring run looks for
+CREATE INDEX sensor_data_unanchored_idx ON sensor_data(timestamp) WHERE batch_id IS NULL;
+CREATE INDEX sensor_data_batch_id_idx ON sensor_data(batch_id);
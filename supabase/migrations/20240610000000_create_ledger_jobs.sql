@@ -0,0 +1,158 @@
+-- Transactional outbox for ledger writes
+
+-- Table for pending ledger writes
+-- A job is written in the same transaction as the database change it anchors,
+-- so the change can't be committed without it. The ledger-outbox edge function
+-- works through due jobs, retrying with exponential backoff until the write
+-- succeeds or max_attempts is reached.
+CREATE TABLE IF NOT EXISTS ledger_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- A blockchain-verify operation: 'register' or one of the contract operations
+  operation TEXT NOT NULL,
+  -- Request body the operation reads its data from
+  request JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Row whose blockchain_tx_hash is filled in once the write succeeds
+  source_table TEXT CHECK (source_table IN ('shipments', 'reviews')),
+  source_id UUID,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  -- Set as soon as the ledger write succeeds, so a retry never records it twice
+  transaction_hash TEXT,
+  result JSONB,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Add indexes for faster queries
+CREATE INDEX ledger_jobs_due_idx ON ledger_jobs(status, next_attempt_at);
+CREATE INDEX ledger_jobs_source_idx ON ledger_jobs(source_table, source_id);
+
+-- Set up RLS policies
+ALTER TABLE ledger_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Managers can view every job
+CREATE POLICY "Managers can view all ledger jobs"
+ON ledger_jobs
+FOR SELECT
+TO authenticated
+USING (
+  (
+    SELECT role FROM user_roles WHERE user_id = auth.uid() AND role = 'manager'
+  ) IS NOT NULL
+);
+
+-- Users can view the jobs their own changes created
+CREATE POLICY "Users can view their own ledger jobs"
+ON ledger_jobs
+FOR SELECT
+TO authenticated
+USING (created_by = auth.uid());
+
+-- No insert or update policies: jobs are created by the triggers below and the
+-- ledger-outbox edge function, and only that function changes them
+
+-- Enqueue the ledger registration of a new shipment
+CREATE OR REPLACE FUNCTION enqueue_shipment_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.blockchain_tx_hash IS NULL THEN
+    INSERT INTO ledger_jobs (operation, request, source_table, source_id, created_by)
+    VALUES (
+      'register',
+      jsonb_build_object('shipmentData', jsonb_build_object(
+        'id', NEW.id,
+        'transportType', NEW.transport_type,
+        'origin', NEW.origin,
+        'destination', NEW.destination,
+        'carbonFootprint', NEW.carbon_footprint
+      )),
+      'shipments',
+      NEW.id,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shipments_enqueue_registration
+AFTER INSERT ON shipments
+FOR EACH ROW
+EXECUTE FUNCTION enqueue_shipment_registration();
+
+-- Enqueue the ledger registration of a new review
+CREATE OR REPLACE FUNCTION enqueue_review_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.blockchain_tx_hash IS NULL THEN
+    INSERT INTO ledger_jobs (operation, request, source_table, source_id, created_by)
+    SELECT
+      'register',
+      jsonb_build_object('shipmentData', jsonb_build_object(
+        'id', NEW.id,
+        'shipmentId', NEW.shipment_id,
+        'rating', NEW.rating,
+        'userId', NEW.user_id,
+        'transportType', shipments.transport_type
+      )),
+      'reviews',
+      NEW.id,
+      auth.uid()
+    FROM shipments
+    WHERE shipments.id = NEW.shipment_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reviews_enqueue_registration
+AFTER INSERT ON reviews
+FOR EACH ROW
+EXECUTE FUNCTION enqueue_review_registration();
+
+-- Claim due jobs for a worker run. Jobs left in 'processing' by a worker that
+-- died are picked up again once their lock is five minutes old.
+CREATE OR REPLACE FUNCTION claim_ledger_jobs(
+  p_limit INTEGER DEFAULT 10,
+  p_job_id UUID DEFAULT NULL,
+  p_source_id UUID DEFAULT NULL
+)
+RETURNS SETOF ledger_jobs
+LANGUAGE sql
+AS $$
+  UPDATE ledger_jobs
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = attempts + 1,
+      updated_at = now()
+  WHERE id IN (
+    SELECT id FROM ledger_jobs
+    WHERE (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'processing' AND locked_at < now() - interval '5 minutes')
+      )
+      AND (p_job_id IS NULL OR id = p_job_id)
+      AND (p_source_id IS NULL OR source_id = p_source_id)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Only the edge functions (service role) claim jobs
+REVOKE EXECUTE ON FUNCTION claim_ledger_jobs(INTEGER, UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,144 @@
+-- Idempotency keys for blockchain-verify requests and per-sender nonces for ledger transactions
+
+-- Table for idempotency keys
+-- The first request with a key claims it; its response is stored once the
+-- operation finishes, and any later request with the same key gets that
+-- response back instead of running the operation again. A key reused for a
+-- different operation is rejected.
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  -- Edge function the key was used with, e.g. 'blockchain-verify'
+  scope TEXT NOT NULL,
+  key TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  -- Null while the first request is still running
+  status_code INTEGER,
+  response JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  PRIMARY KEY (scope, key)
+);
+
+-- Stored responses are only ever read by the edge functions
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Queued contract operations carry their idempotency key on the job, so a
+-- double-submitted operation maps to the job the first submission created
+ALTER TABLE ledger_jobs ADD COLUMN idempotency_key TEXT UNIQUE;
+
+-- Table for sender nonces
+-- next_nonce is the nonce the sender's next transaction must carry. It only
+-- moves forward, in the same statement that appends the transaction, so each
+-- sender's transactions are numbered 0, 1, 2, ... without gaps and a replayed
+-- transaction is rejected for reusing a spent nonce.
+CREATE TABLE IF NOT EXISTS ledger_sender_nonces (
+  address TEXT PRIMARY KEY,
+  next_nonce BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE ledger_sender_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sender nonces are viewable by all authenticated users"
+ON ledger_sender_nonces
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Transactions recorded before nonces existed keep a null nonce and their original hash
+ALTER TABLE ledger_transactions ADD COLUMN nonce BIGINT;
+
+CREATE UNIQUE INDEX ledger_transactions_sender_nonce_idx ON ledger_transactions(from_address, nonce);
+
+-- The nonce is part of the transaction hash, so it can't be rewritten either
+CREATE OR REPLACE FUNCTION prevent_ledger_rewrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Ledger entries cannot be deleted';
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_blocks' THEN
+    RAISE EXCEPTION 'Ledger blocks cannot be modified';
+  END IF;
+
+  IF OLD.block_number IS NOT NULL
+    OR NEW.tx_hash <> OLD.tx_hash
+    OR NEW.payload <> OLD.payload
+    OR NEW.from_address <> OLD.from_address
+    OR NEW.to_address <> OLD.to_address
+    OR NEW.operation <> OLD.operation
+    OR NEW.timestamp <> OLD.timestamp
+    OR NEW.nonce IS DISTINCT FROM OLD.nonce THEN
+    RAISE EXCEPTION 'Ledger transactions cannot be modified';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to append a transaction: checks that p_nonce is the sender's next
+-- nonce, advances it and inserts the transaction in one statement. The sender
+-- row is locked, so two writers for one sender are serialized. A nonce other
+-- than the expected one raises LDG01 with the expected nonce as its detail.
+CREATE OR REPLACE FUNCTION append_ledger_transaction(
+  p_tx_hash TEXT,
+  p_from_address TEXT,
+  p_to_address TEXT,
+  p_operation TEXT,
+  p_payload JSONB,
+  p_timestamp BIGINT,
+  p_nonce BIGINT
+)
+RETURNS ledger_transactions
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  expected_nonce BIGINT;
+  new_transaction ledger_transactions;
+BEGIN
+  INSERT INTO ledger_sender_nonces (address)
+  VALUES (p_from_address)
+  ON CONFLICT (address) DO NOTHING;
+
+  SELECT next_nonce INTO expected_nonce
+  FROM ledger_sender_nonces
+  WHERE address = p_from_address
+  FOR UPDATE;
+
+  IF p_nonce <> expected_nonce THEN
+    RAISE EXCEPTION 'Nonce % for % is not the next nonce', p_nonce, p_from_address
+      USING ERRCODE = 'LDG01', DETAIL = expected_nonce::text;
+  END IF;
+
+  UPDATE ledger_sender_nonces
+  SET next_nonce = next_nonce + 1,
+      updated_at = now()
+  WHERE address = p_from_address;
+
+  INSERT INTO ledger_transactions (
+    tx_hash,
+    from_address,
+    to_address,
+    operation,
+    payload,
+    timestamp,
+    nonce
+  )
+  VALUES (
+    p_tx_hash,
+    p_from_address,
+    p_to_address,
+    p_operation,
+    p_payload,
+    p_timestamp,
+    p_nonce
+  )
+  RETURNING * INTO new_transaction;
+
+  RETURN new_transaction;
+END;
+$$;
+
+-- Only the edge functions (service role) append to the ledger
+REVOKE EXECUTE ON FUNCTION append_ledger_transaction(TEXT, TEXT, TEXT, TEXT, JSONB, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Create table for users' custodial wallets
+
+-- Table for wallet addresses
+-- A user's wallet is their custodial signing key in participant_keys: the
+-- address is derived from the public key, and the private key stays in
+-- participant_private_keys. Ledger writes made on a user's behalf are sent
+-- from this address.
+CREATE TABLE IF NOT EXISTS user_wallets (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  address TEXT NOT NULL UNIQUE CHECK (address ~ '^0x[0-9a-f]{40}$'),
+  participant_id TEXT NOT NULL REFERENCES participant_keys(participant_id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Set up RLS policies
+ALTER TABLE user_wallets ENABLE ROW LEVEL SECURITY;
+
+-- Addresses are on every transaction a user sends, so anyone signed in can look them up
+CREATE POLICY "User wallets are viewable by all authenticated users"
+ON user_wallets
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert or update policies: wallets are created by the wallets edge function
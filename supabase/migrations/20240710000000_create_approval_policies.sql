@@ -0,0 +1,130 @@
+-- Multi-signature approval for high-value contract actions
+
+-- Table for approval policies
+-- A policy names the parties who must sign before a contract action runs.
+-- required_roles are parties to the shipment: 'manager' is any manager,
+-- 'customer' the shipment's customer (its current owner) and 'driver' its
+-- assigned driver. The action runs once threshold of them have signed.
+-- Only actions over amount_above (in currency, when set) need approval; with
+-- no amount_above every action of the contract type does. An action in any
+-- other currency than the policy's needs approval whatever its amount.
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_type TEXT NOT NULL CHECK (contract_type IN ('release_payment', 'transfer_ownership', 'settle_dispute')),
+  name TEXT NOT NULL,
+  amount_above NUMERIC CHECK (amount_above >= 0),
+  currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+  required_roles app_role[] NOT NULL CHECK (cardinality(required_roles) > 0),
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (threshold <= cardinality(required_roles))
+);
+
+-- Table for actions waiting on signatures
+-- The request is the ledger outbox request the action runs with once it is
+-- approved; job_id is the ledger job it was queued as. The policy's parties
+-- and threshold are copied in, so editing a policy doesn't change what an
+-- action already waiting needs.
+CREATE TABLE IF NOT EXISTS pending_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES approval_policies(id),
+  contract_type TEXT NOT NULL,
+  shipment_id UUID NOT NULL REFERENCES shipments(id),
+  request JSONB NOT NULL,
+  required_roles app_role[] NOT NULL,
+  threshold INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'executed', 'rejected')),
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  -- Submitting the same key again returns this approval instead of a new one
+  idempotency_key TEXT UNIQUE,
+  job_id UUID REFERENCES ledger_jobs(id),
+  rejected_by UUID REFERENCES auth.users(id),
+  rejection_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- Table for approval signatures
+-- Each signer signs the action with their custodial key (see signing.ts),
+-- filling one of the required parties; a party is only ever filled once.
+CREATE TABLE IF NOT EXISTS approval_signatures (
+  approval_id UUID NOT NULL REFERENCES pending_approvals(id) ON DELETE CASCADE,
+  signer_id UUID NOT NULL REFERENCES auth.users(id),
+  party app_role NOT NULL,
+  signature TEXT NOT NULL,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (approval_id, signer_id),
+  UNIQUE (approval_id, party)
+);
+
+-- Add indexes for faster queries
+CREATE INDEX pending_approvals_status_idx ON pending_approvals(status, created_at);
+CREATE INDEX pending_approvals_shipment_idx ON pending_approvals(shipment_id);
+
+-- Set up RLS policies
+ALTER TABLE approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pending_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE approval_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Anyone signed in can see which actions need approval
+CREATE POLICY "Approval policies are viewable by all authenticated users"
+ON approval_policies
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Managers configure the policies
+CREATE POLICY "Managers can manage approval policies"
+ON approval_policies
+FOR ALL
+TO authenticated
+USING (
+  (
+    SELECT role FROM user_roles WHERE user_id = auth.uid() AND role = 'manager'
+  ) IS NOT NULL
+)
+WITH CHECK (
+  (
+    SELECT role FROM user_roles WHERE user_id = auth.uid() AND role = 'manager'
+  ) IS NOT NULL
+);
+
+-- Managers can view every pending action
+CREATE POLICY "Managers can view all pending approvals"
+ON pending_approvals
+FOR SELECT
+TO authenticated
+USING (
+  (
+    SELECT role FROM user_roles WHERE user_id = auth.uid() AND role = 'manager'
+  ) IS NOT NULL
+);
+
+-- Users can view the actions they requested
+CREATE POLICY "Users can view their own pending approvals"
+ON pending_approvals
+FOR SELECT
+TO authenticated
+USING (requested_by = auth.uid());
+
+-- Signatures are public to anyone who can see the action
+CREATE POLICY "Approval signatures are viewable with their approval"
+ON approval_signatures
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM pending_approvals WHERE pending_approvals.id = approval_signatures.approval_id
+  )
+);
+
+-- No insert or update policies on pending_approvals or approval_signatures:
+-- only the approvals and ledger-outbox edge functions change them
+
+-- Default policies
+INSERT INTO approval_policies (contract_type, name, amount_above, currency, required_roles, threshold)
+VALUES
+  ('release_payment', 'Payments over 10,000 USD', 10000, 'USD', ARRAY['manager', 'customer']::app_role[], 2),
+  ('transfer_ownership', 'Ownership transfers', NULL, NULL, ARRAY['manager', 'customer']::app_role[], 2),
+  ('settle_dispute', 'Dispute settlements', NULL, NULL, ARRAY['manager', 'customer']::app_role[], 2);
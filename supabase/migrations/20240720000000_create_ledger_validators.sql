@@ -0,0 +1,146 @@
+-- Proof-of-authority validator consortium for the ledger
+
+-- Blocks sealed once the consortium has started name the validator that
+-- proposed them. The hosted ledger always seals in round 0, as every
+-- validator key it needs is to hand.
+ALTER TABLE ledger_blocks ADD COLUMN IF NOT EXISTS proposer TEXT;
+
+-- Table for validator signatures over block hashes
+-- A block is only sealed with signatures from a quorum of the validator set
+-- it was proposed under (see consensus.ts)
+CREATE TABLE IF NOT EXISTS ledger_block_signatures (
+  block_number BIGINT NOT NULL REFERENCES ledger_blocks(block_number),
+  validator_address TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (block_number, validator_address)
+);
+
+-- Table for the keys of the validators the hosted ledger runs
+-- The validator set itself lives on the chain, as consortium_genesis and
+-- validator_vote transactions; this only holds the keys that sign for the
+-- partner nodes this deployment simulates
+CREATE TABLE IF NOT EXISTS ledger_validator_keys (
+  address TEXT PRIMARY KEY,
+  organisation TEXT NOT NULL,
+  public_key JSONB NOT NULL,
+  private_key JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Set up RLS policies
+ALTER TABLE ledger_block_signatures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_validator_keys ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can read the ledger can check its seals
+CREATE POLICY "Ledger block signatures are viewable by all authenticated users"
+ON ledger_block_signatures
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No policies on ledger_validator_keys: private keys are only read by edge
+-- functions through the service role
+
+-- Signatures are as append-only as the blocks they seal
+CREATE OR REPLACE FUNCTION prevent_ledger_rewrite()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Ledger entries cannot be deleted';
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_blocks' THEN
+    RAISE EXCEPTION 'Ledger blocks cannot be modified';
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_block_signatures' THEN
+    RAISE EXCEPTION 'Ledger block signatures cannot be modified';
+  END IF;
+
+  IF OLD.block_number IS NOT NULL
+    OR NEW.tx_hash <> OLD.tx_hash
+    OR NEW.payload <> OLD.payload
+    OR NEW.from_address <> OLD.from_address
+    OR NEW.to_address <> OLD.to_address
+    OR NEW.operation <> OLD.operation
+    OR NEW.timestamp <> OLD.timestamp
+    OR NEW.nonce IS DISTINCT FROM OLD.nonce THEN
+    RAISE EXCEPTION 'Ledger transactions cannot be modified';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_block_signatures_append_only_trigger
+BEFORE UPDATE OR DELETE ON ledger_block_signatures
+FOR EACH ROW
+EXECUTE FUNCTION prevent_ledger_rewrite();
+
+-- Sealing now also stores the proposer and the validator signatures, in the
+-- same statement as the block, so a consortium block can never exist unsigned.
+-- The old signature is dropped rather than overloaded, so calls that leave the
+-- new parameters out aren't ambiguous.
+DROP FUNCTION IF EXISTS seal_ledger_block(BIGINT, TEXT, TEXT, TEXT, BIGINT, TEXT[]);
+
+CREATE OR REPLACE FUNCTION seal_ledger_block(
+  p_block_number BIGINT,
+  p_block_hash TEXT,
+  p_previous_hash TEXT,
+  p_transactions_root TEXT,
+  p_timestamp BIGINT,
+  p_tx_hashes TEXT[],
+  p_proposer TEXT DEFAULT NULL,
+  p_signatures JSONB DEFAULT '[]'::jsonb
+)
+RETURNS ledger_blocks
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  new_block ledger_blocks;
+  sealed_count INTEGER;
+BEGIN
+  INSERT INTO ledger_blocks (
+    block_number,
+    block_hash,
+    previous_hash,
+    transactions_root,
+    transaction_count,
+    timestamp,
+    proposer
+  )
+  VALUES (
+    p_block_number,
+    p_block_hash,
+    p_previous_hash,
+    p_transactions_root,
+    array_length(p_tx_hashes, 1),
+    p_timestamp,
+    p_proposer
+  )
+  RETURNING * INTO new_block;
+
+  UPDATE ledger_transactions t
+  SET
+    block_number = p_block_number,
+    tx_index = hashes.idx - 1
+  FROM unnest(p_tx_hashes) WITH ORDINALITY AS hashes(tx_hash, idx)
+  WHERE t.tx_hash = hashes.tx_hash
+    AND t.block_number IS NULL;
+
+  GET DIAGNOSTICS sealed_count = ROW_COUNT;
+
+  IF sealed_count <> array_length(p_tx_hashes, 1) THEN
+    RAISE EXCEPTION 'Transactions were sealed by another block'
+      USING ERRCODE = '40001';
+  END IF;
+
+  INSERT INTO ledger_block_signatures (block_number, validator_address, signature)
+  SELECT p_block_number, s.validator, s.signature
+  FROM jsonb_to_recordset(p_signatures) AS s(validator TEXT, signature TEXT);
+
+  RETURN new_block;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- State machine for smart contracts
+
+-- Contracts start as drafts and only move through the transitions their
+-- contract type declares (see supply-chain-management/contractDefinitions.ts)
+UPDATE smart_contracts SET status = 'draft' WHERE status = 'created';
+ALTER TABLE smart_contracts ALTER COLUMN status SET DEFAULT 'draft';
+ALTER TABLE smart_contracts ADD CONSTRAINT smart_contracts_status_check
+  CHECK (status IN ('draft', 'active', 'fulfilled', 'breached', 'terminated', 'expired'));
+
+-- The shipment whose data the contract's guards are checked against
+ALTER TABLE smart_contracts ADD COLUMN IF NOT EXISTS shipment_id UUID REFERENCES shipments(id);
+CREATE INDEX smart_contracts_shipment_idx ON smart_contracts(shipment_id);
+
+-- Status changes go through the supply-chain-management edge function, which
+-- checks the transition's guards and records it on the ledger
+DROP POLICY IF EXISTS "Managers can update contracts" ON smart_contracts;
+
+-- Table for contract history
+-- One row per transition, with the outcome of each guard when it ran and the
+-- ledger entry recording it
+CREATE TABLE IF NOT EXISTS contract_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  transition TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  -- [{ guard, passed, detail }]
+  guards JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reason TEXT,
+  -- Null when the transition was applied automatically by an evaluation
+  triggered_by UUID REFERENCES auth.users(id),
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX contract_transitions_contract_idx ON contract_transitions(contract_id, created_at);
+
+-- Set up RLS policies
+ALTER TABLE contract_transitions ENABLE ROW LEVEL SECURITY;
+
+-- History is as visible as the contracts themselves
+CREATE POLICY "Contract transitions are viewable by all authenticated users"
+ON contract_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert or update policies: only the supply-chain-management edge function
+-- records transitions
@@ -0,0 +1,46 @@
+-- Escrow payments for shipments
+
+-- Table for escrow fund movements
+-- Each movement of an escrow contract's funds: the payer's deposit into the
+-- contract's account, the release to the carrier and any refund to the payer.
+-- Every one is also a ledger entry (escrow_deposit, escrow_release or
+-- escrow_refund), which balances are worked out from; a contract has at most
+-- one of each kind, so the row is claimed before the ledger write.
+CREATE TABLE IF NOT EXISTS escrow_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  shipment_id UUID REFERENCES shipments(id),
+  kind TEXT NOT NULL CHECK (kind IN ('deposit', 'release', 'refund')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  -- The payer, or the carrier for a release
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  -- Null while the ledger write is in progress
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, kind)
+);
+
+-- Add indexes for faster queries
+CREATE INDEX escrow_movements_shipment_idx ON escrow_movements(shipment_id);
+CREATE INDEX escrow_movements_user_idx ON escrow_movements(user_id);
+
+-- Set up RLS policies
+ALTER TABLE escrow_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are on the ledger anyway, so anyone signed in can see them
+CREATE POLICY "Escrow movements are viewable by all authenticated users"
+ON escrow_movements
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert or update policies: only the supply-chain-management edge function
+-- moves escrow funds
+
+-- Looking up a movement's ledger entry when its claim was abandoned
+CREATE INDEX ledger_transactions_escrow_movement_idx
+ON ledger_transactions ((payload->>'movementId'))
+WHERE operation IN ('escrow_deposit', 'escrow_release', 'escrow_refund');
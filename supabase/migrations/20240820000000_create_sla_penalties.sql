@@ -0,0 +1,43 @@
+-- Late-delivery penalties under SLA contracts
+
+-- Table for SLA penalties
+-- The penalty a breached SLA charges to the driver or carrier responsible for
+-- the shipment. Each is also an sla_penalty ledger entry; a contract charges
+-- at most one, so the row is claimed before the ledger write.
+CREATE TABLE IF NOT EXISTS sla_penalties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL UNIQUE REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  shipment_id UUID REFERENCES shipments(id),
+  responsible_id UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  -- Late beyond the deadline, the part excused by excluded causes, and what was charged for
+  late_minutes INTEGER NOT NULL,
+  excused_minutes INTEGER NOT NULL DEFAULT 0,
+  chargeable_minutes INTEGER NOT NULL,
+  -- Null while the ledger write is in progress
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX sla_penalties_shipment_idx ON sla_penalties(shipment_id);
+CREATE INDEX sla_penalties_responsible_idx ON sla_penalties(responsible_id);
+
+-- Set up RLS policies
+ALTER TABLE sla_penalties ENABLE ROW LEVEL SECURITY;
+
+-- Penalties are on the ledger anyway, so anyone signed in can see them
+CREATE POLICY "SLA penalties are viewable by all authenticated users"
+ON sla_penalties
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert or update policies: only the supply-chain-management edge function
+-- charges penalties
+
+-- Looking up a penalty's ledger entry when its claim was abandoned
+CREATE INDEX ledger_transactions_sla_penalty_idx
+ON ledger_transactions ((payload->>'penaltyId'))
+WHERE operation = 'sla_penalty';
@@ -0,0 +1,49 @@
+-- Claims opened by breached cold-chain contracts
+
+-- Table for cold-chain claims
+-- Opened for the shipment's customer against the driver or carrier responsible
+-- once its sensor readings have been out of range for longer than the
+-- contract allows. Each is also a cold_chain_claim ledger entry; a contract
+-- opens at most one, so the row is claimed before the ledger write.
+CREATE TABLE IF NOT EXISTS cold_chain_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL UNIQUE REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  shipment_id UUID REFERENCES shipments(id),
+  claimant_id UUID NOT NULL REFERENCES auth.users(id),
+  respondent_id UUID NOT NULL REFERENCES auth.users(id),
+  product_type TEXT NOT NULL,
+  -- Total time out of range when the claim was opened, and what the contract allowed
+  excursion_minutes INTEGER NOT NULL,
+  max_excursion_minutes INTEGER NOT NULL,
+  -- The readings out of range: { readingId, timestamp, temperature, humidity, leafHash }
+  evidence JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  -- Null while the ledger write is in progress
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX cold_chain_claims_shipment_idx ON cold_chain_claims(shipment_id);
+CREATE INDEX cold_chain_claims_respondent_idx ON cold_chain_claims(respondent_id);
+
+-- Set up RLS policies
+ALTER TABLE cold_chain_claims ENABLE ROW LEVEL SECURITY;
+
+-- Claims are on the ledger anyway, so anyone signed in can see them
+CREATE POLICY "Cold-chain claims are viewable by all authenticated users"
+ON cold_chain_claims
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- No insert or update policies: only the supply-chain-management edge function
+-- opens claims
+
+-- Looking up a claim's ledger entry when it was abandoned
+CREATE INDEX ledger_transactions_cold_chain_claim_idx
+ON ledger_transactions ((payload->>'claimId'))
+WHERE operation = 'cold_chain_claim';
+
+-- Cold-chain contracts check each shipment's readings in order
+CREATE INDEX IF NOT EXISTS sensor_data_shipment_timestamp_idx ON sensor_data(shipment_id, timestamp);
@@ -0,0 +1,177 @@
+-- Disputes between a shipment's parties, settled between them or ruled on by an arbiter
+
+-- Arbiters decide the disputes the parties can't settle themselves. They take
+-- no part in shipments: managers give the role, and assign an arbiter to each
+-- dispute that goes to arbitration.
+ALTER TYPE app_role ADD VALUE IF NOT EXISTS 'arbiter';
+
+-- Table for disputes
+-- Raised by a claimant against a respondent over a shipment they are both
+-- parties to, for amount_claimed in currency. The respondent answers by
+-- response_due_at; a dispute still unanswered then goes to arbitration, as
+-- does one either side sends there once it's answered. It ends settled (both
+-- sides accepted a proposal) or ruled (the arbiter decided it).
+-- award is what the respondent pays the claimant under the settlement or
+-- ruling. Each step is also a ledger entry; its hash is kept beside it, and
+-- is null while the ledger write is in progress.
+CREATE TABLE IF NOT EXISTS disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES shipments(id),
+  claimant_id UUID NOT NULL REFERENCES auth.users(id),
+  respondent_id UUID NOT NULL REFERENCES auth.users(id),
+  arbiter_id UUID REFERENCES auth.users(id),
+  reason TEXT NOT NULL,
+  amount_claimed NUMERIC NOT NULL CHECK (amount_claimed >= 0),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'responded', 'arbitration', 'settled', 'ruled')),
+  response_due_at TIMESTAMPTZ NOT NULL,
+  response TEXT,
+  responded_at TIMESTAMPTZ,
+  escalation_reason TEXT CHECK (escalation_reason IN ('response_overdue', 'requested')),
+  escalated_by UUID REFERENCES auth.users(id),
+  escalated_at TIMESTAMPTZ,
+  -- The arbiter's decision: who it favours, and why
+  ruling_outcome TEXT CHECK (ruling_outcome IN ('claimant', 'respondent', 'split')),
+  ruling TEXT,
+  award NUMERIC CHECK (award >= 0),
+  resolved_at TIMESTAMPTZ,
+  blockchain_tx_hash TEXT,
+  response_tx_hash TEXT,
+  escalation_tx_hash TEXT,
+  arbiter_tx_hash TEXT,
+  resolution_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (claimant_id <> respondent_id),
+  CHECK (arbiter_id IS NULL OR arbiter_id NOT IN (claimant_id, respondent_id))
+);
+
+-- Table for dispute evidence
+-- Files either side (or the arbiter) uploads. The file is kept in the private
+-- dispute-evidence bucket; its SHA-256 hash is anchored with a dispute_evidence
+-- ledger entry, so a copy can be checked against the ledger later.
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES auth.users(id),
+  party TEXT NOT NULL CHECK (party IN ('claimant', 'respondent', 'arbiter')),
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  file_hash TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  description TEXT,
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Table for proposed settlements
+-- Either side, or the arbiter, proposes an amount for the respondent to pay;
+-- a proposal from one side counts as that side's acceptance. Once both have
+-- accepted, the dispute is settled on it and the other open proposals lapse.
+CREATE TABLE IF NOT EXISTS dispute_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  terms TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'declined', 'lapsed')),
+  claimant_accepted_at TIMESTAMPTZ,
+  respondent_accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Table for dispute payments
+-- The payment adjustment a settlement or ruling makes: the award, from the
+-- respondent's wallet to the claimant's, as a dispute_payment ledger entry.
+-- A dispute pays at most once, so the row is claimed before the ledger write.
+CREATE TABLE IF NOT EXISTS dispute_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL UNIQUE REFERENCES disputes(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES auth.users(id),
+  payee_id UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  blockchain_tx_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Add indexes for faster queries
+CREATE INDEX disputes_shipment_idx ON disputes(shipment_id);
+CREATE INDEX disputes_claimant_idx ON disputes(claimant_id);
+CREATE INDEX disputes_respondent_idx ON disputes(respondent_id);
+CREATE INDEX disputes_arbiter_idx ON disputes(arbiter_id);
+-- Unanswered disputes are swept for missed deadlines
+CREATE INDEX disputes_response_due_idx ON disputes(response_due_at) WHERE status = 'open';
+CREATE INDEX dispute_evidence_dispute_idx ON dispute_evidence(dispute_id, created_at);
+CREATE INDEX dispute_proposals_dispute_idx ON dispute_proposals(dispute_id, created_at);
+
+-- A claimant has one dispute at a time with each respondent over a shipment
+CREATE UNIQUE INDEX disputes_one_active_idx
+ON disputes(shipment_id, claimant_id, respondent_id)
+WHERE status IN ('open', 'responded', 'arbitration');
+
+-- Set up RLS policies
+ALTER TABLE disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_payments ENABLE ROW LEVEL SECURITY;
+
+-- A dispute is seen by its parties, its arbiter and managers
+CREATE POLICY "Disputes are viewable by their parties and managers"
+ON disputes
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() IN (claimant_id, respondent_id, arbiter_id) OR
+  EXISTS (
+    SELECT role FROM user_roles WHERE user_id = auth.uid() AND role = 'manager'
+  )
+);
+
+-- And so is everything filed under it
+CREATE POLICY "Dispute evidence is viewable by whoever can see the dispute"
+ON dispute_evidence
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM disputes WHERE disputes.id = dispute_evidence.dispute_id));
+
+CREATE POLICY "Dispute proposals are viewable by whoever can see the dispute"
+ON dispute_proposals
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM disputes WHERE disputes.id = dispute_proposals.dispute_id));
+
+CREATE POLICY "Dispute payments are viewable by whoever can see the dispute"
+ON dispute_payments
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM disputes WHERE disputes.id = dispute_payments.dispute_id));
+
+-- No insert or update policies: only the disputes edge function changes disputes
+
+-- Evidence files; private, so they are only handed out as signed URLs by the disputes function
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('dispute-evidence', 'dispute-evidence', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Looking up a payment's ledger entry when its claim was abandoned
+CREATE INDEX ledger_transactions_dispute_payment_idx
+ON ledger_transactions ((payload->>'paymentId'))
+WHERE operation = 'dispute_payment';
+
+-- settle_dispute approval policies now cover the awards of settled and
+-- ruled disputes: an award one applies to waits for its signatures before it
+-- is paid. Settlements waiting under the old settle_dispute contract
+-- operation, which is gone, can't run any more; their disputes are raised
+-- again through the disputes workflow.
+UPDATE pending_approvals
+SET status = 'rejected',
+    rejection_reason = 'Dispute settlements are no longer contract operations; raise the dispute through the disputes workflow',
+    resolved_at = now()
+WHERE contract_type = 'settle_dispute' AND status = 'pending';
+
+UPDATE approval_policies
+SET name = 'Dispute settlements and rulings'
+WHERE contract_type = 'settle_dispute' AND name = 'Dispute settlements';